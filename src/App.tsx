@@ -52,6 +52,7 @@ import ContractDetail from "./pages/ContractDetail";
 import EditContract from "./pages/EditContract";
 import NotificationCenter from "./pages/NotificationCenter";
 import RecycleBin from "./pages/RecycleBin";
+import Duplicates from "./pages/Duplicates";
 import RewardHistory from "./pages/RewardHistory";
 import { ContractTestDashboard } from "./components/testing/ContractTestDashboard";
 import DesignCreation from "./pages/DesignCreation";
@@ -70,6 +71,9 @@ import ReportBuilder from "./pages/ReportBuilder";
 import ReportRunner from "./pages/ReportRunner";
 import ScheduledReports from "./pages/ScheduledReports";
 import TargetsCommissionReports from "./pages/TargetsCommissionReports";
+import CashFlowForecast from "./pages/CashFlowForecast";
+import Receivables from "./pages/Receivables";
+import LeadFunnelReport from "./pages/LeadFunnelReport";
 import InstallmentDetail from "./pages/InstallmentDetail";
 import Pricing from "./pages/Pricing";
 import Devices from "./pages/Devices";
@@ -382,6 +386,11 @@ const App = () => (
                         <RecycleBin />
                       </ProtectedRoute>
                     } />
+                    <Route path="/duplicates" element={
+                      <ProtectedRoute>
+                        <Duplicates />
+                      </ProtectedRoute>
+                    } />
                     <Route path="/master-activity-log" element={
                       <ProtectedRoute>
                         <MasterActivityLog />
@@ -475,6 +484,21 @@ const App = () => (
                        <TargetsCommissionReports />
                      </ProtectedRoute>
                    } />
+                   <Route path="/cash-flow-forecast" element={
+                     <ProtectedRoute>
+                       <CashFlowForecast />
+                     </ProtectedRoute>
+                   } />
+                   <Route path="/receivables" element={
+                     <ProtectedRoute>
+                       <Receivables />
+                     </ProtectedRoute>
+                   } />
+                   <Route path="/lead-funnel" element={
+                     <ProtectedRoute>
+                       <LeadFunnelReport />
+                     </ProtectedRoute>
+                   } />
                    <Route path="/installments/:paymentId" element={
                      <ProtectedRoute>
                        <InstallmentDetail />
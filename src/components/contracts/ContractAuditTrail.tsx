@@ -88,6 +88,13 @@ export const ContractAuditTrail = ({ contractId }: ContractAuditTrailProps) => {
       case 'payment_stage_changed':
       case 'payment_stage_auto_updated':
         return <DollarSign className="h-4 w-4 text-blue-600" />;
+      case 'payment_receipt_registered':
+      case 'payment_allocated':
+        return <DollarSign className="h-4 w-4 text-green-600" />;
+      case 'payment_allocation_changed':
+      case 'payment_allocation_removed':
+      case 'payment_receipt_deleted':
+        return <DollarSign className="h-4 w-4 text-yellow-600" />;
       case 'todo_completed':
         return <Calendar className="h-4 w-4 text-green-600" />;
       case 'todo_uncompleted':
@@ -95,7 +102,10 @@ export const ContractAuditTrail = ({ contractId }: ContractAuditTrailProps) => {
       case 'contact_linked':
         return <User className="h-4 w-4 text-purple-600" />;
       case 'company_linked':
+      case 'deal_linked':
         return <Building2 className="h-4 w-4 text-orange-600" />;
+      case 'created_from_quote':
+        return <FileText className="h-4 w-4 text-green-600" />;
       default:
         return <FileText className="h-4 w-4 text-gray-600" />;
     }
@@ -104,13 +114,18 @@ export const ContractAuditTrail = ({ contractId }: ContractAuditTrailProps) => {
   const getActionColor = (action: string) => {
     switch (action) {
       case 'created':
+      case 'created_from_quote':
       case 'todo_added':
       case 'todo_completed':
         return 'default';
       case 'updated':
       case 'payment_stage_changed':
       case 'payment_stage_auto_updated':
+      case 'payment_allocation_changed':
         return 'secondary';
+      case 'payment_receipt_registered':
+      case 'payment_allocated':
+        return 'default';
       case 'todo_uncompleted':
         return 'outline';
       default:
@@ -134,10 +149,24 @@ export const ContractAuditTrail = ({ contractId }: ContractAuditTrailProps) => {
         return `Payment stage changed`;
       case 'payment_stage_auto_updated':
         return `Payment stage automatically updated`;
+      case 'payment_receipt_registered':
+        return `Payment registered`;
+      case 'payment_receipt_deleted':
+        return `Payment deleted`;
+      case 'payment_allocated':
+        return `Payment allocated to instalment`;
+      case 'payment_allocation_changed':
+        return `Payment allocation changed`;
+      case 'payment_allocation_removed':
+        return `Payment allocation removed`;
       case 'contact_linked':
         return `Contact linked to contract`;
       case 'company_linked':
         return `Company linked to contract`;
+      case 'created_from_quote':
+        return `Contract created from accepted quote`;
+      case 'deal_linked':
+        return `Deal linked to contract`;
       default:
         return log.action.replace(/_/g, ' ');
     }
@@ -0,0 +1,232 @@
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DollarSign, Plus, Shuffle, Trash2, Wallet } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { PaymentReceipt, PaymentReceiptForm } from '@/components/forms/PaymentReceiptForm';
+import { roundMoney } from '@/lib/quote-totals';
+
+interface ReceiptWithAllocations extends PaymentReceipt {
+  payment_allocations: {
+    amount: number;
+    payment_term_id: string;
+    contract_payment_terms: { installment_number: number; name: string | null } | null;
+  }[];
+}
+
+interface ContractPaymentReceiptsProps {
+  contractId: string;
+  canEdit: boolean;
+  currencyCode?: string;
+  /** Called after receipts or their allocations change, so that installments can be reloaded */
+  onUpdate: () => void;
+}
+
+const receiptCredit = (receipt: ReceiptWithAllocations) =>
+  roundMoney(Number(receipt.amount) - receipt.payment_allocations.reduce((sum, allocation) => sum + Number(allocation.amount), 0));
+
+export const ContractPaymentReceipts = ({ contractId, canEdit, currencyCode, onUpdate }: ContractPaymentReceiptsProps) => {
+  const [receipts, setReceipts] = useState<ReceiptWithAllocations[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [reallocating, setReallocating] = useState<PaymentReceipt | null>(null);
+  const [applyingCredit, setApplyingCredit] = useState(false);
+
+  useEffect(() => {
+    if (contractId) {
+      fetchReceipts();
+    }
+  }, [contractId]);
+
+  const fetchReceipts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_receipts')
+        .select(`
+          id, amount, received_date, reference, notes,
+          payment_allocations (amount, payment_term_id, contract_payment_terms (installment_number, name))
+        `)
+        .eq('contract_id', contractId)
+        .order('received_date', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setReceipts((data || []) as unknown as ReceiptWithAllocations[]);
+    } catch (error) {
+      console.error('Error fetching payment receipts:', error);
+      toast.error('Failed to load payments');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) =>
+    new Intl.NumberFormat('en-US', {
+      style: 'currency',
+      currency: currencyCode || 'USD',
+    }).format(amount || 0);
+
+  const handleChanged = async () => {
+    setIsRegistering(false);
+    setReallocating(null);
+    await fetchReceipts();
+    onUpdate();
+  };
+
+  const applyCredit = async () => {
+    setApplyingCredit(true);
+    try {
+      const { data: remaining, error } = await supabase.rpc('apply_contract_credit', { _contract_id: contractId });
+      if (error) throw error;
+      toast.success(
+        remaining > 0 ? `Credit applied, ${formatCurrency(remaining)} remains unallocated` : 'Credit applied to open instalments'
+      );
+      await handleChanged();
+    } catch (error) {
+      console.error('Error applying credit:', error);
+      toast.error('Failed to apply credit');
+    } finally {
+      setApplyingCredit(false);
+    }
+  };
+
+  const deleteReceipt = async (receipt: ReceiptWithAllocations) => {
+    if (!confirm('Delete this payment? Its allocations are removed from the instalments.')) return;
+
+    const { error } = await supabase.from('payment_receipts').delete().eq('id', receipt.id);
+    if (error) {
+      console.error('Error deleting payment receipt:', error);
+      toast.error('Failed to delete payment');
+      return;
+    }
+    toast.success('Payment deleted');
+    await handleChanged();
+  };
+
+  const totalReceived = roundMoney(receipts.reduce((sum, receipt) => sum + Number(receipt.amount), 0));
+  const totalCredit = roundMoney(receipts.reduce((sum, receipt) => sum + receiptCredit(receipt), 0));
+
+  if (loading) {
+    return <div className="h-20 bg-muted rounded animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex gap-4 text-sm">
+          <span className="flex items-center gap-1">
+            <DollarSign className="h-4 w-4 text-muted-foreground" />
+            Received: <span className="font-semibold">{formatCurrency(totalReceived)}</span>
+          </span>
+          <span className="flex items-center gap-1">
+            <Wallet className="h-4 w-4 text-muted-foreground" />
+            Unallocated credit: <span className="font-semibold">{formatCurrency(totalCredit)}</span>
+          </span>
+        </div>
+        {canEdit && (
+          <div className="flex gap-2">
+            {totalCredit > 0 && (
+              <Button variant="outline" size="sm" onClick={applyCredit} disabled={applyingCredit}>
+                <Shuffle className="h-4 w-4 mr-2" />
+                {applyingCredit ? 'Applying...' : 'Apply Credit'}
+              </Button>
+            )}
+            <Button size="sm" onClick={() => setIsRegistering(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Register Payment
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {receipts.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No payments registered yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Received</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead>Allocated To</TableHead>
+              <TableHead className="text-right">Credit</TableHead>
+              {canEdit && <TableHead className="w-24" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {receipts.map(receipt => {
+              const credit = receiptCredit(receipt);
+              return (
+                <TableRow key={receipt.id}>
+                  <TableCell>{new Date(receipt.received_date).toLocaleDateString()}</TableCell>
+                  <TableCell className="text-right font-medium">{formatCurrency(Number(receipt.amount))}</TableCell>
+                  <TableCell>
+                    <div>{receipt.reference || '-'}</div>
+                    {receipt.notes && <div className="text-xs text-muted-foreground line-clamp-1">{receipt.notes}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {receipt.payment_allocations.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">Not allocated</span>
+                      ) : (
+                        receipt.payment_allocations.map(allocation => (
+                          <Badge key={allocation.payment_term_id} variant="outline" className="text-xs">
+                            {allocation.contract_payment_terms?.name ||
+                              `Instalment ${allocation.contract_payment_terms?.installment_number}`}
+                            : {formatCurrency(Number(allocation.amount))}
+                          </Badge>
+                        ))
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className={`text-right ${credit > 0 ? 'text-green-600' : 'text-muted-foreground'}`}>
+                    {formatCurrency(credit)}
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Reallocate"
+                          onClick={() => setReallocating(receipt)}
+                        >
+                          <Shuffle className="h-3 w-3" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          title="Delete"
+                          onClick={() => deleteReceipt(receipt)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      {(isRegistering || reallocating) && (
+        <PaymentReceiptForm
+          contractId={contractId}
+          receipt={reallocating}
+          formatCurrency={formatCurrency}
+          onSuccess={handleChanged}
+          onCancel={() => {
+            setIsRegistering(false);
+            setReallocating(null);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -47,6 +47,8 @@ export const ContractPaymentTerms = ({
   const [paymentTerms, setPaymentTerms] = useState<PaymentTerm[]>([]);
   const [paymentStages, setPaymentStages] = useState<any[]>([]);
   const [todos, setTodos] = useState<any[]>([]);
+  // Follow-ups of overdue installments do not hold an installment back from "Due"
+  const [collectionTodoIds, setCollectionTodoIds] = useState<Set<string>>(new Set());
   const [attachments, setAttachments] = useState<any[]>([]);
   const [contractCurrency, setContractCurrency] = useState<any>(null);
   const [tenantCurrency, setTenantCurrency] = useState<any>(null);
@@ -77,7 +79,7 @@ export const ContractPaymentTerms = ({
         _user_id: user.id
       });
       setCanUserEdit(canModify || false);
-      const [paymentTermsRes, paymentStagesRes, todosRes, attachmentsRes, contractRes, tenantCurrencyRes] = await Promise.all([
+      const [paymentTermsRes, paymentStagesRes, todosRes, attachmentsRes, contractRes, tenantCurrencyRes, collectionsRes] = await Promise.all([
         supabase.from('contract_payment_terms').select(`
             *,
             contract_payment_stages (name, sort_order)
@@ -86,7 +88,8 @@ export const ContractPaymentTerms = ({
         supabase.from('todos').select('*').eq('entity_type', 'contract').eq('entity_id', contractId),
         supabase.from('contract_payment_attachments').select('*').eq('tenant_id', currentTenant?.id),
         supabase.from('contracts').select('currency_id').eq('id', contractId).single(),
-        supabase.from('currencies').select('*').eq('id', currentTenant?.default_currency_id).single()
+        supabase.from('currencies').select('*').eq('id', currentTenant?.default_currency_id).single(),
+        supabase.from('payment_collections').select('follow_up_todo_id, escalation_todo_id').eq('contract_id', contractId)
       ]);
       if (paymentTermsRes.error) throw paymentTermsRes.error;
       if (paymentStagesRes.error) throw paymentStagesRes.error;
@@ -112,6 +115,7 @@ export const ContractPaymentTerms = ({
       setPaymentTerms(paymentTermsRes.data as unknown as PaymentTerm[] || []);
       setPaymentStages(paymentStagesRes.data || []);
       setTodos(todosRes.data || []);
+      setCollectionTodoIds(new Set((collectionsRes.data || []).flatMap(collection => [collection.follow_up_todo_id, collection.escalation_todo_id]).filter(Boolean)));
       setAttachments(attachmentsRes.data || []);
       
       // Auto-update stages only on initial load
@@ -142,7 +146,7 @@ export const ContractPaymentTerms = ({
       return paymentStages.find(stage => stage.name === 'Partially Paid') || null;
     }
 
-    const paymentTodos = todos.filter(todo => todo.payment_term_id === paymentTerm.id);
+    const paymentTodos = todos.filter(todo => todo.payment_term_id === paymentTerm.id && !collectionTodoIds.has(todo.id));
     const incompleteTodos = paymentTodos.filter(todo => todo.status !== 'completed');
     const today = new Date();
     const dueDate = paymentTerm.due_date ? new Date(paymentTerm.due_date) : null;
@@ -302,7 +306,7 @@ export const ContractPaymentTerms = ({
       const timeoutId = setTimeout(() => {
         // Check each payment term to see if all tasks are completed
         paymentTerms.forEach(async (paymentTerm) => {
-          const paymentTodos = todos.filter(todo => todo.payment_term_id === paymentTerm.id);
+          const paymentTodos = todos.filter(todo => todo.payment_term_id === paymentTerm.id && !collectionTodoIds.has(todo.id));
           const incompleteTodos = paymentTodos.filter(todo => todo.status !== 'completed');
           
           // Only trigger auto-update if all tasks are now completed and there are tasks
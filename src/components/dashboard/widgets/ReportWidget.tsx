@@ -1,9 +1,14 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { ReportVisualization } from '@/components/reports/ReportVisualization';
+import { ReportParameterInputs } from '@/components/reports/ReportParameterInputs';
+import { DrillDownTarget, ReportDrillDown } from '@/components/reports/ReportDrillDown';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
-import { Loader2 } from 'lucide-react';
+import { Filter, Loader2 } from 'lucide-react';
+import { ReportDataResult, ReportParameter } from '@/lib/report-query';
+import { ParameterValues, initialParameterValues, missingParameters } from '@/lib/report-parameters';
 
 interface ReportWidgetProps {
   config: {
@@ -13,23 +18,36 @@ interface ReportWidgetProps {
       reportId?: string;
       reportName?: string;
     };
+    /** Widget instance settings; `parameters` holds the values this widget runs its report with */
+    filters?: {
+      parameters?: ParameterValues;
+    };
   };
   onUpdateConfig?: (updates: any) => void;
   customizeMode?: boolean;
 }
 
-export function ReportWidget({ config }: ReportWidgetProps) {
+export function ReportWidget({ config, onUpdateConfig, customizeMode }: ReportWidgetProps) {
   const { currentTenant } = useTenant();
   const [loading, setLoading] = useState(true);
   const [data, setData] = useState<any[]>([]);
+  const [result, setResult] = useState<Omit<ReportDataResult, 'data'> | null>(null);
   const [reportInfo, setReportInfo] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [showParameters, setShowParameters] = useState(false);
+  const [draftValues, setDraftValues] = useState<ParameterValues>({});
+  const [drillTarget, setDrillTarget] = useState<DrillDownTarget | null>(null);
+
+  const storedValues = config.filters?.parameters;
+  const parameters: ReportParameter[] = reportInfo?.query_config?.parameters || [];
+  const parameterValues = initialParameterValues(parameters, storedValues);
+  const missing = missingParameters(parameters, parameterValues);
 
   useEffect(() => {
     if (config.report_widget_id && currentTenant) {
       loadReportData();
     }
-  }, [config.report_widget_id, currentTenant]);
+  }, [config.report_widget_id, currentTenant, JSON.stringify(storedValues)]);
 
   if (!config.report_widget_id) {
     return (
@@ -93,6 +111,16 @@ export function ReportWidget({ config }: ReportWidgetProps) {
       }
       setReportInfo(report);
 
+      // Reports with required parameters wait until the widget has values for them
+      const values = initialParameterValues(report.query_config?.parameters, storedValues);
+      setDraftValues(values);
+      if (missingParameters(report.query_config?.parameters, values).length > 0) {
+        setData([]);
+        setResult(null);
+        setShowParameters(true);
+        return;
+      }
+
       // Generate report data using the edge function
       const { data: reportData, error: dataError } = await supabase.functions.invoke(
         'generate-report-data',
@@ -101,6 +129,7 @@ export function ReportWidget({ config }: ReportWidgetProps) {
             dataSource: report.data_source,
             queryConfig: report.query_config || { fields: [], filters: [], sorting: [] },
             tenantId: currentTenant.id,
+            parameters: values,
           },
         }
       );
@@ -111,7 +140,9 @@ export function ReportWidget({ config }: ReportWidgetProps) {
         return;
       }
 
-      setData(reportData.data || []);
+      const { data: rows, ...summary } = reportData as ReportDataResult;
+      setData(rows || []);
+      setResult(summary);
     } catch (err) {
       console.error('Error in loadReportData:', err);
       setError('An unexpected error occurred');
@@ -120,6 +151,11 @@ export function ReportWidget({ config }: ReportWidgetProps) {
     }
   };
 
+  const applyParameters = () => {
+    onUpdateConfig?.({ filters: { ...config.filters, parameters: draftValues } });
+    setShowParameters(false);
+  };
+
   if (error) {
     return (
       <Card className="h-full">
@@ -164,23 +200,60 @@ export function ReportWidget({ config }: ReportWidgetProps) {
   return (
     <Card className="h-full">
       <CardHeader>
-        <CardTitle className="text-sm">{reportInfo.name}</CardTitle>
+        <div className="flex items-start justify-between gap-2">
+          <CardTitle className="text-sm">{reportInfo.name}</CardTitle>
+          {parameters.length > 0 && onUpdateConfig && !customizeMode && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => setShowParameters(!showParameters)}
+            >
+              <Filter className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
         {reportInfo.description && (
           <p className="text-xs text-muted-foreground">{reportInfo.description}</p>
         )}
       </CardHeader>
       <CardContent className="h-full">
-        <div className="h-full min-h-[200px]">
-          <ReportVisualization
-            data={data}
-            fields={reportInfo.query_config?.fields || []}
-            visualizationType={reportInfo.visualization_type || 'table'}
-            dataSource={reportInfo.data_source}
-            loading={false}
-            queryConfig={reportInfo.query_config || {}}
-          />
-        </div>
+        {(showParameters || customizeMode) && parameters.length > 0 && onUpdateConfig && (
+          <div className="space-y-3 mb-4">
+            <ReportParameterInputs parameters={parameters} values={draftValues} onChange={setDraftValues} />
+            <Button size="sm" onClick={applyParameters}>Apply</Button>
+          </div>
+        )}
+        {missing.length > 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Set {missing.map(parameter => parameter.label).join(', ')} to show this report.
+          </p>
+        ) : (
+          <div className="h-full min-h-[200px]">
+            <ReportVisualization
+              data={data}
+              fields={reportInfo.query_config?.fields || []}
+              visualizationType={reportInfo.visualization_type || 'table'}
+              dataSource={reportInfo.data_source}
+              loading={false}
+              queryConfig={reportInfo.query_config || {}}
+              columns={result?.columns}
+              totals={result?.totals}
+              periods={result?.periods}
+              onDrillDown={(group, label) => setDrillTarget({ group, label })}
+            />
+          </div>
+        )}
       </CardContent>
+
+      <ReportDrillDown
+        target={drillTarget}
+        onClose={() => setDrillTarget(null)}
+        dataSource={reportInfo.data_source}
+        queryConfig={reportInfo.query_config || { fields: [], filters: [], sorting: [] }}
+        tenantId={currentTenant?.id}
+        parameters={parameterValues}
+      />
     </Card>
   );
 }
\ No newline at end of file
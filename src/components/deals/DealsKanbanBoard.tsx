@@ -0,0 +1,201 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Calendar, User } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useCurrency } from '@/hooks/use-currency';
+import { buildConversionRateTable } from '@/lib/quote-totals';
+import { buildPipelineColumns, PipelineDeal, PipelineStage } from '@/lib/deal-pipeline';
+
+export interface BoardDeal extends PipelineDeal {
+  name: string;
+  expected_close_date?: string | null;
+  customers: { name: string } | null;
+  currencies: { symbol: string } | null;
+  assigned_user: { first_name: string; last_name: string } | null;
+  task_counts: { total: number; overdue: number };
+}
+
+interface DealsKanbanBoardProps {
+  deals: BoardDeal[];
+  loading: boolean;
+  canMove: boolean;
+  onMoveDeal: (dealId: string, stage: PipelineStage) => void;
+  onOpenDeal: (dealId: string) => void;
+}
+
+// Droppable id of the column holding deals without an active stage; deals cannot be dropped into it
+const UNSTAGED_COLUMN = 'unstaged';
+
+export const DealsKanbanBoard = ({ deals, loading, canMove, onMoveDeal, onOpenDeal }: DealsKanbanBoardProps) => {
+  const { currentTenant } = useTenant();
+  const { formatCurrency } = useCurrency();
+  const tenantId = currentTenant?.id;
+
+  const { data: stages = [], isLoading: stagesLoading } = useQuery({
+    queryKey: ['deal-pipeline-stages', tenantId],
+    enabled: !!tenantId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('deal_stages')
+        .select('id, name, sort_order, win_percentage')
+        .eq('tenant_id', tenantId)
+        .eq('active', true)
+        .order('sort_order');
+      if (error) throw error;
+      return (data || []) as PipelineStage[];
+    },
+  });
+
+  const { data: rates = {} } = useQuery({
+    queryKey: ['deal-pipeline-rates', tenantId],
+    enabled: !!tenantId,
+    queryFn: async () => {
+      const [settingsResult, ratesResult] = await Promise.all([
+        supabase
+          .from('tenant_pricing_settings')
+          .select('custom_conversion_rates')
+          .eq('tenant_id', tenantId)
+          .maybeSingle(),
+        supabase
+          .from('currency_settings')
+          .select('from_currency_id, to_currency_id, conversion_rate')
+          .eq('tenant_id', tenantId),
+      ]);
+      return buildConversionRateTable(ratesResult.data || [], settingsResult.data?.custom_conversion_rates);
+    },
+  });
+
+  const columns = useMemo(
+    () => buildPipelineColumns(stages, deals, { rates, currencyId: currentTenant?.default_currency_id ?? null }),
+    [stages, deals, rates, currentTenant?.default_currency_id]
+  );
+
+  const handleDragEnd = (result: DropResult) => {
+    const { destination, source, draggableId } = result;
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    const stage = stages.find(s => s.id === destination.droppableId);
+    if (stage) {
+      onMoveDeal(draggableId, stage);
+    }
+  };
+
+  if (loading || stagesLoading) {
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {[1, 2, 3, 4].map(i => (
+          <div key={i} className="w-72 shrink-0 h-96 bg-muted rounded-lg animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (stages.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8 text-muted-foreground">
+          No active deal stages. Add stages in CRM settings to use the pipeline board.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => {
+          const columnId = column.stage?.id ?? UNSTAGED_COLUMN;
+          return (
+            <div key={columnId} className="w-72 shrink-0 flex flex-col bg-muted/40 rounded-lg border">
+              <div className="p-3 border-b space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-semibold text-sm truncate">{column.stage?.name ?? 'No Stage'}</h3>
+                  <Badge variant="secondary">{column.count}</Badge>
+                </div>
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {formatCurrency(column.weighted)} weighted
+                    {column.unconverted > 0 && (
+                      <span title={`${column.unconverted} deal(s) without a conversion rate are not included`}> *</span>
+                    )}
+                  </span>
+                  {column.stage && <span>{column.stage.win_percentage}%</span>}
+                </div>
+                <p className="text-xs text-muted-foreground">{formatCurrency(column.total)} total</p>
+              </div>
+
+              <Droppable droppableId={columnId} isDropDisabled={!column.stage || !canMove}>
+                {(provided, snapshot) => (
+                  <div
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className={`flex-1 p-2 space-y-2 min-h-[120px] max-h-[65vh] overflow-y-auto rounded-b-lg ${
+                      snapshot.isDraggingOver ? 'bg-primary/5' : ''
+                    }`}
+                  >
+                    {column.deals.map((deal, index) => (
+                      <Draggable key={deal.id} draggableId={deal.id} index={index} isDragDisabled={!canMove}>
+                        {(provided, snapshot) => (
+                          <Card
+                            ref={provided.innerRef}
+                            {...provided.draggableProps}
+                            {...provided.dragHandleProps}
+                            className={`cursor-pointer hover:shadow-md transition-shadow ${snapshot.isDragging ? 'shadow-lg' : ''}`}
+                            onClick={() => onOpenDeal(deal.id)}
+                          >
+                            <CardContent className="p-3 space-y-1.5">
+                              <p className="font-medium text-sm line-clamp-2">{deal.name}</p>
+                              {deal.customers && (
+                                <p className="text-xs text-muted-foreground truncate">{deal.customers.name}</p>
+                              )}
+                              {!!deal.value && (
+                                <p className="text-sm font-semibold">
+                                  {deal.currencies?.symbol || '$'}
+                                  {Number(deal.value).toLocaleString()}
+                                  {deal.probability > 0 && (
+                                    <span className="text-xs font-normal text-muted-foreground ml-1">
+                                      ({deal.probability}%)
+                                    </span>
+                                  )}
+                                </p>
+                              )}
+                              <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                                {deal.assigned_user && (
+                                  <span className="flex items-center gap-1">
+                                    <User className="h-3 w-3" />
+                                    {`${deal.assigned_user.first_name} ${deal.assigned_user.last_name}`.trim()}
+                                  </span>
+                                )}
+                                {deal.expected_close_date && (
+                                  <span className="flex items-center gap-1">
+                                    <Calendar className="h-3 w-3" />
+                                    {new Date(deal.expected_close_date).toLocaleDateString()}
+                                  </span>
+                                )}
+                                {deal.task_counts.overdue > 0 && (
+                                  <span className="flex items-center gap-1 text-destructive">
+                                    <AlertTriangle className="h-3 w-3" />
+                                    {deal.task_counts.overdue} overdue
+                                  </span>
+                                )}
+                              </div>
+                            </CardContent>
+                          </Card>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
+            </div>
+          );
+        })}
+      </div>
+    </DragDropContext>
+  );
+};
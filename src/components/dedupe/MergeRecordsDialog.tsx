@@ -0,0 +1,303 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { useToast } from '@/hooks/use-toast';
+import { DedupeEntityType, DuplicateCandidate } from '@/lib/record-dedupe';
+
+type RecordData = Record<string, unknown>;
+type Side = 'a' | 'b';
+
+interface MergeField {
+  label: string;
+  /** Columns taken together from the chosen record */
+  columns: string[];
+  /** Table the first column points at, for showing a name instead of an id */
+  lookup?: 'companies' | 'contacts' | 'customers';
+}
+
+const MERGE_FIELDS: Record<DedupeEntityType, MergeField[]> = {
+  company: [
+    { label: 'Name', columns: ['name'] },
+    { label: 'Email', columns: ['email'] },
+    { label: 'Phone', columns: ['country_code', 'phone_number', 'phone'] },
+    { label: 'Website', columns: ['website'] },
+    { label: 'Industry', columns: ['industry'] },
+    { label: 'Size', columns: ['size'] },
+    { label: 'Headquarters', columns: ['headquarters'] },
+    { label: 'Description', columns: ['description'] },
+    { label: 'LinkedIn', columns: ['linkedin_page'] },
+    { label: 'Instagram', columns: ['instagram_page'] },
+    { label: 'Logo', columns: ['logo_url'] },
+    { label: 'Notes', columns: ['notes'] },
+  ],
+  contact: [
+    { label: 'Name', columns: ['first_name', 'last_name'] },
+    { label: 'Email', columns: ['email'] },
+    { label: 'Phone', columns: ['country_code', 'phone_number', 'phone'] },
+    { label: 'Position', columns: ['position'] },
+    { label: 'Address', columns: ['address'] },
+    { label: 'Customer', columns: ['customer_id'], lookup: 'customers' },
+    { label: 'Notes', columns: ['notes'] },
+  ],
+  site: [
+    { label: 'Name', columns: ['name'] },
+    { label: 'Address', columns: ['address', 'city', 'state', 'postal_code', 'country'] },
+    { label: 'Location', columns: ['latitude', 'longitude'] },
+    { label: 'Phone', columns: ['country_code', 'phone_number'] },
+    { label: 'Company', columns: ['company_id'], lookup: 'companies' },
+    { label: 'Contact', columns: ['contact_id'], lookup: 'contacts' },
+    { label: 'Customer', columns: ['customer_id'], lookup: 'customers' },
+    { label: 'Notes', columns: ['notes'] },
+  ],
+};
+
+const RECORD_TABLES: Record<DedupeEntityType, 'companies' | 'contacts' | 'sites'> = {
+  company: 'companies',
+  contact: 'contacts',
+  site: 'sites',
+};
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === '';
+
+const displayValue = (record: RecordData, field: MergeField, names: Record<string, string>): string => {
+  if (field.lookup) {
+    const id = record[field.columns[0]] as string | null;
+    return id ? names[id] || 'Unknown' : '';
+  }
+  if (field.columns.includes('phone_number')) {
+    const number = record.phone_number ? `${record.country_code || ''} ${record.phone_number}`.trim() : record.phone;
+    return (number as string) || '';
+  }
+  return field.columns.map(column => record[column]).filter(value => !isEmpty(value)).join(', ');
+};
+
+interface MergeRecordsDialogProps {
+  entityType: DedupeEntityType;
+  candidate: DuplicateCandidate | null;
+  onOpenChange: (open: boolean) => void;
+  onMerged: () => void;
+}
+
+export const MergeRecordsDialog = ({ entityType, candidate, onOpenChange, onMerged }: MergeRecordsDialogProps) => {
+  const { toast } = useToast();
+  const [keep, setKeep] = useState<Side>('a');
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [merging, setMerging] = useState(false);
+  const fields = MERGE_FIELDS[entityType];
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['merge-records', entityType, candidate?.key],
+    enabled: !!candidate,
+    queryFn: async () => {
+      const { data: rows, error } = await supabase
+        .from(RECORD_TABLES[entityType])
+        .select('*')
+        .in('id', [candidate!.primary.id, candidate!.duplicate.id]);
+      if (error) throw error;
+
+      const records = (rows || []) as unknown as RecordData[];
+      const a = records.find(row => row.id === candidate!.primary.id);
+      const b = records.find(row => row.id === candidate!.duplicate.id);
+      if (!a || !b) throw new Error('One of the records no longer exists');
+
+      // Names for the fields that hold ids
+      const names: Record<string, string> = {};
+      for (const field of fields.filter(f => f.lookup)) {
+        const ids = [a, b].map(record => record[field.columns[0]]).filter(id => !isEmpty(id)) as string[];
+        if (ids.length === 0) continue;
+
+        if (field.lookup === 'contacts') {
+          const { data: contacts } = await supabase.from('contacts').select('id, first_name, last_name').in('id', ids);
+          (contacts || []).forEach(contact => {
+            names[contact.id] = `${contact.first_name} ${contact.last_name || ''}`.trim();
+          });
+        } else {
+          const { data: named } = await supabase.from(field.lookup!).select('id, name').in('id', ids);
+          (named || []).forEach(row => {
+            names[row.id] = row.name;
+          });
+        }
+      }
+
+      return { a, b, names };
+    },
+  });
+
+  // Keep the surviving record's values, except where it has nothing and the other record does
+  useEffect(() => {
+    if (!data) return;
+    const survivor = keep === 'a' ? data.a : data.b;
+    const other = keep === 'a' ? data.b : data.a;
+    const otherSide: Side = keep === 'a' ? 'b' : 'a';
+    setChoices(Object.fromEntries(fields.map(field => [
+      field.label,
+      field.columns.every(column => isEmpty(survivor[column])) && field.columns.some(column => !isEmpty(other[column]))
+        ? otherSide
+        : keep,
+    ])));
+  }, [data, keep, fields]);
+
+  useEffect(() => {
+    setKeep('a');
+  }, [candidate?.key]);
+
+  // Fields with the same value on both records need no choice
+  const differing = useMemo(
+    () => (data ? fields.filter(field => displayValue(data.a, field, data.names) !== displayValue(data.b, field, data.names)) : []),
+    [data, fields]
+  );
+
+  const handleMerge = async () => {
+    if (!candidate || !data) return;
+
+    const survivor = keep === 'a' ? candidate.primary : candidate.duplicate;
+    const merged = keep === 'a' ? candidate.duplicate : candidate.primary;
+    const values: RecordData = {};
+    fields.forEach(field => {
+      const source = (choices[field.label] || keep) === 'a' ? data.a : data.b;
+      field.columns.forEach(column => {
+        values[column] = source[column] ?? null;
+      });
+    });
+
+    setMerging(true);
+    try {
+      const { error } = await supabase.rpc('merge_records', {
+        _entity_type: entityType,
+        _surviving_id: survivor.id,
+        _merged_id: merged.id,
+        _fields: values as unknown as Json,
+      });
+      if (error) throw error;
+
+      toast({
+        title: 'Records merged',
+        description: `"${merged.name}" was merged into "${survivor.name}". You can undo this from the merge history.`,
+      });
+      onMerged();
+    } catch (error) {
+      console.error('Error merging records:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string })?.message || 'Failed to merge records',
+        variant: 'destructive',
+      });
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  const renderChoice = (field: MergeField, side: Side, record: RecordData) => {
+    const value = displayValue(record, field, data?.names || {});
+    const chosen = (choices[field.label] || keep) === side;
+    return (
+      <TableCell>
+        <button
+          type="button"
+          onClick={() => setChoices(prev => ({ ...prev, [field.label]: side }))}
+          className={`w-full flex items-start gap-2 rounded-md border p-2 text-left text-sm break-words ${
+            chosen ? 'border-primary bg-primary/5' : 'border-transparent hover:bg-muted'
+          }`}
+        >
+          <Check className={`h-4 w-4 mt-0.5 shrink-0 ${chosen ? 'text-primary' : 'invisible'}`} />
+          <span className={value ? '' : 'text-muted-foreground'}>{value || 'Empty'}</span>
+        </button>
+      </TableCell>
+    );
+  };
+
+  return (
+    <Dialog open={!!candidate} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Merge Duplicates</DialogTitle>
+          <DialogDescription>
+            Pick the record to keep and the value to keep for each field. Deals, contracts, relationships, to-dos,
+            activities and files of the other record move to the one kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data || !candidate ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <RadioGroup value={keep} onValueChange={(value: Side) => setKeep(value)} className="grid grid-cols-2 gap-4">
+              {([['a', candidate.primary], ['b', candidate.duplicate]] as const).map(([side, record]) => (
+                <Label
+                  key={side}
+                  htmlFor={`keep-${side}`}
+                  className={`flex items-start gap-3 rounded-lg border p-3 cursor-pointer ${keep === side ? 'border-primary' : ''}`}
+                >
+                  <RadioGroupItem value={side} id={`keep-${side}`} className="mt-0.5" />
+                  <div className="space-y-1">
+                    <p className="font-medium">{record.name}</p>
+                    <div className="flex flex-wrap gap-1">
+                      <Badge variant={keep === side ? 'default' : 'secondary'}>{keep === side ? 'Keep' : 'Merge away'}</Badge>
+                      {record.is_lead && <Badge variant="outline">Lead</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">Created {new Date(record.created_at).toLocaleDateString()}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+
+            {differing.length === 0 ? (
+              <p className="text-sm text-muted-foreground">The records have the same values in every field.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-32">Field</TableHead>
+                    <TableHead>{candidate.primary.name}</TableHead>
+                    <TableHead>{candidate.duplicate.name}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {differing.map(field => (
+                    <TableRow key={field.label}>
+                      <TableCell className="font-medium">{field.label}</TableCell>
+                      {renderChoice(field, 'a', data.a)}
+                      {renderChoice(field, 'b', data.b)}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              The record merged away is removed. Leads stay leads only when both records are leads; solution categories
+              of both records are kept.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={merging}>
+            Cancel
+          </Button>
+          <Button onClick={handleMerge} disabled={merging || isLoading || !data}>
+            {merging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
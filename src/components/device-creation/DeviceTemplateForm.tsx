@@ -248,6 +248,37 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
     }));
   }, [templateProperties, values, fixedProperties]);
 
+  // Calculated properties may reference each other, so resolve them in dependency order
+  const dependencyGraph = React.useMemo(
+    () => FormulaEngine.buildDependencyGraph(templateProperties),
+    [templateProperties]
+  );
+
+  const calculatedEvaluation = React.useMemo(
+    () => FormulaEngine.evaluateProperties(templateProperties, getPropertyValues),
+    [templateProperties, getPropertyValues]
+  );
+
+  // Property values with calculated results filled in, used by the generated field previews
+  const resolvedPropertyValues = React.useMemo(() => {
+    return getPropertyValues.map(prop => {
+      const result = calculatedEvaluation.results[prop.name];
+      return result?.ok === true ? { ...prop, value: result.value } : prop;
+    });
+  }, [getPropertyValues, calculatedEvaluation]);
+
+  const [lastChangedProperty, setLastChangedProperty] = useState<string | null>(null);
+
+  const recalculatedProperties = React.useMemo(
+    () => new Set(lastChangedProperty ? FormulaEngine.getDependents(dependencyGraph, lastChangedProperty) : []),
+    [dependencyGraph, lastChangedProperty]
+  );
+
+  const handleValueChange = (name: string, value: unknown) => {
+    setLastChangedProperty(name);
+    onChange(name, value);
+  };
+
   // Get currencies for cost price currency field
   const [currencies, setCurrencies] = React.useState<Array<{id: string; code: string; name: string}>>([]);
   
@@ -278,7 +309,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
     const currentValues = dynamicValues[propertyName] || [];
     const newValues = [...currentValues, ''];
     setDynamicValues(prev => ({ ...prev, [propertyName]: newValues }));
-    onChange(propertyName, newValues);
+    handleValueChange(propertyName, newValues);
   };
 
   const updateDynamicValue = (propertyName: string, index: number, value: string) => {
@@ -286,14 +317,14 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
     const newValues = [...currentValues];
     newValues[index] = value;
     setDynamicValues(prev => ({ ...prev, [propertyName]: newValues }));
-    onChange(propertyName, newValues.filter(v => v.trim().length > 0));
+    handleValueChange(propertyName, newValues.filter(v => v.trim().length > 0));
   };
 
   const removeDynamicValue = (propertyName: string, index: number) => {
     const currentValues = dynamicValues[propertyName] || [];
     const newValues = currentValues.filter((_, i) => i !== index);
     setDynamicValues(prev => ({ ...prev, [propertyName]: newValues }));
-    onChange(propertyName, newValues.filter(v => v.trim().length > 0));
+    handleValueChange(propertyName, newValues.filter(v => v.trim().length > 0));
   };
 
   // Initialize dynamic values from props
@@ -312,30 +343,34 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
 
     // Handle calculated properties with formulas
     if (property.type === 'calculated' || property.formula) {
-      const calculatedValue = React.useMemo(() => {
-        if (property.formula) {
-          try {
-            return FormulaEngine.evaluate(property.formula, getPropertyValues);
-          } catch (error) {
-            return 0;
-          }
-        }
-        return 0;
-      }, [property.formula, getPropertyValues]);
+      const result = calculatedEvaluation.results[property.name];
+      const isRecalculated = recalculatedProperties.has(property.name);
 
       return (
         <div className="space-y-2">
-          <div className="flex items-center gap-2 p-3 bg-muted/30 border border-dashed rounded-md">
+          <div className={`flex items-center gap-2 p-3 bg-muted/30 border border-dashed rounded-md transition-shadow ${
+            isRecalculated ? 'ring-2 ring-primary/50 border-primary' : ''
+          }`}>
             <div className="text-sm font-medium">
-              {calculatedValue !== 0 ? calculatedValue.toLocaleString() : 'Calculating...'}
+              {result?.ok === true && result.value !== null
+                ? (typeof result.value === 'number' ? result.value.toLocaleString() : String(result.value))
+                : 'Calculating...'}
             </div>
             <Badge variant="secondary" className="text-xs">Calculated</Badge>
+            {isRecalculated && (
+              <Badge variant="outline" className="text-xs border-primary text-primary">Recalculated</Badge>
+            )}
           </div>
           {property.formula && (
             <div className="text-xs text-muted-foreground">
               Formula: {property.formula}
             </div>
           )}
+          {result?.ok === false && (
+            <div className="text-xs text-destructive">
+              {result.error.code === 'circular_reference' ? result.error.message : result.error.displayMessage}
+            </div>
+          )}
         </div>
       );
     }
@@ -347,7 +382,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
         return (
           <Input
             value={currentValue || ''}
-            onChange={(e) => onChange(property.name, e.target.value)}
+            onChange={(e) => handleValueChange(property.name, e.target.value)}
             placeholder={`Enter ${property.label_en.toLowerCase()}`}
           />
         );
@@ -357,7 +392,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
           <Input
             type="number"
             value={currentValue || ''}
-            onChange={(e) => onChange(property.name, e.target.value ? parseFloat(e.target.value) : null)}
+            onChange={(e) => handleValueChange(property.name, e.target.value ? parseFloat(e.target.value) : null)}
             placeholder={`Enter ${property.label_en.toLowerCase()}`}
           />
         );
@@ -367,7 +402,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
           <div className="flex items-center space-x-2">
             <Checkbox
               checked={currentValue || false}
-              onCheckedChange={(checked) => onChange(property.name, checked)}
+              onCheckedChange={(checked) => handleValueChange(property.name, checked)}
             />
             <Label>Yes</Label>
           </div>
@@ -378,7 +413,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
           <Input
             type="date"
             value={currentValue || ''}
-            onChange={(e) => onChange(property.name, e.target.value)}
+            onChange={(e) => handleValueChange(property.name, e.target.value)}
           />
         );
 
@@ -387,7 +422,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
           <Input
             type="color"
             value={currentValue || '#000000'}
-            onChange={(e) => onChange(property.name, e.target.value)}
+            onChange={(e) => handleValueChange(property.name, e.target.value)}
           />
         );
 
@@ -399,13 +434,13 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <Input
                 type="url"
                 value={currentValue || ''}
-                onChange={(e) => onChange(property.name, e.target.value)}
+                onChange={(e) => handleValueChange(property.name, e.target.value)}
                 placeholder="Enter image URL or upload below"
               />
               <div className="text-sm text-muted-foreground">Or upload an image:</div>
               <ImageUpload
                 value={currentValue || ''}
-                onChange={(url) => onChange(property.name, url)}
+                onChange={(url) => handleValueChange(property.name, url)}
                 bucket="device-images"
                 folder="devices"
               />
@@ -418,7 +453,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
             <textarea
               className="flex min-h-[60px] w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
               value={currentValue || ''}
-              onChange={(e) => onChange(property.name, e.target.value)}
+              onChange={(e) => handleValueChange(property.name, e.target.value)}
               placeholder={`Enter ${property.label_en.toLowerCase()}`}
               rows={3}
             />
@@ -427,7 +462,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
         return (
           <Input
             value={currentValue || ''}
-            onChange={(e) => onChange(property.name, e.target.value)}
+            onChange={(e) => handleValueChange(property.name, e.target.value)}
             placeholder={`Enter ${property.label_en.toLowerCase()}`}
           />
         );
@@ -435,7 +470,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
       case 'select':
         const selectOptions = property.options || [];
         return (
-          <Select value={currentValue || ''} onValueChange={(value) => onChange(property.name, value)}>
+          <Select value={currentValue || ''} onValueChange={(value) => handleValueChange(property.name, value)}>
             <SelectTrigger>
               <SelectValue placeholder={`Select ${property.label_en.toLowerCase()}`} />
             </SelectTrigger>
@@ -461,9 +496,9 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
                     checked={selectedValues.includes(option.code)}
                     onCheckedChange={(checked) => {
                       if (checked) {
-                        onChange(property.name, [...selectedValues, option.code]);
+                        handleValueChange(property.name, [...selectedValues, option.code]);
                       } else {
-                        onChange(property.name, selectedValues.filter(v => v !== option.code));
+                        handleValueChange(property.name, selectedValues.filter(v => v !== option.code));
                       }
                     }}
                   />
@@ -537,7 +572,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
         return (
           <Input
             value={currentValue || ''}
-            onChange={(e) => onChange(property.name, e.target.value)}
+            onChange={(e) => handleValueChange(property.name, e.target.value)}
             placeholder={`Enter ${property.label_en.toLowerCase()}`}
           />
         );
@@ -547,7 +582,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
   const renderCurrencySelect = () => {
     const currentValue = values['cost_price_currency_id'];
     return (
-      <Select value={currentValue || ''} onValueChange={(value) => onChange('cost_price_currency_id', value)}>
+      <Select value={currentValue || ''} onValueChange={(value) => handleValueChange('cost_price_currency_id', value)}>
         <SelectTrigger>
           <SelectValue placeholder="Select currency" />
         </SelectTrigger>
@@ -586,7 +621,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <DynamicFieldPreview
                 label="Item Code"
                 formula={selectedTemplate.sku_formula}
-                properties={getPropertyValues}
+                properties={resolvedPropertyValues}
                 context="sku"
               />
             )}
@@ -594,7 +629,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <DynamicFieldPreview
                 label="Short Description"
                 formula={selectedTemplate.short_description_formula}
-                properties={getPropertyValues}
+                properties={resolvedPropertyValues}
                 context="description_en"
                 className="md:col-span-2 lg:col-span-2"
               />
@@ -603,7 +638,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <DynamicFieldPreview
                 label="Long Description"
                 formula={selectedTemplate.description_formula}
-                properties={getPropertyValues}
+                properties={resolvedPropertyValues}
                 context="description_en"
                 className="md:col-span-2 lg:col-span-3"
               />
@@ -612,7 +647,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <DynamicFieldPreview
                 label="Short Description (Arabic)"
                 formula={selectedTemplate.short_description_ar_formula}
-                properties={getPropertyValues}
+                properties={resolvedPropertyValues}
                 context="description_ar"
                 className="md:col-span-2 lg:col-span-2"
               />
@@ -621,7 +656,7 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
               <DynamicFieldPreview
                 label="Long Description (Arabic)"
                 formula={selectedTemplate.description_ar_formula}
-                properties={getPropertyValues}
+                properties={resolvedPropertyValues}
                 context="description_ar"
                 className="md:col-span-2 lg:col-span-3"
               />
@@ -658,6 +693,11 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
       {templateProperties.length > 0 && (
         <div>
           <h3 className="text-lg font-semibold mb-4">Template Properties</h3>
+          {calculatedEvaluation.cycle && (
+            <div className="mb-4 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              Circular reference between calculated properties: {FormulaEngine.formatCyclePath(calculatedEvaluation.cycle)}
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {templateProperties.map((property) => (
               <div key={property.id} className={`space-y-2 ${
@@ -673,6 +713,14 @@ export function DeviceTemplateForm({ templateProperties, values, onChange, selec
                   )}
                 </Label>
                 {renderPropertyInput(property)}
+                {property.type !== 'calculated' && !property.formula && (() => {
+                  const dependents = FormulaEngine.getDependents(dependencyGraph, property.name);
+                  return dependents.length > 0 ? (
+                    <p className="text-xs text-muted-foreground">
+                      Recalculates: {dependents.join(', ')}
+                    </p>
+                  ) : null;
+                })()}
               </div>
             ))}
           </div>
@@ -19,6 +19,8 @@ import { usePermissions } from '@/hooks/use-permissions';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
 import { useFormPersist } from '@/hooks/use-form-persist';
+import { ToastAction } from '@/components/ui/toast';
+import { LeadConversionReport, convertLeadToDeal, moveLeadFiles } from '@/utils/lead-conversion';
 import { Plus, Building2, User, MapPin, Calendar, Trash2 } from 'lucide-react';
 
 const dealSchema = z.object({
@@ -382,6 +384,30 @@ export function CreateDealForm({ leadType, leadId, siteId, siteName, onSuccess }
   // Removed: createCustomerFromCompany and createCustomerFromContact
   // Fluid Entity Model: Deals now link directly to contacts/companies via junction tables
 
+  // The lead is closed by then, so the retry lives on the toast
+  const reportUnmovedFiles = (files: LeadConversionReport['files']) => {
+    toast({
+      title: 'Some files were not moved',
+      description: `${files.length} file(s) are still on the lead.`,
+      variant: 'destructive',
+      action: (
+        <ToastAction
+          altText="Retry moving the files"
+          onClick={async () => {
+            const pending = await moveLeadFiles(files);
+            if (pending.length > 0) {
+              reportUnmovedFiles(pending);
+            } else {
+              toast({ title: 'Files moved', description: `${files.length} file(s) moved to the deal` });
+            }
+          }}
+        >
+          Retry
+        </ToastAction>
+      ),
+    });
+  };
+
   const onSubmit = async (data: DealFormData) => {
     if (!currentTenant) return;
 
@@ -447,107 +473,73 @@ export function CreateDealForm({ leadType, leadId, siteId, siteName, onSuccess }
         contact_id: selectedEntityType === 'contact' && sanitizedEntityId ? sanitizedEntityId : null,
       };
 
-      const { data: deal, error } = await supabase
-        .from('deals')
-        .insert(dealData)
-        .select()
-        .single();
+      const paymentTermsData = updatedPaymentTerms.map(term => ({
+        installment_number: term.installment_number,
+        amount_type: term.amount_type,
+        amount_value: term.amount_value,
+        calculated_amount: term.calculated_amount,
+        due_date: term.due_date || null,
+        notes: term.notes || null,
+      }));
 
-      if (error) throw error;
+      if (leadType && leadId) {
+        // One transaction for the deal, payment terms and everything carried over from the lead
+        const report = await convertLeadToDeal({ leadType, leadId, dealData, paymentTerms: paymentTermsData });
 
-      // Also create junction table entries for 360-view relationships
-      if (selectedEntityType === 'company' && data.entity_id) {
-        await supabase.from('deal_companies').insert({
-          deal_id: deal.id,
-          company_id: data.entity_id,
-          relationship_type: 'primary',
-        });
-      } else if (selectedEntityType === 'contact' && data.entity_id) {
-        await supabase.from('deal_contacts').insert({
-          deal_id: deal.id,
-          contact_id: data.entity_id,
-          role: 'primary',
+        const carried = [
+          report.relationships_copied > 0 && `${report.relationships_copied} relationship(s)`,
+          report.activities_linked > 0 && `${report.activities_linked} activit${report.activities_linked === 1 ? 'y' : 'ies'}`,
+          report.files_registered > 0 && `${report.files_registered} file(s)`,
+        ].filter(Boolean);
+
+        toast({
+          title: report.already_converted ? 'Lead already converted' : 'Lead converted',
+          description: report.already_converted
+            ? `This lead was already converted to deal "${report.deal_name}"`
+            : `Deal "${report.deal_name}" created${carried.length > 0 ? ` with ${carried.join(', ')} from the lead` : ''}`,
         });
-      }
 
-      // Save payment terms if any
-      if (updatedPaymentTerms.length > 0) {
-        const paymentTermsData = updatedPaymentTerms.map(term => ({
-          deal_id: deal.id,
-          installment_number: term.installment_number,
-          amount_type: term.amount_type,
-          amount_value: term.amount_value,
-          calculated_amount: term.calculated_amount,
-          due_date: term.due_date || null,
-          notes: term.notes || null,
-          tenant_id: currentTenant.id,
-        }));
-
-        const { error: paymentError } = await supabase
-          .from('deal_payment_terms')
-          .insert(paymentTermsData);
-
-        if (paymentError) throw paymentError;
-      }
+        if (report.files.length > 0) {
+          reportUnmovedFiles(report.files);
+        }
+      } else {
+        const { data: deal, error } = await supabase
+          .from('deals')
+          .insert(dealData)
+          .select()
+          .single();
+
+        if (error) throw error;
+
+        // Also create junction table entries for 360-view relationships
+        if (selectedEntityType === 'company' && data.entity_id) {
+          await supabase.from('deal_companies').insert({
+            deal_id: deal.id,
+            company_id: data.entity_id,
+            relationship_type: 'primary',
+          });
+        } else if (selectedEntityType === 'contact' && data.entity_id) {
+          await supabase.from('deal_contacts').insert({
+            deal_id: deal.id,
+            contact_id: data.entity_id,
+            role: 'primary',
+          });
+        }
 
-      // If converting from a lead, remove lead status and migrate files
-      if (leadType && leadId) {
-        const tableName = leadType === 'contact' ? 'contacts' : 
-                         leadType === 'company' ? 'companies' : 'sites';
-        
-        await supabase
-          .from(tableName)
-          .update({ is_lead: false })
-          .eq('id', leadId);
-
-        // Migrate lead files to deal files
-        try {
-          const { data: leadFiles } = await supabase
-            .from('lead_files')
-            .select('*')
-            .eq('entity_id', leadId)
-            .eq('entity_type', leadType)
-            .eq('tenant_id', currentTenant.id);
-
-          if (leadFiles && leadFiles.length > 0) {
-            const dealFilesData = leadFiles.map(file => ({
-              deal_id: deal.id,
-              name: file.name,
-              file_path: file.file_path.replace('lead-files/', 'deal-files/'),
-              mime_type: file.mime_type,
-              file_size: file.file_size,
-              notes: file.notes,
-              created_by: file.created_by,
-              tenant_id: currentTenant.id,
-            }));
-
-            // Copy files in storage
-            for (const file of leadFiles) {
-              const { data: fileData } = await supabase.storage
-                .from('lead-files')
-                .download(file.file_path);
-              
-              if (fileData) {
-                const newPath = file.file_path.replace('lead-files/', 'deal-files/');
-                await supabase.storage
-                  .from('deal-files')
-                  .upload(newPath, fileData);
-              }
-            }
+        // Save payment terms if any
+        if (paymentTermsData.length > 0) {
+          const { error: paymentError } = await supabase
+            .from('deal_payment_terms')
+            .insert(paymentTermsData.map(term => ({ ...term, deal_id: deal.id, tenant_id: currentTenant.id })));
 
-            await supabase.from('deal_files').insert(dealFilesData);
-            await supabase.from('lead_files').delete().eq('entity_id', leadId).eq('entity_type', leadType);
-            await supabase.storage.from('lead-files').remove(leadFiles.map(f => f.file_path));
-          }
-        } catch (fileError) {
-          console.error('Error migrating files:', fileError);
+          if (paymentError) throw paymentError;
         }
-      }
 
-      toast({
-        title: 'Success',
-        description: 'Deal created successfully',
-      });
+        toast({
+          title: 'Success',
+          description: 'Deal created successfully',
+        });
+      }
 
       // Clear draft on successful save
       clearDraft();
@@ -10,6 +10,7 @@ import { Calculator, DollarSign } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useTenant } from "@/hooks/use-tenant";
 import { useCurrency } from "@/hooks/use-currency";
+import { FormulaEngine } from "@/lib/formula-engine";
 
 interface Currency {
   id: string;
@@ -92,40 +93,29 @@ export function DevicePricingForm({ deviceId, templateProperties = [], onPricing
       return;
     }
 
-    try {
-      let formula = pricing.pricingFormula;
-      
-      // Replace cost_price variable
-      formula = formula.replace(/cost_price/g, pricing.costPrice.toString());
-      
-      // Replace template properties
-      templateProperties.forEach(prop => {
-        const regex = new RegExp(`${prop.name}`, 'g');
-        formula = formula.replace(regex, prop.value?.toString() || '0');
-      });
+    const result = FormulaEngine.evaluate(pricing.pricingFormula, [
+      { name: 'cost_price', value: pricing.costPrice },
+      ...templateProperties.map(prop => ({ name: prop.name, value: prop.value ?? null }))
+    ]);
 
-      // Basic validation - only allow numbers, operators, and parentheses
-      if (!/^[0-9+\-*/.() ]+$/.test(formula)) {
-        throw new Error('Invalid formula characters');
-      }
-
-      // Evaluate the formula (using Function constructor for safety)
-      const result = Function(`"use strict"; return (${formula})`)();
-      
-      if (isNaN(result) || !isFinite(result)) {
-        throw new Error('Formula result is not a valid number');
-      }
+    if (result.ok === false) {
+      setFormulaError(result.error.displayMessage);
+      setCalculatedMsrp(null);
+      return;
+    }
 
-      setCalculatedMsrp(Number(result.toFixed(2)));
-      setFormulaError('');
-      
-      // Auto-update MSRP if formula is valid
-      setPricing(prev => ({ ...prev, msrp: Number(result.toFixed(2)) }));
-      
-    } catch (error) {
-      setFormulaError('Invalid formula');
+    if (typeof result.value !== 'number') {
+      setFormulaError('Formula must produce a number');
       setCalculatedMsrp(null);
+      return;
     }
+
+    const msrp = result.value;
+    setCalculatedMsrp(msrp);
+    setFormulaError('');
+
+    // Auto-update MSRP if formula is valid
+    setPricing(prev => ({ ...prev, msrp }));
   };
 
   useEffect(() => {
@@ -239,7 +229,7 @@ export function DevicePricingForm({ deviceId, templateProperties = [], onPricing
               <Textarea
                 value={pricing.pricingFormula}
                 onChange={(e) => setPricing(prev => ({ ...prev, pricingFormula: e.target.value }))}
-                placeholder="cost_price * 1.25 + 50"
+                placeholder="IF(cost_price > 500, cost_price * 1.15, cost_price * 1.25 + 50)"
                 rows={2}
               />
               <div className="text-sm text-muted-foreground mt-1">
@@ -46,10 +46,7 @@ export const EditPaymentForm = ({ payment, contractId, onSuccess, onCancel }: Ed
     amount_type: payment.amount_type,
     amount_value: payment.amount_value,
     due_date: payment.due_date || '',
-    notes: payment.notes || '',
-    payment_status: payment.payment_status || 'pending',
-    received_amount: payment.received_amount || 0,
-    received_date: payment.received_date || ''
+    notes: payment.notes || ''
   });
 
   useEffect(() => {
@@ -127,12 +124,16 @@ export const EditPaymentForm = ({ payment, contractId, onSuccess, onCancel }: Ed
       const { data: { user } } = await supabase.auth.getUser();
       
       const calculatedAmount = calculateAmount();
+
+      // Received amounts come from payment receipts; the status follows them against the new amount
+      const receivedAmount = payment.received_amount || 0;
+      const paymentStatus = receivedAmount > 0 ? (receivedAmount >= calculatedAmount ? 'paid' : 'partial') : 'pending';
       
       // Get automatic stage based on current rules
       const automaticStageId = await getAutomaticStage(
         formData.due_date || null, 
-        formData.payment_status, 
-        formData.received_amount, 
+        paymentStatus, 
+        receivedAmount, 
         calculatedAmount
       );
       
@@ -144,9 +145,6 @@ export const EditPaymentForm = ({ payment, contractId, onSuccess, onCancel }: Ed
         due_date: formData.due_date || null,
         stage_id: automaticStageId,
         notes: formData.notes,
-        payment_status: formData.payment_status,
-        received_amount: formData.received_amount,
-        received_date: formData.received_date || null,
         updated_at: new Date().toISOString()
       };
 
@@ -280,47 +278,16 @@ export const EditPaymentForm = ({ payment, contractId, onSuccess, onCancel }: Ed
 
           <div className="border-t pt-4">
             <h4 className="font-medium mb-3">Payment Receipt</h4>
-            <div className="grid grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="payment_status">Status</Label>
-                <Select 
-                  value={formData.payment_status} 
-                  onValueChange={(value) => setFormData(prev => ({ ...prev, payment_status: value }))}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select status" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="partial">Partially Paid</SelectItem>
-                    <SelectItem value="paid">Paid</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div>
-                <Label htmlFor="received_amount">Received Amount</Label>
-                <Input
-                  id="received_amount"
-                  type="number"
-                  step="0.01"
-                  min="0"
-                  max={calculateAmount()}
-                  value={formData.received_amount}
-                  onChange={(e) => setFormData(prev => ({ ...prev, received_amount: parseFloat(e.target.value) || 0 }))}
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="received_date">Received Date</Label>
-                <Input
-                  id="received_date"
-                  type="date"
-                  value={formData.received_date}
-                  onChange={(e) => setFormData(prev => ({ ...prev, received_date: e.target.value }))}
-                />
-              </div>
-            </div>
+            <p className="text-sm">
+              Received: {(payment.received_amount || 0).toLocaleString('en-US', {
+                minimumFractionDigits: 2,
+                maximumFractionDigits: 2
+              })}
+              {payment.received_date && ` (last on ${new Date(payment.received_date).toLocaleDateString()})`}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Payments are registered on the contract and allocated to its instalments.
+            </p>
             
             {formData.amount_type === 'percentage' && contractValue > 0 && (
               <p className="text-sm text-muted-foreground mt-2">
@@ -0,0 +1,308 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  AllocatableInstallment,
+  AllocationInput,
+  AllocationMode,
+  Allocations,
+  allocateOldestFirst,
+  allocationErrors,
+  outstandingByInstallment,
+  sortForAllocation,
+  toAllocationPayload,
+  totalAllocated,
+} from '@/lib/payment-allocation';
+import { roundMoney } from '@/lib/quote-totals';
+
+export interface PaymentReceipt {
+  id: string;
+  amount: number;
+  received_date: string;
+  reference: string | null;
+  notes: string | null;
+}
+
+interface PaymentReceiptFormProps {
+  contractId: string;
+  /** Reallocates an existing receipt instead of registering a new one */
+  receipt?: PaymentReceipt | null;
+  /** Suggests allocating a new receipt to this installment */
+  installmentId?: string;
+  formatCurrency: (amount: number) => string;
+  onSuccess: () => void;
+  onCancel: () => void;
+}
+
+export const PaymentReceiptForm = ({
+  contractId,
+  receipt,
+  installmentId,
+  formatCurrency,
+  onSuccess,
+  onCancel,
+}: PaymentReceiptFormProps) => {
+  const [loading, setLoading] = useState(false);
+  const [installments, setInstallments] = useState<AllocatableInstallment[]>([]);
+  const [existingAllocations, setExistingAllocations] = useState<AllocationInput[]>([]);
+  const [amount, setAmount] = useState(receipt ? String(receipt.amount) : '');
+  const [receivedDate, setReceivedDate] = useState(receipt?.received_date || new Date().toISOString().split('T')[0]);
+  const [reference, setReference] = useState(receipt?.reference || '');
+  const [notes, setNotes] = useState(receipt?.notes || '');
+  const [mode, setMode] = useState<AllocationMode>(receipt || installmentId ? 'manual' : 'oldest_first');
+  // Manual allocations once the user has edited one; until then the suggestion is shown
+  const [manualAllocations, setManualAllocations] = useState<Allocations | null>(null);
+
+  useEffect(() => {
+    const fetchInstallments = async () => {
+      const { data: terms, error } = await supabase
+        .from('contract_payment_terms')
+        .select('id, installment_number, name, due_date, calculated_amount, amount_type, amount_value, contracts(value)')
+        .eq('contract_id', contractId)
+        .order('installment_number');
+
+      if (error) {
+        console.error('Error fetching installments:', error);
+        toast.error('Failed to load instalments');
+        return;
+      }
+
+      const { data: allocations } = await supabase
+        .from('payment_allocations')
+        .select('receipt_id, payment_term_id, amount')
+        .in('payment_term_id', (terms || []).map(term => term.id));
+
+      setInstallments(terms || []);
+      setExistingAllocations(allocations || []);
+    };
+
+    fetchInstallments();
+  }, [contractId]);
+
+  const receivedAmount = parseFloat(amount) || 0;
+
+  // What each installment can still take; a reallocated receipt's own allocations are open to it again
+  const outstanding = useMemo(
+    () => outstandingByInstallment(installments, existingAllocations, receipt?.id),
+    [installments, existingAllocations, receipt?.id]
+  );
+
+  const suggestedAllocations = useMemo<Allocations>(() => {
+    if (receipt) {
+      return Object.fromEntries(
+        existingAllocations
+          .filter(allocation => allocation.receipt_id === receipt.id)
+          .map(allocation => [allocation.payment_term_id, Number(allocation.amount)])
+      );
+    }
+    if (installmentId) {
+      return { [installmentId]: roundMoney(Math.min(receivedAmount, outstanding[installmentId] ?? 0)) };
+    }
+    return allocateOldestFirst(receivedAmount, installments, outstanding);
+  }, [receipt, installmentId, receivedAmount, installments, outstanding, existingAllocations]);
+
+  const allocations =
+    mode === 'oldest_first'
+      ? allocateOldestFirst(receivedAmount, installments, outstanding)
+      : manualAllocations ?? suggestedAllocations;
+
+  const allocated = totalAllocated(allocations);
+  const credit = roundMoney(receivedAmount - allocated);
+  const errors = allocationErrors(receivedAmount, allocations, installments, outstanding);
+
+  // Installments that are open or already hold part of this receipt
+  const rows = sortForAllocation(installments).filter(
+    installment => (outstanding[installment.id] ?? 0) > 0 || (allocations[installment.id] ?? 0) > 0
+  );
+
+  const setAllocation = (installmentId: string, value: string) => {
+    setManualAllocations({ ...allocations, [installmentId]: parseFloat(value) || 0 });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (errors.length > 0) {
+      toast.error(errors[0]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      if (receipt) {
+        const { error } = await supabase.rpc('set_payment_receipt_allocations', {
+          _receipt_id: receipt.id,
+          _allocations: toAllocationPayload(allocations),
+        });
+        if (error) throw error;
+        toast.success('Payment allocation updated');
+      } else {
+        const { error } = await supabase.rpc('record_payment_receipt', {
+          _contract_id: contractId,
+          _amount: receivedAmount,
+          _received_date: receivedDate,
+          _reference: reference,
+          _notes: notes,
+          // Left out, the receipt is allocated oldest first by the database
+          _allocations: mode === 'manual' ? toAllocationPayload(allocations) : undefined,
+        });
+        if (error) throw error;
+        toast.success(
+          credit > 0 ? `Payment registered, ${formatCurrency(credit)} kept as credit` : 'Payment registered'
+        );
+      }
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving payment receipt:', error);
+      toast.error((error as { message?: string })?.message || 'Failed to save payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={onCancel}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{receipt ? 'Reallocate Payment' : 'Register Payment'}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="receipt_amount">Amount Received</Label>
+              <Input
+                id="receipt_amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                placeholder="Enter received amount"
+                disabled={!!receipt}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="receipt_date">Received Date</Label>
+              <Input
+                id="receipt_date"
+                type="date"
+                value={receivedDate}
+                onChange={(e) => setReceivedDate(e.target.value)}
+                disabled={!!receipt}
+                required
+              />
+            </div>
+          </div>
+
+          {!receipt && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="receipt_reference">Reference</Label>
+                <Input
+                  id="receipt_reference"
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Bank reference, cheque number..."
+                />
+              </div>
+              <div>
+                <Label htmlFor="allocation_mode">Allocation</Label>
+                <Select value={mode} onValueChange={(value) => setMode(value as AllocationMode)}>
+                  <SelectTrigger id="allocation_mode">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="oldest_first">Oldest instalment first</SelectItem>
+                    <SelectItem value="manual">Manual</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          <div className="border rounded-md max-h-64 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Instalment</TableHead>
+                  <TableHead>Due Date</TableHead>
+                  <TableHead className="text-right">Open</TableHead>
+                  <TableHead className="text-right w-36">Allocate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      No open instalments, the payment is kept as credit
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  rows.map(installment => (
+                    <TableRow key={installment.id}>
+                      <TableCell>{installment.name || `Instalment ${installment.installment_number}`}</TableCell>
+                      <TableCell>
+                        {installment.due_date ? new Date(installment.due_date).toLocaleDateString() : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(outstanding[installment.id] ?? 0)}</TableCell>
+                      <TableCell className="text-right">
+                        {mode === 'manual' ? (
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min="0"
+                            className="h-8 text-right"
+                            value={allocations[installment.id] ?? ''}
+                            onChange={(e) => setAllocation(installment.id, e.target.value)}
+                          />
+                        ) : (
+                          formatCurrency(allocations[installment.id] ?? 0)
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex justify-between text-sm">
+            <span>Allocated: {formatCurrency(allocated)}</span>
+            <span className={credit < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+              Unallocated credit: {formatCurrency(credit)}
+            </span>
+          </div>
+
+          {!receipt && (
+            <div>
+              <Label htmlFor="receipt_notes">Notes</Label>
+              <Textarea
+                id="receipt_notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading || errors.length > 0}>
+              {loading ? 'Saving...' : receipt ? 'Save Allocation' : 'Register Payment'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -7,6 +7,7 @@ import { Input } from '@/components/ui/input';
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { PhoneInput } from '@/components/ui/phone-input';
+import { ImageUpload } from '@/components/ui/image-upload';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/use-auth';
@@ -20,6 +21,7 @@ const tenantSchema = z.object({
   company_location: z.string().optional(),
   cr_number: z.string().optional(),
   tax_number: z.string().optional(),
+  logo_url: z.string().optional(),
   contact_email: z.string().email().optional().or(z.literal('')),
   contact_phone_country_code: z.string().optional(),
   contact_phone_number: z.string().optional(),
@@ -37,6 +39,7 @@ interface TenantData {
   company_location?: string;
   cr_number?: string;
   tax_number?: string;
+  logo_url?: string;
   contact_email?: string;
   contact_phone?: string;
   contact_phone_country_code?: string;
@@ -67,6 +70,7 @@ export function TenantForm({ tenant, onSuccess, onCancel }: TenantFormProps) {
       company_location: tenant?.company_location || '',
       cr_number: tenant?.cr_number || '',
       tax_number: tenant?.tax_number || '',
+      logo_url: tenant?.logo_url || '',
       contact_email: tenant?.contact_email || '',
       contact_phone_country_code: tenant?.contact_phone_country_code || '',
       contact_phone_number: tenant?.contact_phone_number || '',
@@ -94,6 +98,7 @@ export function TenantForm({ tenant, onSuccess, onCancel }: TenantFormProps) {
         company_location: data.company_location || null,
         cr_number: data.cr_number || null,
         tax_number: data.tax_number || null,
+        logo_url: data.logo_url || null,
         contact_email: data.contact_email || null,
         contact_phone_country_code: data.contact_phone_country_code || null,
         contact_phone_number: data.contact_phone_number || null,
@@ -320,6 +325,28 @@ export function TenantForm({ tenant, onSuccess, onCancel }: TenantFormProps) {
           />
         </div>
 
+        {isEditing && (
+          <FormField
+            control={form.control}
+            name="logo_url"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Company Logo</FormLabel>
+                <FormControl>
+                  <ImageUpload
+                    value={field.value}
+                    onChange={(url) => field.onChange(url || '')}
+                    bucket="tenant-branding"
+                    folder={tenant.id}
+                    maxSize={2}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <div className="grid grid-cols-2 gap-4">
           <FormField
             control={form.control}
@@ -34,7 +34,11 @@ import {
   Bell,
   Trophy,
   Trash2,
-  History
+  History,
+  TrendingUp,
+  HandCoins,
+  Filter,
+  Merge
 } from 'lucide-react';
 
 interface NavigationItem {
@@ -145,6 +149,24 @@ const tenantModules: NavigationModule[] = [
         icon: BarChart3,
         permission: 'reports.view',
       },
+      {
+        title: 'Cash-Flow Forecast',
+        url: '/cash-flow-forecast',
+        icon: TrendingUp,
+        permission: 'reports.view',
+      },
+      {
+        title: 'Receivables',
+        url: '/receivables',
+        icon: HandCoins,
+        permission: 'reports.view',
+      },
+      {
+        title: 'Lead Funnel',
+        url: '/lead-funnel',
+        icon: Filter,
+        permission: 'reports.view',
+      },
     ]
   },
   {
@@ -202,6 +224,12 @@ const tenantModules: NavigationModule[] = [
         icon: Settings,
         permission: 'device_templates.view',
       },
+      {
+        title: 'Duplicates',
+        url: '/duplicates',
+        icon: Merge,
+        permission: 'admin.access',
+      },
       {
         title: 'Recycle Bin',
         url: '/recycle-bin',
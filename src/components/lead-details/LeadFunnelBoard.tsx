@@ -0,0 +1,196 @@
+import { useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Building2, Clock, MapPin, User } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { LeadStageTransition, LeadType, currentStageDays, leadKey } from '@/lib/lead-funnel';
+
+export interface BoardLead {
+  id: string;
+  name: string;
+  type: LeadType;
+  stage_id?: string | null;
+  quality_name?: string;
+  customer_name?: string;
+  lead_score?: number;
+}
+
+interface LeadStage {
+  id: string;
+  name: string;
+}
+
+interface LeadFunnelBoardProps {
+  leads: BoardLead[];
+  canMove: boolean;
+  onMoveLead: (lead: BoardLead, stage: LeadStage) => Promise<void>;
+  onOpenLead: (lead: BoardLead) => void;
+}
+
+// Droppable id of the column holding leads without an active stage; leads cannot be dropped into it
+const UNSTAGED_COLUMN = 'unstaged';
+
+const leadIcons = {
+  company: Building2,
+  contact: User,
+  site: MapPin,
+};
+
+export const LeadFunnelBoard = ({ leads, canMove, onMoveLead, onOpenLead }: LeadFunnelBoardProps) => {
+  const { currentTenant } = useTenant();
+  const queryClient = useQueryClient();
+  const tenantId = currentTenant?.id;
+
+  const { data: stages = [], isLoading: stagesLoading } = useQuery({
+    queryKey: ['lead-funnel-stages', tenantId],
+    enabled: !!tenantId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lead_stages')
+        .select('id, name')
+        .eq('tenant_id', tenantId)
+        .eq('active', true)
+        .order('sort_order');
+      if (error) throw error;
+      return (data || []) as LeadStage[];
+    },
+  });
+
+  const { data: transitions = [] } = useQuery({
+    queryKey: ['lead-stage-history', tenantId],
+    enabled: !!tenantId,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('lead_stage_history')
+        .select('entity_type, entity_id, from_stage_id, to_stage_id, event, changed_at')
+        .eq('tenant_id', tenantId)
+        .order('changed_at');
+      if (error) throw error;
+      return (data || []) as LeadStageTransition[];
+    },
+  });
+
+  const daysInStage = useMemo(() => currentStageDays(transitions), [transitions]);
+
+  const columns = useMemo(() => {
+    const stageIds = new Set(stages.map(stage => stage.id));
+    const unstaged = leads.filter(lead => !lead.stage_id || !stageIds.has(lead.stage_id));
+    return [
+      ...(unstaged.length > 0 ? [{ stage: null as LeadStage | null, leads: unstaged }] : []),
+      ...stages.map(stage => ({ stage, leads: leads.filter(lead => lead.stage_id === stage.id) })),
+    ];
+  }, [stages, leads]);
+
+  const handleDragEnd = async (result: DropResult) => {
+    const { destination, source, draggableId } = result;
+    if (!destination || destination.droppableId === source.droppableId) return;
+
+    const stage = stages.find(s => s.id === destination.droppableId);
+    const lead = leads.find(l => `${l.type}-${l.id}` === draggableId);
+    if (!stage || !lead) return;
+
+    await onMoveLead(lead, stage);
+    queryClient.invalidateQueries({ queryKey: ['lead-stage-history', tenantId] });
+  };
+
+  if (stagesLoading) {
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {[1, 2, 3, 4].map(i => (
+          <div key={i} className="w-72 shrink-0 h-96 bg-muted rounded-lg animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  if (stages.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8 text-muted-foreground">
+          No active lead stages. Add stages in CRM settings to use the funnel board.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <DragDropContext onDragEnd={handleDragEnd}>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {columns.map(column => {
+          const columnId = column.stage?.id ?? UNSTAGED_COLUMN;
+          return (
+            <div key={columnId} className="w-72 shrink-0 flex flex-col bg-muted/40 rounded-lg border">
+              <div className="p-3 border-b flex items-center justify-between gap-2">
+                <h3 className="font-semibold text-sm truncate">{column.stage?.name ?? 'No Stage'}</h3>
+                <Badge variant="secondary">{column.leads.length}</Badge>
+              </div>
+
+              <Droppable droppableId={columnId} isDropDisabled={!column.stage || !canMove}>
+                {(provided, snapshot) => (
+                  <div
+                    ref={provided.innerRef}
+                    {...provided.droppableProps}
+                    className={`flex-1 p-2 space-y-2 min-h-[120px] max-h-[65vh] overflow-y-auto rounded-b-lg ${
+                      snapshot.isDraggingOver ? 'bg-primary/5' : ''
+                    }`}
+                  >
+                    {column.leads.map((lead, index) => {
+                      const IconComponent = leadIcons[lead.type];
+                      const days = daysInStage[leadKey(lead.type, lead.id)];
+                      return (
+                        <Draggable
+                          key={`${lead.type}-${lead.id}`}
+                          draggableId={`${lead.type}-${lead.id}`}
+                          index={index}
+                          isDragDisabled={!canMove}
+                        >
+                          {(provided, snapshot) => (
+                            <Card
+                              ref={provided.innerRef}
+                              {...provided.draggableProps}
+                              {...provided.dragHandleProps}
+                              className={`cursor-pointer hover:shadow-md transition-shadow ${snapshot.isDragging ? 'shadow-lg' : ''}`}
+                              onClick={() => onOpenLead(lead)}
+                            >
+                              <CardContent className="p-3 space-y-1.5">
+                                <div className="flex items-center gap-2">
+                                  <IconComponent className="h-4 w-4 text-muted-foreground shrink-0" />
+                                  <p className="font-medium text-sm truncate flex-1">{lead.name}</p>
+                                  {lead.lead_score !== undefined && (
+                                    <Badge variant="outline" className="text-xs" title="Lead score">{lead.lead_score}</Badge>
+                                  )}
+                                </div>
+                                {lead.customer_name && (
+                                  <p className="text-xs text-muted-foreground truncate">{lead.customer_name}</p>
+                                )}
+                                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                  {lead.quality_name && (
+                                    <Badge variant="outline" className="text-xs">{lead.quality_name}</Badge>
+                                  )}
+                                  {days !== undefined && (
+                                    <span className="flex items-center gap-1" title="Days in this stage">
+                                      <Clock className="h-3 w-3" />
+                                      {days === 1 ? '1 day' : `${days} days`}
+                                    </span>
+                                  )}
+                                </div>
+                              </CardContent>
+                            </Card>
+                          )}
+                        </Draggable>
+                      );
+                    })}
+                    {provided.placeholder}
+                  </div>
+                )}
+              </Droppable>
+            </div>
+          );
+        })}
+      </div>
+    </DragDropContext>
+  );
+};
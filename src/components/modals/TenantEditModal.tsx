@@ -16,6 +16,7 @@ interface TenantData {
   company_location?: string;
   cr_number?: string;
   tax_number?: string;
+  logo_url?: string;
   contact_email?: string;
   contact_phone?: string;
   contact_phone_country_code?: string;
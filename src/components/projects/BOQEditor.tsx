@@ -3,14 +3,27 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { ScrollArea, ScrollBar } from '@/components/ui/scroll-area';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Settings2, GripVertical } from 'lucide-react';
+import { useProjectPricing } from '@/hooks/use-project-pricing';
+import { Plus, Trash2, Settings2, GripVertical, ChevronDown, ChevronRight, Layers, Upload, TrendingUp } from 'lucide-react';
 import { DeviceBrowserDialog, SelectedDevice } from './DeviceBrowserDialog';
 import { BOQExport } from './BOQExport';
+import { BOQFloorManager } from './BOQFloorManager';
+import { BOQImportDialog } from './BOQImportDialog';
+import {
+  BOQFloor,
+  BOQFloorGroup,
+  BOQSite,
+  UNASSIGNED_FLOOR,
+  getEffectivePrice,
+  groupBOQByFloor,
+} from '@/lib/boq-grouping';
+import { LineProfitability, calculateLineProfitability, summarizeProfitability } from '@/lib/project-profitability';
 import {
   ResizablePanelGroup,
   ResizablePanel,
@@ -20,6 +33,8 @@ import {
 interface ProjectDevice {
   id: string;
   device_id: string;
+  floor_id: string | null;
+  zone: string | null;
   quantity: number;
   unit_price: number | null;
   notes: string | null;
@@ -32,6 +47,8 @@ interface ProjectDevice {
     unit_price: number | null;
     cost_price: number | null;
     msrp: number | null;
+    currency_id: string | null;
+    cost_currency_id: string | null;
     currencies: {
       symbol: string;
       code: string;
@@ -66,40 +83,64 @@ const DEFAULT_COLUMNS: ColumnConfig[] = [
   { id: 'brand', label: 'Brand', visible: true, width: 120, minWidth: 80 },
   { id: 'model', label: 'Model', visible: true, width: 120, minWidth: 80 },
   { id: 'category', label: 'Category', visible: true, width: 120, minWidth: 80 },
+  { id: 'floor', label: 'Floor', visible: true, width: 150, minWidth: 100 },
+  { id: 'zone', label: 'Zone', visible: true, width: 120, minWidth: 80 },
   { id: 'quantity', label: 'Qty', visible: true, width: 80, minWidth: 60 },
   { id: 'unit_price', label: 'Unit Price', visible: true, width: 100, minWidth: 80 },
   { id: 'total', label: 'Total', visible: true, width: 120, minWidth: 80 },
   { id: 'cost_price', label: 'Cost Price', visible: false, width: 100, minWidth: 80 },
+  { id: 'line_cost', label: 'Line Cost', visible: false, width: 120, minWidth: 80 },
+  { id: 'margin', label: 'Margin', visible: false, width: 140, minWidth: 100 },
   { id: 'msrp', label: 'MSRP', visible: false, width: 100, minWidth: 80 },
   { id: 'notes', label: 'Notes', visible: false, width: 150, minWidth: 100 },
 ];
 
+// Cost, line cost and margin are shown and hidden together by the Profitability toggle
+const PROFITABILITY_COLUMNS = ['cost_price', 'line_cost', 'margin'];
+
 interface BOQEditorProps {
   projectId: string;
   project: Project;
   onUpdate?: () => void;
+  /** Called whenever the lines change, including quantity and price edits */
+  onDevicesChange?: () => void;
 }
 
-export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
+export const BOQEditor = ({ projectId, project, onUpdate, onDevicesChange }: BOQEditorProps) => {
   const { currentTenant } = useTenant();
   const { toast } = useToast();
+  const { currency: projectCurrency, conversionRates } = useProjectPricing(projectId);
   const [devices, setDevices] = useState<ProjectDevice[]>([]);
   const [loading, setLoading] = useState(true);
   const [columns, setColumns] = useState<ColumnConfig[]>(() => {
     const saved = localStorage.getItem(`boq-columns-${projectId}`);
-    return saved ? JSON.parse(saved) : DEFAULT_COLUMNS;
+    if (!saved) return DEFAULT_COLUMNS;
+    // Columns added after the layout was saved are appended
+    const savedColumns: ColumnConfig[] = JSON.parse(saved);
+    return [...savedColumns, ...DEFAULT_COLUMNS.filter(c => !savedColumns.some(s => s.id === c.id))];
   });
   const [isDeviceBrowserOpen, setIsDeviceBrowserOpen] = useState(false);
+  const [isFloorManagerOpen, setIsFloorManagerOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [targetFloorId, setTargetFloorId] = useState<string | null>(null);
   const [resizing, setResizing] = useState<string | null>(null);
+  const [floors, setFloors] = useState<BOQFloor[]>([]);
+  const [sites, setSites] = useState<BOQSite[]>([]);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     fetchDevices();
+    fetchFloors();
   }, [projectId]);
 
   useEffect(() => {
     localStorage.setItem(`boq-columns-${projectId}`, JSON.stringify(columns));
   }, [columns, projectId]);
 
+  useEffect(() => {
+    if (!loading) onDevicesChange?.();
+  }, [devices]);
+
   const fetchDevices = async () => {
     try {
       const { data, error } = await supabase
@@ -107,6 +148,8 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
         .select(`
           id,
           device_id,
+          floor_id,
+          zone,
           quantity,
           unit_price,
           notes,
@@ -119,6 +162,8 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
             unit_price,
             cost_price,
             msrp,
+            currency_id,
+            cost_currency_id,
             currencies!devices_currency_id_fkey(symbol, code)
           )
         `)
@@ -134,8 +179,64 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
     }
   };
 
+  const fetchFloors = async () => {
+    try {
+      const [floorsRes, sitesRes] = await Promise.all([
+        supabase
+          .from('project_floors')
+          .select('id, name, level, site_id')
+          .eq('project_id', projectId)
+          .order('level', { nullsFirst: true })
+          .order('name'),
+        supabase
+          .from('project_sites')
+          .select('sites(id, name)')
+          .eq('project_id', projectId),
+      ]);
+
+      if (floorsRes.error) throw floorsRes.error;
+      if (sitesRes.error) throw sitesRes.error;
+      setFloors(floorsRes.data || []);
+      setSites((sitesRes.data || []).map(ps => ps.sites).filter(Boolean));
+    } catch (error) {
+      console.error('Error fetching floors:', error);
+    }
+  };
+
   const visibleColumns = useMemo(() => columns.filter(c => c.visible), [columns]);
 
+  const groups = useMemo(() => groupBOQByFloor(devices, floors, sites), [devices, floors, sites]);
+
+  // Cost and margin normalised to the project currency
+  const profitability = useMemo(() => new Map<string, LineProfitability>(
+    devices.map(d => [d.id, calculateLineProfitability(d, conversionRates, projectCurrency?.id)])
+  ), [devices, conversionRates, projectCurrency?.id]);
+
+  const groupProfitability = useMemo(() => new Map(
+    groups
+      .filter(g => g.devices.length > 0)
+      .map(g => [g.key, summarizeProfitability(g.devices, conversionRates, projectCurrency?.id)])
+  ), [groups, conversionRates, projectCurrency?.id]);
+
+  const projectSymbol = projectCurrency?.symbol || project.currencies?.symbol || '$';
+
+  const showProfitability = PROFITABILITY_COLUMNS.every(id => columns.find(c => c.id === id)?.visible);
+
+  const toggleProfitability = () => {
+    setColumns(prev => prev.map(col =>
+      PROFITABILITY_COLUMNS.includes(col.id) ? { ...col, visible: !showProfitability } : col
+    ));
+  };
+
+  const toggleGroup = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   const toggleColumn = (columnId: string) => {
     setColumns(prev => prev.map(col => 
       col.id === columnId ? { ...col, visible: !col.visible } : col
@@ -186,6 +287,23 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
     }
   };
 
+  const updateDeviceLocation = async (deviceId: string, updates: { floor_id?: string | null; zone?: string | null }) => {
+    try {
+      const { error } = await supabase
+        .from('project_devices')
+        .update(updates)
+        .eq('id', deviceId);
+
+      if (error) throw error;
+      setDevices(prev => prev.map(d => 
+        d.id === deviceId ? { ...d, ...updates } : d
+      ));
+    } catch (error) {
+      console.error('Error updating location:', error);
+      toast({ title: 'Error', description: 'Failed to update location', variant: 'destructive' });
+    }
+  };
+
   const removeDevice = async (deviceId: string) => {
     try {
       const { error } = await supabase
@@ -206,11 +324,12 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
     if (!currentTenant) return;
 
     try {
-      const existingIds = new Set(devices.map(d => d.device_id));
+      // The same device may appear on several floors, but only once per floor
+      const existingIds = new Set(devices.filter(d => d.floor_id === targetFloorId).map(d => d.device_id));
       const newDevices = selectedDevices.filter(d => !existingIds.has(d.device_id));
       
       if (newDevices.length === 0) {
-        toast({ title: 'Info', description: 'All selected devices already exist in BOQ' });
+        toast({ title: 'Info', description: 'All selected devices already exist on this floor' });
         return;
       }
 
@@ -219,6 +338,7 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
         .insert(newDevices.map(d => ({
           project_id: projectId,
           device_id: d.device_id,
+          floor_id: targetFloorId,
           quantity: d.quantity,
           unit_price: d.unit_price,
         })));
@@ -239,12 +359,24 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
     return `${symbol}${price.toLocaleString()}`;
   };
 
-  const getCellValue = (device: ProjectDevice, columnId: string, index: number) => {
+  const formatMargin = (margin: number | null, percent: number | null, symbol: string) => {
+    if (margin === null) return '-';
+    const amount = `${margin < 0 ? '-' : ''}${symbol}${Math.abs(margin).toLocaleString()}`;
+    return percent === null ? amount : `${amount} (${percent.toFixed(1)}%)`;
+  };
+
+  const openDeviceBrowser = (floorId: string | null) => {
+    setTargetFloorId(floorId);
+    setIsDeviceBrowserOpen(true);
+  };
+
+  const getCellValue = (device: ProjectDevice, columnId: string, itemNumber: string) => {
     const symbol = device.devices.currencies?.symbol || project.currencies?.symbol || '$';
-    const effectivePrice = device.unit_price ?? device.devices.unit_price ?? 0;
+    const effectivePrice = getEffectivePrice(device);
+    const lineProfitability = profitability.get(device.id);
     
     switch (columnId) {
-      case 'item': return index + 1;
+      case 'item': return itemNumber;
       case 'name': return device.devices.name;
       case 'brand': return device.devices.brand || '-';
       case 'model': return device.devices.model || '-';
@@ -253,6 +385,8 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
       case 'unit_price': return formatPrice(effectivePrice, symbol);
       case 'total': return formatPrice(effectivePrice * device.quantity, symbol);
       case 'cost_price': return formatPrice(device.devices.cost_price, symbol);
+      case 'line_cost': return formatPrice(lineProfitability?.cost ?? null, projectSymbol);
+      case 'margin': return formatMargin(lineProfitability?.margin ?? null, lineProfitability?.marginPercent ?? null, projectSymbol);
       case 'msrp': return formatPrice(device.devices.msrp, symbol);
       case 'notes': return device.notes || '-';
       default: return '-';
@@ -261,13 +395,122 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
 
   const totals = useMemo(() => {
     return {
-      quantity: devices.reduce((sum, d) => sum + d.quantity, 0),
-      total: devices.reduce((sum, d) => {
-        const price = d.unit_price ?? d.devices.unit_price ?? 0;
-        return sum + (price * d.quantity);
-      }, 0),
+      quantity: groups.reduce((sum, g) => sum + g.quantity, 0),
+      total: groups.reduce((sum, g) => sum + g.subtotal, 0),
+      profitability: summarizeProfitability(devices, conversionRates, projectCurrency?.id),
     };
-  }, [devices]);
+  }, [groups, devices, conversionRates, projectCurrency?.id]);
+
+  const renderDeviceRow = (device: ProjectDevice, itemNumber: string) => {
+    const belowCost = profitability.get(device.id)?.belowCost;
+    return (
+      <div
+        key={device.id}
+        className={`flex border-b transition-colors ${belowCost ? 'bg-destructive/10 hover:bg-destructive/15' : 'hover:bg-muted/30'}`}
+        title={belowCost ? 'Selling below cost' : undefined}
+      >
+        {visibleColumns.map(col => (
+          <div
+            key={col.id}
+            className={`flex items-center px-3 py-2 text-sm border-r last:border-r-0 ${belowCost && col.id === 'margin' ? 'text-destructive font-medium' : ''}`}
+            style={{ width: col.width, minWidth: col.minWidth }}
+          >
+            {col.id === 'quantity' ? (
+              <Input
+                type="number"
+                min="1"
+                value={device.quantity}
+                onChange={(e) => updateDeviceQuantity(device.id, parseInt(e.target.value) || 1)}
+                className="h-7 w-full"
+              />
+            ) : col.id === 'unit_price' ? (
+              <Input
+                type="number"
+                step="0.01"
+                value={device.unit_price ?? device.devices.unit_price ?? 0}
+                onChange={(e) => updateDevicePrice(device.id, parseFloat(e.target.value) || 0)}
+                className="h-7 w-full"
+              />
+            ) : col.id === 'floor' ? (
+              <Select
+                value={device.floor_id || UNASSIGNED_FLOOR}
+                onValueChange={(value) => updateDeviceLocation(device.id, { floor_id: value === UNASSIGNED_FLOOR ? null : value })}
+              >
+                <SelectTrigger className="h-7 w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED_FLOOR}>Unassigned</SelectItem>
+                  {groups.filter(g => g.floor).map(g => (
+                    <SelectItem key={g.key} value={g.key}>{g.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : col.id === 'zone' ? (
+              <Input
+                defaultValue={device.zone || ''}
+                placeholder="Zone"
+                onBlur={(e) => {
+                  const zone = e.target.value.trim() || null;
+                  if (zone !== device.zone) updateDeviceLocation(device.id, { zone });
+                }}
+                className="h-7 w-full"
+              />
+            ) : (
+              <span className="truncate">{getCellValue(device, col.id, itemNumber)}</span>
+            )}
+          </div>
+        ))}
+        <div className="w-[60px] flex items-center justify-center">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-destructive hover:text-destructive"
+            onClick={() => removeDevice(device.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderGroupMargin = (key: string) => {
+    const summary = groupProfitability.get(key);
+    if (!summary) return null;
+    return (
+      <span className={summary.belowCostLines > 0 ? 'text-destructive' : 'text-muted-foreground'}>
+        Margin {formatMargin(summary.margin, summary.marginPercent, projectSymbol)}
+        {summary.belowCostLines > 0 && ` · ${summary.belowCostLines} below cost`}
+      </span>
+    );
+  };
+
+  const renderGroupRows = (group: BOQFloorGroup<ProjectDevice>, groupIndex: number) => {
+    if (group.devices.length === 0) {
+      return (
+        <div className="border-b px-3 py-3 text-sm text-muted-foreground">
+          No devices on this floor yet
+        </div>
+      );
+    }
+
+    let itemIndex = 0;
+    const showZoneHeaders = group.zones.some(z => z.zone);
+    return group.zones.map(zone => (
+      <div key={zone.key}>
+        {showZoneHeaders && (
+          <div className="flex items-center justify-between border-b px-3 py-1.5 pl-9 text-sm text-muted-foreground">
+            <span>{zone.zone || 'No zone'}</span>
+            <span>
+              {zone.quantity} pcs · {formatPrice(zone.subtotal, project.currencies?.symbol || '$')}
+            </span>
+          </div>
+        )}
+        {zone.devices.map(device => renderDeviceRow(device, `${groupIndex + 1}.${++itemIndex}`))}
+      </div>
+    ));
+  };
 
   const totalWidth = useMemo(() => 
     visibleColumns.reduce((sum, col) => sum + col.width, 0) + 60, // +60 for actions column
@@ -282,8 +525,25 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
           <BOQExport 
             project={project} 
             devices={devices} 
+            floors={floors}
+            sites={sites}
             columns={visibleColumns}
           />
+
+          <Button variant="outline" size="sm" onClick={() => setIsImportOpen(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+
+          <Button variant={showProfitability ? 'secondary' : 'outline'} size="sm" onClick={toggleProfitability}>
+            <TrendingUp className="h-4 w-4 mr-2" />
+            Profitability
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={() => setIsFloorManagerOpen(true)}>
+            <Layers className="h-4 w-4 mr-2" />
+            Floors
+          </Button>
           
           <Popover>
             <PopoverTrigger asChild>
@@ -311,7 +571,7 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
             </PopoverContent>
           </Popover>
 
-          <Button size="sm" onClick={() => setIsDeviceBrowserOpen(true)}>
+          <Button size="sm" onClick={() => openDeviceBrowser(null)}>
             <Plus className="h-4 w-4 mr-2" />
             Add Devices
           </Button>
@@ -323,10 +583,10 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
           <div className="flex items-center justify-center py-8">
             <p className="text-muted-foreground">Loading devices...</p>
           </div>
-        ) : devices.length === 0 ? (
+        ) : devices.length === 0 && floors.length === 0 ? (
           <div className="flex flex-col items-center justify-center py-12 text-center">
             <p className="text-muted-foreground mb-4">No devices added yet</p>
-            <Button onClick={() => setIsDeviceBrowserOpen(true)}>
+            <Button onClick={() => openDeviceBrowser(null)}>
               <Plus className="h-4 w-4 mr-2" />
               Add Devices
             </Button>
@@ -373,46 +633,38 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
                 </div>
               </div>
 
-              {/* Rows */}
-              {devices.map((device, index) => (
-                <div key={device.id} className="flex border-b hover:bg-muted/30 transition-colors">
-                  {visibleColumns.map(col => (
-                    <div
-                      key={col.id}
-                      className="flex items-center px-3 py-2 text-sm border-r last:border-r-0"
-                      style={{ width: col.width, minWidth: col.minWidth }}
+              {/* Floor groups */}
+              {groups.map((group, groupIndex) => (
+                <div key={group.key}>
+                  <div className="flex items-center justify-between border-b bg-muted/30 px-3 py-2">
+                    <button
+                      type="button"
+                      className="flex items-center gap-2 text-sm font-semibold"
+                      onClick={() => toggleGroup(group.key)}
                     >
-                      {col.id === 'quantity' ? (
-                        <Input
-                          type="number"
-                          min="1"
-                          value={device.quantity}
-                          onChange={(e) => updateDeviceQuantity(device.id, parseInt(e.target.value) || 1)}
-                          className="h-7 w-full"
-                        />
-                      ) : col.id === 'unit_price' ? (
-                        <Input
-                          type="number"
-                          step="0.01"
-                          value={device.unit_price ?? device.devices.unit_price ?? 0}
-                          onChange={(e) => updateDevicePrice(device.id, parseFloat(e.target.value) || 0)}
-                          className="h-7 w-full"
-                        />
-                      ) : (
-                        <span className="truncate">{getCellValue(device, col.id, index)}</span>
-                      )}
+                      {collapsed.has(group.key) ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      {group.label}
+                      <span className="font-normal text-muted-foreground">
+                        ({group.devices.length} item{group.devices.length === 1 ? '' : 's'})
+                      </span>
+                    </button>
+                    <div className="flex items-center gap-3 text-sm">
+                      {showProfitability && renderGroupMargin(group.key)}
+                      <span className="font-semibold">
+                        {formatPrice(group.subtotal, project.currencies?.symbol || '$')}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => openDeviceBrowser(group.floor?.id || null)}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </Button>
                     </div>
-                  ))}
-                  <div className="w-[60px] flex items-center justify-center">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="h-7 w-7 text-destructive hover:text-destructive"
-                      onClick={() => removeDevice(device.id)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
                   </div>
+
+                  {!collapsed.has(group.key) && renderGroupRows(group, groupIndex)}
                 </div>
               ))}
 
@@ -424,9 +676,15 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
                     className="flex items-center px-3 py-2 text-sm border-r last:border-r-0"
                     style={{ width: col.width, minWidth: col.minWidth }}
                   >
-                    {col.id === 'name' && 'Total'}
+                    {col.id === 'name' && 'Project Total'}
                     {col.id === 'quantity' && totals.quantity}
                     {col.id === 'total' && formatPrice(totals.total, project.currencies?.symbol || '$')}
+                    {col.id === 'line_cost' && formatPrice(totals.profitability.cost, projectSymbol)}
+                    {col.id === 'margin' && formatMargin(
+                      totals.profitability.margin,
+                      totals.profitability.marginPercent,
+                      projectSymbol
+                    )}
                   </div>
                 ))}
                 <div className="w-[60px]" />
@@ -442,6 +700,28 @@ export const BOQEditor = ({ projectId, project, onUpdate }: BOQEditorProps) => {
         onClose={() => setIsDeviceBrowserOpen(false)}
         onConfirm={handleAddDevices}
       />
+
+      <BOQImportDialog
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        projectId={projectId}
+        floorOptions={groups.filter(g => g.floor).map(g => ({ id: g.key, label: g.label }))}
+        onImported={() => {
+          fetchDevices();
+          onUpdate?.();
+        }}
+      />
+
+      <BOQFloorManager
+        isOpen={isFloorManagerOpen}
+        onClose={() => setIsFloorManagerOpen(false)}
+        projectId={projectId}
+        floors={floors}
+        onChange={() => {
+          fetchFloors();
+          fetchDevices();
+        }}
+      />
     </Card>
   );
 };
\ No newline at end of file
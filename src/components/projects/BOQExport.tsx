@@ -9,10 +9,20 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { Download, FileSpreadsheet, FileText } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import {
+  BOQFloor,
+  BOQFloorGroup,
+  BOQSite,
+  getEffectivePrice,
+  groupBOQByFloor,
+  summarizeBOQBySite,
+} from '@/lib/boq-grouping';
 
 interface ProjectDevice {
   id: string;
   device_id: string;
+  floor_id: string | null;
+  zone: string | null;
   quantity: number;
   unit_price: number | null;
   notes: string | null;
@@ -56,19 +66,32 @@ interface ColumnConfig {
 interface BOQExportProps {
   project: Project;
   devices: ProjectDevice[];
+  floors: BOQFloor[];
+  sites: BOQSite[];
   columns: ColumnConfig[];
 }
 
-export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
+// Excel sheet names: max 31 characters, no []:*?/\ and unique within the workbook
+const toSheetName = (label: string, used: Set<string>) => {
+  const base = label.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 28) || 'Floor';
+  let name = base;
+  for (let i = 2; used.has(name.toLowerCase()); i++) name = `${base} ${i}`;
+  used.add(name.toLowerCase());
+  return name;
+};
+
+export const BOQExport = ({ project, devices, floors, sites, columns }: BOQExportProps) => {
   const { toast } = useToast();
   const [exporting, setExporting] = useState(false);
 
-  const getCellValue = (device: ProjectDevice, columnId: string, index: number) => {
-    const symbol = device.devices.currencies?.symbol || project.currencies?.symbol || '$';
-    const effectivePrice = device.unit_price ?? device.devices.unit_price ?? 0;
+  const getGroups = () =>
+    groupBOQByFloor(devices, floors, sites).filter(group => group.devices.length > 0);
+
+  const getCellValue = (device: ProjectDevice, columnId: string, itemNumber: string, floorLabel = '') => {
+    const effectivePrice = getEffectivePrice(device);
     
     switch (columnId) {
-      case 'item': return index + 1;
+      case 'item': return itemNumber;
       case 'name': return device.devices.name;
       case 'brand': return device.devices.brand || '';
       case 'model': return device.devices.model || '';
@@ -79,10 +102,44 @@ export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
       case 'cost_price': return device.devices.cost_price || '';
       case 'msrp': return device.devices.msrp || '';
       case 'notes': return device.notes || '';
+      case 'floor': return floorLabel;
+      case 'zone': return device.zone || '';
       default: return '';
     }
   };
 
+  const totalsRow = (visibleColumns: ColumnConfig[], label: string, quantity: number, total: number) =>
+    visibleColumns.map(col => {
+      if (col.id === 'name') return label;
+      if (col.id === 'quantity') return quantity;
+      if (col.id === 'total') return total;
+      return '';
+    });
+
+  const floorSheetRows = (
+    group: BOQFloorGroup<ProjectDevice>,
+    groupIndex: number,
+    visibleColumns: ColumnConfig[]
+  ): (string | number)[][] => {
+    const rows: (string | number)[][] = [];
+    const showZones = group.zones.some(z => z.zone);
+    let itemIndex = 0;
+
+    group.zones.forEach(zone => {
+      if (showZones) rows.push([zone.zone || 'No zone']);
+      zone.devices.forEach(device => {
+        const itemNumber = `${groupIndex + 1}.${++itemIndex}`;
+        rows.push(visibleColumns.map(col => getCellValue(device, col.id, itemNumber, group.label)));
+      });
+      if (showZones) {
+        rows.push(totalsRow(visibleColumns, `Subtotal ${zone.zone || 'No zone'}`, zone.quantity, zone.subtotal), []);
+      }
+    });
+
+    rows.push([], totalsRow(visibleColumns, `TOTAL ${group.label}`, group.quantity, group.subtotal));
+    return rows;
+  };
+
   const exportToExcel = () => {
     setExporting(true);
     try {
@@ -109,34 +166,48 @@ export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
       projectSheet['!cols'] = [{ wch: 15 }, { wch: 50 }];
       XLSX.utils.book_append_sheet(workbook, projectSheet, 'Project Info');
 
-      // Devices Sheet
       const visibleColumns = columns.filter(c => c.visible);
       const headers = visibleColumns.map(c => c.label);
-      
-      const deviceRows = devices.map((device, index) => 
-        visibleColumns.map(col => getCellValue(device, col.id, index))
-      );
+      const columnWidths = visibleColumns.map(col => ({ wch: Math.max(col.width / 7, 10) }));
+      const groups = getGroups();
+      const grandTotal = groups.reduce((sum, g) => sum + g.subtotal, 0);
 
-      // Add totals row
-      const totalsRow = visibleColumns.map(col => {
-        if (col.id === 'name') return 'TOTAL';
-        if (col.id === 'quantity') return devices.reduce((sum, d) => sum + d.quantity, 0);
-        if (col.id === 'total') {
-          return devices.reduce((sum, d) => {
-            const price = d.unit_price ?? d.devices.unit_price ?? 0;
-            return sum + (price * d.quantity);
-          }, 0);
-        }
-        return '';
-      });
+      // Summary Sheet: subtotal per floor and per site
+      const summaryData: (string | number)[][] = [
+        ['#', 'Floor', 'Site', 'Items', 'Quantity', 'Subtotal'],
+        ...groups.map((group, index) => [
+          index + 1,
+          group.floor?.name || group.label,
+          group.site?.name || '',
+          group.devices.length,
+          group.quantity,
+          group.subtotal,
+        ]),
+        [],
+        ['', 'PROJECT TOTAL', '', devices.length, groups.reduce((sum, g) => sum + g.quantity, 0), grandTotal],
+      ];
 
-      const devicesData = [headers, ...deviceRows, [], totalsRow];
-      const devicesSheet = XLSX.utils.aoa_to_sheet(devicesData);
-      
-      // Set column widths based on config
-      devicesSheet['!cols'] = visibleColumns.map(col => ({ wch: Math.max(col.width / 7, 10) }));
-      
-      XLSX.utils.book_append_sheet(workbook, devicesSheet, 'BOQ');
+      const siteSummaries = summarizeBOQBySite(groups);
+      if (siteSummaries.length > 1) {
+        summaryData.push(
+          [],
+          ['', 'Site', 'Floors', '', 'Quantity', 'Subtotal'],
+          ...siteSummaries.map(site => ['', site.label, site.floors, '', site.quantity, site.subtotal])
+        );
+      }
+
+      const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+      summarySheet['!cols'] = [{ wch: 6 }, { wch: 30 }, { wch: 25 }, { wch: 10 }, { wch: 12 }, { wch: 16 }];
+      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+      // One sheet per floor, split by zone
+      const usedNames = new Set(['project info', 'summary']);
+      groups.forEach((group, groupIndex) => {
+        const rows = floorSheetRows(group, groupIndex, visibleColumns);
+        const floorSheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
+        floorSheet['!cols'] = columnWidths;
+        XLSX.utils.book_append_sheet(workbook, floorSheet, toSheetName(group.label, usedNames));
+      });
 
       // Download
       const fileName = `BOQ_${project.name.replace(/[^a-zA-Z0-9]/g, '_')}_${new Date().toISOString().split('T')[0]}.xlsx`;
@@ -156,6 +227,11 @@ export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
     try {
       const visibleColumns = columns.filter(c => c.visible);
       const symbol = project.currencies?.symbol || '$';
+      const groups = getGroups();
+      const formatCell = (columnId: string, value: string | number) =>
+        ['unit_price', 'total', 'cost_price', 'msrp'].includes(columnId) && typeof value === 'number'
+          ? `${symbol}${value.toLocaleString()}`
+          : value;
       
       // Create printable HTML content
       const printContent = `
@@ -174,6 +250,9 @@ export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
             table.boq th { background: #f5f5f5; border: 1px solid #ddd; padding: 10px; text-align: left; font-weight: bold; }
             table.boq td { border: 1px solid #ddd; padding: 8px 10px; }
             table.boq tr:nth-child(even) { background: #fafafa; }
+            table.boq tr.floor td { background: #e8e8e8; font-weight: bold; }
+            table.boq tr.zone td { font-style: italic; color: #666; }
+            table.boq tr.subtotal { font-weight: bold; }
             table.boq tr.totals { background: #f0f0f0; font-weight: bold; }
             .footer { margin-top: 30px; font-size: 12px; color: #666; }
             @media print {
@@ -205,30 +284,31 @@ export const BOQExport = ({ project, devices, columns }: BOQExportProps) => {
               </tr>
             </thead>
             <tbody>
-              ${devices.map((device, index) => `
-                <tr>
-                  ${visibleColumns.map(col => {
-                    const value = getCellValue(device, col.id, index);
-                    const formatted = ['unit_price', 'total', 'cost_price', 'msrp'].includes(col.id) && typeof value === 'number'
-                      ? `${symbol}${value.toLocaleString()}`
-                      : value;
-                    return `<td>${formatted}</td>`;
-                  }).join('')}
-                </tr>
-              `).join('')}
+              ${groups.map((group, groupIndex) => {
+                let itemIndex = 0;
+                const showZones = group.zones.some(z => z.zone);
+                return `
+                  <tr class="floor"><td colspan="${visibleColumns.length}">${group.label}</td></tr>
+                  ${group.zones.map(zone => `
+                    ${showZones ? `<tr class="zone"><td colspan="${visibleColumns.length}">${zone.zone || 'No zone'}</td></tr>` : ''}
+                    ${zone.devices.map(device => `
+                      <tr>
+                        ${visibleColumns.map(col => {
+                          const value = getCellValue(device, col.id, `${groupIndex + 1}.${++itemIndex}`, group.label);
+                          return `<td>${formatCell(col.id, value)}</td>`;
+                        }).join('')}
+                      </tr>
+                    `).join('')}
+                  `).join('')}
+                  <tr class="subtotal">
+                    ${totalsRow(visibleColumns, `Subtotal ${group.label}`, group.quantity, group.subtotal)
+                      .map((value, i) => `<td>${formatCell(visibleColumns[i].id, value)}</td>`).join('')}
+                  </tr>
+                `;
+              }).join('')}
               <tr class="totals">
-                ${visibleColumns.map(col => {
-                  if (col.id === 'name') return '<td>TOTAL</td>';
-                  if (col.id === 'quantity') return `<td>${devices.reduce((sum, d) => sum + d.quantity, 0)}</td>`;
-                  if (col.id === 'total') {
-                    const total = devices.reduce((sum, d) => {
-                      const price = d.unit_price ?? d.devices.unit_price ?? 0;
-                      return sum + (price * d.quantity);
-                    }, 0);
-                    return `<td>${symbol}${total.toLocaleString()}</td>`;
-                  }
-                  return '<td></td>';
-                }).join('')}
+                ${totalsRow(visibleColumns, 'PROJECT TOTAL', groups.reduce((sum, g) => sum + g.quantity, 0), groups.reduce((sum, g) => sum + g.subtotal, 0))
+                  .map((value, i) => `<td>${formatCell(visibleColumns[i].id, value)}</td>`).join('')}
               </tr>
             </tbody>
           </table>
@@ -0,0 +1,241 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useToast } from '@/hooks/use-toast';
+import { Plus, Trash2 } from 'lucide-react';
+import { BOQFloor, BOQSite } from '@/lib/boq-grouping';
+
+const NO_SITE = 'none';
+
+interface BOQFloorManagerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  floors: BOQFloor[];
+  onChange: () => void;
+}
+
+export const BOQFloorManager = ({ isOpen, onClose, projectId, floors, onChange }: BOQFloorManagerProps) => {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const [sites, setSites] = useState<BOQSite[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, { name: string; level: string }>>({});
+  const [newName, setNewName] = useState('');
+  const [newLevel, setNewLevel] = useState('');
+  const [newSiteId, setNewSiteId] = useState<string>(NO_SITE);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) fetchSites();
+  }, [isOpen, currentTenant]);
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries(
+      floors.map(f => [f.id, { name: f.name, level: f.level === null ? '' : String(f.level) }])
+    ));
+  }, [floors]);
+
+  const fetchSites = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('sites')
+      .select('id, name')
+      .eq('tenant_id', currentTenant.id)
+      .eq('active', true)
+      .is('deleted_at', null)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching sites:', error);
+      return;
+    }
+    setSites(data || []);
+  };
+
+  // Floors reference sites through the project; keep project_sites in step so the site shows up on the project
+  const linkSiteToProject = async (siteId: string | null) => {
+    if (!siteId) return;
+    const { error } = await supabase
+      .from('project_sites')
+      .upsert({ project_id: projectId, site_id: siteId }, { onConflict: 'project_id,site_id', ignoreDuplicates: true });
+    if (error) throw error;
+  };
+
+  const addFloor = async () => {
+    if (!newName.trim()) {
+      toast({ title: 'Error', description: 'Floor name is required', variant: 'destructive' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const siteId = newSiteId === NO_SITE ? null : newSiteId;
+      await linkSiteToProject(siteId);
+
+      const { error } = await supabase
+        .from('project_floors')
+        .insert({
+          project_id: projectId,
+          name: newName.trim(),
+          level: newLevel === '' ? null : parseInt(newLevel),
+          site_id: siteId,
+        });
+
+      if (error) throw error;
+      setNewName('');
+      setNewLevel('');
+      onChange();
+    } catch (error) {
+      console.error('Error adding floor:', error);
+      toast({ title: 'Error', description: 'Failed to add floor', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateFloor = async (floor: BOQFloor, updates: Partial<Pick<BOQFloor, 'name' | 'level' | 'site_id'>>) => {
+    try {
+      if (updates.site_id) await linkSiteToProject(updates.site_id);
+
+      const { error } = await supabase
+        .from('project_floors')
+        .update(updates)
+        .eq('id', floor.id);
+
+      if (error) throw error;
+      onChange();
+    } catch (error) {
+      console.error('Error updating floor:', error);
+      toast({ title: 'Error', description: 'Failed to update floor', variant: 'destructive' });
+    }
+  };
+
+  const saveDraft = (floor: BOQFloor) => {
+    const draft = drafts[floor.id];
+    if (!draft) return;
+
+    const level = draft.level === '' ? null : parseInt(draft.level);
+    if (!draft.name.trim() || (draft.name.trim() === floor.name && level === floor.level)) return;
+    updateFloor(floor, { name: draft.name.trim(), level });
+  };
+
+  const deleteFloor = async (floor: BOQFloor) => {
+    try {
+      const { error } = await supabase
+        .from('project_floors')
+        .delete()
+        .eq('id', floor.id);
+
+      if (error) throw error;
+      toast({ title: 'Success', description: `${floor.name} removed. Its devices are now unassigned.` });
+      onChange();
+    } catch (error) {
+      console.error('Error deleting floor:', error);
+      toast({ title: 'Error', description: 'Failed to delete floor', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Floors & Areas</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_80px_1fr_40px] gap-2 text-sm font-medium text-muted-foreground">
+            <span>Name</span>
+            <span>Level</span>
+            <span>Site</span>
+            <span />
+          </div>
+
+          {floors.length === 0 && (
+            <p className="text-sm text-muted-foreground py-2">No floors yet. Add the first one below.</p>
+          )}
+
+          {floors.map(floor => (
+            <div key={floor.id} className="grid grid-cols-[1fr_80px_1fr_40px] gap-2 items-center">
+              <Input
+                value={drafts[floor.id]?.name ?? floor.name}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [floor.id]: { ...prev[floor.id], name: e.target.value } }))}
+                onBlur={() => saveDraft(floor)}
+                className="h-8"
+              />
+              <Input
+                type="number"
+                value={drafts[floor.id]?.level ?? ''}
+                onChange={(e) => setDrafts(prev => ({ ...prev, [floor.id]: { ...prev[floor.id], level: e.target.value } }))}
+                onBlur={() => saveDraft(floor)}
+                className="h-8"
+              />
+              <Select
+                value={floor.site_id || NO_SITE}
+                onValueChange={(value) => updateFloor(floor, { site_id: value === NO_SITE ? null : value })}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_SITE}>No site</SelectItem>
+                  {sites.map(site => (
+                    <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => deleteFloor(floor)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="grid grid-cols-[1fr_80px_1fr_40px] gap-2 items-center pt-4 border-t">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Ground Floor"
+              className="h-8"
+            />
+            <Input
+              type="number"
+              value={newLevel}
+              onChange={(e) => setNewLevel(e.target.value)}
+              placeholder="0"
+              className="h-8"
+            />
+            <Select value={newSiteId} onValueChange={setNewSiteId}>
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_SITE}>No site</SelectItem>
+                {sites.map(site => (
+                  <SelectItem key={site.id} value={site.id}>{site.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="icon" className="h-8 w-8" onClick={addFloor} disabled={saving}>
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,482 @@
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useToast } from '@/hooks/use-toast';
+import { Upload, Search, Loader2, AlertCircle } from 'lucide-react';
+import { DeviceBrowserDialog, SelectedDevice } from './DeviceBrowserDialog';
+import {
+  BOQ_IMPORT_FIELDS,
+  BOQColumnMapping,
+  BOQImportField,
+  BOQImportRow,
+  BOQSpreadsheet,
+  guessBOQColumnMapping,
+  mapBOQImportRows,
+  readBOQSpreadsheet,
+} from '@/lib/device-import';
+import { DEVICE_MATCH_THRESHOLD, DeviceMatch, findDeviceMatches } from '@/lib/device-matching';
+import { UNASSIGNED_FLOOR } from '@/lib/boq-grouping';
+
+interface CatalogDevice {
+  id: string;
+  name: string;
+  brand: string | null;
+  model: string | null;
+  unit_price: number | null;
+  template_properties?: unknown;
+}
+
+type LineStatus = 'matched' | 'suggested' | 'unmatched' | 'manual';
+
+interface ImportLine {
+  row: BOQImportRow;
+  candidates: DeviceMatch<CatalogDevice>[];
+  device: CatalogDevice | null;
+  score: number | null;
+  status: LineStatus;
+  include: boolean;
+}
+
+const NOT_MAPPED = 'none';
+
+const STATUS_BADGES: Record<LineStatus, { label: string; className: string }> = {
+  matched: { label: 'Matched', className: 'bg-green-500/10 text-green-600' },
+  suggested: { label: 'Review', className: 'bg-yellow-500/10 text-yellow-600' },
+  unmatched: { label: 'Unmatched', className: 'bg-destructive/10 text-destructive' },
+  manual: { label: 'Selected', className: 'bg-blue-500/10 text-blue-600' },
+};
+
+interface BOQImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectId: string;
+  floorOptions: Array<{ id: string; label: string }>;
+  onImported: () => void;
+}
+
+export const BOQImportDialog = ({ isOpen, onClose, projectId, floorOptions, onImported }: BOQImportDialogProps) => {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<'upload' | 'map' | 'review'>('upload');
+  const [fileName, setFileName] = useState('');
+  const [spreadsheet, setSpreadsheet] = useState<BOQSpreadsheet | null>(null);
+  const [mapping, setMapping] = useState<BOQColumnMapping>({});
+  const [catalog, setCatalog] = useState<CatalogDevice[]>([]);
+  const [lines, setLines] = useState<ImportLine[]>([]);
+  const [targetFloorId, setTargetFloorId] = useState<string>(UNASSIGNED_FLOOR);
+  const [resolvingIndex, setResolvingIndex] = useState<number | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchCatalog();
+    } else {
+      setStep('upload');
+      setFileName('');
+      setSpreadsheet(null);
+      setMapping({});
+      setLines([]);
+      setTargetFloorId(UNASSIGNED_FLOOR);
+    }
+  }, [isOpen, currentTenant]);
+
+  const fetchCatalog = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('devices')
+      .select('id, name, brand, model, unit_price, template_properties')
+      .eq('active', true)
+      .eq('tenant_id', currentTenant.id)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching devices:', error);
+      return;
+    }
+    setCatalog(data || []);
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const sheet = await readBOQSpreadsheet(file);
+      if (sheet.rows.length === 0) {
+        toast({ title: 'Error', description: 'The file has no data rows', variant: 'destructive' });
+        return;
+      }
+      setFileName(file.name);
+      setSpreadsheet(sheet);
+      setMapping(guessBOQColumnMapping(sheet.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading BOQ file:', error);
+      toast({ title: 'Error', description: 'Could not read the file', variant: 'destructive' });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const updateMapping = (field: BOQImportField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === NOT_MAPPED) delete next[field];
+      else next[field] = parseInt(value);
+      return next;
+    });
+  };
+
+  const missingRequired = BOQ_IMPORT_FIELDS.filter(f => f.required && mapping[f.field] === undefined);
+
+  const runMatching = () => {
+    if (!spreadsheet) return;
+
+    const rows = mapBOQImportRows(spreadsheet, mapping);
+    setLines(rows.map(row => {
+      const candidates = findDeviceMatches(row, catalog);
+      const best = candidates[0];
+      const status: LineStatus = !best ? 'unmatched' : best.score >= DEVICE_MATCH_THRESHOLD ? 'matched' : 'suggested';
+      return {
+        row,
+        candidates,
+        device: best?.device || null,
+        score: best?.score ?? null,
+        status,
+        // Suggestions need a confirmation before they are imported
+        include: status === 'matched',
+      };
+    }));
+    setStep('review');
+  };
+
+  const updateLine = (index: number, updates: Partial<ImportLine>) => {
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...updates } : line)));
+  };
+
+  const selectCandidate = (index: number, deviceId: string) => {
+    const candidate = lines[index].candidates.find(c => c.device.id === deviceId);
+    if (!candidate) return;
+    updateLine(index, { device: candidate.device, score: candidate.score, status: 'manual', include: true });
+  };
+
+  const handleDeviceBrowserConfirm = (selected: SelectedDevice[]) => {
+    if (resolvingIndex === null || selected.length === 0) return;
+    const { device } = selected[0];
+    updateLine(resolvingIndex, {
+      device: { id: device.id, name: device.name, brand: device.brand, model: device.model, unit_price: device.unit_price },
+      score: null,
+      status: 'manual',
+      include: true,
+    });
+    setResolvingIndex(null);
+  };
+
+  const summary = useMemo(() => ({
+    total: lines.length,
+    ready: lines.filter(l => l.include && l.device).length,
+    unmatched: lines.filter(l => !l.device).length,
+    review: lines.filter(l => l.status === 'suggested' && !l.include).length,
+    fractional: lines.filter(l => !Number.isInteger(l.row.quantity)).length,
+  }), [lines]);
+
+  const handleImport = async () => {
+    const selected = lines.filter(l => l.include && l.device);
+    if (selected.length === 0) return;
+
+    setImporting(true);
+    try {
+      // One line per device and floor: repeated devices are summed. Quantities are whole units.
+      const byDevice = new Map<string, { device: CatalogDevice; quantity: number; notes: string[] }>();
+      selected.forEach(line => {
+        const entry = byDevice.get(line.device.id) || { device: line.device, quantity: 0, notes: [] };
+        entry.quantity += line.row.quantity;
+        // Project quantities are whole numbers; the BOQ quantity is kept in the notes when it is not
+        const quantityNote = Number.isInteger(line.row.quantity) ? '' : ` – qty ${line.row.quantity}`;
+        entry.notes.push(
+          `BOQ row ${line.row.rowNumber}: ${line.row.description}${line.row.unit ? ` [${line.row.unit}]` : ''}${quantityNote}`
+        );
+        byDevice.set(line.device.id, entry);
+      });
+
+      const floorId = targetFloorId === UNASSIGNED_FLOOR ? null : targetFloorId;
+      const existingQuery = supabase
+        .from('project_devices')
+        .select('id, device_id, quantity')
+        .eq('project_id', projectId);
+      const { data: existing, error: existingError } = floorId
+        ? await existingQuery.eq('floor_id', floorId)
+        : await existingQuery.is('floor_id', null);
+      if (existingError) throw existingError;
+
+      const existingByDevice = new Map((existing || []).map(pd => [pd.device_id, pd]));
+      const updates = [...byDevice.values()].filter(e => existingByDevice.has(e.device.id));
+      const inserts = [...byDevice.values()].filter(e => !existingByDevice.has(e.device.id));
+
+      await Promise.all(updates.map(async entry => {
+        const current = existingByDevice.get(entry.device.id);
+        const { error } = await supabase
+          .from('project_devices')
+          .update({ quantity: current.quantity + Math.ceil(entry.quantity) })
+          .eq('id', current.id);
+        if (error) throw error;
+      }));
+
+      if (inserts.length > 0) {
+        const { error } = await supabase
+          .from('project_devices')
+          .insert(inserts.map(entry => ({
+            project_id: projectId,
+            device_id: entry.device.id,
+            floor_id: floorId,
+            quantity: Math.ceil(entry.quantity),
+            unit_price: entry.device.unit_price,
+            notes: entry.notes.join('\n'),
+          })));
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: `Imported ${selected.length} row(s) as ${byDevice.size} BOQ line(s)${
+          [...byDevice.values()].some(e => !Number.isInteger(e.quantity)) ? '; fractional quantities were rounded up' : ''
+        }`,
+      });
+      onImported();
+      onClose();
+    } catch (error) {
+      console.error('Error importing BOQ:', error);
+      toast({ title: 'Error', description: 'Failed to import BOQ', variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen && resolvingIndex === null} onOpenChange={(open) => !open && onClose()}>
+        <DialogContent className="max-w-5xl max-h-[90vh] flex flex-col">
+          <DialogHeader>
+            <DialogTitle>Import BOQ</DialogTitle>
+            <DialogDescription>
+              {step === 'upload' && 'Upload a consultant BOQ as XLSX or CSV. The first sheet is imported.'}
+              {step === 'map' && `Map the columns of ${fileName}`}
+              {step === 'review' && 'Check the matched devices and resolve the rows that could not be matched.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {step === 'upload' && (
+            <div className="flex flex-col items-center justify-center py-12 border-2 border-dashed rounded-lg">
+              <Upload className="h-8 w-8 text-muted-foreground mb-4" />
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                className="hidden"
+                onChange={handleFileSelect}
+              />
+              <Button onClick={() => fileInputRef.current?.click()}>Choose File</Button>
+            </div>
+          )}
+
+          {step === 'map' && spreadsheet && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+                {BOQ_IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <Label>{label}{required && ' *'}</Label>
+                    <Select
+                      value={mapping[field] === undefined ? NOT_MAPPED : String(mapping[field])}
+                      onValueChange={(value) => updateMapping(field, value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_MAPPED}>Not mapped</SelectItem>
+                        {spreadsheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div>
+                <Label>Add to floor</Label>
+                <Select value={targetFloorId} onValueChange={setTargetFloorId}>
+                  <SelectTrigger className="md:w-1/3">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNASSIGNED_FLOOR}>Unassigned</SelectItem>
+                    {floorOptions.map(floor => (
+                      <SelectItem key={floor.id} value={floor.id}>{floor.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <p className="text-sm text-muted-foreground">
+                {spreadsheet.rows.length} data row(s) found below the header on row {spreadsheet.headerRowNumber}.
+                Rows without a quantity (section titles, notes) are skipped.
+              </p>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <div className="flex-1 min-h-0 flex flex-col gap-3">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{summary.total} rows</Badge>
+                <Badge className={STATUS_BADGES.matched.className}>{summary.ready} ready</Badge>
+                {summary.review > 0 && (
+                  <Badge className={STATUS_BADGES.suggested.className}>{summary.review} to review</Badge>
+                )}
+                {summary.unmatched > 0 && (
+                  <Badge className={STATUS_BADGES.unmatched.className}>{summary.unmatched} unmatched</Badge>
+                )}
+              </div>
+
+              {summary.fractional > 0 && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    {summary.fractional} row(s) have fractional quantities, such as cable lengths or areas. Project
+                    quantities are whole numbers, so these are rounded up per device on import; the BOQ quantity is
+                    kept in the line notes.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {lines.length === 0 ? (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>No rows with a description and quantity were found. Check the column mapping.</AlertDescription>
+                </Alert>
+              ) : (
+                <ScrollArea className="flex-1 border rounded-md h-[50vh]">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 sticky top-0">
+                      <tr className="text-left">
+                        <th className="p-2 w-10" />
+                        <th className="p-2 w-14">Row</th>
+                        <th className="p-2">BOQ Item</th>
+                        <th className="p-2 w-24">Qty</th>
+                        <th className="p-2 w-[320px]">Device</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lines.map((line, index) => (
+                        <tr key={line.row.rowNumber} className="border-t align-top">
+                          <td className="p-2">
+                            <Checkbox
+                              checked={line.include}
+                              disabled={!line.device}
+                              onCheckedChange={(checked) => updateLine(index, { include: !!checked })}
+                            />
+                          </td>
+                          <td className="p-2 text-muted-foreground">{line.row.rowNumber}</td>
+                          <td className="p-2">
+                            <div>{line.row.description}</div>
+                            {(line.row.brand || line.row.model || line.row.sku) && (
+                              <div className="text-xs text-muted-foreground">
+                                {[line.row.brand, line.row.model, line.row.sku].filter(Boolean).join(' · ')}
+                              </div>
+                            )}
+                          </td>
+                          <td className="p-2">
+                            {line.row.quantity} {line.row.unit}
+                            {!Number.isInteger(line.row.quantity) && (
+                              <div className="text-xs text-yellow-600">Rounded up</div>
+                            )}
+                          </td>
+                          <td className="p-2 space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge className={STATUS_BADGES[line.status].className}>
+                                {STATUS_BADGES[line.status].label}
+                                {line.score !== null && ` ${Math.round(line.score * 100)}%`}
+                              </Badge>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7"
+                                onClick={() => setResolvingIndex(index)}
+                              >
+                                <Search className="h-3 w-3 mr-1" />
+                                Browse
+                              </Button>
+                            </div>
+                            {line.candidates.length > 0 ? (
+                              <Select
+                                value={line.device?.id}
+                                onValueChange={(value) => selectCandidate(index, value)}
+                              >
+                                <SelectTrigger className="h-8">
+                                  <SelectValue placeholder="Choose a device" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {line.device && !line.candidates.some(c => c.device.id === line.device.id) && (
+                                    <SelectItem value={line.device.id}>{line.device.name}</SelectItem>
+                                  )}
+                                  {line.candidates.map(candidate => (
+                                    <SelectItem key={candidate.device.id} value={candidate.device.id}>
+                                      {candidate.device.name}
+                                      {candidate.device.model ? ` (${candidate.device.model})` : ''} –{' '}
+                                      {Math.round(candidate.score * 100)}%
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ) : (
+                              line.device && <div>{line.device.name}</div>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            {step !== 'upload' && (
+              <Button variant="outline" onClick={() => setStep(step === 'review' ? 'map' : 'upload')}>
+                Back
+              </Button>
+            )}
+            {step === 'map' && (
+              <Button onClick={runMatching} disabled={missingRequired.length > 0 || catalog.length === 0}>
+                Match Devices
+              </Button>
+            )}
+            {step === 'review' && (
+              <Button onClick={handleImport} disabled={importing || summary.ready === 0}>
+                {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                Import {summary.ready} Row(s)
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <DeviceBrowserDialog
+        isOpen={resolvingIndex !== null}
+        onClose={() => setResolvingIndex(null)}
+        onConfirm={handleDeviceBrowserConfirm}
+      />
+    </>
+  );
+};
@@ -20,6 +20,8 @@ interface Device {
   cost_price: number | null;
   msrp: number | null;
   tenant_id: string | null;
+  currency_id: string | null;
+  cost_currency_id: string | null;
   currencies: {
     symbol: string;
     code: string;
@@ -82,6 +84,8 @@ export const DeviceBrowserDialog = ({
           cost_price,
           msrp,
           tenant_id,
+          currency_id,
+          cost_currency_id,
           currencies!devices_currency_id_fkey(symbol, code)
         `)
         .eq('active', true)
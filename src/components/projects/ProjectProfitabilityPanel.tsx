@@ -0,0 +1,268 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useProjectPricing } from '@/hooks/use-project-pricing';
+import { AlertTriangle, TrendingUp } from 'lucide-react';
+import { BOQFloor, BOQSite, UNASSIGNED_FLOOR, floorLabel } from '@/lib/boq-grouping';
+import {
+  ProfitabilityLine,
+  calculateLineProfitability,
+  compareToBudget,
+  summarizeProfitability,
+  summarizeProfitabilityByFloor,
+} from '@/lib/project-profitability';
+
+interface ProfitabilityDevice extends ProfitabilityLine {
+  devices: ProfitabilityLine['devices'] & {
+    name: string;
+    model: string | null;
+  };
+}
+
+interface ProjectProfitabilityPanelProps {
+  projectId: string;
+  budget: number | null;
+  /** Bump to reload the lines after the BOQ has been edited */
+  refreshKey?: number;
+}
+
+export const ProjectProfitabilityPanel = ({ projectId, budget, refreshKey }: ProjectProfitabilityPanelProps) => {
+  const { currency, conversionRates, loading: pricingLoading } = useProjectPricing(projectId);
+  const [lines, setLines] = useState<ProfitabilityDevice[]>([]);
+  const [floors, setFloors] = useState<BOQFloor[]>([]);
+  const [sites, setSites] = useState<BOQSite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchLines();
+  }, [projectId, refreshKey]);
+
+  const fetchLines = async () => {
+    try {
+      const [devicesRes, floorsRes, sitesRes] = await Promise.all([
+        supabase
+          .from('project_devices')
+          .select(`
+            id,
+            floor_id,
+            zone,
+            quantity,
+            unit_price,
+            devices (
+              name,
+              model,
+              unit_price,
+              cost_price,
+              currency_id,
+              cost_currency_id
+            )
+          `)
+          .eq('project_id', projectId),
+        supabase
+          .from('project_floors')
+          .select('id, name, level, site_id')
+          .eq('project_id', projectId),
+        supabase
+          .from('project_sites')
+          .select('sites(id, name)')
+          .eq('project_id', projectId),
+      ]);
+
+      if (devicesRes.error) throw devicesRes.error;
+      if (floorsRes.error) throw floorsRes.error;
+      if (sitesRes.error) throw sitesRes.error;
+      setLines(devicesRes.data || []);
+      setFloors(floorsRes.data || []);
+      setSites((sitesRes.data || []).map(ps => ps.sites).filter(Boolean));
+    } catch (error) {
+      console.error('Error fetching project profitability:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const currencyId = currency?.id;
+  const symbol = currency?.symbol || '$';
+
+  const summary = useMemo(
+    () => summarizeProfitability(lines, conversionRates, currencyId),
+    [lines, conversionRates, currencyId]
+  );
+
+  const floorRows = useMemo(
+    () => summarizeProfitabilityByFloor(lines, floors, sites, conversionRates, currencyId),
+    [lines, floors, sites, conversionRates, currencyId]
+  );
+
+  const belowCost = useMemo(() => {
+    const floorById = new Map(floors.map(f => [f.id, f]));
+    const siteById = new Map(sites.map(s => [s.id, s]));
+    return lines
+      .map(line => ({ line, result: calculateLineProfitability(line, conversionRates, currencyId) }))
+      .filter(({ result }) => result.belowCost)
+      .map(({ line, result }) => {
+        const floor = line.floor_id ? floorById.get(line.floor_id) : undefined;
+        const site = floor?.site_id ? siteById.get(floor.site_id) : null;
+        return { line, result, floor: floor ? floorLabel(floor, site) : 'Unassigned' };
+      })
+      .sort((a, b) => (a.result.margin ?? 0) - (b.result.margin ?? 0));
+  }, [lines, floors, sites, conversionRates, currencyId]);
+
+  const budgetComparison = compareToBudget(summary.sell, budget);
+
+  const formatAmount = (amount: number) =>
+    `${amount < 0 ? '-' : ''}${symbol}${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+  const formatPercent = (percent: number | null) => (percent === null ? '-' : `${percent.toFixed(1)}%`);
+
+  if (loading || pricingLoading) return null;
+  if (lines.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-4">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <TrendingUp className="h-5 w-5" />
+          Profitability
+        </CardTitle>
+        {currency && (
+          <span className="text-sm text-muted-foreground">All figures in {currency.code}</span>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Sell</p>
+            <p className="font-semibold text-lg">{formatAmount(summary.sell)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Cost</p>
+            <p className="font-semibold text-lg">{formatAmount(summary.cost)}</p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Margin</p>
+            <p className={`font-semibold text-lg ${summary.margin < 0 ? 'text-destructive' : ''}`}>
+              {formatAmount(summary.margin)}
+              <span className="ml-2 text-sm font-normal text-muted-foreground">
+                {formatPercent(summary.marginPercent)}
+              </span>
+            </p>
+          </div>
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">Budget</p>
+            {budgetComparison ? (
+              <>
+                <p className="font-semibold text-lg">{formatAmount(budgetComparison.budget)}</p>
+                <Progress
+                  value={Math.min(100, budgetComparison.usedPercent)}
+                  className={`h-2 ${budgetComparison.overBudget ? '[&>div]:bg-destructive' : ''}`}
+                />
+                <p className={`text-xs ${budgetComparison.overBudget ? 'text-destructive' : 'text-muted-foreground'}`}>
+                  {budgetComparison.overBudget
+                    ? `${formatAmount(-budgetComparison.remaining)} over budget`
+                    : `${formatAmount(budgetComparison.remaining)} remaining`}
+                  {' '}({budgetComparison.usedPercent.toFixed(0)}% used)
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">No budget set</p>
+            )}
+          </div>
+        </div>
+
+        {(summary.missingCostLines > 0 || summary.missingRateLines > 0) && (
+          <div className="space-y-1 text-sm text-muted-foreground">
+            {summary.missingCostLines > 0 && (
+              <p className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                {summary.missingCostLines} line(s) have no cost price and are left out of the margin
+              </p>
+            )}
+            {summary.missingRateLines > 0 && (
+              <p className="flex items-center gap-2">
+                <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                {summary.missingRateLines} line(s) use a currency without a conversion rate to {currency?.code || 'the project currency'} and were not converted
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Per-floor breakdown once the BOQ uses floors */}
+        {floorRows.some(row => row.key !== UNASSIGNED_FLOOR) && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Floor</TableHead>
+                <TableHead className="text-right">Sell</TableHead>
+                <TableHead className="text-right">Cost</TableHead>
+                <TableHead className="text-right">Margin</TableHead>
+                <TableHead className="text-right">Margin %</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {floorRows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">
+                    {row.label}
+                    {row.belowCostLines > 0 && (
+                      <Badge variant="destructive" className="ml-2">
+                        {row.belowCostLines} below cost
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(row.sell)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.cost)}</TableCell>
+                  <TableCell className={`text-right ${row.margin < 0 ? 'text-destructive' : ''}`}>
+                    {formatAmount(row.margin)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatPercent(row.marginPercent)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {belowCost.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {belowCost.length} line(s) selling below cost
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Device</TableHead>
+                  <TableHead>Floor</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Sell</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                  <TableHead className="text-right">Loss</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {belowCost.map(({ line, result, floor }) => (
+                  <TableRow key={line.id}>
+                    <TableCell>
+                      {line.devices.name}
+                      {line.devices.model && (
+                        <span className="ml-1 text-muted-foreground">({line.devices.model})</span>
+                      )}
+                    </TableCell>
+                    <TableCell>{floor}</TableCell>
+                    <TableCell className="text-right">{line.quantity}</TableCell>
+                    <TableCell className="text-right">{formatAmount(result.sell)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(result.cost ?? 0)}</TableCell>
+                    <TableCell className="text-right text-destructive">{formatAmount(result.margin ?? 0)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -78,6 +78,7 @@ export function CreateQuoteForm({
     currency_id: '',
     expiry_date: '',
     notes: '',
+    terms: '',
   });
 
   useEffect(() => {
@@ -167,6 +168,7 @@ export function CreateQuoteForm({
           currency_id: formData.currency_id || null,
           expiry_date: formData.expiry_date || null,
           notes: formData.notes.trim() || null,
+          terms: formData.terms.trim() || null,
           status: 'draft',
           created_by: user.id,
           assigned_to: user.id,
@@ -209,6 +211,7 @@ export function CreateQuoteForm({
       currency_id: '',
       expiry_date: '',
       notes: '',
+      terms: '',
     });
     onOpenChange(false);
   };
@@ -339,6 +342,17 @@ export function CreateQuoteForm({
                 rows={3}
               />
             </div>
+
+            <div className="col-span-2">
+              <Label htmlFor="terms">Terms & Conditions</Label>
+              <Textarea
+                id="terms"
+                value={formData.terms}
+                onChange={(e) => setFormData({ ...formData, terms: e.target.value })}
+                placeholder="Payment terms, delivery, warranty... (printed on the quote document)"
+                rows={3}
+              />
+            </div>
           </div>
 
           <DialogFooter>
@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, CheckCircle2, Clock, ShieldCheck, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+export interface QuoteApprovalReason {
+  rule: 'min_margin' | 'min_line_margin' | 'max_total';
+  threshold: number;
+  actual: number;
+  item_name?: string;
+}
+
+interface ApprovalRequest {
+  id: string;
+  quote_version_id: string;
+  status: string;
+  reasons: QuoteApprovalReason[];
+  total_amount: number | null;
+  margin_percentage: number | null;
+  request_comment: string | null;
+  decision_comment: string | null;
+  decided_at: string | null;
+  created_at: string;
+  requested_by_profile?: { first_name: string; last_name: string } | null;
+  decided_by_profile?: { first_name: string; last_name: string } | null;
+}
+
+interface QuoteApprovalPanelProps {
+  quoteId: string;
+  quoteStatus: string;
+  version: { id: string; version_name: string; updated_at: string } | null;
+  currencySymbol: string;
+  onChange: () => void;
+}
+
+const REQUEST_STATUS_COLORS: Record<string, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-600',
+  approved: 'bg-green-500/10 text-green-500',
+  rejected: 'bg-destructive/10 text-destructive',
+  cancelled: 'bg-muted text-muted-foreground',
+};
+
+const profileName = (profile?: { first_name: string; last_name: string } | null) =>
+  profile ? `${profile.first_name} ${profile.last_name}`.trim() : 'Unknown';
+
+export function describeApprovalReason(reason: QuoteApprovalReason, currencySymbol: string): string {
+  const money = (n: number) =>
+    `${currencySymbol}${Number(n || 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+  switch (reason.rule) {
+    case 'min_margin':
+      return `Quote margin ${Number(reason.actual).toFixed(1)}% is below the ${Number(reason.threshold).toFixed(1)}% minimum`;
+    case 'min_line_margin':
+      return `${reason.item_name}: margin ${Number(reason.actual).toFixed(1)}% is below the ${Number(reason.threshold).toFixed(1)}% line minimum`;
+    case 'max_total':
+      return `Total ${money(reason.actual)} exceeds the ${money(reason.threshold)} limit`;
+    default:
+      return 'Approval rule triggered';
+  }
+}
+
+export function QuoteApprovalPanel({
+  quoteId,
+  quoteStatus,
+  version,
+  currencySymbol,
+  onChange,
+}: QuoteApprovalPanelProps) {
+  const { currentTenant } = useTenant();
+  const [reasons, setReasons] = useState<QuoteApprovalReason[]>([]);
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [canApprove, setCanApprove] = useState(false);
+  const [comment, setComment] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const fetchApprovalState = async () => {
+    if (!version || !currentTenant?.id) return;
+
+    try {
+      const [reasonsRes, requestsRes, canApproveRes] = await Promise.all([
+        supabase.rpc('get_quote_approval_reasons', { _quote_version_id: version.id }),
+        supabase
+          .from('quote_approval_requests')
+          .select(`
+            *,
+            requested_by_profile:profiles!quote_approval_requests_requested_by_fkey(first_name, last_name),
+            decided_by_profile:profiles!quote_approval_requests_decided_by_fkey(first_name, last_name)
+          `)
+          .eq('quote_id', quoteId)
+          .order('created_at', { ascending: false }),
+        supabase.rpc('can_approve_quotes', { _tenant_id: currentTenant.id }),
+      ]);
+
+      if (reasonsRes.error) throw reasonsRes.error;
+      if (requestsRes.error) throw requestsRes.error;
+
+      setReasons((reasonsRes.data as unknown as QuoteApprovalReason[]) || []);
+      setRequests((requestsRes.data as unknown as ApprovalRequest[]) || []);
+      setCanApprove(!!canApproveRes.data);
+    } catch (error) {
+      console.error('Error fetching approval state:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchApprovalState();
+  }, [quoteId, quoteStatus, version?.id, version?.updated_at, currentTenant?.id]);
+
+  const pendingRequest = requests.find((r) => r.status === 'pending');
+  // Mirrors enforce_quote_approval: an approval only counts if the version was not edited after it was requested
+  const currentApproval = version
+    ? requests.find(
+        (r) =>
+          r.status === 'approved' &&
+          r.quote_version_id === version.id &&
+          new Date(r.created_at) > new Date(version.updated_at)
+      )
+    : undefined;
+
+  const handleRequestApproval = async () => {
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('request_quote_approval', {
+        _quote_id: quoteId,
+        _comment: comment.trim() || null,
+      });
+      if (error) throw error;
+
+      toast.success('Approval requested');
+      setComment('');
+      onChange();
+    } catch (error) {
+      console.error('Error requesting approval:', error);
+      toast.error(error?.message || 'Failed to request approval');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleDecision = async (approved: boolean) => {
+    if (!pendingRequest) return;
+    if (!approved && !comment.trim()) {
+      toast.error('Please add a comment explaining the rejection');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { error } = await supabase.rpc('decide_quote_approval', {
+        _request_id: pendingRequest.id,
+        _approved: approved,
+        _comment: comment.trim() || null,
+      });
+      if (error) throw error;
+
+      toast.success(approved ? 'Quote approved' : 'Quote rejected');
+      setComment('');
+      onChange();
+    } catch (error) {
+      console.error('Error deciding approval:', error);
+      toast.error(error?.message || 'Failed to save decision');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (reasons.length === 0 && requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Approval
+        </CardTitle>
+        {pendingRequest ? (
+          <Badge className={REQUEST_STATUS_COLORS.pending}>Pending approval</Badge>
+        ) : currentApproval ? (
+          <Badge className={REQUEST_STATUS_COLORS.approved}>Approved</Badge>
+        ) : reasons.length > 0 ? (
+          <Badge className={REQUEST_STATUS_COLORS.rejected}>Approval required</Badge>
+        ) : null}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reasons.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">
+              {version?.version_name} needs manager approval before it can be sent:
+            </p>
+            <ul className="space-y-1">
+              {reasons.map((reason, index) => (
+                <li key={index} className="flex items-start gap-2 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 text-orange-500 shrink-0" />
+                  {describeApprovalReason(reason, currencySymbol)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {pendingRequest && canApprove && (
+          <div className="space-y-2">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Comment for the sales rep (required when rejecting)"
+              rows={2}
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={submitting} onClick={() => handleDecision(false)}>
+                <XCircle className="h-4 w-4 mr-2" />
+                Reject
+              </Button>
+              <Button disabled={submitting} onClick={() => handleDecision(true)}>
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                Approve
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {pendingRequest && !canApprove && (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Clock className="h-4 w-4" />
+            Waiting for an approver to review this quote.
+          </p>
+        )}
+
+        {!pendingRequest && !currentApproval && reasons.length > 0 && quoteStatus === 'draft' && (
+          <div className="space-y-2">
+            <Textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="Why should this quote be approved? (optional)"
+              rows={2}
+            />
+            <div className="flex justify-end">
+              <Button disabled={submitting} onClick={handleRequestApproval}>
+                <ShieldCheck className="h-4 w-4 mr-2" />
+                Request Approval
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {requests.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium">History</p>
+            {requests.map((request) => (
+              <div key={request.id} className="rounded-md border p-3 text-sm space-y-1">
+                <div className="flex items-center justify-between">
+                  <span>
+                    Requested by {profileName(request.requested_by_profile)} on{' '}
+                    {format(new Date(request.created_at), 'MMM d, yyyy HH:mm')}
+                  </span>
+                  <Badge className={REQUEST_STATUS_COLORS[request.status]}>
+                    {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+                  </Badge>
+                </div>
+                {request.request_comment && (
+                  <p className="text-muted-foreground">"{request.request_comment}"</p>
+                )}
+                {request.decided_at && (
+                  <p className="text-muted-foreground">
+                    {request.status === 'approved' ? 'Approved' : 'Rejected'} by{' '}
+                    {profileName(request.decided_by_profile)} on{' '}
+                    {format(new Date(request.decided_at), 'MMM d, yyyy HH:mm')}
+                    {request.decision_comment && `: "${request.decision_comment}"`}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
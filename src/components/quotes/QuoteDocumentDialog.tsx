@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { FileText, Download, Printer, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+type DocumentLanguage = 'en' | 'ar' | 'bilingual';
+
+interface QuoteDocument {
+  id: string;
+  quote_version_id: string;
+  version_number: number;
+  language: string;
+  format: string;
+  file_name: string;
+  file_path: string;
+  page_count: number | null;
+  created_at: string;
+}
+
+interface QuoteDocumentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quoteId: string;
+  versions: Array<{ id: string; version_number: number; version_name: string; is_primary: boolean }>;
+  defaultVersionId: string | null;
+}
+
+const LANGUAGE_LABELS: Record<DocumentLanguage, string> = {
+  en: 'English',
+  ar: 'Arabic',
+  bilingual: 'Bilingual (EN / AR)',
+};
+
+const DOCUMENT_BUCKET = 'quote-documents';
+
+export function QuoteDocumentDialog({
+  open,
+  onOpenChange,
+  quoteId,
+  versions,
+  defaultVersionId,
+}: QuoteDocumentDialogProps) {
+  const [versionId, setVersionId] = useState<string | null>(defaultVersionId);
+  const [language, setLanguage] = useState<DocumentLanguage>('en');
+  const [generating, setGenerating] = useState(false);
+  const [documents, setDocuments] = useState<QuoteDocument[]>([]);
+
+  const fetchDocuments = async () => {
+    const { data, error } = await supabase
+      .from('quote_documents')
+      .select('id, quote_version_id, version_number, language, format, file_name, file_path, page_count, created_at')
+      .eq('quote_id', quoteId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching quote documents:', error);
+      return;
+    }
+    setDocuments(data || []);
+  };
+
+  useEffect(() => {
+    if (open) {
+      setVersionId(defaultVersionId);
+      fetchDocuments();
+    }
+  }, [open, quoteId, defaultVersionId]);
+
+  const openHtml = (html: string, print: boolean) => {
+    const documentWindow = window.open('', '_blank');
+    if (!documentWindow) {
+      toast.error('Please allow pop-ups to open the document');
+      return;
+    }
+    documentWindow.document.open();
+    documentWindow.document.write(html);
+    documentWindow.document.close();
+    if (print) {
+      // Printing to PDF keeps the A4 page breaks defined by the document template
+      setTimeout(() => documentWindow.print(), 500);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!versionId) return;
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('generate-quote-document', {
+        body: { quoteVersionId: versionId, language },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success('Quote document generated');
+      openHtml(data.html, false);
+      fetchDocuments();
+    } catch (error) {
+      console.error('Error generating quote document:', error);
+      toast.error('Failed to generate quote document');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const loadDocumentHtml = async (document: QuoteDocument) => {
+    const { data, error } = await supabase.storage.from(DOCUMENT_BUCKET).download(document.file_path);
+    if (error) throw error;
+    return data.text();
+  };
+
+  const handleOpen = async (document: QuoteDocument, print: boolean) => {
+    try {
+      if (document.format === 'pdf') {
+        // The browser's PDF viewer handles printing
+        const { data, error } = await supabase.storage
+          .from(DOCUMENT_BUCKET)
+          .createSignedUrl(document.file_path, 60);
+        if (error) throw error;
+        window.open(data.signedUrl, '_blank');
+        return;
+      }
+      openHtml(await loadDocumentHtml(document), print);
+    } catch (error) {
+      console.error('Error opening quote document:', error);
+      toast.error('Failed to open document');
+    }
+  };
+
+  const handleDownload = async (document: QuoteDocument) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(DOCUMENT_BUCKET)
+        .createSignedUrl(document.file_path, 60, { download: document.file_name });
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      console.error('Error downloading quote document:', error);
+      toast.error('Failed to download document');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Quote Document</DialogTitle>
+          <DialogDescription>
+            Generate a branded, paginated document for a quote version, saved as both HTML and PDF.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Version</Label>
+              <Select value={versionId || ''} onValueChange={setVersionId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id}>
+                      {version.version_name}
+                      {version.is_primary ? ' (Primary)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <RadioGroup
+                value={language}
+                onValueChange={(value) => setLanguage(value as DocumentLanguage)}
+                className="flex flex-wrap gap-4 pt-2"
+              >
+                {(Object.keys(LANGUAGE_LABELS) as DocumentLanguage[]).map((key) => (
+                  <div key={key} className="flex items-center space-x-2">
+                    <RadioGroupItem value={key} id={`quote-doc-${key}`} />
+                    <Label htmlFor={`quote-doc-${key}`}>{LANGUAGE_LABELS[key]}</Label>
+                  </div>
+                ))}
+              </RadioGroup>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Generated Documents</Label>
+            {documents.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center border rounded-md">
+                No documents generated yet
+              </p>
+            ) : (
+              <div className="border rounded-md divide-y max-h-64 overflow-y-auto">
+                {documents.map((document) => (
+                  <div key={document.id} className="flex items-center justify-between p-3">
+                    <div className="flex items-center gap-3 min-w-0">
+                      <FileText className="h-4 w-4 text-muted-foreground shrink-0" />
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{document.file_name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {format(new Date(document.created_at), 'MMM d, yyyy HH:mm')}
+                          {document.page_count ? ` · ${document.page_count} page(s)` : ''}
+                        </p>
+                      </div>
+                      <Badge variant="outline" className="text-xs">
+                        V{document.version_number} · {LANGUAGE_LABELS[document.language as DocumentLanguage] || document.language}
+                        {' · '}
+                        {document.format.toUpperCase()}
+                      </Badge>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button variant="ghost" size="icon" title="Open" onClick={() => handleOpen(document, false)}>
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                      {document.format === 'html' && (
+                        <Button variant="ghost" size="icon" title="Print" onClick={() => handleOpen(document, true)}>
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="icon" title="Download" onClick={() => handleDownload(document)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleGenerate} disabled={!versionId || generating}>
+            {generating ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <FileText className="h-4 w-4 mr-2" />}
+            Generate Document
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
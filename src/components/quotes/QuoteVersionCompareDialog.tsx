@@ -0,0 +1,385 @@
+import { useState, useEffect, useMemo } from 'react';
+import { ArrowRight, Copy, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  ComparableQuoteItem,
+  QUOTE_ITEM_FIELD_LABELS,
+  QuoteItemDiff,
+  QuoteItemDiffStatus,
+  buildRevisionSummary,
+  diffQuoteVersions,
+  formatQuoteItemChange,
+} from '@/lib/quote-diff';
+
+interface CompareVersion {
+  id: string;
+  version_number: number;
+  version_name: string;
+  is_primary: boolean;
+  grand_total: number;
+  margin_percentage: number;
+  created_by: string | null;
+  created_at: string;
+}
+
+interface QuoteVersionCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quoteReference: string;
+  versions: CompareVersion[];
+  defaultVersionId: string | null;
+  currencySymbol: string;
+}
+
+const STATUS_STYLES: Record<QuoteItemDiffStatus, { label: string; row: string; badge: string }> = {
+  added: { label: 'Added', row: 'bg-green-500/5', badge: 'bg-green-500/10 text-green-600' },
+  removed: { label: 'Removed', row: 'bg-destructive/5', badge: 'bg-destructive/10 text-destructive' },
+  changed: { label: 'Changed', row: 'bg-orange-500/5', badge: 'bg-orange-500/10 text-orange-600' },
+  unchanged: { label: 'Unchanged', row: '', badge: 'bg-muted text-muted-foreground' },
+};
+
+export function QuoteVersionCompareDialog({
+  open,
+  onOpenChange,
+  quoteReference,
+  versions,
+  defaultVersionId,
+  currencySymbol,
+}: QuoteVersionCompareDialogProps) {
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [itemsByVersion, setItemsByVersion] = useState<Record<string, ComparableQuoteItem[]>>({});
+  const [creators, setCreators] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const sortedVersions = useMemo(
+    () => [...versions].sort((a, b) => a.version_number - b.version_number),
+    [versions]
+  );
+
+  // Default to "previous version → selected version"
+  useEffect(() => {
+    if (!open || sortedVersions.length < 2) return;
+
+    const compareIndex = Math.max(
+      sortedVersions.findIndex((v) => v.id === defaultVersionId),
+      1
+    );
+    setCompareId(sortedVersions[compareIndex].id);
+    setBaseId(sortedVersions[compareIndex - 1].id);
+  }, [open, defaultVersionId, sortedVersions]);
+
+  useEffect(() => {
+    if (!open || !baseId || !compareId) return;
+
+    const fetchComparison = async () => {
+      setLoading(true);
+      try {
+        const { data: items, error } = await supabase
+          .from('quote_items')
+          .select('id, quote_version_id, device_id, name, sku, quantity, unit_price, margin_percentage, discount_type, discount_value, tax_rate, sort_order')
+          .in('quote_version_id', [baseId, compareId])
+          .order('sort_order');
+
+        if (error) throw error;
+
+        const grouped: Record<string, ComparableQuoteItem[]> = { [baseId]: [], [compareId]: [] };
+        (items || []).forEach((item) => grouped[item.quote_version_id]?.push(item));
+        setItemsByVersion(grouped);
+
+        const creatorIds = versions.map((v) => v.created_by).filter(Boolean);
+        if (creatorIds.length > 0) {
+          const { data: profiles } = await supabase
+            .from('profiles')
+            .select('id, first_name, last_name, email')
+            .in('id', creatorIds);
+
+          setCreators(
+            Object.fromEntries(
+              (profiles || []).map((p) => [
+                p.id,
+                [p.first_name, p.last_name].filter(Boolean).join(' ') || p.email,
+              ])
+            )
+          );
+        }
+      } catch (error) {
+        console.error('Error loading version comparison:', error);
+        toast.error('Failed to load version comparison');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchComparison();
+  }, [open, baseId, compareId]);
+
+  const baseVersion = versions.find((v) => v.id === baseId);
+  const compareVersion = versions.find((v) => v.id === compareId);
+
+  const formatMoney = (amount: number) =>
+    `${currencySymbol}${(Number(amount) || 0).toLocaleString(undefined, {
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    })}`;
+
+  const diff = useMemo(() => {
+    if (!baseVersion || !compareVersion) return null;
+    return diffQuoteVersions(
+      itemsByVersion[baseVersion.id] || [],
+      itemsByVersion[compareVersion.id] || [],
+      baseVersion.grand_total,
+      compareVersion.grand_total
+    );
+  }, [itemsByVersion, baseVersion, compareVersion]);
+
+  const summary = useMemo(() => {
+    if (!diff || !baseVersion || !compareVersion) return '';
+    return buildRevisionSummary(quoteReference, baseVersion, compareVersion, diff, formatMoney);
+  }, [diff, baseVersion, compareVersion, quoteReference, currencySymbol]);
+
+  const handleCopySummary = async () => {
+    try {
+      await navigator.clipboard.writeText(summary);
+      toast.success('Revision summary copied to clipboard');
+    } catch (error) {
+      console.error('Error copying revision summary:', error);
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  const renderItemCell = (row: QuoteItemDiff, side: 'base' | 'compare') => {
+    const item = row[side];
+    if (!item) return <span className="text-muted-foreground">—</span>;
+
+    const changed = new Set<string>(row.changes.map((c) => c.field));
+    const highlight = (field: string) => (side === 'compare' && changed.has(field) ? 'font-semibold text-orange-600' : '');
+
+    return (
+      <div className="text-sm">
+        <span className={highlight('quantity')}>{item.quantity}</span>
+        {' × '}
+        <span className={highlight('unit_price')}>{formatMoney(item.unit_price)}</span>
+        {Number(item.discount_value) > 0 && (
+          <span className={`text-xs ml-1 ${highlight('discount')}`}>
+            (-{item.discount_type === 'percent' ? `${item.discount_value}%` : formatMoney(item.discount_value)})
+          </span>
+        )}
+        <div className={`text-xs text-muted-foreground ${highlight('margin_percentage')}`}>
+          Margin {(Number(item.margin_percentage) || 0).toFixed(1)}%
+        </div>
+      </div>
+    );
+  };
+
+  const renderVersionHeader = (version: CompareVersion | undefined) =>
+    version && (
+      <div className="flex-1 rounded-md border p-3 space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{version.version_name}</span>
+          <Badge variant="outline">V{version.version_number}</Badge>
+          {version.is_primary && <Badge variant="secondary">Primary</Badge>}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Created by {creators[version.created_by] || 'Unknown'} on{' '}
+          {format(new Date(version.created_at), 'MMM d, yyyy HH:mm')}
+        </p>
+        <p className="text-lg font-semibold">{formatMoney(version.grand_total)}</p>
+      </div>
+    );
+
+  const visibleItems = diff?.items.filter((row) => showUnchanged || row.status !== 'unchanged') || [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Compare Versions</DialogTitle>
+          <DialogDescription>
+            See what changed between two versions and copy a revision summary for the customer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Add another version to compare.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-end gap-2">
+              <div className="flex-1 space-y-2">
+                <Label>From</Label>
+                <Select value={baseId || ''} onValueChange={setBaseId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortedVersions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} disabled={version.id === compareId}>
+                        V{version.version_number} · {version.version_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <ArrowRight className="h-4 w-4 mb-3 text-muted-foreground" />
+              <div className="flex-1 space-y-2">
+                <Label>To</Label>
+                <Select value={compareId || ''} onValueChange={setCompareId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sortedVersions.map((version) => (
+                      <SelectItem key={version.id} value={version.id} disabled={version.id === baseId}>
+                        V{version.version_number} · {version.version_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex items-stretch gap-2">
+              {renderVersionHeader(baseVersion)}
+              <div className="flex flex-col items-center justify-center px-2">
+                <ArrowRight className="h-4 w-4 text-muted-foreground" />
+                {diff && (
+                  <Badge
+                    variant={diff.totalDelta < 0 ? 'destructive' : 'secondary'}
+                    className="mt-2 whitespace-nowrap"
+                  >
+                    {diff.totalDelta >= 0 ? '+' : '-'}
+                    {formatMoney(Math.abs(diff.totalDelta))}
+                  </Badge>
+                )}
+              </div>
+              {renderVersionHeader(compareVersion)}
+            </div>
+
+            {loading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              diff && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Badge className={STATUS_STYLES.added.badge}>{diff.added} added</Badge>
+                      <Badge className={STATUS_STYLES.removed.badge}>{diff.removed} removed</Badge>
+                      <Badge className={STATUS_STYLES.changed.badge}>{diff.changed} changed</Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        id="show-unchanged"
+                        checked={showUnchanged}
+                        onCheckedChange={setShowUnchanged}
+                      />
+                      <Label htmlFor="show-unchanged" className="text-sm">
+                        Show unchanged ({diff.unchanged})
+                      </Label>
+                    </div>
+                  </div>
+
+                  <div className="border rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Item</TableHead>
+                          <TableHead className="w-28">Status</TableHead>
+                          <TableHead>{baseVersion?.version_name}</TableHead>
+                          <TableHead>{compareVersion?.version_name}</TableHead>
+                          <TableHead className="w-32 text-right">Δ Line Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {visibleItems.length === 0 ? (
+                          <TableRow>
+                            <TableCell colSpan={5} className="text-center text-muted-foreground py-6">
+                              No line item changes
+                            </TableCell>
+                          </TableRow>
+                        ) : (
+                          visibleItems.map((row) => (
+                            <TableRow key={row.key} className={STATUS_STYLES[row.status].row}>
+                              <TableCell>
+                                <div className="font-medium">{row.name}</div>
+                                {row.sku && <div className="text-xs text-muted-foreground">{row.sku}</div>}
+                                {row.status === 'changed' && (
+                                  <div className="text-xs text-muted-foreground mt-1">
+                                    {row.changes
+                                      .filter((c) => c.field !== 'line_total')
+                                      .map((c) =>
+                                        `${QUOTE_ITEM_FIELD_LABELS[c.field]}: ${formatQuoteItemChange(c, c.before, formatMoney)} → ${formatQuoteItemChange(c, c.after, formatMoney)}`
+                                      )
+                                      .join(' · ')}
+                                  </div>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <Badge className={STATUS_STYLES[row.status].badge}>
+                                  {STATUS_STYLES[row.status].label}
+                                </Badge>
+                              </TableCell>
+                              <TableCell>{renderItemCell(row, 'base')}</TableCell>
+                              <TableCell>{renderItemCell(row, 'compare')}</TableCell>
+                              <TableCell
+                                className={`text-right font-medium ${
+                                  row.lineTotalDelta < 0 ? 'text-destructive' : row.lineTotalDelta > 0 ? 'text-green-600' : ''
+                                }`}
+                              >
+                                {row.lineTotalDelta === 0
+                                  ? '—'
+                                  : `${row.lineTotalDelta > 0 ? '+' : '-'}${formatMoney(Math.abs(row.lineTotalDelta))}`}
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Revision Summary</Label>
+                      <Button variant="outline" size="sm" onClick={handleCopySummary}>
+                        <Copy className="h-4 w-4 mr-2" />
+                        Copy
+                      </Button>
+                    </div>
+                    <Textarea value={summary} readOnly rows={8} className="font-mono text-xs" />
+                  </div>
+                </>
+              )
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
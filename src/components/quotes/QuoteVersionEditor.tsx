@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
-import { Plus, Trash2, Star, GripVertical } from 'lucide-react';
+import { useState, useEffect, useMemo } from 'react';
+import { Plus, Trash2, Star, GripVertical, ArrowRightLeft } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -16,6 +17,15 @@ import { useTenant } from '@/hooks/use-tenant';
 import { useCurrency } from '@/hooks/use-currency';
 import { toast } from 'sonner';
 import { DeviceBrowserDialog } from '@/components/projects/DeviceBrowserDialog';
+import {
+  ConversionRateTable,
+  DEFAULT_ROUNDING,
+  RoundingRules,
+  buildConversionRateTable,
+  calculateLineNet,
+  calculateQuoteTotals,
+  resolveConversionRate,
+} from '@/lib/quote-totals';
 
 interface QuoteVersion {
   id: string;
@@ -25,6 +35,16 @@ interface QuoteVersion {
   total_amount: number;
   margin_percentage: number;
   notes: string | null;
+  discount_type: string;
+  discount_value: number;
+  tax_rate_id: string | null;
+  tax_rate: number | null;
+  subtotal: number;
+  line_discount_total: number;
+  discount_amount: number;
+  tax_amount: number;
+  rounding_adjustment: number;
+  grand_total: number;
 }
 
 interface QuoteItem {
@@ -40,12 +60,29 @@ interface QuoteItem {
   total_cost: number;
   total_price: number;
   sort_order: number;
+  discount_type: string;
+  discount_value: number;
+  discount_amount: number;
+  tax_rate: number | null;
+  source_currency_id: string | null;
+  source_unit_price: number | null;
+  source_unit_cost: number | null;
+  exchange_rate: number;
+}
+
+interface TaxRate {
+  id: string;
+  name: string;
+  rate: number;
 }
 
+const NO_TAX = 'none';
+
 interface QuoteVersionEditorProps {
   quoteId: string;
   version: QuoteVersion;
   currencySymbol: string;
+  currencyId: string | null;
   onSetPrimary: () => void;
   onRefresh: () => void;
 }
@@ -54,6 +91,7 @@ export function QuoteVersionEditor({
   quoteId,
   version,
   currencySymbol,
+  currencyId,
   onSetPrimary,
   onRefresh,
 }: QuoteVersionEditorProps) {
@@ -62,6 +100,14 @@ export function QuoteVersionEditor({
   const [items, setItems] = useState<QuoteItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [showDeviceBrowser, setShowDeviceBrowser] = useState(false);
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [rounding, setRounding] = useState<RoundingRules>(DEFAULT_ROUNDING);
+  const [conversionRates, setConversionRates] = useState<ConversionRateTable>({});
+  const [currencyCodes, setCurrencyCodes] = useState<Record<string, string>>({});
+  const [documentDiscount, setDocumentDiscount] = useState({
+    discount_type: version.discount_type || 'percent',
+    discount_value: version.discount_value || 0,
+  });
 
   const fetchItems = async () => {
     if (!version.id) return;
@@ -84,34 +130,117 @@ export function QuoteVersionEditor({
     }
   };
 
+  const fetchPricingContext = async () => {
+    if (!currentTenant?.id) return;
+
+    try {
+      const [taxRatesResult, settingsResult, ratesResult, currenciesResult] = await Promise.all([
+        supabase
+          .from('tenant_tax_rates')
+          .select('id, name, rate')
+          .eq('tenant_id', currentTenant.id)
+          .eq('active', true)
+          .order('name'),
+        supabase
+          .from('tenant_pricing_settings')
+          .select('custom_conversion_rates, rounding_increment, rounding_mode')
+          .eq('tenant_id', currentTenant.id)
+          .maybeSingle(),
+        supabase
+          .from('currency_settings')
+          .select('from_currency_id, to_currency_id, conversion_rate')
+          .eq('tenant_id', currentTenant.id),
+        supabase.from('currencies').select('id, code'),
+      ]);
+
+      if (taxRatesResult.error) throw taxRatesResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+
+      setTaxRates(taxRatesResult.data || []);
+      if (settingsResult.data) {
+        setRounding({
+          increment: Number(settingsResult.data.rounding_increment),
+          mode: settingsResult.data.rounding_mode,
+        });
+      }
+      setConversionRates(
+        buildConversionRateTable(ratesResult.data || [], settingsResult.data?.custom_conversion_rates)
+      );
+      setCurrencyCodes(
+        Object.fromEntries((currenciesResult.data || []).map((c) => [c.id, c.code]))
+      );
+    } catch (error) {
+      console.error('Error fetching pricing settings:', error);
+      toast.error('Failed to load tax and currency settings');
+    }
+  };
+
   useEffect(() => {
     fetchItems();
   }, [version.id]);
 
+  useEffect(() => {
+    fetchPricingContext();
+  }, [currentTenant?.id]);
+
+  useEffect(() => {
+    setDocumentDiscount({
+      discount_type: version.discount_type || 'percent',
+      discount_value: version.discount_value || 0,
+    });
+  }, [version.id, version.discount_type, version.discount_value]);
+
   const handleAddDevices = async (devices: any[]) => {
     if (!currentTenant?.id) return;
 
     try {
-      const newItems = devices.map((device, index) => ({
-        tenant_id: currentTenant.id,
-        quote_version_id: version.id,
-        device_id: device.id,
-        name: device.name,
-        description: device.description || null,
-        sku: device.sku || null,
-        quantity: 1,
-        unit_cost: device.cost_price || 0,
-        unit_price: device.sell_price || 0,
-        margin_percentage: device.cost_price
-          ? ((device.sell_price - device.cost_price) / device.cost_price) * 100
-          : 0,
-        sort_order: items.length + index,
-      }));
+      const missingRates = new Set<string>();
+
+      const newItems = devices.map((device, index) => {
+        const priceCurrencyId = device.currency_id || null;
+        const costCurrencyId = device.cost_currency_id || priceCurrencyId;
+        const priceRate = resolveConversionRate(conversionRates, priceCurrencyId, currencyId);
+        const costRate = resolveConversionRate(conversionRates, costCurrencyId, currencyId);
+
+        if (priceRate === null) missingRates.add(currencyCodes[priceCurrencyId] || 'unknown');
+        if (costRate === null) missingRates.add(currencyCodes[costCurrencyId] || 'unknown');
+
+        // Without a configured rate the price is kept as-is and flagged in the editor
+        const unitPrice = Math.round((device.sell_price || 0) * (priceRate ?? 1) * 100) / 100;
+        const unitCost = Math.round((device.cost_price || 0) * (costRate ?? 1) * 100) / 100;
+        const converted = !!priceCurrencyId && !!currencyId && priceCurrencyId !== currencyId;
+
+        return {
+          tenant_id: currentTenant.id,
+          quote_version_id: version.id,
+          device_id: device.id,
+          name: device.name,
+          description: device.description || null,
+          sku: device.sku || null,
+          quantity: 1,
+          unit_cost: unitCost,
+          unit_price: unitPrice,
+          margin_percentage: unitCost
+            ? ((unitPrice - unitCost) / unitCost) * 100
+            : 0,
+          source_currency_id: converted ? priceCurrencyId : null,
+          source_unit_price: converted ? device.sell_price || 0 : null,
+          source_unit_cost: converted ? device.cost_price || 0 : null,
+          exchange_rate: converted ? priceRate ?? 1 : 1,
+          sort_order: items.length + index,
+        };
+      });
 
       const { error } = await supabase.from('quote_items').insert(newItems);
 
       if (error) throw error;
 
+      if (missingRates.size > 0) {
+        toast.warning(
+          `No conversion rate from ${Array.from(missingRates).join(', ')} to ${currencyCodes[currencyId] || 'the quote currency'}. Prices were added unconverted.`
+        );
+      }
       toast.success(`Added ${devices.length} device(s)`);
       fetchItems();
       onRefresh();
@@ -185,6 +314,30 @@ export function QuoteVersionEditor({
     }
   };
 
+  const handleUpdateVersion = async (updateData: Partial<QuoteVersion>) => {
+    try {
+      const { error } = await supabase
+        .from('quote_versions')
+        .update(updateData)
+        .eq('id', version.id);
+
+      if (error) throw error;
+
+      onRefresh();
+    } catch (error) {
+      console.error('Error updating version:', error);
+      toast.error('Failed to update quote totals');
+    }
+  };
+
+  const handleTaxRateChange = (value: string) => {
+    const taxRate = taxRates.find((t) => t.id === value);
+    handleUpdateVersion({
+      tax_rate_id: taxRate?.id || null,
+      tax_rate: taxRate ? Number(taxRate.rate) : null,
+    });
+  };
+
   const handleDeleteItem = async (itemId: string) => {
     try {
       const { error } = await supabase
@@ -203,12 +356,25 @@ export function QuoteVersionEditor({
     }
   };
 
-  const totalCost = items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0);
-  const totalPrice = items.reduce(
-    (sum, item) => sum + item.quantity * item.unit_price,
-    0
+  const totals = useMemo(
+    () =>
+      calculateQuoteTotals(
+        items,
+        { ...documentDiscount, tax_rate: version.tax_rate },
+        rounding
+      ),
+    [items, documentDiscount, version.tax_rate, rounding]
   );
-  const totalMargin = totalCost > 0 ? ((totalPrice - totalCost) / totalCost) * 100 : 0;
+
+  const totalCost = items.reduce((sum, item) => sum + item.quantity * item.unit_cost, 0);
+  const totalPrice = totals.subtotal;
+  // Margin is measured on what the customer pays before tax
+  const totalMargin = totalCost > 0 ? ((totals.taxableAmount - totalCost) / totalCost) * 100 : 0;
+  const formatAmount = (amount: number) =>
+    `${currencySymbol}${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  // A tax rate that was deactivated after being applied stays selectable on this version
+  const selectedTaxRateMissing =
+    !!version.tax_rate_id && !taxRates.some((t) => t.id === version.tax_rate_id);
 
   return (
     <div className="space-y-4">
@@ -262,6 +428,8 @@ export function QuoteVersionEditor({
                 <TableHead className="w-32 text-right">Unit Cost</TableHead>
                 <TableHead className="w-32 text-right">Unit Price</TableHead>
                 <TableHead className="w-24 text-right">Margin</TableHead>
+                <TableHead className="w-44 text-right">Discount</TableHead>
+                <TableHead className="w-24 text-right">Tax %</TableHead>
                 <TableHead className="w-32 text-right">Total</TableHead>
                 <TableHead className="w-12"></TableHead>
               </TableRow>
@@ -285,6 +453,14 @@ export function QuoteVersionEditor({
                         {item.sku}
                       </span>
                     )}
+                    {item.source_currency_id && (
+                      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                        <ArrowRightLeft className="h-3 w-3" />
+                        {currencyCodes[item.source_currency_id] || ''}{' '}
+                        {Number(item.source_unit_price || 0).toLocaleString()} @{' '}
+                        {Number(item.exchange_rate).toFixed(4)}
+                      </span>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Input
@@ -348,9 +524,63 @@ export function QuoteVersionEditor({
                       {item.margin_percentage.toFixed(1)}%
                     </Badge>
                   </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Select
+                        value={item.discount_type}
+                        onValueChange={(value) =>
+                          handleUpdateItem(item.id, 'discount_type', value)
+                        }
+                      >
+                        <SelectTrigger className="w-16">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="percent">%</SelectItem>
+                          <SelectItem value="amount">{currencySymbol}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        value={item.discount_value}
+                        onChange={(e) =>
+                          handleUpdateItem(
+                            item.id,
+                            'discount_value',
+                            Math.max(parseFloat(e.target.value) || 0, 0)
+                          )
+                        }
+                        className="w-20 text-right"
+                        step="0.01"
+                        min={0}
+                      />
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      value={item.tax_rate ?? ''}
+                      placeholder={version.tax_rate != null ? String(version.tax_rate) : '0'}
+                      onChange={(e) =>
+                        handleUpdateItem(
+                          item.id,
+                          'tax_rate',
+                          e.target.value === '' ? null : parseFloat(e.target.value) || 0
+                        )
+                      }
+                      className="w-20 text-right"
+                      step="0.01"
+                      min={0}
+                      title="Leave empty to use the version tax rate"
+                    />
+                  </TableCell>
                   <TableCell className="text-right font-medium">
-                    {currencySymbol}
-                    {(item.quantity * item.unit_price).toLocaleString()}
+                    {formatAmount(calculateLineNet(item))}
+                    {item.discount_value > 0 && (
+                      <div className="text-xs text-muted-foreground line-through">
+                        {formatAmount(item.quantity * item.unit_price)}
+                      </div>
+                    )}
                   </TableCell>
                   <TableCell>
                     <Button
@@ -381,9 +611,12 @@ export function QuoteVersionEditor({
                     {totalMargin.toFixed(1)}%
                   </Badge>
                 </TableCell>
+                <TableCell className="text-right text-muted-foreground">
+                  {totals.lineDiscountTotal > 0 && `-${formatAmount(totals.lineDiscountTotal)}`}
+                </TableCell>
+                <TableCell></TableCell>
                 <TableCell className="text-right text-lg">
-                  {currencySymbol}
-                  {totalPrice.toLocaleString()}
+                  {formatAmount(totals.netAmount)}
                 </TableCell>
                 <TableCell></TableCell>
               </TableRow>
@@ -392,6 +625,97 @@ export function QuoteVersionEditor({
         </div>
       )}
 
+      {/* Document Totals */}
+      {!loading && items.length > 0 && (
+        <div className="flex justify-end">
+          <div className="w-full max-w-md space-y-2 border rounded-lg p-4">
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-muted-foreground">Subtotal</span>
+              <span>{formatAmount(totals.subtotal)}</span>
+            </div>
+            {totals.lineDiscountTotal > 0 && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Line discounts</span>
+                <span>-{formatAmount(totals.lineDiscountTotal)}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">Document discount</span>
+              <div className="flex items-center gap-1">
+                <Select
+                  value={documentDiscount.discount_type}
+                  onValueChange={(value) => {
+                    setDocumentDiscount({ ...documentDiscount, discount_type: value });
+                    handleUpdateVersion({ discount_type: value });
+                  }}
+                >
+                  <SelectTrigger className="w-16 h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">%</SelectItem>
+                    <SelectItem value="amount">{currencySymbol}</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  value={documentDiscount.discount_value}
+                  onChange={(e) =>
+                    setDocumentDiscount({
+                      ...documentDiscount,
+                      discount_value: Math.max(parseFloat(e.target.value) || 0, 0),
+                    })
+                  }
+                  onBlur={() => {
+                    if (documentDiscount.discount_value !== version.discount_value) {
+                      handleUpdateVersion({ discount_value: documentDiscount.discount_value });
+                    }
+                  }}
+                  className="w-24 h-8 text-right"
+                  step="0.01"
+                  min={0}
+                />
+                <span className="w-24 text-right">-{formatAmount(totals.discountAmount)}</span>
+              </div>
+            </div>
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">Tax</span>
+              <div className="flex items-center gap-1">
+                <Select value={version.tax_rate_id || NO_TAX} onValueChange={handleTaxRateChange}>
+                  <SelectTrigger className="w-44 h-8">
+                    <SelectValue placeholder="No tax" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_TAX}>No tax</SelectItem>
+                    {selectedTaxRateMissing && (
+                      <SelectItem value={version.tax_rate_id}>
+                        {Number(version.tax_rate).toFixed(2)}% (inactive)
+                      </SelectItem>
+                    )}
+                    {taxRates.map((taxRate) => (
+                      <SelectItem key={taxRate.id} value={taxRate.id}>
+                        {taxRate.name} ({Number(taxRate.rate).toFixed(2)}%)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="w-24 text-right">{formatAmount(totals.taxAmount)}</span>
+              </div>
+            </div>
+            {totals.roundingAdjustment !== 0 && (
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">Rounding</span>
+                <span>{formatAmount(totals.roundingAdjustment)}</span>
+              </div>
+            )}
+            <div className="flex items-center justify-between border-t pt-2 text-lg font-semibold">
+              <span>Grand Total</span>
+              <span>{formatAmount(totals.grandTotal)}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
       <DeviceBrowserDialog
         isOpen={showDeviceBrowser}
         onClose={() => setShowDeviceBrowser(false)}
@@ -403,6 +727,8 @@ export function QuoteVersionEditor({
             sku: null,
             cost_price: sd.device.cost_price,
             sell_price: sd.unit_price,
+            currency_id: sd.device.currency_id,
+            cost_currency_id: sd.device.cost_currency_id,
           })));
           setShowDeviceBrowser(false);
         }}
@@ -0,0 +1,428 @@
+import { Plus, X, Sigma } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AGGREGATE_FUNCTIONS,
+  AggregateFunction,
+  AggregationConfig,
+  CALCULATED_FIELD_PRESETS,
+  CalculatedField,
+  DATE_BUCKETS,
+  DateBucket,
+  MAX_GROUPING_LEVELS,
+  QueryConfig,
+  ReportFilter,
+  aggregationAlias,
+  applyCalculatedPreset,
+  isDateField,
+  isNumericField,
+  uniqueAlias,
+} from '@/lib/report-query';
+
+const ALL_RECORDS = '*';
+const NO_BUCKET = 'none';
+
+interface FieldOption {
+  value: string;
+  label: string;
+}
+
+interface AggregationBuilderProps {
+  dataSource: string;
+  availableFields: FieldOption[];
+  operators: FieldOption[];
+  queryConfig: QueryConfig;
+  onChange: (updates: Partial<QueryConfig>) => void;
+}
+
+export function AggregationBuilder({ dataSource, availableFields, operators, queryConfig, onChange }: AggregationBuilderProps) {
+  const grouping = queryConfig.grouping || [];
+  const buckets = queryConfig.date_buckets || {};
+  const aggregations = queryConfig.aggregations || [];
+  const calculated = queryConfig.calculated_fields || [];
+  const presets = CALCULATED_FIELD_PRESETS[dataSource] || [];
+  const numericFields = availableFields.filter(field => isNumericField(field.value));
+
+  const fieldLabel = (field: string) => availableFields.find(f => f.value === field)?.label || field;
+
+  const takenAliases = (except?: string) => [
+    ...aggregations.map(aggregationAlias),
+    ...calculated.map(c => c.alias),
+  ].filter(alias => alias !== except);
+
+  // An alias can only follow its column's settings while no calculated column uses it
+  const isReferenced = (alias: string) =>
+    calculated.some(c => new RegExp(`\\b${alias}\\b`).test(c.expression));
+
+  // Grouping
+
+  const handleAddGroup = () => {
+    onChange({ grouping: [...grouping, ''] });
+  };
+
+  const handleUpdateGroup = (index: number, field: string) => {
+    const previous = grouping[index];
+    const nextBuckets = { ...buckets };
+    delete nextBuckets[previous];
+    if (isDateField(field)) nextBuckets[field] = 'month';
+    onChange({
+      grouping: grouping.map((g, i) => (i === index ? field : g)),
+      date_buckets: nextBuckets,
+    });
+  };
+
+  const handleUpdateBucket = (field: string, bucket: string) => {
+    const nextBuckets = { ...buckets };
+    if (bucket === NO_BUCKET) delete nextBuckets[field];
+    else nextBuckets[field] = bucket as DateBucket;
+    onChange({ date_buckets: nextBuckets });
+  };
+
+  const handleRemoveGroup = (index: number) => {
+    const nextBuckets = { ...buckets };
+    delete nextBuckets[grouping[index]];
+    onChange({ grouping: grouping.filter((_, i) => i !== index), date_buckets: nextBuckets });
+  };
+
+  // Aggregates
+
+  const handleAddAggregation = () => {
+    const aggregation: AggregationConfig = { field: ALL_RECORDS, function: 'count' };
+    onChange({
+      aggregations: [...aggregations, { ...aggregation, alias: uniqueAlias('count', takenAliases()) }],
+    });
+  };
+
+  const handleUpdateAggregation = (index: number, updates: Partial<AggregationConfig>) => {
+    const nextAggregations = aggregations.map((aggregation, i) => {
+      if (i !== index) return aggregation;
+      const next = { ...aggregation, ...updates };
+      // Counting all records is the only aggregate without a field
+      if (next.function !== 'count' && next.field === ALL_RECORDS) next.field = numericFields[0]?.value || '';
+      const alias = aggregationAlias(aggregation);
+      if ((updates.function || updates.field) && !isReferenced(alias)) {
+        const base = next.field === ALL_RECORDS ? 'count' : `${next.function}_${next.field}`;
+        next.alias = uniqueAlias(base, takenAliases(alias));
+      }
+      return next;
+    });
+    onChange({ aggregations: nextAggregations });
+  };
+
+  const handleUpdateCondition = (index: number, updates: Partial<ReportFilter>) => {
+    const where = aggregations[index].where || { field: '', operator: 'equals', value: '' };
+    handleUpdateAggregation(index, { where: { ...where, ...updates } });
+  };
+
+  const handleRemoveAggregation = (index: number) => {
+    onChange({ aggregations: aggregations.filter((_, i) => i !== index) });
+  };
+
+  // Calculated columns
+
+  const handleAddCalculated = () => {
+    onChange({
+      calculated_fields: [...calculated, { alias: uniqueAlias('calculated', takenAliases()), label: '', expression: '' }],
+    });
+  };
+
+  const handleUpdateCalculated = (index: number, updates: Partial<CalculatedField>) => {
+    const nextCalculated = calculated.map((field, i) => {
+      if (i !== index) return field;
+      const next = { ...field, ...updates };
+      if (updates.label !== undefined && !isReferenced(field.alias)) {
+        next.alias = uniqueAlias(updates.label || 'calculated', takenAliases(field.alias));
+      }
+      return next;
+    });
+    onChange({ calculated_fields: nextCalculated });
+  };
+
+  const handleRemoveCalculated = (index: number) => {
+    onChange({ calculated_fields: calculated.filter((_, i) => i !== index) });
+  };
+
+  const insertAlias = (index: number, alias: string) => {
+    const expression = calculated[index].expression.trim();
+    handleUpdateCalculated(index, { expression: expression ? `${expression} ${alias}` : alias });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sigma className="h-5 w-5" />
+          Summarize
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Group rows and calculate totals on the server. Leave empty to list individual records.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <Label>Group By</Label>
+          {grouping.map((field, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-6">
+                <Select value={field} onValueChange={(value) => handleUpdateGroup(index, value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableFields
+                      .filter(f => f.value === field || !grouping.includes(f.value))
+                      .map((f) => (
+                        <SelectItem key={f.value} value={f.value}>
+                          {f.label}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-5">
+                {field && isDateField(field) && (
+                  <Select value={buckets[field] || NO_BUCKET} onValueChange={(value) => handleUpdateBucket(field, value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_BUCKET}>Exact value</SelectItem>
+                      {DATE_BUCKETS.map((bucket) => (
+                        <SelectItem key={bucket.value} value={bucket.value}>
+                          By {bucket.label.toLowerCase()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              <div className="col-span-1">
+                <Button variant="ghost" size="sm" onClick={() => handleRemoveGroup(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            onClick={handleAddGroup}
+            disabled={grouping.length >= MAX_GROUPING_LEVELS}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Group
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Aggregates</Label>
+          {aggregations.map((aggregation, index) => (
+            <div key={index} className="space-y-2 rounded-md border p-3">
+              <div className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-3">
+                  <Select
+                    value={aggregation.function}
+                    onValueChange={(value) => handleUpdateAggregation(index, { function: value as AggregateFunction })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGGREGATE_FUNCTIONS.map((fn) => (
+                        <SelectItem key={fn.value} value={fn.value}>
+                          {fn.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-4">
+                  <Select
+                    value={aggregation.field}
+                    onValueChange={(value) => handleUpdateAggregation(index, { field: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {aggregation.function === 'count' && (
+                        <SelectItem value={ALL_RECORDS}>All records</SelectItem>
+                      )}
+                      {(aggregation.function === 'count' || aggregation.function === 'min' || aggregation.function === 'max'
+                        ? availableFields
+                        : numericFields
+                      ).map((f) => (
+                        <SelectItem key={f.value} value={f.value}>
+                          {f.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-4">
+                  <Input
+                    value={aggregation.label || ''}
+                    onChange={(e) => handleUpdateAggregation(index, { label: e.target.value })}
+                    placeholder="Column label (optional)"
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveAggregation(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {aggregation.where ? (
+                <div className="grid grid-cols-12 gap-2 items-end">
+                  <div className="col-span-1 text-sm text-muted-foreground pb-2">where</div>
+                  <div className="col-span-4">
+                    <Select
+                      value={aggregation.where.field}
+                      onValueChange={(value) => handleUpdateCondition(index, { field: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Field" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableFields.map((f) => (
+                          <SelectItem key={f.value} value={f.value}>
+                            {f.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-3">
+                    <Select
+                      value={aggregation.where.operator}
+                      onValueChange={(value) => handleUpdateCondition(index, { operator: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {operators.map((op) => (
+                          <SelectItem key={op.value} value={op.value}>
+                            {op.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="col-span-3">
+                    <Input
+                      value={aggregation.where.value}
+                      onChange={(e) => handleUpdateCondition(index, { value: e.target.value })}
+                      placeholder="Value"
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    <Button variant="ghost" size="sm" onClick={() => handleUpdateAggregation(index, { where: undefined })}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => handleUpdateAggregation(index, { where: { field: '', operator: 'equals', value: '' } })}
+                >
+                  Add condition
+                </Button>
+              )}
+
+              <p className="text-xs text-muted-foreground">
+                {aggregation.field === ALL_RECORDS ? 'Records' : fieldLabel(aggregation.field)} · referenced as{' '}
+                <code>{aggregationAlias(aggregation)}</code>
+              </p>
+            </div>
+          ))}
+          <Button variant="outline" onClick={handleAddAggregation}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Aggregate
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Calculated Columns</Label>
+          {calculated.map((field, index) => (
+            <div key={index} className="space-y-2 rounded-md border p-3">
+              <div className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-4">
+                  <Input
+                    value={field.label || ''}
+                    onChange={(e) => handleUpdateCalculated(index, { label: e.target.value })}
+                    placeholder="Label, e.g. Win Rate %"
+                  />
+                </div>
+                <div className="col-span-7">
+                  <Input
+                    value={field.expression}
+                    onChange={(e) => handleUpdateCalculated(index, { expression: e.target.value })}
+                    placeholder="e.g. won_count / deal_count * 100"
+                    className="font-mono"
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleRemoveCalculated(index)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {[...aggregations.map(aggregationAlias), ...calculated.slice(0, index).map(c => c.alias)].map(alias => (
+                  <Badge
+                    key={alias}
+                    variant="outline"
+                    className="cursor-pointer font-mono"
+                    onClick={() => insertAlias(index, alias)}
+                  >
+                    {alias}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleAddCalculated} disabled={aggregations.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Calculated Column
+            </Button>
+            {presets.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline">Presets</Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="start">
+                  {presets.map((preset) => (
+                    <DropdownMenuItem
+                      key={preset.field.alias}
+                      onClick={() => {
+                        const next = applyCalculatedPreset(queryConfig, preset);
+                        onChange({ aggregations: next.aggregations, calculated_fields: next.calculated_fields });
+                      }}
+                    >
+                      {preset.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
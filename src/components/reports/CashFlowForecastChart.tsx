@@ -0,0 +1,39 @@
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { useCurrency } from '@/hooks/use-currency';
+import type { ForecastMonth, ForecastScenario } from '@/lib/cash-flow-forecast';
+
+interface CashFlowForecastChartProps {
+  months: ForecastMonth[];
+  scenario: ForecastScenario;
+}
+
+/** Monthly inflows of the chosen scenario, split by source, with the best and worst case totals as bounds */
+export function CashFlowForecastChart({ months, scenario }: CashFlowForecastChartProps) {
+  const { formatCurrency } = useCurrency();
+
+  const chartData = months.map(month => ({
+    month: month.label,
+    contracts: month.contracts[scenario],
+    deals: month.deals[scenario],
+    best: month.total.best,
+    worst: month.total.worst,
+  }));
+
+  return (
+    <div className="w-full h-[400px]">
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+          <YAxis tick={{ fontSize: 12 }} tickFormatter={(value) => formatCurrency(value)} width={90} />
+          <Tooltip formatter={(value: number) => formatCurrency(value)} />
+          <Legend />
+          <Bar dataKey="contracts" stackId="inflow" fill="#10b981" name="Contract installments" />
+          <Bar dataKey="deals" stackId="inflow" fill="#3b82f6" name="Open deals" />
+          <Line type="monotone" dataKey="best" stroke="#22c55e" strokeDasharray="5 5" name="Best case" dot={false} />
+          <Line type="monotone" dataKey="worst" stroke="#ef4444" strokeDasharray="5 5" name="Worst case" dot={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { CalendarRange } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  COMPARISON_BASELINES,
+  COMPARISON_PERIODS,
+  ComparisonBaseline,
+  ComparisonPeriod,
+  PeriodComparisonConfig,
+  isDateField,
+} from '@/lib/report-query';
+
+interface FieldOption {
+  value: string;
+  label: string;
+}
+
+interface PeriodComparisonBuilderProps {
+  availableFields: FieldOption[];
+  value?: PeriodComparisonConfig;
+  onChange: (comparison: PeriodComparisonConfig | undefined) => void;
+}
+
+export function PeriodComparisonBuilder({ availableFields, value, onChange }: PeriodComparisonBuilderProps) {
+  const dateFields = availableFields.filter(field => isDateField(field.value));
+
+  const handleToggle = (enabled: boolean) => {
+    onChange(
+      enabled
+        ? { field: dateFields[0]?.value || '', period: 'month', compare_to: 'previous_period', to_date: false }
+        : undefined
+    );
+  };
+
+  const handleUpdate = (updates: Partial<PeriodComparisonConfig>) => {
+    if (value) onChange({ ...value, ...updates });
+  };
+
+  if (dateFields.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarRange className="h-5 w-5" />
+            Compare Periods
+          </CardTitle>
+          <Switch checked={!!value} onCheckedChange={handleToggle} />
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Show every aggregate for the current period next to an earlier one, with the change between them.
+        </p>
+      </CardHeader>
+      {value && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <Label>Date Field</Label>
+              <Select value={value.field} onValueChange={(field) => handleUpdate({ field })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select field" />
+                </SelectTrigger>
+                <SelectContent>
+                  {dateFields.map((field) => (
+                    <SelectItem key={field.value} value={field.value}>
+                      {field.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>This</Label>
+              <Select value={value.period} onValueChange={(period) => handleUpdate({ period: period as ComparisonPeriod })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPARISON_PERIODS.map((period) => (
+                    <SelectItem key={period.value} value={period.value}>
+                      {period.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Compared To</Label>
+              <Select
+                value={value.compare_to}
+                onValueChange={(compareTo) => handleUpdate({ compare_to: compareTo as ComparisonBaseline })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPARISON_BASELINES.map((baseline) => (
+                    <SelectItem key={baseline.value} value={baseline.value}>
+                      {baseline.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="comparison-to-date"
+              checked={!!value.to_date}
+              onCheckedChange={(checked) => handleUpdate({ to_date: checked as boolean })}
+            />
+            <Label htmlFor="comparison-to-date" className="text-sm">
+              Period to date (compare only the days elapsed so far)
+            </Label>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -1,27 +1,17 @@
 import { useState } from 'react';
-import { Plus, X } from 'lucide-react';
+import { Braces, Plus, X } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-
-interface QueryConfig {
-  fields: string[];
-  filters: Array<{
-    field: string;
-    operator: string;
-    value: string;
-  }>;
-  sorting: Array<{
-    field: string;
-    direction: 'asc' | 'desc';
-  }>;
-  grouping: string[];
-  visualization_type: 'table' | 'bar_chart' | 'pie_chart' | 'kpi_cards' | 'comparison_chart';
-  comparison_fields?: string[];
-}
+import { AggregationBuilder } from './AggregationBuilder';
+import { PeriodComparisonBuilder } from './PeriodComparisonBuilder';
+import { ReportParametersBuilder } from './ReportParametersBuilder';
+import { QueryConfig, aggregationAlias, comparisonColumnKeys, hasAggregation } from '@/lib/report-query';
+import { REPORT_RELATIONS, relatedFieldOptions, relationFieldOptions } from '@/lib/report-relationships';
+import { parameterToken } from '@/lib/report-parameters';
 
 interface QueryBuilderProps {
   dataSource: string;
@@ -70,6 +60,11 @@ const FIELD_DEFINITIONS = {
     { value: 'probability', label: 'Probability' },
     { value: 'expected_close_date', label: 'Expected Close Date' },
     { value: 'high_value', label: 'High Value' },
+    { value: 'stage_name', label: 'Stage' },
+    { value: 'customer_name', label: 'Customer Name' },
+    { value: 'assigned_salesperson', label: 'Assigned Salesperson' },
+    { value: 'assigned_to', label: 'Assigned User' },
+    { value: 'currency_code', label: 'Currency' },
     { value: 'created_at', label: 'Created Date' },
   ],
   sites: [
@@ -145,6 +140,7 @@ const OPERATORS = [
   { value: 'in_last_days', label: 'In Last N Days' },
   { value: 'before_date', label: 'Before Date' },
   { value: 'after_date', label: 'After Date' },
+  { value: 'between', label: 'Between' },
 ];
 
 const VISUALIZATION_TYPES = [
@@ -157,6 +153,37 @@ const VISUALIZATION_TYPES = [
 
 export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQueryConfigChange, visualizationType, onVisualizationTypeChange }: QueryBuilderProps) {
   const availableFields = dataSource ? FIELD_DEFINITIONS[dataSource as keyof typeof FIELD_DEFINITIONS] || [] : [];
+  const relations = REPORT_RELATIONS[dataSource] || [];
+  // Fields of the data source itself plus the fields of the entities it joins to
+  const queryFields = [...availableFields, ...relatedFieldOptions(dataSource)];
+  const summarized = hasAggregation(queryConfig);
+
+  // Summarized reports sort by their output columns: the groups, aggregates and calculated columns
+  const aggregations = queryConfig.aggregations?.length ? queryConfig.aggregations : [{ field: '*', function: 'count' as const }];
+  const valueFields = [
+    ...aggregations.map(a => ({ value: aggregationAlias(a), label: a.label || aggregationAlias(a) })),
+    ...(queryConfig.calculated_fields || []).map(c => ({ value: c.alias, label: c.label || c.alias })),
+  ];
+  // Period comparisons return each value for both periods plus the change
+  const outputValueFields = queryConfig.period_comparison?.field
+    ? valueFields.flatMap(field => {
+        const keys = comparisonColumnKeys(field.value);
+        return [
+          field,
+          { value: keys.previous, label: `${field.label} (Previous)` },
+          { value: keys.change, label: `${field.label} Change` },
+          { value: keys.change_percent, label: `${field.label} Change %` },
+        ];
+      })
+    : valueFields;
+  const sortableFields = summarized
+    ? [
+        ...(queryConfig.grouping || [])
+          .filter(Boolean)
+          .map(field => queryFields.find(f => f.value === field) || { value: field, label: field }),
+        ...outputValueFields,
+      ]
+    : queryFields;
 
   const updateQueryConfig = (updates: Partial<QueryConfig>) => {
     onQueryConfigChange({ ...queryConfig, ...updates });
@@ -181,6 +208,17 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
     updateQueryConfig({ filters: newFilters });
   };
 
+  // Parameters pick the operator their values are written for
+  const handleUseParameter = (index: number, name: string) => {
+    const parameter = queryConfig.parameters?.find(p => p.name === name);
+    const operator = parameter?.type === 'date_range'
+      ? 'between'
+      : parameter?.type === 'user' || parameter?.type === 'branch'
+        ? 'equals'
+        : queryConfig.filters[index].operator;
+    handleUpdateFilter(index, { value: parameterToken(name), operator });
+  };
+
   const handleRemoveFilter = (index: number) => {
     const newFilters = queryConfig.filters.filter((_, i) => i !== index);
     updateQueryConfig({ filters: newFilters });
@@ -254,6 +292,11 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
               <CardTitle>Fields</CardTitle>
             </CardHeader>
             <CardContent>
+              {summarized && (
+                <p className="text-sm text-muted-foreground mb-3">
+                  This report is summarized, so it shows the group and aggregate columns instead of these fields.
+                </p>
+              )}
               <div className="grid grid-cols-2 gap-3">
                 {availableFields.map((field) => (
                   <div key={field.value} className="flex items-center space-x-2">
@@ -266,6 +309,31 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
                   </div>
                 ))}
               </div>
+              {relations.length > 0 && (
+                <div className="mt-6 space-y-4">
+                  <Label className="text-sm font-medium">Related Fields</Label>
+                  {relations.map((relation) => (
+                    <div key={relation.name} className="space-y-2">
+                      <p className="text-sm text-muted-foreground">
+                        {relation.label}
+                        {relation.cardinality === 'many' && ' (one row per related record)'}
+                      </p>
+                      <div className="grid grid-cols-2 gap-3">
+                        {relationFieldOptions(relation).map((field) => (
+                          <div key={field.value} className="flex items-center space-x-2">
+                            <Checkbox
+                              id={field.value}
+                              checked={queryConfig.fields.includes(field.value)}
+                              onCheckedChange={(checked) => handleFieldToggle(field.value, checked as boolean)}
+                            />
+                            <Label htmlFor={field.value} className="text-sm">{field.label}</Label>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -286,7 +354,7 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {availableFields.map((field) => (
+                        {queryFields.map((field) => (
                           <SelectItem key={field.value} value={field.value}>
                             {field.label}
                           </SelectItem>
@@ -314,11 +382,27 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
                   </div>
                   <div className="col-span-4">
                     <Label>Value</Label>
-                    <Input
-                      value={filter.value}
-                      onChange={(e) => handleUpdateFilter(index, { value: e.target.value })}
-                      placeholder="Enter value"
-                    />
+                    <div className="flex gap-1">
+                      <Input
+                        value={filter.value}
+                        onChange={(e) => handleUpdateFilter(index, { value: e.target.value })}
+                        placeholder={filter.operator === 'between' ? 'from..to' : 'Enter value'}
+                      />
+                      {(queryConfig.parameters?.length || 0) > 0 && (
+                        <Select value="" onValueChange={(name) => handleUseParameter(index, name)}>
+                          <SelectTrigger className="w-10 px-2" title="Use a parameter">
+                            <Braces className="h-4 w-4" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {queryConfig.parameters!.map((parameter) => (
+                              <SelectItem key={parameter.name} value={parameter.name}>
+                                {parameter.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
                   </div>
                   <div className="col-span-1">
                     <Button
@@ -338,6 +422,22 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
             </CardContent>
           </Card>
 
+          <ReportParametersBuilder queryConfig={queryConfig} onChange={updateQueryConfig} />
+
+          <AggregationBuilder
+            dataSource={dataSource}
+            availableFields={queryFields}
+            operators={OPERATORS}
+            queryConfig={queryConfig}
+            onChange={updateQueryConfig}
+          />
+
+          <PeriodComparisonBuilder
+            availableFields={queryFields}
+            value={queryConfig.period_comparison}
+            onChange={(comparison) => updateQueryConfig({ period_comparison: comparison })}
+          />
+
           <Card>
             <CardHeader>
               <CardTitle>Sorting</CardTitle>
@@ -355,7 +455,7 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {availableFields.map((field) => (
+                        {sortableFields.map((field) => (
                           <SelectItem key={field.value} value={field.value}>
                             {field.label}
                           </SelectItem>
@@ -407,41 +507,42 @@ export function QueryBuilder({ dataSource, onDataSourceChange, queryConfig, onQu
                     Select exactly two numeric fields to compare
                   </p>
                   <div className="grid grid-cols-2 gap-3">
-                    {availableFields
-                      .filter(field => 
-                        field.value.includes('value') || 
-                        field.value.includes('amount') || 
-                        field.value.includes('count') ||
-                        field.value.includes('progress') ||
-                        field.value.includes('percentage')
-                      )
-                      .map((field) => (
-                        <div key={field.value} className="flex items-center space-x-2">
-                          <Checkbox
-                            id={`comparison-${field.value}`}
-                            checked={(queryConfig.comparison_fields || []).includes(field.value)}
-                            onCheckedChange={(checked) => {
-                              const currentFields = queryConfig.comparison_fields || [];
-                              let newFields: string[];
-                              
-                              if (checked) {
-                                if (currentFields.length < 2) {
-                                  newFields = [...currentFields, field.value];
-                                } else {
-                                  newFields = [currentFields[1], field.value];
-                                }
+                    {(summarized
+                      ? sortableFields.filter(field => !(queryConfig.grouping || []).includes(field.value))
+                      : queryFields.filter(field => 
+                          field.value.includes('value') || 
+                          field.value.includes('amount') || 
+                          field.value.includes('count') ||
+                          field.value.includes('progress') ||
+                          field.value.includes('percentage')
+                        )
+                    ).map((field) => (
+                      <div key={field.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`comparison-${field.value}`}
+                          checked={(queryConfig.comparison_fields || []).includes(field.value)}
+                          onCheckedChange={(checked) => {
+                            const currentFields = queryConfig.comparison_fields || [];
+                            let newFields: string[];
+                            
+                            if (checked) {
+                              if (currentFields.length < 2) {
+                                newFields = [...currentFields, field.value];
                               } else {
-                                newFields = currentFields.filter(f => f !== field.value);
+                                newFields = [currentFields[1], field.value];
                               }
-                              
-                              updateQueryConfig({ comparison_fields: newFields });
-                            }}
-                          />
-                          <Label htmlFor={`comparison-${field.value}`} className="text-sm">
-                            {field.label}
-                          </Label>
-                        </div>
-                      ))}
+                            } else {
+                              newFields = currentFields.filter(f => f !== field.value);
+                            }
+                            
+                            updateQueryConfig({ comparison_fields: newFields });
+                          }}
+                        />
+                        <Label htmlFor={`comparison-${field.value}`} className="text-sm">
+                          {field.label}
+                        </Label>
+                      </div>
+                    ))}
                   </div>
                 </div>
               </CardContent>
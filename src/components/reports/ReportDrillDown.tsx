@@ -0,0 +1,144 @@
+import { Link } from 'react-router-dom';
+import { ExternalLink, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useCurrency } from '@/hooks/use-currency';
+import type { DrillDownGroup, QueryConfig, ReportDataResult } from '@/lib/report-query';
+import type { ParameterValues } from '@/lib/report-parameters';
+import { relatedFieldLabel } from '@/lib/report-relationships';
+
+const DRILL_DOWN_LIMIT = 200;
+
+// Returned for linking only, not shown as columns
+const LINK_FIELDS = ['id', 'contract_id', 'deal_id', 'customer_id', 'site_id', 'company_id', 'contact_id'];
+
+/** Detail page of a drilled record, by data source */
+const RECORD_LINKS: Record<string, (row: Record<string, unknown>) => string | null> = {
+  deals: row => (row.id ? `/deals/${row.id}` : null),
+  contracts: row => (row.id ? `/contracts/${row.id}` : null),
+  contract_payments: row => (row.contract_id ? `/contracts/${row.contract_id}` : null),
+  contacts: row => (row.id ? `/contacts/${row.id}` : null),
+  customers: row => (row.id ? `/customers/${row.id}` : null),
+  sites: row => (row.id ? `/sites/${row.id}` : null),
+  companies: row => (row.id ? `/companies/edit/${row.id}` : null),
+};
+
+export interface DrillDownTarget {
+  group: DrillDownGroup;
+  label: string;
+}
+
+interface ReportDrillDownProps {
+  target: DrillDownTarget | null;
+  onClose: () => void;
+  dataSource: string;
+  queryConfig: QueryConfig;
+  tenantId?: string;
+  parameters?: ParameterValues;
+}
+
+/** The records behind a clicked bar or pie slice, with links to their detail pages */
+export function ReportDrillDown({ target, onClose, dataSource, queryConfig, tenantId, parameters }: ReportDrillDownProps) {
+  const { formatCurrency } = useCurrency();
+  const recordLink = RECORD_LINKS[dataSource];
+
+  const { data: result, isLoading, error } = useQuery({
+    queryKey: ['report-drilldown', dataSource, tenantId, queryConfig, parameters, target?.group],
+    enabled: !!target && !!tenantId,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke<ReportDataResult>('generate-report-data', {
+        body: {
+          dataSource,
+          queryConfig,
+          tenantId,
+          parameters,
+          drill: { group: target!.group },
+          limit: DRILL_DOWN_LIMIT,
+        },
+      });
+      if (error) throw error;
+      return data!;
+    },
+  });
+
+  const rows = result?.data || [];
+  const columns = (result?.fields || []).filter(field => !LINK_FIELDS.includes(field));
+
+  const formatFieldName = (field: string) =>
+    relatedFieldLabel(dataSource, field) ||
+    field.split('_').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+  const formatValue = (value: unknown, field: string) => {
+    if (value === null || value === undefined || value === '') return '-';
+    if (typeof value === 'number') {
+      return field.includes('value') || field.includes('amount') ? formatCurrency(value) : value.toLocaleString();
+    }
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) return new Date(value).toLocaleDateString();
+    return String(value);
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{target?.label || 'Records'}</DialogTitle>
+          <DialogDescription>
+            {result
+              ? result.count > rows.length
+                ? `Showing ${rows.length} of ${result.count} records`
+                : `${result.count} records`
+              : 'Records behind the selected chart value'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive py-4">Failed to load the records: {(error as Error).message}</p>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">No records</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {columns.map((field) => (
+                  <TableHead key={field}>{formatFieldName(field)}</TableHead>
+                ))}
+                {recordLink && <TableHead className="w-12" />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row, index) => {
+                const href = recordLink?.(row);
+                return (
+                  <TableRow key={String(row.id ?? index)}>
+                    {columns.map((field) => (
+                      <TableCell key={field}>{formatValue(row[field], field)}</TableCell>
+                    ))}
+                    {recordLink && (
+                      <TableCell>
+                        {href && (
+                          <Button variant="ghost" size="sm" asChild>
+                            <Link to={href} title="Open record">
+                              <ExternalLink className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,33 +1,72 @@
-import { useState } from 'react';
+import { RefObject, useState } from 'react';
 import { Download, FileText, FileSpreadsheet, Mail } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
 import { useAuth } from '@/hooks/use-auth';
+import type { Json } from '@/integrations/supabase/types';
+import { useWorkingHours } from '@/hooks/use-working-hours';
+import { ScheduleConfigFields } from '@/components/reports/ScheduleConfigFields';
+import { ReportExportHistory } from '@/components/reports/ReportExportHistory';
+import { captureChartImage } from '@/lib/chart-image';
+import type { QueryConfig } from '@/lib/report-query';
+import type { ParameterValues } from '@/lib/report-parameters';
+import {
+  DEFAULT_SCHEDULE_TIME,
+  ScheduleConfig,
+  ScheduleType,
+  nextRunTimes,
+  resolveScheduleTimezone,
+  validateSchedule,
+  workingHoursCalendar,
+} from '@/lib/report-schedule';
+
+type ExportFormat = 'xlsx' | 'pdf';
+
+const EXPORT_FORMATS: Array<{ value: ExportFormat; label: string }> = [
+  { value: 'xlsx', label: 'Excel' },
+  { value: 'pdf', label: 'PDF' },
+];
 
 interface ReportExportProps {
   reportId?: string;
   reportName: string;
   data: any[];
   fields: string[];
+  /** Query shown on screen, which may have unsaved changes */
+  queryConfig?: QueryConfig;
+  /** Container of the report visualization, whose chart is included in PDF exports */
+  chartRef?: RefObject<HTMLElement>;
+  /** Parameter values the report is shown with; exports and new schedules use them too */
+  parameters?: ParameterValues;
 }
 
-export function ReportExport({ reportId, reportName, data, fields }: ReportExportProps) {
+export function ReportExport({ reportId, reportName, data, fields, queryConfig, chartRef, parameters }: ReportExportProps) {
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { currentTenant } = useTenant();
   const { user } = useAuth();
-  const [exporting, setExporting] = useState(false);
+  const { workingHours } = useWorkingHours();
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
   const [schedulingEnabled, setSchedulingEnabled] = useState(false);
-  const [scheduleType, setScheduleType] = useState<'daily' | 'weekly' | 'monthly'>('daily');
+  const [scheduleType, setScheduleType] = useState<ScheduleType>('daily');
+  const [scheduleConfig, setScheduleConfig] = useState<ScheduleConfig>({
+    time: DEFAULT_SCHEDULE_TIME,
+    timezone_mode: 'recipient',
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    catch_up: 'run_once',
+  });
   const [emailRecipients, setEmailRecipients] = useState('');
   const [scheduleName, setScheduleName] = useState('');
+  const [attachments, setAttachments] = useState<ExportFormat[]>(['xlsx', 'pdf']);
 
   const exportToCSV = () => {
     if (data.length === 0 || fields.length === 0) {
@@ -39,7 +78,7 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
       return;
     }
 
-    const headers = fields.map(field => field.split('_').map(word => 
+    const headers = fields.map(field => field.split('_').filter(Boolean).map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' '));
 
@@ -73,50 +112,57 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
     });
   };
 
-  const exportToPDF = async () => {
+  const exportFile = async (format: ExportFormat) => {
+    const label = format === 'xlsx' ? 'Excel' : 'PDF';
     if (!reportId) {
       toast({
         title: 'Error',
-        description: 'Report must be saved before exporting to PDF',
+        description: `Report must be saved before exporting to ${label}`,
         variant: 'destructive',
       });
       return;
     }
 
-    setExporting(true);
+    setExporting(format);
     try {
+      const chartImage = format === 'pdf' ? await captureChartImage(chartRef?.current ?? null) : null;
       const { data: exportData, error } = await supabase.functions.invoke('export-report-pdf', {
         body: {
           reportId,
-          data,
-          fields,
-          reportName,
+          format,
+          queryConfig,
+          parameters,
+          chartImage: chartImage ?? undefined,
         },
       });
 
       if (error) throw error;
 
-      // The edge function will return a presigned URL or file path
       if (exportData?.downloadUrl) {
         window.open(exportData.downloadUrl, '_blank');
       }
 
       toast({
         title: 'Success',
-        description: 'PDF export started. You will receive a download link shortly.',
+        description: `Report exported as ${label} successfully`,
       });
     } catch (error) {
-      console.error('Error exporting PDF:', error);
+      console.error(`Error exporting ${label}:`, error);
       toast({
         title: 'Error',
-        description: 'Failed to export PDF',
+        description: `Failed to export ${label}`,
         variant: 'destructive',
       });
     } finally {
-      setExporting(false);
+      setExporting(null);
+      queryClient.invalidateQueries({ queryKey: ['report-exports', reportId] });
     }
   };
 
+  const toggleAttachment = (format: ExportFormat, checked: boolean) => {
+    setAttachments(current => checked ? [...current, format] : current.filter(f => f !== format));
+  };
+
   const createScheduledReport = async () => {
     if (!reportId || !scheduleName || !emailRecipients) {
       toast({
@@ -127,6 +173,15 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
       return;
     }
 
+    if (attachments.length === 0) {
+      toast({
+        title: 'Error',
+        description: 'Please choose at least one file to attach',
+        variant: 'destructive',
+      });
+      return;
+    }
+
     const recipients = emailRecipients.split(',').map(email => email.trim()).filter(Boolean);
     if (recipients.length === 0) {
       toast({
@@ -137,7 +192,20 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
       return;
     }
 
+    const timezone = resolveScheduleTimezone(scheduleConfig, workingHours?.timezone);
+    const calendar = workingHoursCalendar(workingHours);
+    const scheduleError = validateSchedule(scheduleType, scheduleConfig, timezone);
+    if (scheduleError) {
+      toast({
+        title: 'Invalid schedule',
+        description: scheduleError,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
+      const nextRun = nextRunTimes(scheduleType, scheduleConfig, { after: new Date(), timezone, calendar })[0];
       const { error } = await supabase
         .from('scheduled_reports')
         .insert({
@@ -147,9 +215,8 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
           name: scheduleName,
           schedule_type: scheduleType,
           email_recipients: recipients,
-          schedule_config: {
-            timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-          },
+          schedule_config: { ...scheduleConfig, attachments, parameters } as unknown as Json,
+          next_run_at: nextRun?.toISOString() ?? null,
         });
 
       if (error) throw error;
@@ -184,24 +251,33 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
       <CardContent className="space-y-4">
         <div>
           <Label className="text-sm font-medium mb-2 block">Export Options</Label>
-          <div className="flex gap-2">
+          <div className="flex flex-wrap gap-2">
             <Button onClick={exportToCSV} variant="outline" size="sm">
               <FileSpreadsheet className="h-4 w-4 mr-2" />
               Export CSV
             </Button>
+            <Button
+              onClick={() => exportFile('xlsx')}
+              variant="outline"
+              size="sm"
+              disabled={!!exporting || !reportId}
+            >
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {exporting === 'xlsx' ? 'Exporting...' : 'Export Excel'}
+            </Button>
             <Button 
-              onClick={exportToPDF} 
+              onClick={() => exportFile('pdf')} 
               variant="outline" 
               size="sm"
-              disabled={exporting || !reportId}
+              disabled={!!exporting || !reportId}
             >
               <FileText className="h-4 w-4 mr-2" />
-              {exporting ? 'Exporting...' : 'Export PDF'}
+              {exporting === 'pdf' ? 'Exporting...' : 'Export PDF'}
             </Button>
           </div>
           {!reportId && (
             <p className="text-xs text-muted-foreground mt-1">
-              Save the report first to enable PDF export
+              Save the report first to enable Excel and PDF export
             </p>
           )}
         </div>
@@ -227,19 +303,14 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
                 />
               </div>
 
-              <div>
-                <Label htmlFor="scheduleType">Frequency</Label>
-                <Select value={scheduleType} onValueChange={(value: any) => setScheduleType(value)}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="daily">Daily</SelectItem>
-                    <SelectItem value="weekly">Weekly</SelectItem>
-                    <SelectItem value="monthly">Monthly</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
+              <ScheduleConfigFields
+                scheduleType={scheduleType}
+                config={scheduleConfig}
+                onScheduleTypeChange={setScheduleType}
+                onConfigChange={setScheduleConfig}
+                ownerTimezone={workingHours?.timezone}
+                calendar={workingHoursCalendar(workingHours)}
+              />
 
               <div>
                 <Label htmlFor="emailRecipients">Email Recipients</Label>
@@ -255,6 +326,22 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
                 </p>
               </div>
 
+              <div>
+                <Label>Attachments</Label>
+                <div className="flex gap-4 mt-1">
+                  {EXPORT_FORMATS.map((format) => (
+                    <div key={format.value} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`attachment-${format.value}`}
+                        checked={attachments.includes(format.value)}
+                        onCheckedChange={(checked) => toggleAttachment(format.value, checked as boolean)}
+                      />
+                      <Label htmlFor={`attachment-${format.value}`} className="text-sm">{format.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
               <Button onClick={createScheduledReport} disabled={!reportId}>
                 <Mail className="h-4 w-4 mr-2" />
                 Create Schedule
@@ -268,6 +355,8 @@ export function ReportExport({ reportId, reportName, data, fields }: ReportExpor
             </div>
           )}
         </div>
+
+        {reportId && <ReportExportHistory reportId={reportId} />}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,91 @@
+import { Download, FileSpreadsheet, FileText, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+export const REPORT_EXPORT_BUCKET = 'report-exports';
+
+const HISTORY_LIMIT = 10;
+
+interface ReportExportHistoryProps {
+  reportId: string;
+}
+
+/** Recent XLSX and PDF exports of a report, on demand or from its schedules */
+export function ReportExportHistory({ reportId }: ReportExportHistoryProps) {
+  const { toast } = useToast();
+
+  const { data: exports = [] } = useQuery({
+    queryKey: ['report-exports', reportId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_exports')
+        .select('id, export_type, status, file_path, file_name, row_count, scheduled_report_id, error_message, created_at')
+        .eq('report_id', reportId)
+        .order('created_at', { ascending: false })
+        .limit(HISTORY_LIMIT);
+
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const handleDownload = async (filePath: string, fileName: string | null) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from(REPORT_EXPORT_BUCKET)
+        .createSignedUrl(filePath, 60, fileName ? { download: fileName } : undefined);
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      console.error('Error downloading export:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to download export',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (exports.length === 0) return null;
+
+  return (
+    <div className="border-t pt-4">
+      <Label className="text-sm font-medium mb-2 block">Recent Exports</Label>
+      <div className="space-y-2">
+        {exports.map((item) => (
+          <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2 min-w-0">
+              {item.export_type === 'xlsx' ? (
+                <FileSpreadsheet className="h-4 w-4 shrink-0" />
+              ) : (
+                <FileText className="h-4 w-4 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <div className="truncate">{item.file_name || item.export_type.toUpperCase()}</div>
+                <div className="text-xs text-muted-foreground">
+                  {new Date(item.created_at).toLocaleString()}
+                  {item.scheduled_report_id && ' · Scheduled'}
+                  {item.row_count !== null && ` · ${item.row_count} rows`}
+                </div>
+              </div>
+            </div>
+            {item.status === 'completed' && item.file_path ? (
+              <Button variant="ghost" size="sm" onClick={() => handleDownload(item.file_path!, item.file_name)}>
+                <Download className="h-4 w-4" />
+              </Button>
+            ) : item.status === 'failed' ? (
+              <Badge variant="destructive" title={item.error_message || undefined}>Failed</Badge>
+            ) : (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
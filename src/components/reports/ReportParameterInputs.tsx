@@ -0,0 +1,115 @@
+import { useQuery } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import type { ReportParameter } from '@/lib/report-query';
+import { ParameterValues, formatDateRange, parseDateRange } from '@/lib/report-parameters';
+
+// Radix selects cannot hold an empty value
+const ANY_VALUE = '__any';
+
+interface ReportParameterInputProps {
+  parameter: ReportParameter;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+/** Input for one parameter value, as prompted by the report runner and dashboard widgets */
+export function ReportParameterInput({ parameter, value, onChange }: ReportParameterInputProps) {
+  const { currentTenant } = useTenant();
+
+  const { data: options = [] } = useQuery({
+    queryKey: ['report-parameter-options', parameter.type, currentTenant?.id],
+    enabled: !!currentTenant && (parameter.type === 'user' || parameter.type === 'branch'),
+    queryFn: async () => {
+      if (parameter.type === 'branch') {
+        const { data, error } = await supabase
+          .from('branches')
+          .select('id, name')
+          .eq('tenant_id', currentTenant!.id)
+          .eq('active', true)
+          .order('name');
+        if (error) throw error;
+        return (data || []).map(branch => ({ value: branch.id, label: branch.name }));
+      }
+
+      const { data, error } = await supabase
+        .from('user_tenant_memberships')
+        .select('user_id, profiles(first_name, last_name)')
+        .eq('tenant_id', currentTenant!.id)
+        .eq('active', true);
+      if (error) throw error;
+      return (data || [])
+        .map(member => ({
+          value: member.user_id,
+          label: `${member.profiles?.first_name || ''} ${member.profiles?.last_name || ''}`.trim() || 'Unnamed user',
+        }))
+        .sort((a, b) => a.label.localeCompare(b.label));
+    },
+  });
+
+  switch (parameter.type) {
+    case 'user':
+    case 'branch':
+      return (
+        <Select value={value || ANY_VALUE} onValueChange={(selected) => onChange(selected === ANY_VALUE ? '' : selected)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY_VALUE}>{parameter.type === 'user' ? 'Any user' : 'Any branch'}</SelectItem>
+            {options.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    case 'date_range': {
+      const range = parseDateRange(value);
+      return (
+        <div className="flex items-center gap-2">
+          <Input type="date" value={range.from} onChange={(e) => onChange(formatDateRange(e.target.value, range.to))} />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input type="date" value={range.to} onChange={(e) => onChange(formatDateRange(range.from, e.target.value))} />
+        </div>
+      );
+    }
+    case 'date':
+      return <Input type="date" value={value} onChange={(e) => onChange(e.target.value)} />;
+    case 'number':
+      return <Input type="number" value={value} onChange={(e) => onChange(e.target.value)} />;
+    default:
+      return <Input value={value} onChange={(e) => onChange(e.target.value)} placeholder="Any" />;
+  }
+}
+
+interface ReportParameterInputsProps {
+  parameters: ReportParameter[];
+  values: ParameterValues;
+  onChange: (values: ParameterValues) => void;
+}
+
+/** Labelled inputs for all parameters of a report */
+export function ReportParameterInputs({ parameters, values, onChange }: ReportParameterInputsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      {parameters.map((parameter) => (
+        <div key={parameter.name} className={parameter.type === 'date_range' ? 'space-y-2 md:col-span-2' : 'space-y-2'}>
+          <Label>
+            {parameter.label}
+            {parameter.required && <span className="text-destructive"> *</span>}
+          </Label>
+          <ReportParameterInput
+            parameter={parameter}
+            value={values[parameter.name] ?? ''}
+            onChange={(value) => onChange({ ...values, [parameter.name]: value })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,127 @@
+import { Plus, Variable, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ReportParameterInput } from './ReportParameterInputs';
+import type { ParameterType, QueryConfig, ReportParameter } from '@/lib/report-query';
+import { PARAMETER_TYPES, parameterName, parameterToken, referencedParameters } from '@/lib/report-parameters';
+
+interface ReportParametersBuilderProps {
+  queryConfig: QueryConfig;
+  onChange: (updates: Partial<QueryConfig>) => void;
+}
+
+export function ReportParametersBuilder({ queryConfig, onChange }: ReportParametersBuilderProps) {
+  const parameters = queryConfig.parameters || [];
+  const referenced = referencedParameters(queryConfig);
+  const undefinedTokens = referenced.filter(name => !parameters.some(parameter => parameter.name === name));
+
+  const handleAdd = () => {
+    const label = `Parameter ${parameters.length + 1}`;
+    const name = parameterName(label, parameters.map(parameter => parameter.name));
+    onChange({ parameters: [...parameters, { name, label, type: 'text' }] });
+  };
+
+  const handleUpdate = (index: number, updates: Partial<ReportParameter>) => {
+    onChange({
+      parameters: parameters.map((parameter, i) => (i === index ? { ...parameter, ...updates } : parameter)),
+    });
+  };
+
+  // The name follows the label until a filter references it, so saved tokens keep working
+  const handleLabelChange = (index: number, label: string) => {
+    const parameter = parameters[index];
+    const taken = parameters.filter((_, i) => i !== index).map(p => p.name);
+    handleUpdate(index, referenced.includes(parameter.name) ? { label } : { label, name: parameterName(label, taken) });
+  };
+
+  const handleRemove = (index: number) => {
+    onChange({ parameters: parameters.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Variable className="h-5 w-5" />
+          Parameters
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Values asked for when the report runs. Use a parameter in a filter value as its token, e.g. {'{assignee}'}; a
+          filter whose optional parameter is left empty is ignored.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {parameters.map((parameter, index) => (
+          <div key={index} className="space-y-2 border rounded-md p-3">
+            <div className="grid grid-cols-12 gap-2 items-end">
+              <div className="col-span-4">
+                <Label>Label</Label>
+                <Input value={parameter.label} onChange={(e) => handleLabelChange(index, e.target.value)} />
+              </div>
+              <div className="col-span-3">
+                <Label>Type</Label>
+                <Select
+                  value={parameter.type}
+                  onValueChange={(value) => handleUpdate(index, { type: value as ParameterType, default_value: undefined })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PARAMETER_TYPES.map((type) => (
+                      <SelectItem key={type.value} value={type.value}>
+                        {type.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-4 flex items-center gap-2 pb-2">
+                <Checkbox
+                  id={`parameter-required-${index}`}
+                  checked={!!parameter.required}
+                  onCheckedChange={(checked) => handleUpdate(index, { required: checked as boolean })}
+                />
+                <Label htmlFor={`parameter-required-${index}`} className="text-sm">Required</Label>
+                <Badge variant={referenced.includes(parameter.name) ? 'secondary' : 'outline'} className="ml-auto font-mono">
+                  {parameterToken(parameter.name)}
+                </Badge>
+              </div>
+              <div className="col-span-1">
+                <Button variant="ghost" size="sm" onClick={() => handleRemove(index)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div>
+              <Label>Default Value</Label>
+              <ReportParameterInput
+                parameter={parameter}
+                value={parameter.default_value || ''}
+                onChange={(value) => handleUpdate(index, { default_value: value || undefined })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {PARAMETER_TYPES.find(type => type.value === parameter.type)?.hint}
+                {!referenced.includes(parameter.name) && ' · Not used by any filter yet'}
+              </p>
+            </div>
+          </div>
+        ))}
+        {undefinedTokens.length > 0 && (
+          <p className="text-sm text-destructive">
+            Filters reference undefined parameters: {undefinedTokens.map(parameterToken).join(', ')}
+          </p>
+        )}
+        <Button variant="outline" onClick={handleAdd}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Parameter
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
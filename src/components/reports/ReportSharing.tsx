@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { Plus, Share2, X } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useAuth } from '@/hooks/use-auth';
+import { useToast } from '@/hooks/use-toast';
+
+type ShareType = 'user' | 'branch' | 'department' | 'role';
+
+const SHARE_TYPES: Array<{ value: ShareType; label: string }> = [
+  { value: 'user', label: 'User' },
+  { value: 'branch', label: 'Branch' },
+  { value: 'department', label: 'Department' },
+  { value: 'role', label: 'Role' },
+];
+
+interface ShareTarget {
+  value: string;
+  label: string;
+}
+
+interface ReportSharingProps {
+  reportId: string;
+}
+
+/** Who a private report is shared with; viewers still only see the records their own visibility allows */
+export function ReportSharing({ reportId }: ReportSharingProps) {
+  const { currentTenant } = useTenant();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [shareType, setShareType] = useState<ShareType>('user');
+  const [targetId, setTargetId] = useState('');
+
+  const { data: shares = [] } = useQuery({
+    queryKey: ['report-shares', reportId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('report_shares')
+        .select('id, share_type, target_id')
+        .eq('report_id', reportId)
+        .order('created_at');
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const { data: targets = {} } = useQuery({
+    queryKey: ['report-share-targets', currentTenant?.id],
+    enabled: !!currentTenant,
+    queryFn: async (): Promise<Record<ShareType, ShareTarget[]>> => {
+      const tenantId = currentTenant!.id;
+      const [members, branches, departments, roles] = await Promise.all([
+        supabase
+          .from('user_tenant_memberships')
+          .select('user_id, profiles(first_name, last_name, email)')
+          .eq('tenant_id', tenantId)
+          .eq('active', true),
+        supabase.from('branches').select('id, name').eq('tenant_id', tenantId).eq('active', true).order('name'),
+        supabase.from('departments').select('id, name').eq('tenant_id', tenantId).eq('active', true).order('name'),
+        supabase.from('custom_roles').select('id, name').eq('tenant_id', tenantId).eq('active', true).order('name'),
+      ]);
+      const error = members.error || branches.error || departments.error || roles.error;
+      if (error) throw error;
+
+      const named = (rows: Array<{ id: string; name: string }> | null) =>
+        (rows || []).map(row => ({ value: row.id, label: row.name }));
+      return {
+        user: (members.data || [])
+          .map(member => ({
+            value: member.user_id,
+            label:
+              `${member.profiles?.first_name || ''} ${member.profiles?.last_name || ''}`.trim() ||
+              member.profiles?.email ||
+              'Unnamed user',
+          }))
+          .sort((a, b) => a.label.localeCompare(b.label)),
+        branch: named(branches.data),
+        department: named(departments.data),
+        role: named(roles.data),
+      };
+    },
+  });
+
+  const options = (targets as Partial<Record<ShareType, ShareTarget[]>>)[shareType] || [];
+  const available = options.filter(
+    option => !shares.some(share => share.share_type === shareType && share.target_id === option.value)
+  );
+
+  const targetLabel = (type: string, id: string) =>
+    (targets as Partial<Record<string, ShareTarget[]>>)[type]?.find(option => option.value === id)?.label || 'Unknown';
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ['report-shares', reportId] });
+
+  const handleAdd = async () => {
+    if (!currentTenant || !user || !targetId) return;
+
+    const { error } = await supabase.from('report_shares').insert({
+      tenant_id: currentTenant.id,
+      report_id: reportId,
+      share_type: shareType,
+      target_id: targetId,
+      created_by: user.id,
+    });
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to share report', variant: 'destructive' });
+      return;
+    }
+    setTargetId('');
+    refresh();
+  };
+
+  const handleRemove = async (shareId: string) => {
+    const { error } = await supabase.from('report_shares').delete().eq('id', shareId);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to remove share', variant: 'destructive' });
+      return;
+    }
+    refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Share2 className="h-5 w-5" />
+          Sharing
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Share this report with users, branches, departments or roles. Everyone sees only the records they are allowed
+          to see.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {shares.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {shares.map((share) => (
+              <Badge key={share.id} variant="secondary" className="gap-1">
+                <span className="text-muted-foreground">
+                  {SHARE_TYPES.find(type => type.value === share.share_type)?.label}:
+                </span>
+                {targetLabel(share.share_type, share.target_id)}
+                <button type="button" onClick={() => handleRemove(share.id)} className="ml-1">
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Not shared with anyone yet</p>
+        )}
+
+        <div className="flex gap-2">
+          <Select
+            value={shareType}
+            onValueChange={(value: ShareType) => {
+              setShareType(value);
+              setTargetId('');
+            }}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SHARE_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={targetId} onValueChange={setTargetId}>
+            <SelectTrigger className="flex-1">
+              <SelectValue placeholder="Select..." />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={handleAdd} disabled={!targetId}>
+            <Plus className="h-4 w-4 mr-2" />
+            Share
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
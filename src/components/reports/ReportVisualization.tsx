@@ -2,8 +2,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell, ResponsiveContainer } from 'recharts';
-import { TrendingUp, Users, DollarSign, Target } from 'lucide-react';
+import { TrendingUp, TrendingDown, Users, DollarSign, Target } from 'lucide-react';
 import { useCurrency } from '@/hooks/use-currency';
+import { DrillDownGroup, ReportColumn, ReportDataResult, comparisonColumnKeys } from '@/lib/report-query';
+import { relatedFieldLabel } from '@/lib/report-relationships';
 
 interface ReportVisualizationProps {
   data: any[];
@@ -14,12 +16,33 @@ interface ReportVisualizationProps {
   queryConfig?: {
     comparison_fields?: string[];
   };
+  /** Output columns of a summarized report; rows are groups rather than records */
+  columns?: ReportColumn[];
+  totals?: Record<string, number | null>;
+  /** Periods of a period-over-period report */
+  periods?: ReportDataResult['periods'];
+  /** Called with the group values of a clicked bar or pie slice, to list the records behind it */
+  onDrillDown?: (group: DrillDownGroup, label: string) => void;
+}
+
+interface KPI {
+  label: string;
+  value: string | number;
+  icon: typeof Target;
+  comparison?: { previous: string; change: number | null; changeLabel: string };
 }
 
 const COLORS = ['hsl(var(--primary))', 'hsl(var(--secondary))', 'hsl(var(--accent))', '#8884d8', '#82ca9d', '#ffc658'];
 
-export function ReportVisualization({ data, fields, visualizationType, dataSource, loading = false, queryConfig = {} }: ReportVisualizationProps) {
+export function ReportVisualization({ data, fields: recordFields, visualizationType, dataSource, loading = false, queryConfig = {}, columns, totals, periods, onDrillDown }: ReportVisualizationProps) {
   const { formatCurrency } = useCurrency();
+  const summarized = !!columns?.length;
+  const fields = summarized ? columns.map(column => column.key) : recordFields;
+  const groupColumns = (columns || []).filter(column => column.kind === 'group');
+  const valueColumns = (columns || []).filter(column => column.kind !== 'group');
+  // In a period comparison the current-period columns carry the values; the rest derive from them
+  const currentColumns = valueColumns.filter(column => !column.comparison || column.comparison === 'current');
+
   if (loading) {
     return <div className="flex items-center justify-center py-8">Loading...</div>;
   }
@@ -38,6 +61,11 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
   }
 
   const formatFieldName = (field: string) => {
+    const column = columns?.find(c => c.key === field);
+    const related = relatedFieldLabel(dataSource, field);
+    if (column?.kind === 'group' && related) return column.bucket ? `${related} (${column.bucket})` : related;
+    if (column) return column.label;
+    if (related) return related;
     return field.split('_').map(word => 
       word.charAt(0).toUpperCase() + word.slice(1)
     ).join(' ');
@@ -45,6 +73,22 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
 
   const formatValue = (value: any, field: string) => {
     if (value === null || value === undefined) return '-';
+
+    const column = columns?.find(c => c.key === field);
+    // Date buckets are already labels such as 2026-Q4
+    if (column?.bucket) return String(value);
+    if (column?.comparison === 'change_percent' && typeof value === 'number') {
+      return `${value > 0 ? '+' : ''}${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+    }
+    if (column?.comparison === 'change' && typeof value === 'number') {
+      return `${value > 0 ? '+' : ''}${formatValue(value, column.source || field)}`;
+    }
+    if (column && column.kind !== 'group' && typeof value === 'number') {
+      if (column.label.includes('%')) return `${value.toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+      if (!field.includes('value') && !field.includes('amount')) {
+        return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+      }
+    }
     
     // Format currency values
     if (field.includes('value') || field.includes('amount')) {
@@ -86,6 +130,31 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
     }
   };
 
+  // Increases in green, decreases in red
+  const changeClassName = (field: string, value: unknown) => {
+    const column = columns?.find(c => c.key === field);
+    if (column?.comparison !== 'change' && column?.comparison !== 'change_percent') return '';
+    if (typeof value !== 'number' || value === 0) return '';
+    return value > 0 ? 'text-green-600' : 'text-destructive';
+  };
+
+  // Chart label of a summarized row, e.g. "Jane Doe / 2026-10"
+  const groupLabel = (row: Record<string, unknown>) =>
+    groupColumns.map(column => formatValue(row[column.key], column.key)).join(' / ') || 'Total';
+
+  const groupValues = (row: Record<string, unknown>): DrillDownGroup =>
+    Object.fromEntries(groupColumns.map(column => [column.key, row[column.key] ?? null]));
+
+  // Chart entries carry the group they stand for; recharts passes the clicked entry's index
+  const drillInto = (entries: Array<{ group: DrillDownGroup; label?: string; name?: string }>) =>
+    onDrillDown
+      ? (_: unknown, index: number) => {
+          const entry = entries[index];
+          if (entry) onDrillDown(entry.group, String(entry.label ?? entry.name ?? ''));
+        }
+      : undefined;
+  const drillCursor = onDrillDown ? 'cursor-pointer' : undefined;
+
   const renderTableVisualization = () => (
     <div className="overflow-auto max-h-96">
       <Table>
@@ -102,7 +171,7 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
           {data.map((row, index) => (
             <TableRow key={index}>
               {fields.map((field) => (
-                <TableCell key={field} className="whitespace-nowrap">
+                <TableCell key={field} className={`whitespace-nowrap ${changeClassName(field, row[field])}`}>
                   {field.includes('status') || field.includes('stage') ? (
                     <Badge variant={getStatusBadgeVariant(row[field]) as any}>
                       {formatValue(row[field], field)}
@@ -114,6 +183,15 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
               ))}
             </TableRow>
           ))}
+          {summarized && groupColumns.length > 0 && totals && (
+            <TableRow className="font-semibold bg-muted/50">
+              {fields.map((field, index) => (
+                <TableCell key={field} className={`whitespace-nowrap ${changeClassName(field, totals[field])}`}>
+                  {field in totals ? formatValue(totals[field], field) : index === 0 ? 'Total' : ''}
+                </TableCell>
+              ))}
+            </TableRow>
+          )}
         </TableBody>
       </Table>
     </div>
@@ -121,9 +199,29 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
 
   const renderKPICards = () => {
     // Calculate KPIs based on data source
-    const kpis = [];
+    const kpis: KPI[] = [];
 
-    if (dataSource === 'contracts') {
+    if (summarized) {
+      // One card per aggregate, over all groups
+      const summary = groupColumns.length > 0 ? totals || {} : data[0];
+      const icons = [DollarSign, Target, TrendingUp, Users];
+      currentColumns.forEach((column, index) => {
+        const kpi: KPI = { label: column.label, value: formatValue(summary[column.key], column.key), icon: icons[index % icons.length] };
+        if (column.comparison) {
+          const keys = comparisonColumnKeys(column.key);
+          // Percent change reads best, but is undefined when the previous period was zero
+          const percent = summary[keys.change_percent];
+          kpi.comparison = {
+            previous: formatValue(summary[keys.previous], keys.previous),
+            change: summary[keys.change] as number | null,
+            changeLabel: percent !== null && percent !== undefined
+              ? formatValue(percent, keys.change_percent)
+              : formatValue(summary[keys.change], keys.change),
+          };
+        }
+        kpis.push(kpi);
+      });
+    } else if (dataSource === 'contracts') {
       const totalValue = data.reduce((sum, item) => sum + (item.value || 0), 0);
       const activeContracts = data.filter(item => item.status === 'active').length;
       const completedContracts = data.filter(item => item.status === 'completed').length;
@@ -175,6 +273,19 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
               </CardHeader>
               <CardContent>
                 <div className="text-2xl font-bold">{kpi.value}</div>
+                {kpi.comparison && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 mt-1">
+                    {kpi.comparison.change !== null && kpi.comparison.change !== 0 && (
+                      kpi.comparison.change > 0
+                        ? <TrendingUp className="h-3 w-3 text-green-600" />
+                        : <TrendingDown className="h-3 w-3 text-destructive" />
+                    )}
+                    <span className={kpi.comparison.change ? (kpi.comparison.change > 0 ? 'text-green-600' : 'text-destructive') : ''}>
+                      {kpi.comparison.changeLabel}
+                    </span>
+                    vs {kpi.comparison.previous} {periods ? `in ${periods.previous.label}` : ''}
+                  </p>
+                )}
               </CardContent>
             </Card>
           );
@@ -184,6 +295,36 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
   };
 
   const renderBarChart = () => {
+    if (summarized) {
+      const valueColumn = currentColumns[0];
+      if (!valueColumn) {
+        return <div className="text-center py-8 text-muted-foreground">No aggregates to chart</div>;
+      }
+      const previousColumn = valueColumn.comparison
+        ? columns?.find(c => c.key === comparisonColumnKeys(valueColumn.key).previous)
+        : undefined;
+      const chartData = data.map(row => ({
+        label: groupLabel(row),
+        group: groupValues(row),
+        value: Number(row[valueColumn.key]) || 0,
+        ...(previousColumn ? { previous: Number(row[previousColumn.key]) || 0 } : {}),
+      }));
+
+      return (
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="label" />
+            <YAxis />
+            <Tooltip />
+            <Legend />
+            <Bar dataKey="value" fill="hsl(var(--primary))" name={valueColumn.label} className={drillCursor} onClick={drillInto(chartData)} />
+            {previousColumn && <Bar dataKey="previous" fill="hsl(var(--secondary))" name={previousColumn.label} />}
+          </BarChart>
+        </ResponsiveContainer>
+      );
+    }
+
     // Prepare data for bar chart based on first numeric field found
     const numericField = fields.find(field => 
       field.includes('value') || field.includes('amount') || field.includes('count')
@@ -205,7 +346,7 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
       if (existing) {
         existing.value += value;
       } else {
-        acc.push({ label, value });
+        acc.push({ label, value, group: { [labelField]: item[labelField] || null } });
       }
       
       return acc;
@@ -219,7 +360,7 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
           <YAxis />
           <Tooltip />
           <Legend />
-          <Bar dataKey="value" fill="hsl(var(--primary))" name={formatFieldName(numericField)} />
+          <Bar dataKey="value" fill="hsl(var(--primary))" name={formatFieldName(numericField)} className={drillCursor} onClick={drillInto(chartData)} />
         </BarChart>
       </ResponsiveContainer>
     );
@@ -236,19 +377,24 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
     }
 
     // Count occurrences of each category
-    const chartData = data.reduce((acc: any[], item) => {
-      const category = item[categoryField] || 'Unknown';
+    const countedData = data.reduce<Array<{ name: string; value: number; group: DrillDownGroup }>>((acc, item) => {
+      const category = String(item[categoryField] || 'Unknown');
       
       const existing = acc.find(entry => entry.name === category);
       if (existing) {
         existing.value += 1;
       } else {
-        acc.push({ name: category, value: 1 });
+        acc.push({ name: category, value: 1, group: { [categoryField]: item[categoryField] || null } });
       }
       
       return acc;
     }, []);
 
+    // Summarized reports already carry a value per group
+    const chartData = summarized && currentColumns[0]
+      ? data.map(row => ({ name: groupLabel(row), group: groupValues(row), value: Number(row[currentColumns[0].key]) || 0 }))
+      : countedData;
+
     return (
       <ResponsiveContainer width="100%" height={300}>
         <PieChart>
@@ -261,6 +407,8 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
             outerRadius={80}
             fill="#8884d8"
             dataKey="value"
+            className={drillCursor}
+            onClick={drillInto(chartData)}
           >
             {chartData.map((entry, index) => (
               <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
@@ -273,8 +421,13 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
   };
 
   const renderComparisonChart = () => {
-    const comparisonFields = queryConfig?.comparison_fields || [];
-    
+    // Period comparisons chart this period against the previous one unless two fields were picked
+    const selectedFields = queryConfig?.comparison_fields || [];
+    const periodFields = currentColumns[0]?.comparison
+      ? [currentColumns[0].key, comparisonColumnKeys(currentColumns[0].key).previous]
+      : [];
+    const comparisonFields = selectedFields.length === 2 ? selectedFields : periodFields;
+
     if (comparisonFields.length !== 2) {
       return <div className="text-center py-8 text-muted-foreground">Please select exactly 2 fields to compare</div>;
     }
@@ -285,7 +438,8 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
 
     // Prepare data for comparison chart
     const chartData = data.map((item, index) => ({
-      name: item.name || item.entity_name || `Item ${index + 1}`,
+      name: summarized ? groupLabel(item) : item.name || item.entity_name || `Item ${index + 1}`,
+      group: summarized ? groupValues(item) : { id: item.id ?? null },
       [field1]: parseFloat(item[field1]) || 0,
       [field2]: parseFloat(item[field2]) || 0,
     }));
@@ -298,8 +452,8 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
           <YAxis />
           <Tooltip />
           <Legend />
-          <Bar dataKey={field1} fill="hsl(var(--primary))" name={field1Label} />
-          <Bar dataKey={field2} fill="hsl(var(--secondary))" name={field2Label} />
+          <Bar dataKey={field1} fill="hsl(var(--primary))" name={field1Label} className={drillCursor} onClick={drillInto(chartData)} />
+          <Bar dataKey={field2} fill="hsl(var(--secondary))" name={field2Label} className={drillCursor} onClick={drillInto(chartData)} />
         </BarChart>
       </ResponsiveContainer>
     );
@@ -309,8 +463,16 @@ export function ReportVisualization({ data, fields, visualizationType, dataSourc
     <Card>
       <CardHeader>
         <CardTitle>
-          {formatFieldName(dataSource)} Report - {data.length} records
+          {formatFieldName(dataSource)} Report - {data.length} {summarized ? 'groups' : 'records'}
         </CardTitle>
+        {periods && (
+          <p className="text-sm text-muted-foreground">
+            {periods.current.label} compared to {periods.previous.label}
+          </p>
+        )}
+        {onDrillDown && ['bar_chart', 'pie_chart', 'comparison_chart'].includes(visualizationType) && (
+          <p className="text-xs text-muted-foreground">Click a bar or slice to see the records behind it</p>
+        )}
       </CardHeader>
       <CardContent>
         {visualizationType === 'table' && renderTableVisualization()}
@@ -0,0 +1,267 @@
+import { useMemo } from 'react';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  BusinessCalendar,
+  CatchUpPolicy,
+  DEFAULT_SCHEDULE_TIME,
+  DayOfPeriod,
+  SCHEDULE_TYPES,
+  ScheduleConfig,
+  ScheduleError,
+  ScheduleType,
+  WEEKDAYS,
+  nextRunTimes,
+  resolveScheduleTimezone,
+} from '@/lib/report-schedule';
+
+const PREVIEW_RUNS = 5;
+
+const RELATIVE_DAYS: Array<{ value: DayOfPeriod; label: string }> = [
+  { value: 'first_business_day', label: 'First business day' },
+  { value: 'last_business_day', label: 'Last business day' },
+  { value: 'last', label: 'Last day' },
+];
+
+interface ScheduleRunPreviewProps {
+  scheduleType: ScheduleType;
+  config: ScheduleConfig;
+  timezone: string;
+  calendar?: BusinessCalendar;
+}
+
+/** The next few run times of a schedule, in its time zone */
+export function ScheduleRunPreview({ scheduleType, config, timezone, calendar }: ScheduleRunPreviewProps) {
+  const preview = useMemo(() => {
+    try {
+      return {
+        runs: nextRunTimes(scheduleType, config, { after: new Date(), count: PREVIEW_RUNS, timezone, calendar }),
+        error: null,
+      };
+    } catch (error) {
+      if (error instanceof ScheduleError) return { runs: [], error: error.message };
+      throw error;
+    }
+  }, [scheduleType, config, timezone, calendar]);
+
+  return (
+    <div className="space-y-1">
+      <p className="text-sm font-medium flex items-center gap-2">
+        <CalendarClock className="h-4 w-4" />
+        Next runs ({timezone})
+      </p>
+      {preview.error ? (
+        <p className="text-sm text-destructive">{preview.error}</p>
+      ) : preview.runs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">This schedule never runs</p>
+      ) : (
+        <ul className="text-sm text-muted-foreground space-y-0.5">
+          {preview.runs.map(run => (
+            <li key={run.toISOString()}>
+              {run.toLocaleString(undefined, {
+                timeZone: timezone,
+                weekday: 'short',
+                year: 'numeric',
+                month: 'short',
+                day: 'numeric',
+                hour: '2-digit',
+                minute: '2-digit',
+              })}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface ScheduleConfigFieldsProps {
+  scheduleType: ScheduleType;
+  config: ScheduleConfig;
+  onScheduleTypeChange: (type: ScheduleType) => void;
+  onConfigChange: (config: ScheduleConfig) => void;
+  /** Time zone from the schedule owner's working hours, when known */
+  ownerTimezone?: string | null;
+  calendar?: BusinessCalendar;
+}
+
+export function ScheduleConfigFields({
+  scheduleType,
+  config,
+  onScheduleTypeChange,
+  onConfigChange,
+  ownerTimezone,
+  calendar,
+}: ScheduleConfigFieldsProps) {
+  const timezone = resolveScheduleTimezone(config, ownerTimezone);
+  const daysOfWeek = config.days_of_week?.length ? config.days_of_week : [1];
+  const dayOfPeriod = config.day_of_period ?? 1;
+
+  const update = (updates: Partial<ScheduleConfig>) => onConfigChange({ ...config, ...updates });
+
+  const toggleWeekday = (day: number) => {
+    const next = daysOfWeek.includes(day) ? daysOfWeek.filter(d => d !== day) : [...daysOfWeek, day];
+    update({ days_of_week: next.sort((a, b) => a - b) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Frequency</Label>
+          <Select value={scheduleType} onValueChange={(value) => onScheduleTypeChange(value as ScheduleType)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEDULE_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>
+                  {type.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {scheduleType === 'cron' ? (
+          <div>
+            <Label htmlFor="scheduleCron">Cron Expression</Label>
+            <Input
+              id="scheduleCron"
+              value={config.cron || ''}
+              onChange={(e) => update({ cron: e.target.value })}
+              placeholder="0 8 * * MON"
+            />
+          </div>
+        ) : (
+          <div>
+            <Label htmlFor="scheduleTime">Time</Label>
+            <Input
+              id="scheduleTime"
+              type="time"
+              value={config.time || DEFAULT_SCHEDULE_TIME}
+              onChange={(e) => update({ time: e.target.value })}
+            />
+          </div>
+        )}
+      </div>
+
+      {scheduleType === 'cron' && (
+        <p className="text-xs text-muted-foreground">
+          Minute, hour, day of month (or L for the last day), month and day of week, e.g. "0 8 * * MON-FRI"
+        </p>
+      )}
+
+      {scheduleType === 'daily' && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="scheduleBusinessDays"
+            checked={!!config.business_days_only}
+            onCheckedChange={(checked) => update({ business_days_only: checked as boolean })}
+          />
+          <Label htmlFor="scheduleBusinessDays" className="text-sm">Business days only</Label>
+        </div>
+      )}
+
+      {scheduleType === 'weekly' && (
+        <div>
+          <Label>Days</Label>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {WEEKDAYS.map((day) => (
+              <Button
+                key={day.value}
+                type="button"
+                size="sm"
+                variant={daysOfWeek.includes(day.value) ? 'default' : 'outline'}
+                onClick={() => toggleWeekday(day.value)}
+              >
+                {day.short}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(scheduleType === 'monthly' || scheduleType === 'quarterly') && (
+        <div>
+          <Label>{scheduleType === 'quarterly' ? 'Day of the Quarter' : 'Day of the Month'}</Label>
+          <Select
+            value={String(dayOfPeriod)}
+            onValueChange={(value) => update({ day_of_period: /^\d+$/.test(value) ? Number(value) : (value as DayOfPeriod) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RELATIVE_DAYS.map((day) => (
+                <SelectItem key={String(day.value)} value={String(day.value)}>
+                  {day.label}
+                </SelectItem>
+              ))}
+              {Array.from({ length: 31 }, (_, i) => i + 1).map((day) => (
+                <SelectItem key={day} value={String(day)}>
+                  {scheduleType === 'quarterly' ? `Day ${day} of the first month` : `Day ${day}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Time Zone</Label>
+          <Select
+            value={config.timezone_mode || 'recipient'}
+            onValueChange={(value) => update({ timezone_mode: value as ScheduleConfig['timezone_mode'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="recipient">Each recipient's working hours</SelectItem>
+              <SelectItem value="fixed">Fixed time zone</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {config.timezone_mode === 'fixed' && (
+          <div>
+            <Label htmlFor="scheduleTimezone">Zone</Label>
+            <Input
+              id="scheduleTimezone"
+              value={config.timezone || ''}
+              onChange={(e) => update({ timezone: e.target.value })}
+              placeholder="e.g. Asia/Riyadh"
+            />
+          </div>
+        )}
+      </div>
+
+      <div>
+        <Label>Missed Runs</Label>
+        <Select
+          value={config.catch_up || 'run_once'}
+          onValueChange={(value) => update({ catch_up: value as CatchUpPolicy })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="run_once">Send once as soon as possible</SelectItem>
+            <SelectItem value="skip">Skip and wait for the next run</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ScheduleRunPreview scheduleType={scheduleType} config={config} timezone={timezone} calendar={calendar} />
+      {config.timezone_mode !== 'fixed' && (
+        <p className="text-xs text-muted-foreground">
+          Recipients with working hours in another time zone get the report at the same local time.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { Save } from 'lucide-react';
+
+interface CustomRole {
+  id: string;
+  name: string;
+}
+
+// Without a manager role, overdue installments escalate to the tenant admins
+const ADMIN_MANAGERS = 'admins';
+
+const toDays = (value: string, fallback: number): number => {
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
+export const CollectionSettings = () => {
+  const { toast } = useToast();
+  const { currentTenant } = useTenant();
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(true);
+  const [followUpAfterDays, setFollowUpAfterDays] = useState('1');
+  const [escalateAfterDays, setEscalateAfterDays] = useState('14');
+  const [escalationRoleId, setEscalationRoleId] = useState<string>(ADMIN_MANAGERS);
+
+  useEffect(() => {
+    if (currentTenant) {
+      fetchSettings();
+      fetchRoles();
+    }
+  }, [currentTenant]);
+
+  const fetchSettings = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('collection_settings')
+      .select('*')
+      .eq('tenant_id', currentTenant.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching collection settings:', error);
+      return;
+    }
+
+    if (data) {
+      setEnabled(data.enabled);
+      setFollowUpAfterDays(String(data.follow_up_after_days));
+      setEscalateAfterDays(String(data.escalate_after_days));
+      setEscalationRoleId(data.escalation_role_id || ADMIN_MANAGERS);
+    }
+  };
+
+  const fetchRoles = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('custom_roles')
+      .select('id, name')
+      .eq('tenant_id', currentTenant.id)
+      .eq('active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching custom roles:', error);
+      return;
+    }
+    setRoles(data || []);
+  };
+
+  const saveSettings = async () => {
+    if (!currentTenant) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('collection_settings')
+      .upsert(
+        {
+          tenant_id: currentTenant.id,
+          enabled,
+          follow_up_after_days: toDays(followUpAfterDays, 1),
+          escalate_after_days: toDays(escalateAfterDays, 14),
+          escalation_role_id: escalationRoleId === ADMIN_MANAGERS ? null : escalationRoleId,
+        },
+        { onConflict: 'tenant_id' }
+      );
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save collection settings',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Collection settings saved successfully',
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Collections</CardTitle>
+        <CardDescription>
+          Overdue installments get a follow-up task for the contract's assignee, and are escalated to their manager if
+          they stay unpaid.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="collections-enabled">Automatic follow-ups</Label>
+              <p className="text-sm text-muted-foreground">Checked once a day</p>
+            </div>
+            <Switch id="collections-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="follow-up-after">Follow up after (days overdue)</Label>
+              <Input
+                id="follow-up-after"
+                type="number"
+                min={0}
+                value={followUpAfterDays}
+                onChange={(e) => setFollowUpAfterDays(e.target.value)}
+                disabled={!enabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="escalate-after">Escalate after (days overdue)</Label>
+              <Input
+                id="escalate-after"
+                type="number"
+                min={0}
+                value={escalateAfterDays}
+                onChange={(e) => setEscalateAfterDays(e.target.value)}
+                disabled={!enabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="escalation-role">Managers</Label>
+              <Select value={escalationRoleId} onValueChange={setEscalationRoleId} disabled={!enabled}>
+                <SelectTrigger id="escalation-role">
+                  <SelectValue placeholder="Select role" />
+                </SelectTrigger>
+                <SelectContent className="bg-background border shadow-lg z-50">
+                  <SelectItem value={ADMIN_MANAGERS}>Tenant admins</SelectItem>
+                  {roles.map((role) => (
+                    <SelectItem key={role.id} value={role.id}>
+                      {role.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground mt-1">
+                The role holder in the assignee's department, then branch, is escalated to first
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={saveSettings} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Collection Settings
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
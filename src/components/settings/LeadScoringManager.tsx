@@ -0,0 +1,540 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Plus, Edit, Trash2, RefreshCw } from 'lucide-react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { toast } from 'sonner';
+
+type RuleType =
+  | 'industry'
+  | 'company_size'
+  | 'high_value'
+  | 'solution_category'
+  | 'source'
+  | 'activities'
+  | 'todos_completed'
+  | 'files';
+
+// match: compared against match_value; flag: awarded when set; count: awarded per item, optionally capped
+const RULE_TYPES: Array<{ value: RuleType; label: string; kind: 'match' | 'flag' | 'count' }> = [
+  { value: 'industry', label: 'Industry', kind: 'match' },
+  { value: 'company_size', label: 'Company size', kind: 'match' },
+  { value: 'high_value', label: 'High value', kind: 'flag' },
+  { value: 'solution_category', label: 'Solution category', kind: 'match' },
+  { value: 'source', label: 'Source', kind: 'match' },
+  { value: 'activities', label: 'Activities logged', kind: 'count' },
+  { value: 'todos_completed', label: 'To-dos completed', kind: 'count' },
+  { value: 'files', label: 'Files uploaded', kind: 'count' },
+];
+
+const ruleKind = (type: string) => RULE_TYPES.find(ruleType => ruleType.value === type)?.kind;
+
+const ruleSchema = z
+  .object({
+    rule_type: z.enum(['industry', 'company_size', 'high_value', 'solution_category', 'source', 'activities', 'todos_completed', 'files']),
+    match_value: z.string().optional(),
+    points: z.number({ message: 'Points are required' }).int(),
+    max_points: z.number().int().min(0).nullable().optional(),
+  })
+  .refine(data => ruleKind(data.rule_type) !== 'match' || !!data.match_value?.trim(), {
+    message: 'Choose what the rule matches',
+    path: ['match_value'],
+  });
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+interface ScoringRule {
+  id: string;
+  rule_type: RuleType;
+  match_value: string | null;
+  points: number;
+  max_points: number | null;
+  active: boolean;
+}
+
+interface LeadQualityBand {
+  id: string;
+  name: string;
+  min_score: number | null;
+}
+
+interface NamedOption {
+  id: string;
+  name: string;
+}
+
+export const LeadScoringManager = () => {
+  const [rules, setRules] = useState<ScoringRule[]>([]);
+  const [qualities, setQualities] = useState<LeadQualityBand[]>([]);
+  const [bandScores, setBandScores] = useState<Record<string, string>>({});
+  const [categories, setCategories] = useState<NamedOption[]>([]);
+  const [sources, setSources] = useState<NamedOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [recalculating, setRecalculating] = useState(false);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<ScoringRule | null>(null);
+  const { currentTenant } = useTenant();
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: {
+      rule_type: 'industry',
+      match_value: '',
+      points: 10,
+      max_points: null,
+    },
+  });
+  const selectedKind = ruleKind(form.watch('rule_type'));
+
+  const loadData = async () => {
+    if (!currentTenant) return;
+
+    try {
+      const [rulesResult, qualitiesResult, categoriesResult, sourcesResult] = await Promise.all([
+        supabase
+          .from('lead_scoring_rules')
+          .select('id, rule_type, match_value, points, max_points, active')
+          .eq('tenant_id', currentTenant.id)
+          .order('created_at'),
+        supabase
+          .from('lead_quality')
+          .select('id, name, min_score')
+          .eq('tenant_id', currentTenant.id)
+          .eq('active', true)
+          .order('sort_order'),
+        supabase
+          .from('solution_categories')
+          .select('id, name')
+          .eq('tenant_id', currentTenant.id)
+          .order('name'),
+        supabase
+          .from('deal_sources')
+          .select('id, name')
+          .eq('tenant_id', currentTenant.id)
+          .order('sort_order'),
+      ]);
+
+      const error = rulesResult.error || qualitiesResult.error || categoriesResult.error || sourcesResult.error;
+      if (error) throw error;
+
+      setRules((rulesResult.data || []) as ScoringRule[]);
+      setQualities(qualitiesResult.data || []);
+      setBandScores(
+        Object.fromEntries((qualitiesResult.data || []).map(quality => [quality.id, quality.min_score?.toString() ?? '']))
+      );
+      setCategories(categoriesResult.data || []);
+      setSources(sourcesResult.data || []);
+    } catch (error) {
+      console.error('Error loading lead scoring settings:', error);
+      toast.error('Failed to load lead scoring settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+  }, [currentTenant]);
+
+  // Scores are kept current as leads change; rule and band changes rescore all open leads
+  const recalculateScores = async () => {
+    if (!currentTenant) return;
+
+    setRecalculating(true);
+    try {
+      const { data: count, error } = await supabase.rpc('recalculate_lead_scores', { _tenant_id: currentTenant.id });
+      if (error) throw error;
+      toast.success(`Rescored ${count} lead${count === 1 ? '' : 's'}`);
+    } catch (error) {
+      console.error('Error recalculating lead scores:', error);
+      toast.error('Failed to recalculate lead scores');
+    } finally {
+      setRecalculating(false);
+    }
+  };
+
+  const onSubmit = async (data: RuleFormData) => {
+    if (!currentTenant) return;
+
+    const kind = ruleKind(data.rule_type);
+    const rule = {
+      rule_type: data.rule_type,
+      match_value: kind === 'match' ? data.match_value!.trim() : null,
+      points: data.points,
+      max_points: kind === 'count' ? data.max_points ?? null : null,
+    };
+
+    try {
+      if (editingRule) {
+        const { error } = await supabase
+          .from('lead_scoring_rules')
+          .update(rule)
+          .eq('id', editingRule.id);
+
+        if (error) throw error;
+        toast.success('Scoring rule updated successfully');
+      } else {
+        const { error } = await supabase
+          .from('lead_scoring_rules')
+          .insert([{ ...rule, tenant_id: currentTenant.id }]);
+
+        if (error) throw error;
+        toast.success('Scoring rule created successfully');
+      }
+
+      setIsModalOpen(false);
+      setEditingRule(null);
+      await loadData();
+      await recalculateScores();
+    } catch (error) {
+      console.error('Error saving scoring rule:', error);
+      toast.error('Failed to save scoring rule');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Scoring rule deleted successfully');
+      await loadData();
+      await recalculateScores();
+    } catch (error) {
+      console.error('Error deleting scoring rule:', error);
+      toast.error('Failed to delete scoring rule');
+    }
+  };
+
+  const toggleRuleStatus = async (id: string, active: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('lead_scoring_rules')
+        .update({ active })
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success(`Scoring rule ${active ? 'activated' : 'deactivated'} successfully`);
+      await loadData();
+      await recalculateScores();
+    } catch (error) {
+      console.error('Error updating scoring rule status:', error);
+      toast.error('Failed to update scoring rule status');
+    }
+  };
+
+  const saveBands = async () => {
+    try {
+      for (const quality of qualities) {
+        const parsed = parseInt(bandScores[quality.id] ?? '', 10);
+        const minScore = Number.isNaN(parsed) ? null : parsed;
+        if (minScore === quality.min_score) continue;
+
+        const { error } = await supabase
+          .from('lead_quality')
+          .update({ min_score: minScore })
+          .eq('id', quality.id);
+
+        if (error) throw error;
+      }
+
+      toast.success('Quality bands updated successfully');
+      await loadData();
+      await recalculateScores();
+    } catch (error) {
+      console.error('Error saving quality bands:', error);
+      toast.error('Failed to save quality bands');
+    }
+  };
+
+  const openModal = (rule: ScoringRule | null) => {
+    setEditingRule(rule);
+    form.reset({
+      rule_type: rule?.rule_type ?? 'industry',
+      match_value: rule?.match_value ?? '',
+      points: rule?.points ?? 10,
+      max_points: rule?.max_points ?? null,
+    });
+    setIsModalOpen(true);
+  };
+
+  const describeMatch = (rule: ScoringRule) => {
+    if (rule.rule_type === 'solution_category') {
+      return categories.find(category => category.id === rule.match_value)?.name || 'Unknown category';
+    }
+    if (rule.rule_type === 'source') {
+      return sources.find(source => source.id === rule.match_value)?.name || 'Unknown source';
+    }
+    return rule.match_value || '-';
+  };
+
+  const describePoints = (rule: ScoringRule) => {
+    const points = `${rule.points > 0 ? '+' : ''}${rule.points}`;
+    if (ruleKind(rule.rule_type) !== 'count') return points;
+    return rule.max_points !== null ? `${points} each, up to ${rule.max_points}` : `${points} each`;
+  };
+
+  if (loading) {
+    return <div>Loading lead scoring...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Lead Scoring</CardTitle>
+            <CardDescription>
+              Points awarded to company, contact and site leads. Scores update as leads and their activity change.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={recalculateScores} disabled={recalculating}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${recalculating ? 'animate-spin' : ''}`} />
+              Recalculate
+            </Button>
+            <Button onClick={() => openModal(null)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No scoring rules yet. Every lead scores 0 until rules are added.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Rule</TableHead>
+                  <TableHead>Matches</TableHead>
+                  <TableHead>Points</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map((rule) => (
+                  <TableRow key={rule.id}>
+                    <TableCell className="font-medium">
+                      {RULE_TYPES.find(ruleType => ruleType.value === rule.rule_type)?.label}
+                    </TableCell>
+                    <TableCell>{describeMatch(rule)}</TableCell>
+                    <TableCell>{describePoints(rule)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={rule.active}
+                        onCheckedChange={(checked) => toggleRuleStatus(rule.id, checked)}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => openModal(rule)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleDelete(rule.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle>Quality Bands</CardTitle>
+            <CardDescription>
+              Set the score from which a lead gets each quality. Leave all empty to keep lead quality a manual choice.
+            </CardDescription>
+          </div>
+          <Button onClick={saveBands} disabled={qualities.length === 0}>
+            Save Bands
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {qualities.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No active lead qualities</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quality</TableHead>
+                  <TableHead className="w-48">Minimum Score</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {qualities.map((quality) => (
+                  <TableRow key={quality.id}>
+                    <TableCell className="font-medium">{quality.name}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        step="1"
+                        placeholder="Not banded"
+                        value={bandScores[quality.id] ?? ''}
+                        onChange={(e) => setBandScores(prev => ({ ...prev, [quality.id]: e.target.value }))}
+                      />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingRule ? 'Edit Scoring Rule' : 'Create Scoring Rule'}</DialogTitle>
+          </DialogHeader>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="rule_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Award points for</FormLabel>
+                    <Select
+                      value={field.value}
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('match_value', '');
+                      }}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RULE_TYPES.map((ruleType) => (
+                          <SelectItem key={ruleType.value} value={ruleType.value}>
+                            {ruleType.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {selectedKind === 'match' && (
+                <FormField
+                  control={form.control}
+                  name="match_value"
+                  render={({ field }) => {
+                    const ruleType = form.getValues('rule_type');
+                    const options = ruleType === 'solution_category' ? categories : ruleType === 'source' ? sources : null;
+                    return (
+                      <FormItem>
+                        <FormLabel>Matches</FormLabel>
+                        {options ? (
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select..." />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {options.map((option) => (
+                                <SelectItem key={option.id} value={option.id}>
+                                  {option.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <FormControl>
+                            <Input
+                              placeholder={ruleType === 'industry' ? 'e.g. Healthcare' : 'e.g. 50-200'}
+                              {...field}
+                            />
+                          </FormControl>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    );
+                  }}
+                />
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="points"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{selectedKind === 'count' ? 'Points per item' : 'Points'}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="1"
+                          value={field.value ?? ''}
+                          onChange={(e) => field.onChange(e.target.value === '' ? undefined : parseInt(e.target.value, 10))}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {selectedKind === 'count' && (
+                  <FormField
+                    control={form.control}
+                    name="max_points"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum points</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            step="1"
+                            min="0"
+                            placeholder="No limit"
+                            value={field.value ?? ''}
+                            onChange={(e) => field.onChange(e.target.value === '' ? null : parseInt(e.target.value, 10))}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button type="button" variant="outline" onClick={() => setIsModalOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">{editingRule ? 'Update Rule' : 'Create Rule'}</Button>
+              </div>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { Save } from 'lucide-react';
+
+interface CustomRole {
+  id: string;
+  name: string;
+}
+
+// Without an approver role, tenant admins decide approvals
+const ADMIN_APPROVERS = 'admins';
+
+const toThreshold = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+export const QuoteApprovalSettings = () => {
+  const { toast } = useToast();
+  const { currentTenant } = useTenant();
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [enabled, setEnabled] = useState(false);
+  const [minMargin, setMinMargin] = useState('');
+  const [minLineMargin, setMinLineMargin] = useState('');
+  const [maxTotal, setMaxTotal] = useState('');
+  const [approverRoleId, setApproverRoleId] = useState<string>(ADMIN_APPROVERS);
+
+  useEffect(() => {
+    if (currentTenant) {
+      fetchSettings();
+      fetchRoles();
+    }
+  }, [currentTenant]);
+
+  const fetchSettings = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('quote_approval_settings')
+      .select('*')
+      .eq('tenant_id', currentTenant.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching quote approval settings:', error);
+      return;
+    }
+
+    setEnabled(data?.enabled ?? false);
+    setMinMargin(data?.min_margin_percentage != null ? String(data.min_margin_percentage) : '');
+    setMinLineMargin(data?.min_line_margin_percentage != null ? String(data.min_line_margin_percentage) : '');
+    setMaxTotal(data?.max_total_amount != null ? String(data.max_total_amount) : '');
+    setApproverRoleId(data?.approver_role_id || ADMIN_APPROVERS);
+  };
+
+  const fetchRoles = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('custom_roles')
+      .select('id, name')
+      .eq('tenant_id', currentTenant.id)
+      .eq('active', true)
+      .order('name');
+
+    if (error) {
+      console.error('Error fetching custom roles:', error);
+      return;
+    }
+
+    setRoles(data || []);
+  };
+
+  const saveSettings = async () => {
+    if (!currentTenant) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('quote_approval_settings')
+      .upsert(
+        {
+          tenant_id: currentTenant.id,
+          enabled,
+          min_margin_percentage: toThreshold(minMargin),
+          min_line_margin_percentage: toThreshold(minLineMargin),
+          max_total_amount: toThreshold(maxTotal),
+          approver_role_id: approverRoleId === ADMIN_APPROVERS ? null : approverRoleId,
+        },
+        { onConflict: 'tenant_id' }
+      );
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save approval settings',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Approval settings saved successfully',
+      });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Quote Approvals</CardTitle>
+        <CardDescription>
+          Quotes that break any of these rules must be approved before they can be sent. Leave a threshold empty
+          to disable it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="approvals-enabled">Require approval</Label>
+              <p className="text-sm text-muted-foreground">Check quotes against the thresholds below</p>
+            </div>
+            <Switch id="approvals-enabled" checked={enabled} onCheckedChange={setEnabled} />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="min-margin">Minimum quote margin (%)</Label>
+              <Input
+                id="min-margin"
+                type="number"
+                step="0.01"
+                value={minMargin}
+                onChange={(e) => setMinMargin(e.target.value)}
+                placeholder="e.g. 15"
+                disabled={!enabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="min-line-margin">Minimum line margin (%)</Label>
+              <Input
+                id="min-line-margin"
+                type="number"
+                step="0.01"
+                value={minLineMargin}
+                onChange={(e) => setMinLineMargin(e.target.value)}
+                placeholder="e.g. 5"
+                disabled={!enabled}
+              />
+            </div>
+            <div>
+              <Label htmlFor="max-total">Maximum total without approval</Label>
+              <Input
+                id="max-total"
+                type="number"
+                step="0.01"
+                min={0}
+                value={maxTotal}
+                onChange={(e) => setMaxTotal(e.target.value)}
+                placeholder="e.g. 100000"
+                disabled={!enabled}
+              />
+            </div>
+          </div>
+
+          <div className="md:w-1/3">
+            <Label htmlFor="approver-role">Approvers</Label>
+            <Select value={approverRoleId} onValueChange={setApproverRoleId} disabled={!enabled}>
+              <SelectTrigger id="approver-role">
+                <SelectValue placeholder="Select role" />
+              </SelectTrigger>
+              <SelectContent className="bg-background border shadow-lg z-50">
+                <SelectItem value={ADMIN_APPROVERS}>Tenant admins</SelectItem>
+                {roles.map((role) => (
+                  <SelectItem key={role.id} value={role.id}>
+                    {role.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={saveSettings} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              Save Approval Rules
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,448 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { gccCountries } from '@/lib/country-codes';
+import { roundToIncrement } from '@/lib/quote-totals';
+import { Trash2, Plus, Save, Info } from 'lucide-react';
+
+interface TaxRate {
+  id: string;
+  name: string;
+  jurisdiction: string | null;
+  rate: number;
+  is_default: boolean;
+  active: boolean;
+}
+
+const ALL_JURISDICTIONS = 'all';
+
+const ROUNDING_INCREMENTS = ['0.01', '0.05', '0.1', '0.5', '1', '5', '10'];
+
+const ROUNDING_MODES = [
+  { value: 'nearest', label: 'Nearest' },
+  { value: 'up', label: 'Always up' },
+  { value: 'down', label: 'Always down' },
+];
+
+export const TaxSettings = () => {
+  const { toast } = useToast();
+  const { currentTenant } = useTenant();
+  const [taxRates, setTaxRates] = useState<TaxRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newJurisdiction, setNewJurisdiction] = useState<string>(ALL_JURISDICTIONS);
+  const [newRate, setNewRate] = useState('');
+  const [pricingSettingsId, setPricingSettingsId] = useState<string | null>(null);
+  const [roundingIncrement, setRoundingIncrement] = useState('0.01');
+  const [roundingMode, setRoundingMode] = useState('nearest');
+
+  useEffect(() => {
+    if (currentTenant) {
+      setNewJurisdiction(currentTenant.country || ALL_JURISDICTIONS);
+      fetchTaxRates();
+      fetchRoundingRules();
+    }
+  }, [currentTenant]);
+
+  const fetchTaxRates = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('tenant_tax_rates')
+      .select('id, name, jurisdiction, rate, is_default, active')
+      .eq('tenant_id', currentTenant.id)
+      .order('name');
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch tax rates',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setTaxRates(data || []);
+  };
+
+  const fetchRoundingRules = async () => {
+    if (!currentTenant) return;
+
+    const { data, error } = await supabase
+      .from('tenant_pricing_settings')
+      .select('id, rounding_increment, rounding_mode')
+      .eq('tenant_id', currentTenant.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching rounding rules:', error);
+      return;
+    }
+
+    setPricingSettingsId(data?.id || null);
+    setRoundingIncrement(String(Number(data?.rounding_increment ?? 0.01)));
+    setRoundingMode(data?.rounding_mode || 'nearest');
+  };
+
+  const addTaxRate = async () => {
+    if (!currentTenant || !newName.trim() || !newRate) {
+      toast({
+        title: 'Error',
+        description: 'Please fill all fields',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const rate = parseFloat(newRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      toast({
+        title: 'Error',
+        description: 'Tax rate must be between 0 and 100',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const jurisdiction = newJurisdiction === ALL_JURISDICTIONS ? null : newJurisdiction;
+
+    setLoading(true);
+    const { error } = await supabase
+      .from('tenant_tax_rates')
+      .insert({
+        tenant_id: currentTenant.id,
+        name: newName.trim(),
+        jurisdiction,
+        rate,
+        // The first rate of a jurisdiction becomes its default
+        is_default: !taxRates.some((t) => t.jurisdiction === jurisdiction && t.is_default),
+      });
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to add tax rate',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Tax rate added successfully',
+      });
+      setNewName('');
+      setNewRate('');
+      fetchTaxRates();
+    }
+    setLoading(false);
+  };
+
+  const setDefaultTaxRate = async (taxRate: TaxRate) => {
+    if (!currentTenant) return;
+
+    setLoading(true);
+    try {
+      // Only one default per jurisdiction
+      const unset = supabase
+        .from('tenant_tax_rates')
+        .update({ is_default: false })
+        .eq('tenant_id', currentTenant.id)
+        .neq('id', taxRate.id);
+      const { error: unsetError } = taxRate.jurisdiction
+        ? await unset.eq('jurisdiction', taxRate.jurisdiction)
+        : await unset.is('jurisdiction', null);
+      if (unsetError) throw unsetError;
+
+      const { error } = await supabase
+        .from('tenant_tax_rates')
+        .update({ is_default: true })
+        .eq('id', taxRate.id);
+      if (error) throw error;
+
+      fetchTaxRates();
+    } catch (error) {
+      console.error('Error setting default tax rate:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to set default tax rate',
+        variant: 'destructive',
+      });
+    }
+    setLoading(false);
+  };
+
+  const toggleTaxRateActive = async (taxRate: TaxRate, active: boolean) => {
+    const { error } = await supabase
+      .from('tenant_tax_rates')
+      .update({ active })
+      .eq('id', taxRate.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update tax rate',
+        variant: 'destructive',
+      });
+      return;
+    }
+    fetchTaxRates();
+  };
+
+  const deleteTaxRate = async (id: string) => {
+    setLoading(true);
+    const { error } = await supabase
+      .from('tenant_tax_rates')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to delete tax rate',
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: 'Success',
+        description: 'Tax rate deleted successfully',
+      });
+      fetchTaxRates();
+    }
+    setLoading(false);
+  };
+
+  const saveRoundingRules = async () => {
+    if (!currentTenant) return;
+
+    setSaving(true);
+    const rules = {
+      rounding_increment: parseFloat(roundingIncrement),
+      rounding_mode: roundingMode,
+    };
+
+    const { data, error } = pricingSettingsId
+      ? await supabase
+          .from('tenant_pricing_settings')
+          .update(rules)
+          .eq('id', pricingSettingsId)
+          .select('id')
+          .single()
+      : await supabase
+          .from('tenant_pricing_settings')
+          .insert({ tenant_id: currentTenant.id, ...rules })
+          .select('id')
+          .single();
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save rounding rules',
+        variant: 'destructive',
+      });
+    } else {
+      setPricingSettingsId(data.id);
+      toast({
+        title: 'Success',
+        description: 'Rounding rules saved successfully',
+      });
+    }
+    setSaving(false);
+  };
+
+  const isTaxRegistered = !!currentTenant?.tax_number;
+  const roundingExample = roundToIncrement(1234.567, {
+    increment: parseFloat(roundingIncrement),
+    mode: roundingMode,
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Tax Rates</CardTitle>
+          <CardDescription>
+            Rates available on quotes. The default rate of your company's country is applied to new quote versions.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {!isTaxRegistered && (
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  Your company has no tax number, so new quote versions start without tax. Add a tax number in
+                  Tenant & Account to apply the default rate automatically.
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <Label htmlFor="tax-name">Name</Label>
+                <Input
+                  id="tax-name"
+                  value={newName}
+                  onChange={(e) => setNewName(e.target.value)}
+                  placeholder="e.g. VAT 15%"
+                />
+              </div>
+              <div>
+                <Label htmlFor="tax-jurisdiction">Jurisdiction</Label>
+                <Select value={newJurisdiction} onValueChange={setNewJurisdiction}>
+                  <SelectTrigger id="tax-jurisdiction">
+                    <SelectValue placeholder="Select jurisdiction" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background border shadow-lg z-50 max-h-[200px]">
+                    <SelectItem value={ALL_JURISDICTIONS}>All jurisdictions</SelectItem>
+                    {gccCountries.map((country) => (
+                      <SelectItem key={country.country} value={country.country}>
+                        {country.flag} {country.country}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="tax-rate">Rate (%)</Label>
+                <Input
+                  id="tax-rate"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={100}
+                  value={newRate}
+                  onChange={(e) => setNewRate(e.target.value)}
+                  placeholder="15"
+                />
+              </div>
+              <Button onClick={addTaxRate} disabled={loading}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rate
+              </Button>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Jurisdiction</TableHead>
+                  <TableHead className="text-right">Rate</TableHead>
+                  <TableHead>Default</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {taxRates.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No tax rates configured
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  taxRates.map((taxRate) => (
+                    <TableRow key={taxRate.id}>
+                      <TableCell className="font-medium">{taxRate.name}</TableCell>
+                      <TableCell>{taxRate.jurisdiction || 'All jurisdictions'}</TableCell>
+                      <TableCell className="text-right">{Number(taxRate.rate).toFixed(2)}%</TableCell>
+                      <TableCell>
+                        {taxRate.is_default ? (
+                          <Badge variant="secondary">Default</Badge>
+                        ) : (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDefaultTaxRate(taxRate)}
+                            disabled={loading || !taxRate.active}
+                          >
+                            Make default
+                          </Button>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={taxRate.active}
+                          onCheckedChange={(checked) => toggleTaxRateActive(taxRate, checked)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteTaxRate(taxRate.id)}
+                          disabled={loading}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Quote Rounding</CardTitle>
+          <CardDescription>
+            How quote grand totals are rounded after discounts and tax
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="rounding-increment">Round to</Label>
+              <Select value={roundingIncrement} onValueChange={setRoundingIncrement}>
+                <SelectTrigger id="rounding-increment">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background border shadow-lg z-50">
+                  {ROUNDING_INCREMENTS.map((increment) => (
+                    <SelectItem key={increment} value={increment}>
+                      {increment}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="rounding-mode">Direction</Label>
+              <Select value={roundingMode} onValueChange={setRoundingMode}>
+                <SelectTrigger id="rounding-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-background border shadow-lg z-50">
+                  {ROUNDING_MODES.map((mode) => (
+                    <SelectItem key={mode.value} value={mode.value}>
+                      {mode.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={saveRoundingRules} disabled={saving} className="flex items-center gap-2">
+              <Save className="h-4 w-4" />
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mt-2">
+            Example: 1,234.567 becomes {roundingExample.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -96,6 +96,9 @@ export function FormulaBuilder({
     });
 
     try {
+      if (value.trim().startsWith('=')) {
+        return FormulaEngine.evaluateText(value, sampleProperties);
+      }
       if (value.includes('{') && value.includes('}')) {
         let previewFormula = value;
         
@@ -133,7 +136,7 @@ export function FormulaBuilder({
     if (!value) return { isValid: true };
     
     const propertyNames = properties.map(p => p.name);
-    return FormulaEngine.validateFormula(value, propertyNames);
+    return FormulaEngine.validateFormula(value, propertyNames, 'text');
   };
 
   const validation = validateFormula();
@@ -266,6 +269,7 @@ export function FormulaBuilder({
           <p>• SKU: <code className="bg-muted px-1 rounded">{`{brand.code}-{wattage}-{color.code}`}</code></p>
           <p>• Description: <code className="bg-muted px-1 rounded">{`{wattage}W {color.label_en} {type.label_en}`}</code></p>
           <p>• Arabic: <code className="bg-muted px-1 rounded">{`{wattage} واط {color.label_ar}`}</code></p>
+          <p>• Expression: <code className="bg-muted px-1 rounded">{`=IF({wattage} > 40, "HB", "LB") & "-" & {color.code}`}</code></p>
         </div>
 
         {!validation.isValid && (
@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { NavigateFunction, useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
@@ -16,6 +16,24 @@ interface DealStage {
   win_percentage: number;
 }
 
+/** Archives a deal that reached a 100% stage and opens contract creation for it */
+export const completeDealToContract = async (dealId: string, navigate: NavigateFunction) => {
+  // Mark deal as archived
+  await supabase
+    .from('deals')
+    .update({ is_converted: true })
+    .eq('id', dealId);
+
+  toast.success('Deal completed! Creating contract...', {
+    duration: 3000,
+  });
+
+  // Navigate to contract creation with deal data (solution categories will carry over automatically)
+  setTimeout(() => {
+    navigate(`/contracts/add?dealId=${dealId}`);
+  }, 1500);
+};
+
 export const useDealContractAutomation = (deal: Deal | null) => {
   const navigate = useNavigate();
 
@@ -37,20 +55,7 @@ export const useDealContractAutomation = (deal: Deal | null) => {
 
         // If stage has 100% win percentage, mark as archived and trigger contract creation
         if (stage.win_percentage === 100) {
-          // Mark deal as archived
-          await supabase
-            .from('deals')
-            .update({ is_converted: true })
-            .eq('id', deal.id);
-
-          toast.success('Deal completed! Creating contract...', {
-            duration: 3000,
-          });
-
-          // Navigate to contract creation with deal data (solution categories will carry over automatically)
-          setTimeout(() => {
-            navigate(`/contracts/add?dealId=${deal.id}`);
-          }, 1500);
+          await completeDealToContract(deal.id, navigate);
         }
       } catch (error) {
         console.error('Error checking deal stage completion:', error);
@@ -178,6 +178,67 @@ export const useDealStatusChange = () => {
     }
   }, [currentTenant, isPauseStatus, logStatusChange, toast]);
 
+  // Move a deal to another stage, recording the move in the status history
+  const updateDealStage = useCallback(async (
+    deal: { id: string; stage_id?: string | null; deal_status_id?: string | null },
+    oldStageName: string,
+    newStage: { id: string; name: string }
+  ): Promise<StatusChangeResult> => {
+    if (!currentTenant) {
+      return { success: false, error: 'No tenant selected' };
+    }
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        return { success: false, error: 'User not authenticated' };
+      }
+
+      const { error: updateError } = await supabase
+        .from('deals')
+        .update({
+          stage_id: newStage.id,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', deal.id);
+
+      if (updateError) throw updateError;
+
+      const { error: historyError } = await supabase
+        .from('deal_status_history')
+        .insert({
+          tenant_id: currentTenant.id,
+          deal_id: deal.id,
+          old_status_id: deal.deal_status_id || null,
+          new_status_id: deal.deal_status_id || null,
+          old_stage_id: deal.stage_id || null,
+          new_stage_id: newStage.id,
+          reason: `Stage changed from "${oldStageName}" to "${newStage.name}"`,
+          changed_by: user.id,
+        });
+
+      if (historyError) {
+        console.warn('Failed to log stage change:', historyError.message);
+      }
+
+      await supabase
+        .from('activities')
+        .insert({
+          tenant_id: currentTenant.id,
+          deal_id: deal.id,
+          type: 'note',
+          title: 'Stage Changed',
+          description: `Stage changed from "${oldStageName}" to "${newStage.name}"`,
+          created_by: user.id,
+        });
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error updating deal stage:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }, [currentTenant]);
+
   // Fetch status history for a deal
   const fetchStatusHistory = useCallback(async (dealId: string) => {
     if (!currentTenant) return [];
@@ -214,6 +275,7 @@ export const useDealStatusChange = () => {
     getActiveStatusId,
     logStatusChange,
     updateDealStatus,
+    updateDealStage,
     fetchStatusHistory,
   };
 };
@@ -370,6 +370,35 @@ export function useDynamicCustomers(options: EntityHookOptions = {}) {
   };
 }
 
+/** Calls onChange whenever a deal of the current tenant is inserted, updated or deleted */
+export function useDealsRealtime(onChange: () => void, enabled = true) {
+  const { currentTenant } = useTenant();
+
+  useEffect(() => {
+    if (!currentTenant?.id || !enabled) return;
+
+    const channel = supabase
+      .channel('deals-changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'deals',
+          filter: `tenant_id=eq.${currentTenant.id}`
+        },
+        () => {
+          onChange();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentTenant?.id, enabled, onChange]);
+}
+
 export function useDynamicDeals(options: EntityHookOptions = {}) {
   const { currentTenant } = useTenant();
   const { enabled = true, searchTerm = '', limit = 50 } = options;
@@ -416,29 +445,7 @@ export function useDynamicDeals(options: EntityHookOptions = {}) {
   }, [fetchDeals]);
 
   // Set up real-time subscription
-  useEffect(() => {
-    if (!currentTenant?.id || !enabled) return;
-
-    const channel = supabase
-      .channel('deals-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'deals',
-          filter: `tenant_id=eq.${currentTenant.id}`
-        },
-        () => {
-          fetchDeals();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [currentTenant?.id, enabled, fetchDeals]);
+  useDealsRealtime(fetchDeals, enabled);
 
   return {
     deals,
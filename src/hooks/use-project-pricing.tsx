@@ -0,0 +1,78 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { ConversionRateTable, buildConversionRateTable } from '@/lib/quote-totals';
+
+interface ProjectCurrency {
+  id: string;
+  code: string;
+  symbol: string;
+}
+
+/**
+ * The project's effective currency (project, then deal, then customer, then tenant default) and the tenant's
+ * conversion rates, for normalising BOQ figures to one currency.
+ */
+export function useProjectPricing(projectId: string | undefined) {
+  const { currentTenant } = useTenant();
+  const [currency, setCurrency] = useState<ProjectCurrency | null>(null);
+  const [conversionRates, setConversionRates] = useState<ConversionRateTable>({});
+  const [loading, setLoading] = useState(true);
+
+  const fetchPricing = async () => {
+    if (!projectId || !currentTenant?.id) return;
+
+    try {
+      setLoading(true);
+      const [currencyResult, settingsResult, ratesResult] = await Promise.all([
+        supabase.rpc('get_effective_currency', {
+          entity_type: 'project',
+          entity_id: projectId,
+          input_tenant_id: currentTenant.id,
+        }),
+        supabase
+          .from('tenant_pricing_settings')
+          .select('custom_conversion_rates')
+          .eq('tenant_id', currentTenant.id)
+          .maybeSingle(),
+        supabase
+          .from('currency_settings')
+          .select('from_currency_id, to_currency_id, conversion_rate')
+          .eq('tenant_id', currentTenant.id),
+      ]);
+
+      if (currencyResult.error) throw currencyResult.error;
+      if (settingsResult.error) throw settingsResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+
+      setConversionRates(
+        buildConversionRateTable(ratesResult.data || [], settingsResult.data?.custom_conversion_rates)
+      );
+
+      if (currencyResult.data) {
+        const { data, error } = await supabase
+          .from('currencies')
+          .select('id, code, symbol')
+          .eq('id', currencyResult.data)
+          .single();
+        if (error) throw error;
+        setCurrency(data);
+      }
+    } catch (err) {
+      console.error('Error fetching project pricing:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPricing();
+  }, [projectId, currentTenant?.id]);
+
+  return {
+    currency,
+    conversionRates,
+    loading,
+    refresh: fetchPricing
+  };
+}
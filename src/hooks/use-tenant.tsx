@@ -12,6 +12,7 @@ interface Tenant {
   company_location?: string;
   cr_number?: string;
   tax_number?: string;
+  logo_url?: string;
   contact_email?: string;
   contact_phone?: string;
   contact_phone_country_code?: string;
@@ -102,7 +103,7 @@ export const TenantProvider = ({ children }: { children: React.ReactNode }) => {
         .from('tenants')
         .select(`
           id, name, slug, domain, active, country, company_location, 
-          cr_number, tax_number, contact_email, contact_phone_country_code,
+          cr_number, tax_number, logo_url, contact_email, contact_phone_country_code,
           contact_phone_number, default_currency_id, settings, created_at, updated_at
         `)
         .eq('id', currentTenant.id)
@@ -170,7 +171,7 @@ export const TenantProvider = ({ children }: { children: React.ReactNode }) => {
             active,
             tenant:tenants(
               id, name, slug, domain, active, country, company_location, 
-              cr_number, tax_number, contact_email, contact_phone_country_code,
+              cr_number, tax_number, logo_url, contact_email, contact_phone_country_code,
               contact_phone_number, default_currency_id, settings, created_at, updated_at
             )
           `)
@@ -222,7 +223,7 @@ export const TenantProvider = ({ children }: { children: React.ReactNode }) => {
           active,
           tenant:tenants(
             id, name, slug, domain, active, country, company_location, 
-            cr_number, tax_number, contact_email, contact_phone_country_code,
+            cr_number, tax_number, logo_url, contact_email, contact_phone_country_code,
             contact_phone_number, default_currency_id, settings, created_at, updated_at
           )
         `)
@@ -301,6 +301,54 @@ export type Database = {
           },
         ]
       }
+      collection_settings: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          escalate_after_days: number
+          escalation_role_id: string | null
+          follow_up_after_days: number
+          id: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          escalate_after_days?: number
+          escalation_role_id?: string | null
+          follow_up_after_days?: number
+          id?: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          escalate_after_days?: number
+          escalation_role_id?: string | null
+          follow_up_after_days?: number
+          id?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "collection_settings_escalation_role_id_fkey"
+            columns: ["escalation_role_id"]
+            isOneToOne: false
+            referencedRelation: "custom_roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "collection_settings_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       commission_configurations: {
         Row: {
           active: boolean
@@ -409,6 +457,8 @@ export type Database = {
           industry: string | null
           instagram_page: string | null
           is_lead: boolean | null
+          lead_score: number
+          lead_score_updated_at: string | null
           linkedin_page: string | null
           logo_url: string | null
           name: string
@@ -442,6 +492,8 @@ export type Database = {
           industry?: string | null
           instagram_page?: string | null
           is_lead?: boolean | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           linkedin_page?: string | null
           logo_url?: string | null
           name: string
@@ -475,6 +527,8 @@ export type Database = {
           industry?: string | null
           instagram_page?: string | null
           is_lead?: boolean | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           linkedin_page?: string | null
           logo_url?: string | null
           name?: string
@@ -816,6 +870,8 @@ export type Database = {
           id: string
           is_lead: boolean
           last_name: string | null
+          lead_score: number
+          lead_score_updated_at: string | null
           notes: string | null
           phone: string | null
           phone_number: string | null
@@ -844,6 +900,8 @@ export type Database = {
           id?: string
           is_lead?: boolean
           last_name?: string | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           notes?: string | null
           phone?: string | null
           phone_number?: string | null
@@ -872,6 +930,8 @@ export type Database = {
           id?: string
           is_lead?: boolean
           last_name?: string | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           notes?: string | null
           phone?: string | null
           phone_number?: string | null
@@ -1320,6 +1380,7 @@ export type Database = {
           id: string
           name: string
           notes: string | null
+          quote_id: string | null
           sign_date: string | null
           signed_date: string | null
           site_id: string | null
@@ -1346,6 +1407,7 @@ export type Database = {
           id?: string
           name: string
           notes?: string | null
+          quote_id?: string | null
           sign_date?: string | null
           signed_date?: string | null
           site_id?: string | null
@@ -1372,6 +1434,7 @@ export type Database = {
           id?: string
           name?: string
           notes?: string | null
+          quote_id?: string | null
           sign_date?: string | null
           signed_date?: string | null
           site_id?: string | null
@@ -1404,6 +1467,13 @@ export type Database = {
             referencedRelation: "contacts"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "contracts_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_contracts_assigned_to"
             columns: ["assigned_to"]
@@ -1887,7 +1957,9 @@ export type Database = {
           created_at: string
           deal_id: string
           id: string
+          new_stage_id: string | null
           new_status_id: string | null
+          old_stage_id: string | null
           old_status_id: string | null
           reason: string
           resume_date: string | null
@@ -1898,7 +1970,9 @@ export type Database = {
           created_at?: string
           deal_id: string
           id?: string
+          new_stage_id?: string | null
           new_status_id?: string | null
+          old_stage_id?: string | null
           old_status_id?: string | null
           reason: string
           resume_date?: string | null
@@ -1909,7 +1983,9 @@ export type Database = {
           created_at?: string
           deal_id?: string
           id?: string
+          new_stage_id?: string | null
           new_status_id?: string | null
+          old_stage_id?: string | null
           old_status_id?: string | null
           reason?: string
           resume_date?: string | null
@@ -1923,6 +1999,13 @@ export type Database = {
             referencedRelation: "deals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deal_status_history_new_stage_id_fkey"
+            columns: ["new_stage_id"]
+            isOneToOne: false
+            referencedRelation: "deal_stages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deal_status_history_new_status_id_fkey"
             columns: ["new_status_id"]
@@ -1930,6 +2013,13 @@ export type Database = {
             referencedRelation: "deal_statuses"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "deal_status_history_old_stage_id_fkey"
+            columns: ["old_stage_id"]
+            isOneToOne: false
+            referencedRelation: "deal_stages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "deal_status_history_old_status_id_fkey"
             columns: ["old_status_id"]
@@ -2006,6 +2096,8 @@ export type Database = {
           high_value: boolean
           id: string
           is_converted: boolean
+          lead_entity_id: string | null
+          lead_entity_type: string | null
           name: string
           notes: string | null
           priority: Database["public"]["Enums"]["deal_priority"] | null
@@ -2040,6 +2132,8 @@ export type Database = {
           high_value?: boolean
           id?: string
           is_converted?: boolean
+          lead_entity_id?: string | null
+          lead_entity_type?: string | null
           name: string
           notes?: string | null
           priority?: Database["public"]["Enums"]["deal_priority"] | null
@@ -2074,6 +2168,8 @@ export type Database = {
           high_value?: boolean
           id?: string
           is_converted?: boolean
+          lead_entity_id?: string | null
+          lead_entity_type?: string | null
           name?: string
           notes?: string | null
           priority?: Database["public"]["Enums"]["deal_priority"] | null
@@ -3041,6 +3137,7 @@ export type Database = {
           created_at: string
           description: string | null
           id: string
+          min_score: number | null
           name: string
           sort_order: number
           tenant_id: string
@@ -3051,6 +3148,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          min_score?: number | null
           name: string
           sort_order?: number
           tenant_id: string
@@ -3061,6 +3159,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          min_score?: number | null
           name?: string
           sort_order?: number
           tenant_id?: string
@@ -3068,6 +3167,115 @@ export type Database = {
         }
         Relationships: []
       }
+      lead_scoring_rules: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          match_value: string | null
+          max_points: number | null
+          points: number
+          rule_type: string
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          match_value?: string | null
+          max_points?: number | null
+          points: number
+          rule_type: string
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          match_value?: string | null
+          max_points?: number | null
+          points?: number
+          rule_type?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_scoring_rules_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_stage_history: {
+        Row: {
+          changed_at: string
+          changed_by: string | null
+          entity_id: string
+          entity_type: string
+          event: string
+          from_stage_id: string | null
+          id: string
+          tenant_id: string
+          to_stage_id: string | null
+        }
+        Insert: {
+          changed_at?: string
+          changed_by?: string | null
+          entity_id: string
+          entity_type: string
+          event?: string
+          from_stage_id?: string | null
+          id?: string
+          tenant_id: string
+          to_stage_id?: string | null
+        }
+        Update: {
+          changed_at?: string
+          changed_by?: string | null
+          entity_id?: string
+          entity_type?: string
+          event?: string
+          from_stage_id?: string | null
+          id?: string
+          tenant_id?: string
+          to_stage_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_stage_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_from_stage_id_fkey"
+            columns: ["from_stage_id"]
+            isOneToOne: false
+            referencedRelation: "lead_stages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_stage_history_to_stage_id_fkey"
+            columns: ["to_stage_id"]
+            isOneToOne: false
+            referencedRelation: "lead_stages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lead_stages: {
         Row: {
           active: boolean
@@ -3176,133 +3384,344 @@ export type Database = {
         }
         Relationships: []
       }
-      permissions: {
-        Row: {
-          created_at: string
-          description: string | null
-          id: string
-          module: string
-          name: string
-        }
-        Insert: {
-          created_at?: string
-          description?: string | null
-          id?: string
-          module: string
-          name: string
-        }
-        Update: {
-          created_at?: string
-          description?: string | null
-          id?: string
-          module?: string
-          name?: string
-        }
-        Relationships: []
-      }
-      profiles: {
+      payment_allocations: {
         Row: {
-          account_id: number
-          avatar_url: string | null
+          amount: number
           created_at: string
-          email: string
-          first_name: string | null
+          created_by: string | null
           id: string
-          is_recovery_email_verified: boolean | null
-          last_name: string | null
-          recovery_email: string | null
-          recovery_email_token_expires_at: string | null
-          recovery_email_verification_token: string | null
+          payment_term_id: string
+          receipt_id: string
+          tenant_id: string
           updated_at: string
         }
         Insert: {
-          account_id: number
-          avatar_url?: string | null
+          amount: number
           created_at?: string
-          email: string
-          first_name?: string | null
-          id: string
-          is_recovery_email_verified?: boolean | null
-          last_name?: string | null
-          recovery_email?: string | null
-          recovery_email_token_expires_at?: string | null
-          recovery_email_verification_token?: string | null
+          created_by?: string | null
+          id?: string
+          payment_term_id: string
+          receipt_id: string
+          tenant_id: string
           updated_at?: string
         }
         Update: {
-          account_id?: number
-          avatar_url?: string | null
+          amount?: number
           created_at?: string
-          email?: string
-          first_name?: string | null
+          created_by?: string | null
           id?: string
-          is_recovery_email_verified?: boolean | null
-          last_name?: string | null
-          recovery_email?: string | null
-          recovery_email_token_expires_at?: string | null
-          recovery_email_verification_token?: string | null
+          payment_term_id?: string
+          receipt_id?: string
+          tenant_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "payment_allocations_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_payment_term_id_fkey"
+            columns: ["payment_term_id"]
+            isOneToOne: false
+            referencedRelation: "contract_payment_terms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "payment_receipts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_allocations_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      project_devices: {
+      payment_collections: {
         Row: {
+          contract_id: string
           created_at: string
-          device_id: string
-          floor_id: string | null
+          escalated_at: string | null
+          escalated_to: string | null
+          escalation_todo_id: string | null
+          follow_up_todo_id: string | null
           id: string
-          notes: string | null
-          project_id: string
-          quantity: number
-          unit_price: number | null
+          payment_term_id: string
+          resolved_at: string | null
+          tenant_id: string
           updated_at: string
         }
         Insert: {
+          contract_id: string
           created_at?: string
-          device_id: string
-          floor_id?: string | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_todo_id?: string | null
+          follow_up_todo_id?: string | null
           id?: string
-          notes?: string | null
-          project_id: string
-          quantity?: number
-          unit_price?: number | null
+          payment_term_id: string
+          resolved_at?: string | null
+          tenant_id: string
           updated_at?: string
         }
         Update: {
+          contract_id?: string
           created_at?: string
-          device_id?: string
-          floor_id?: string | null
+          escalated_at?: string | null
+          escalated_to?: string | null
+          escalation_todo_id?: string | null
+          follow_up_todo_id?: string | null
           id?: string
-          notes?: string | null
-          project_id?: string
-          quantity?: number
-          unit_price?: number | null
+          payment_term_id?: string
+          resolved_at?: string | null
+          tenant_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "project_devices_device_id_fkey"
-            columns: ["device_id"]
+            foreignKeyName: "payment_collections_contract_id_fkey"
+            columns: ["contract_id"]
             isOneToOne: false
-            referencedRelation: "devices"
+            referencedRelation: "contracts"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_devices_floor_id_fkey"
-            columns: ["floor_id"]
+            foreignKeyName: "payment_collections_escalated_to_fkey"
+            columns: ["escalated_to"]
             isOneToOne: false
-            referencedRelation: "project_floors"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_devices_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "payment_collections_escalation_todo_id_fkey"
+            columns: ["escalation_todo_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "todos"
             referencedColumns: ["id"]
           },
-        ]
-      }
+          {
+            foreignKeyName: "payment_collections_follow_up_todo_id_fkey"
+            columns: ["follow_up_todo_id"]
+            isOneToOne: false
+            referencedRelation: "todos"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_collections_payment_term_id_fkey"
+            columns: ["payment_term_id"]
+            isOneToOne: false
+            referencedRelation: "contract_payment_terms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_collections_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_receipts: {
+        Row: {
+          amount: number
+          contract_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          received_date: string
+          reference: string | null
+          registered_by: string | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          contract_id: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_date?: string
+          reference?: string | null
+          registered_by?: string | null
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          contract_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          received_date?: string
+          reference?: string | null
+          registered_by?: string | null
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_receipts_contract_id_fkey"
+            columns: ["contract_id"]
+            isOneToOne: false
+            referencedRelation: "contracts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_receipts_registered_by_fkey"
+            columns: ["registered_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_receipts_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      permissions: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          module: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          module: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          module?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          account_id: number
+          avatar_url: string | null
+          created_at: string
+          email: string
+          first_name: string | null
+          id: string
+          is_recovery_email_verified: boolean | null
+          last_name: string | null
+          recovery_email: string | null
+          recovery_email_token_expires_at: string | null
+          recovery_email_verification_token: string | null
+          updated_at: string
+        }
+        Insert: {
+          account_id: number
+          avatar_url?: string | null
+          created_at?: string
+          email: string
+          first_name?: string | null
+          id: string
+          is_recovery_email_verified?: boolean | null
+          last_name?: string | null
+          recovery_email?: string | null
+          recovery_email_token_expires_at?: string | null
+          recovery_email_verification_token?: string | null
+          updated_at?: string
+        }
+        Update: {
+          account_id?: number
+          avatar_url?: string | null
+          created_at?: string
+          email?: string
+          first_name?: string | null
+          id?: string
+          is_recovery_email_verified?: boolean | null
+          last_name?: string | null
+          recovery_email?: string | null
+          recovery_email_token_expires_at?: string | null
+          recovery_email_verification_token?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      project_devices: {
+        Row: {
+          created_at: string
+          device_id: string
+          floor_id: string | null
+          id: string
+          notes: string | null
+          project_id: string
+          quantity: number
+          unit_price: number | null
+          updated_at: string
+          zone: string | null
+        }
+        Insert: {
+          created_at?: string
+          device_id: string
+          floor_id?: string | null
+          id?: string
+          notes?: string | null
+          project_id: string
+          quantity?: number
+          unit_price?: number | null
+          updated_at?: string
+          zone?: string | null
+        }
+        Update: {
+          created_at?: string
+          device_id?: string
+          floor_id?: string | null
+          id?: string
+          notes?: string | null
+          project_id?: string
+          quantity?: number
+          unit_price?: number | null
+          updated_at?: string
+          zone?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_devices_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_devices_floor_id_fkey"
+            columns: ["floor_id"]
+            isOneToOne: false
+            referencedRelation: "project_floors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_devices_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       project_floors: {
         Row: {
           area: number | null
@@ -3312,6 +3731,7 @@ export type Database = {
           level: number | null
           name: string
           project_id: string
+          site_id: string | null
           updated_at: string
         }
         Insert: {
@@ -3322,6 +3742,7 @@ export type Database = {
           level?: number | null
           name: string
           project_id: string
+          site_id?: string | null
           updated_at?: string
         }
         Update: {
@@ -3332,6 +3753,7 @@ export type Database = {
           level?: number | null
           name?: string
           project_id?: string
+          site_id?: string | null
           updated_at?: string
         }
         Relationships: [
@@ -3342,6 +3764,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "project_floors_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
         ]
       }
       project_sites: {
@@ -3418,67 +3847,295 @@ export type Database = {
           start_date?: string | null
           status?: Database["public"]["Enums"]["project_status"]
           tenant_id: string
-          type?: Database["public"]["Enums"]["project_type"]
+          type?: Database["public"]["Enums"]["project_type"]
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          budget?: number | null
+          created_at?: string
+          currency_id?: string | null
+          deal_id?: string | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string | null
+          end_date?: string | null
+          id?: string
+          name?: string
+          notes?: string | null
+          site_id?: string | null
+          start_date?: string | null
+          status?: Database["public"]["Enums"]["project_status"]
+          tenant_id?: string
+          type?: Database["public"]["Enums"]["project_type"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_assigned_to_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_assigned_to_profiles_fkey"
+            columns: ["assigned_to"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_currency_id_fkey"
+            columns: ["currency_id"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_site_id_fkey"
+            columns: ["site_id"]
+            isOneToOne: false
+            referencedRelation: "sites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_approval_requests: {
+        Row: {
+          approver_role_id: string | null
+          created_at: string
+          decided_at: string | null
+          decided_by: string | null
+          decision_comment: string | null
+          id: string
+          margin_percentage: number | null
+          quote_id: string
+          quote_version_id: string
+          reasons: Json
+          request_comment: string | null
+          requested_by: string | null
+          status: string
+          tenant_id: string
+          total_amount: number | null
+        }
+        Insert: {
+          approver_role_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
+          id?: string
+          margin_percentage?: number | null
+          quote_id: string
+          quote_version_id: string
+          reasons?: Json
+          request_comment?: string | null
+          requested_by?: string | null
+          status?: string
+          tenant_id: string
+          total_amount?: number | null
+        }
+        Update: {
+          approver_role_id?: string | null
+          created_at?: string
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_comment?: string | null
+          id?: string
+          margin_percentage?: number | null
+          quote_id?: string
+          quote_version_id?: string
+          reasons?: Json
+          request_comment?: string | null
+          requested_by?: string | null
+          status?: string
+          tenant_id?: string
+          total_amount?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_approval_requests_approver_role_id_fkey"
+            columns: ["approver_role_id"]
+            isOneToOne: false
+            referencedRelation: "custom_roles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_approval_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_approval_requests_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_approval_requests_quote_version_id_fkey"
+            columns: ["quote_version_id"]
+            isOneToOne: false
+            referencedRelation: "quote_versions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_approval_requests_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quote_approval_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quote_approval_settings: {
+        Row: {
+          approver_role_id: string | null
+          created_at: string
+          enabled: boolean
+          id: string
+          max_total_amount: number | null
+          min_line_margin_percentage: number | null
+          min_margin_percentage: number | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          approver_role_id?: string | null
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          max_total_amount?: number | null
+          min_line_margin_percentage?: number | null
+          min_margin_percentage?: number | null
+          tenant_id: string
           updated_at?: string
         }
         Update: {
-          assigned_to?: string | null
-          budget?: number | null
+          approver_role_id?: string | null
           created_at?: string
-          currency_id?: string | null
-          deal_id?: string | null
-          deleted_at?: string | null
-          deleted_by?: string | null
-          description?: string | null
-          end_date?: string | null
+          enabled?: boolean
           id?: string
-          name?: string
-          notes?: string | null
-          site_id?: string | null
-          start_date?: string | null
-          status?: Database["public"]["Enums"]["project_status"]
+          max_total_amount?: number | null
+          min_line_margin_percentage?: number | null
+          min_margin_percentage?: number | null
           tenant_id?: string
-          type?: Database["public"]["Enums"]["project_type"]
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_assigned_to_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "quote_approval_settings_approver_role_id_fkey"
+            columns: ["approver_role_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "custom_roles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "projects_assigned_to_profiles_fkey"
-            columns: ["assigned_to"]
+            foreignKeyName: "quote_approval_settings_tenant_id_fkey"
+            columns: ["tenant_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
+            referencedRelation: "tenants"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      quote_documents: {
+        Row: {
+          created_at: string
+          file_name: string
+          file_path: string
+          file_size: number | null
+          format: string
+          generated_by: string | null
+          id: string
+          language: string
+          page_count: number | null
+          quote_id: string
+          quote_version_id: string
+          tenant_id: string
+          total_amount: number | null
+          version_number: number
+        }
+        Insert: {
+          created_at?: string
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          format?: string
+          generated_by?: string | null
+          id?: string
+          language?: string
+          page_count?: number | null
+          quote_id: string
+          quote_version_id: string
+          tenant_id: string
+          total_amount?: number | null
+          version_number: number
+        }
+        Update: {
+          created_at?: string
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          format?: string
+          generated_by?: string | null
+          id?: string
+          language?: string
+          page_count?: number | null
+          quote_id?: string
+          quote_version_id?: string
+          tenant_id?: string
+          total_amount?: number | null
+          version_number?: number
+        }
+        Relationships: [
           {
-            foreignKeyName: "projects_currency_id_fkey"
-            columns: ["currency_id"]
+            foreignKeyName: "quote_documents_generated_by_fkey"
+            columns: ["generated_by"]
             isOneToOne: false
-            referencedRelation: "currencies"
+            referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "projects_deal_id_fkey"
-            columns: ["deal_id"]
+            foreignKeyName: "quote_documents_quote_id_fkey"
+            columns: ["quote_id"]
             isOneToOne: false
-            referencedRelation: "deals"
+            referencedRelation: "quotes"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "projects_site_id_fkey"
-            columns: ["site_id"]
+            foreignKeyName: "quote_documents_quote_version_id_fkey"
+            columns: ["quote_version_id"]
             isOneToOne: false
-            referencedRelation: "sites"
+            referencedRelation: "quote_versions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "projects_tenant_id_fkey"
+            foreignKeyName: "quote_documents_tenant_id_fkey"
             columns: ["tenant_id"]
             isOneToOne: false
             referencedRelation: "tenants"
@@ -3491,6 +4148,10 @@ export type Database = {
           created_at: string
           description: string | null
           device_id: string | null
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          exchange_rate: number
           id: string
           margin_percentage: number | null
           name: string
@@ -3499,6 +4160,10 @@ export type Database = {
           quote_version_id: string
           sku: string | null
           sort_order: number | null
+          source_currency_id: string | null
+          source_unit_cost: number | null
+          source_unit_price: number | null
+          tax_rate: number | null
           tenant_id: string
           total_cost: number | null
           total_price: number | null
@@ -3510,6 +4175,10 @@ export type Database = {
           created_at?: string
           description?: string | null
           device_id?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           id?: string
           margin_percentage?: number | null
           name: string
@@ -3518,6 +4187,10 @@ export type Database = {
           quote_version_id: string
           sku?: string | null
           sort_order?: number | null
+          source_currency_id?: string | null
+          source_unit_cost?: number | null
+          source_unit_price?: number | null
+          tax_rate?: number | null
           tenant_id: string
           total_cost?: number | null
           total_price?: number | null
@@ -3529,6 +4202,10 @@ export type Database = {
           created_at?: string
           description?: string | null
           device_id?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          exchange_rate?: number
           id?: string
           margin_percentage?: number | null
           name?: string
@@ -3537,6 +4214,10 @@ export type Database = {
           quote_version_id?: string
           sku?: string | null
           sort_order?: number | null
+          source_currency_id?: string | null
+          source_unit_cost?: number | null
+          source_unit_price?: number | null
+          tax_rate?: number | null
           tenant_id?: string
           total_cost?: number | null
           total_price?: number | null
@@ -3559,6 +4240,13 @@ export type Database = {
             referencedRelation: "quote_versions"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quote_items_source_currency_id_fkey"
+            columns: ["source_currency_id"]
+            isOneToOne: false
+            referencedRelation: "currencies"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quote_items_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -3572,11 +4260,21 @@ export type Database = {
         Row: {
           created_at: string
           created_by: string | null
+          discount_amount: number
+          discount_type: string
+          discount_value: number
+          grand_total: number
           id: string
           is_primary: boolean
+          line_discount_total: number
           margin_percentage: number | null
           notes: string | null
           quote_id: string
+          rounding_adjustment: number
+          subtotal: number
+          tax_amount: number
+          tax_rate: number | null
+          tax_rate_id: string | null
           tenant_id: string
           total_amount: number | null
           updated_at: string
@@ -3586,11 +4284,21 @@ export type Database = {
         Insert: {
           created_at?: string
           created_by?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          grand_total?: number
           id?: string
           is_primary?: boolean
+          line_discount_total?: number
           margin_percentage?: number | null
           notes?: string | null
           quote_id: string
+          rounding_adjustment?: number
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number | null
+          tax_rate_id?: string | null
           tenant_id: string
           total_amount?: number | null
           updated_at?: string
@@ -3600,11 +4308,21 @@ export type Database = {
         Update: {
           created_at?: string
           created_by?: string | null
+          discount_amount?: number
+          discount_type?: string
+          discount_value?: number
+          grand_total?: number
           id?: string
           is_primary?: boolean
+          line_discount_total?: number
           margin_percentage?: number | null
           notes?: string | null
           quote_id?: string
+          rounding_adjustment?: number
+          subtotal?: number
+          tax_amount?: number
+          tax_rate?: number | null
+          tax_rate_id?: string | null
           tenant_id?: string
           total_amount?: number | null
           updated_at?: string
@@ -3626,6 +4344,13 @@ export type Database = {
             referencedRelation: "quotes"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quote_versions_tax_rate_id_fkey"
+            columns: ["tax_rate_id"]
+            isOneToOne: false
+            referencedRelation: "tenant_tax_rates"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quote_versions_tenant_id_fkey"
             columns: ["tenant_id"]
@@ -3653,6 +4378,7 @@ export type Database = {
           site_id: string | null
           status: string
           tenant_id: string
+          terms: string | null
           total_amount: number | null
           updated_at: string
         }
@@ -3673,6 +4399,7 @@ export type Database = {
           site_id?: string | null
           status?: string
           tenant_id: string
+          terms?: string | null
           total_amount?: number | null
           updated_at?: string
         }
@@ -3693,6 +4420,7 @@ export type Database = {
           site_id?: string | null
           status?: string
           tenant_id?: string
+          terms?: string | null
           total_amount?: number | null
           updated_at?: string
         }
@@ -3769,6 +4497,101 @@ export type Database = {
           },
         ]
       }
+      record_merge_changes: {
+        Row: {
+          action: string
+          column_name: string
+          created_at: string
+          id: string
+          merge_id: string
+          row_data: Json | null
+          row_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          column_name: string
+          created_at?: string
+          id?: string
+          merge_id: string
+          row_data?: Json | null
+          row_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          column_name?: string
+          created_at?: string
+          id?: string
+          merge_id?: string
+          row_data?: Json | null
+          row_id?: string
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "record_merge_changes_merge_id_fkey"
+            columns: ["merge_id"]
+            isOneToOne: false
+            referencedRelation: "record_merges"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      record_merges: {
+        Row: {
+          entity_type: string
+          id: string
+          merged_at: string
+          merged_by: string | null
+          merged_data: Json
+          merged_id: string
+          merged_name: string
+          previous_values: Json
+          references_moved: number
+          references_removed: number
+          surviving_id: string
+          surviving_name: string
+          tenant_id: string
+          undone_at: string | null
+          undone_by: string | null
+        }
+        Insert: {
+          entity_type: string
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_data: Json
+          merged_id: string
+          merged_name: string
+          previous_values?: Json
+          references_moved?: number
+          references_removed?: number
+          surviving_id: string
+          surviving_name: string
+          tenant_id: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Update: {
+          entity_type?: string
+          id?: string
+          merged_at?: string
+          merged_by?: string | null
+          merged_data?: Json
+          merged_id?: string
+          merged_name?: string
+          previous_values?: Json
+          references_moved?: number
+          references_removed?: number
+          surviving_id?: string
+          surviving_name?: string
+          tenant_id?: string
+          undone_at?: string | null
+          undone_by?: string | null
+        }
+        Relationships: []
+      }
       relationship_roles: {
         Row: {
           active: boolean
@@ -3806,10 +4629,15 @@ export type Database = {
         Row: {
           completed_at: string | null
           created_at: string
+          error_message: string | null
           export_type: string
+          file_name: string | null
           file_path: string | null
+          file_size: number | null
           id: string
           report_id: string
+          row_count: number | null
+          scheduled_report_id: string | null
           status: string
           tenant_id: string
           user_id: string
@@ -3817,10 +4645,15 @@ export type Database = {
         Insert: {
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
           export_type: string
+          file_name?: string | null
           file_path?: string | null
+          file_size?: number | null
           id?: string
           report_id: string
+          row_count?: number | null
+          scheduled_report_id?: string | null
           status?: string
           tenant_id: string
           user_id: string
@@ -3828,10 +4661,15 @@ export type Database = {
         Update: {
           completed_at?: string | null
           created_at?: string
+          error_message?: string | null
           export_type?: string
+          file_name?: string | null
           file_path?: string | null
+          file_size?: number | null
           id?: string
           report_id?: string
+          row_count?: number | null
+          scheduled_report_id?: string | null
           status?: string
           tenant_id?: string
           user_id?: string
@@ -3844,6 +4682,51 @@ export type Database = {
             referencedRelation: "reports"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "report_exports_scheduled_report_id_fkey"
+            columns: ["scheduled_report_id"]
+            isOneToOne: false
+            referencedRelation: "scheduled_reports"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_shares: {
+        Row: {
+          created_at: string
+          created_by: string
+          id: string
+          report_id: string
+          share_type: string
+          target_id: string
+          tenant_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          id?: string
+          report_id: string
+          share_type: string
+          target_id: string
+          tenant_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          id?: string
+          report_id?: string
+          share_type?: string
+          target_id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_shares_report_id_fkey"
+            columns: ["report_id"]
+            isOneToOne: false
+            referencedRelation: "reports"
+            referencedColumns: ["id"]
+          },
         ]
       }
       report_widgets: {
@@ -4176,6 +5059,7 @@ export type Database = {
           schedule_config: Json
           schedule_type: string
           tenant_id: string
+          timezone_next_runs: Json
           updated_at: string
           user_id: string
         }
@@ -4191,6 +5075,7 @@ export type Database = {
           schedule_config?: Json
           schedule_type: string
           tenant_id: string
+          timezone_next_runs?: Json
           updated_at?: string
           user_id: string
         }
@@ -4206,6 +5091,7 @@ export type Database = {
           schedule_config?: Json
           schedule_type?: string
           tenant_id?: string
+          timezone_next_runs?: Json
           updated_at?: string
           user_id?: string
         }
@@ -4238,6 +5124,8 @@ export type Database = {
           images: string[] | null
           is_lead: boolean | null
           latitude: number | null
+          lead_score: number
+          lead_score_updated_at: string | null
           longitude: number | null
           name: string
           notes: string | null
@@ -4272,6 +5160,8 @@ export type Database = {
           images?: string[] | null
           is_lead?: boolean | null
           latitude?: number | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           longitude?: number | null
           name: string
           notes?: string | null
@@ -4306,6 +5196,8 @@ export type Database = {
           images?: string[] | null
           is_lead?: boolean | null
           latitude?: number | null
+          lead_score?: number
+          lead_score_updated_at?: string | null
           longitude?: number | null
           name?: string
           notes?: string | null
@@ -4726,6 +5618,8 @@ export type Database = {
           default_currency_id: string | null
           id: string
           pricing_tiers: Json | null
+          rounding_increment: number
+          rounding_mode: string
           tenant_id: string
           updated_at: string
         }
@@ -4735,6 +5629,8 @@ export type Database = {
           default_currency_id?: string | null
           id?: string
           pricing_tiers?: Json | null
+          rounding_increment?: number
+          rounding_mode?: string
           tenant_id: string
           updated_at?: string
         }
@@ -4744,6 +5640,8 @@ export type Database = {
           default_currency_id?: string | null
           id?: string
           pricing_tiers?: Json | null
+          rounding_increment?: number
+          rounding_mode?: string
           tenant_id?: string
           updated_at?: string
         }
@@ -4757,6 +5655,50 @@ export type Database = {
           },
         ]
       }
+      tenant_tax_rates: {
+        Row: {
+          active: boolean
+          created_at: string
+          id: string
+          is_default: boolean
+          jurisdiction: string | null
+          name: string
+          rate: number
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jurisdiction?: string | null
+          name: string
+          rate?: number
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jurisdiction?: string | null
+          name?: string
+          rate?: number
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tenant_tax_rates_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tenants: {
         Row: {
           active: boolean
@@ -4773,6 +5715,7 @@ export type Database = {
           default_solution_category_id: string | null
           domain: string | null
           id: string
+          logo_url: string | null
           name: string
           settings: Json | null
           slug: string
@@ -4794,6 +5737,7 @@ export type Database = {
           default_solution_category_id?: string | null
           domain?: string | null
           id?: string
+          logo_url?: string | null
           name: string
           settings?: Json | null
           slug: string
@@ -4815,6 +5759,7 @@ export type Database = {
           default_solution_category_id?: string | null
           domain?: string | null
           id?: string
+          logo_url?: string | null
           name?: string
           settings?: Json | null
           slug?: string
@@ -5830,6 +6775,20 @@ export type Database = {
       }
     }
     Views: {
+      lead_funnel_entries: {
+        Row: {
+          created_at: string | null
+          entity_id: string | null
+          entity_type: string | null
+          is_lead: boolean | null
+          name: string | null
+          quality_id: string | null
+          source_id: string | null
+          stage_id: string | null
+          tenant_id: string | null
+        }
+        Relationships: []
+      }
       site_history: {
         Row: {
           amount: number | null
@@ -5846,6 +6805,14 @@ export type Database = {
       }
     }
     Functions: {
+      allocate_payment_receipt: {
+        Args: { _receipt_id: string }
+        Returns: number
+      }
+      apply_contract_credit: {
+        Args: { _contract_id: string }
+        Returns: number
+      }
       award_points: {
         Args: {
           _action_name: string
@@ -5857,6 +6824,14 @@ export type Database = {
         }
         Returns: undefined
       }
+      calculate_lead_score: {
+        Args: { _entity_type: string; _lead: Json }
+        Returns: number
+      }
+      can_approve_quotes: {
+        Args: { _tenant_id: string }
+        Returns: boolean
+      }
       can_user_assign_to: {
         Args: {
           _assignee_id: string
@@ -5866,6 +6841,27 @@ export type Database = {
         }
         Returns: boolean
       }
+      can_view_report: {
+        Args: { _report_id: string; _user_id: string }
+        Returns: boolean
+      }
+      change_quote_status: {
+        Args: { _quote_id: string; _status: string }
+        Returns: undefined
+      }
+      convert_lead_to_deal: {
+        Args: {
+          _deal: Json
+          _lead_id: string
+          _lead_type: string
+          _payment_terms?: Json
+        }
+        Returns: Json
+      }
+      convert_quote_to_contract: {
+        Args: { _quote_id: string; _version_id?: string }
+        Returns: string
+      }
       convert_quote_to_project: {
         Args: { _project_id: string; _quote_id: string; _version_id?: string }
         Returns: undefined
@@ -5882,6 +6878,10 @@ export type Database = {
         }
         Returns: string
       }
+      decide_quote_approval: {
+        Args: { _approved: boolean; _comment?: string; _request_id: string }
+        Returns: undefined
+      }
       generate_device_identity_hash: {
         Args: {
           device_brand: string
@@ -5928,10 +6928,26 @@ export type Database = {
         }
         Returns: string
       }
+      get_escalation_manager: {
+        Args: { _role_id: string; _tenant_id: string; _user_id: string }
+        Returns: string
+      }
+      get_quote_approval_reasons: {
+        Args: { _quote_version_id: string }
+        Returns: Json
+      }
+      get_report_scope_user_ids: {
+        Args: { _entity_type: string; _tenant_id: string; _user_id: string }
+        Returns: string[]
+      }
       get_user_assignment_scope: {
         Args: { _entity_type: string; _tenant_id: string; _user_id: string }
         Returns: string
       }
+      get_user_branch_ids: {
+        Args: { _tenant_id: string; _user_id: string }
+        Returns: string[]
+      }
       get_user_by_account_id: {
         Args: { _account_id: number }
         Returns: {
@@ -5966,14 +6982,76 @@ export type Database = {
       }
       is_super_admin: { Args: { _user_id: string }; Returns: boolean }
       is_tenant_admin_for: { Args: { _tenant_id: string }; Returns: boolean }
+      lead_quality_for_score: {
+        Args: { _score: number; _tenant_id: string }
+        Returns: string
+      }
+      merge_records: {
+        Args: {
+          _entity_type: string
+          _fields?: Json
+          _merged_id: string
+          _surviving_id: string
+        }
+        Returns: string
+      }
+      open_payment_collection: {
+        Args: {
+          _assigned_to: string
+          _description: string
+          _due_date: string
+          _payment_term_id: string
+          _title: string
+        }
+        Returns: string
+      }
       permanently_delete_entity: {
         Args: { _deleted_item_id: string }
         Returns: undefined
       }
+      recalculate_lead_scores: {
+        Args: { _tenant_id: string }
+        Returns: number
+      }
+      record_payment_receipt: {
+        Args: {
+          _allocations?: Json
+          _amount: number
+          _contract_id: string
+          _notes?: string
+          _received_date?: string
+          _reference?: string
+        }
+        Returns: string
+      }
+      refresh_lead_score: {
+        Args: { _entity_id: string; _entity_type: string }
+        Returns: undefined
+      }
+      repoint_merged_reference: {
+        Args: {
+          _column: string
+          _condition?: string
+          _from: string
+          _merge_id: string
+          _remove_conflicts?: boolean
+          _table: string
+          _to: string
+        }
+        Returns: number
+      }
+      request_quote_approval: {
+        Args: { _comment?: string; _quote_id: string }
+        Returns: string
+      }
       restore_deleted_entity: {
         Args: { _deleted_item_id: string }
         Returns: undefined
       }
+      round_quote_amount: {
+        Args: { _amount: number; _increment: number; _mode: string }
+        Returns: number
+      }
       search_users_universally: {
         Args: { search_term: string; search_type?: string }
         Returns: {
@@ -5985,10 +7063,18 @@ export type Database = {
           last_name: string
         }[]
       }
+      set_payment_receipt_allocations: {
+        Args: { _allocations: Json; _receipt_id: string }
+        Returns: number
+      }
       soft_delete_entity: {
         Args: { _entity_id: string; _table_name: string; _tenant_id: string }
         Returns: undefined
       }
+      undo_record_merge: {
+        Args: { _merge_id: string }
+        Returns: undefined
+      }
       user_can_modify_contract: {
         Args: { _contract_id: string; _user_id: string }
         Returns: boolean
@@ -0,0 +1,193 @@
+/**
+ * Accounts receivable aging
+ *
+ * The unpaid part of contract installments, in the tenant currency, bucketed by how many days past due they are.
+ * Installments that are not due yet count as current. Rows can be summarised per customer, company or contract;
+ * the collections queue is the overdue part, oldest first.
+ */
+
+import { installmentAmount } from '@/lib/cash-flow-forecast';
+import { ConversionRateTable, resolveConversionRate, roundMoney } from '@/lib/quote-totals';
+
+export type AgingBucket = 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+export const AGING_BUCKETS: Array<{ value: AgingBucket; label: string }> = [
+  { value: 'current', label: 'Current' },
+  { value: 'days_1_30', label: '1–30 days' },
+  { value: 'days_31_60', label: '31–60 days' },
+  { value: 'days_61_90', label: '61–90 days' },
+  { value: 'days_90_plus', label: '90+ days' },
+];
+
+export type AgingGroupBy = 'customer' | 'company' | 'contract';
+
+export const AGING_GROUPS: Array<{ value: AgingGroupBy; label: string }> = [
+  { value: 'customer', label: 'Customer' },
+  { value: 'company', label: 'Company' },
+  { value: 'contract', label: 'Contract' },
+];
+
+const CANCELLED_CONTRACT_STATUSES = ['cancelled', 'terminated'];
+
+export interface ReceivableInput {
+  id: string;
+  contract_id: string;
+  installment_number: number;
+  name: string | null;
+  amount_type: string;
+  amount_value: number;
+  calculated_amount: number | null;
+  received_amount: number | null;
+  payment_status: string | null;
+  due_date: string | null;
+  contracts: {
+    name: string;
+    status: string | null;
+    value: number | null;
+    currency_id: string | null;
+    assigned_to: string | null;
+    customer_id: string | null;
+    company_id: string | null;
+    customers: { name: string; currency_id: string | null } | null;
+    companies: { name: string } | null;
+  } | null;
+}
+
+export interface Receivable {
+  id: string;
+  contractId: string;
+  contractName: string;
+  customerId: string | null;
+  customerName: string;
+  companyId: string | null;
+  companyName: string;
+  installmentLabel: string;
+  assignedTo: string | null;
+  dueDate: string | null;
+  /** 0 when not due yet */
+  daysOverdue: number;
+  bucket: AgingBucket;
+  /** Unpaid amount in the tenant currency */
+  outstanding: number;
+  /** The contract's currency had no conversion rate; the amount was kept unconverted */
+  missingRate: boolean;
+}
+
+export interface AgingRow {
+  key: string;
+  label: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  overdue: number;
+  count: number;
+  oldestDaysOverdue: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function agingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return 'current';
+  if (daysOverdue <= 30) return 'days_1_30';
+  if (daysOverdue <= 60) return 'days_31_60';
+  if (daysOverdue <= 90) return 'days_61_90';
+  return 'days_90_plus';
+}
+
+const daysPastDue = (dueDate: string | null, today: Date) => {
+  if (!dueDate) return 0;
+  const due = new Date(`${dueDate.slice(0, 10)}T00:00:00`);
+  const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.max(Math.round((start.getTime() - due.getTime()) / DAY_MS), 0);
+};
+
+export function buildReceivables(
+  terms: ReceivableInput[],
+  { rates, currencyId, today = new Date() }: { rates: ConversionRateTable; currencyId: string | null | undefined; today?: Date }
+): { receivables: Receivable[]; missingRateCurrencies: string[] } {
+  const missingRateCurrencies = new Set<string>();
+  const receivables: Receivable[] = [];
+
+  for (const term of terms) {
+    const contract = term.contracts;
+    if (!contract || term.payment_status === 'paid') continue;
+    if (CANCELLED_CONTRACT_STATUSES.includes(String(contract.status || '').toLowerCase())) continue;
+
+    const unpaid = installmentAmount(term, contract.value) - Number(term.received_amount || 0);
+    if (unpaid <= 0) continue;
+
+    const fromCurrencyId = contract.currency_id ?? contract.customers?.currency_id ?? null;
+    const rate = resolveConversionRate(rates, fromCurrencyId, currencyId);
+    if (rate === null && fromCurrencyId) missingRateCurrencies.add(fromCurrencyId);
+
+    const daysOverdue = daysPastDue(term.due_date, today);
+    receivables.push({
+      id: term.id,
+      contractId: term.contract_id,
+      contractName: contract.name,
+      customerId: contract.customer_id,
+      customerName: contract.customers?.name || '',
+      companyId: contract.company_id,
+      companyName: contract.companies?.name || '',
+      installmentLabel: term.name || `Instalment ${term.installment_number}`,
+      assignedTo: contract.assigned_to,
+      dueDate: term.due_date,
+      daysOverdue,
+      bucket: agingBucket(daysOverdue),
+      outstanding: roundMoney(unpaid * (rate ?? 1)),
+      missingRate: rate === null,
+    });
+  }
+
+  return { receivables, missingRateCurrencies: [...missingRateCurrencies] };
+}
+
+const groupKey = (receivable: Receivable, groupBy: AgingGroupBy): { key: string; label: string } => {
+  switch (groupBy) {
+    case 'company':
+      return { key: receivable.companyId || 'none', label: receivable.companyName || 'No company' };
+    case 'contract':
+      return { key: receivable.contractId, label: receivable.contractName };
+    default:
+      return { key: receivable.customerId || 'none', label: receivable.customerName || 'No customer' };
+  }
+};
+
+const emptyRow = (key: string, label: string): AgingRow => ({
+  key,
+  label,
+  buckets: { current: 0, days_1_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 },
+  total: 0,
+  overdue: 0,
+  count: 0,
+  oldestDaysOverdue: 0,
+});
+
+const addToRow = (row: AgingRow, receivable: Receivable) => {
+  row.buckets[receivable.bucket] = roundMoney(row.buckets[receivable.bucket] + receivable.outstanding);
+  row.total = roundMoney(row.total + receivable.outstanding);
+  if (receivable.daysOverdue > 0) row.overdue = roundMoney(row.overdue + receivable.outstanding);
+  row.count++;
+  row.oldestDaysOverdue = Math.max(row.oldestDaysOverdue, receivable.daysOverdue);
+};
+
+/** Aging rows per customer, company or contract, most overdue first, with a totals row */
+export function summarizeAging(receivables: Receivable[], groupBy: AgingGroupBy): { rows: AgingRow[]; totals: AgingRow } {
+  const rows = new Map<string, AgingRow>();
+  const totals = emptyRow('total', 'Total');
+
+  for (const receivable of receivables) {
+    const { key, label } = groupKey(receivable, groupBy);
+    if (!rows.has(key)) rows.set(key, emptyRow(key, label));
+    addToRow(rows.get(key)!, receivable);
+    addToRow(totals, receivable);
+  }
+
+  return {
+    rows: [...rows.values()].sort((a, b) => b.overdue - a.overdue || b.total - a.total || a.label.localeCompare(b.label)),
+    totals,
+  };
+}
+
+/** Overdue receivables, oldest first */
+export const collectionsQueue = (receivables: Receivable[]) =>
+  receivables.filter(receivable => receivable.daysOverdue > 0).sort((a, b) => b.daysOverdue - a.daysOverdue || b.outstanding - a.outstanding);
@@ -0,0 +1,161 @@
+/**
+ * BOQ grouping
+ *
+ * Project devices are priced floor by floor: each floor (optionally on one of the project's sites) gets its own
+ * group, split into zones, with quantity and price subtotals. Lines without a floor end up in "Unassigned".
+ * Shared by the BOQ editor and the Excel/PDF export so both show the same figures.
+ */
+
+export const UNASSIGNED_FLOOR = 'unassigned';
+
+export interface BOQFloor {
+  id: string;
+  name: string;
+  level: number | null;
+  site_id: string | null;
+}
+
+export interface BOQSite {
+  id: string;
+  name: string;
+}
+
+export interface BOQLine {
+  id: string;
+  floor_id: string | null;
+  zone: string | null;
+  quantity: number;
+  unit_price: number | null;
+  devices: { unit_price: number | null };
+}
+
+export interface BOQZoneGroup<T extends BOQLine> {
+  key: string;
+  zone: string | null;
+  devices: T[];
+  quantity: number;
+  subtotal: number;
+}
+
+export interface BOQFloorGroup<T extends BOQLine> {
+  key: string;
+  floor: BOQFloor | null;
+  site: BOQSite | null;
+  label: string;
+  zones: BOQZoneGroup<T>[];
+  devices: T[];
+  quantity: number;
+  subtotal: number;
+}
+
+export interface BOQSiteSummary {
+  key: string;
+  label: string;
+  floors: number;
+  quantity: number;
+  subtotal: number;
+}
+
+export const getEffectivePrice = (line: BOQLine): number => line.unit_price ?? line.devices.unit_price ?? 0;
+
+export const getLineTotal = (line: BOQLine): number => getEffectivePrice(line) * line.quantity;
+
+const sumQuantity = (lines: BOQLine[]) => lines.reduce((sum, d) => sum + d.quantity, 0);
+
+const sumTotal = (lines: BOQLine[]) => lines.reduce((sum, d) => sum + getLineTotal(d), 0);
+
+function groupZones<T extends BOQLine>(lines: T[]): BOQZoneGroup<T>[] {
+  const zones = new Map<string, T[]>();
+  lines.forEach((line) => {
+    const zone = line.zone?.trim() || '';
+    zones.set(zone, [...(zones.get(zone) || []), line]);
+  });
+
+  // Named zones alphabetically, lines without a zone first
+  return [...zones.entries()]
+    .sort(([a], [b]) => (a === '' ? -1 : b === '' ? 1 : a.localeCompare(b)))
+    .map(([zone, zoneLines]) => ({
+      key: zone || '-',
+      zone: zone || null,
+      devices: zoneLines,
+      quantity: sumQuantity(zoneLines),
+      subtotal: sumTotal(zoneLines),
+    }));
+}
+
+export const floorLabel = (floor: BOQFloor, site?: BOQSite | null) =>
+  site ? `${site.name} – ${floor.name}` : floor.name;
+
+/**
+ * Groups lines by floor, ordered by site, then level, then name. Floors without devices are kept (the editor
+ * shows them as empty drop targets); the "Unassigned" group is only added when it has lines.
+ */
+export function groupBOQByFloor<T extends BOQLine>(
+  lines: T[],
+  floors: BOQFloor[],
+  sites: BOQSite[] = []
+): BOQFloorGroup<T>[] {
+  const siteById = new Map(sites.map((s) => [s.id, s]));
+  const floorIds = new Set(floors.map((f) => f.id));
+
+  const sortedFloors = [...floors].sort((a, b) => {
+    const siteA = (a.site_id && siteById.get(a.site_id)?.name) || '';
+    const siteB = (b.site_id && siteById.get(b.site_id)?.name) || '';
+    if (siteA !== siteB) return siteA.localeCompare(siteB);
+    if ((a.level ?? 0) !== (b.level ?? 0)) return (a.level ?? 0) - (b.level ?? 0);
+    return a.name.localeCompare(b.name);
+  });
+
+  const groups: BOQFloorGroup<T>[] = sortedFloors.map((floor) => {
+    const site = (floor.site_id && siteById.get(floor.site_id)) || null;
+    const floorLines = lines.filter((line) => line.floor_id === floor.id);
+    return {
+      key: floor.id,
+      floor,
+      site,
+      label: floorLabel(floor, site),
+      zones: groupZones(floorLines),
+      devices: floorLines,
+      quantity: sumQuantity(floorLines),
+      subtotal: sumTotal(floorLines),
+    };
+  });
+
+  const unassigned = lines.filter((line) => !line.floor_id || !floorIds.has(line.floor_id));
+  if (unassigned.length > 0) {
+    groups.push({
+      key: UNASSIGNED_FLOOR,
+      floor: null,
+      site: null,
+      label: 'Unassigned',
+      zones: groupZones(unassigned),
+      devices: unassigned,
+      quantity: sumQuantity(unassigned),
+      subtotal: sumTotal(unassigned),
+    });
+  }
+
+  return groups;
+}
+
+/** Subtotals per site for the export summary. Floors without a site are grouped under "No site". */
+export function summarizeBOQBySite<T extends BOQLine>(groups: BOQFloorGroup<T>[]): BOQSiteSummary[] {
+  const summaries = new Map<string, BOQSiteSummary>();
+  groups.forEach((group) => {
+    const key = group.site?.id || '-';
+    const summary = summaries.get(key) || {
+      key,
+      label: group.site?.name || 'No site',
+      floors: 0,
+      quantity: 0,
+      subtotal: 0,
+    };
+    summaries.set(key, {
+      ...summary,
+      floors: summary.floors + (group.floor ? 1 : 0),
+      quantity: summary.quantity + group.quantity,
+      subtotal: summary.subtotal + group.subtotal,
+    });
+  });
+  return [...summaries.values()];
+}
@@ -0,0 +1,256 @@
+/**
+ * Cash-flow forecast
+ *
+ * Monthly inflows projected from the unpaid part of contract installments, plus the payment terms of open deals
+ * weighted by their win probability (the deal's own probability, falling back to its stage's win percentage).
+ * Amounts are converted to the tenant currency. Three scenarios bracket the outcome:
+ * - best: every open deal closes and overdue installments are collected this month
+ * - expected: deals count at their win probability; overdue installments are collected this month
+ * - worst: only contract installments that are not yet overdue are collected
+ */
+
+import { ConversionRateTable, resolveConversionRate, roundMoney } from '@/lib/quote-totals';
+
+export type ForecastScenario = 'best' | 'expected' | 'worst';
+
+export type ScenarioAmounts = Record<ForecastScenario, number>;
+
+export const FORECAST_SCENARIOS: Array<{ value: ForecastScenario; label: string; description: string }> = [
+  { value: 'best', label: 'Best case', description: 'Every open deal closes; overdue installments are collected this month' },
+  { value: 'expected', label: 'Expected', description: 'Deals weighted by win probability; overdue installments are collected this month' },
+  { value: 'worst', label: 'Worst case', description: 'Only contract installments that are not yet overdue' },
+];
+
+/** Deal statuses that no longer forecast on their own: won deals are counted through their contract */
+const CLOSED_DEAL_STATUSES = ['won', 'lost', 'cancelled'];
+
+const CANCELLED_CONTRACT_STATUSES = ['cancelled', 'terminated'];
+
+export interface ContractInstallmentInput {
+  id: string;
+  contract_id: string;
+  installment_number: number;
+  amount_type: string;
+  amount_value: number;
+  calculated_amount: number | null;
+  received_amount: number | null;
+  payment_status: string | null;
+  due_date: string | null;
+  contracts: {
+    name: string;
+    status: string | null;
+    value: number | null;
+    currency_id: string | null;
+    customers: { name: string; currency_id: string | null } | null;
+  } | null;
+}
+
+export interface DealInstallmentInput {
+  id: string;
+  deal_id: string;
+  installment_number: number;
+  amount_type: string;
+  amount_value: number;
+  calculated_amount: number | null;
+  due_date: string | null;
+  deals: {
+    name: string;
+    value: number | null;
+    status: string | null;
+    probability: number | null;
+    expected_close_date: string | null;
+    currency_id: string | null;
+    customers: { name: string; currency_id: string | null } | null;
+    deal_stages: { win_percentage: number | null } | null;
+    contracts?: Array<{ id: string }> | null;
+  } | null;
+}
+
+export interface ForecastLine {
+  source: 'contract' | 'deal';
+  id: string;
+  /** Contract or deal the installment belongs to */
+  parentId: string;
+  parentName: string;
+  customerName: string;
+  installmentNumber: number;
+  dueDate: string;
+  month: string;
+  overdue: boolean;
+  /** Unpaid amount in the tenant currency, before weighting */
+  amount: number;
+  /** Share of the amount the expected scenario counts: the win probability for deals, 1 for contracts */
+  weight: number;
+  scenarios: ScenarioAmounts;
+  /** The record's currency had no conversion rate; the amount was kept unconverted */
+  missingRate: boolean;
+}
+
+export interface ForecastMonth {
+  month: string;
+  label: string;
+  contracts: ScenarioAmounts;
+  deals: ScenarioAmounts;
+  total: ScenarioAmounts;
+  cumulative: ScenarioAmounts;
+}
+
+export interface CashFlowForecast {
+  months: ForecastMonth[];
+  lines: ForecastLine[];
+  totals: ScenarioAmounts;
+  /** Installments without a due date, which cannot be placed in a month */
+  unscheduledCount: number;
+  /** Currency ids that had no rate to the tenant currency */
+  missingRateCurrencies: string[];
+}
+
+export interface ForecastOptions {
+  rates: ConversionRateTable;
+  /** Tenant currency every amount is converted to */
+  currencyId: string | null | undefined;
+  /** Number of months forecast, starting with the current one */
+  horizonMonths: number;
+  today?: Date;
+}
+
+const emptyAmounts = (): ScenarioAmounts => ({ best: 0, expected: 0, worst: 0 });
+
+const addAmounts = (target: ScenarioAmounts, amounts: ScenarioAmounts) => {
+  target.best = roundMoney(target.best + amounts.best);
+  target.expected = roundMoney(target.expected + amounts.expected);
+  target.worst = roundMoney(target.worst + amounts.worst);
+};
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+export const formatForecastMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00`).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+
+/** The installment amount: calculated when stored, otherwise derived from the fixed amount or percentage */
+export const installmentAmount = (term: { amount_type: string; amount_value: number; calculated_amount: number | null }, total: number | null) => {
+  if (term.calculated_amount !== null && term.calculated_amount !== undefined) return Number(term.calculated_amount);
+  return term.amount_type === 'percentage' ? ((total || 0) * Number(term.amount_value)) / 100 : Number(term.amount_value);
+};
+
+/** Win probability as a 0..1 weight: the deal's own probability, falling back to its stage */
+export const dealWinProbability = (deal: { probability: number | null; deal_stages: { win_percentage: number | null } | null }) => {
+  const percent = deal.probability ?? deal.deal_stages?.win_percentage ?? 0;
+  return Math.min(Math.max(Number(percent) / 100, 0), 1);
+};
+
+export function buildCashFlowForecast(
+  contractTerms: ContractInstallmentInput[],
+  dealTerms: DealInstallmentInput[],
+  { rates, currencyId, horizonMonths, today = new Date() }: ForecastOptions
+): CashFlowForecast {
+  const currentMonth = monthKey(today);
+  const monthKeys = Array.from({ length: horizonMonths }, (_, i) => monthKey(new Date(today.getFullYear(), today.getMonth() + i, 1)));
+  const lastMonth = monthKeys[monthKeys.length - 1];
+  const todayKey = `${currentMonth}-${String(today.getDate()).padStart(2, '0')}`;
+
+  const lines: ForecastLine[] = [];
+  const missingRateCurrencies = new Set<string>();
+  let unscheduledCount = 0;
+
+  const convert = (amount: number, fromCurrencyId: string | null) => {
+    const rate = resolveConversionRate(rates, fromCurrencyId, currencyId);
+    if (rate === null && fromCurrencyId) missingRateCurrencies.add(fromCurrencyId);
+    return { amount: roundMoney(amount * (rate ?? 1)), missingRate: rate === null };
+  };
+
+  // Past-due amounts land in the current month; anything after the horizon is left out
+  const placeInMonth = (dueDate: string) => {
+    const month = dueDate.slice(0, 7);
+    if (month > lastMonth) return null;
+    return { month: month < currentMonth ? currentMonth : month, overdue: dueDate < todayKey };
+  };
+
+  for (const term of contractTerms) {
+    const contract = term.contracts;
+    if (!contract || term.payment_status === 'paid') continue;
+    if (CANCELLED_CONTRACT_STATUSES.includes(String(contract.status || '').toLowerCase())) continue;
+
+    const outstanding = installmentAmount(term, contract.value) - Number(term.received_amount || 0);
+    if (outstanding <= 0) continue;
+    if (!term.due_date) {
+      unscheduledCount++;
+      continue;
+    }
+
+    const placement = placeInMonth(term.due_date);
+    if (!placement) continue;
+
+    const { amount, missingRate } = convert(outstanding, contract.currency_id ?? contract.customers?.currency_id ?? null);
+    lines.push({
+      source: 'contract',
+      id: term.id,
+      parentId: term.contract_id,
+      parentName: contract.name,
+      customerName: contract.customers?.name || '',
+      installmentNumber: term.installment_number,
+      dueDate: term.due_date,
+      ...placement,
+      amount,
+      weight: 1,
+      scenarios: { best: amount, expected: amount, worst: placement.overdue ? 0 : amount },
+      missingRate,
+    });
+  }
+
+  for (const term of dealTerms) {
+    const deal = term.deals;
+    if (!deal || CLOSED_DEAL_STATUSES.includes(String(deal.status || '').toLowerCase()) || deal.contracts?.length) continue;
+
+    const dueDate = term.due_date || deal.expected_close_date;
+    if (!dueDate) {
+      unscheduledCount++;
+      continue;
+    }
+
+    const placement = placeInMonth(dueDate);
+    if (!placement) continue;
+
+    const { amount, missingRate } = convert(
+      installmentAmount(term, deal.value),
+      deal.currency_id ?? deal.customers?.currency_id ?? null
+    );
+    if (amount <= 0) continue;
+
+    const weight = dealWinProbability(deal);
+    lines.push({
+      source: 'deal',
+      id: term.id,
+      parentId: term.deal_id,
+      parentName: deal.name,
+      customerName: deal.customers?.name || '',
+      installmentNumber: term.installment_number,
+      dueDate,
+      ...placement,
+      amount,
+      weight,
+      scenarios: { best: amount, expected: roundMoney(amount * weight), worst: 0 },
+      missingRate,
+    });
+  }
+
+  lines.sort((a, b) => a.dueDate.localeCompare(b.dueDate) || a.parentName.localeCompare(b.parentName));
+
+  const totals = emptyAmounts();
+  const months = monthKeys.map((month): ForecastMonth => {
+    const contracts = emptyAmounts();
+    const deals = emptyAmounts();
+    lines
+      .filter(line => line.month === month)
+      .forEach(line => addAmounts(line.source === 'contract' ? contracts : deals, line.scenarios));
+
+    const total = emptyAmounts();
+    addAmounts(total, contracts);
+    addAmounts(total, deals);
+    addAmounts(totals, total);
+
+    return { month, label: formatForecastMonth(month), contracts, deals, total, cumulative: { ...totals } };
+  });
+
+  return { months, lines, totals, unscheduledCount, missingRateCurrencies: [...missingRateCurrencies] };
+}
@@ -0,0 +1,50 @@
+/** Chart snapshots
+ *
+ * Turns the Recharts SVG inside a container into a PNG data URL, so PDF exports show the chart as it appears in the
+ * report viewer. Colours come from CSS variables, so the computed styles are inlined before the SVG is rasterized.
+ */
+
+const INLINED_STYLES = ['fill', 'stroke', 'stroke-width', 'stroke-dasharray', 'opacity', 'font-size', 'font-family', 'font-weight'];
+
+function inlineStyles(source: Element, target: Element) {
+  const computed = window.getComputedStyle(source);
+  const style = INLINED_STYLES.map(property => `${property}:${computed.getPropertyValue(property)}`).join(';');
+  target.setAttribute('style', `${target.getAttribute('style') || ''};${style}`);
+  Array.from(source.children).forEach((child, index) => {
+    if (target.children[index]) inlineStyles(child, target.children[index]);
+  });
+}
+
+/** PNG data URL of the first chart in the container, or null when it shows no chart */
+export async function captureChartImage(container: HTMLElement | null, scale = 2): Promise<string | null> {
+  const svg = container?.querySelector<SVGSVGElement>('svg.recharts-surface');
+  if (!svg) return null;
+
+  const { width, height } = svg.getBoundingClientRect();
+  if (!width || !height) return null;
+
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+  inlineStyles(svg, clone);
+
+  const image = new Image();
+  image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(clone))}`;
+  try {
+    await image.decode();
+  } catch {
+    return null;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width * scale;
+  canvas.height = height * scale;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.scale(scale, scale);
+  context.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL('image/png');
+}
@@ -1,5 +1,6 @@
 import { validateCompany, normalizeCompanyData, CompanyFormData, CompanyValidationData } from './company-validation';
 import { supabase } from '@/integrations/supabase/client';
+import { extractDomain } from './record-dedupe';
 
 export interface ImportCompany {
   name: string;
@@ -355,16 +356,3 @@ function getValueByIndex(values: string[], index: number): string {
   if (index === -1 || index >= values.length) return '';
   return values[index]?.trim() || '';
 }
-
-function extractDomain(url: string): string | null {
-  try {
-    // Handle cases where URL doesn't have protocol
-    const urlWithProtocol = url.startsWith('http') ? url : `https://${url}`;
-    const domain = new URL(urlWithProtocol).hostname;
-    return domain.replace('www.', '');
-  } catch {
-    // If URL parsing fails, try to extract domain with regex
-    const match = url.match(/(?:https?:\/\/)?(?:www\.)?([^\/\s]+)/);
-    return match ? match[1] : null;
-  }
-}
\ No newline at end of file
@@ -0,0 +1,82 @@
+/** Deal pipeline board
+ *
+ * Groups deals into one column per active deal stage, in stage order, with the count, total and weighted value of
+ * each column. Values are converted to the tenant currency; deals whose currency has no conversion rate are counted
+ * but left out of the totals. Deals without a stage, or on an inactive one, are gathered in a leading column. */
+
+import { ConversionRateTable, resolveConversionRate, roundMoney } from '@/lib/quote-totals';
+import { dealWinProbability } from '@/lib/cash-flow-forecast';
+
+export interface PipelineStage {
+  id: string;
+  name: string;
+  sort_order: number;
+  win_percentage: number;
+}
+
+export interface PipelineDeal {
+  id: string;
+  stage_id?: string | null;
+  value?: number | null;
+  currency_id?: string | null;
+  probability?: number | null;
+  deal_stages: { win_percentage: number | null } | null;
+}
+
+export interface PipelineColumn<T extends PipelineDeal> {
+  /** null for the column of deals without an active stage */
+  stage: PipelineStage | null;
+  deals: T[];
+  count: number;
+  total: number;
+  weighted: number;
+  /** Deals left out of the totals for lack of a conversion rate */
+  unconverted: number;
+}
+
+interface PipelineOptions {
+  rates: ConversionRateTable;
+  currencyId: string | null;
+}
+
+export function buildPipelineColumns<T extends PipelineDeal>(
+  stages: PipelineStage[],
+  deals: T[],
+  { rates, currencyId }: PipelineOptions
+): PipelineColumn<T>[] {
+  const sortedStages = [...stages].sort((a, b) => a.sort_order - b.sort_order);
+  const columns = new Map<string | null, PipelineColumn<T>>(
+    sortedStages.map(stage => [stage.id, { stage, deals: [], count: 0, total: 0, weighted: 0, unconverted: 0 }])
+  );
+  const unstaged: PipelineColumn<T> = { stage: null, deals: [], count: 0, total: 0, weighted: 0, unconverted: 0 };
+
+  for (const deal of deals) {
+    const column = (deal.stage_id && columns.get(deal.stage_id)) || unstaged;
+    column.deals.push(deal);
+    column.count++;
+
+    const value = Number(deal.value) || 0;
+    if (value === 0) continue;
+
+    const rate = resolveConversionRate(rates, deal.currency_id, currencyId);
+    if (rate === null) {
+      column.unconverted++;
+      continue;
+    }
+    column.total += value * rate;
+    column.weighted += value * rate * dealWinProbability({
+      probability: deal.probability ?? null,
+      deal_stages: deal.deal_stages,
+    });
+  }
+
+  const result = [...columns.values()];
+  if (unstaged.count > 0) {
+    result.unshift(unstaged);
+  }
+  for (const column of result) {
+    column.total = roundMoney(column.total);
+    column.weighted = roundMoney(column.weighted);
+  }
+  return result;
+}
@@ -271,4 +271,133 @@ export function generateDeviceImportTemplate(
   XLSX.utils.book_append_sheet(workbook, worksheet, 'Devices');
   
   return XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-}
\ No newline at end of file
+}
+
+// BOQ import: consultants' bills of quantities, mapped onto project devices
+
+export type BOQImportField = 'description' | 'quantity' | 'unit' | 'brand' | 'model' | 'sku';
+
+export const BOQ_IMPORT_FIELDS: Array<{ field: BOQImportField; label: string; required: boolean }> = [
+  { field: 'description', label: 'Description', required: true },
+  { field: 'quantity', label: 'Quantity', required: true },
+  { field: 'unit', label: 'Unit', required: false },
+  { field: 'brand', label: 'Brand', required: false },
+  { field: 'model', label: 'Model', required: false },
+  { field: 'sku', label: 'SKU / Part No.', required: false },
+];
+
+export type BOQColumnMapping = Partial<Record<BOQImportField, number>>;
+
+export interface BOQSpreadsheet {
+  headers: string[];
+  rows: unknown[][];
+  /** 1-based spreadsheet row of the header, so row numbers can be reported as the user sees them */
+  headerRowNumber: number;
+}
+
+export interface BOQImportRow {
+  rowNumber: number;
+  description: string;
+  quantity: number;
+  unit?: string;
+  brand?: string;
+  model?: string;
+  sku?: string;
+}
+
+const BOQ_COLUMN_ALIASES: Record<BOQImportField, string[]> = {
+  description: ['description', 'item description', 'desc', 'item', 'particulars', 'name', 'product'],
+  quantity: ['qty', 'quantity', 'qnty', 'no', 'nos', 'count'],
+  unit: ['unit', 'uom', 'unit of measure', 'units'],
+  brand: ['brand', 'manufacturer', 'make', 'vendor'],
+  model: ['model', 'model no', 'model number', 'type'],
+  sku: ['sku', 'part no', 'part number', 'code', 'item code', 'ref', 'reference'],
+};
+
+const normalizeHeader = (header: unknown) =>
+  String(header ?? '').toLowerCase().replace(/[^a-z0-9 ]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const matchesAlias = (header: string) =>
+  Object.values(BOQ_COLUMN_ALIASES).some(aliases => aliases.includes(header));
+
+/**
+ * Reads the first sheet of an XLSX or CSV file. BOQs often start with title rows, so the header is the first of the
+ * top rows that contains at least two known column names (falling back to the first non-empty row).
+ */
+export const readBOQSpreadsheet = async (file: File): Promise<BOQSpreadsheet> => {
+  const arrayBuffer = await file.arrayBuffer();
+  const workbook = XLSX.read(arrayBuffer, { type: 'array' });
+  const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+  // Blank rows are kept so that row numbers match the ones shown in the spreadsheet
+  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1, blankrows: true }) as unknown[][];
+  // The sheet's used range may start below the first row
+  const firstRowIndex = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.r : 0;
+
+  const candidates = jsonData.slice(0, 20);
+  let headerIndex = candidates.findIndex(row =>
+    (row || []).filter(cell => matchesAlias(normalizeHeader(cell))).length >= 2
+  );
+  if (headerIndex === -1) {
+    headerIndex = Math.max(0, jsonData.findIndex(row => (row || []).some(cell => String(cell ?? '').trim() !== '')));
+  }
+
+  const headerRow = jsonData[headerIndex] || [];
+  const width = Math.max(headerRow.length, ...jsonData.map(row => row?.length || 0));
+  const headers = Array.from({ length: width }, (_, i) => String(headerRow[i] ?? '').trim() || `Column ${i + 1}`);
+
+  return {
+    headers,
+    rows: jsonData.slice(headerIndex + 1),
+    headerRowNumber: firstRowIndex + headerIndex + 1,
+  };
+};
+
+export function guessBOQColumnMapping(headers: string[]): BOQColumnMapping {
+  const mapping: BOQColumnMapping = {};
+  const normalized = headers.map(normalizeHeader);
+
+  (Object.keys(BOQ_COLUMN_ALIASES) as BOQImportField[]).forEach(field => {
+    // Aliases are ordered by preference
+    for (const alias of BOQ_COLUMN_ALIASES[field]) {
+      const index = normalized.findIndex((h, i) => h === alias && !Object.values(mapping).includes(i));
+      if (index !== -1) {
+        mapping[field] = index;
+        return;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Turns spreadsheet rows into BOQ lines. Rows without a positive quantity are section headings or notes and are
+ * skipped.
+ */
+export function mapBOQImportRows(spreadsheet: BOQSpreadsheet, mapping: BOQColumnMapping): BOQImportRow[] {
+  const cell = (row: unknown[], field: BOQImportField) => {
+    const index = mapping[field];
+    if (index === undefined) return undefined;
+    const value = String(row[index] ?? '').trim();
+    return value || undefined;
+  };
+
+  return spreadsheet.rows
+    .map((row, index) => {
+      const rawQuantity = row[mapping.quantity ?? -1];
+      const quantity = typeof rawQuantity === 'number'
+        ? rawQuantity
+        : parseFloat(String(rawQuantity ?? '').replace(/,/g, ''));
+
+      return {
+        rowNumber: spreadsheet.headerRowNumber + index + 1,
+        description: cell(row, 'description') || [cell(row, 'brand'), cell(row, 'model')].filter(Boolean).join(' '),
+        quantity,
+        unit: cell(row, 'unit'),
+        brand: cell(row, 'brand'),
+        model: cell(row, 'model'),
+        sku: cell(row, 'sku'),
+      };
+    })
+    .filter(row => row.description && !isNaN(row.quantity) && row.quantity > 0);
+}
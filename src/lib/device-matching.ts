@@ -0,0 +1,142 @@
+/**
+ * Fuzzy matching of free-text BOQ lines to catalog devices
+ *
+ * Scores are 0..1. A SKU or exact model number is decisive; otherwise the model is compared by edit distance and
+ * the description by shared words. A brand that disagrees with the line's brand weakens any match.
+ */
+
+export const DEVICE_MATCH_THRESHOLD = 0.75;
+export const DEVICE_SUGGEST_THRESHOLD = 0.45;
+
+export interface MatchableDevice {
+  id: string;
+  name: string;
+  brand: string | null;
+  model: string | null;
+  template_properties?: unknown;
+}
+
+export interface DeviceMatchQuery {
+  description?: string;
+  brand?: string;
+  model?: string;
+  sku?: string;
+}
+
+export type DeviceMatchReason = 'sku' | 'model' | 'brand' | 'description';
+
+export interface DeviceMatch<T extends MatchableDevice> {
+  device: T;
+  score: number;
+  reasons: DeviceMatchReason[];
+}
+
+/** Lowercase alphanumerics only, so "DS-2CD 2143G2" and "ds2cd2143g2" compare equal */
+export const normalizeCode = (value: string | null | undefined) =>
+  (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const tokenize = (value: string | null | undefined) =>
+  new Set((value || '').toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length >= 2));
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for identical strings, 0 for nothing in common */
+export function codeSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const x = normalizeCode(a);
+  const y = normalizeCode(b);
+  if (!x || !y) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+function tokenOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => {
+    if (b.has(token)) shared++;
+  });
+  return (2 * shared) / (a.size + b.size);
+}
+
+const deviceSku = (device: MatchableDevice): string | undefined => {
+  const properties = device.template_properties as Record<string, unknown> | null | undefined;
+  const sku = properties && typeof properties === 'object' ? properties.sku : undefined;
+  return typeof sku === 'string' ? sku : undefined;
+};
+
+export function scoreDeviceMatch<T extends MatchableDevice>(query: DeviceMatchQuery, device: T): DeviceMatch<T> {
+  const reasons: DeviceMatchReason[] = [];
+  let score = 0;
+
+  const sku = normalizeCode(query.sku);
+  if (sku && sku === normalizeCode(deviceSku(device))) {
+    return { device, score: 1, reasons: ['sku'] };
+  }
+
+  const model = normalizeCode(device.model);
+  const description = normalizeCode(query.description);
+  if (model) {
+    const similarity = query.model ? codeSimilarity(query.model, device.model) : 0;
+    if (similarity === 1) {
+      score = 0.9;
+    } else if (similarity >= 0.75) {
+      // Near-miss model numbers are often a different variant, so they stay below the auto-match threshold
+      score = 0.6 * similarity;
+    } else if (model.length >= 4 && description.includes(model)) {
+      // Model number quoted inside the description text
+      score = 0.8;
+    }
+    if (score > 0) reasons.push('model');
+  }
+
+  const words = tokenize(query.description);
+  const deviceWords = tokenize([device.name, device.brand, device.model].filter(Boolean).join(' '));
+  const descriptionScore = 0.6 * tokenOverlap(words, deviceWords);
+  if (descriptionScore > score) {
+    score = descriptionScore;
+    reasons.push('description');
+  }
+
+  const brand = normalizeCode(query.brand);
+  const deviceBrand = normalizeCode(device.brand);
+  if (brand && deviceBrand) {
+    if (brand === deviceBrand || brand.includes(deviceBrand) || deviceBrand.includes(brand)) {
+      score = Math.min(1, score + 0.1);
+      reasons.push('brand');
+    } else {
+      score *= 0.6;
+    }
+  }
+
+  return { device, score: Math.round(score * 100) / 100, reasons };
+}
+
+/** Best candidates for a line, highest score first. Candidates below the suggestion threshold are dropped. */
+export function findDeviceMatches<T extends MatchableDevice>(
+  query: DeviceMatchQuery,
+  devices: T[],
+  limit = 3
+): DeviceMatch<T>[] {
+  return devices
+    .map(device => scoreDeviceMatch(query, device))
+    .filter(match => match.score >= DEVICE_SUGGEST_THRESHOLD)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
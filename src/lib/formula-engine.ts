@@ -1,6 +1,16 @@
 /**
  * Enhanced formula engine for calculated properties with context-aware resolution
- * Supports basic math operations and property references with different contexts
+ *
+ * Formulas are tokenized, parsed into an AST and evaluated without `eval`/`new Function`.
+ * The expression language supports:
+ * - Numbers, "strings" / 'strings', TRUE and FALSE
+ * - Property references: {property_name}, {property_name.code}, {property_name.label_en}, {property_name.label_ar}
+ *   and bare identifiers such as cost_price
+ * - Arithmetic (+ - * / % ^), string concatenation (&) and comparisons (= == != <> < <= > >=)
+ * - Functions: IF, AND, OR, NOT, ROUND, CEIL, FLOOR, MIN, MAX, ABS, CONCAT, SWITCH, ISBLANK
+ *
+ * Text formulas (SKU and descriptions) keep the template syntax "{brand.code}-{wattage}" and switch to the
+ * expression language when they start with "=".
  */
 
 export interface PropertyValue {
@@ -11,49 +21,770 @@ export interface PropertyValue {
 
 export type FormulaContext = 'sku' | 'description_en' | 'description_ar' | 'calculation';
 
-export class FormulaEngine {
-  /**
-   * Evaluate a formula with property substitutions for numeric calculations
-   * @param formula - Formula string with {property_name} references
-   * @param properties - Array of property values to substitute
-   * @returns Calculated result or 0 if error
-   */
-  static evaluate(formula: string, properties: PropertyValue[]): number {
-    try {
-      if (!formula || typeof formula !== 'string') {
-        return 0;
+export type FormulaValue = number | string | boolean | null;
+
+export type FormulaErrorCode =
+  | 'syntax'
+  | 'unknown_reference'
+  | 'unknown_function'
+  | 'argument_count'
+  | 'type_mismatch'
+  | 'division_by_zero'
+  | 'circular_reference'
+  | 'invalid_result';
+
+/**
+ * Error raised while parsing or evaluating a formula.
+ * `position` is the zero-based character offset in the original formula.
+ */
+export class FormulaError extends Error {
+  code: FormulaErrorCode;
+  position: number;
+
+  constructor(code: FormulaErrorCode, message: string, position: number) {
+    super(message);
+    this.name = 'FormulaError';
+    this.code = code;
+    this.position = position;
+  }
+
+  /** Message including a 1-based column, suitable for display next to the input */
+  get displayMessage(): string {
+    return `${this.message} (at position ${this.position + 1})`;
+  }
+}
+
+export type FormulaResult =
+  | { ok: true; value: FormulaValue }
+  | { ok: false; error: FormulaError };
+
+/** A template property that may be calculated from other properties */
+export interface CalculatedPropertyDefinition {
+  name: string;
+  formula?: string;
+}
+
+export interface DependencyGraph {
+  /** Calculated property name -> names of the properties its formula references */
+  dependencies: Map<string, string[]>;
+  /** Calculated properties in evaluation order (dependencies first); excludes properties on a cycle */
+  order: string[];
+  /** First circular reference found, as a closed path such as ['a', 'b', 'a'] */
+  cycle: string[] | null;
+}
+
+export interface PropertyEvaluation {
+  results: Record<string, FormulaResult>;
+  cycle: string[] | null;
+}
+
+export type ReferenceAttribute = 'code' | 'label_en' | 'label_ar';
+
+export type FormulaNode =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'boolean'; value: boolean; position: number }
+  | { type: 'reference'; name: string; attribute?: ReferenceAttribute; position: number }
+  | { type: 'unary'; operator: '-' | '+'; operand: FormulaNode; position: number }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '&' | '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+type TokenType = 'number' | 'string' | 'reference' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const REFERENCE_ATTRIBUTES: ReferenceAttribute[] = ['code', 'label_en', 'label_ar'];
+
+const COMPARISON_OPERATORS = ['=', '!=', '<', '<=', '>', '>='];
+
+/**
+ * Split a formula into tokens, normalizing operator aliases (== to =, <> to !=)
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      const match = source.slice(i).match(/^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) {
+        throw new FormulaError('syntax', `Unexpected character '${char}'`, i);
       }
+      tokens.push({ type: 'number', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
 
-      // Replace property references {property_name} with actual values
-      let processedFormula = formula;
-      properties.forEach(prop => {
-        const regex = new RegExp(`\\{${prop.name}\\}`, 'g');
-        const numValue = this.toNumber(prop.value);
-        processedFormula = processedFormula.replace(regex, numValue.toString());
-      });
+    if (char === '"' || char === "'") {
+      const start = i;
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          i++;
+        }
+        value += source[i];
+        i++;
+      }
+      if (i >= source.length) {
+        throw new FormulaError('syntax', 'Unterminated string', start);
+      }
+      i++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+
+    if (char === '{') {
+      const end = source.indexOf('}', i);
+      if (end === -1) {
+        throw new FormulaError('syntax', "Missing closing '}' for property reference", i);
+      }
+      const inner = source.slice(i + 1, end).trim();
+      if (!inner) {
+        throw new FormulaError('syntax', 'Empty property reference', i);
+      }
+      tokens.push({ type: 'reference', value: inner, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    if (/[A-Za-z_؀-ۿ]/.test(char)) {
+      const match = source.slice(i).match(/^[A-Za-z_؀-ۿ][\w؀-ۿ]*(\.[A-Za-z_]\w*)?/);
+      tokens.push({ type: 'identifier', value: match[0], position: i });
+      i += match[0].length;
+      continue;
+    }
+
+    const twoChars = source.slice(i, i + 2);
+    if (['==', '!=', '<>', '<=', '>='].includes(twoChars)) {
+      const normalized = twoChars === '==' ? '=' : twoChars === '<>' ? '!=' : twoChars;
+      tokens.push({ type: 'operator', value: normalized, position: i });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/%^&=<>'.includes(char)) {
+      tokens.push({ type: 'operator', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '(') {
+      tokens.push({ type: 'lparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ')') {
+      tokens.push({ type: 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === ',' || char === ';') {
+      tokens.push({ type: 'comma', value: ',', position: i });
+      i++;
+      continue;
+    }
+
+    throw new FormulaError('syntax', `Unexpected character '${char}'`, i);
+  }
+
+  tokens.push({ type: 'eof', value: '', position: source.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser. Precedence from lowest to highest:
+ * comparison, concatenation (&), additive, multiplicative, power, unary, primary.
+ */
+class FormulaParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): FormulaNode {
+    if (this.peek().type === 'eof') {
+      throw new FormulaError('syntax', 'Formula is empty', 0);
+    }
+    const node = this.parseComparison();
+    const next = this.peek();
+    if (next.type !== 'eof') {
+      throw new FormulaError('syntax', `Unexpected '${next.value}'`, next.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private matchOperator(operators: string[]): Token | null {
+    const token = this.peek();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      this.index++;
+      return token;
+    }
+    return null;
+  }
+
+  private parseComparison(): FormulaNode {
+    let left = this.parseConcat();
+    let operator: Token | null;
+    while ((operator = this.matchOperator(COMPARISON_OPERATORS))) {
+      const right = this.parseConcat();
+      left = { type: 'binary', operator: operator.value as BinaryOperator, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseConcat(): FormulaNode {
+    let left = this.parseAdditive();
+    let operator: Token | null;
+    while ((operator = this.matchOperator(['&']))) {
+      const right = this.parseAdditive();
+      left = { type: 'binary', operator: '&', left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseAdditive(): FormulaNode {
+    let left = this.parseMultiplicative();
+    let operator: Token | null;
+    while ((operator = this.matchOperator(['+', '-']))) {
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator: operator.value as BinaryOperator, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): FormulaNode {
+    let left = this.parsePower();
+    let operator: Token | null;
+    while ((operator = this.matchOperator(['*', '/', '%']))) {
+      const right = this.parsePower();
+      left = { type: 'binary', operator: operator.value as BinaryOperator, left, right, position: operator.position };
+    }
+    return left;
+  }
+
+  private parsePower(): FormulaNode {
+    const base = this.parseUnary();
+    const operator = this.matchOperator(['^']);
+    if (operator) {
+      // Right associative: 2^3^2 = 2^(3^2)
+      const exponent = this.parsePower();
+      return { type: 'binary', operator: '^', left: base, right: exponent, position: operator.position };
+    }
+    return base;
+  }
+
+  private parseUnary(): FormulaNode {
+    const operator = this.matchOperator(['-', '+']);
+    if (operator) {
+      const operand = this.parseUnary();
+      return { type: 'unary', operator: operator.value as '-' | '+', operand, position: operator.position };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FormulaNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: parseFloat(token.value), position: token.position };
+
+      case 'string':
+        return { type: 'string', value: token.value, position: token.position };
+
+      case 'reference':
+        return parseReference(token.value, token.position);
+
+      case 'identifier': {
+        const upper = token.value.toUpperCase();
+        if (this.peek().type === 'lparen') {
+          return this.parseCall(token);
+        }
+        if (upper === 'TRUE' || upper === 'FALSE') {
+          return { type: 'boolean', value: upper === 'TRUE', position: token.position };
+        }
+        return parseReference(token.value, token.position);
+      }
+
+      case 'lparen': {
+        const inner = this.parseComparison();
+        const closing = this.next();
+        if (closing.type !== 'rparen') {
+          throw new FormulaError('syntax', "Missing closing ')'", closing.position);
+        }
+        return inner;
+      }
 
-      // Check if all property references were replaced
-      if (processedFormula.includes('{') && processedFormula.includes('}')) {
-        // Some property references weren't found
-        return 0;
+      case 'eof':
+        throw new FormulaError('syntax', 'Unexpected end of formula', token.position);
+
+      default:
+        throw new FormulaError('syntax', `Unexpected '${token.value}'`, token.position);
+    }
+  }
+
+  private parseCall(nameToken: Token): FormulaNode {
+    this.next(); // consume '('
+    const args: FormulaNode[] = [];
+
+    if (this.peek().type !== 'rparen') {
+      for (;;) {
+        args.push(this.parseComparison());
+        if (this.peek().type === 'comma') {
+          this.next();
+          continue;
+        }
+        break;
       }
+    }
 
-      // Validate that the formula only contains allowed characters
-      if (!this.isValidFormula(processedFormula)) {
-        return 0;
+    const closing = this.next();
+    if (closing.type !== 'rparen') {
+      throw new FormulaError('syntax', `Missing closing ')' for ${nameToken.value.toUpperCase()}`, closing.position);
+    }
+
+    const name = nameToken.value.toUpperCase();
+    const definition = FUNCTIONS[name];
+    if (!definition) {
+      throw new FormulaError('unknown_function', `Unknown function ${nameToken.value}`, nameToken.position);
+    }
+    if (args.length < definition.minArgs || args.length > definition.maxArgs) {
+      const expected = definition.minArgs === definition.maxArgs
+        ? `${definition.minArgs}`
+        : definition.maxArgs === Infinity
+          ? `at least ${definition.minArgs}`
+          : `${definition.minArgs}-${definition.maxArgs}`;
+      throw new FormulaError('argument_count', `${name} expects ${expected} argument(s), got ${args.length}`, nameToken.position);
+    }
+
+    return { type: 'call', name, args, position: nameToken.position };
+  }
+}
+
+function parseReference(raw: string, position: number): FormulaNode {
+  const [name, attribute, ...rest] = raw.split('.');
+  if (rest.length > 0 || (attribute !== undefined && !REFERENCE_ATTRIBUTES.includes(attribute as ReferenceAttribute))) {
+    throw new FormulaError('syntax', `Invalid property reference '${raw}'`, position);
+  }
+  return { type: 'reference', name: name.trim(), attribute: attribute as ReferenceAttribute | undefined, position };
+}
+
+interface EvaluationScope {
+  properties: Map<string, PropertyValue>;
+  context: FormulaContext;
+}
+
+interface FunctionDefinition {
+  minArgs: number;
+  maxArgs: number;
+  /** Arguments are passed unevaluated so functions like IF can short-circuit */
+  evaluate: (args: FormulaNode[], scope: EvaluationScope, position: number) => FormulaValue;
+}
+
+const FUNCTIONS: Record<string, FunctionDefinition> = {
+  IF: {
+    minArgs: 2,
+    maxArgs: 3,
+    evaluate: (args, scope) => {
+      const condition = toBoolean(evaluateNode(args[0], scope));
+      if (condition) return evaluateNode(args[1], scope);
+      return args[2] ? evaluateNode(args[2], scope) : false;
+    }
+  },
+  AND: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: (args, scope) => args.every(arg => toBoolean(evaluateNode(arg, scope)))
+  },
+  OR: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: (args, scope) => args.some(arg => toBoolean(evaluateNode(arg, scope)))
+  },
+  NOT: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: (args, scope) => !toBoolean(evaluateNode(args[0], scope))
+  },
+  ROUND: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: (args, scope) => {
+      const value = toNumber(evaluateNode(args[0], scope), args[0].position);
+      const digits = args[1] ? toNumber(evaluateNode(args[1], scope), args[1].position) : 0;
+      const factor = Math.pow(10, digits);
+      return Math.round(value * factor) / factor;
+    }
+  },
+  CEIL: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: (args, scope) => roundToSignificance(args, scope, Math.ceil)
+  },
+  FLOOR: {
+    minArgs: 1,
+    maxArgs: 2,
+    evaluate: (args, scope) => roundToSignificance(args, scope, Math.floor)
+  },
+  MIN: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: (args, scope) => Math.min(...args.map(arg => toNumber(evaluateNode(arg, scope), arg.position)))
+  },
+  MAX: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: (args, scope) => Math.max(...args.map(arg => toNumber(evaluateNode(arg, scope), arg.position)))
+  },
+  ABS: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: (args, scope) => Math.abs(toNumber(evaluateNode(args[0], scope), args[0].position))
+  },
+  CONCAT: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    evaluate: (args, scope) => args.map(arg => toText(evaluateNode(arg, scope))).join('')
+  },
+  /**
+   * SWITCH(value, match1, result1, [match2, result2, ...], [default])
+   * Typically used to look up a price or code fragment by option code: SWITCH({finish.code}, "BLK", 5, "WHT", 0, 2)
+   */
+  SWITCH: {
+    minArgs: 3,
+    maxArgs: Infinity,
+    evaluate: (args, scope, position) => {
+      const value = evaluateNode(args[0], scope);
+      const pairs = args.slice(1);
+      for (let i = 0; i + 1 < pairs.length; i += 2) {
+        if (valuesEqual(value, evaluateNode(pairs[i], scope))) {
+          return evaluateNode(pairs[i + 1], scope);
+        }
+      }
+      if (pairs.length % 2 === 1) {
+        return evaluateNode(pairs[pairs.length - 1], scope);
       }
+      throw new FormulaError('invalid_result', `SWITCH has no match for '${toText(value)}' and no default`, position);
+    }
+  },
+  ISBLANK: {
+    minArgs: 1,
+    maxArgs: 1,
+    evaluate: (args, scope) => {
+      const value = evaluateNode(args[0], scope);
+      return value === null || value === '';
+    }
+  }
+};
 
-      // Evaluate the mathematical expression
-      const result = this.evaluateMathExpression(processedFormula);
-      return isNaN(result) || !isFinite(result) ? 0 : Math.round(result * 100) / 100; // Round to 2 decimal places
+function roundToSignificance(args: FormulaNode[], scope: EvaluationScope, round: (value: number) => number): number {
+  const value = toNumber(evaluateNode(args[0], scope), args[0].position);
+  const significance = args[1] ? toNumber(evaluateNode(args[1], scope), args[1].position) : 1;
+  if (significance === 0) {
+    throw new FormulaError('division_by_zero', 'Significance cannot be zero', args[1].position);
+  }
+  return round(value / significance) * significance;
+}
+
+function evaluateNode(node: FormulaNode, scope: EvaluationScope): FormulaValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value;
+
+    case 'reference':
+      return resolveReference(node.name, node.attribute, node.position, scope);
+
+    case 'unary': {
+      const operand = toNumber(evaluateNode(node.operand, scope), node.operand.position);
+      return node.operator === '-' ? -operand : operand;
+    }
+
+    case 'binary':
+      return evaluateBinary(node.operator, node.left, node.right, node.position, scope);
+
+    case 'call':
+      return FUNCTIONS[node.name].evaluate(node.args, scope, node.position);
+  }
+}
+
+function evaluateBinary(
+  operator: BinaryOperator,
+  leftNode: FormulaNode,
+  rightNode: FormulaNode,
+  position: number,
+  scope: EvaluationScope
+): FormulaValue {
+  const left = evaluateNode(leftNode, scope);
+  const right = evaluateNode(rightNode, scope);
+
+  if (operator === '&') {
+    return toText(left) + toText(right);
+  }
+
+  if (COMPARISON_OPERATORS.includes(operator)) {
+    return compareValues(operator, left, right);
+  }
+
+  const a = toNumber(left, leftNode.position);
+  const b = toNumber(right, rightNode.position);
+
+  switch (operator) {
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      if (b === 0) throw new FormulaError('division_by_zero', 'Division by zero', position);
+      return a / b;
+    case '%':
+      if (b === 0) throw new FormulaError('division_by_zero', 'Division by zero', position);
+      return a % b;
+    case '^':
+      return Math.pow(a, b);
+    default:
+      throw new FormulaError('syntax', `Unsupported operator '${operator}'`, position);
+  }
+}
+
+function compareValues(operator: BinaryOperator, left: FormulaValue, right: FormulaValue): boolean {
+  if (operator === '=') return valuesEqual(left, right);
+  if (operator === '!=') return !valuesEqual(left, right);
+
+  const bothNumeric = isNumeric(left) && isNumeric(right);
+  const a = bothNumeric ? Number(left ?? 0) : toText(left).toLowerCase();
+  const b = bothNumeric ? Number(right ?? 0) : toText(right).toLowerCase();
+
+  switch (operator) {
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    default:
+      return a >= b;
+  }
+}
+
+function valuesEqual(left: FormulaValue, right: FormulaValue): boolean {
+  if (isNumeric(left) && isNumeric(right)) {
+    return Number(left ?? 0) === Number(right ?? 0);
+  }
+  // Text comparison is case-insensitive, matching spreadsheet semantics for option codes
+  return toText(left).toLowerCase() === toText(right).toLowerCase();
+}
+
+function isNumeric(value: FormulaValue): boolean {
+  return value === null || typeof value === 'number' || typeof value === 'boolean';
+}
+
+function toNumber(value: FormulaValue, position: number): number {
+  if (value === null || value === '') return 0;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new FormulaError('type_mismatch', `Expected a number but got '${value}'`, position);
+  }
+  return parsed;
+}
+
+function toBoolean(value: FormulaValue): boolean {
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    return normalized !== '' && normalized !== 'false' && normalized !== 'no' && normalized !== '0';
+  }
+  return Boolean(value);
+}
+
+function toText(value: FormulaValue): string {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+}
+
+/**
+ * Normalize a raw property value: numeric strings become numbers, arrays are joined, empty becomes null
+ */
+function normalizeValue(value: unknown): FormulaValue {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  const text = String(value);
+  if (text.trim() !== '' && /^-?(\d+(\.\d*)?|\.\d+)$/.test(text.trim())) {
+    return parseFloat(text);
+  }
+  return text;
+}
+
+function resolveReference(
+  name: string,
+  attribute: ReferenceAttribute | undefined,
+  position: number,
+  scope: EvaluationScope
+): FormulaValue {
+  const property = scope.properties.get(name);
+  if (!property) {
+    throw new FormulaError('unknown_reference', `Unknown property '${name}'`, position);
+  }
+
+  const selectedOption = findSelectedOption(property);
+  if (!selectedOption) {
+    return normalizeValue(property.value);
+  }
+
+  const effectiveAttribute: ReferenceAttribute | undefined = attribute ?? (
+    scope.context === 'sku' ? 'code'
+      : scope.context === 'description_en' ? 'label_en'
+        : scope.context === 'description_ar' ? 'label_ar'
+          : undefined
+  );
+
+  switch (effectiveAttribute) {
+    case 'code':
+      return normalizeValue(selectedOption.code);
+    case 'label_en':
+      return selectedOption.label_en;
+    case 'label_ar':
+      return selectedOption.label_ar || selectedOption.label_en;
+    default:
+      return normalizeValue(property.value);
+  }
+}
+
+function findSelectedOption(property: PropertyValue) {
+  if (!property.options || !Array.isArray(property.options) || property.value === null || property.value === undefined) {
+    return undefined;
+  }
+  return property.options.find(opt => opt.code === property.value || opt.label_en === property.value);
+}
+
+function collectReferences(node: FormulaNode, into: FormulaNode[] = []): FormulaNode[] {
+  switch (node.type) {
+    case 'reference':
+      into.push(node);
+      break;
+    case 'unary':
+      collectReferences(node.operand, into);
+      break;
+    case 'binary':
+      collectReferences(node.left, into);
+      collectReferences(node.right, into);
+      break;
+    case 'call':
+      node.args.forEach(arg => collectReferences(arg, into));
+      break;
+  }
+  return into;
+}
+
+/**
+ * Blank out the optional leading "=" so token positions still point into the formula as the user typed it
+ */
+function expressionSource(formula: string): string {
+  return formula.replace(/^(\s*)=/, '$1 ');
+}
+
+export class FormulaEngine {
+  /**
+   * Parse a formula into an AST
+   * @param formula - Expression, optionally prefixed with "="
+   * @throws FormulaError with the position of the offending token
+   */
+  static parse(formula: string): FormulaNode {
+    return new FormulaParser(tokenize(expressionSource(formula || ''))).parse();
+  }
+
+  /**
+   * Evaluate an expression formula (calculated properties, pricing formulas)
+   * @param formula - Expression with {property_name} or bare property references
+   * @param properties - Array of property values to resolve references against
+   * @param context - Context for option properties referenced without an attribute
+   * @returns The value (numbers rounded to 2 decimal places) or a FormulaError with its position
+   */
+  static evaluate(formula: string, properties: PropertyValue[], context: FormulaContext = 'calculation'): FormulaResult {
+    if (!formula || typeof formula !== 'string' || !formula.trim()) {
+      return { ok: false, error: new FormulaError('syntax', 'Formula is empty', 0) };
+    }
+
+    try {
+      const ast = this.parse(formula);
+      const scope: EvaluationScope = {
+        properties: new Map((properties || []).map(prop => [prop.name, prop])),
+        context
+      };
+      const value = evaluateNode(ast, scope);
+
+      if (typeof value === 'number') {
+        if (isNaN(value) || !isFinite(value)) {
+          return { ok: false, error: new FormulaError('invalid_result', 'Formula result is not a valid number', 0) };
+        }
+        return { ok: true, value: Math.round(value * 100) / 100 };
+      }
+      return { ok: true, value };
     } catch (error) {
-      console.warn('Formula evaluation error:', error);
-      return 0;
+      if (error instanceof FormulaError) {
+        return { ok: false, error };
+      }
+      return { ok: false, error: new FormulaError('invalid_result', error instanceof Error ? error.message : 'Formula evaluation failed', 0) };
     }
   }
 
+  /**
+   * Evaluate an expression formula that must produce a number
+   * @throws FormulaError when the formula is invalid or does not produce a number
+   */
+  static evaluateNumber(formula: string, properties: PropertyValue[]): number {
+    const result = this.evaluate(formula, properties);
+    if (result.ok === false) {
+      throw result.error;
+    }
+    if (typeof result.value === 'number') {
+      return result.value;
+    }
+    if (typeof result.value === 'boolean' || result.value === null) {
+      return result.value ? 1 : 0;
+    }
+    const parsed = Number(result.value);
+    if (isNaN(parsed)) {
+      throw new FormulaError('type_mismatch', `Formula produced text '${result.value}' instead of a number`, 0);
+    }
+    return parsed;
+  }
+
   /**
    * Evaluate a text formula with context-aware property resolution
+   * Formulas starting with "=" are evaluated as expressions; others are templates with {property} placeholders.
    * @param formula - Formula string with {property_name} references
    * @param properties - Array of property values to substitute
    * @param context - Context for property resolution (sku, description_en, description_ar, calculation)
@@ -64,9 +795,14 @@ export class FormulaEngine {
       return formula || '';
     }
 
+    if (/^\s*=/.test(formula)) {
+      const result = this.evaluate(formula, properties, context);
+      return result.ok === true ? toText(result.value) : `#ERROR: ${result.error.displayMessage}`;
+    }
+
     try {
       let processedFormula = formula;
-      
+
       properties.forEach(prop => {
         // Handle different property reference syntaxes
         const baseRegex = new RegExp(`\\{${prop.name}\\}`, 'g');
@@ -77,7 +813,7 @@ export class FormulaEngine {
         // Replace specific syntax first
         if (prop.options && Array.isArray(prop.options)) {
           const selectedOption = prop.options.find(opt => opt.code === prop.value || opt.label_en === prop.value);
-          
+
           processedFormula = processedFormula.replace(codeRegex, selectedOption?.code || prop.value.toString());
           processedFormula = processedFormula.replace(labelEnRegex, selectedOption?.label_en || prop.value.toString());
           processedFormula = processedFormula.replace(labelArRegex, selectedOption?.label_ar || selectedOption?.label_en || prop.value.toString());
@@ -91,7 +827,7 @@ export class FormulaEngine {
         if (prop.options && Array.isArray(prop.options)) {
           const selectedOption = prop.options.find(opt => opt.code === prop.value || opt.label_en === prop.value);
           let contextValue = prop.value.toString();
-          
+
           if (selectedOption) {
             switch (context) {
               case 'sku':
@@ -107,7 +843,7 @@ export class FormulaEngine {
                 contextValue = selectedOption.label_en;
             }
           }
-          
+
           processedFormula = processedFormula.replace(baseRegex, contextValue);
         } else {
           processedFormula = processedFormula.replace(baseRegex, prop.value.toString());
@@ -128,46 +864,16 @@ export class FormulaEngine {
    */
   static extractPropertyReferences(formula: string): string[] {
     if (!formula) return [];
-    
-    const matches = formula.match(/\{([^}]+)\}/g);
-    if (!matches) return [];
-    
-    return matches.map(match => match.slice(1, -1).split('.')[0]); // Remove { } and get base property name
-  }
-
-  /**
-   * Validate that a processed formula only contains safe mathematical expressions
-   */
-  private static isValidFormula(formula: string): boolean {
-    // Only allow numbers, operators, parentheses, and whitespace
-    const validPattern = /^[\d\s+\-*/().]+$/;
-    return validPattern.test(formula);
-  }
 
-  /**
-   * Convert a value to number, handling various input types
-   */
-  private static toNumber(value: string | number): number {
-    if (typeof value === 'number') return value;
-    if (typeof value === 'string') {
-      const parsed = parseFloat(value);
-      return isNaN(parsed) ? 0 : parsed;
-    }
-    return 0;
-  }
-
-  /**
-   * Safely evaluate a mathematical expression
-   */
-  private static evaluateMathExpression(expression: string): number {
     try {
-      // Use Function constructor for safe evaluation of basic math expressions
-      // This is safer than eval() but still requires validated input
-      const result = new Function('return ' + expression)();
-      return typeof result === 'number' ? result : 0;
-    } catch (error) {
-      console.warn('Math expression evaluation error:', error);
-      return 0;
+      const references = collectReferences(this.parse(formula));
+      return Array.from(new Set(references.map(ref => (ref as { name: string }).name)));
+    } catch {
+      // Text templates and incomplete formulas: fall back to the {placeholder} syntax
+      const matches = formula.match(/\{([^}]+)\}/g);
+      if (!matches) return [];
+
+      return Array.from(new Set(matches.map(match => match.slice(1, -1).split('.')[0].trim()))); // Remove { } and get base property name
     }
   }
 
@@ -175,66 +881,166 @@ export class FormulaEngine {
    * Validate formula syntax and check for valid property references
    * @param formula - Formula to validate
    * @param availableProperties - List of available property names
-   * @returns Validation result with error message if invalid
+   * @param kind - 'expression' for calculated/pricing formulas, 'text' for SKU and description templates
+   * @returns Validation result with error message (and position) if invalid
    */
-  static validateFormula(formula: string, availableProperties: string[]): { isValid: boolean; error?: string } {
+  static validateFormula(
+    formula: string,
+    availableProperties: string[],
+    kind: 'expression' | 'text' = 'expression'
+  ): { isValid: boolean; error?: string; position?: number } {
     if (!formula) {
       return { isValid: true };
     }
 
-    try {
-      // Extract all property references from the formula
-      const references = this.extractPropertyReferences(formula);
-      
-      // Check if all referenced properties are available
-      const invalidReferences = references.filter(ref => !availableProperties.includes(ref));
-      
+    if (kind === 'text' && !/^\s*=/.test(formula)) {
+      const invalidReferences = this.extractPropertyReferences(formula).filter(ref => !availableProperties.includes(ref));
       if (invalidReferences.length > 0) {
         return {
           isValid: false,
           error: `Unknown properties: ${invalidReferences.join(', ')}`
         };
       }
+      return { isValid: true };
+    }
 
-      // Try to evaluate with dummy values to check syntax
-      const dummyProperties: PropertyValue[] = availableProperties.map(name => ({
-        name,
-        value: 1
-      }));
-
-      // Replace property references with numbers and validate math syntax
-      let testFormula = formula;
-      dummyProperties.forEach(prop => {
-        const regex = new RegExp(`\\{${prop.name}(\\.[^}]+)?\\}`, 'g');
-        testFormula = testFormula.replace(regex, '1');
-      });
+    try {
+      const references = collectReferences(this.parse(formula)) as Array<Extract<FormulaNode, { type: 'reference' }>>;
+      const invalidReference = references.find(ref => !availableProperties.includes(ref.name));
 
-      // Check if there are still unresolved references
-      if (testFormula.includes('{') && testFormula.includes('}')) {
+      if (invalidReference) {
+        const invalidNames = Array.from(new Set(references.filter(ref => !availableProperties.includes(ref.name)).map(ref => ref.name)));
         return {
           isValid: false,
-          error: 'Some property references could not be resolved'
+          error: `Unknown properties: ${invalidNames.join(', ')}`,
+          position: invalidReference.position
         };
       }
 
-      // For numeric formulas, validate math syntax
-      if (this.isValidFormula(testFormula)) {
-        try {
-          this.evaluateMathExpression(testFormula);
-        } catch (error) {
-          return {
-            isValid: false,
-            error: 'Invalid mathematical expression'
-          };
-        }
-      }
-
       return { isValid: true };
     } catch (error) {
+      if (error instanceof FormulaError) {
+        return { isValid: false, error: error.displayMessage, position: error.position };
+      }
       return {
         isValid: false,
         error: 'Formula validation failed'
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Build the dependency graph between calculated properties and resolve their evaluation order
+   * @param properties - All template properties; only those with a formula become graph nodes
+   * @returns Dependencies, topological evaluation order and the first circular reference found
+   */
+  static buildDependencyGraph(properties: CalculatedPropertyDefinition[]): DependencyGraph {
+    const dependencies = new Map<string, string[]>();
+    (properties || []).forEach(prop => {
+      if (prop.name && prop.formula?.trim()) {
+        dependencies.set(prop.name, this.extractPropertyReferences(prop.formula));
+      }
+    });
+
+    const order: string[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+    let cycle: string[] | null = null;
+    const unresolvable = new Set<string>();
+
+    const visit = (name: string): boolean => {
+      if (state.get(name) === 'done') return !unresolvable.has(name);
+      if (state.get(name) === 'visiting') {
+        const path = [...stack.slice(stack.indexOf(name)), name];
+        if (!cycle) cycle = path;
+        path.forEach(member => unresolvable.add(member));
+        return false;
+      }
+
+      state.set(name, 'visiting');
+      stack.push(name);
+      let resolvable = true;
+      for (const dependency of dependencies.get(name) || []) {
+        // Only calculated properties are graph nodes; plain inputs are always available
+        if (dependencies.has(dependency) && !visit(dependency)) {
+          resolvable = false;
+        }
+      }
+      stack.pop();
+      state.set(name, 'done');
+
+      if (resolvable && !unresolvable.has(name)) {
+        order.push(name);
+        return true;
+      }
+      unresolvable.add(name);
+      return false;
+    };
+
+    dependencies.forEach((_, name) => visit(name));
+
+    return { dependencies, order, cycle };
+  }
+
+  /**
+   * Format a circular reference path for display, e.g. "a → b → a"
+   */
+  static formatCyclePath(cycle: string[]): string {
+    return cycle.join(' → ');
+  }
+
+  /**
+   * Find the calculated properties that must be recalculated when a property changes
+   * @returns Affected calculated properties in evaluation order
+   */
+  static getDependents(graph: DependencyGraph, changedProperty: string): string[] {
+    const affected = new Set<string>();
+    const queue = [changedProperty];
+
+    while (queue.length > 0) {
+      const current = queue.shift();
+      graph.dependencies.forEach((references, name) => {
+        if (!affected.has(name) && references.includes(current)) {
+          affected.add(name);
+          queue.push(name);
+        }
+      });
+    }
+
+    return graph.order.filter(name => affected.has(name));
+  }
+
+  /**
+   * Evaluate all calculated properties in dependency order, so calculated properties can reference each other
+   * @param properties - Template properties (calculated ones carry a formula)
+   * @param inputs - Current property values; calculated results are added as they are resolved
+   * @returns Result per calculated property; properties on a cycle get a circular_reference error
+   */
+  static evaluateProperties(properties: CalculatedPropertyDefinition[], inputs: PropertyValue[]): PropertyEvaluation {
+    const graph = this.buildDependencyGraph(properties);
+    const values = new Map((inputs || []).map(input => [input.name, input]));
+    const results: Record<string, FormulaResult> = {};
+
+    graph.order.forEach(name => {
+      const formula = properties.find(prop => prop.name === name)?.formula;
+      const result = this.evaluate(formula, Array.from(values.values()));
+      results[name] = result;
+      values.set(name, {
+        ...values.get(name),
+        name,
+        value: result.ok === true ? result.value as string | number : null
+      });
+    });
+
+    graph.dependencies.forEach((_, name) => {
+      if (!results[name]) {
+        const message = graph.cycle?.includes(name)
+          ? `Circular reference: ${this.formatCyclePath(graph.cycle)}`
+          : `Depends on a circular reference: ${this.formatCyclePath(graph.cycle || [])}`;
+        results[name] = { ok: false, error: new FormulaError('circular_reference', message, 0) };
+      }
+    });
+
+    return { results, cycle: graph.cycle };
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Lead funnel
+ *
+ * Company, contact and site leads move through the lead stages and leave the funnel either converted to a deal or
+ * closed. Time in stage comes from the lead stage history: a stay in a stage lasts from the transition into it to
+ * the lead's next transition, or until now while the lead is still there. The conversion funnel follows each lead
+ * to the deals converted from it and the contracts created from those deals, grouped by lead source or quality.
+ */
+
+export type LeadType = 'company' | 'contact' | 'site';
+
+export type LeadStageEvent = 'stage_changed' | 'converted' | 'closed';
+
+export interface LeadStageTransition {
+  entity_type: LeadType;
+  entity_id: string;
+  from_stage_id: string | null;
+  to_stage_id: string | null;
+  event: LeadStageEvent;
+  changed_at: string;
+}
+
+export interface FunnelLead {
+  entity_type: LeadType;
+  entity_id: string;
+  name: string;
+  is_lead: boolean;
+  stage_id: string | null;
+  quality_id: string | null;
+  source_id: string | null;
+  created_at: string;
+}
+
+export interface FunnelDeal {
+  id: string;
+  lead_entity_type: LeadType | null;
+  lead_entity_id: string | null;
+  contracts: { id: string }[] | null;
+}
+
+export interface StageTime {
+  stageId: string;
+  /** Stays that ended with the lead moving on, converting or closing */
+  completed: number;
+  averageDays: number;
+  /** Leads in the stage now, and how long they have been there on average */
+  open: number;
+  averageOpenDays: number;
+}
+
+export type FunnelGroupBy = 'source' | 'quality';
+
+export const FUNNEL_GROUPS: Array<{ value: FunnelGroupBy; label: string }> = [
+  { value: 'source', label: 'Source' },
+  { value: 'quality', label: 'Quality' },
+];
+
+export interface FunnelRow {
+  /** Source or quality id, or 'none' */
+  key: string;
+  leads: number;
+  /** Leads with at least one deal converted from them */
+  converted: number;
+  /** Converted leads with at least one contract from one of their deals */
+  contracted: number;
+  dealRate: number;
+  contractRate: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const leadKey = (type: LeadType, id: string) => `${type}:${id}`;
+
+const daysBetween = (from: string, to: Date) => Math.max(0, (to.getTime() - new Date(from).getTime()) / DAY_MS);
+
+const roundDays = (days: number) => Math.round(days * 10) / 10;
+
+function transitionsByLead(transitions: LeadStageTransition[]) {
+  const byLead = new Map<string, LeadStageTransition[]>();
+  for (const transition of transitions) {
+    const key = leadKey(transition.entity_type, transition.entity_id);
+    byLead.set(key, [...(byLead.get(key) || []), transition]);
+  }
+  for (const list of byLead.values()) {
+    list.sort((a, b) => a.changed_at.localeCompare(b.changed_at));
+  }
+  return byLead;
+}
+
+export function summarizeTimeInStage(transitions: LeadStageTransition[], now = new Date()): StageTime[] {
+  const totals = new Map<string, { completed: number; days: number; open: number; openDays: number }>();
+  const totalsFor = (stageId: string) => {
+    if (!totals.has(stageId)) totals.set(stageId, { completed: 0, days: 0, open: 0, openDays: 0 });
+    return totals.get(stageId)!;
+  };
+
+  for (const list of transitionsByLead(transitions).values()) {
+    list.forEach((transition, index) => {
+      if (transition.event !== 'stage_changed' || !transition.to_stage_id) return;
+
+      const next = list[index + 1];
+      const stage = totalsFor(transition.to_stage_id);
+      if (next) {
+        stage.completed++;
+        stage.days += daysBetween(transition.changed_at, new Date(next.changed_at));
+      } else {
+        stage.open++;
+        stage.openDays += daysBetween(transition.changed_at, now);
+      }
+    });
+  }
+
+  return [...totals.entries()].map(([stageId, stage]) => ({
+    stageId,
+    completed: stage.completed,
+    averageDays: stage.completed ? roundDays(stage.days / stage.completed) : 0,
+    open: stage.open,
+    averageOpenDays: stage.open ? roundDays(stage.openDays / stage.open) : 0,
+  }));
+}
+
+/** Days each open lead has spent in its current stage, by leadKey */
+export function currentStageDays(transitions: LeadStageTransition[], now = new Date()): Record<string, number> {
+  const days: Record<string, number> = {};
+  for (const [key, list] of transitionsByLead(transitions)) {
+    const last = list[list.length - 1];
+    if (last.event === 'stage_changed') {
+      days[key] = Math.floor(daysBetween(last.changed_at, now));
+    }
+  }
+  return days;
+}
+
+export function buildConversionFunnel(
+  leads: FunnelLead[],
+  deals: FunnelDeal[],
+  groupBy: FunnelGroupBy
+): { rows: FunnelRow[]; totals: FunnelRow } {
+  const dealsByLead = new Map<string, FunnelDeal[]>();
+  for (const deal of deals) {
+    if (!deal.lead_entity_type || !deal.lead_entity_id) continue;
+    const key = leadKey(deal.lead_entity_type, deal.lead_entity_id);
+    dealsByLead.set(key, [...(dealsByLead.get(key) || []), deal]);
+  }
+
+  const emptyRow = (key: string): FunnelRow => ({
+    key,
+    leads: 0,
+    converted: 0,
+    contracted: 0,
+    dealRate: 0,
+    contractRate: 0,
+  });
+  const groups = new Map<string, FunnelRow>();
+  const totals = emptyRow('total');
+
+  for (const lead of leads) {
+    const groupKey = (groupBy === 'source' ? lead.source_id : lead.quality_id) || 'none';
+    if (!groups.has(groupKey)) groups.set(groupKey, emptyRow(groupKey));
+
+    const leadDeals = dealsByLead.get(leadKey(lead.entity_type, lead.entity_id)) || [];
+    const converted = leadDeals.length > 0;
+    const contracted = leadDeals.some(deal => (deal.contracts || []).length > 0);
+
+    for (const row of [groups.get(groupKey)!, totals]) {
+      row.leads++;
+      if (converted) row.converted++;
+      if (contracted) row.contracted++;
+    }
+  }
+
+  const withRates = (row: FunnelRow): FunnelRow => ({
+    ...row,
+    dealRate: row.leads ? Math.round((row.converted / row.leads) * 1000) / 10 : 0,
+    contractRate: row.converted ? Math.round((row.contracted / row.converted) * 1000) / 10 : 0,
+  });
+
+  return {
+    rows: [...groups.values()].map(withRates).sort((a, b) => b.leads - a.leads),
+    totals: withRates(totals),
+  };
+}
@@ -0,0 +1,116 @@
+/** Payment receipt allocation
+ *
+ * A payment receipt is allocated across the installments of its contract, oldest due date first or by hand, and
+ * whatever is not allocated stays on the receipt as credit. The database (record_payment_receipt,
+ * allocate_payment_receipt) is authoritative; this module mirrors its rules so that allocations can be previewed and
+ * edited before they are saved. */
+
+import { installmentAmount } from '@/lib/cash-flow-forecast';
+import { roundMoney } from '@/lib/quote-totals';
+
+export type AllocationMode = 'oldest_first' | 'manual';
+
+export interface AllocatableInstallment {
+  id: string;
+  installment_number: number;
+  name: string | null;
+  due_date: string | null;
+  calculated_amount: number | null;
+  amount_type: string;
+  amount_value: number;
+  contracts: { value: number | null } | null;
+}
+
+export interface AllocationInput {
+  receipt_id: string;
+  payment_term_id: string;
+  amount: number;
+}
+
+/** Allocated amount per installment id */
+export type Allocations = Record<string, number>;
+
+export const installmentDue = (installment: AllocatableInstallment): number =>
+  installmentAmount(installment, installment.contracts?.value ?? null);
+
+/** What is still open on each installment, not counting the allocations of `excludeReceiptId` */
+export const outstandingByInstallment = (
+  installments: AllocatableInstallment[],
+  allocations: AllocationInput[],
+  excludeReceiptId?: string
+): Allocations => {
+  const outstanding: Allocations = {};
+  for (const installment of installments) {
+    outstanding[installment.id] = installmentDue(installment);
+  }
+  for (const allocation of allocations) {
+    if (allocation.receipt_id === excludeReceiptId || !(allocation.payment_term_id in outstanding)) continue;
+    outstanding[allocation.payment_term_id] -= Number(allocation.amount);
+  }
+  for (const id of Object.keys(outstanding)) {
+    outstanding[id] = Math.max(0, roundMoney(outstanding[id]));
+  }
+  return outstanding;
+};
+
+/** Installments by due date (undated last), then installment number, as the database allocates them */
+export const sortForAllocation = (installments: AllocatableInstallment[]): AllocatableInstallment[] =>
+  [...installments].sort((a, b) => {
+    if (a.due_date !== b.due_date) {
+      if (!a.due_date) return 1;
+      if (!b.due_date) return -1;
+      return a.due_date < b.due_date ? -1 : 1;
+    }
+    return a.installment_number - b.installment_number;
+  });
+
+export const allocateOldestFirst = (
+  amount: number,
+  installments: AllocatableInstallment[],
+  outstanding: Allocations
+): Allocations => {
+  const allocations: Allocations = {};
+  let remaining = roundMoney(amount);
+  for (const installment of sortForAllocation(installments)) {
+    if (remaining <= 0) break;
+    const share = Math.min(remaining, outstanding[installment.id] ?? 0);
+    if (share <= 0) continue;
+    allocations[installment.id] = share;
+    remaining = roundMoney(remaining - share);
+  }
+  return allocations;
+};
+
+export const totalAllocated = (allocations: Allocations): number =>
+  roundMoney(Object.values(allocations).reduce((sum, amount) => sum + (Number(amount) || 0), 0));
+
+/** Problems that would make the database reject the allocations, in display form */
+export const allocationErrors = (
+  amount: number,
+  allocations: Allocations,
+  installments: AllocatableInstallment[],
+  outstanding: Allocations
+): string[] => {
+  const errors: string[] = [];
+  if (!(amount > 0)) {
+    errors.push('Enter the amount received');
+  }
+  if (totalAllocated(allocations) > roundMoney(amount)) {
+    errors.push('More is allocated than was received');
+  }
+  for (const installment of installments) {
+    const allocated = allocations[installment.id] || 0;
+    if (allocated < 0) {
+      errors.push(`Allocation to ${installment.name || `Instalment ${installment.installment_number}`} is negative`);
+    } else if (allocated > (outstanding[installment.id] ?? 0)) {
+      errors.push(`${installment.name || `Instalment ${installment.installment_number}`} is allocated more than is open`);
+    }
+  }
+  return errors;
+};
+
+/** Allocations in the form record_payment_receipt and set_payment_receipt_allocations expect */
+export const toAllocationPayload = (allocations: Allocations) =>
+  Object.entries(allocations)
+    .filter(([, amount]) => amount > 0)
+    .map(([payment_term_id, amount]) => ({ payment_term_id, amount: roundMoney(amount) }));
@@ -0,0 +1,148 @@
+/**
+ * Project profitability
+ *
+ * Cost vs. sell for BOQ lines, normalised to the project currency. Sell is the line price (or the device list
+ * price) in the device's currency; cost is the device cost price in its cost currency, falling back to the
+ * device currency. Margin is expressed as markup on cost, the same way quote items report it.
+ */
+
+import { BOQFloor, BOQLine, BOQSite, getEffectivePrice, groupBOQByFloor } from '@/lib/boq-grouping';
+import { ConversionRateTable, resolveConversionRate, roundMoney } from '@/lib/quote-totals';
+
+export interface ProfitabilityLine extends BOQLine {
+  devices: {
+    unit_price: number | null;
+    cost_price: number | null;
+    currency_id: string | null;
+    cost_currency_id: string | null;
+  };
+}
+
+export interface LineProfitability {
+  sell: number;
+  /** null when the device has no cost price */
+  cost: number | null;
+  margin: number | null;
+  marginPercent: number | null;
+  belowCost: boolean;
+  /** A currency on the line had no conversion rate; the amount was kept unconverted */
+  missingRate: boolean;
+}
+
+export interface ProfitabilitySummary {
+  sell: number;
+  /** Cost of the lines that have a cost price */
+  cost: number;
+  /** Sell minus cost, over the lines that have a cost price */
+  margin: number;
+  marginPercent: number | null;
+  lines: number;
+  belowCostLines: number;
+  missingCostLines: number;
+  missingRateLines: number;
+}
+
+export interface FloorProfitability extends ProfitabilitySummary {
+  key: string;
+  label: string;
+}
+
+export interface BudgetComparison {
+  budget: number;
+  remaining: number;
+  usedPercent: number;
+  overBudget: boolean;
+}
+
+export const marginPercentOf = (sell: number, cost: number): number | null =>
+  cost > 0 ? ((sell - cost) / cost) * 100 : null;
+
+export function calculateLineProfitability(
+  line: ProfitabilityLine,
+  rates: ConversionRateTable,
+  projectCurrencyId: string | null | undefined
+): LineProfitability {
+  const priceCurrencyId = line.devices.currency_id;
+  const costCurrencyId = line.devices.cost_currency_id || priceCurrencyId;
+  const priceRate = resolveConversionRate(rates, priceCurrencyId, projectCurrencyId);
+  const costRate = resolveConversionRate(rates, costCurrencyId, projectCurrencyId);
+
+  const sell = roundMoney(getEffectivePrice(line) * line.quantity * (priceRate ?? 1));
+  const hasCost = line.devices.cost_price !== null && line.devices.cost_price !== undefined;
+  const cost = hasCost ? roundMoney(Number(line.devices.cost_price) * line.quantity * (costRate ?? 1)) : null;
+  const margin = cost === null ? null : roundMoney(sell - cost);
+
+  return {
+    sell,
+    cost,
+    margin,
+    marginPercent: cost === null ? null : marginPercentOf(sell, cost),
+    belowCost: margin !== null && margin < 0,
+    missingRate: priceRate === null || (hasCost && costRate === null),
+  };
+}
+
+export function summarizeProfitability(
+  lines: ProfitabilityLine[],
+  rates: ConversionRateTable,
+  projectCurrencyId: string | null | undefined
+): ProfitabilitySummary {
+  let sell = 0;
+  let costedSell = 0;
+  let cost = 0;
+  let belowCostLines = 0;
+  let missingCostLines = 0;
+  let missingRateLines = 0;
+
+  lines.forEach((line) => {
+    const result = calculateLineProfitability(line, rates, projectCurrencyId);
+    sell += result.sell;
+    if (result.cost === null) {
+      missingCostLines++;
+    } else {
+      cost += result.cost;
+      costedSell += result.sell;
+    }
+    if (result.belowCost) belowCostLines++;
+    if (result.missingRate) missingRateLines++;
+  });
+
+  return {
+    sell: roundMoney(sell),
+    cost: roundMoney(cost),
+    margin: roundMoney(costedSell - cost),
+    marginPercent: marginPercentOf(costedSell, cost),
+    lines: lines.length,
+    belowCostLines,
+    missingCostLines,
+    missingRateLines,
+  };
+}
+
+/** Profitability per floor, in the same order as the BOQ editor and export. Empty floors are left out. */
+export function summarizeProfitabilityByFloor<T extends ProfitabilityLine>(
+  lines: T[],
+  floors: BOQFloor[],
+  sites: BOQSite[],
+  rates: ConversionRateTable,
+  projectCurrencyId: string | null | undefined
+): FloorProfitability[] {
+  return groupBOQByFloor(lines, floors, sites)
+    .filter((group) => group.devices.length > 0)
+    .map((group) => ({
+      key: group.key,
+      label: group.label,
+      ...summarizeProfitability(group.devices, rates, projectCurrencyId),
+    }));
+}
+
+/** Compares the BOQ sell value against the project budget. Returns null when the project has no budget. */
+export function compareToBudget(sell: number, budget: number | null | undefined): BudgetComparison | null {
+  if (!budget || budget <= 0) return null;
+  return {
+    budget,
+    remaining: roundMoney(budget - sell),
+    usedPercent: (sell / budget) * 100,
+    overBudget: sell > budget,
+  };
+}
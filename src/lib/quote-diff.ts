@@ -0,0 +1,251 @@
+/**
+ * Quote version comparison
+ *
+ * Items are matched between versions by catalog device, then SKU, then name, so a re-priced or re-quantified
+ * line shows up as "changed" rather than as a remove/add pair.
+ */
+
+import { calculateLineNet } from '@/lib/quote-totals';
+
+export interface ComparableQuoteItem {
+  id: string;
+  device_id: string | null;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  margin_percentage: number | null;
+  discount_type: string;
+  discount_value: number;
+  tax_rate?: number | null;
+}
+
+export interface ComparableQuoteVersion {
+  version_number: number;
+  version_name: string;
+  grand_total: number;
+  margin_percentage?: number | null;
+}
+
+export type QuoteItemChangeField = 'quantity' | 'unit_price' | 'margin_percentage' | 'discount' | 'line_total';
+
+export interface QuoteItemFieldChange {
+  field: QuoteItemChangeField;
+  before: number;
+  after: number;
+  /** Values are percentages (percent discounts) rather than money */
+  percent?: boolean;
+}
+
+export type QuoteItemDiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface QuoteItemDiff {
+  key: string;
+  status: QuoteItemDiffStatus;
+  name: string;
+  sku: string | null;
+  base: ComparableQuoteItem | null;
+  compare: ComparableQuoteItem | null;
+  changes: QuoteItemFieldChange[];
+  lineTotalDelta: number;
+}
+
+export interface QuoteVersionDiff {
+  items: QuoteItemDiff[];
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+  totalDelta: number;
+}
+
+export const QUOTE_ITEM_FIELD_LABELS: Record<QuoteItemChangeField, string> = {
+  quantity: 'Qty',
+  unit_price: 'Unit price',
+  margin_percentage: 'Margin',
+  discount: 'Discount',
+  line_total: 'Line total',
+};
+
+const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase();
+
+const matchKeys = (item: ComparableQuoteItem): string[] =>
+  [
+    item.device_id ? `device:${item.device_id}` : null,
+    item.sku ? `sku:${normalize(item.sku)}` : null,
+    `name:${normalize(item.name)}`,
+  ].filter(Boolean) as string[];
+
+const differs = (a: number, b: number) => Math.abs((Number(a) || 0) - (Number(b) || 0)) >= 0.005;
+
+function fieldChanges(base: ComparableQuoteItem, compare: ComparableQuoteItem): QuoteItemFieldChange[] {
+  const changes: QuoteItemFieldChange[] = [];
+  const push = (field: QuoteItemChangeField, before: number, after: number, percent = false) => {
+    if (differs(before, after)) {
+      changes.push({ field, before: Number(before) || 0, after: Number(after) || 0, ...(percent && { percent }) });
+    }
+  };
+
+  push('quantity', base.quantity, compare.quantity);
+  push('unit_price', base.unit_price, compare.unit_price);
+  push('margin_percentage', base.margin_percentage ?? 0, compare.margin_percentage ?? 0);
+  if (base.discount_type === compare.discount_type) {
+    push('discount', base.discount_value, compare.discount_value, base.discount_type === 'percent');
+  } else {
+    // Switching % <-> amount: compare the resulting money values instead
+    push(
+      'discount',
+      base.quantity * base.unit_price - calculateLineNet(base),
+      compare.quantity * compare.unit_price - calculateLineNet(compare)
+    );
+  }
+  push('line_total', calculateLineNet(base), calculateLineNet(compare));
+
+  return changes;
+}
+
+export function diffQuoteVersions(
+  baseItems: ComparableQuoteItem[],
+  compareItems: ComparableQuoteItem[],
+  baseTotal = 0,
+  compareTotal = 0
+): QuoteVersionDiff {
+  const unmatched = new Map<string, ComparableQuoteItem[]>();
+  baseItems.forEach((item) => {
+    matchKeys(item).forEach((key) => unmatched.set(key, [...(unmatched.get(key) || []), item]));
+  });
+  const used = new Set<string>();
+
+  const take = (item: ComparableQuoteItem): ComparableQuoteItem | null => {
+    for (const key of matchKeys(item)) {
+      const candidate = (unmatched.get(key) || []).find((c) => !used.has(c.id));
+      if (candidate) {
+        used.add(candidate.id);
+        return candidate;
+      }
+    }
+    return null;
+  };
+
+  const items: QuoteItemDiff[] = compareItems.map((item) => {
+    const base = take(item);
+    if (!base) {
+      return {
+        key: `added:${item.id}`,
+        status: 'added',
+        name: item.name,
+        sku: item.sku,
+        base: null,
+        compare: item,
+        changes: [],
+        lineTotalDelta: calculateLineNet(item),
+      };
+    }
+
+    const changes = fieldChanges(base, item);
+    return {
+      key: `${base.id}:${item.id}`,
+      status: changes.length > 0 ? 'changed' : 'unchanged',
+      name: item.name,
+      sku: item.sku,
+      base,
+      compare: item,
+      changes,
+      lineTotalDelta: calculateLineNet(item) - calculateLineNet(base),
+    };
+  });
+
+  baseItems
+    .filter((item) => !used.has(item.id))
+    .forEach((item) => {
+      items.push({
+        key: `removed:${item.id}`,
+        status: 'removed',
+        name: item.name,
+        sku: item.sku,
+        base: item,
+        compare: null,
+        changes: [],
+        lineTotalDelta: -calculateLineNet(item),
+      });
+    });
+
+  const count = (status: QuoteItemDiffStatus) => items.filter((i) => i.status === status).length;
+
+  return {
+    items,
+    added: count('added'),
+    removed: count('removed'),
+    changed: count('changed'),
+    unchanged: count('unchanged'),
+    totalDelta: (Number(compareTotal) || 0) - (Number(baseTotal) || 0),
+  };
+}
+
+export const formatQuoteItemChange = (
+  change: QuoteItemFieldChange,
+  value: number,
+  formatMoney: (n: number) => string
+) => {
+  if (change.field === 'quantity') return String(value);
+  if (change.field === 'margin_percentage' || change.percent) return `${value.toFixed(1)}%`;
+  return formatMoney(value);
+};
+
+/**
+ * Plain-text summary of a version diff, written to be pasted into a customer email.
+ */
+export function buildRevisionSummary(
+  quoteReference: string,
+  base: ComparableQuoteVersion,
+  compare: ComparableQuoteVersion,
+  diff: QuoteVersionDiff,
+  formatMoney: (n: number) => string
+): string {
+  const lines: string[] = [
+    `Revision summary for ${quoteReference}: ${base.version_name} (V${base.version_number}) → ${compare.version_name} (V${compare.version_number})`,
+    '',
+  ];
+
+  const added = diff.items.filter((i) => i.status === 'added');
+  const removed = diff.items.filter((i) => i.status === 'removed');
+  const changed = diff.items.filter((i) => i.status === 'changed');
+
+  if (added.length > 0) {
+    lines.push('Added:');
+    added.forEach((i) => lines.push(`- ${i.name} × ${i.compare.quantity} @ ${formatMoney(i.compare.unit_price)}`));
+    lines.push('');
+  }
+
+  if (removed.length > 0) {
+    lines.push('Removed:');
+    removed.forEach((i) => lines.push(`- ${i.name} × ${i.base.quantity}`));
+    lines.push('');
+  }
+
+  if (changed.length > 0) {
+    lines.push('Changed:');
+    changed.forEach((i) => {
+      // Margin is internal and not something to send to a customer
+      const details = i.changes
+        .filter((c) => c.field !== 'margin_percentage' && c.field !== 'line_total')
+        .map((c) => {
+          const label = QUOTE_ITEM_FIELD_LABELS[c.field].toLowerCase();
+          return `${label} ${formatQuoteItemChange(c, c.before, formatMoney)} → ${formatQuoteItemChange(c, c.after, formatMoney)}`;
+        });
+      if (details.length > 0) lines.push(`- ${i.name}: ${details.join(', ')}`);
+    });
+    lines.push('');
+  }
+
+  if (added.length === 0 && removed.length === 0 && changed.length === 0) {
+    lines.push('No line item changes.', '');
+  }
+
+  const sign = diff.totalDelta > 0 ? '+' : diff.totalDelta < 0 ? '-' : '±';
+  lines.push(
+    `Total: ${formatMoney(base.grand_total)} → ${formatMoney(compare.grand_total)} (${sign}${formatMoney(Math.abs(diff.totalDelta))})`
+  );
+
+  return lines.join('\n');
+}
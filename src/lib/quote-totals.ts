@@ -0,0 +1,157 @@
+/**
+ * Quote pricing totals
+ *
+ * Mirrors the calculate_quote_item_discount / calculate_quote_version_totals triggers so the editor can show
+ * live figures; the database remains the source of truth for persisted totals.
+ *
+ * Order of operations: subtotal -> line discounts -> document discount -> tax -> rounding.
+ * The document discount is spread over lines pro rata so per-line tax rates still apply.
+ */
+
+export type DiscountType = 'percent' | 'amount';
+
+export type RoundingMode = 'nearest' | 'up' | 'down';
+
+export interface QuoteLineInput {
+  quantity: number;
+  unit_price: number;
+  discount_type: DiscountType | string;
+  discount_value: number;
+  tax_rate?: number | null;
+}
+
+export interface QuoteDocumentInput {
+  discount_type: DiscountType | string;
+  discount_value: number;
+  tax_rate?: number | null;
+}
+
+export interface RoundingRules {
+  increment: number;
+  mode: RoundingMode | string;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  lineDiscountTotal: number;
+  netAmount: number;
+  discountAmount: number;
+  taxableAmount: number;
+  taxAmount: number;
+  roundingAdjustment: number;
+  grandTotal: number;
+}
+
+export const DEFAULT_ROUNDING: RoundingRules = { increment: 0.01, mode: 'nearest' };
+
+export const roundMoney = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export function roundToIncrement(amount: number, rules: RoundingRules = DEFAULT_ROUNDING): number {
+  const increment = Number(rules.increment) || 0;
+  if (increment <= 0) return roundMoney(amount);
+
+  // Work in whole increments to avoid floating point drift (e.g. 0.05 steps)
+  const steps = Math.round(amount / increment * 1e6) / 1e6;
+  const rounded = rules.mode === 'up'
+    ? Math.ceil(steps)
+    : rules.mode === 'down'
+      ? Math.floor(steps)
+      : Math.round(steps);
+  return roundMoney(rounded * increment);
+}
+
+function discountFor(base: number, type: string, value: number): number {
+  const amount = Number(value) || 0;
+  if (type === 'amount') return Math.min(amount, Math.max(base, 0));
+  return roundMoney(base * Math.min(amount, 100) / 100);
+}
+
+export function calculateLineDiscount(line: QuoteLineInput): number {
+  return discountFor(line.quantity * line.unit_price, line.discount_type, line.discount_value);
+}
+
+export function calculateLineNet(line: QuoteLineInput): number {
+  return roundMoney(line.quantity * line.unit_price - calculateLineDiscount(line));
+}
+
+export function calculateQuoteTotals(
+  lines: QuoteLineInput[],
+  document: QuoteDocumentInput,
+  rounding: RoundingRules = DEFAULT_ROUNDING
+): QuoteTotals {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unit_price, 0));
+  const lineDiscountTotal = roundMoney(lines.reduce((sum, line) => sum + calculateLineDiscount(line), 0));
+  const netAmount = roundMoney(subtotal - lineDiscountTotal);
+  const discountAmount = discountFor(netAmount, document.discount_type, document.discount_value);
+  const documentFactor = netAmount > 0 ? (netAmount - discountAmount) / netAmount : 0;
+
+  const taxAmount = roundMoney(
+    lines.reduce((sum, line) => {
+      const rate = line.tax_rate ?? document.tax_rate ?? 0;
+      return sum + roundMoney(calculateLineNet(line) * documentFactor * rate / 100);
+    }, 0)
+  );
+
+  const total = roundMoney(netAmount - discountAmount + taxAmount);
+  const grandTotal = roundToIncrement(total, rounding);
+
+  return {
+    subtotal,
+    lineDiscountTotal,
+    netAmount,
+    discountAmount,
+    taxableAmount: roundMoney(netAmount - discountAmount),
+    taxAmount,
+    roundingAdjustment: roundMoney(grandTotal - total),
+    grandTotal,
+  };
+}
+
+/**
+ * Conversion rates keyed by currency id: { [fromCurrencyId]: { [toCurrencyId]: rate } }.
+ * This is the shape stored in tenant_pricing_settings.custom_conversion_rates.
+ */
+export type ConversionRateTable = Record<string, Record<string, number>>;
+
+export function buildConversionRateTable(
+  rows: Array<{ from_currency_id: string; to_currency_id: string; conversion_rate: number }> = [],
+  customRates?: unknown
+): ConversionRateTable {
+  const table: ConversionRateTable = {};
+  const set = (from: string, to: string, rate: number) => {
+    if (!from || !to || !(rate > 0)) return;
+    table[from] = { ...table[from], [to]: rate };
+  };
+
+  rows.forEach((row) => set(row.from_currency_id, row.to_currency_id, Number(row.conversion_rate)));
+
+  // Tenant pricing overrides win over the currency_settings rows
+  if (customRates && typeof customRates === 'object' && !Array.isArray(customRates)) {
+    Object.entries(customRates as Record<string, unknown>).forEach(([from, targets]) => {
+      if (!targets || typeof targets !== 'object') return;
+      Object.entries(targets as Record<string, unknown>).forEach(([to, rate]) => set(from, to, Number(rate)));
+    });
+  }
+
+  return table;
+}
+
+/**
+ * Rate to multiply an amount in `fromCurrencyId` by to get `toCurrencyId`. Falls back to the inverse of the
+ * opposite direction; returns null when no rate is configured.
+ */
+export function resolveConversionRate(
+  table: ConversionRateTable,
+  fromCurrencyId: string | null | undefined,
+  toCurrencyId: string | null | undefined
+): number | null {
+  if (!fromCurrencyId || !toCurrencyId || fromCurrencyId === toCurrencyId) return 1;
+
+  const direct = table[fromCurrencyId]?.[toCurrencyId];
+  if (direct) return direct;
+
+  const inverse = table[toCurrencyId]?.[fromCurrencyId];
+  if (inverse) return 1 / inverse;
+
+  return null;
+}
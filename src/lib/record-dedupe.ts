@@ -0,0 +1,252 @@
+/**
+ * Duplicate detection
+ *
+ * Finds companies, contacts and sites that are probably the same record entered twice. Names are compared fuzzily
+ * after dropping case, accents, punctuation and (for companies) legal suffixes; emails, phone numbers and website
+ * domains are compared exactly once normalized. Phone numbers are brought to international digits with the
+ * country codes in country-codes, so "+973 3312 3456" and "33123456" entered in Bahrain match.
+ */
+
+import { getCountryCodeForCountry } from './country-codes';
+
+export type DedupeEntityType = 'company' | 'contact' | 'site';
+
+export type MatchReason = 'name' | 'email' | 'phone' | 'domain';
+
+export interface DedupeRecord {
+  id: string;
+  name: string;
+  email?: string | null;
+  /** Legacy free-text phone */
+  phone?: string | null;
+  phone_number?: string | null;
+  country_code?: string | null;
+  website?: string | null;
+  city?: string | null;
+  is_lead?: boolean | null;
+  created_at: string;
+}
+
+export interface DuplicateCandidate {
+  key: string;
+  /** The older record, suggested as the one to keep */
+  primary: DedupeRecord;
+  duplicate: DedupeRecord;
+  reasons: MatchReason[];
+  /** 0-100 */
+  score: number;
+}
+
+export interface DedupeOptions {
+  /** Tenant country, used for phone numbers stored without a country code */
+  country?: string;
+  /** Lowest name similarity (0-1) that counts as a name match */
+  nameThreshold?: number;
+}
+
+// Words that say nothing about which company it is
+const COMPANY_SUFFIXES = new Set([
+  'co', 'company', 'corp', 'corporation', 'inc', 'incorporated', 'llc', 'ltd', 'limited', 'plc', 'gmbh', 'sa',
+  'wll', 'bsc', 'spc', 'est', 'establishment', 'group', 'holding', 'holdings', 'trading', 'the', 'and',
+]);
+
+const FREE_EMAIL_DOMAINS = new Set([
+  'gmail.com', 'googlemail.com', 'hotmail.com', 'outlook.com', 'live.com', 'yahoo.com', 'icloud.com', 'me.com',
+  'aol.com', 'msn.com', 'proton.me', 'protonmail.com',
+]);
+
+// Name tokens shared by more records than this are too common to group candidates by
+const MAX_BLOCK_SIZE = 200;
+
+const MATCH_SCORES: Record<MatchReason, number> = {
+  email: 95,
+  phone: 90,
+  domain: 75,
+  name: 0, // the name similarity itself
+};
+
+export const normalizeName = (name: string | null | undefined, entityType: DedupeEntityType): string => {
+  const words = (name || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    // W.L.L. -> wll
+    .replace(/\./g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const significant = entityType === 'company' ? words.filter(word => !COMPANY_SUFFIXES.has(word)) : words;
+  // A name made only of suffixes ("The Trading Company") is still a name
+  return (significant.length > 0 ? significant : words).join(' ');
+};
+
+export const normalizeEmail = (email: string | null | undefined): string | null => {
+  const trimmed = email?.trim().toLowerCase();
+  return trimmed && trimmed.includes('@') ? trimmed : null;
+};
+
+export function extractDomain(url: string): string | null {
+  try {
+    // Handle cases where URL doesn't have protocol
+    const urlWithProtocol = url.startsWith('http') ? url : `https://${url}`;
+    const domain = new URL(urlWithProtocol).hostname;
+    return domain.replace('www.', '');
+  } catch {
+    // If URL parsing fails, try to extract domain with regex
+    const match = url.match(/(?:https?:\/\/)?(?:www\.)?([^/\s]+)/);
+    return match ? match[1] : null;
+  }
+}
+
+/**
+ * The company domain of a record: its website, or the domain of a non-webmail email address.
+ */
+export const recordDomain = (record: Pick<DedupeRecord, 'website' | 'email'>): string | null => {
+  const website = record.website?.trim();
+  if (website) {
+    const domain = extractDomain(website.toLowerCase());
+    if (domain && domain.includes('.')) return domain;
+  }
+
+  const email = normalizeEmail(record.email);
+  const emailDomain = email?.split('@')[1];
+  return emailDomain && !FREE_EMAIL_DOMAINS.has(emailDomain) ? emailDomain : null;
+};
+
+/**
+ * International digits of a phone number, e.g. "97333123456". Numbers entered without a country code take
+ * the record's country code, or the tenant's. Returns null for anything too short to be a phone number.
+ */
+export const normalizePhone = (
+  record: Pick<DedupeRecord, 'phone' | 'phone_number' | 'country_code'>,
+  defaultCountryCode: string
+): string | null => {
+  const raw = (record.phone_number || record.phone || '').trim();
+  const digits = raw.replace(/\D/g, '');
+  if (digits.length < 6) return null;
+
+  if (raw.startsWith('+')) return digits;
+  if (digits.startsWith('00')) return digits.slice(2);
+
+  // phone_number is stored next to its country code; legacy phone values take the tenant's
+  const code = (record.phone_number && record.country_code) || defaultCountryCode;
+  return `${code.replace(/\D/g, '')}${digits.replace(/^0+/, '')}`;
+};
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const padded = ` ${value} `;
+  for (let i = 0; i < padded.length - 1; i++) {
+    const pair = padded.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Dice similarity of two normalized names over character pairs, from 0 (nothing shared) to 1 (identical).
+ * Word order does not matter, so "Smith John" matches "John Smith".
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  if (!a || !b) return 0;
+  const sortedA = a.split(' ').sort().join(' ');
+  const sortedB = b.split(' ').sort().join(' ');
+  if (sortedA === sortedB) return 1;
+
+  const pairsA = bigrams(sortedA);
+  const pairsB = bigrams(sortedB);
+  let shared = 0;
+  pairsA.forEach((count, pair) => {
+    shared += Math.min(count, pairsB.get(pair) || 0);
+  });
+  const total = sortedA.length + 1 + sortedB.length + 1;
+  return (2 * shared) / total;
+};
+
+interface Prepared {
+  record: DedupeRecord;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  domain: string | null;
+  city: string | null;
+}
+
+/**
+ * Candidate duplicate pairs among the records of one type, best matches first. Records are only compared when
+ * they share an email, phone, domain or a name word, so a tenant's whole list can be checked at once.
+ */
+export const findDuplicateCandidates = (
+  records: DedupeRecord[],
+  entityType: DedupeEntityType,
+  options: DedupeOptions = {}
+): DuplicateCandidate[] => {
+  const nameThreshold = options.nameThreshold ?? 0.85;
+  const defaultCountryCode = getCountryCodeForCountry(options.country || '');
+
+  const prepared: Prepared[] = records.map(record => ({
+    record,
+    name: normalizeName(record.name, entityType),
+    email: normalizeEmail(record.email),
+    phone: normalizePhone(record, defaultCountryCode),
+    // A shared domain means colleagues for contacts, not the same person
+    domain: entityType === 'company' ? recordDomain(record) : null,
+    city: record.city?.trim().toLowerCase() || null,
+  }));
+
+  const blocks = new Map<string, number[]>();
+  const addToBlock = (key: string, index: number) => {
+    const block = blocks.get(key);
+    if (block) {
+      block.push(index);
+    } else {
+      blocks.set(key, [index]);
+    }
+  };
+
+  prepared.forEach((entry, index) => {
+    if (entry.email) addToBlock(`email:${entry.email}`, index);
+    if (entry.phone) addToBlock(`phone:${entry.phone}`, index);
+    if (entry.domain) addToBlock(`domain:${entry.domain}`, index);
+    new Set(entry.name.split(' ').filter(word => word.length >= 2)).forEach(word => addToBlock(`word:${word}`, index));
+  });
+
+  const candidates = new Map<string, DuplicateCandidate>();
+
+  blocks.forEach(indexes => {
+    if (indexes.length < 2 || indexes.length > MAX_BLOCK_SIZE) return;
+
+    for (let i = 0; i < indexes.length; i++) {
+      for (let j = i + 1; j < indexes.length; j++) {
+        const [first, second] = [prepared[indexes[i]], prepared[indexes[j]]];
+        const key = [first.record.id, second.record.id].sort().join(':');
+        if (candidates.has(key)) continue;
+
+        const reasons: MatchReason[] = [];
+        if (first.email && first.email === second.email) reasons.push('email');
+        if (first.phone && first.phone === second.phone) reasons.push('phone');
+        if (first.domain && first.domain === second.domain) reasons.push('domain');
+
+        // Sites with the same name in different cities are different sites
+        const otherCity = entityType === 'site' && !!first.city && !!second.city && first.city !== second.city;
+        const similarity = otherCity ? 0 : nameSimilarity(first.name, second.name);
+        if (similarity >= nameThreshold) reasons.push('name');
+        if (reasons.length === 0) continue;
+
+        // Best single signal, plus a little for every other signal that agrees
+        const best = Math.max(...reasons.map(reason => (reason === 'name' ? Math.round(similarity * 100) : MATCH_SCORES[reason])));
+        const score = Math.min(100, best + (reasons.length - 1) * 5);
+
+        const [primary, duplicate] = first.record.created_at <= second.record.created_at
+          ? [first.record, second.record]
+          : [second.record, first.record];
+        candidates.set(key, { key, primary, duplicate, reasons, score });
+      }
+    }
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => b.score - a.score);
+};
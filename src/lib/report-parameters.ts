@@ -0,0 +1,66 @@
+/**
+ * Report parameters
+ *
+ * A report can declare parameters (an assignee, a date range, a branch, ...) and reference them from filter values
+ * as {name}. The report runner prompts for them and dashboard widgets store their own values; the generate-report-data
+ * edge function substitutes the values, dropping filters whose optional parameter is left empty. Keep the token and
+ * date range rules in line with supabase/functions/generate-report-data/parameters.ts.
+ */
+
+import type { ParameterType, QueryConfig, ReportParameter } from '@/lib/report-query';
+
+export type ParameterValues = Record<string, string>;
+
+export const PARAMETER_TYPES: Array<{ value: ParameterType; label: string; hint: string }> = [
+  { value: 'text', label: 'Text', hint: 'Free text, e.g. a status or a name' },
+  { value: 'number', label: 'Number', hint: 'A number, e.g. a minimum value' },
+  { value: 'date', label: 'Date', hint: 'A single date, e.g. for "Before Date"' },
+  { value: 'date_range', label: 'Date Range', hint: 'Use with the "Between" operator' },
+  { value: 'user', label: 'User', hint: 'Use with "Equals" on an assigned user field' },
+  { value: 'branch', label: 'Branch', hint: 'Matches records assigned to the branch\'s users; use with "Equals" on an assigned user field' },
+];
+
+const TOKEN = /\{([a-z][a-z0-9_]*)\}/gi;
+
+export const parameterToken = (name: string) => `{${name}}`;
+
+/** Token-safe name from a label, unique among the names already taken */
+export function parameterName(label: string, taken: string[]): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '') || 'parameter';
+  let name = base;
+  for (let suffix = 2; taken.includes(name); suffix++) name = `${base}_${suffix}`;
+  return name;
+}
+
+/** Names of the parameters referenced by the filters and aggregate conditions */
+export function referencedParameters(config: Partial<QueryConfig>): string[] {
+  const values = [
+    ...(config.filters || []).map(filter => filter.value),
+    ...(config.aggregations || []).map(aggregation => aggregation.where?.value),
+  ];
+  const names = values.flatMap(value => [...String(value ?? '').matchAll(TOKEN)].map(match => match[1]));
+  return [...new Set(names)];
+}
+
+/** Defaults, overridden by stored values (a widget's) and then by explicit ones (e.g. from the URL) */
+export function initialParameterValues(parameters: ReportParameter[] = [], ...sources: Array<Record<string, unknown> | undefined>): ParameterValues {
+  return Object.fromEntries(
+    parameters.map(parameter => {
+      const explicit = sources.reduce<unknown>((value, source) => source?.[parameter.name] ?? value, undefined);
+      return [parameter.name, String(explicit ?? parameter.default_value ?? '')];
+    })
+  );
+}
+
+/** Required parameters that have no value, so the report cannot run yet */
+export function missingParameters(parameters: ReportParameter[] = [], values: ParameterValues): ReportParameter[] {
+  return parameters.filter(parameter => parameter.required && !String(values[parameter.name] ?? parameter.default_value ?? '').trim());
+}
+
+/** Date range values are "from..to", with either side optional */
+export function parseDateRange(value: string | undefined): { from: string; to: string } {
+  const [from = '', to = ''] = String(value ?? '').split('..');
+  return { from: from.trim(), to: to.trim() };
+}
+
+export const formatDateRange = (from: string, to: string) => (from || to ? `${from}..${to}` : '');
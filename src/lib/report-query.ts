@@ -0,0 +1,248 @@
+/**
+ * Report query configuration
+ *
+ * Shape of reports.query_config as edited by the query builder and executed by the generate-report-data edge
+ * function. Grouping, aggregations and calculated columns are evaluated server-side; the aggregate alias rules
+ * here must stay in line with supabase/functions/generate-report-data/aggregation.ts.
+ */
+
+export type VisualizationType = 'table' | 'bar_chart' | 'pie_chart' | 'kpi_cards' | 'comparison_chart';
+
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export type DateBucket = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export type ComparisonPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export type ComparisonBaseline = 'previous_period' | 'previous_year';
+
+export interface ReportFilter {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+export interface ReportSort {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface AggregationConfig {
+  /** Source field, or '*' to count rows */
+  field: string;
+  function: AggregateFunction;
+  alias?: string;
+  label?: string;
+  /** Only rows matching the condition are aggregated, e.g. count of won deals */
+  where?: ReportFilter;
+}
+
+export interface CalculatedField {
+  alias: string;
+  label?: string;
+  /** Arithmetic over aggregate aliases: + - * / and parentheses */
+  expression: string;
+}
+
+/** This period vs. the previous one, or vs. the same period last year, by a date field */
+export interface PeriodComparisonConfig {
+  field: string;
+  period: ComparisonPeriod;
+  compare_to: ComparisonBaseline;
+  /** Compare only the elapsed part of the period, e.g. Oct 1-19 against Sep 1-19 */
+  to_date?: boolean;
+}
+
+export type ParameterType = 'text' | 'number' | 'date' | 'date_range' | 'user' | 'branch';
+
+/** Prompted when the report runs and referenced from filter values as {name} */
+export interface ReportParameter {
+  name: string;
+  label: string;
+  type: ParameterType;
+  required?: boolean;
+  default_value?: string;
+}
+
+export interface QueryConfig {
+  fields: string[];
+  filters: ReportFilter[];
+  sorting: ReportSort[];
+  grouping: string[];
+  visualization_type: VisualizationType;
+  comparison_fields?: string[];
+  date_buckets?: Record<string, DateBucket>;
+  aggregations?: AggregationConfig[];
+  calculated_fields?: CalculatedField[];
+  period_comparison?: PeriodComparisonConfig;
+  parameters?: ReportParameter[];
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  kind: 'group' | 'aggregate' | 'calculated';
+  bucket?: DateBucket;
+  /** Set on period comparison columns, with the key of the value column they derive from */
+  comparison?: 'current' | 'previous' | 'change' | 'change_percent';
+  source?: string;
+}
+
+export interface PeriodRange {
+  start: string;
+  end: string;
+  label: string;
+}
+
+/** Values of the group columns of a chart entry, matched against the records to drill down to */
+export type DrillDownGroup = Record<string, unknown>;
+
+/** Response of the generate-report-data edge function */
+export interface ReportDataResult {
+  data: Record<string, unknown>[];
+  count: number;
+  columns?: ReportColumn[];
+  totals?: Record<string, number | null>;
+  aggregated?: boolean;
+  periods?: { current: PeriodRange; previous: PeriodRange };
+  /** Columns of a drill-down, which returns records rather than groups */
+  fields?: string[];
+}
+
+export const AGGREGATE_FUNCTIONS: Array<{ value: AggregateFunction; label: string }> = [
+  { value: 'count', label: 'Count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+];
+
+export const DATE_BUCKETS: Array<{ value: DateBucket; label: string }> = [
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+];
+
+export const COMPARISON_PERIODS: Array<{ value: ComparisonPeriod; label: string }> = [
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+];
+
+export const COMPARISON_BASELINES: Array<{ value: ComparisonBaseline; label: string }> = [
+  { value: 'previous_period', label: 'Previous period' },
+  { value: 'previous_year', label: 'Same period last year' },
+];
+
+export const MAX_GROUPING_LEVELS = 3;
+
+export const isDateField = (field: string) =>
+  field.includes('date') || field.endsWith('_at') || field.startsWith('period_');
+
+export const isNumericField = (field: string) =>
+  ['value', 'amount', 'count', 'progress', 'percentage', 'probability', 'number'].some(part => field.includes(part));
+
+export function aggregationAlias(aggregation: AggregationConfig): string {
+  if (aggregation.alias) return aggregation.alias;
+  return aggregation.field === '*' ? aggregation.function : `${aggregation.function}_${aggregation.field}`;
+}
+
+export const hasAggregation = (config: Partial<QueryConfig>) =>
+  (config.grouping?.length || 0) > 0 || (config.aggregations?.length || 0) > 0 || !!config.period_comparison?.field;
+
+/** Keys of the columns a period comparison derives from one value column */
+export const comparisonColumnKeys = (key: string) => ({
+  current: key,
+  previous: `${key}_previous`,
+  change: `${key}_change`,
+  change_percent: `${key}_change_pct`,
+});
+
+/** Alias for a new aggregate that does not clash with the existing columns */
+export function uniqueAlias(base: string, taken: string[]): string {
+  const slug = base.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'column';
+  const name = /^[a-z_]/.test(slug) ? slug : `c_${slug}`;
+  let alias = name;
+  let suffix = 2;
+  while (taken.includes(alias)) alias = `${name}_${suffix++}`;
+  return alias;
+}
+
+export interface CalculatedFieldPreset {
+  label: string;
+  aggregations: AggregationConfig[];
+  field: CalculatedField;
+}
+
+export const CALCULATED_FIELD_PRESETS: Record<string, CalculatedFieldPreset[]> = {
+  deals: [
+    {
+      label: 'Win rate',
+      aggregations: [
+        { field: '*', function: 'count', alias: 'won_count', label: 'Won Deals', where: { field: 'status', operator: 'equals', value: 'won' } },
+        { field: '*', function: 'count', alias: 'lost_count', label: 'Lost Deals', where: { field: 'status', operator: 'equals', value: 'lost' } },
+      ],
+      field: { alias: 'win_rate', label: 'Win Rate %', expression: 'won_count / (won_count + lost_count) * 100' },
+    },
+    {
+      label: 'Average deal size',
+      aggregations: [
+        { field: '*', function: 'count', alias: 'deal_count', label: 'Deals' },
+        { field: 'value', function: 'sum', alias: 'total_value', label: 'Total Value' },
+      ],
+      field: { alias: 'average_deal_value', label: 'Average Deal Size', expression: 'total_value / deal_count' },
+    },
+  ],
+  contracts: [
+    {
+      label: 'Average contract value',
+      aggregations: [
+        { field: '*', function: 'count', alias: 'contract_count', label: 'Contracts' },
+        { field: 'value', function: 'sum', alias: 'total_value', label: 'Total Value' },
+      ],
+      field: { alias: 'average_contract_value', label: 'Average Contract Value', expression: 'total_value / contract_count' },
+    },
+  ],
+  contract_payments: [
+    {
+      label: 'To-do completion rate',
+      aggregations: [
+        { field: 'todos_count', function: 'sum', alias: 'pending_todos', label: 'Pending To-Dos' },
+        { field: 'todos_completed_count', function: 'sum', alias: 'completed_todos', label: 'Completed To-Dos' },
+      ],
+      field: {
+        alias: 'todo_completion_rate',
+        label: 'To-Do Completion %',
+        expression: 'completed_todos / (completed_todos + pending_todos) * 100',
+      },
+    },
+  ],
+  targets: [
+    {
+      label: 'Overall achievement',
+      aggregations: [
+        { field: 'current_progress', function: 'sum', alias: 'total_progress', label: 'Total Progress' },
+        { field: 'target_value', function: 'sum', alias: 'total_target', label: 'Total Target' },
+      ],
+      field: { alias: 'achievement_rate', label: 'Achievement %', expression: 'total_progress / total_target * 100' },
+    },
+  ],
+};
+
+/** Adds a preset's calculated column along with any aggregates it needs that are not configured yet */
+export function applyCalculatedPreset(config: QueryConfig, preset: CalculatedFieldPreset): QueryConfig {
+  const aggregations = config.aggregations || [];
+  const calculated = config.calculated_fields || [];
+  const aliases = aggregations.map(aggregationAlias);
+
+  return {
+    ...config,
+    aggregations: [...aggregations, ...preset.aggregations.filter(a => !aliases.includes(aggregationAlias(a)))],
+    calculated_fields: calculated.some(c => c.alias === preset.field.alias)
+      ? calculated
+      : [...calculated, preset.field],
+  };
+}
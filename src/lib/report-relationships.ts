@@ -0,0 +1,216 @@
+/**
+ * Report relationships
+ *
+ * Entities each report data source can be joined to, and the related fields the query builder offers. Related
+ * fields are keyed `<relation>__<field>` and resolved by the generate-report-data edge function; the relation and
+ * field names must stay in line with supabase/functions/generate-report-data/relationships.ts.
+ */
+
+export const RELATED_FIELD_SEPARATOR = '__';
+
+export interface ReportRelation {
+  name: string;
+  label: string;
+  /** 'many' relations add one report row per related record */
+  cardinality: 'one' | 'many';
+  fields: Array<{ name: string; label: string }>;
+}
+
+export interface RelatedFieldOption {
+  value: string;
+  label: string;
+}
+
+const DEAL_FIELDS = [
+  { name: 'name', label: 'Name' },
+  { name: 'value', label: 'Value' },
+  { name: 'status', label: 'Status' },
+];
+
+export const REPORT_RELATIONS: Record<string, ReportRelation[]> = {
+  contracts: [
+    {
+      name: 'deal',
+      label: 'Deal',
+      cardinality: 'one',
+      fields: [
+        ...DEAL_FIELDS,
+        { name: 'source_name', label: 'Source' },
+        { name: 'stage_name', label: 'Stage' },
+        { name: 'expected_close_date', label: 'Expected Close Date' },
+        { name: 'created_at', label: 'Created Date' },
+      ],
+    },
+    {
+      name: 'company',
+      label: 'Company',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'industry', label: 'Industry' },
+        { name: 'size', label: 'Size' },
+        { name: 'country_code', label: 'Country' },
+      ],
+    },
+    {
+      name: 'payment_terms',
+      label: 'Payment Terms',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'installment_number', label: 'Installment #' },
+        { name: 'due_date', label: 'Due Date' },
+        { name: 'calculated_amount', label: 'Amount' },
+        { name: 'payment_status', label: 'Payment Status' },
+        { name: 'received_amount', label: 'Received Amount' },
+        { name: 'received_date', label: 'Received Date' },
+      ],
+    },
+  ],
+  contract_payments: [
+    {
+      name: 'contract',
+      label: 'Contract',
+      cardinality: 'one',
+      fields: [
+        { name: 'status', label: 'Status' },
+        { name: 'value', label: 'Value' },
+        { name: 'signed_date', label: 'Signed Date' },
+        { name: 'start_date', label: 'Start Date' },
+        { name: 'end_date', label: 'End Date' },
+        { name: 'deal_name', label: 'Deal' },
+        { name: 'deal_source_name', label: 'Deal Source' },
+      ],
+    },
+  ],
+  deals: [
+    {
+      name: 'source',
+      label: 'Source',
+      cardinality: 'one',
+      fields: [{ name: 'name', label: 'Name' }],
+    },
+    {
+      name: 'company',
+      label: 'Primary Company',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'industry', label: 'Industry' },
+        { name: 'size', label: 'Size' },
+        { name: 'country_code', label: 'Country' },
+      ],
+    },
+    {
+      name: 'companies',
+      label: 'Linked Companies',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'industry', label: 'Industry' },
+        { name: 'relationship_type', label: 'Relationship' },
+      ],
+    },
+    {
+      name: 'contacts',
+      label: 'Linked Contacts',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'email', label: 'Email' },
+        { name: 'position', label: 'Position' },
+        { name: 'role', label: 'Role' },
+      ],
+    },
+    {
+      name: 'contract',
+      label: 'Contract',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'status', label: 'Status' },
+        { name: 'value', label: 'Value' },
+        { name: 'signed_date', label: 'Signed Date' },
+      ],
+    },
+  ],
+  companies: [
+    {
+      name: 'deals',
+      label: 'Deals',
+      cardinality: 'many',
+      fields: [
+        ...DEAL_FIELDS,
+        { name: 'expected_close_date', label: 'Expected Close Date' },
+        { name: 'relationship_type', label: 'Relationship' },
+      ],
+    },
+  ],
+  contacts: [
+    {
+      name: 'customer',
+      label: 'Customer',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'type', label: 'Type' },
+        { name: 'country', label: 'Country' },
+      ],
+    },
+    {
+      name: 'deals',
+      label: 'Deals',
+      cardinality: 'many',
+      fields: [...DEAL_FIELDS, { name: 'role', label: 'Role' }],
+    },
+  ],
+  sites: [
+    {
+      name: 'customer',
+      label: 'Customer',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'type', label: 'Type' },
+      ],
+    },
+  ],
+  customers: [
+    {
+      name: 'contracts',
+      label: 'Contracts',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name' },
+        { name: 'status', label: 'Status' },
+        { name: 'value', label: 'Value' },
+        { name: 'signed_date', label: 'Signed Date' },
+      ],
+    },
+    {
+      name: 'deals',
+      label: 'Deals',
+      cardinality: 'many',
+      fields: DEAL_FIELDS,
+    },
+  ],
+};
+
+export const isRelatedField = (field: string) => field.includes(RELATED_FIELD_SEPARATOR);
+
+export const relatedFieldKey = (relation: string, field: string) => `${relation}${RELATED_FIELD_SEPARATOR}${field}`;
+
+/** Related fields of one relation as field options, labelled with the relation, e.g. "Deal: Source" */
+export const relationFieldOptions = (relation: ReportRelation): RelatedFieldOption[] =>
+  relation.fields.map(field => ({
+    value: relatedFieldKey(relation.name, field.name),
+    label: `${relation.label}: ${field.label}`,
+  }));
+
+export const relatedFieldOptions = (dataSource: string): RelatedFieldOption[] =>
+  (REPORT_RELATIONS[dataSource] || []).flatMap(relationFieldOptions);
+
+export function relatedFieldLabel(dataSource: string, field: string): string | null {
+  if (!isRelatedField(field)) return null;
+  return relatedFieldOptions(dataSource).find(option => option.value === field)?.label || null;
+}
@@ -15,7 +15,8 @@ import {
   Flag,
   Trophy,
   Palette,
-  Boxes
+  Boxes,
+  Gauge
 } from 'lucide-react';
 
 // Import CRM components
@@ -27,6 +28,7 @@ import { CompanyTypesManager } from '@/components/settings/CompanyTypesManager';
 import { RelationshipRolesSettings } from '@/components/settings/RelationshipRolesSettings';
 import { LeadStagesManager } from '@/components/settings/LeadStagesManager';
 import { LeadQualityManager } from '@/components/settings/LeadQualityManager';
+import { LeadScoringManager } from '@/components/settings/LeadScoringManager';
 import { DealSourcesManager } from '@/components/settings/DealSourcesManager';
 import { DealStatusesManager } from '@/components/settings/DealStatusesManager';
 import { SolutionCategoriesManager } from '@/components/settings/SolutionCategoriesManager';
@@ -55,6 +57,12 @@ const CRMSettingsPage = () => {
       icon: Star,
       component: LeadQualityManager
     },
+    {
+      id: 'lead-scoring',
+      label: 'Lead Scoring',
+      icon: Gauge,
+      component: LeadScoringManager
+    },
     {
       id: 'deal-sources',
       label: 'Deal Sources',
@@ -0,0 +1,376 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import * as XLSX from 'xlsx';
+import { AlertTriangle, Download, Loader2, TrendingUp } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { CashFlowForecastChart } from '@/components/reports/CashFlowForecastChart';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useCurrency } from '@/hooks/use-currency';
+import { useToast } from '@/hooks/use-toast';
+import { buildConversionRateTable } from '@/lib/quote-totals';
+import {
+  ContractInstallmentInput,
+  DealInstallmentInput,
+  FORECAST_SCENARIOS,
+  ForecastScenario,
+  buildCashFlowForecast,
+  formatForecastMonth,
+} from '@/lib/cash-flow-forecast';
+
+const HORIZONS = [3, 6, 12, 18];
+
+export default function CashFlowForecast() {
+  const { currentTenant } = useTenant();
+  const { currencyCode, formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const [horizon, setHorizon] = useState(6);
+  const [scenario, setScenario] = useState<ForecastScenario>('expected');
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ['cash-flow-forecast', currentTenant?.id],
+    enabled: !!currentTenant,
+    queryFn: async () => {
+      const tenantId = currentTenant!.id;
+      const [contractResult, dealResult, settingsResult, ratesResult, currenciesResult] = await Promise.all([
+        supabase
+          .from('contract_payment_terms')
+          .select(`
+            id,
+            contract_id,
+            installment_number,
+            amount_type,
+            amount_value,
+            calculated_amount,
+            received_amount,
+            payment_status,
+            due_date,
+            contracts!inner(name, status, value, currency_id, customers(name, currency_id))
+          `)
+          .eq('tenant_id', tenantId)
+          .or('payment_status.is.null,payment_status.neq.paid'),
+        supabase
+          .from('deal_payment_terms')
+          .select(`
+            id,
+            deal_id,
+            installment_number,
+            amount_type,
+            amount_value,
+            calculated_amount,
+            due_date,
+            deals!inner(
+              name,
+              value,
+              status,
+              probability,
+              expected_close_date,
+              currency_id,
+              customers(name, currency_id),
+              deal_stages(win_percentage),
+              contracts!fk_contracts_deal_id(id)
+            )
+          `)
+          .eq('tenant_id', tenantId),
+        supabase
+          .from('tenant_pricing_settings')
+          .select('custom_conversion_rates')
+          .eq('tenant_id', tenantId)
+          .maybeSingle(),
+        supabase
+          .from('currency_settings')
+          .select('from_currency_id, to_currency_id, conversion_rate')
+          .eq('tenant_id', tenantId),
+        supabase.from('currencies').select('id, code'),
+      ]);
+
+      const error = contractResult.error || dealResult.error || settingsResult.error || ratesResult.error || currenciesResult.error;
+      if (error) throw error;
+
+      return {
+        contractTerms: (contractResult.data || []) as unknown as ContractInstallmentInput[],
+        dealTerms: (dealResult.data || []) as unknown as DealInstallmentInput[],
+        rates: buildConversionRateTable(ratesResult.data || [], settingsResult.data?.custom_conversion_rates),
+        currencyCodes: Object.fromEntries((currenciesResult.data || []).map(currency => [currency.id, currency.code])),
+      };
+    },
+  });
+
+  const forecast = useMemo(
+    () =>
+      sources
+        ? buildCashFlowForecast(sources.contractTerms, sources.dealTerms, {
+            rates: sources.rates,
+            currencyId: currentTenant?.default_currency_id,
+            horizonMonths: horizon,
+          })
+        : null,
+    [sources, currentTenant?.default_currency_id, horizon]
+  );
+
+  const visibleLines = (forecast?.lines || []).filter(line => !selectedMonth || line.month === selectedMonth);
+  const missingCurrencies = (forecast?.missingRateCurrencies || []).map(id => sources?.currencyCodes[id] || 'unknown');
+
+  const exportToExcel = () => {
+    if (!forecast) return;
+
+    try {
+      const workbook = XLSX.utils.book_new();
+
+      const summaryData: (string | number)[][] = [
+        ['Cash-Flow Forecast'],
+        [`Amounts in ${currencyCode}`, `Generated ${new Date().toLocaleString()}`],
+        [],
+        [
+          'Month',
+          'Contracts',
+          'Deals (weighted)',
+          'Expected',
+          'Best case',
+          'Worst case',
+          'Cumulative expected',
+          'Cumulative best',
+          'Cumulative worst',
+        ],
+        ...forecast.months.map(month => [
+          month.label,
+          month.contracts.expected,
+          month.deals.expected,
+          month.total.expected,
+          month.total.best,
+          month.total.worst,
+          month.cumulative.expected,
+          month.cumulative.best,
+          month.cumulative.worst,
+        ]),
+        [],
+        ['TOTAL', '', '', forecast.totals.expected, forecast.totals.best, forecast.totals.worst],
+      ];
+      const summarySheet = XLSX.utils.aoa_to_sheet(summaryData);
+      summarySheet['!cols'] = [{ wch: 14 }, ...Array(8).fill({ wch: 18 })];
+      XLSX.utils.book_append_sheet(workbook, summarySheet, 'Summary');
+
+      const detailData: (string | number)[][] = [
+        ['Month', 'Due Date', 'Source', 'Contract / Deal', 'Customer', 'Installment', 'Amount', 'Probability', 'Expected', 'Best case', 'Worst case', 'Overdue'],
+        ...forecast.lines.map(line => [
+          formatForecastMonth(line.month),
+          line.dueDate,
+          line.source === 'contract' ? 'Contract' : 'Deal',
+          line.parentName,
+          line.customerName,
+          line.installmentNumber,
+          line.amount,
+          Math.round(line.weight * 100),
+          line.scenarios.expected,
+          line.scenarios.best,
+          line.scenarios.worst,
+          line.overdue ? 'Yes' : '',
+        ]),
+      ];
+      const detailSheet = XLSX.utils.aoa_to_sheet(detailData);
+      detailSheet['!cols'] = [{ wch: 12 }, { wch: 12 }, { wch: 10 }, { wch: 30 }, { wch: 25 }, ...Array(7).fill({ wch: 12 })];
+      XLSX.utils.book_append_sheet(workbook, detailSheet, 'Installments');
+
+      XLSX.writeFile(workbook, `Cash_Flow_Forecast_${new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting cash-flow forecast:', error);
+      toast({ title: 'Error', description: 'Failed to export the forecast', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Cash-Flow Forecast</h1>
+            <p className="text-muted-foreground">
+              Projected monthly inflows from unpaid contract installments and probable deals, in {currencyCode}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={String(horizon)} onValueChange={(value) => setHorizon(Number(value))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {HORIZONS.map((months) => (
+                  <SelectItem key={months} value={String(months)}>
+                    Next {months} months
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={scenario} onValueChange={(value: ForecastScenario) => setScenario(value)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FORECAST_SCENARIOS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={exportToExcel} disabled={!forecast}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          </div>
+        </div>
+
+        {isLoading || !forecast ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {FORECAST_SCENARIOS.map((option) => (
+                <Card
+                  key={option.value}
+                  className={option.value === scenario ? 'border-primary cursor-pointer' : 'cursor-pointer'}
+                  onClick={() => setScenario(option.value)}
+                >
+                  <CardContent className="p-6">
+                    <p className="text-sm font-medium text-muted-foreground">{option.label}</p>
+                    <p className="text-2xl font-bold">{formatCurrency(forecast.totals[option.value])}</p>
+                    <p className="text-xs text-muted-foreground mt-1">{option.description}</p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {(missingCurrencies.length > 0 || forecast.unscheduledCount > 0) && (
+              <div className="flex items-start gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <div>
+                  {missingCurrencies.length > 0 && (
+                    <p>
+                      No conversion rate to {currencyCode} for {missingCurrencies.join(', ')}; those amounts are shown
+                      unconverted.
+                    </p>
+                  )}
+                  {forecast.unscheduledCount > 0 && (
+                    <p>{forecast.unscheduledCount} installment(s) have no due date and are not forecast.</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <TrendingUp className="h-5 w-5" />
+                  Monthly Inflows
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <CashFlowForecastChart months={forecast.months} scenario={scenario} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>By Month</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Month</TableHead>
+                      <TableHead className="text-right">Contracts</TableHead>
+                      <TableHead className="text-right">Deals</TableHead>
+                      <TableHead className="text-right">Expected</TableHead>
+                      <TableHead className="text-right">Best Case</TableHead>
+                      <TableHead className="text-right">Worst Case</TableHead>
+                      <TableHead className="text-right">Cumulative</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {forecast.months.map((month) => (
+                      <TableRow
+                        key={month.month}
+                        className={month.month === selectedMonth ? 'bg-muted cursor-pointer' : 'cursor-pointer'}
+                        onClick={() => setSelectedMonth(month.month === selectedMonth ? null : month.month)}
+                      >
+                        <TableCell className="font-medium">{month.label}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.contracts[scenario])}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.deals[scenario])}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.total.expected)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.total.best)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(month.total.worst)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatCurrency(month.cumulative[scenario])}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  Installments{selectedMonth ? ` due in ${formatForecastMonth(selectedMonth)}` : ''}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {visibleLines.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No installments in this period</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Due Date</TableHead>
+                        <TableHead>Contract / Deal</TableHead>
+                        <TableHead>Customer</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="text-right">Probability</TableHead>
+                        <TableHead className="text-right">{FORECAST_SCENARIOS.find(option => option.value === scenario)?.label}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {visibleLines.map((line) => (
+                        <TableRow key={`${line.source}-${line.id}`}>
+                          <TableCell>
+                            {new Date(line.dueDate).toLocaleDateString()}
+                            {line.overdue && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                          </TableCell>
+                          <TableCell>
+                            <Link
+                              to={line.source === 'contract' ? `/contracts/${line.parentId}` : `/deals/${line.parentId}`}
+                              className="hover:underline"
+                            >
+                              {line.parentName}
+                            </Link>
+                            <span className="text-muted-foreground"> · #{line.installmentNumber}</span>
+                            {line.source === 'deal' && <Badge variant="outline" className="ml-2">Deal</Badge>}
+                          </TableCell>
+                          <TableCell>{line.customerName || '-'}</TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(line.amount)}
+                            {line.missingRate && <span className="text-yellow-600" title="Not converted"> *</span>}
+                          </TableCell>
+                          <TableCell className="text-right">{Math.round(line.weight * 100)}%</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(line.scenarios[scenario])}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
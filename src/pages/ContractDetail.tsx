@@ -13,6 +13,7 @@ import { toast } from 'sonner';
 import { TodoWidget } from '@/components/todos/TodoWidget';
 import { ContractAuditTrail } from '@/components/contracts/ContractAuditTrail';
 import { ContractPaymentTerms } from '@/components/contracts/ContractPaymentTerms';
+import { ContractPaymentReceipts } from '@/components/contracts/ContractPaymentReceipts';
 
 interface Contract {
   id: string;
@@ -43,6 +44,8 @@ const ContractDetail = () => {
   const [loading, setLoading] = useState(true);
   const [canEdit, setCanEdit] = useState(false);
   const [showAuditTrail, setShowAuditTrail] = useState(false);
+  // Bumped when payments are registered, to reload the installments they were allocated to
+  const [paymentsVersion, setPaymentsVersion] = useState(0);
 
   useEffect(() => {
     if (id && currentTenant?.id) {
@@ -318,6 +321,7 @@ const ContractDetail = () => {
               </CardHeader>
               <CardContent>
                 <ContractPaymentTerms 
+                  key={paymentsVersion}
                   contractId={contract.id} 
                   canEdit={canEdit}
                   onUpdate={fetchContract}
@@ -325,6 +329,22 @@ const ContractDetail = () => {
               </CardContent>
             </Card>
 
+            {/* Payments Received */}
+            <Card className="bg-card border-border">
+              <CardHeader>
+                <CardTitle>Payments Received</CardTitle>
+                <p className="text-sm text-muted-foreground">Payments allocated across instalments, and credit left for later ones</p>
+              </CardHeader>
+              <CardContent>
+                <ContractPaymentReceipts
+                  contractId={contract.id}
+                  canEdit={canEdit}
+                  currencyCode={contract.currencies?.code}
+                  onUpdate={() => setPaymentsVersion(version => version + 1)}
+                />
+              </CardContent>
+            </Card>
+
             {/* Audit Trail */}
             <Card className="bg-card border-border">
               <CardHeader>
@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Handshake, DollarSign, Archive } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Handshake, DollarSign, Archive, Columns3, List, Search } from 'lucide-react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
@@ -13,6 +14,11 @@ import { usePersistentFilters } from '@/hooks/use-persistent-filters';
 import { EntityListing } from '@/components/entity-listing';
 import { DeleteConfirmationModal } from '@/components/modals/DeleteConfirmationModal';
 import { DealFilters, DealFilterOptions } from '@/components/deals/DealFilters';
+import { DealsKanbanBoard } from '@/components/deals/DealsKanbanBoard';
+import { useDealStatusChange } from '@/hooks/use-deal-status-change';
+import { completeDealToContract } from '@/hooks/use-deal-contract-automation';
+import { useDealsRealtime } from '@/hooks/use-dynamic-entities';
+import { PipelineStage } from '@/lib/deal-pipeline';
 
 interface Deal {
   id: string;
@@ -25,6 +31,7 @@ interface Deal {
   value?: number;
   currency_id?: string;
   status: 'lead' | 'qualified' | 'proposal' | 'negotiation' | 'won' | 'lost';
+  deal_status_id?: string;
   probability?: number;
   expected_close_date?: string;
   assigned_to?: string;
@@ -71,8 +78,9 @@ const stageColors = {
 const Deals = () => {
   const { currentTenant } = useTenant();
   const { user } = useAuth();
-  const { getVisibilityLevel, isAdmin } = usePermissions();
+  const { getVisibilityLevel, isAdmin, hasPermission } = usePermissions();
   const { toast } = useToast();
+  const { updateDealStage } = useDealStatusChange();
   const navigate = useNavigate();
   const [deals, setDeals] = useState<Deal[]>([]);
   const [loading, setLoading] = useState(true);
@@ -89,6 +97,7 @@ const Deals = () => {
   const [filters, setFilters, clearFilters] = usePersistentFilters<DealFilterOptions>('deals', defaultDealFilters);
   const [searchTerm, setSearchTerm] = useState('');
   const [showArchived, setShowArchived] = useState(false);
+  const [view, setView] = useState<'list' | 'board'>('list');
   const [deleteModal, setDeleteModal] = useState<{ open: boolean; deal: Deal | null }>({
     open: false,
     deal: null,
@@ -313,6 +322,42 @@ const Deals = () => {
     fetchDeals();
   }, [currentTenant, user, showArchived, filters, getVisibilityLevel]);
 
+  // The board follows moves made by other users; the ref keeps the subscription stable across renders
+  const fetchDealsRef = useRef(fetchDeals);
+  fetchDealsRef.current = fetchDeals;
+  const handleDealsChanged = useCallback(() => {
+    fetchDealsRef.current();
+  }, []);
+  useDealsRealtime(handleDealsChanged, view === 'board');
+
+  const moveDealToStage = async (dealId: string, stage: PipelineStage) => {
+    const deal = deals.find(d => d.id === dealId);
+    if (!deal || deal.stage_id === stage.id) return;
+
+    // Move the card right away and put it back if the update fails
+    setDeals(prev => prev.map(d =>
+      d.id === dealId
+        ? { ...d, stage_id: stage.id, deal_stages: { name: stage.name, win_percentage: stage.win_percentage } }
+        : d
+    ));
+
+    const result = await updateDealStage(deal, deal.deal_stages?.name || 'No Stage', stage);
+    if (!result.success) {
+      setDeals(prev => prev.map(d => (d.id === dealId ? deal : d)));
+      toast({
+        title: 'Error',
+        description: result.error || 'Failed to move deal',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Same completion flow as saving the deal in a 100% stage
+    if (stage.win_percentage === 100) {
+      await completeDealToContract(dealId, navigate);
+    }
+  };
+
   const handleEdit = (deal: Deal) => {
     navigate(`/deals/edit/${deal.id}`);
   };
@@ -363,14 +408,34 @@ const Deals = () => {
           <h1 className="text-3xl font-bold">Deals</h1>
           <p className="text-muted-foreground">Track and manage sales opportunities</p>
         </div>
-        <Button 
-          variant="outline" 
-          onClick={() => setShowArchived(!showArchived)}
-          className="flex items-center gap-2"
-        >
-          <Archive className="h-4 w-4" />
-          {showArchived ? 'Hide Archived' : 'Show Archived'}
-        </Button>
+        <div className="flex items-center gap-2">
+          <div className="flex items-center border rounded-md">
+            <Button
+              size="sm"
+              variant={view === 'list' ? 'default' : 'ghost'}
+              onClick={() => setView('list')}
+              title="List"
+            >
+              <List className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant={view === 'board' ? 'default' : 'ghost'}
+              onClick={() => setView('board')}
+              title="Pipeline board"
+            >
+              <Columns3 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Button 
+            variant="outline" 
+            onClick={() => setShowArchived(!showArchived)}
+            className="flex items-center gap-2"
+          >
+            <Archive className="h-4 w-4" />
+            {showArchived ? 'Hide Archived' : 'Show Archived'}
+          </Button>
+        </div>
       </div>
 
       <DealFilters
@@ -380,135 +445,156 @@ const Deals = () => {
         totalResults={filteredDeals.length}
       />
       
-      <EntityListing
-        title={showArchived ? "Archived Deals" : "Active Deals"}
-        description={showArchived ? "View your completed and archived deals" : "Track and manage active sales opportunities"}
-        icon={Handshake}
-        entities={filteredDeals}
-        loading={loading}
-        searchTerm={searchTerm}
-        onSearchChange={setSearchTerm}
-        onAdd={() => navigate('/deals/add')}
-        addButtonText="Add Deal"
-        getEntityCardProps={(deal) => ({
-          id: deal.id,
-          title: deal.name,
-          icon: Handshake,
-          badge: {
-            text: deal.deal_stages?.name || 'No Stage',
-            className: `text-white ${deal.deal_stages?.win_percentage >= 80 ? stageColors.won : 
-                                   deal.deal_stages?.win_percentage >= 60 ? stageColors.high :
-                                   deal.deal_stages?.win_percentage >= 30 ? stageColors.medium :
-                                   deal.deal_stages?.win_percentage >= 10 ? stageColors.low :
-                                   stageColors.default}`,
-            variant: 'secondary',
-          },
-          fields: [
-            ...(deal.value ? [{
-              icon: DollarSign,
-              value: `${deal.currencies?.symbol || '$'}${deal.value.toLocaleString()}${deal.probability > 0 ? ` (${deal.probability}%)` : ''}`,
-              isSecondary: false,
-            }] : []),
-            ...(deal.customers ? [{
+      {view === 'board' ? (
+        <div className="space-y-4">
+          <div className="relative max-w-sm">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search deals..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <DealsKanbanBoard
+            deals={filteredDeals}
+            loading={loading}
+            canMove={hasPermission('deals.edit')}
+            onMoveDeal={moveDealToStage}
+            onOpenDeal={(dealId) => navigate(`/deals/edit/${dealId}`)}
+          />
+        </div>
+      ) : (
+        <EntityListing
+          title={showArchived ? "Archived Deals" : "Active Deals"}
+          description={showArchived ? "View your completed and archived deals" : "Track and manage active sales opportunities"}
+          icon={Handshake}
+          entities={filteredDeals}
+          loading={loading}
+          searchTerm={searchTerm}
+          onSearchChange={setSearchTerm}
+          onAdd={() => navigate('/deals/add')}
+          addButtonText="Add Deal"
+          getEntityCardProps={(deal) => ({
+            id: deal.id,
+            title: deal.name,
+            icon: Handshake,
+            badge: {
+              text: deal.deal_stages?.name || 'No Stage',
+              className: `text-white ${deal.deal_stages?.win_percentage >= 80 ? stageColors.won : 
+                                     deal.deal_stages?.win_percentage >= 60 ? stageColors.high :
+                                     deal.deal_stages?.win_percentage >= 30 ? stageColors.medium :
+                                     deal.deal_stages?.win_percentage >= 10 ? stageColors.low :
+                                     stageColors.default}`,
+              variant: 'secondary',
+            },
+            fields: [
+              ...(deal.value ? [{
+                icon: DollarSign,
+                value: `${deal.currencies?.symbol || '$'}${deal.value.toLocaleString()}${deal.probability > 0 ? ` (${deal.probability}%)` : ''}`,
+                isSecondary: false,
+              }] : []),
+              ...(deal.customers ? [{
+                label: 'Customer',
+                value: deal.customers.name,
+                isSecondary: true,
+              }] : []),
+              ...(deal.assigned_user ? [{
+                label: 'Salesperson',
+                value: `${deal.assigned_user.first_name} ${deal.assigned_user.last_name}`.trim(),
+                isSecondary: true,
+              }] : []),
+              ...(deal.sites ? [{
+                label: 'Site',
+                value: deal.sites.name,
+                isSecondary: true,
+              }] : []),
+              ...(deal.expected_close_date ? [{
+                label: 'Expected close',
+                value: new Date(deal.expected_close_date).toLocaleDateString(),
+                isSecondary: true,
+              }] : []),
+              ...(deal.next_step ? [{
+                label: 'Next step',
+                value: `${deal.next_step.title} (${new Date(deal.next_step.due_date).toLocaleDateString()})`,
+                isSecondary: true,
+              }] : []),
+              {
+                value: `Created ${new Date(deal.created_at).toLocaleDateString()}`,
+                isSecondary: true,
+              },
+            ],
+            onClick: () => navigate(`/deals/edit/${deal.id}`),
+          })}
+          columns={[
+            {
+              key: 'name',
+              label: 'Deal',
+              render: (_, deal) => (
+                <div className="space-y-1">
+                  <div className="font-medium">{deal.name}</div>
+                  <Badge 
+                    className={`text-white ${deal.deal_stages?.win_percentage >= 80 ? stageColors.won : 
+                                             deal.deal_stages?.win_percentage >= 60 ? stageColors.high :
+                                             deal.deal_stages?.win_percentage >= 30 ? stageColors.medium :
+                                             deal.deal_stages?.win_percentage >= 10 ? stageColors.low :
+                                             stageColors.default}`}
+                    variant="secondary"
+                  >
+                    {deal.deal_stages?.name || 'No Stage'}
+                  </Badge>
+                </div>
+              ),
+            },
+            {
+              key: 'value',
+              label: 'Value',
+              render: (_, deal) => (
+                deal.value ? (
+                  <div className="flex items-center gap-1">
+                    <span className="font-semibold">
+                      {deal.currencies?.symbol || '$'}{deal.value.toLocaleString()}
+                    </span>
+                    {deal.probability > 0 && (
+                      <span className="text-sm text-muted-foreground">
+                        ({deal.probability}%)
+                      </span>
+                    )}
+                  </div>
+                ) : '-'
+              ),
+            },
+            {
+              key: 'customer',
               label: 'Customer',
-              value: deal.customers.name,
-              isSecondary: true,
-            }] : []),
-            ...(deal.assigned_user ? [{
+              render: (_, deal) => deal.customers?.name || '-',
+            },
+            {
+              key: 'salesperson',
               label: 'Salesperson',
-              value: `${deal.assigned_user.first_name} ${deal.assigned_user.last_name}`.trim(),
-              isSecondary: true,
-            }] : []),
-            ...(deal.sites ? [{
-              label: 'Site',
-              value: deal.sites.name,
-              isSecondary: true,
-            }] : []),
-            ...(deal.expected_close_date ? [{
-              label: 'Expected close',
-              value: new Date(deal.expected_close_date).toLocaleDateString(),
-              isSecondary: true,
-            }] : []),
-            ...(deal.next_step ? [{
-              label: 'Next step',
-              value: `${deal.next_step.title} (${new Date(deal.next_step.due_date).toLocaleDateString()})`,
-              isSecondary: true,
-            }] : []),
+              render: (_, deal) => deal.assigned_user ? 
+                `${deal.assigned_user.first_name} ${deal.assigned_user.last_name}`.trim() : '-',
+            },
             {
-              value: `Created ${new Date(deal.created_at).toLocaleDateString()}`,
-              isSecondary: true,
+              key: 'expected_close_date',
+              label: 'Expected Close',
+              render: (value) => value ? new Date(value).toLocaleDateString() : '-',
             },
-          ],
-          onClick: () => navigate(`/deals/edit/${deal.id}`),
-        })}
-        columns={[
-          {
-            key: 'name',
-            label: 'Deal',
-            render: (_, deal) => (
-              <div className="space-y-1">
-                <div className="font-medium">{deal.name}</div>
-                <Badge 
-                  className={`text-white ${deal.deal_stages?.win_percentage >= 80 ? stageColors.won : 
-                                           deal.deal_stages?.win_percentage >= 60 ? stageColors.high :
-                                           deal.deal_stages?.win_percentage >= 30 ? stageColors.medium :
-                                           deal.deal_stages?.win_percentage >= 10 ? stageColors.low :
-                                           stageColors.default}`}
-                  variant="secondary"
-                >
-                  {deal.deal_stages?.name || 'No Stage'}
-                </Badge>
-              </div>
-            ),
-          },
-          {
-            key: 'value',
-            label: 'Value',
-            render: (_, deal) => (
-              deal.value ? (
-                <div className="flex items-center gap-1">
-                  <span className="font-semibold">
-                    {deal.currencies?.symbol || '$'}{deal.value.toLocaleString()}
-                  </span>
-                  {deal.probability > 0 && (
-                    <span className="text-sm text-muted-foreground">
-                      ({deal.probability}%)
-                    </span>
-                  )}
-                </div>
-              ) : '-'
-            ),
-          },
-          {
-            key: 'customer',
-            label: 'Customer',
-            render: (_, deal) => deal.customers?.name || '-',
-          },
-          {
-            key: 'salesperson',
-            label: 'Salesperson',
-            render: (_, deal) => deal.assigned_user ? 
-              `${deal.assigned_user.first_name} ${deal.assigned_user.last_name}`.trim() : '-',
-          },
-          {
-            key: 'expected_close_date',
-            label: 'Expected Close',
-            render: (value) => value ? new Date(value).toLocaleDateString() : '-',
-          },
-          {
-            key: 'next_step',
-            label: 'Next Step',
-            render: (_, deal) => deal.next_step ? 
-              `${deal.next_step.title} (${new Date(deal.next_step.due_date).toLocaleDateString()})` : 
-              '-',
-          },
-        ]}
-        onEdit={handleEdit}
-        onDelete={handleDelete}
-        editPermission="deals.edit"
-        deletePermission="deals.delete"
-        emptyStateMessage={showArchived ? "No archived deals found." : "Start tracking sales opportunities by creating your first deal."}
-      />
+            {
+              key: 'next_step',
+              label: 'Next Step',
+              render: (_, deal) => deal.next_step ? 
+                `${deal.next_step.title} (${new Date(deal.next_step.due_date).toLocaleDateString()})` : 
+                '-',
+            },
+          ]}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+          editPermission="deals.edit"
+          deletePermission="deals.delete"
+          emptyStateMessage={showArchived ? "No archived deals found." : "Start tracking sales opportunities by creating your first deal."}
+        />
+      )}
       
       <DeleteConfirmationModal
         open={deleteModal.open}
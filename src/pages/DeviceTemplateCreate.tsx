@@ -646,6 +646,12 @@ export default function DeviceTemplateCreate() {
       return;
     }
 
+    const { cycle } = FormulaEngine.buildDependencyGraph(template.properties);
+    if (cycle) {
+      toast.error(`Circular reference between calculated properties: ${FormulaEngine.formatCyclePath(cycle)}`);
+      return;
+    }
+
     setIsSaving(true);
     try {
       let templateData;
@@ -971,9 +977,9 @@ export default function DeviceTemplateCreate() {
   };
 
   const updatePropertyReferences = () => {
-    // Get all non-calculated properties that can be referenced
+    // Calculated properties may reference inputs and other calculated properties
     const availableProperties = template.properties
-      .filter(prop => prop.type !== 'calculated' && prop.name.trim())
+      .filter(prop => prop.name.trim())
       .map(prop => prop.name);
 
     // Update depends_on_properties for calculated properties
@@ -989,6 +995,12 @@ export default function DeviceTemplateCreate() {
       })
     }));
     
+    const { cycle } = FormulaEngine.buildDependencyGraph(template.properties);
+    if (cycle) {
+      toast.error(`Circular reference between calculated properties: ${FormulaEngine.formatCyclePath(cycle)}`);
+      return;
+    }
+
     toast.success("Property references updated");
   };
 
@@ -1000,13 +1012,32 @@ export default function DeviceTemplateCreate() {
     }
 
     const availableProperties = template.properties
-      .filter(prop => prop.type !== 'calculated' && prop.name.trim())
+      .filter(prop => prop.name.trim())
       .map(prop => prop.name);
 
     const validation = FormulaEngine.validateFormula(property.formula, availableProperties);
-    return validation.isValid ? null : validation.error || "Invalid formula";
+    if (!validation.isValid) {
+      return validation.error || "Invalid formula";
+    }
+
+    const { cycle } = dependencyGraph;
+    if (cycle && cycle.includes(property.name)) {
+      return `Circular reference: ${FormulaEngine.formatCyclePath(cycle)}`;
+    }
+    return null;
   };
 
+  // Dependency graph between calculated properties, used for cycle detection and recalculation hints
+  const dependencyGraph = FormulaEngine.buildDependencyGraph(template.properties);
+
+  // Sample evaluation of all calculated properties in dependency order
+  const sampleCalculation = FormulaEngine.evaluateProperties(
+    template.properties,
+    template.properties
+      .filter(p => p.type !== 'calculated' && p.name.trim())
+      .map(p => ({ name: p.name, value: p.type === 'number' ? 10 : 'sample' }))
+  );
+
   // Generate previews using individual preview functions
   const preview = {
     sku: generateSKU(template.properties),
@@ -1465,6 +1496,14 @@ export default function DeviceTemplateCreate() {
                             <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
                             <h4 className="font-medium">Property {index + 1}</h4>
                             <Badge variant="secondary" className="text-xs">Order: {property.sort_order}</Badge>
+                            {property.type !== 'calculated' && property.name.trim() && (() => {
+                              const dependents = FormulaEngine.getDependents(dependencyGraph, property.name);
+                              return dependents.length > 0 ? (
+                                <Badge variant="outline" className="text-xs" title="Calculated properties recalculated when this property changes">
+                                  Recalculates: {dependents.join(', ')}
+                                </Badge>
+                              ) : null;
+                            })()}
                           </div>
                           <Button
                             variant="ghost"
@@ -1694,7 +1733,7 @@ export default function DeviceTemplateCreate() {
                                  className="font-mono"
                                />
                                <p className="text-xs text-muted-foreground mt-1">
-                                 Use {'{property_name}'} to reference other properties
+                                 Use {'{property_name}'} to reference other properties. Supports comparisons, IF, ROUND, CEIL, FLOOR, MIN, MAX, SWITCH and &amp; for text
                                </p>
                              </div>
                              
@@ -1723,14 +1762,18 @@ export default function DeviceTemplateCreate() {
 
                                // Show preview if formula is valid
                                if (property.formula) {
-                                 const availableProps = template.properties
-                                   .filter(p => p.type !== 'calculated' && p.name.trim())
-                                   .map(p => ({ name: p.name, value: p.type === 'number' ? 10 : 'sample' }));
-                                 
-                                 const result = FormulaEngine.evaluate(property.formula, availableProps);
+                                 const result = sampleCalculation.results[property.name];
+                                 if (!result) return null;
+                                 if (result.ok === false) {
+                                   return (
+                                     <div className="text-sm text-destructive bg-destructive/10 p-2 rounded">
+                                       {result.error.displayMessage}
+                                     </div>
+                                   );
+                                 }
                                  return (
                                    <div className="text-sm text-muted-foreground bg-muted/50 p-2 rounded">
-                                     Preview (with sample values): <Badge variant="outline">{result}{property.unit && ` ${property.unit}`}</Badge>
+                                     Preview (with sample values): <Badge variant="outline">{String(result.value)}{property.unit && ` ${property.unit}`}</Badge>
                                    </div>
                                  );
                                }
@@ -2035,6 +2078,14 @@ export default function DeviceTemplateCreate() {
                             <GripVertical className="h-4 w-4 text-muted-foreground cursor-move" />
                             <h4 className="font-medium">Property {index + 1}</h4>
                             <Badge variant="secondary" className="text-xs">Order: {property.sort_order}</Badge>
+                            {property.type !== 'calculated' && property.name.trim() && (() => {
+                              const dependents = FormulaEngine.getDependents(dependencyGraph, property.name);
+                              return dependents.length > 0 ? (
+                                <Badge variant="outline" className="text-xs" title="Calculated properties recalculated when this property changes">
+                                  Recalculates: {dependents.join(', ')}
+                                </Badge>
+                              ) : null;
+                            })()}
                           </div>
                           <Button
                             variant="ghost"
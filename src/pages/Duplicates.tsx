@@ -0,0 +1,360 @@
+import { useMemo, useState } from 'react';
+import { Loader2, Merge, RotateCcw } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { MergeRecordsDialog } from '@/components/dedupe/MergeRecordsDialog';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DedupeEntityType,
+  DedupeRecord,
+  DuplicateCandidate,
+  MatchReason,
+  findDuplicateCandidates,
+} from '@/lib/record-dedupe';
+
+const ENTITY_TABS: Array<{ value: DedupeEntityType; label: string }> = [
+  { value: 'company', label: 'Companies' },
+  { value: 'contact', label: 'Contacts' },
+  { value: 'site', label: 'Sites' },
+];
+
+const REASON_LABELS: Record<MatchReason, string> = {
+  name: 'Similar name',
+  email: 'Same email',
+  phone: 'Same phone',
+  domain: 'Same domain',
+};
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Candidates listed at once; merging some brings up the next ones
+const MAX_CANDIDATES = 100;
+
+interface RecordMerge {
+  id: string;
+  entity_type: DedupeEntityType;
+  surviving_name: string;
+  merged_name: string;
+  references_moved: number;
+  references_removed: number;
+  merged_at: string;
+  undone_at: string | null;
+}
+
+const fetchAllPages = async <T,>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const fetchDedupeRecords = async (entityType: DedupeEntityType, tenantId: string): Promise<DedupeRecord[]> => {
+  if (entityType === 'company') {
+    return fetchAllPages((from, to) =>
+      supabase
+        .from('companies')
+        .select('id, name, email, phone, phone_number, country_code, website, is_lead, created_at')
+        .eq('tenant_id', tenantId)
+        .is('deleted_at', null)
+        .order('created_at')
+        .range(from, to)
+    );
+  }
+
+  if (entityType === 'contact') {
+    const contacts = await fetchAllPages((from, to) =>
+      supabase
+        .from('contacts')
+        .select('id, first_name, last_name, email, phone, phone_number, country_code, is_lead, created_at')
+        .eq('tenant_id', tenantId)
+        .is('deleted_at', null)
+        .order('created_at')
+        .range(from, to)
+    );
+    return contacts.map(({ first_name, last_name, ...contact }) => ({
+      ...contact,
+      name: `${first_name} ${last_name || ''}`.trim(),
+    }));
+  }
+
+  return fetchAllPages((from, to) =>
+    supabase
+      .from('sites')
+      .select('id, name, phone_number, country_code, city, is_lead, created_at')
+      .eq('tenant_id', tenantId)
+      .is('deleted_at', null)
+      .order('created_at')
+      .range(from, to)
+  );
+};
+
+export default function Duplicates() {
+  const { currentTenant } = useTenant();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [tab, setTab] = useState<DedupeEntityType | 'history'>('company');
+  const [mergeCandidate, setMergeCandidate] = useState<DuplicateCandidate | null>(null);
+  const [undoMerge, setUndoMerge] = useState<RecordMerge | null>(null);
+  const entityType: DedupeEntityType = tab === 'history' ? 'company' : tab;
+
+  const { data: records, isLoading: recordsLoading } = useQuery({
+    queryKey: ['dedupe-records', entityType, currentTenant?.id],
+    enabled: !!currentTenant && tab !== 'history',
+    queryFn: () => fetchDedupeRecords(entityType, currentTenant!.id),
+  });
+
+  const { data: merges = [], isLoading: mergesLoading } = useQuery({
+    queryKey: ['record-merges', currentTenant?.id],
+    enabled: !!currentTenant && tab === 'history',
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('record_merges')
+        .select('id, entity_type, surviving_name, merged_name, references_moved, references_removed, merged_at, undone_at')
+        .eq('tenant_id', currentTenant!.id)
+        .order('merged_at', { ascending: false })
+        .limit(200);
+      if (error) throw error;
+      return (data || []) as RecordMerge[];
+    },
+  });
+
+  const candidates = useMemo(
+    () => (records ? findDuplicateCandidates(records, entityType, { country: currentTenant?.country }) : []),
+    [records, entityType, currentTenant?.country]
+  );
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['dedupe-records'] });
+    queryClient.invalidateQueries({ queryKey: ['record-merges'] });
+  };
+
+  const handleMerged = () => {
+    setMergeCandidate(null);
+    refresh();
+  };
+
+  const confirmUndo = async () => {
+    if (!undoMerge) return;
+
+    try {
+      const { error } = await supabase.rpc('undo_record_merge', { _merge_id: undoMerge.id });
+      if (error) throw error;
+
+      toast({
+        title: 'Merge undone',
+        description: `"${undoMerge.merged_name}" has been restored`,
+      });
+      refresh();
+    } catch (error) {
+      console.error('Error undoing merge:', error);
+      toast({
+        title: 'Error',
+        description: (error as { message?: string })?.message || 'Failed to undo merge',
+        variant: 'destructive',
+      });
+    } finally {
+      setUndoMerge(null);
+    }
+  };
+
+  const entityLabel = (type: DedupeEntityType) => ENTITY_TABS.find(entity => entity.value === type)?.label;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Duplicates</h1>
+          <p className="text-muted-foreground">
+            Companies, contacts and sites that look like the same record, matched on name, email, phone and website
+          </p>
+        </div>
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as DedupeEntityType | 'history')}>
+          <TabsList>
+            {ENTITY_TABS.map(entity => (
+              <TabsTrigger key={entity.value} value={entity.value}>{entity.label}</TabsTrigger>
+            ))}
+            <TabsTrigger value="history">Merge History</TabsTrigger>
+          </TabsList>
+
+          {ENTITY_TABS.map(entity => (
+            <TabsContent key={entity.value} value={entity.value}>
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                  <CardTitle>Possible Duplicate {entity.label}</CardTitle>
+                  {!recordsLoading && <Badge variant="secondary">{candidates.length}</Badge>}
+                </CardHeader>
+                <CardContent>
+                  {recordsLoading ? (
+                    <div className="flex items-center justify-center py-16">
+                      <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                    </div>
+                  ) : candidates.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No possible duplicates found</p>
+                  ) : (
+                    <>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Record</TableHead>
+                            <TableHead>Possible Duplicate</TableHead>
+                            <TableHead>Matched On</TableHead>
+                            <TableHead className="text-right">Score</TableHead>
+                            <TableHead />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {candidates.slice(0, MAX_CANDIDATES).map(candidate => (
+                            <TableRow key={candidate.key}>
+                              {[candidate.primary, candidate.duplicate].map(record => (
+                                <TableCell key={record.id}>
+                                  <p className="font-medium">{record.name}</p>
+                                  <p className="text-xs text-muted-foreground">
+                                    {[record.email, record.phone_number || record.phone, record.website, record.city]
+                                      .filter(Boolean)
+                                      .join(' · ')}
+                                  </p>
+                                </TableCell>
+                              ))}
+                              <TableCell>
+                                <div className="flex flex-wrap gap-1">
+                                  {candidate.reasons.map(reason => (
+                                    <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+                                  ))}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right">{candidate.score}%</TableCell>
+                              <TableCell className="text-right">
+                                <Button size="sm" variant="outline" onClick={() => setMergeCandidate(candidate)}>
+                                  <Merge className="h-3 w-3 mr-1" />
+                                  Merge
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {candidates.length > MAX_CANDIDATES && (
+                        <p className="text-sm text-muted-foreground mt-4">
+                          Showing the {MAX_CANDIDATES} closest matches of {candidates.length}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          ))}
+
+          <TabsContent value="history">
+            <Card>
+              <CardHeader>
+                <CardTitle>Merge History</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Undoing a merge restores the merged record and moves its references back. Merges involving the same
+                  record are undone newest first.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {mergesLoading ? (
+                  <div className="flex items-center justify-center py-16">
+                    <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+                  </div>
+                ) : merges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No records have been merged yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Merged</TableHead>
+                        <TableHead>Into</TableHead>
+                        <TableHead className="text-right">References Moved</TableHead>
+                        <TableHead>Merged At</TableHead>
+                        <TableHead />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {merges.map(merge => (
+                        <TableRow key={merge.id}>
+                          <TableCell>{entityLabel(merge.entity_type)}</TableCell>
+                          <TableCell className="font-medium">{merge.merged_name}</TableCell>
+                          <TableCell>{merge.surviving_name}</TableCell>
+                          <TableCell className="text-right">
+                            {merge.references_moved}
+                            {merge.references_removed > 0 && (
+                              <span className="text-xs text-muted-foreground ml-1">
+                                (+{merge.references_removed} duplicate links removed)
+                              </span>
+                            )}
+                          </TableCell>
+                          <TableCell>{format(new Date(merge.merged_at), 'MMM dd, yyyy hh:mm a')}</TableCell>
+                          <TableCell className="text-right">
+                            {merge.undone_at ? (
+                              <Badge variant="secondary">Undone</Badge>
+                            ) : (
+                              <Button size="sm" variant="outline" onClick={() => setUndoMerge(merge)}>
+                                <RotateCcw className="h-3 w-3 mr-1" />
+                                Undo
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <MergeRecordsDialog
+        entityType={entityType}
+        candidate={mergeCandidate}
+        onOpenChange={(open) => !open && setMergeCandidate(null)}
+        onMerged={handleMerged}
+      />
+
+      <AlertDialog open={!!undoMerge} onOpenChange={(open) => !open && setUndoMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Undo Merge</AlertDialogTitle>
+            <AlertDialogDescription>
+              Restore "{undoMerge?.merged_name}" as a separate record and give "{undoMerge?.surviving_name}" back the
+              values it had before the merge?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmUndo}>Undo Merge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+}
@@ -4,9 +4,6 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { ArrowLeft, Edit, DollarSign, Calendar } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
@@ -14,6 +11,7 @@ import { toast } from 'sonner';
 import { TodoWidget } from '@/components/todos/TodoWidget';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { EditPaymentForm } from '@/components/forms/EditPaymentForm';
+import { PaymentReceiptForm } from '@/components/forms/PaymentReceiptForm';
 
 interface PaymentTerm {
   id: string;
@@ -26,6 +24,7 @@ interface PaymentTerm {
   due_date?: string;
   stage_id?: string;
   notes?: string;
+  payment_status?: string | null;
   contract_payment_stages?: {
     name: string;
     sort_order: number;
@@ -48,8 +47,6 @@ export default function InstallmentDetail() {
   const [paymentNotes, setPaymentNotes] = useState('');
   const [isSavingNotes, setIsSavingNotes] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
-  const [isSavingPayment, setIsSavingPayment] = useState(false);
-  const [receivedAmount, setReceivedAmount] = useState('');
   useEffect(() => {
     if (paymentId && currentTenant?.id) {
       fetchPaymentData();
@@ -156,7 +153,17 @@ export default function InstallmentDetail() {
         .eq('entity_type', 'contract')
         .eq('payment_term_id', payment.id);
 
-      const paymentTodos = todos || [];
+      // Follow-ups of an overdue installment do not hold it back from "due"
+      const { data: collections } = await supabase
+        .from('payment_collections')
+        .select('follow_up_todo_id, escalation_todo_id')
+        .eq('payment_term_id', payment.id);
+      const collectionTodoIds = (collections || []).flatMap(collection => [
+        collection.follow_up_todo_id,
+        collection.escalation_todo_id,
+      ]);
+
+      const paymentTodos = (todos || []).filter(todo => !collectionTodoIds.includes(todo.id));
       const incompleteTodos = paymentTodos.filter(todo => todo.status !== 'completed');
       
       const today = new Date().toISOString().split('T')[0];
@@ -171,13 +178,13 @@ export default function InstallmentDetail() {
         newPaymentStatus = 'pending';
       }
 
-      // Don't change status if already paid
-      if ((payment as any)?.payment_status === 'paid') {
+      // Paid and part-paid installments follow their receipts (derive_payment_term_status), not their todos
+      if (['paid', 'partial'].includes(payment.payment_status)) {
         return;
       }
 
       // Update status if different from current
-      if (newPaymentStatus !== (payment as any)?.payment_status) {
+      if (newPaymentStatus !== payment.payment_status) {
         const { data: { user } } = await supabase.auth.getUser();
         
         const { error } = await supabase
@@ -197,7 +204,7 @@ export default function InstallmentDetail() {
             entity_type: 'payment_term',
             entity_id: payment.id,
             field_name: 'payment_status',
-            old_value: (payment as any)?.payment_status,
+            old_value: payment.payment_status,
             new_value: newPaymentStatus,
             user_id: user?.id,
             user_name: `${user?.user_metadata?.first_name || ''} ${user?.user_metadata?.last_name || ''}`.trim(),
@@ -228,62 +235,6 @@ export default function InstallmentDetail() {
     return new Date(dateString).toLocaleDateString();
   };
 
-  const acceptPayment = async () => {
-    if (!payment || !receivedAmount || !canEdit) return;
-
-    const amount = parseFloat(receivedAmount);
-    if (isNaN(amount)) {
-      toast.error('Please enter a valid number');
-      return;
-    }
-
-    try {
-      setIsSavingPayment(true);
-      const { data: { user } } = await supabase.auth.getUser();
-
-      const installmentAmount = payment.calculated_amount || payment.amount_value;
-      const currentReceived = (payment as any)?.received_amount || 0;
-      const totalReceived = currentReceived + amount;
-      const finalStatus = totalReceived >= installmentAmount ? 'paid' : 'partly paid';
-
-      const { error } = await supabase
-        .from('contract_payment_terms')
-        .update({
-          received_amount: totalReceived,
-          received_date: new Date().toISOString().split('T')[0],
-          payment_status: finalStatus,
-          updated_at: new Date().toISOString()
-        } as any)
-        .eq('id', payment.id);
-
-      if (error) throw error;
-
-      await supabase.from('contract_audit_logs').insert({
-        contract_id: payment.contract_id,
-        tenant_id: currentTenant?.id,
-        action: 'payment_registered',
-        entity_type: 'payment_term',
-        entity_id: payment.id,
-        field_name: 'payment_status',
-        old_value: (payment as any).payment_status,
-        new_value: finalStatus,
-        user_id: user?.id,
-        user_name: `${user?.user_metadata?.first_name || ''} ${user?.user_metadata?.last_name || ''}`.trim(),
-        notes: `Payment registered: ${formatCurrency(amount)} received. Total: ${formatCurrency(totalReceived)}`
-      });
-
-      toast.success('Payment accepted');
-      setReceivedAmount('');
-      setIsPaymentModalOpen(false);
-      await fetchPaymentData();
-    } catch (error) {
-      console.error('Error accepting payment:', error);
-      toast.error('Failed to accept payment');
-    } finally {
-      setIsSavingPayment(false);
-    }
-  };
-
   const getStageColor = (stageName?: string) => {
     switch ((stageName || '').toLowerCase()) {
       case 'pending':
@@ -385,7 +336,7 @@ export default function InstallmentDetail() {
               </p>
             </div>
           </div>
-          {canEdit && ((payment as any)?.payment_status !== 'paid') && (
+          {canEdit && (payment.payment_status !== 'paid') && (
             <div className="flex gap-2">
               <Button onClick={() => setIsEditing(true)}>
                 <Edit className="h-4 w-4 mr-2" />
@@ -408,8 +359,8 @@ export default function InstallmentDetail() {
                 Instalment Details
               </CardTitle>
               <div className="flex gap-2">
-                <Badge variant={getPaymentStatusColor((payment as any)?.payment_status)}>
-                  {(payment as any)?.payment_status || 'Pending'}
+                <Badge variant={getPaymentStatusColor(payment.payment_status)}>
+                  {payment.payment_status || 'Pending'}
                 </Badge>
               </div>
             </div>
@@ -618,55 +569,16 @@ export default function InstallmentDetail() {
 
         {/* Accept Payment Modal */}
         {isPaymentModalOpen && (
-          <Dialog open={true} onOpenChange={() => setIsPaymentModalOpen(false)}>
-            <DialogContent className="sm:max-w-md">
-              <DialogHeader>
-                <DialogTitle>Accept Payment</DialogTitle>
-              </DialogHeader>
-              
-              <div className="space-y-4">
-                <div>
-                  <label className="text-sm font-medium text-muted-foreground">Payment Amount Due</label>
-                  <p className="text-lg font-semibold">
-                    {formatCurrency(payment.calculated_amount || payment.amount_value)}
-                  </p>
-                </div>
-                
-                <div>
-                  <Label htmlFor="received_amount">Amount Received</Label>
-                  <Input
-                    id="received_amount"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    value={receivedAmount}
-                    onChange={(e) => setReceivedAmount(e.target.value)}
-                    placeholder="Enter received amount"
-                    required
-                  />
-                </div>
-              </div>
-
-              <DialogFooter>
-                <Button 
-                  type="button" 
-                  variant="outline" 
-                  onClick={() => {
-                    setIsPaymentModalOpen(false);
-                    setReceivedAmount('');
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button 
-                  onClick={acceptPayment} 
-                  disabled={!receivedAmount || isSavingPayment}
-                >
-                  {isSavingPayment ? 'Accepting...' : 'Accept Payment'}
-                </Button>
-              </DialogFooter>
-            </DialogContent>
-          </Dialog>
+          <PaymentReceiptForm
+            contractId={contract.id}
+            installmentId={payment.id}
+            formatCurrency={formatCurrency}
+            onSuccess={async () => {
+              setIsPaymentModalOpen(false);
+              await fetchPaymentData();
+            }}
+            onCancel={() => setIsPaymentModalOpen(false)}
+          />
         )}
       </div>
     </DashboardLayout>
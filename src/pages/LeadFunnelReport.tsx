@@ -0,0 +1,280 @@
+import { useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import {
+  FUNNEL_GROUPS,
+  FunnelDeal,
+  FunnelGroupBy,
+  FunnelLead,
+  LeadStageTransition,
+  LeadType,
+  buildConversionFunnel,
+  summarizeTimeInStage,
+} from '@/lib/lead-funnel';
+
+const LEAD_TYPES: Array<{ value: LeadType | 'all'; label: string }> = [
+  { value: 'all', label: 'All leads' },
+  { value: 'company', label: 'Companies' },
+  { value: 'contact', label: 'Contacts' },
+  { value: 'site', label: 'Sites' },
+];
+
+// Supabase returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const fetchAllPages = async <T,>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+export default function LeadFunnelReport() {
+  const { currentTenant } = useTenant();
+  const [groupBy, setGroupBy] = useState<FunnelGroupBy>('source');
+  const [leadType, setLeadType] = useState<LeadType | 'all'>('all');
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ['lead-funnel', currentTenant?.id],
+    enabled: !!currentTenant,
+    queryFn: async () => {
+      const tenantId = currentTenant!.id;
+      const [leads, deals, transitions, stagesResult, qualitiesResult, sourcesResult] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase
+            .from('lead_funnel_entries')
+            .select('entity_type, entity_id, name, is_lead, stage_id, quality_id, source_id, created_at')
+            .eq('tenant_id', tenantId)
+            .order('entity_type')
+            .order('entity_id')
+            .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase
+            .from('deals')
+            .select('id, lead_entity_type, lead_entity_id, contracts!fk_contracts_deal_id(id)')
+            .eq('tenant_id', tenantId)
+            .is('deleted_at', null)
+            .not('lead_entity_id', 'is', null)
+            .order('id')
+            .range(from, to)
+        ),
+        fetchAllPages((from, to) =>
+          supabase
+            .from('lead_stage_history')
+            .select('entity_type, entity_id, from_stage_id, to_stage_id, event, changed_at')
+            .eq('tenant_id', tenantId)
+            .order('changed_at')
+            .order('id')
+            .range(from, to)
+        ),
+        supabase
+          .from('lead_stages')
+          .select('id, name')
+          .eq('tenant_id', tenantId)
+          .order('sort_order'),
+        supabase.from('lead_quality').select('id, name').eq('tenant_id', tenantId),
+        supabase.from('deal_sources').select('id, name').eq('tenant_id', tenantId),
+      ]);
+
+      const error = stagesResult.error || qualitiesResult.error || sourcesResult.error;
+      if (error) throw error;
+
+      return {
+        leads: leads as unknown as FunnelLead[],
+        deals: deals as unknown as FunnelDeal[],
+        transitions: transitions as LeadStageTransition[],
+        stages: stagesResult.data || [],
+        groupNames: {
+          quality: Object.fromEntries((qualitiesResult.data || []).map(quality => [quality.id, quality.name])),
+          source: Object.fromEntries((sourcesResult.data || []).map(source => [source.id, source.name])),
+        } as Record<FunnelGroupBy, Record<string, string>>,
+      };
+    },
+  });
+
+  const funnel = useMemo(() => {
+    if (!sources) return null;
+    const leads = sources.leads.filter(lead => leadType === 'all' || lead.entity_type === leadType);
+    return buildConversionFunnel(leads, sources.deals, groupBy);
+  }, [sources, leadType, groupBy]);
+
+  const stageTimes = useMemo(() => {
+    if (!sources) return [];
+    const byStage = new Map(
+      summarizeTimeInStage(
+        sources.transitions.filter(transition => leadType === 'all' || transition.entity_type === leadType)
+      ).map(time => [time.stageId, time])
+    );
+    // Stage order, keeping stages that no lead has been in
+    return sources.stages.map(stage => ({ stage, time: byStage.get(stage.id) }));
+  }, [sources, leadType]);
+
+  const groupLabel = FUNNEL_GROUPS.find(group => group.value === groupBy)?.label;
+  const openLeads = (sources?.leads || []).filter(
+    lead => lead.is_lead && (leadType === 'all' || lead.entity_type === leadType)
+  ).length;
+  const groupName = (key: string) =>
+    key === 'none' ? `No ${groupLabel?.toLowerCase()}` : sources?.groupNames[groupBy][key] || 'Unknown';
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Lead Funnel</h1>
+            <p className="text-muted-foreground">Leads through to deals and contracts, and the time leads spend in each stage</p>
+          </div>
+          <Select value={leadType} onValueChange={(value: LeadType | 'all') => setLeadType(value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LEAD_TYPES.map((type) => (
+                <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading || !funnel ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-muted-foreground">Leads</p>
+                  <p className="text-2xl font-bold">{funnel.totals.leads}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-muted-foreground">Still open</p>
+                  <p className="text-2xl font-bold">{openLeads}</p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-muted-foreground">Converted to deal</p>
+                  <p className="text-2xl font-bold">
+                    {funnel.totals.converted}
+                    <span className="text-sm font-normal text-muted-foreground ml-2">{funnel.totals.dealRate}%</span>
+                  </p>
+                </CardContent>
+              </Card>
+              <Card>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-muted-foreground">Reached contract</p>
+                  <p className="text-2xl font-bold">
+                    {funnel.totals.contracted}
+                    <span className="text-sm font-normal text-muted-foreground ml-2">{funnel.totals.contractRate}% of deals</span>
+                  </p>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader className="flex flex-row items-center justify-between">
+                <CardTitle>Conversion by {groupLabel}</CardTitle>
+                <Select value={groupBy} onValueChange={(value: FunnelGroupBy) => setGroupBy(value)}>
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FUNNEL_GROUPS.map((group) => (
+                      <SelectItem key={group.value} value={group.value}>
+                        By {group.label.toLowerCase()}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </CardHeader>
+              <CardContent>
+                {funnel.rows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No leads yet</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{groupLabel}</TableHead>
+                        <TableHead className="text-right">Leads</TableHead>
+                        <TableHead className="text-right">Deals</TableHead>
+                        <TableHead className="text-right">Lead → Deal</TableHead>
+                        <TableHead className="text-right">Contracts</TableHead>
+                        <TableHead className="text-right">Deal → Contract</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[...funnel.rows, funnel.totals].map((row) => (
+                        <TableRow key={row.key} className={row === funnel.totals ? 'font-semibold' : undefined}>
+                          <TableCell>{row === funnel.totals ? 'Total' : groupName(row.key)}</TableCell>
+                          <TableCell className="text-right">{row.leads}</TableCell>
+                          <TableCell className="text-right">{row.converted}</TableCell>
+                          <TableCell className="text-right">{row.dealRate}%</TableCell>
+                          <TableCell className="text-right">{row.contracted}</TableCell>
+                          <TableCell className="text-right">{row.contractRate}%</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Time in Stage</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Stage moves are recorded from the introduction of the funnel board; leads open before then count from
+                  the day they were created.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {stageTimes.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No lead stages configured</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Stage</TableHead>
+                        <TableHead className="text-right">Leads Moved On</TableHead>
+                        <TableHead className="text-right">Avg. Days in Stage</TableHead>
+                        <TableHead className="text-right">Leads in Stage Now</TableHead>
+                        <TableHead className="text-right">Avg. Days so Far</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {stageTimes.map(({ stage, time }) => (
+                        <TableRow key={stage.id}>
+                          <TableCell>{stage.name}</TableCell>
+                          <TableCell className="text-right">{time?.completed || 0}</TableCell>
+                          <TableCell className="text-right">{time?.completed ? time.averageDays : '-'}</TableCell>
+                          <TableCell className="text-right">{time?.open || 0}</TableCell>
+                          <TableCell className="text-right">{time?.open ? time.averageOpenDays : '-'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -11,11 +11,13 @@ import { useToast } from '@/hooks/use-toast';
 import { usePermissions } from '@/hooks/use-permissions';
 import { useAuth } from '@/hooks/use-auth';
 import { usePersistentFilters } from '@/hooks/use-persistent-filters';
-import { Target, Search, Building2, User, MapPin, Mail, Phone, Globe, MessageSquare, CheckSquare, Archive } from 'lucide-react';
+import { Target, Search, Building2, User, MapPin, Mail, Phone, Globe, MessageSquare, CheckSquare, Archive, Columns3, LayoutGrid, BarChart3 } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { EntityListing } from '@/components/entity-listing';
 import { LeadActivities } from '@/components/lead-activities/LeadActivities';
 import { DeleteConfirmationModal } from '@/components/modals/DeleteConfirmationModal';
+import { LeadFunnelBoard } from '@/components/lead-details/LeadFunnelBoard';
 
 interface Lead {
   id: string;
@@ -31,8 +33,10 @@ interface Lead {
   industry?: string;
   first_name?: string;
   last_name?: string;
+  stage_id?: string;
   stage_name?: string;
   quality_name?: string;
+  lead_score: number;
 }
 
 const Leads = () => {
@@ -49,11 +53,15 @@ const Leads = () => {
     searchTerm: string;
     activeTab: string;
     showArchived: boolean;
+    sortBy: 'created_at' | 'score_desc' | 'score_asc';
+    minScore: string;
   }
   const defaultLeadFilters: LeadFilters = {
     searchTerm: '',
     activeTab: 'all',
     showArchived: false,
+    sortBy: 'created_at',
+    minScore: '',
   };
   const [leadFilters, setLeadFilters] = usePersistentFilters<LeadFilters>('leads', defaultLeadFilters);
   
@@ -61,16 +69,21 @@ const Leads = () => {
   const searchTerm = leadFilters.searchTerm;
   const activeTab = leadFilters.activeTab;
   const showArchived = leadFilters.showArchived;
+  const sortBy = leadFilters.sortBy;
+  const minScore = leadFilters.minScore;
   
   const setSearchTerm = (value: string) => setLeadFilters(prev => ({ ...prev, searchTerm: value }));
   const setActiveTab = (value: string) => setLeadFilters(prev => ({ ...prev, activeTab: value }));
   const setShowArchived = (value: boolean) => setLeadFilters(prev => ({ ...prev, showArchived: value }));
+  const setSortBy = (value: LeadFilters['sortBy']) => setLeadFilters(prev => ({ ...prev, sortBy: value }));
+  const setMinScore = (value: string) => setLeadFilters(prev => ({ ...prev, minScore: value }));
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [deleteModal, setDeleteModal] = useState<{ open: boolean; lead: Lead | null }>({
     open: false,
     lead: null,
   });
   const [isDeleting, setIsDeleting] = useState(false);
+  const [view, setView] = useState<'cards' | 'board'>('cards');
 
   const fetchLeads = async () => {
     if (!currentTenant || !user) return;
@@ -112,6 +125,7 @@ const Leads = () => {
           address,
           stage_id,
           quality_id,
+          lead_score,
           created_at,
           customers(name)
         `)
@@ -146,8 +160,10 @@ const Leads = () => {
           customer_name: contact.customers?.name,
           first_name: contact.first_name,
           last_name: contact.last_name || undefined,
+          stage_id: contact.stage_id || undefined,
           stage_name: contact.stage_id ? stagesMap.get(contact.stage_id) : undefined,
           quality_name: contact.quality_id ? qualitiesMap.get(contact.quality_id) : undefined,
+          lead_score: contact.lead_score,
           created_at: contact.created_at,
         });
       });
@@ -157,7 +173,7 @@ const Leads = () => {
         .from('companies')
         .select(`
           id, name, email, phone, website, headquarters, industry, 
-          stage_id, quality_id, created_at
+          stage_id, quality_id, lead_score, created_at
         `)
         .eq('tenant_id', currentTenant.id)
         .eq('is_lead', !showArchived)
@@ -187,8 +203,10 @@ const Leads = () => {
           website: company.website || undefined,
           address: company.headquarters || undefined,
           industry: company.industry || undefined,
+          stage_id: company.stage_id || undefined,
           stage_name: company.stage_id ? stagesMap.get(company.stage_id) : undefined,
           quality_name: company.quality_id ? qualitiesMap.get(company.quality_id) : undefined,
+          lead_score: company.lead_score,
           created_at: company.created_at,
         });
       });
@@ -205,6 +223,7 @@ const Leads = () => {
           country,
           stage_id,
           quality_id,
+          lead_score,
           created_at,
           customers(name)
         `)
@@ -237,8 +256,10 @@ const Leads = () => {
           type: 'site' as const,
           address: fullAddress,
           customer_name: site.customers?.name,
+          stage_id: site.stage_id || undefined,
           stage_name: site.stage_id ? stagesMap.get(site.stage_id) : undefined,
           quality_name: site.quality_id ? qualitiesMap.get(site.quality_id) : undefined,
+          lead_score: site.lead_score,
           created_at: site.created_at,
         });
       });
@@ -258,16 +279,23 @@ const Leads = () => {
     fetchLeads();
   }, [currentTenant, showArchived, user]);
 
+  const minScoreValue = parseInt(minScore, 10);
   const filteredLeads = leads.filter(lead => {
     const matchesSearch = lead.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          lead.email?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          lead.customer_name?.toLowerCase().includes(searchTerm.toLowerCase());
     
     const matchesTab = activeTab === 'all' || lead.type === activeTab;
+    const matchesScore = Number.isNaN(minScoreValue) || lead.lead_score >= minScoreValue;
     
-    return matchesSearch && matchesTab;
+    return matchesSearch && matchesTab && matchesScore;
   });
 
+  // Leads arrive newest first
+  if (sortBy !== 'created_at') {
+    filteredLeads.sort((a, b) => sortBy === 'score_desc' ? b.lead_score - a.lead_score : a.lead_score - b.lead_score);
+  }
+
   const getLeadIcon = (type: string) => {
     switch (type) {
       case 'contact': return User;
@@ -358,6 +386,31 @@ const Leads = () => {
     }
   };
 
+  const moveLeadToStage = async (lead: Lead, stage: { id: string; name: string }) => {
+    if (lead.stage_id === stage.id) return;
+
+    // Move the card right away and put it back if the update fails; the stage history is written by the database
+    const updateLead = (update: Partial<Lead>) =>
+      setLeads(prev => prev.map(l => (l.id === lead.id && l.type === lead.type ? { ...l, ...update } : l)));
+    updateLead({ stage_id: stage.id, stage_name: stage.name });
+
+    const tableName = lead.type === 'contact' ? 'contacts' :
+                     lead.type === 'company' ? 'companies' : 'sites';
+    const { error } = await supabase
+      .from(tableName)
+      .update({ stage_id: stage.id })
+      .eq('id', lead.id);
+
+    if (error) {
+      updateLead({ stage_id: lead.stage_id, stage_name: lead.stage_name });
+      toast({
+        title: 'Error',
+        description: error.message,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const leadCounts = {
     all: leads.length,
     contact: leads.filter(l => l.type === 'contact').length,
@@ -397,6 +450,30 @@ const Leads = () => {
               </p>
             </div>
             <div className="flex items-center gap-2">
+              {!showArchived && (
+                <div className="flex items-center border rounded-md">
+                  <Button
+                    size="sm"
+                    variant={view === 'cards' ? 'default' : 'ghost'}
+                    onClick={() => setView('cards')}
+                    title="Cards"
+                  >
+                    <LayoutGrid className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant={view === 'board' ? 'default' : 'ghost'}
+                    onClick={() => setView('board')}
+                    title="Funnel board"
+                  >
+                    <Columns3 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <Button variant="outline" onClick={() => navigate('/lead-funnel')} className="flex items-center gap-2">
+                <BarChart3 className="h-4 w-4" />
+                Funnel Report
+              </Button>
               <Button 
                 variant="outline"
                 onClick={() => setShowArchived(!showArchived)}
@@ -425,6 +502,23 @@ const Leads = () => {
                 className="pl-8"
               />
             </div>
+            <Input
+              type="number"
+              placeholder="Min. score"
+              value={minScore}
+              onChange={(e) => setMinScore(e.target.value)}
+              className="w-32"
+            />
+            <Select value={sortBy} onValueChange={(value: LeadFilters['sortBy']) => setSortBy(value)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="created_at">Newest first</SelectItem>
+                <SelectItem value="score_desc">Highest score first</SelectItem>
+                <SelectItem value="score_asc">Lowest score first</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
 
           <Tabs value={activeTab} onValueChange={setActiveTab}>
@@ -436,7 +530,14 @@ const Leads = () => {
             </TabsList>
 
             <TabsContent value={activeTab} className="mt-6">
-              {filteredLeads.length === 0 ? (
+              {view === 'board' && !showArchived ? (
+                <LeadFunnelBoard
+                  leads={filteredLeads}
+                  canMove={hasPermission('crm.contacts.edit')}
+                  onMoveLead={(lead, stage) => moveLeadToStage(lead as Lead, stage)}
+                  onOpenLead={(lead) => navigate(`/leads/${lead.type}/${lead.id}`)}
+                />
+              ) : filteredLeads.length === 0 ? (
                 <Card>
                   <CardContent className="flex flex-col items-center justify-center py-16">
                     <Target className="h-12 w-12 text-muted-foreground mb-4" />
@@ -469,9 +570,14 @@ const Leads = () => {
                               </div>
                               <CardTitle className="text-lg">{lead.name}</CardTitle>
                             </div>
-                            <Badge variant="secondary" className="capitalize">
-                              {lead.type}
-                            </Badge>
+                            <div className="flex items-center gap-1">
+                              <Badge variant="outline" title="Lead score">
+                                {lead.lead_score}
+                              </Badge>
+                              <Badge variant="secondary" className="capitalize">
+                                {lead.type}
+                              </Badge>
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent>
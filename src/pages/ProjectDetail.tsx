@@ -9,6 +9,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
 import { useToast } from '@/hooks/use-toast';
 import { BOQEditor } from '@/components/projects/BOQEditor';
+import { ProjectProfitabilityPanel } from '@/components/projects/ProjectProfitabilityPanel';
 import { 
   ArrowLeft, 
   Edit, 
@@ -72,6 +73,7 @@ const ProjectDetail = () => {
   const [loading, setLoading] = useState(true);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [deleting, setDeleting] = useState(false);
+  const [boqVersion, setBoqVersion] = useState(0);
 
   useEffect(() => {
     if (id) {
@@ -268,12 +270,20 @@ const ProjectDetail = () => {
           </CardContent>
         </Card>
 
+        {/* Cost vs. sell of the project devices */}
+        <ProjectProfitabilityPanel
+          projectId={project.id}
+          budget={project.budget}
+          refreshKey={boqVersion}
+        />
+
         {/* BOQ Editor - Show for BOQ type projects */}
         {project.type === 'BOQ' && (
           <BOQEditor 
             projectId={project.id} 
             project={project}
             onUpdate={fetchProject}
+            onDevicesChange={() => setBoqVersion(v => v + 1)}
           />
         )}
 
@@ -12,6 +12,9 @@ import {
   Building2,
   MapPin,
   Contact,
+  FileText,
+  GitCompare,
+  FileSignature,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -41,6 +44,10 @@ import { useAuth } from '@/hooks/use-auth';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 import { QuoteVersionEditor } from '@/components/quotes/QuoteVersionEditor';
+import { QuoteDocumentDialog } from '@/components/quotes/QuoteDocumentDialog';
+import { QuoteVersionCompareDialog } from '@/components/quotes/QuoteVersionCompareDialog';
+import { QuoteApprovalPanel } from '@/components/quotes/QuoteApprovalPanel';
+import { Textarea } from '@/components/ui/textarea';
 
 interface Quote {
   id: string;
@@ -50,6 +57,7 @@ interface Quote {
   total_amount: number;
   expiry_date: string | null;
   notes: string | null;
+  terms: string | null;
   created_at: string;
   deal?: { id: string; name: string } | null;
   site?: { id: string; name: string } | null;
@@ -66,11 +74,24 @@ interface QuoteVersion {
   total_amount: number;
   margin_percentage: number;
   notes: string | null;
+  discount_type: string;
+  discount_value: number;
+  tax_rate_id: string | null;
+  tax_rate: number | null;
+  subtotal: number;
+  line_discount_total: number;
+  discount_amount: number;
+  tax_amount: number;
+  rounding_adjustment: number;
+  grand_total: number;
+  created_by: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 const STATUS_COLORS: Record<string, string> = {
   draft: 'bg-muted text-muted-foreground',
+  pending_approval: 'bg-yellow-500/10 text-yellow-600',
   sent: 'bg-blue-500/10 text-blue-500',
   approved: 'bg-green-500/10 text-green-500',
   rejected: 'bg-destructive/10 text-destructive',
@@ -89,6 +110,12 @@ export default function QuoteDetail() {
   const [activeVersion, setActiveVersion] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [showDocumentDialog, setShowDocumentDialog] = useState(false);
+  const [showCompareDialog, setShowCompareDialog] = useState(false);
+  const [showContractDialog, setShowContractDialog] = useState(false);
+  const [creatingContract, setCreatingContract] = useState(false);
+  const [contractId, setContractId] = useState<string | null>(null);
+  const [terms, setTerms] = useState('');
 
   const fetchQuote = async () => {
     if (!id || !currentTenant?.id) return;
@@ -112,6 +139,7 @@ export default function QuoteDetail() {
 
       if (quoteError) throw quoteError;
       setQuote(quoteData);
+      setTerms(quoteData.terms || '');
 
       // Fetch versions
       const { data: versionsData, error: versionsError } = await supabase
@@ -126,6 +154,14 @@ export default function QuoteDetail() {
       // Set active version to primary or first
       const primaryVersion = versionsData?.find((v) => v.is_primary);
       setActiveVersion(primaryVersion?.id || versionsData?.[0]?.id || null);
+
+      const { data: contractData } = await supabase
+        .from('contracts')
+        .select('id')
+        .eq('quote_id', id)
+        .is('deleted_at', null)
+        .maybeSingle();
+      setContractId(contractData?.id || null);
     } catch (error) {
       console.error('Error fetching quote:', error);
       toast.error('Failed to load quote');
@@ -203,10 +239,10 @@ export default function QuoteDetail() {
     if (!quote) return;
 
     try {
-      const { error } = await supabase
-        .from('quotes')
-        .update({ status: newStatus })
-        .eq('id', quote.id);
+      const { error } = await supabase.rpc('change_quote_status', {
+        _quote_id: quote.id,
+        _status: newStatus,
+      });
 
       if (error) throw error;
 
@@ -214,7 +250,49 @@ export default function QuoteDetail() {
       toast.success(`Quote marked as ${newStatus}`);
     } catch (error) {
       console.error('Error updating status:', error);
-      toast.error('Failed to update status');
+      // change_quote_status rejects sending a quote that still needs approval
+      toast.error(error?.message || 'Failed to update status');
+    }
+  };
+
+  const handleCreateContract = async () => {
+    if (!quote) return;
+
+    setCreatingContract(true);
+    try {
+      const { data: newContractId, error } = await supabase.rpc('convert_quote_to_contract', {
+        _quote_id: quote.id,
+      });
+
+      if (error) throw error;
+
+      toast.success('Quote accepted and contract created');
+      setShowContractDialog(false);
+      navigate(`/contracts/${newContractId}`);
+    } catch (error) {
+      console.error('Error creating contract from quote:', error);
+      toast.error(error?.message || 'Failed to create contract');
+    } finally {
+      setCreatingContract(false);
+    }
+  };
+
+  const handleSaveTerms = async () => {
+    if (!quote || (quote.terms || '') === terms) return;
+
+    try {
+      const { error } = await supabase
+        .from('quotes')
+        .update({ terms: terms.trim() || null })
+        .eq('id', quote.id);
+
+      if (error) throw error;
+
+      setQuote({ ...quote, terms: terms.trim() || null });
+      toast.success('Terms updated');
+    } catch (error) {
+      console.error('Error updating terms:', error);
+      toast.error('Failed to update terms');
     }
   };
 
@@ -237,6 +315,9 @@ export default function QuoteDetail() {
     }
   };
 
+  // The primary version is the one that gets sent, so approval is evaluated against it
+  const primaryVersion = versions.find((v) => v.is_primary) || versions[0] || null;
+
   if (loading) {
     return (
       <div className="container mx-auto py-6 flex items-center justify-center">
@@ -269,7 +350,7 @@ export default function QuoteDetail() {
               <FileSpreadsheet className="h-6 w-6 text-primary" />
               <h1 className="text-2xl font-bold">{quote.name}</h1>
               <Badge className={STATUS_COLORS[quote.status]}>
-                {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
+                {quote.status.charAt(0).toUpperCase() + quote.status.slice(1).replace('_', ' ')}
               </Badge>
             </div>
             {quote.reference_number && (
@@ -279,12 +360,29 @@ export default function QuoteDetail() {
         </div>
 
         <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowDocumentDialog(true)}>
+            <FileText className="h-4 w-4 mr-2" />
+            Document
+          </Button>
           {quote.status === 'draft' && (
             <Button onClick={() => handleStatusChange('sent')}>
               <Send className="h-4 w-4 mr-2" />
               Mark as Sent
             </Button>
           )}
+          {contractId ? (
+            <Button variant="outline" onClick={() => navigate(`/contracts/${contractId}`)}>
+              <FileSignature className="h-4 w-4 mr-2" />
+              View Contract
+            </Button>
+          ) : (
+            (quote.status === 'sent' || quote.status === 'approved') && (
+              <Button onClick={() => setShowContractDialog(true)}>
+                <FileSignature className="h-4 w-4 mr-2" />
+                Accept & Create Contract
+              </Button>
+            )
+          )}
           {quote.status === 'sent' && (
             <>
               <Button
@@ -306,10 +404,14 @@ export default function QuoteDetail() {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={() => handleStatusChange('draft')}>
-                Set as Draft
-              </DropdownMenuItem>
-              <DropdownMenuSeparator />
+              {quote.status !== 'pending_approval' && (
+                <>
+                  <DropdownMenuItem onClick={() => handleStatusChange('draft')}>
+                    Set as Draft
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                </>
+              )}
               <DropdownMenuItem
                 className="text-destructive"
                 onClick={() => setShowDeleteDialog(true)}
@@ -369,10 +471,18 @@ export default function QuoteDetail() {
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
           <CardTitle>Quote Versions</CardTitle>
-          <Button variant="outline" size="sm" onClick={handleAddVersion}>
-            <Plus className="h-4 w-4 mr-2" />
-            Add Version
-          </Button>
+          <div className="flex items-center gap-2">
+            {versions.length > 1 && (
+              <Button variant="outline" size="sm" onClick={() => setShowCompareDialog(true)}>
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare Versions
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={handleAddVersion}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Version
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <Tabs value={activeVersion || ''} onValueChange={setActiveVersion}>
@@ -399,6 +509,7 @@ export default function QuoteDetail() {
                   quoteId={quote.id}
                   version={version}
                   currencySymbol={quote.currency?.symbol || '$'}
+                  currencyId={quote.currency?.id || currentTenant?.default_currency_id || null}
                   onSetPrimary={() => handleSetPrimary(version.id)}
                   onRefresh={fetchQuote}
                 />
@@ -408,6 +519,76 @@ export default function QuoteDetail() {
         </CardContent>
       </Card>
 
+      <QuoteApprovalPanel
+        quoteId={quote.id}
+        quoteStatus={quote.status}
+        version={primaryVersion}
+        currencySymbol={quote.currency?.symbol || '$'}
+        onChange={fetchQuote}
+      />
+
+      {/* Terms */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Terms & Conditions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Textarea
+            value={terms}
+            onChange={(e) => setTerms(e.target.value)}
+            onBlur={handleSaveTerms}
+            placeholder="Payment terms, delivery, warranty... (printed on the quote document)"
+            rows={4}
+          />
+        </CardContent>
+      </Card>
+
+      <QuoteDocumentDialog
+        open={showDocumentDialog}
+        onOpenChange={setShowDocumentDialog}
+        quoteId={quote.id}
+        versions={versions}
+        defaultVersionId={activeVersion}
+      />
+
+      <QuoteVersionCompareDialog
+        open={showCompareDialog}
+        onOpenChange={setShowCompareDialog}
+        quoteReference={quote.reference_number || quote.name}
+        versions={versions}
+        defaultVersionId={activeVersion}
+        currencySymbol={quote.currency?.symbol || '$'}
+      />
+
+      {/* Accept & Create Contract Dialog */}
+      <AlertDialog open={showContractDialog} onOpenChange={setShowContractDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Accept Quote & Create Contract</AlertDialogTitle>
+            <AlertDialogDescription>
+              The quote will be marked as approved and a contract for{' '}
+              {formatCurrency(primaryVersion?.grand_total ?? quote.total_amount ?? 0)}
+              {primaryVersion ? ` (${primaryVersion.version_name})` : ''} will be created.{' '}
+              {quote.deal
+                ? `Payment terms are copied from the deal "${quote.deal.name}", which will be marked as converted.`
+                : 'The payment schedule starts as a single installment for the full amount.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={creatingContract}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={creatingContract}
+              onClick={(e) => {
+                e.preventDefault();
+                handleCreateContract();
+              }}
+            >
+              {creatingContract ? 'Creating...' : 'Create Contract'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Dialog */}
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
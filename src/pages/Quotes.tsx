@@ -44,6 +44,7 @@ interface Quote {
 
 const STATUS_COLORS: Record<string, string> = {
   draft: 'bg-muted text-muted-foreground',
+  pending_approval: 'bg-yellow-500/10 text-yellow-600',
   sent: 'bg-blue-500/10 text-blue-500',
   approved: 'bg-green-500/10 text-green-500',
   rejected: 'bg-destructive/10 text-destructive',
@@ -143,6 +144,7 @@ export default function Quotes() {
               <SelectContent>
                 <SelectItem value="all">All Status</SelectItem>
                 <SelectItem value="draft">Draft</SelectItem>
+                <SelectItem value="pending_approval">Pending Approval</SelectItem>
                 <SelectItem value="sent">Sent</SelectItem>
                 <SelectItem value="approved">Approved</SelectItem>
                 <SelectItem value="rejected">Rejected</SelectItem>
@@ -208,7 +210,7 @@ export default function Quotes() {
                     </TableCell>
                     <TableCell>
                       <Badge className={STATUS_COLORS[quote.status] || ''}>
-                        {quote.status.charAt(0).toUpperCase() + quote.status.slice(1)}
+                        {quote.status.charAt(0).toUpperCase() + quote.status.slice(1).replace('_', ' ')}
                       </Badge>
                     </TableCell>
                     <TableCell className="text-right font-medium">
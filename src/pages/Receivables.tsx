@@ -0,0 +1,373 @@
+import { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import * as XLSX from 'xlsx';
+import { AlertTriangle, Download, Loader2 } from 'lucide-react';
+import { useQuery } from '@tanstack/react-query';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { useCurrency } from '@/hooks/use-currency';
+import { useToast } from '@/hooks/use-toast';
+import { buildConversionRateTable } from '@/lib/quote-totals';
+import {
+  AGING_BUCKETS,
+  AGING_GROUPS,
+  AgingGroupBy,
+  ReceivableInput,
+  buildReceivables,
+  collectionsQueue,
+  summarizeAging,
+} from '@/lib/ar-aging';
+
+interface PaymentCollection {
+  payment_term_id: string;
+  escalated_at: string | null;
+  escalated_to: string | null;
+  follow_up: { status: string } | null;
+  escalation: { status: string } | null;
+}
+
+export default function Receivables() {
+  const { currentTenant } = useTenant();
+  const { currencyCode, formatCurrency } = useCurrency();
+  const { toast } = useToast();
+  const [groupBy, setGroupBy] = useState<AgingGroupBy>('customer');
+
+  const { data: sources, isLoading } = useQuery({
+    queryKey: ['receivables', currentTenant?.id],
+    enabled: !!currentTenant,
+    queryFn: async () => {
+      const tenantId = currentTenant!.id;
+      const [termsResult, collectionsResult, membersResult, settingsResult, ratesResult, currenciesResult] = await Promise.all([
+        supabase
+          .from('contract_payment_terms')
+          .select(`
+            id,
+            contract_id,
+            installment_number,
+            name,
+            amount_type,
+            amount_value,
+            calculated_amount,
+            received_amount,
+            payment_status,
+            due_date,
+            contracts!inner(
+              name,
+              status,
+              value,
+              currency_id,
+              assigned_to,
+              customer_id,
+              company_id,
+              customers!fk_contracts_customer_id(name, currency_id),
+              companies!contracts_company_id_fkey(name)
+            )
+          `)
+          .eq('tenant_id', tenantId)
+          .or('payment_status.is.null,payment_status.neq.paid'),
+        supabase
+          .from('payment_collections')
+          .select(`
+            payment_term_id,
+            escalated_at,
+            escalated_to,
+            follow_up:todos!payment_collections_follow_up_todo_id_fkey(status),
+            escalation:todos!payment_collections_escalation_todo_id_fkey(status)
+          `)
+          .eq('tenant_id', tenantId)
+          .is('resolved_at', null),
+        supabase
+          .from('user_tenant_memberships')
+          .select('user_id, profiles(first_name, last_name)')
+          .eq('tenant_id', tenantId),
+        supabase
+          .from('tenant_pricing_settings')
+          .select('custom_conversion_rates')
+          .eq('tenant_id', tenantId)
+          .maybeSingle(),
+        supabase
+          .from('currency_settings')
+          .select('from_currency_id, to_currency_id, conversion_rate')
+          .eq('tenant_id', tenantId),
+        supabase.from('currencies').select('id, code'),
+      ]);
+
+      const error =
+        termsResult.error || collectionsResult.error || membersResult.error || settingsResult.error ||
+        ratesResult.error || currenciesResult.error;
+      if (error) throw error;
+
+      return {
+        terms: (termsResult.data || []) as unknown as ReceivableInput[],
+        collections: (collectionsResult.data || []) as unknown as PaymentCollection[],
+        userNames: Object.fromEntries(
+          (membersResult.data || []).map(member => [
+            member.user_id,
+            `${member.profiles?.first_name || ''} ${member.profiles?.last_name || ''}`.trim() || 'Unnamed user',
+          ])
+        ),
+        rates: buildConversionRateTable(ratesResult.data || [], settingsResult.data?.custom_conversion_rates),
+        currencyCodes: Object.fromEntries((currenciesResult.data || []).map(currency => [currency.id, currency.code])),
+      };
+    },
+  });
+
+  const { receivables, missingRateCurrencies } = useMemo(
+    () =>
+      sources
+        ? buildReceivables(sources.terms, { rates: sources.rates, currencyId: currentTenant?.default_currency_id })
+        : { receivables: [], missingRateCurrencies: [] },
+    [sources, currentTenant?.default_currency_id]
+  );
+
+  const aging = useMemo(() => summarizeAging(receivables, groupBy), [receivables, groupBy]);
+  const queue = useMemo(() => collectionsQueue(receivables), [receivables]);
+  const collectionByTerm = new Map((sources?.collections || []).map(collection => [collection.payment_term_id, collection]));
+  const missingCurrencies = missingRateCurrencies.map(id => sources?.currencyCodes[id] || 'unknown');
+  const groupLabel = AGING_GROUPS.find(group => group.value === groupBy)?.label;
+
+  const userName = (userId: string | null) => (userId ? sources?.userNames[userId] || 'Unknown user' : '-');
+
+  const exportToExcel = () => {
+    try {
+      const workbook = XLSX.utils.book_new();
+
+      const agingData: (string | number)[][] = [
+        [`Accounts Receivable Aging by ${groupLabel}`],
+        [`Amounts in ${currencyCode}`, `Generated ${new Date().toLocaleString()}`],
+        [],
+        [groupLabel, ...AGING_BUCKETS.map(bucket => bucket.label), 'Total', 'Installments'],
+        ...[...aging.rows, aging.totals].map(row => [
+          row.label,
+          ...AGING_BUCKETS.map(bucket => row.buckets[bucket.value]),
+          row.total,
+          row.count,
+        ]),
+      ];
+      const agingSheet = XLSX.utils.aoa_to_sheet(agingData);
+      agingSheet['!cols'] = [{ wch: 30 }, ...Array(7).fill({ wch: 14 })];
+      XLSX.utils.book_append_sheet(workbook, agingSheet, 'Aging');
+
+      const detailData: (string | number)[][] = [
+        ['Contract', 'Installment', 'Customer', 'Company', 'Assigned To', 'Due Date', 'Days Overdue', 'Bucket', 'Outstanding'],
+        ...receivables.map(receivable => [
+          receivable.contractName,
+          receivable.installmentLabel,
+          receivable.customerName,
+          receivable.companyName,
+          userName(receivable.assignedTo),
+          receivable.dueDate || '',
+          receivable.daysOverdue,
+          AGING_BUCKETS.find(bucket => bucket.value === receivable.bucket)?.label || '',
+          receivable.outstanding,
+        ]),
+      ];
+      const detailSheet = XLSX.utils.aoa_to_sheet(detailData);
+      detailSheet['!cols'] = [{ wch: 30 }, { wch: 16 }, { wch: 25 }, { wch: 25 }, { wch: 20 }, ...Array(4).fill({ wch: 14 })];
+      XLSX.utils.book_append_sheet(workbook, detailSheet, 'Installments');
+
+      XLSX.writeFile(workbook, `AR_Aging_${new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch (error) {
+      console.error('Error exporting receivables aging:', error);
+      toast({ title: 'Error', description: 'Failed to export the aging report', variant: 'destructive' });
+    }
+  };
+
+  const collectionStatus = (paymentTermId: string) => {
+    const collection = collectionByTerm.get(paymentTermId);
+    if (!collection) return <span className="text-muted-foreground">Not started</span>;
+    if (collection.escalated_at) {
+      return (
+        <div className="space-y-1">
+          <Badge variant="destructive">Escalated</Badge>
+          <p className="text-xs text-muted-foreground">
+            to {userName(collection.escalated_to)}
+            {collection.escalation?.status === 'completed' && ' · done'}
+          </p>
+        </div>
+      );
+    }
+    return (
+      <Badge variant={collection.follow_up?.status === 'completed' ? 'secondary' : 'outline'}>
+        {collection.follow_up?.status === 'completed' ? 'Followed up' : 'Follow-up open'}
+      </Badge>
+    );
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Receivables</h1>
+            <p className="text-muted-foreground">Unpaid contract installments by age, in {currencyCode}</p>
+          </div>
+          <Button variant="outline" onClick={exportToExcel} disabled={isLoading}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+              {AGING_BUCKETS.map((bucket) => (
+                <Card key={bucket.value}>
+                  <CardContent className="p-4">
+                    <p className="text-sm font-medium text-muted-foreground">{bucket.label}</p>
+                    <p className={bucket.value === 'days_90_plus' && aging.totals.buckets[bucket.value] > 0 ? 'text-2xl font-bold text-destructive' : 'text-2xl font-bold'}>
+                      {formatCurrency(aging.totals.buckets[bucket.value])}
+                    </p>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {missingCurrencies.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-yellow-300 bg-yellow-50 p-3 text-sm text-yellow-800">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <p>
+                  No conversion rate to {currencyCode} for {missingCurrencies.join(', ')}; those amounts are shown
+                  unconverted.
+                </p>
+              </div>
+            )}
+
+            <Tabs defaultValue="aging">
+              <TabsList>
+                <TabsTrigger value="aging">Aging</TabsTrigger>
+                <TabsTrigger value="collections">
+                  Collections Queue
+                  {queue.length > 0 && <Badge variant="secondary" className="ml-2">{queue.length}</Badge>}
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="aging">
+                <Card>
+                  <CardHeader className="flex flex-row items-center justify-between">
+                    <CardTitle>Aging by {groupLabel}</CardTitle>
+                    <Select value={groupBy} onValueChange={(value: AgingGroupBy) => setGroupBy(value)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {AGING_GROUPS.map((group) => (
+                          <SelectItem key={group.value} value={group.value}>
+                            By {group.label.toLowerCase()}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </CardHeader>
+                  <CardContent>
+                    {aging.rows.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No outstanding installments</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>{groupLabel}</TableHead>
+                            {AGING_BUCKETS.map((bucket) => (
+                              <TableHead key={bucket.value} className="text-right">{bucket.label}</TableHead>
+                            ))}
+                            <TableHead className="text-right">Total</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {[...aging.rows, aging.totals].map((row) => (
+                            <TableRow key={row.key} className={row === aging.totals ? 'font-semibold' : undefined}>
+                              <TableCell>
+                                {groupBy === 'contract' && row !== aging.totals ? (
+                                  <Link to={`/contracts/${row.key}`} className="hover:underline">{row.label}</Link>
+                                ) : (
+                                  row.label
+                                )}
+                              </TableCell>
+                              {AGING_BUCKETS.map((bucket) => (
+                                <TableCell key={bucket.value} className="text-right">
+                                  {row.buckets[bucket.value] ? formatCurrency(row.buckets[bucket.value]) : '-'}
+                                </TableCell>
+                              ))}
+                              <TableCell className="text-right">{formatCurrency(row.total)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="collections">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Overdue Installments</CardTitle>
+                    <p className="text-sm text-muted-foreground">
+                      Follow-up tasks are created automatically and escalated to managers as configured in Settings →
+                      Collections.
+                    </p>
+                  </CardHeader>
+                  <CardContent>
+                    {queue.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">Nothing overdue</p>
+                    ) : (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Installment</TableHead>
+                            <TableHead>Customer</TableHead>
+                            <TableHead>Assigned To</TableHead>
+                            <TableHead>Due Date</TableHead>
+                            <TableHead className="text-right">Days Overdue</TableHead>
+                            <TableHead className="text-right">Outstanding</TableHead>
+                            <TableHead>Collection</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {queue.map((receivable) => (
+                            <TableRow key={receivable.id}>
+                              <TableCell>
+                                <Link to={`/installments/${receivable.id}`} className="font-medium hover:underline">
+                                  {receivable.installmentLabel}
+                                </Link>
+                                <p className="text-xs text-muted-foreground">{receivable.contractName}</p>
+                              </TableCell>
+                              <TableCell>{receivable.customerName || '-'}</TableCell>
+                              <TableCell>{userName(receivable.assignedTo)}</TableCell>
+                              <TableCell>{receivable.dueDate ? new Date(receivable.dueDate).toLocaleDateString() : '-'}</TableCell>
+                              <TableCell className="text-right">
+                                <Badge variant={receivable.daysOverdue > 60 ? 'destructive' : 'outline'}>
+                                  {receivable.daysOverdue}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                {formatCurrency(receivable.outstanding)}
+                                {receivable.missingRate && <span className="text-yellow-600" title="Not converted"> *</span>}
+                              </TableCell>
+                              <TableCell>{collectionStatus(receivable.id)}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    )}
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
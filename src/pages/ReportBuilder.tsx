@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { Save, Play, ArrowLeft } from 'lucide-react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
@@ -11,26 +11,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { QueryBuilder } from '@/components/reports/QueryBuilder';
 import { ReportVisualization } from '@/components/reports/ReportVisualization';
 import { ReportExport } from '@/components/reports/ReportExport';
+import { ReportSharing } from '@/components/reports/ReportSharing';
+import { DrillDownTarget, ReportDrillDown } from '@/components/reports/ReportDrillDown';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useTenant } from '@/hooks/use-tenant';
 import { useAuth } from '@/hooks/use-auth';
 import { useToast } from '@/hooks/use-toast';
+import { QueryConfig, ReportDataResult, hasAggregation } from '@/lib/report-query';
+import { initialParameterValues, missingParameters } from '@/lib/report-parameters';
 
-interface QueryConfig {
-  fields: string[];
-  filters: Array<{
-    field: string;
-    operator: string;
-    value: string;
-  }>;
-  sorting: Array<{
-    field: string;
-    direction: 'asc' | 'desc';
-  }>;
-  grouping: string[];
-  visualization_type: 'table' | 'bar_chart' | 'pie_chart' | 'kpi_cards' | 'comparison_chart';
-  comparison_fields?: string[];
-}
+const PREVIEW_LIMIT = 100;
 
 export default function ReportBuilder() {
   const navigate = useNavigate();
@@ -53,8 +44,11 @@ export default function ReportBuilder() {
     comparison_fields: [],
   });
   const [previewData, setPreviewData] = useState<any[]>([]);
+  const [previewResult, setPreviewResult] = useState<Omit<ReportDataResult, 'data'> | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
+  const [drillTarget, setDrillTarget] = useState<DrillDownTarget | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (id && id !== 'new') {
@@ -79,7 +73,7 @@ export default function ReportBuilder() {
       setDataSource(data.data_source);
       setVisualizationType(data.visualization_type as any);
       setVisibility(data.visibility as 'private' | 'tenant');
-      setQueryConfig((data.query_config as any) as QueryConfig);
+      setQueryConfig({ grouping: [], ...(data.query_config as unknown as Partial<QueryConfig>) } as QueryConfig);
     } catch (error) {
       console.error('Error loading report:', error);
       toast({
@@ -92,63 +86,52 @@ export default function ReportBuilder() {
   };
 
   const handleRunPreview = async () => {
-    if (!dataSource || queryConfig.fields.length === 0) {
+    if (!dataSource || (queryConfig.fields.length === 0 && !hasAggregation(queryConfig))) {
       toast({
         title: 'Error',
-        description: 'Please select a data source and at least one field',
+        description: 'Please select a data source and at least one field or aggregate',
         variant: 'destructive',
       });
       return;
     }
+    if (!currentTenant) return;
 
-    setLoading(true);
-    try {
-      // Build the query dynamically based on the config
-      let query = supabase.from(dataSource as any).select(queryConfig.fields.join(', '));
-
-      // Apply filters
-      queryConfig.filters.forEach((filter) => {
-        switch (filter.operator) {
-          case 'equals':
-            query = query.eq(filter.field, filter.value);
-            break;
-          case 'not_equals':
-            query = query.neq(filter.field, filter.value);
-            break;
-          case 'contains':
-            query = query.ilike(filter.field, `%${filter.value}%`);
-            break;
-          case 'greater_than':
-            query = query.gt(filter.field, filter.value);
-            break;
-          case 'less_than':
-            query = query.lt(filter.field, filter.value);
-            break;
-        }
+    // The preview runs with the parameters' default values
+    const parameterValues = initialParameterValues(queryConfig.parameters);
+    const missing = missingParameters(queryConfig.parameters, parameterValues);
+    if (missing.length > 0) {
+      toast({
+        title: 'Missing parameters',
+        description: `Set a default value for ${missing.map(parameter => parameter.label).join(', ')} to preview the report`,
+        variant: 'destructive',
       });
+      return;
+    }
 
-      // Apply sorting
-      queryConfig.sorting.forEach((sort) => {
-        query = query.order(sort.field, { ascending: sort.direction === 'asc' });
+    setLoading(true);
+    try {
+      // Filtering, grouping and aggregation run in the edge function
+      const { data, error } = await supabase.functions.invoke('generate-report-data', {
+        body: {
+          dataSource,
+          queryConfig: { ...queryConfig, grouping: queryConfig.grouping.filter(Boolean) },
+          tenantId: currentTenant.id,
+          parameters: parameterValues,
+          limit: PREVIEW_LIMIT,
+        },
       });
 
-      // Add tenant filter if the table has tenant_id
-      if (currentTenant && ['contacts', 'companies', 'deals', 'sites', 'customers'].includes(dataSource)) {
-        query = query.eq('tenant_id', currentTenant.id);
-      }
-
-      // Limit results for preview
-      query = query.limit(100);
-
-      const { data, error } = await query;
       if (error) throw error;
+      if (data?.error) throw new Error(data.error);
 
-      setPreviewData(data || []);
+      const { data: rows, ...result } = data as ReportDataResult;
+      setPreviewData(rows || []);
+      setPreviewResult(result);
     } catch (error) {
       console.error('Error running preview:', error);
       toast({
         title: 'Error',
-        description: 'Failed to run preview',
+        description: error?.message || 'Failed to run preview',
         variant: 'destructive',
       });
     } finally {
@@ -157,7 +140,7 @@ export default function ReportBuilder() {
   };
 
   const handleSaveReport = async () => {
-    if (!reportName || !dataSource || queryConfig.fields.length === 0) {
+    if (!reportName || !dataSource || (queryConfig.fields.length === 0 && !hasAggregation(queryConfig))) {
       toast({
         title: 'Error',
         description: 'Please fill in all required fields',
@@ -173,7 +156,11 @@ export default function ReportBuilder() {
         description: reportDescription,
         data_source: dataSource,
         visualization_type: visualizationType,
-        query_config: { ...queryConfig, visualization_type: visualizationType } as any,
+        query_config: {
+          ...queryConfig,
+          grouping: queryConfig.grouping.filter(Boolean),
+          visualization_type: visualizationType,
+        } as unknown as Json,
         visibility,
         tenant_id: currentTenant?.id,
         created_by: user?.id,
@@ -321,7 +308,7 @@ export default function ReportBuilder() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="private">Private (Only me)</SelectItem>
+                      <SelectItem value="private">Private (Me and who it is shared with)</SelectItem>
                       <SelectItem value="tenant">Tenant-wide (All users)</SelectItem>
                     </SelectContent>
                   </Select>
@@ -356,24 +343,44 @@ export default function ReportBuilder() {
           </div>
 
           <div className="space-y-6">
-            <ReportVisualization
-              data={previewData}
-              fields={queryConfig.fields}
-              visualizationType={visualizationType}
-              dataSource={dataSource}
-              loading={loading}
-              queryConfig={queryConfig}
-            />
+            <div ref={chartRef}>
+              <ReportVisualization
+                data={previewData}
+                fields={queryConfig.fields}
+                visualizationType={visualizationType}
+                dataSource={dataSource}
+                loading={loading}
+                queryConfig={queryConfig}
+                columns={previewResult?.columns}
+                totals={previewResult?.totals}
+                periods={previewResult?.periods}
+                onDrillDown={(group, label) => setDrillTarget({ group, label })}
+              />
+            </div>
             
             <ReportExport
               reportId={id !== 'new' ? id : undefined}
               reportName={reportName}
               data={previewData}
-              fields={queryConfig.fields}
+              fields={previewResult?.columns?.map(c => c.key) || queryConfig.fields}
+              queryConfig={queryConfig}
+              chartRef={chartRef}
+              parameters={initialParameterValues(queryConfig.parameters)}
             />
+
+            {id && id !== 'new' && visibility === 'private' && <ReportSharing reportId={id} />}
           </div>
         </div>
       </div>
+
+      <ReportDrillDown
+        target={drillTarget}
+        onClose={() => setDrillTarget(null)}
+        dataSource={dataSource}
+        queryConfig={{ ...queryConfig, grouping: queryConfig.grouping.filter(Boolean) }}
+        tenantId={currentTenant?.id}
+        parameters={initialParameterValues(queryConfig.parameters)}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
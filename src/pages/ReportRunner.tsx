@@ -1,14 +1,18 @@
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Play, Download, Calendar } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Play, Download, Calendar, SlidersHorizontal } from 'lucide-react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ReportVisualization } from '@/components/reports/ReportVisualization';
 import { ReportExport } from '@/components/reports/ReportExport';
+import { ReportParameterInputs } from '@/components/reports/ReportParameterInputs';
+import { DrillDownTarget, ReportDrillDown } from '@/components/reports/ReportDrillDown';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
 import { useToast } from '@/hooks/use-toast';
+import { ReportDataResult, ReportParameter } from '@/lib/report-query';
+import { ParameterValues, initialParameterValues, missingParameters } from '@/lib/report-parameters';
 
 interface Report {
   id: string;
@@ -23,13 +27,20 @@ interface Report {
 export default function ReportRunner() {
   const navigate = useNavigate();
   const { id } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { currentTenant } = useTenant();
   const { toast } = useToast();
 
   const [report, setReport] = useState<Report | null>(null);
   const [data, setData] = useState<any[]>([]);
+  const [result, setResult] = useState<Omit<ReportDataResult, 'data'> | null>(null);
   const [loading, setLoading] = useState(false);
   const [reportLoading, setReportLoading] = useState(true);
+  const [parameterValues, setParameterValues] = useState<ParameterValues>({});
+  const [drillTarget, setDrillTarget] = useState<DrillDownTarget | null>(null);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const parameters: ReportParameter[] = report?.query_config?.parameters || [];
 
   useEffect(() => {
     if (id) {
@@ -50,7 +61,15 @@ export default function ReportRunner() {
       if (error) throw error;
 
       setReport(reportData);
-      await runReport(reportData);
+
+      // Parameters can be passed in the URL, e.g. /reports/:id/run?assignee=<user id>
+      const reportParameters: ReportParameter[] = (reportData as Report).query_config?.parameters;
+      const values = initialParameterValues(reportParameters, Object.fromEntries(searchParams));
+      setParameterValues(values);
+      // Reports with required parameters wait for the prompt to be filled in
+      if (missingParameters(reportParameters, values).length === 0) {
+        await runReport(reportData, values);
+      }
     } catch (error) {
       console.error('Error loading report:', error);
       toast({
@@ -64,58 +83,37 @@ export default function ReportRunner() {
     }
   };
 
-  const runReport = async (reportData?: Report) => {
+  const runReport = async (reportData?: Report, values: ParameterValues = parameterValues) => {
     const reportToRun = reportData || report;
     if (!reportToRun || !currentTenant) return;
 
+    const missing = missingParameters(reportToRun.query_config?.parameters, values);
+    if (missing.length > 0) {
+      toast({
+        title: 'Missing parameters',
+        description: `Please enter ${missing.map(parameter => parameter.label).join(', ')}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     setLoading(true);
     try {
-      const queryConfig = reportToRun.query_config;
-      
-      // Build the query dynamically based on the config
-      let query = supabase
-        .from(reportToRun.data_source as any)
-        .select(queryConfig.fields.join(', ')) as any;
-
-      // Apply filters
-      if (queryConfig.filters) {
-        queryConfig.filters.forEach((filter: any) => {
-          switch (filter.operator) {
-            case 'equals':
-              query = query.eq(filter.field, filter.value);
-              break;
-            case 'not_equals':
-              query = query.neq(filter.field, filter.value);
-              break;
-            case 'contains':
-              query = query.ilike(filter.field, `%${filter.value}%`);
-              break;
-            case 'greater_than':
-              query = query.gt(filter.field, filter.value);
-              break;
-            case 'less_than':
-              query = query.lt(filter.field, filter.value);
-              break;
-          }
-        });
-      }
-
-      // Apply sorting
-      if (queryConfig.sorting) {
-        queryConfig.sorting.forEach((sort: any) => {
-          query = query.order(sort.field, { ascending: sort.direction === 'asc' });
-        });
-      }
-
-      // Add tenant filter if the table has tenant_id
-      if (['contacts', 'companies', 'deals', 'sites', 'customers'].includes(reportToRun.data_source)) {
-        query = query.eq('tenant_id', currentTenant.id);
-      }
+      const { data: response, error } = await supabase.functions.invoke('generate-report-data', {
+        body: {
+          dataSource: reportToRun.data_source,
+          queryConfig: reportToRun.query_config || { fields: [], filters: [], sorting: [] },
+          tenantId: currentTenant.id,
+          parameters: values,
+        },
+      });
 
-      const { data: queryData, error } = await query;
       if (error) throw error;
+      if (response?.error) throw new Error(response.error);
 
-      setData(queryData || []);
+      const { data: rows, ...summary } = response as ReportDataResult;
+      setData(rows || []);
+      setResult(summary);
     } catch (error) {
       console.error('Error running report:', error);
       toast({
@@ -128,6 +126,11 @@ export default function ReportRunner() {
     }
   };
 
+  const handleRunWithParameters = () => {
+    setSearchParams(Object.fromEntries(Object.entries(parameterValues).filter(([, value]) => value)), { replace: true });
+    runReport();
+  };
+
   if (reportLoading) {
     return (
       <DashboardLayout>
@@ -193,13 +196,31 @@ export default function ReportRunner() {
           </div>
         </div>
 
+        {parameters.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <SlidersHorizontal className="h-5 w-5" />
+                Parameters
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ReportParameterInputs parameters={parameters} values={parameterValues} onChange={setParameterValues} />
+              <Button onClick={handleRunWithParameters} disabled={loading}>
+                <Play className="h-4 w-4 mr-2" />
+                Run Report
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-2">
             <Card>
               <CardHeader>
                 <CardTitle>Report Results</CardTitle>
               </CardHeader>
-              <CardContent>
+              <CardContent ref={chartRef}>
                 <ReportVisualization
                   data={data}
                   fields={report.query_config.fields || []}
@@ -207,6 +228,10 @@ export default function ReportRunner() {
                   dataSource={report.data_source}
                   loading={loading}
                   queryConfig={report.query_config || {}}
+                  columns={result?.columns}
+                  totals={result?.totals}
+                  periods={result?.periods}
+                  onDrillDown={(group, label) => setDrillTarget({ group, label })}
                 />
               </CardContent>
             </Card>
@@ -217,7 +242,9 @@ export default function ReportRunner() {
               reportId={report.id}
               reportName={report.name}
               data={data}
-              fields={report.query_config.fields || []}
+              fields={result?.columns?.map(c => c.key) || report.query_config.fields || []}
+              chartRef={chartRef}
+              parameters={parameterValues}
             />
           </div>
         </div>
@@ -256,6 +283,15 @@ export default function ReportRunner() {
           </CardContent>
         </Card>
       </div>
+
+      <ReportDrillDown
+        target={drillTarget}
+        onClose={() => setDrillTarget(null)}
+        dataSource={report.data_source}
+        queryConfig={report.query_config}
+        tenantId={currentTenant?.id}
+        parameters={parameterValues}
+      />
     </DashboardLayout>
   );
 }
\ No newline at end of file
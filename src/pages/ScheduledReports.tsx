@@ -1,20 +1,35 @@
 import { useState } from 'react';
-import { Calendar, Play, Pause, Trash2, Mail, Clock } from 'lucide-react';
+import { Calendar, CalendarClock, Play, Pause, Trash2, Mail, Clock } from 'lucide-react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
+import { useAuth } from '@/hooks/use-auth';
+import { useWorkingHours } from '@/hooks/use-working-hours';
 import { useToast } from '@/hooks/use-toast';
 import { useQuery } from '@tanstack/react-query';
+import { ScheduleRunPreview } from '@/components/reports/ScheduleConfigFields';
+import {
+  BusinessCalendar,
+  DEFAULT_BUSINESS_CALENDAR,
+  ScheduleConfig,
+  ScheduleType,
+  describeSchedule,
+  resolveScheduleTimezone,
+  workingHoursCalendar,
+} from '@/lib/report-schedule';
 
 interface ScheduledReport {
   id: string;
   name: string;
-  schedule_type: string;
+  user_id: string;
+  schedule_type: ScheduleType;
+  schedule_config: ScheduleConfig | null;
   email_recipients: string[];
   is_active: boolean;
   last_run_at: string | null;
@@ -29,6 +44,17 @@ interface ScheduledReport {
 export default function ScheduledReports() {
   const { currentTenant } = useTenant();
   const { toast } = useToast();
+  const { user } = useAuth();
+  const { workingHours } = useWorkingHours();
+
+  // Only the current user's working hours are readable; other owners' schedules fall back to the zone saved with them
+  const scheduleZone = (scheduledReport: ScheduledReport): { timezone: string; calendar: BusinessCalendar } => {
+    const ownSchedule = scheduledReport.user_id === user?.id;
+    return {
+      timezone: resolveScheduleTimezone(scheduledReport.schedule_config || {}, ownSchedule ? workingHours?.timezone : null),
+      calendar: ownSchedule ? workingHoursCalendar(workingHours) : DEFAULT_BUSINESS_CALENDAR,
+    };
+  };
 
   const { data: scheduledReports = [], refetch } = useQuery({
     queryKey: ['scheduled-reports', currentTenant?.id],
@@ -55,9 +81,10 @@ export default function ScheduledReports() {
 
   const handleToggleActive = async (reportId: string, isActive: boolean) => {
     try {
+      // Resumed schedules start from their next run rather than catching up on the paused period
       const { error } = await supabase
         .from('scheduled_reports')
-        .update({ is_active: !isActive })
+        .update(isActive ? { is_active: false } : { is_active: true, next_run_at: null })
         .eq('id', reportId);
 
       if (error) throw error;
@@ -130,6 +157,8 @@ export default function ScheduledReports() {
       daily: 'default',
       weekly: 'secondary',
       monthly: 'outline',
+      quarterly: 'outline',
+      cron: 'secondary',
     };
     
     return (
@@ -213,7 +242,31 @@ export default function ScheduledReports() {
                           </div>
                         </div>
                       </TableCell>
-                      <TableCell>{getScheduleBadge(scheduledReport.schedule_type)}</TableCell>
+                      <TableCell>
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            {getScheduleBadge(scheduledReport.schedule_type)}
+                            <Popover>
+                              <PopoverTrigger asChild>
+                                <Button variant="ghost" size="sm" title="Preview upcoming runs">
+                                  <CalendarClock className="h-4 w-4" />
+                                </Button>
+                              </PopoverTrigger>
+                              <PopoverContent className="w-72">
+                                <ScheduleRunPreview
+                                  scheduleType={scheduledReport.schedule_type}
+                                  config={scheduledReport.schedule_config || {}}
+                                  {...scheduleZone(scheduledReport)}
+                                />
+                              </PopoverContent>
+                            </Popover>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {describeSchedule(scheduledReport.schedule_type, scheduledReport.schedule_config || {})}
+                            {' '}({scheduleZone(scheduledReport).timezone})
+                          </div>
+                        </div>
+                      </TableCell>
                       <TableCell>
                         {getStatusBadge(scheduledReport.is_active, scheduledReport.next_run_at)}
                       </TableCell>
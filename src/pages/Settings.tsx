@@ -1,8 +1,11 @@
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Settings, Users, Building2, Key, DollarSign, Cloud } from 'lucide-react';
+import { Settings, Users, Building2, Key, DollarSign, Cloud, Percent, ShieldCheck, HandCoins } from 'lucide-react';
 import { CurrencySettings } from '@/components/settings/CurrencySettings';
+import { TaxSettings } from '@/components/settings/TaxSettings';
+import { QuoteApprovalSettings } from '@/components/settings/QuoteApprovalSettings';
+import { CollectionSettings } from '@/components/settings/CollectionSettings';
 import { OneDriveSettings } from '@/components/settings/OneDriveSettings';
 import { BranchesManager } from '@/components/settings/BranchesManager';
 import { DepartmentsManager } from '@/components/settings/DepartmentsManager';
@@ -65,6 +68,36 @@ const SettingsPage = () => {
                 Currency Settings
               </Button>
             )}
+            {hasPermission('settings_read') && (
+              <Button
+                variant={activeSection === 'tax' ? 'default' : 'ghost'}
+                className="w-full justify-start"
+                onClick={() => setActiveSection('tax')}
+              >
+                <Percent className="mr-2 h-4 w-4" />
+                Tax & Rounding
+              </Button>
+            )}
+            {hasPermission('settings_read') && (
+              <Button
+                variant={activeSection === 'quote-approvals' ? 'default' : 'ghost'}
+                className="w-full justify-start"
+                onClick={() => setActiveSection('quote-approvals')}
+              >
+                <ShieldCheck className="mr-2 h-4 w-4" />
+                Quote Approvals
+              </Button>
+            )}
+            {hasPermission('settings_read') && (
+              <Button
+                variant={activeSection === 'collections' ? 'default' : 'ghost'}
+                className="w-full justify-start"
+                onClick={() => setActiveSection('collections')}
+              >
+                <HandCoins className="mr-2 h-4 w-4" />
+                Collections
+              </Button>
+            )}
             {hasPermission('settings_read') && (
               <Button
                 variant={activeSection === 'branches' ? 'default' : 'ghost'}
@@ -191,6 +224,12 @@ const SettingsPage = () => {
 
             {activeSection === 'currency' && hasPermission('settings_read') && <CurrencySettings />}
 
+            {activeSection === 'tax' && hasPermission('settings_read') && <TaxSettings />}
+
+            {activeSection === 'quote-approvals' && hasPermission('settings_read') && <QuoteApprovalSettings />}
+
+            {activeSection === 'collections' && hasPermission('settings_read') && <CollectionSettings />}
+
             {activeSection === 'branches' && hasPermission('settings_read') && <BranchesManager />}
 
             {activeSection === 'departments' && hasPermission('settings_read') && <DepartmentsManager />}
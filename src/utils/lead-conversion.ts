@@ -1,188 +1,146 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+type LeadType = 'company' | 'contact' | 'site';
 
 interface ConvertLeadToDealParams {
-  leadType: 'company' | 'contact' | 'site';
+  leadType: LeadType;
   leadId: string;
   dealData: {
     name: string;
-    description?: string;
-    value?: number;
-    currency_id?: string;
+    description?: string | null;
+    value?: number | null;
+    currency_id?: string | null;
     stage_id: string;
     priority: 'low' | 'medium' | 'high';
-    expected_close_date?: string;
-    assigned_to?: string;
-    notes?: string;
+    probability?: number | null;
+    expected_close_date?: string | null;
+    assigned_to?: string | null;
+    notes?: string | null;
+    site_id?: string | null;
+    company_id?: string | null;
+    contact_id?: string | null;
+    source_id?: string | null;
+    source_company_id?: string | null;
+    source_contact_id?: string | null;
+    source_user_id?: string | null;
+    solution_category_ids?: string[];
   };
-  tenantId: string;
-  userId: string;
+  paymentTerms?: Array<{
+    installment_number: number;
+    amount_type: string;
+    amount_value: number;
+    calculated_amount?: number | null;
+    due_date?: string | null;
+    notes?: string | null;
+  }>;
 }
 
-export const convertLeadToDeal = async ({
-  leadType,
-  leadId,
-  dealData,
-  tenantId,
-  userId
-}: ConvertLeadToDealParams) => {
+export interface LeadConversionReport {
+  deal_id: string;
+  deal_name: string;
+  /** The lead had been converted by an earlier call; nothing new was created */
+  already_converted: boolean;
+  company_id: string | null;
+  contact_id: string | null;
+  site_id: string | null;
+  customer_id: string | null;
+  /** How the legacy customer was found: picked on the form, the lead's own, or matched by email or name */
+  customer_match: 'selected' | 'lead' | 'email' | 'name' | null;
+  payment_terms_added: number;
+  relationships_copied: number;
+  activities_linked: number;
+  files_registered: number;
+  /** Lead files whose storage objects were not moved to the deal */
+  files: Array<{ id: string; file_path: string }>;
+}
+
+/**
+ * Moves one lead file object to the deal-files bucket under the same path, then drops the lead file record.
+ * Every step can be repeated, so a move interrupted half way finishes on the next attempt.
+ */
+const moveLeadFile = async (file: { id: string; file_path: string }) => {
   try {
-    let leadData: any;
-    let customerId = null;
-
-    if (leadType === 'company') {
-      // Fetch company lead data
-      const { data, error } = await supabase
-        .from('companies')
-        .select('*')
-        .eq('id', leadId)
-        .single();
-
-      if (error) throw error;
-      leadData = data;
-
-      // Create customer from company
-      const { data: customer, error: customerError } = await supabase
-        .from('customers')
-        .insert({
-          name: leadData.name,
-          type: 'company',
-          email: leadData.email,
-          phone: leadData.phone,
-          tenant_id: tenantId,
-        })
-        .select()
-        .single();
-
-      if (customerError) throw customerError;
-      customerId = customer.id;
-    } else if (leadType === 'contact') {
-      // Fetch contact lead data
-      const { data, error } = await supabase
-        .from('contacts')
-        .select('*')
-        .eq('id', leadId)
-        .single();
-
-      if (error) throw error;
-      leadData = data;
-
-      // Create customer from contact
-      const customerName = `${leadData.first_name} ${leadData.last_name || ''}`.trim();
-      const { data: customer, error: customerError } = await supabase
-        .from('customers')
-        .insert({
-          name: customerName,
-          type: 'individual',
-          email: leadData.email,
-          phone: leadData.phone,
-          tenant_id: tenantId,
-        })
-        .select()
-        .single();
-
-      if (customerError) throw customerError;
-      customerId = customer.id;
-    } else if (leadType === 'site') {
-      // Fetch site lead data
-      const { data, error } = await supabase
-        .from('sites')
-        .select('*')
-        .eq('id', leadId)
-        .single();
-
-      if (error) throw error;
-      leadData = data;
-      
-      // For sites, we might need to create a customer or use existing one
-      if (leadData.customer_id) {
-        customerId = leadData.customer_id;
-      }
+    const { data: blob } = await supabase.storage.from('lead-files').download(file.file_path);
+
+    if (blob) {
+      const { error: uploadError } = await supabase.storage
+        .from('deal-files')
+        .upload(file.file_path, blob, { upsert: true });
+      if (uploadError) throw uploadError;
+
+      // Storage policies check the lead file record, so the object goes before the record
+      const { error: removeError } = await supabase.storage.from('lead-files').remove([file.file_path]);
+      if (removeError) throw removeError;
+    } else {
+      // Only the record is left when an earlier attempt stopped after removing the object
+      const { data: moved } = await supabase.storage.from('deal-files').exists(file.file_path);
+      if (!moved) return false;
     }
 
-    // Create deal with source information carried over
-    const { data: deal, error: dealError } = await supabase
-      .from('deals')
-      .insert({
-        ...dealData,
-        customer_id: customerId,
-        source_id: leadData?.source_id || null,
-        source_company_id: leadData?.source_company_id || null,
-        source_contact_id: leadData?.source_contact_id || null,
-        source_user_id: leadData?.source_user_id || null,
-        solution_category_ids: leadData?.solution_category_ids || [],
-        tenant_id: tenantId,
-      })
-      .select()
-      .single();
-
-    if (dealError) throw dealError;
-
-    // Update lead to mark as converted (archived)
-    const updateTable = leadType === 'contact' ? 'contacts' : leadType === 'company' ? 'companies' : 'sites';
-    await supabase
-      .from(updateTable)
-      .update({ is_lead: false })
-      .eq('id', leadId);
-
-    // Migrate files if any exist
-    const { data: leadFiles } = await supabase
-      .from('lead_files')
-      .select('*')
-      .eq('entity_id', leadId)
-      .eq('entity_type', leadType)
-      .eq('tenant_id', tenantId);
-
-    if (leadFiles && leadFiles.length > 0) {
-      const dealFilesData = leadFiles.map(file => ({
-        deal_id: deal.id,
-        name: file.name,
-        file_path: file.file_path.replace('lead-files/', 'deal-files/'),
-        mime_type: file.mime_type,
-        file_size: file.file_size,
-        notes: file.notes,
-        created_by: file.created_by,
-        tenant_id: tenantId,
-      }));
-
-      // Copy files in storage
-      for (const file of leadFiles) {
-        try {
-          const { data: fileData } = await supabase.storage
-            .from('lead-files')
-            .download(file.file_path);
-          
-          if (fileData) {
-            const newPath = file.file_path.replace('lead-files/', 'deal-files/');
-            await supabase.storage
-              .from('deal-files')
-              .upload(newPath, fileData);
-          }
-        } catch (fileError) {
-          console.error('Error copying file:', fileError);
-        }
-      }
+    const { error } = await supabase.from('lead_files').delete().eq('id', file.id);
+    if (error) throw error;
 
-      await supabase.from('deal_files').insert(dealFilesData);
-      await supabase.from('lead_files').delete().eq('entity_id', leadId).eq('entity_type', leadType);
-      await supabase.storage.from('lead-files').remove(leadFiles.map(f => f.file_path));
+    return true;
+  } catch (error) {
+    console.error('Error moving lead file:', error);
+    return false;
+  }
+};
+
+// A failed move is retried after 0.5s, 1s and 2s before it is reported
+const MOVE_ATTEMPTS = 4;
+const MOVE_RETRY_DELAY_MS = 500;
+
+/**
+ * Moves lead files to the deal, retrying each one with backoff. Returns the files that still could not be moved;
+ * calling it again with those picks up where it stopped.
+ */
+export const moveLeadFiles = async (files: LeadConversionReport['files']) => {
+  const pending: LeadConversionReport['files'] = [];
+
+  for (const file of files) {
+    let moved = false;
+    for (let attempt = 0; attempt < MOVE_ATTEMPTS && !moved; attempt++) {
+      if (attempt > 0) {
+        await new Promise(resolve => setTimeout(resolve, MOVE_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+      moved = await moveLeadFile(file);
+    }
+    if (!moved) {
+      pending.push(file);
     }
+  }
 
-    // Log activity
-    await supabase
-      .from('activity_logs')
-      .insert({
-        entity_id: deal.id,
-        entity_type: 'deal',
-        activity_type: 'lead_converted',
-        title: 'Lead Converted to Deal',
-        description: `${leadType} lead was converted to deal "${deal.name}"`,
-        created_by: userId,
-        tenant_id: tenantId,
-      });
-
-    return deal;
-  } catch (error) {
+  return pending;
+};
+
+/**
+ * Converts a lead into a deal.
+ *
+ * The deal, its links, the lead's relationships, activities and file records are handled by the
+ * convert_lead_to_deal database function in one transaction. Storage objects are moved afterwards; a file
+ * that still fails to move after its retries stays in the report's `files` for moveLeadFiles.
+ */
+export const convertLeadToDeal = async ({
+  leadType,
+  leadId,
+  dealData,
+  paymentTerms = [],
+}: ConvertLeadToDealParams): Promise<LeadConversionReport> => {
+  const { data, error } = await supabase.rpc('convert_lead_to_deal', {
+    _lead_type: leadType,
+    _lead_id: leadId,
+    _deal: dealData as unknown as Json,
+    _payment_terms: paymentTerms as unknown as Json,
+  });
+
+  if (error) {
     console.error('Error converting lead to deal:', error);
     throw error;
   }
-};
\ No newline at end of file
+
+  const report = data as unknown as LeadConversionReport;
+
+  return { ...report, files: await moveLeadFiles(report.files) };
+};
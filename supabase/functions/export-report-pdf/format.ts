@@ -0,0 +1,121 @@
+// Column formats shared by the XLSX and PDF renderers.
+//
+// Formats follow the report viewer: date buckets stay labels, percent and change columns keep their sign, value and
+// amount fields are currency, other aggregates are plain numbers and date fields are dates.
+
+export type ExportFormat = 'xlsx' | 'pdf';
+
+export type ColumnFormat = 'text' | 'number' | 'currency' | 'percent' | 'date';
+
+/** Column metadata returned by generate-report-data for aggregated reports */
+export interface ReportColumn {
+  key: string;
+  label: string;
+  kind: 'group' | 'aggregate' | 'calculated';
+  bucket?: string;
+  comparison?: 'current' | 'previous' | 'change' | 'change_percent';
+  source?: string;
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  format: ColumnFormat;
+  /** Change columns are shown with a leading + */
+  signed?: boolean;
+}
+
+export interface ExportTable {
+  title: string;
+  subtitle: string;
+  columns: ExportColumn[];
+  rows: Record<string, unknown>[];
+  /** Totals row, keyed like the rows; absent when no column can be totalled */
+  totals?: Record<string, number | null>;
+  currency: string;
+}
+
+export const humanize = (field: string) =>
+  field
+    .split('_')
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+const isDateKey = (key: string) => key.includes('date') || key.endsWith('_at');
+const isMoneyKey = (key: string) => key.includes('value') || key.includes('amount');
+
+function fieldFormat(key: string, rows: Record<string, unknown>[]): ColumnFormat {
+  const values = rows.map(row => row[key]).filter(value => value !== null && value !== undefined && value !== '');
+  const numeric = values.length > 0 && values.every(value => typeof value === 'number');
+  if (numeric) return isMoneyKey(key) ? 'currency' : 'number';
+  if (isDateKey(key) && values.every(value => !isNaN(new Date(String(value)).getTime()))) return 'date';
+  return 'text';
+}
+
+function aggregateFormat(column: ReportColumn, byKey: Map<string, ReportColumn>): ColumnFormat {
+  if (column.bucket || column.kind === 'group') return 'text';
+  if (column.comparison === 'change_percent' || column.label.includes('%')) return 'percent';
+  const source = column.comparison && column.source ? byKey.get(column.source) || column : column;
+  if (source.label.includes('%')) return 'percent';
+  return isMoneyKey(source.key) ? 'currency' : 'number';
+}
+
+/** Export columns for the report's fields, using aggregate column metadata when the report is summarized */
+export function exportColumns(
+  fields: string[],
+  rows: Record<string, unknown>[],
+  columns?: ReportColumn[]
+): ExportColumn[] {
+  if (columns?.length) {
+    const byKey = new Map(columns.map(column => [column.key, column]));
+    return columns.map(column => ({
+      key: column.key,
+      label: column.bucket ? `${column.label} (${column.bucket})` : column.label,
+      format: column.kind === 'group' && !column.bucket ? fieldFormat(column.key, rows) : aggregateFormat(column, byKey),
+      signed: column.comparison === 'change' || column.comparison === 'change_percent',
+    }));
+  }
+
+  const keys = fields.length > 0 ? fields : Object.keys(rows[0] || {});
+  return keys.map(key => ({ key, label: humanize(key), format: fieldFormat(key, rows) }));
+}
+
+/** Totals for plain row reports: sums of the currency and number columns */
+export function columnTotals(columns: ExportColumn[], rows: Record<string, unknown>[]): Record<string, number | null> | undefined {
+  const totalled = columns.filter(column => column.format === 'currency' || column.format === 'number');
+  if (totalled.length === 0 || rows.length === 0) return undefined;
+  return Object.fromEntries(
+    totalled.map(column => [
+      column.key,
+      rows.reduce((sum, row) => sum + (typeof row[column.key] === 'number' ? (row[column.key] as number) : 0), 0),
+    ])
+  );
+}
+
+/** Display text for a cell, as shown in the PDF */
+export function formatCell(value: unknown, column: ExportColumn, currency: string): string {
+  if (value === null || value === undefined || value === '') return '-';
+  const sign = column.signed && typeof value === 'number' && value > 0 ? '+' : '';
+
+  switch (column.format) {
+    case 'currency':
+      return typeof value === 'number'
+        ? sign + new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value)
+        : String(value);
+    case 'number':
+      return typeof value === 'number'
+        ? sign + value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+        : String(value);
+    case 'percent':
+      return typeof value === 'number'
+        ? `${sign}${value.toLocaleString('en-US', { maximumFractionDigits: 1 })}%`
+        : String(value);
+    case 'date': {
+      const date = new Date(String(value));
+      return isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10);
+    }
+    default:
+      return String(value);
+  }
+}
@@ -1,120 +1,256 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { decode as decodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+import { ExportFormat, ExportTable, ReportColumn, columnTotals, exportColumns, humanize } from "./format.ts";
+import { ChartSeries, renderPdf } from "./pdf.ts";
+import { renderXlsx } from "./xlsx.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const EXPORT_BUCKET = 'report-exports';
+const DOWNLOAD_LINK_SECONDS = 60 * 60 * 24;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
 interface ExportRequest {
   reportId: string;
-  data: any[];
-  fields: string[];
-  reportName: string;
+  format?: ExportFormat;
+  /** Unsaved query changes from the report builder; only honoured for user calls */
+  queryConfig?: ReportQueryConfig;
+  /** Values of the report's parameters, e.g. { assignee: '<user id>' } */
+  parameters?: Record<string, string>;
+  /** PNG data URL of the chart shown in the report viewer */
+  chartImage?: string;
+  /** Set by run-scheduled-reports, which calls with the service role key on behalf of the schedule owner */
+  scheduledReportId?: string;
+  userId?: string;
 }
 
+/** Only the selected fields are read here; the rest is passed on to generate-report-data */
+interface ReportQueryConfig {
+  fields?: string[];
+  [key: string]: unknown;
+}
+
+interface ReportData {
+  data: Record<string, unknown>[];
+  columns?: ReportColumn[];
+  totals?: Record<string, number | null>;
+  aggregated?: boolean;
+  periods?: { current: { label: string }; previous: { label: string } };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { reportId, data, fields, reportName }: ExportRequest = await req.json();
-
-    // Create HTML table for PDF generation
-    const tableHTML = generateTableHTML(data, fields, reportName);
-    
-    // For now, we'll return the HTML content
-    // In a production environment, you would use a service like Puppeteer or jsPDF
-    // to convert HTML to PDF and upload to storage
-    
-    const response = {
-      success: true,
-      html: tableHTML,
-      message: 'PDF generation started. In production, this would generate a PDF file.',
-    };
-
-    return new Response(JSON.stringify(response), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        ...corsHeaders,
-      },
-    });
-  } catch (error: any) {
-    console.error('Error in export-report-pdf function:', error);
-    return new Response(
-      JSON.stringify({ error: error.message }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json', ...corsHeaders },
-      }
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // Scheduled runs call with the service role key; everyone else queries with their own token so RLS applies
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const serviceCall = !!serviceKey && authHeader === `Bearer ${serviceKey}`;
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceCall ? serviceKey : (Deno.env.get('SUPABASE_ANON_KEY') ?? ''),
+      serviceCall ? {} : { global: { headers: { Authorization: authHeader } } }
     );
-  }
-};
 
-function generateTableHTML(data: any[], fields: string[], reportName: string): string {
-  const headers = fields.map(field => 
-    field.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ')
-  );
-
-  const formatValue = (value: any, field: string) => {
-    if (value === null || value === undefined) return '-';
-    
-    if (field.includes('date') || field.includes('created_at') || field.includes('updated_at')) {
-      return new Date(value).toLocaleDateString();
+    const request: ExportRequest = await req.json();
+    const format = request.format ?? 'pdf';
+    if (!request.reportId) {
+      return jsonResponse({ error: 'reportId is required' }, 400);
     }
-    
-    if (field === 'value' && typeof value === 'number') {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-      }).format(value);
+    if (!(format in CONTENT_TYPES)) {
+      return jsonResponse({ error: `Unsupported export format: ${format}` }, 400);
+    }
+
+    let userId = request.userId;
+    if (!serviceCall) {
+      const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+      if (userError || !user) {
+        return jsonResponse({ error: 'Invalid token' }, 401);
+      }
+      userId = user.id;
+    }
+    if (!userId) {
+      return jsonResponse({ error: 'userId is required' }, 400);
+    }
+
+    const { data: report, error: reportError } = await supabaseClient
+      .from('reports')
+      .select('id, name, tenant_id, data_source, query_config, visualization_type')
+      .eq('id', request.reportId)
+      .single();
+    if (reportError || !report) {
+      return jsonResponse({ error: 'Report not found' }, 404);
+    }
+
+    const queryConfig = !serviceCall && request.queryConfig ? request.queryConfig : report.query_config;
+
+    const { data: exportRecord, error: exportError } = await supabaseClient
+      .from('report_exports')
+      .insert({
+        tenant_id: report.tenant_id,
+        report_id: report.id,
+        user_id: userId,
+        scheduled_report_id: serviceCall ? request.scheduledReportId ?? null : null,
+        export_type: format,
+        status: 'pending',
+      })
+      .select()
+      .single();
+    if (exportError) throw exportError;
+
+    try {
+      const { data: reportData, error: dataError } = await supabaseClient.functions.invoke<ReportData>(
+        'generate-report-data',
+        {
+          body: {
+            dataSource: report.data_source,
+            queryConfig,
+            tenantId: report.tenant_id,
+            parameters: request.parameters,
+            // Service calls name the user whose visibility scope applies; user calls are scoped by their token
+            userId,
+          },
+          headers: { Authorization: authHeader },
+        }
+      );
+      if (dataError) throw dataError;
+
+      const table = await buildTable(supabaseClient, report, queryConfig, reportData!);
+      const fileBody = format === 'xlsx'
+        ? await renderXlsx(table)
+        : await renderPdf(table, {
+            chartImage: request.chartImage ? decodeDataUrl(request.chartImage) : undefined,
+            chart: report.visualization_type === 'table' ? undefined : chartSeries(table, reportData!),
+          });
+
+      const safeName = report.name.replace(/[^A-Za-z0-9_-]+/g, '-').replace(/^-+|-+$/g, '') || 'report';
+      const fileName = `${safeName}-${new Date().toISOString().slice(0, 10)}.${format}`;
+      const filePath = `${report.tenant_id}/${report.id}/${exportRecord.id}-${fileName}`;
+
+      const { error: uploadError } = await supabaseClient.storage
+        .from(EXPORT_BUCKET)
+        .upload(filePath, fileBody, { contentType: CONTENT_TYPES[format] });
+      if (uploadError) throw uploadError;
+
+      const { data: completed, error: updateError } = await supabaseClient
+        .from('report_exports')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          file_path: filePath,
+          file_name: fileName,
+          file_size: fileBody.byteLength,
+          row_count: table.rows.length,
+        })
+        .eq('id', exportRecord.id)
+        .select()
+        .single();
+      if (updateError) throw updateError;
+
+      const { data: signed } = await supabaseClient.storage
+        .from(EXPORT_BUCKET)
+        .createSignedUrl(filePath, DOWNLOAD_LINK_SECONDS, { download: fileName });
+
+      console.log('Generated report export:', { reportId: report.id, format, rows: table.rows.length });
+
+      return jsonResponse({
+        success: true,
+        export: completed,
+        fileName,
+        downloadUrl: signed?.signedUrl ?? null,
+      });
+    } catch (error) {
+      await supabaseClient
+        .from('report_exports')
+        .update({
+          status: 'failed',
+          completed_at: new Date().toISOString(),
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+        .eq('id', exportRecord.id);
+      throw error;
     }
-    
-    return String(value);
+  } catch (error) {
+    console.error('Error in export-report-pdf function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+function decodeDataUrl(dataUrl: string): Uint8Array {
+  return decodeBase64(dataUrl.replace(/^data:image\/png;base64,/, ''));
+}
+
+async function buildTable(
+  supabaseClient: ReturnType<typeof createClient>,
+  report: { name: string; tenant_id: string; data_source: string },
+  queryConfig: ReportQueryConfig | null,
+  reportData: ReportData
+): Promise<ExportTable> {
+  const rows = reportData.data || [];
+  const columns = exportColumns(reportData.aggregated ? [] : queryConfig?.fields || [], rows, reportData.columns);
+
+  const { data: tenant } = await supabaseClient
+    .from('tenants')
+    .select('default_currency_id')
+    .eq('id', report.tenant_id)
+    .single();
+  let currency = 'USD';
+  if (tenant?.default_currency_id) {
+    const { data: defaultCurrency } = await supabaseClient
+      .from('currencies')
+      .select('code')
+      .eq('id', tenant.default_currency_id)
+      .single();
+    currency = defaultCurrency?.code || currency;
+  }
+
+  const periods = reportData.periods
+    ? ` | ${reportData.periods.current.label} vs ${reportData.periods.previous.label}`
+    : '';
+
+  return {
+    title: report.name,
+    subtitle: `${humanize(report.data_source)} | ${rows.length} ${reportData.aggregated ? 'groups' : 'records'}${periods} | Generated ${new Date().toISOString().slice(0, 16).replace('T', ' ')} UTC`,
+    columns,
+    rows,
+    totals: reportData.aggregated ? reportData.totals : columnTotals(columns, rows),
+    currency,
   };
+}
 
-  return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <title>${reportName}</title>
-      <style>
-        body { font-family: Arial, sans-serif; margin: 20px; }
-        h1 { color: #333; border-bottom: 2px solid #eee; padding-bottom: 10px; }
-        table { width: 100%; border-collapse: collapse; margin-top: 20px; }
-        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
-        th { background-color: #f5f5f5; font-weight: bold; }
-        tr:nth-child(even) { background-color: #f9f9f9; }
-        .meta { color: #666; font-size: 12px; margin-bottom: 20px; }
-      </style>
-    </head>
-    <body>
-      <h1>${reportName}</h1>
-      <div class="meta">
-        Generated on: ${new Date().toLocaleString()}<br>
-        Total Records: ${data.length}
-      </div>
-      <table>
-        <thead>
-          <tr>
-            ${headers.map(header => `<th>${header}</th>`).join('')}
-          </tr>
-        </thead>
-        <tbody>
-          ${data.map(row => 
-            `<tr>
-              ${fields.map(field => `<td>${formatValue(row[field], field)}</td>`).join('')}
-            </tr>`
-          ).join('')}
-        </tbody>
-      </table>
-    </body>
-    </html>
-  `;
+/** Bar chart of the first value column by the first group, for summarized reports */
+function chartSeries(table: ExportTable, reportData: ReportData): ChartSeries | undefined {
+  if (!reportData.aggregated || !reportData.columns) return undefined;
+  const group = reportData.columns.find(column => column.kind === 'group');
+  const value = reportData.columns.find(column => column.kind !== 'group' && (!column.comparison || column.comparison === 'current'));
+  if (!group || !value) return undefined;
+
+  const points = table.rows.filter(row => typeof row[value.key] === 'number');
+  return {
+    title: `${value.label} by ${group.label}`,
+    labels: points.map(row => String(row[group.key] ?? '-')),
+    values: points.map(row => row[value.key] as number),
+  };
 }
 
-serve(handler);
\ No newline at end of file
+serve(handler);
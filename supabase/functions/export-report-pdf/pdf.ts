@@ -0,0 +1,201 @@
+// PDF rendering: A4 landscape pages with the report title, an optional chart on the first page and the table split
+// across pages with a repeated header row, a totals row at the end and page numbers in the footer.
+//
+// The chart is either a PNG captured from the report viewer or, for scheduled runs where no viewer is open, a bar
+// chart drawn from the first group and value columns.
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+import { ExportTable, formatCell } from './format.ts';
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT_SIZE = 8;
+const ROW_HEIGHT = 15;
+const CELL_PADDING = 4;
+const CHART_HEIGHT = 200;
+const MAX_CHART_BARS = 12;
+
+const BRAND = rgb(0.118, 0.227, 0.373);
+const MUTED = rgb(0.4, 0.4, 0.4);
+const BORDER = rgb(0.85, 0.85, 0.85);
+const STRIPE = rgb(0.97, 0.97, 0.97);
+const TOTALS = rgb(0.945, 0.961, 0.976);
+
+export interface ChartSeries {
+  title: string;
+  labels: string[];
+  values: number[];
+}
+
+export interface PdfOptions {
+  /** PNG of the chart as shown in the report viewer */
+  chartImage?: Uint8Array;
+  /** Drawn when there is no chart image */
+  chart?: ChartSeries;
+}
+
+// The standard fonts only cover WinAnsi; other characters (e.g. Arabic names) are replaced rather than failing the export
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const pdfText = (text: string) =>
+  Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char) ? char : '?';
+    })
+    .join('');
+
+function fitText(text: string, font: PDFFont, size: number, width: number): string {
+  const safe = pdfText(text);
+  if (font.widthOfTextAtSize(safe, size) <= width) return safe;
+  let end = safe.length;
+  while (end > 0 && font.widthOfTextAtSize(`${safe.slice(0, end)}...`, size) > width) end--;
+  return `${safe.slice(0, end)}...`;
+}
+
+/** Column widths from the longest text in each column, scaled to the page width */
+function columnWidths(cells: string[][], headers: string[], font: PDFFont, bold: PDFFont): number[] {
+  const natural = headers.map((header, index) => {
+    const widest = cells.slice(0, 200).reduce(
+      (max, row) => Math.max(max, font.widthOfTextAtSize(pdfText(row[index]), FONT_SIZE)),
+      bold.widthOfTextAtSize(pdfText(header), FONT_SIZE)
+    );
+    return Math.min(widest, 220) + CELL_PADDING * 2;
+  });
+  const total = natural.reduce((sum, width) => sum + width, 0);
+  return natural.map(width => (width / total) * CONTENT_WIDTH);
+}
+
+function drawBarChart(page: PDFPage, chart: ChartSeries, top: number, font: PDFFont, bold: PDFFont) {
+  const labels = chart.labels.slice(0, MAX_CHART_BARS);
+  const values = chart.values.slice(0, MAX_CHART_BARS);
+  const max = Math.max(...values.map(value => Math.abs(value)), 1);
+  const plotTop = top - 18;
+  const plotBottom = top - CHART_HEIGHT + 24;
+  const plotHeight = plotTop - plotBottom;
+  const slot = CONTENT_WIDTH / labels.length;
+  const barWidth = Math.min(slot * 0.6, 48);
+
+  page.drawText(fitText(chart.title, bold, 10, CONTENT_WIDTH), { x: MARGIN, y: top - 10, size: 10, font: bold });
+  page.drawLine({
+    start: { x: MARGIN, y: plotBottom },
+    end: { x: MARGIN + CONTENT_WIDTH, y: plotBottom },
+    thickness: 0.5,
+    color: BORDER,
+  });
+
+  values.forEach((value, index) => {
+    const height = (Math.max(value, 0) / max) * plotHeight;
+    const x = MARGIN + slot * index + (slot - barWidth) / 2;
+    page.drawRectangle({ x, y: plotBottom, width: barWidth, height, color: BRAND });
+    const valueText = value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+    page.drawText(valueText, {
+      x: x + barWidth / 2 - font.widthOfTextAtSize(valueText, 7) / 2,
+      y: plotBottom + height + 3,
+      size: 7,
+      font,
+      color: MUTED,
+    });
+    const label = fitText(labels[index], font, 7, slot - 4);
+    page.drawText(label, {
+      x: MARGIN + slot * index + slot / 2 - font.widthOfTextAtSize(label, 7) / 2,
+      y: plotBottom - 12,
+      size: 7,
+      font,
+    });
+  });
+}
+
+export async function renderPdf(table: ExportTable, options: PdfOptions = {}): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(table.title);
+  pdf.setCreator('Report Engine');
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  const headers = table.columns.map(column => column.label);
+  const cells = table.rows.map(row => table.columns.map(column => formatCell(row[column.key], column, table.currency)));
+  const totals = table.totals
+    ? table.columns.map((column, index) =>
+        column.key in table.totals! ? formatCell(table.totals![column.key], column, table.currency) : index === 0 ? 'Total' : '')
+    : null;
+  const widths = columnWidths(totals ? [...cells, totals] : cells, headers, font, bold);
+  const rightAligned = table.columns.map(column => column.format !== 'text' && column.format !== 'date');
+
+  const drawRow = (page: PDFPage, values: string[], y: number, rowFont: PDFFont, color = rgb(0, 0, 0)) => {
+    let x = MARGIN;
+    values.forEach((value, index) => {
+      const text = fitText(value, rowFont, FONT_SIZE, widths[index] - CELL_PADDING * 2);
+      const textX = rightAligned[index]
+        ? x + widths[index] - CELL_PADDING - rowFont.widthOfTextAtSize(text, FONT_SIZE)
+        : x + CELL_PADDING;
+      page.drawText(text, { x: textX, y: y + 4.5, size: FONT_SIZE, font: rowFont, color });
+      x += widths[index];
+    });
+  };
+
+  const drawHeader = (page: PDFPage, y: number) => {
+    page.drawRectangle({ x: MARGIN, y, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: BRAND });
+    drawRow(page, headers, y, bold, rgb(1, 1, 1));
+  };
+
+  // First page: title, subtitle and chart
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+  page.drawText(fitText(table.title, bold, 16, CONTENT_WIDTH), { x: MARGIN, y: y - 16, size: 16, font: bold, color: BRAND });
+  page.drawText(fitText(table.subtitle, font, 9, CONTENT_WIDTH), { x: MARGIN, y: y - 30, size: 9, font, color: MUTED });
+  y -= 44;
+
+  if (options.chartImage) {
+    const image = await pdf.embedPng(options.chartImage);
+    const size = image.scaleToFit(CONTENT_WIDTH, CHART_HEIGHT);
+    page.drawImage(image, { x: MARGIN + (CONTENT_WIDTH - size.width) / 2, y: y - size.height, ...size });
+    y -= size.height + 16;
+  } else if (options.chart && options.chart.values.length > 0) {
+    drawBarChart(page, options.chart, y, font, bold);
+    y -= CHART_HEIGHT + 8;
+  }
+
+  // Table, continued on new pages with the header repeated
+  y -= ROW_HEIGHT;
+  drawHeader(page, y);
+  const bottom = MARGIN + 20;
+  const rows = totals ? [...cells, totals] : cells;
+
+  rows.forEach((values, index) => {
+    if (y - ROW_HEIGHT < bottom) {
+      page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN - ROW_HEIGHT;
+      drawHeader(page, y);
+    }
+    y -= ROW_HEIGHT;
+    const isTotals = totals !== null && index === rows.length - 1;
+    if (isTotals) {
+      page.drawRectangle({ x: MARGIN, y, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: TOTALS });
+    } else if (index % 2 === 1) {
+      page.drawRectangle({ x: MARGIN, y, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: STRIPE });
+    }
+    page.drawLine({ start: { x: MARGIN, y }, end: { x: MARGIN + CONTENT_WIDTH, y }, thickness: 0.5, color: BORDER });
+    drawRow(page, values, y, isTotals ? bold : font);
+  });
+
+  if (rows.length === 0) {
+    page.drawText('No data', { x: MARGIN + CELL_PADDING, y: y - ROW_HEIGHT + 4.5, size: FONT_SIZE, font, color: MUTED });
+  }
+
+  const pages = pdf.getPages();
+  pages.forEach((current, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    current.drawText(footer, {
+      x: PAGE_WIDTH - MARGIN - font.widthOfTextAtSize(footer, 8),
+      y: MARGIN / 2,
+      size: 8,
+      font,
+      color: MUTED,
+    });
+    current.drawText(fitText(table.title, font, 8, CONTENT_WIDTH / 2), { x: MARGIN, y: MARGIN / 2, size: 8, font, color: MUTED });
+  });
+
+  return pdf.save();
+}
@@ -0,0 +1,94 @@
+// XLSX rendering: one sheet with a styled, frozen header row, typed cells with number, currency, percent and date
+// formats, and a totals row.
+
+import ExcelJS from 'npm:exceljs@4.4.0';
+import { ColumnFormat, ExportColumn, ExportTable } from './format.ts';
+
+const HEADER_FILL = 'FF1E3A5F';
+const TOTALS_FILL = 'FFF1F5F9';
+
+function numberFormat(format: ColumnFormat, currency: string, signed?: boolean): string | undefined {
+  switch (format) {
+    case 'currency':
+      return signed ? `+"${currency} "#,##0.00;-"${currency} "#,##0.00;"${currency} "0.00` : `"${currency} "#,##0.00`;
+    case 'number':
+      return signed ? '+#,##0.##;-#,##0.##;0' : '#,##0.##';
+    // Percentages are stored as 12.5 rather than 0.125, so the % sign is a literal
+    case 'percent':
+      return signed ? '+0.0"%";-0.0"%";0.0"%"' : '0.0"%"';
+    case 'date':
+      return 'yyyy-mm-dd';
+    default:
+      return undefined;
+  }
+}
+
+function cellValue(value: unknown, column: ExportColumn): ExcelJS.CellValue {
+  if (value === null || value === undefined || value === '') return null;
+  if (column.format === 'date') {
+    const date = new Date(String(value));
+    return isNaN(date.getTime()) ? String(value) : date;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+const columnWidth = (column: ExportColumn, table: ExportTable) => {
+  const longest = table.rows.slice(0, 200).reduce((max, row) => {
+    const value = row[column.key];
+    return Math.max(max, value === null || value === undefined ? 0 : String(value).length);
+  }, column.label.length);
+  return Math.min(Math.max(longest + 2, 10), 50);
+};
+
+// Sheet names are limited to 31 characters and may not contain : \ / ? * [ ]
+const sheetName = (title: string) => title.replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Report';
+
+export async function renderXlsx(table: ExportTable): Promise<Uint8Array> {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+  workbook.title = table.title;
+
+  const sheet = workbook.addWorksheet(sheetName(table.title), {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = table.columns.map(column => ({
+    header: column.label,
+    key: column.key,
+    width: columnWidth(column, table),
+    style: { numFmt: numberFormat(column.format, table.currency, column.signed) },
+  }));
+
+  const header = sheet.getRow(1);
+  header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+  header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: HEADER_FILL } };
+  header.alignment = { vertical: 'middle' };
+  header.height = 20;
+
+  for (const row of table.rows) {
+    sheet.addRow(Object.fromEntries(table.columns.map(column => [column.key, cellValue(row[column.key], column)])));
+  }
+
+  sheet.autoFilter = {
+    from: { row: 1, column: 1 },
+    to: { row: Math.max(table.rows.length + 1, 1), column: table.columns.length },
+  };
+
+  if (table.totals) {
+    const totals = sheet.addRow(
+      Object.fromEntries(
+        table.columns.map((column, index) => [
+          column.key,
+          column.key in table.totals! ? table.totals![column.key] : index === 0 ? 'Total' : null,
+        ])
+      )
+    );
+    totals.font = { bold: true };
+    totals.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: TOTALS_FILL } };
+    totals.border = { top: { style: 'thin' } };
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Uint8Array(buffer as ArrayBuffer);
+}
@@ -0,0 +1,293 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.56.0";
+import { compileTemplate, renderTemplate } from "./template-engine.ts";
+import {
+  QUOTE_TEMPLATE,
+  DocumentLanguage,
+  paginateRows,
+  resolveLabels,
+  rowUnits,
+} from "./quote-template.ts";
+import { renderQuotePdf } from "./pdf.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface QuoteItemRow {
+  id: string;
+  name: string;
+  description: string | null;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  total_price: number | null;
+  discount_type: string | null;
+  discount_value: number | null;
+  discount_amount: number | null;
+  sort_order: number | null;
+  device: { template_properties: Record<string, string | null> | null } | null;
+}
+
+interface GenerateQuoteDocumentRequest {
+  quoteVersionId: string;
+  language?: DocumentLanguage;
+}
+
+const BRAND_COLOR = '#1e3a5f';
+const DOCUMENT_BUCKET = 'quote-documents';
+
+const compiledTemplate = compileTemplate(QUOTE_TEMPLATE);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // Query with the caller's token so tenant RLS policies apply to every read and write
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } }
+    );
+
+    const { data: { user }, error: userError } = await supabaseClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ error: 'Invalid token' }, 401);
+    }
+
+    const { quoteVersionId, language = 'en' }: GenerateQuoteDocumentRequest = await req.json();
+    if (!quoteVersionId) {
+      return jsonResponse({ error: 'quoteVersionId is required' }, 400);
+    }
+    if (!['en', 'ar', 'bilingual'].includes(language)) {
+      return jsonResponse({ error: `Unsupported language: ${language}` }, 400);
+    }
+
+    const { data: version, error: versionError } = await supabaseClient
+      .from('quote_versions')
+      .select('id, quote_id, tenant_id, version_number, version_name, notes, total_amount, subtotal, line_discount_total, discount_type, discount_value, discount_amount, tax_rate, tax_amount, rounding_adjustment, grand_total')
+      .eq('id', quoteVersionId)
+      .single();
+    if (versionError || !version) {
+      return jsonResponse({ error: 'Quote version not found' }, 404);
+    }
+
+    const { data: quote, error: quoteError } = await supabaseClient
+      .from('quotes')
+      .select(`
+        id, name, reference_number, expiry_date, terms, created_at,
+        deal:deals(id, name, customer:customers(name)),
+        site:sites(id, name),
+        contact:contacts(id, first_name, last_name),
+        currency:currencies(code, symbol)
+      `)
+      .eq('id', version.quote_id)
+      .is('deleted_at', null)
+      .single();
+    if (quoteError || !quote) {
+      return jsonResponse({ error: 'Quote not found' }, 404);
+    }
+
+    const { data: tenant, error: tenantError } = await supabaseClient
+      .from('tenants')
+      .select('id, name, logo_url, cr_number, tax_number, company_location, contact_email, contact_phone_country_code, contact_phone_number, default_currency_id')
+      .eq('id', version.tenant_id)
+      .single();
+    if (tenantError || !tenant) throw tenantError ?? new Error('Tenant not found');
+
+    const { data: items, error: itemsError } = await supabaseClient
+      .from('quote_items')
+      .select('id, name, description, sku, quantity, unit_price, total_price, discount_type, discount_value, discount_amount, sort_order, device:devices(template_properties)')
+      .eq('quote_version_id', version.id)
+      .order('sort_order');
+    if (itemsError) throw itemsError;
+
+    let currencyCode = quote.currency?.code;
+    if (!currencyCode && tenant.default_currency_id) {
+      const { data: defaultCurrency } = await supabaseClient
+        .from('currencies')
+        .select('code')
+        .eq('id', tenant.default_currency_id)
+        .single();
+      currencyCode = defaultCurrency?.code;
+    }
+
+    const locale = language === 'ar' ? 'ar-SA' : 'en-US';
+    const money = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency: currencyCode || 'USD',
+      minimumFractionDigits: 2,
+    });
+    const formatDate = (value: string | null) =>
+      value ? new Date(value).toLocaleDateString(locale, { year: 'numeric', month: 'short', day: 'numeric' }) : '';
+
+    const rows = ((items || []) as QuoteItemRow[]).map((item, index) => {
+      const templateProperties = item.device?.template_properties || {};
+      const descriptionAr = language === 'en'
+        ? null
+        : templateProperties.short_description_ar || templateProperties.description_ar || null;
+      const description = language === 'ar' && descriptionAr ? null : item.description;
+      const lineTotal = Number(item.total_price ?? item.quantity * item.unit_price) || 0;
+      const discountAmount = Number(item.discount_amount) || 0;
+
+      return {
+        lineNumber: index + 1,
+        sku: item.sku || '',
+        name: item.name,
+        description,
+        descriptionAr,
+        quantity: item.quantity,
+        unitPrice: money.format(Number(item.unit_price) || 0),
+        discount: discountAmount > 0
+          ? (item.discount_type === 'percent' ? `${Number(item.discount_value)}%` : money.format(discountAmount))
+          : '',
+        totalPrice: money.format(lineTotal - discountAmount),
+        units: rowUnits(description, descriptionAr),
+      };
+    });
+
+    const hasLineDiscounts = rows.some((row) => row.discount);
+    const optionalAmount = (value: unknown) => (Number(value) ? money.format(Number(value)) : null);
+
+    const contactName = quote.contact
+      ? `${quote.contact.first_name} ${quote.contact.last_name}`.trim()
+      : '';
+    const phone = [tenant.contact_phone_country_code, tenant.contact_phone_number].filter(Boolean).join(' ');
+
+    const shared = {
+      labels: resolveLabels(language),
+      brandColor: BRAND_COLOR,
+      tenant: {
+        name: tenant.name,
+        logoUrl: tenant.logo_url,
+        location: tenant.company_location,
+        crNumber: tenant.cr_number,
+        taxNumber: tenant.tax_number,
+        email: tenant.contact_email,
+        phone,
+      },
+      quote: {
+        reference: quote.reference_number || quote.name,
+        date: formatDate(new Date().toISOString()),
+        expiryDate: formatDate(quote.expiry_date),
+        terms: quote.terms,
+      },
+      version: {
+        number: version.version_number,
+        name: version.version_name,
+        notes: version.notes,
+      },
+      customer: {
+        name: quote.deal?.customer?.name || contactName || quote.site?.name || quote.name,
+        contact: contactName,
+        site: quote.site?.name,
+        project: quote.deal?.name,
+      },
+      hasLineDiscounts,
+      totals: {
+        subtotal: money.format(Number(version.subtotal) || 0),
+        lineDiscounts: optionalAmount(version.line_discount_total),
+        documentDiscount: optionalAmount(version.discount_amount),
+        documentDiscountRate: version.discount_type === 'percent' && Number(version.discount_value)
+          ? `${Number(version.discount_value)}%`
+          : null,
+        taxRate: version.tax_rate != null ? `${Number(version.tax_rate)}%` : null,
+        tax: optionalAmount(version.tax_amount),
+        rounding: optionalAmount(version.rounding_adjustment),
+        grandTotal: money.format(Number(version.grand_total ?? version.total_amount) || 0),
+      },
+    };
+
+    const pageRows = paginateRows(rows);
+    const pages = pageRows.map((pageItems, index) => ({
+      rows: pageItems,
+      pageNumber: index + 1,
+      pageCount: pageRows.length,
+      isFirst: index === 0,
+      isLast: index === pageRows.length - 1,
+    }));
+
+    const html = renderTemplate(compiledTemplate, {
+      ...shared,
+      lang: language === 'ar' ? 'ar' : 'en',
+      dir: language === 'ar' ? 'rtl' : 'ltr',
+      pages,
+    });
+
+    const { bytes: pdfBytes, pageCount: pdfPageCount } = await renderQuotePdf({ ...shared, language, pages });
+
+    const safeReference = shared.quote.reference.replace(/[^A-Za-z0-9_-]+/g, '-');
+    const baseName = `${safeReference}-V${version.version_number}-${language.toUpperCase()}`;
+    const generatedAt = Date.now();
+
+    // The HTML and the PDF of one generation are stored side by side, one quote_documents row each
+    const storeDocument = async (format: 'html' | 'pdf', fileBody: Uint8Array, contentType: string, pageCount: number) => {
+      const fileName = `${baseName}.${format}`;
+      const filePath = `${version.tenant_id}/${quote.id}/${generatedAt}-${fileName}`;
+
+      const { error: uploadError } = await supabaseClient.storage
+        .from(DOCUMENT_BUCKET)
+        .upload(filePath, fileBody, { contentType });
+      if (uploadError) throw uploadError;
+
+      const { data: document, error: documentError } = await supabaseClient
+        .from('quote_documents')
+        .insert({
+          tenant_id: version.tenant_id,
+          quote_id: quote.id,
+          quote_version_id: version.id,
+          version_number: version.version_number,
+          language,
+          format,
+          file_name: fileName,
+          file_path: filePath,
+          file_size: fileBody.byteLength,
+          page_count: pageCount,
+          total_amount: version.grand_total ?? version.total_amount,
+          generated_by: user.id,
+        })
+        .select()
+        .single();
+      if (documentError) throw documentError;
+
+      const { data: signed } = await supabaseClient.storage
+        .from(DOCUMENT_BUCKET)
+        .createSignedUrl(filePath, 60 * 60);
+
+      return { document, url: signed?.signedUrl ?? null };
+    };
+
+    const htmlDocument = await storeDocument('html', new TextEncoder().encode(html), 'text/html; charset=utf-8', pages.length);
+    const pdfDocument = await storeDocument('pdf', pdfBytes, 'application/pdf', pdfPageCount);
+
+    console.log('Generated quote document:', { quoteId: quote.id, versionId: version.id, language, pages: pages.length });
+
+    return jsonResponse({
+      success: true,
+      document: htmlDocument.document,
+      html,
+      url: htmlDocument.url,
+      pdfDocument: pdfDocument.document,
+      pdfUrl: pdfDocument.url,
+    });
+  } catch (error) {
+    console.error('Error in generate-quote-document function:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : String(error) }, 500);
+  }
+};
+
+serve(handler);
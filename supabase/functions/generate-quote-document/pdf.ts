@@ -0,0 +1,506 @@
+// PDF rendering of a quote document: the same A4 pages as the HTML template (branded header, item table, totals and
+// terms on the last page), drawn with pdf-lib so the PDF can be stored next to the HTML.
+//
+// English documents use the standard fonts. Arabic and bilingual documents embed Amiri, which covers both scripts;
+// fontkit shapes the Arabic letters and each line is split into left-to-right and right-to-left runs.
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+import fontkit from 'npm:@pdf-lib/fontkit@1.1.1';
+import { DocumentLanguage, QuoteLabelKey } from './quote-template.ts';
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FONT_SIZE = 8.5;
+const LINE_HEIGHT = 11;
+const CELL_PADDING = 4;
+const FOOTER_HEIGHT = 30;
+const TOTALS_WIDTH = CONTENT_WIDTH * 0.45;
+const META_LABEL_WIDTH = 105;
+
+const ARABIC_FONT_URLS = {
+  regular: 'https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Regular.ttf',
+  bold: 'https://raw.githubusercontent.com/google/fonts/main/ofl/amiri/Amiri-Bold.ttf',
+};
+
+const BRAND = rgb(0.118, 0.227, 0.373);
+const TEXT = rgb(0.067, 0.094, 0.153);
+const MUTED = rgb(0.42, 0.447, 0.502);
+const BORDER = rgb(0.898, 0.906, 0.922);
+const STRIPE = rgb(0.976, 0.98, 0.984);
+const WHITE = rgb(1, 1, 1);
+
+export interface QuotePdfRow {
+  lineNumber: number;
+  sku: string;
+  name: string;
+  description: string | null;
+  descriptionAr: string | null;
+  quantity: number;
+  unitPrice: string;
+  discount: string;
+  totalPrice: string;
+}
+
+export interface QuotePdfDocument {
+  language: DocumentLanguage;
+  labels: Record<QuoteLabelKey, string>;
+  tenant: {
+    name: string;
+    logoUrl: string | null;
+    location: string | null;
+    crNumber: string | null;
+    taxNumber: string | null;
+    email: string | null;
+    phone: string;
+  };
+  quote: { reference: string; date: string; expiryDate: string; terms: string | null };
+  version: { number: number; name: string | null; notes: string | null };
+  customer: { name: string; contact: string; site?: string | null; project?: string | null };
+  hasLineDiscounts: boolean;
+  totals: {
+    subtotal: string;
+    lineDiscounts: string | null;
+    documentDiscount: string | null;
+    documentDiscountRate: string | null;
+    taxRate: string | null;
+    tax: string | null;
+    rounding: string | null;
+    grandTotal: string;
+  };
+  /** Rows per page, as paginated for the HTML document */
+  pages: Array<{ rows: QuotePdfRow[] }>;
+}
+
+interface DocumentFonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  /** Embedded Unicode font: text keeps every character and is laid out in direction runs */
+  unicode: boolean;
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size?: number;
+  color?: RGB;
+  /** Relative to the text direction: start is the right edge for right-to-left text */
+  align?: 'start' | 'end';
+  /** Overrides the document direction, e.g. for Arabic descriptions in a bilingual document */
+  rtl?: boolean;
+}
+
+interface TextRun {
+  text: string;
+  rtl: boolean;
+}
+
+// The standard fonts only cover WinAnsi; other characters are replaced rather than failing the document
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+const pdfText = (text: string) =>
+  Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      return (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char) ? char : '?';
+    })
+    .join('');
+
+// Arabic letters read right to left; Arabic-Indic digits and separators read left to right like other numbers
+const RTL_CHAR = /[\u0600-\u065F\u066D-\u06EF\u06FA-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[A-Za-z0-9\u00C0-\u024F\u0660-\u066C\u06F0-\u06F9]/;
+// Direction marks (e.g. from Intl number formats) have no glyphs; runs take their place
+const BIDI_CONTROLS = /[\u061C\u200E\u200F\u202A-\u202E\u2066-\u2069]/g;
+
+/**
+ * Splits a line into runs in display order. A simplified bidi pass: spaces and punctuation join the runs on both
+ * sides when those agree and otherwise follow the paragraph direction.
+ */
+function displayRuns(text: string, rtlBase: boolean): TextRun[] {
+  const chars = Array.from(text);
+  const strong = chars.map(char => (RTL_CHAR.test(char) ? true : LTR_CHAR.test(char) ? false : null));
+  const directions = strong.map((direction, index) => {
+    if (direction !== null) return direction;
+    const before = strong.slice(0, index).reverse().find(value => value !== null) ?? rtlBase;
+    const after = strong.slice(index + 1).find(value => value !== null) ?? rtlBase;
+    return before === after ? before : rtlBase;
+  });
+
+  const runs: TextRun[] = [];
+  chars.forEach((char, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.rtl === directions[index]) {
+      last.text += char;
+    } else {
+      runs.push({ text: char, rtl: directions[index] });
+    }
+  });
+  return rtlBase ? runs.reverse() : runs;
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Failed to fetch ${url}: ${response.status}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Fetched once per function instance
+let arabicFontBytes: Promise<[Uint8Array, Uint8Array]> | null = null;
+
+async function embedFonts(pdf: PDFDocument, language: DocumentLanguage): Promise<DocumentFonts> {
+  if (language === 'en') {
+    return {
+      regular: await pdf.embedFont(StandardFonts.Helvetica),
+      bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+      unicode: false,
+    };
+  }
+
+  arabicFontBytes ??= Promise.all([fetchBytes(ARABIC_FONT_URLS.regular), fetchBytes(ARABIC_FONT_URLS.bold)]).catch(error => {
+    arabicFontBytes = null;
+    throw error;
+  });
+  const [regular, bold] = await arabicFontBytes;
+  pdf.registerFontkit(fontkit);
+  return {
+    regular: await pdf.embedFont(regular, { subset: true }),
+    bold: await pdf.embedFont(bold, { subset: true }),
+    unicode: true,
+  };
+}
+
+/** The tenant logo, when it is a PNG or JPEG; the document is still rendered without it */
+async function embedLogo(pdf: PDFDocument, url: string | null): Promise<PDFImage | null> {
+  if (!url) return null;
+  try {
+    const bytes = await fetchBytes(url);
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdf.embedPng(bytes);
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdf.embedJpg(bytes);
+    return null;
+  } catch (error) {
+    console.error('Error loading logo for quote PDF:', error);
+    return null;
+  }
+}
+
+export async function renderQuotePdf(document: QuotePdfDocument): Promise<{ bytes: Uint8Array; pageCount: number }> {
+  const { labels, tenant, quote, version, customer, totals } = document;
+  const rtl = document.language === 'ar';
+
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(`${labels.quotation} ${quote.reference}`);
+  pdf.setAuthor(tenant.name);
+  pdf.setCreator('Quote Documents');
+  const fonts = await embedFonts(pdf, document.language);
+  const logo = await embedLogo(pdf, tenant.logoUrl);
+
+  const clean = (text: string) =>
+    fonts.unicode
+      ? text.replace(/[\r\n\t]+/g, ' ').replace(BIDI_CONTROLS, '')
+      : pdfText(text.replace(/[\r\n\t]+/g, ' '));
+  const textWidth = (text: string, font: PDFFont, size = FONT_SIZE) => font.widthOfTextAtSize(clean(text), size);
+
+  /** Page x of a box given by its distance from the start edge, so Arabic documents mirror the layout */
+  const place = (start: number, width: number) => (rtl ? PAGE_WIDTH - start - width : start);
+
+  /** One line of text inside the box [x, x + width] */
+  const drawText = (page: PDFPage, text: string, x: number, y: number, width: number, style: TextStyle) => {
+    const { font, size = FONT_SIZE, color = TEXT, align = 'start' } = style;
+    const direction = style.rtl ?? rtl;
+    const line = clean(text);
+    const runs = fonts.unicode ? displayRuns(line, direction) : [{ text: line, rtl: false }];
+    const lineWidth = runs.reduce((sum, run) => sum + font.widthOfTextAtSize(run.text, size), 0);
+    let cursor = (align === 'start') === direction ? x + width - lineWidth : x;
+    runs.forEach(run => {
+      page.drawText(run.text, { x: cursor, y, size, font, color });
+      cursor += font.widthOfTextAtSize(run.text, size);
+    });
+  };
+
+  const wrap = (text: string, font: PDFFont, width: number, size = FONT_SIZE): string[] => {
+    const lines: string[] = [];
+    text.split(/\r?\n/).forEach(paragraph => {
+      let line = '';
+      paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && textWidth(candidate, font, size) > width) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      });
+      lines.push(line);
+    });
+    return lines;
+  };
+
+  // Item columns from the start edge; the description takes the remaining width
+  const columns = [
+    { key: 'number', label: labels.number, width: 22, numeric: false },
+    { key: 'sku', label: labels.sku, width: 62, numeric: false },
+    { key: 'description', label: labels.description, width: 0, numeric: false },
+    { key: 'quantity', label: labels.quantity, width: 40, numeric: true },
+    { key: 'unitPrice', label: labels.unitPrice, width: 74, numeric: true },
+    ...(document.hasLineDiscounts ? [{ key: 'discount', label: labels.discount, width: 58, numeric: true }] : []),
+    { key: 'totalPrice', label: labels.total, width: 80, numeric: true },
+  ];
+  columns[2].width = CONTENT_WIDTH - columns.reduce((sum, column) => sum + column.width, 0);
+  let offset = MARGIN;
+  const columnBoxes = columns.map(column => {
+    const box = { ...column, x: place(offset, column.width) };
+    offset += column.width;
+    return box;
+  });
+
+  // Rows stop above the footer and the "continued" note
+  const bottom = MARGIN + FOOTER_HEIGHT + LINE_HEIGHT;
+
+  const drawPageHeader = (page: PDFPage): number => {
+    const top = PAGE_HEIGHT - MARGIN;
+    const blockWidth = CONTENT_WIDTH / 2;
+    let startY = top;
+
+    if (logo) {
+      const size = logo.scaleToFit(150, 48);
+      page.drawImage(logo, { x: place(MARGIN, size.width), y: startY - size.height, ...size });
+      startY -= size.height + 6;
+    }
+    drawText(page, tenant.name, place(MARGIN, blockWidth), startY - 12, blockWidth, { font: fonts.bold, size: 12 });
+    startY -= 16;
+    [
+      tenant.location,
+      tenant.crNumber && `${labels.crNumber}: ${tenant.crNumber}`,
+      tenant.taxNumber && `${labels.taxNumber}: ${tenant.taxNumber}`,
+      [tenant.email, tenant.phone].filter(Boolean).join(' · '),
+    ]
+      .filter((line): line is string => !!line)
+      .forEach(line => {
+        drawText(page, line, place(MARGIN, blockWidth), startY - 9, blockWidth, { font: fonts.regular, size: 8, color: MUTED });
+        startY -= LINE_HEIGHT;
+      });
+
+    const endX = place(MARGIN + blockWidth, blockWidth);
+    drawText(page, labels.quotation, endX, top - 20, blockWidth, { font: fonts.bold, size: 18, color: BRAND, align: 'end' });
+    drawText(page, quote.reference, endX, top - 34, blockWidth, { font: fonts.regular, size: 9, align: 'end' });
+    const versionLine = `${labels.version} ${version.number}${version.name ? ` · ${version.name}` : ''}`;
+    drawText(page, versionLine, endX, top - 46, blockWidth, { font: fonts.regular, size: 8, color: MUTED, align: 'end' });
+
+    const ruleY = Math.min(startY, top - 52) - 6;
+    page.drawLine({ start: { x: MARGIN, y: ruleY }, end: { x: PAGE_WIDTH - MARGIN, y: ruleY }, thickness: 2, color: BRAND });
+    return ruleY - 14;
+  };
+
+  const drawMeta = (page: PDFPage, y: number): number => {
+    const columnWidth = CONTENT_WIDTH / 2 - 6;
+    const valueWidth = columnWidth - META_LABEL_WIDTH;
+    const drawPairs = (pairs: Array<[string, string | null | undefined]>, start: number, emphasizeFirst: boolean) => {
+      let rowY = y;
+      pairs
+        .filter((pair): pair is [string, string] => !!pair[1])
+        .forEach(([label, value], index) => {
+          drawText(page, label, place(start, META_LABEL_WIDTH), rowY - 9, META_LABEL_WIDTH, { font: fonts.regular, color: MUTED });
+          drawText(page, value, place(start + META_LABEL_WIDTH, valueWidth), rowY - 9, valueWidth, {
+            font: emphasizeFirst && index === 0 ? fonts.bold : fonts.regular,
+          });
+          rowY -= LINE_HEIGHT + 2;
+        });
+      return rowY;
+    };
+
+    const customerY = drawPairs(
+      [
+        [labels.billTo, customer.name],
+        [labels.contact, customer.contact],
+        [labels.site, customer.site],
+        [labels.project, customer.project],
+      ],
+      MARGIN,
+      true
+    );
+    const quoteY = drawPairs(
+      [
+        [labels.reference, quote.reference],
+        [labels.date, quote.date],
+        [labels.validUntil, quote.expiryDate],
+      ],
+      MARGIN + CONTENT_WIDTH / 2 + 6,
+      false
+    );
+    return Math.min(customerY, quoteY) - 12;
+  };
+
+  const drawTableHeader = (page: PDFPage, y: number): number => {
+    const headerLines = columnBoxes.map(column => wrap(column.label, fonts.bold, column.width - CELL_PADDING * 2));
+    const height = Math.max(...headerLines.map(lines => lines.length)) * LINE_HEIGHT + CELL_PADDING * 2;
+    page.drawRectangle({ x: MARGIN, y: y - height, width: CONTENT_WIDTH, height, color: BRAND });
+    columnBoxes.forEach((column, index) => {
+      headerLines[index].forEach((line, lineIndex) => {
+        drawText(page, line, column.x + CELL_PADDING, y - CELL_PADDING - 8 - lineIndex * LINE_HEIGHT, column.width - CELL_PADDING * 2, {
+          font: fonts.bold,
+          color: WHITE,
+          align: column.numeric ? 'end' : 'start',
+        });
+      });
+    });
+    return y - height;
+  };
+
+  let page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = drawMeta(page, drawPageHeader(page));
+
+  const newPage = () => {
+    page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    y = drawPageHeader(page);
+  };
+
+  document.pages.forEach((current, pageIndex) => {
+    if (pageIndex > 0) newPage();
+    if (current.rows.length === 0) return;
+
+    y = drawTableHeader(page, y);
+    current.rows.forEach((row, rowIndex) => {
+      const descriptionBox = columnBoxes[2];
+      const textWidthInCell = descriptionBox.width - CELL_PADDING * 2;
+      const cellLines: Array<{ text: string; font: PDFFont; color: RGB; rtl?: boolean }> = [
+        ...wrap(row.name, fonts.bold, textWidthInCell).map(text => ({ text, font: fonts.bold, color: TEXT })),
+        ...(row.description ? wrap(row.description, fonts.regular, textWidthInCell) : []).map(text => ({
+          text,
+          font: fonts.regular,
+          color: MUTED,
+        })),
+        ...(row.descriptionAr ? wrap(row.descriptionAr, fonts.regular, textWidthInCell) : []).map(text => ({
+          text,
+          font: fonts.regular,
+          color: MUTED,
+          rtl: true,
+        })),
+      ];
+      const height = cellLines.length * LINE_HEIGHT + CELL_PADDING * 2;
+
+      // Long descriptions can outgrow the page budget of the HTML layout
+      if (y - height < bottom) {
+        newPage();
+        y = drawTableHeader(page, y);
+      }
+
+      if (rowIndex % 2 === 1) {
+        page.drawRectangle({ x: MARGIN, y: y - height, width: CONTENT_WIDTH, height, color: STRIPE });
+      }
+      const textY = y - CELL_PADDING - 8;
+      const values: Record<string, string> = {
+        number: String(row.lineNumber),
+        sku: row.sku,
+        quantity: String(row.quantity),
+        unitPrice: row.unitPrice,
+        discount: row.discount,
+        totalPrice: row.totalPrice,
+      };
+      columnBoxes.forEach(column => {
+        if (column.key === 'description') {
+          cellLines.forEach((line, index) => {
+            drawText(page, line.text, column.x + CELL_PADDING, textY - index * LINE_HEIGHT, textWidthInCell, {
+              font: line.font,
+              color: line.color,
+              rtl: line.rtl,
+            });
+          });
+        } else {
+          drawText(page, values[column.key], column.x + CELL_PADDING, textY, column.width - CELL_PADDING * 2, {
+            font: fonts.regular,
+            align: column.numeric ? 'end' : 'start',
+          });
+        }
+      });
+      y -= height;
+      page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 0.5, color: BORDER });
+    });
+  });
+
+  // Totals at the end edge of the last page
+  const totalRows: Array<{ label: string; value: string; grand?: boolean }> = [{ label: labels.subtotal, value: totals.subtotal }];
+  if (totals.lineDiscounts) {
+    totalRows.push({ label: labels.lineDiscounts, value: `-${totals.lineDiscounts}` });
+  }
+  if (totals.documentDiscount) {
+    const rate = totals.documentDiscountRate ? ` (${totals.documentDiscountRate})` : '';
+    totalRows.push({ label: `${labels.discount}${rate}`, value: `-${totals.documentDiscount}` });
+  }
+  if (totals.tax) {
+    totalRows.push({ label: `${labels.tax}${totals.taxRate ? ` (${totals.taxRate})` : ''}`, value: totals.tax });
+  }
+  if (totals.rounding) {
+    totalRows.push({ label: labels.rounding, value: totals.rounding });
+  }
+  totalRows.push({ label: labels.grandTotal, value: totals.grandTotal, grand: true });
+
+  const totalsHeight = totalRows.length * (LINE_HEIGHT + 4) + 12;
+  if (y - 14 - totalsHeight < bottom) newPage();
+  y -= 14;
+  const totalsStart = MARGIN + CONTENT_WIDTH - TOTALS_WIDTH;
+  const halfWidth = TOTALS_WIDTH / 2 - CELL_PADDING;
+  totalRows.forEach(({ label, value, grand }) => {
+    const size = grand ? 11 : FONT_SIZE;
+    const font = grand ? fonts.bold : fonts.regular;
+    if (grand) {
+      y -= 4;
+      const x = place(totalsStart, TOTALS_WIDTH);
+      page.drawLine({ start: { x, y }, end: { x: x + TOTALS_WIDTH, y }, thickness: 1.5, color: BRAND });
+      y -= 2;
+    }
+    y -= LINE_HEIGHT + 4;
+    drawText(page, label, place(totalsStart + CELL_PADDING, halfWidth), y + 4, halfWidth, { font, size });
+    drawText(page, value, place(totalsStart + TOTALS_WIDTH / 2, halfWidth), y + 4, halfWidth, { font, size, align: 'end' });
+  });
+
+  // Terms and notes, continued on new pages when long
+  const sections: Array<[string, string | null]> = [
+    [labels.terms, quote.terms],
+    [labels.notes, version.notes],
+  ];
+  sections.forEach(([heading, body]) => {
+    if (!body) return;
+    if (y - 40 < bottom) newPage();
+    y -= 22;
+    drawText(page, heading, MARGIN, y, CONTENT_WIDTH, { font: fonts.bold, size: 10, color: BRAND });
+    y -= 4;
+    wrap(body, fonts.regular, CONTENT_WIDTH).forEach(line => {
+      if (y - LINE_HEIGHT < bottom) newPage();
+      y -= LINE_HEIGHT + 1;
+      drawText(page, line, MARGIN, y, CONTENT_WIDTH, { font: fonts.regular });
+    });
+  });
+
+  const pages = pdf.getPages();
+  const footerY = MARGIN / 2 + 4;
+  const halfContent = CONTENT_WIDTH / 2;
+  const footerStart = `${tenant.name}${tenant.crNumber ? ` · ${labels.crNumber} ${tenant.crNumber}` : ''}`;
+  pages.forEach((current, index) => {
+    current.drawLine({
+      start: { x: MARGIN, y: footerY + 12 },
+      end: { x: PAGE_WIDTH - MARGIN, y: footerY + 12 },
+      thickness: 0.5,
+      color: BORDER,
+    });
+    drawText(current, footerStart, place(MARGIN, halfContent), footerY, halfContent, {
+      font: fonts.regular,
+      size: 8,
+      color: MUTED,
+    });
+    drawText(current, `${labels.page} ${index + 1} ${labels.of} ${pages.length}`, place(MARGIN + halfContent, halfContent), footerY, halfContent, {
+      font: fonts.regular,
+      size: 8,
+      color: MUTED,
+      align: 'end',
+    });
+    if (index < pages.length - 1) {
+      drawText(current, labels.continued, MARGIN, MARGIN + FOOTER_HEIGHT, CONTENT_WIDTH, {
+        font: fonts.regular,
+        size: 8,
+        color: MUTED,
+        align: 'end',
+      });
+    }
+  });
+
+  return { bytes: await pdf.save(), pageCount: pages.length };
+}
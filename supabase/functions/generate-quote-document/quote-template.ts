@@ -0,0 +1,256 @@
+// Quote document layout: A4 pages with a branded header, item table and totals/terms on the last page.
+// Labels come from QUOTE_LABELS so the same template renders English, Arabic (RTL) or both side by side.
+
+export type DocumentLanguage = 'en' | 'ar' | 'bilingual';
+
+export const QUOTE_LABELS = {
+  en: {
+    quotation: 'Quotation',
+    reference: 'Reference',
+    date: 'Date',
+    validUntil: 'Valid Until',
+    version: 'Version',
+    billTo: 'Prepared For',
+    project: 'Project',
+    site: 'Site',
+    contact: 'Contact',
+    crNumber: 'CR No.',
+    taxNumber: 'VAT No.',
+    number: '#',
+    sku: 'SKU',
+    description: 'Description',
+    quantity: 'Qty',
+    unitPrice: 'Unit Price',
+    total: 'Total',
+    discount: 'Discount',
+    subtotal: 'Subtotal',
+    lineDiscounts: 'Line Discounts',
+    tax: 'VAT',
+    rounding: 'Rounding',
+    grandTotal: 'Grand Total',
+    terms: 'Terms & Conditions',
+    notes: 'Notes',
+    page: 'Page',
+    of: 'of',
+    continued: 'Continued on next page',
+  },
+  ar: {
+    quotation: 'عرض سعر',
+    reference: 'المرجع',
+    date: 'التاريخ',
+    validUntil: 'صالح حتى',
+    version: 'النسخة',
+    billTo: 'مقدم إلى',
+    project: 'المشروع',
+    site: 'الموقع',
+    contact: 'جهة الاتصال',
+    crNumber: 'رقم السجل التجاري',
+    taxNumber: 'الرقم الضريبي',
+    number: '#',
+    sku: 'رمز الصنف',
+    description: 'الوصف',
+    quantity: 'الكمية',
+    unitPrice: 'سعر الوحدة',
+    total: 'الإجمالي',
+    discount: 'الخصم',
+    subtotal: 'المجموع الفرعي',
+    lineDiscounts: 'خصومات البنود',
+    tax: 'ضريبة القيمة المضافة',
+    rounding: 'التقريب',
+    grandTotal: 'المجموع الكلي',
+    terms: 'الشروط والأحكام',
+    notes: 'ملاحظات',
+    page: 'صفحة',
+    of: 'من',
+    continued: 'يتبع في الصفحة التالية',
+  },
+};
+
+export type QuoteLabelKey = keyof typeof QUOTE_LABELS.en;
+
+/**
+ * Resolve labels for a language. Bilingual documents show "English / العربية".
+ */
+export function resolveLabels(language: DocumentLanguage): Record<QuoteLabelKey, string> {
+  if (language !== 'bilingual') return QUOTE_LABELS[language];
+
+  const labels = {} as Record<QuoteLabelKey, string>;
+  (Object.keys(QUOTE_LABELS.en) as QuoteLabelKey[]).forEach((key) => {
+    const en = QUOTE_LABELS.en[key];
+    const ar = QUOTE_LABELS.ar[key];
+    labels[key] = en === ar ? en : `${en} / ${ar}`;
+  });
+  return labels;
+}
+
+// Row budget per page, in "line units". The first page carries the header block, the last page the totals.
+const FIRST_PAGE_UNITS = 16;
+const PAGE_UNITS = 26;
+const TOTALS_UNITS = 10;
+const DESCRIPTION_CHARS_PER_LINE = 70;
+
+export interface PaginatedRow {
+  units: number;
+}
+
+/**
+ * Split item rows into pages. Long descriptions take more vertical space, and the last page keeps
+ * room for totals and terms (moving them to an extra page when the items fill it).
+ */
+export function paginateRows<T extends PaginatedRow>(rows: T[]): T[][] {
+  const pages: T[][] = [[]];
+  let remaining = FIRST_PAGE_UNITS;
+
+  rows.forEach((row) => {
+    if (row.units > remaining && pages[pages.length - 1].length > 0) {
+      pages.push([]);
+      remaining = PAGE_UNITS;
+    }
+    pages[pages.length - 1].push(row);
+    remaining -= row.units;
+  });
+
+  if (remaining < TOTALS_UNITS) {
+    pages.push([]);
+  }
+
+  return pages;
+}
+
+export function rowUnits(description: string | null | undefined, secondaryDescription?: string | null): number {
+  const lines = (text?: string | null) => (text ? Math.ceil(text.length / DESCRIPTION_CHARS_PER_LINE) : 0);
+  return 1 + lines(description) + lines(secondaryDescription);
+}
+
+export const QUOTE_TEMPLATE = `<!DOCTYPE html>
+<html lang="{{lang}}" dir="{{dir}}">
+<head>
+  <meta charset="utf-8">
+  <title>{{labels.quotation}} {{quote.reference}}</title>
+  <style>
+    @page { size: A4; margin: 0; }
+    * { box-sizing: border-box; }
+    body { margin: 0; background: #f3f4f6; font-family: "Segoe UI", Tahoma, Arial, sans-serif; color: #111827; font-size: 11px; }
+    .page { width: 210mm; min-height: 297mm; margin: 8mm auto; padding: 14mm 14mm 22mm; background: #fff; position: relative; page-break-after: always; }
+    .page:last-child { page-break-after: auto; }
+    @media print { body { background: #fff; } .page { margin: 0; box-shadow: none; } }
+    .header { display: flex; justify-content: space-between; align-items: flex-start; border-bottom: 3px solid {{brandColor}}; padding-bottom: 8px; margin-bottom: 12px; }
+    .header img { max-height: 56px; max-width: 180px; object-fit: contain; }
+    .company { font-size: 10px; color: #4b5563; line-height: 1.5; }
+    .company strong { font-size: 13px; color: #111827; }
+    .title { font-size: 22px; font-weight: 700; color: {{brandColor}}; margin: 0 0 4px; }
+    .meta { display: grid; grid-template-columns: 1fr 1fr; gap: 12px; margin-bottom: 14px; }
+    .meta table td { padding: 2px 6px 2px 0; vertical-align: top; }
+    .meta .label { color: #6b7280; white-space: nowrap; }
+    table.items { width: 100%; border-collapse: collapse; }
+    table.items th { background: {{brandColor}}; color: #fff; padding: 6px; text-align: start; font-weight: 600; }
+    table.items td { padding: 6px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+    table.items tr:nth-child(even) td { background: #f9fafb; }
+    .num { text-align: end; white-space: nowrap; }
+    .muted { color: #6b7280; font-size: 10px; }
+    .secondary { direction: rtl; text-align: right; color: #374151; }
+    .totals { margin-top: 14px; margin-inline-start: auto; width: 45%; border-collapse: collapse; }
+    .totals td { padding: 4px 6px; }
+    .totals .grand td { font-size: 14px; font-weight: 700; border-top: 2px solid {{brandColor}}; }
+    .terms { margin-top: 18px; white-space: pre-line; line-height: 1.5; }
+    .terms h3 { font-size: 12px; margin: 0 0 4px; color: {{brandColor}}; }
+    .footer { position: absolute; bottom: 10mm; left: 14mm; right: 14mm; display: flex; justify-content: space-between; color: #9ca3af; font-size: 9px; border-top: 1px solid #e5e7eb; padding-top: 4px; }
+  </style>
+</head>
+<body>
+{{#each pages}}
+  <section class="page">
+    <div class="header">
+      <div>
+        {{#if tenant.logoUrl}}<img src="{{tenant.logoUrl}}" alt="{{tenant.name}}">{{/if}}
+        <div class="company">
+          <strong>{{tenant.name}}</strong><br>
+          {{#if tenant.location}}{{tenant.location}}<br>{{/if}}
+          {{#if tenant.crNumber}}{{labels.crNumber}}: {{tenant.crNumber}}<br>{{/if}}
+          {{#if tenant.taxNumber}}{{labels.taxNumber}}: {{tenant.taxNumber}}<br>{{/if}}
+          {{#if tenant.email}}{{tenant.email}}{{/if}} {{#if tenant.phone}}· {{tenant.phone}}{{/if}}
+        </div>
+      </div>
+      <div class="num">
+        <p class="title">{{labels.quotation}}</p>
+        <div>{{quote.reference}}</div>
+        <div class="muted">{{labels.version}} {{version.number}}{{#if version.name}} · {{version.name}}{{/if}}</div>
+      </div>
+    </div>
+
+    {{#if isFirst}}
+    <div class="meta">
+      <table>
+        <tr><td class="label">{{labels.billTo}}</td><td><strong>{{customer.name}}</strong></td></tr>
+        {{#if customer.contact}}<tr><td class="label">{{labels.contact}}</td><td>{{customer.contact}}</td></tr>{{/if}}
+        {{#if customer.site}}<tr><td class="label">{{labels.site}}</td><td>{{customer.site}}</td></tr>{{/if}}
+        {{#if customer.project}}<tr><td class="label">{{labels.project}}</td><td>{{customer.project}}</td></tr>{{/if}}
+      </table>
+      <table>
+        <tr><td class="label">{{labels.reference}}</td><td>{{quote.reference}}</td></tr>
+        <tr><td class="label">{{labels.date}}</td><td>{{quote.date}}</td></tr>
+        {{#if quote.expiryDate}}<tr><td class="label">{{labels.validUntil}}</td><td>{{quote.expiryDate}}</td></tr>{{/if}}
+      </table>
+    </div>
+    {{/if}}
+
+    {{#if rows}}
+    <table class="items">
+      <thead>
+        <tr>
+          <th>{{labels.number}}</th>
+          <th>{{labels.sku}}</th>
+          <th>{{labels.description}}</th>
+          <th class="num">{{labels.quantity}}</th>
+          <th class="num">{{labels.unitPrice}}</th>
+          {{#if hasLineDiscounts}}<th class="num">{{labels.discount}}</th>{{/if}}
+          <th class="num">{{labels.total}}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {{#each rows}}
+        <tr>
+          <td>{{lineNumber}}</td>
+          <td>{{sku}}</td>
+          <td>
+            <strong>{{name}}</strong>
+            {{#if description}}<div class="muted">{{description}}</div>{{/if}}
+            {{#if descriptionAr}}<div class="muted secondary">{{descriptionAr}}</div>{{/if}}
+          </td>
+          <td class="num">{{quantity}}</td>
+          <td class="num">{{unitPrice}}</td>
+          {{#if hasLineDiscounts}}<td class="num">{{discount}}</td>{{/if}}
+          <td class="num">{{totalPrice}}</td>
+        </tr>
+        {{/each}}
+      </tbody>
+    </table>
+    {{/if}}
+
+    {{#if isLast}}
+    <table class="totals">
+      <tr><td>{{labels.subtotal}}</td><td class="num">{{totals.subtotal}}</td></tr>
+      {{#if totals.lineDiscounts}}<tr><td>{{labels.lineDiscounts}}</td><td class="num">-{{totals.lineDiscounts}}</td></tr>{{/if}}
+      {{#if totals.documentDiscount}}<tr><td>{{labels.discount}}{{#if totals.documentDiscountRate}} ({{totals.documentDiscountRate}}){{/if}}</td><td class="num">-{{totals.documentDiscount}}</td></tr>{{/if}}
+      {{#if totals.tax}}<tr><td>{{labels.tax}}{{#if totals.taxRate}} ({{totals.taxRate}}){{/if}}</td><td class="num">{{totals.tax}}</td></tr>{{/if}}
+      {{#if totals.rounding}}<tr><td>{{labels.rounding}}</td><td class="num">{{totals.rounding}}</td></tr>{{/if}}
+      <tr class="grand"><td>{{labels.grandTotal}}</td><td class="num">{{totals.grandTotal}}</td></tr>
+    </table>
+    {{#if quote.terms}}
+    <div class="terms"><h3>{{labels.terms}}</h3>{{quote.terms}}</div>
+    {{/if}}
+    {{#if version.notes}}
+    <div class="terms"><h3>{{labels.notes}}</h3>{{version.notes}}</div>
+    {{/if}}
+    {{else}}
+    <p class="muted num">{{labels.continued}}</p>
+    {{/if}}
+
+    <div class="footer">
+      <span>{{tenant.name}}{{#if tenant.crNumber}} · {{labels.crNumber}} {{tenant.crNumber}}{{/if}}</span>
+      <span>{{labels.page}} {{pageNumber}} {{labels.of}} {{pageCount}}</span>
+    </div>
+  </section>
+{{/each}}
+</body>
+</html>`;
@@ -0,0 +1,176 @@
+// Minimal logic-less template engine (Mustache/Handlebars subset) for document rendering.
+//
+// Supported syntax:
+//   {{path.to.value}}            HTML-escaped value
+//   {{{path.to.value}}}          raw value (trusted markup only)
+//   {{#if path}}...{{else}}...{{/if}}
+//   {{#unless path}}...{{/unless}}
+//   {{#each path}}...{{/each}}   inside the block: {{this}}, {{@index}}, {{@number}}, {{@first}}, {{@last}}
+// Lookups fall back to enclosing scopes, so fields of the document stay reachable inside loops.
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'value'; path: string; raw: boolean }
+  | { type: 'if' | 'unless'; path: string; children: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string; children: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'unless' | 'each' }>;
+
+const TAG_PATTERN = /\{\{\{\s*([^}]+?)\s*\}\}\}|\{\{\s*([#/]?)\s*([^}]*?)\s*\}\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string, public position: number) {
+    super(`${message} (at position ${position})`);
+    this.name = 'TemplateError';
+  }
+}
+
+export function compileTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; position: number; inElse: boolean }> = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.inElse && top.node.type !== 'each') return top.node.otherwise;
+    return top.node.children;
+  };
+
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  TAG_PATTERN.lastIndex = 0;
+
+  while ((match = TAG_PATTERN.exec(source)) !== null) {
+    if (match.index > lastIndex) {
+      current().push({ type: 'text', value: source.slice(lastIndex, match.index) });
+    }
+    lastIndex = TAG_PATTERN.lastIndex;
+
+    if (match[1] !== undefined) {
+      current().push({ type: 'value', path: match[1], raw: true });
+      continue;
+    }
+
+    const marker = match[2];
+    const body = match[3];
+
+    if (marker === '#') {
+      const [keyword, path = ''] = body.split(/\s+/, 2);
+      let node: BlockNode;
+      if (keyword === 'if' || keyword === 'unless') {
+        node = { type: keyword, path, children: [], otherwise: [] };
+      } else if (keyword === 'each') {
+        node = { type: 'each', path, children: [] };
+      } else {
+        throw new TemplateError(`Unknown block helper '${keyword}'`, match.index);
+      }
+      current().push(node);
+      stack.push({ node, position: match.index, inElse: false });
+      continue;
+    }
+
+    if (marker === '/') {
+      const open = stack.pop();
+      if (!open || open.node.type !== body) {
+        throw new TemplateError(`Unexpected closing tag '${body}'`, match.index);
+      }
+      continue;
+    }
+
+    if (body === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type === 'each') {
+        throw new TemplateError('{{else}} outside of an if/unless block', match.index);
+      }
+      top.inElse = true;
+      continue;
+    }
+
+    current().push({ type: 'value', path: body, raw: false });
+  }
+
+  if (lastIndex < source.length) {
+    current().push({ type: 'text', value: source.slice(lastIndex) });
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new TemplateError(`Unclosed block '${open.node.type}'`, open.position);
+  }
+
+  return root;
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function lookup(path: string, scopes: unknown[]): unknown {
+  if (path === 'this' || path === '.') return scopes[scopes.length - 1];
+
+  const segments = path.replace(/^this\./, '').split('.');
+  for (let i = scopes.length - 1; i >= 0; i--) {
+    const scope = scopes[i];
+    if (scope !== null && typeof scope === 'object' && segments[0] in scope) {
+      return segments.reduce<unknown>(
+        (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+        scope
+      );
+    }
+  }
+  return undefined;
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return Boolean(value);
+}
+
+function renderNodes(nodes: TemplateNode[], scopes: unknown[]): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'value': {
+        const value = lookup(node.path, scopes);
+        output += node.raw ? String(value ?? '') : escapeHtml(value);
+        break;
+      }
+      case 'if':
+      case 'unless': {
+        const condition = isTruthy(lookup(node.path, scopes));
+        const branch = (node.type === 'if' ? condition : !condition) ? node.children : node.otherwise;
+        output += renderNodes(branch, scopes);
+        break;
+      }
+      case 'each': {
+        const list = lookup(node.path, scopes);
+        if (!Array.isArray(list)) break;
+        list.forEach((item, index) => {
+          const meta = {
+            '@index': index,
+            '@number': index + 1,
+            '@first': index === 0,
+            '@last': index === list.length - 1,
+          };
+          output += renderNodes(node.children, [...scopes, meta, item]);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+export function renderTemplate(source: string | TemplateNode[], data: Record<string, unknown>): string {
+  const nodes = typeof source === 'string' ? compileTemplate(source) : source;
+  return renderNodes(nodes, [data]);
+}
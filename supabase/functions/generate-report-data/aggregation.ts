@@ -0,0 +1,449 @@
+// Server-side aggregation for report queries.
+//
+// Rows (already filtered and flattened by the data source) are grouped by one or more fields, with date fields
+// optionally bucketed by day/week/month/quarter/year. Each group gets SUM/AVG/COUNT/MIN/MAX aggregates, which may be
+// conditional ("count where status = won"), and calculated columns: arithmetic over aggregate aliases such as
+// "won_count / (won_count + lost_count) * 100".
+
+export type AggregateFunction = 'sum' | 'avg' | 'count' | 'min' | 'max';
+
+export type DateBucket = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export interface RowCondition {
+  field: string;
+  operator: string;
+  value: string;
+}
+
+export interface AggregationConfig {
+  /** Source field, or '*' to count rows */
+  field: string;
+  function: AggregateFunction;
+  alias?: string;
+  label?: string;
+  /** Only rows matching the condition are aggregated */
+  where?: RowCondition;
+}
+
+export interface CalculatedField {
+  alias: string;
+  label?: string;
+  expression: string;
+}
+
+export interface AggregationSpec {
+  grouping: string[];
+  date_buckets?: Record<string, DateBucket>;
+  aggregations?: AggregationConfig[];
+  calculated_fields?: CalculatedField[];
+}
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+  kind: 'group' | 'aggregate' | 'calculated';
+  bucket?: DateBucket;
+  /** Set on period comparison columns, with the key of the value column they derive from */
+  comparison?: 'current' | 'previous' | 'change' | 'change_percent';
+  source?: string;
+}
+
+export interface AggregatedReport {
+  rows: Record<string, unknown>[];
+  columns: ReportColumn[];
+  totals: Record<string, number | null>;
+}
+
+export class AggregationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AggregationError';
+  }
+}
+
+const AGGREGATE_LABELS: Record<AggregateFunction, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  min: 'Min',
+  max: 'Max',
+};
+
+const formatFieldName = (field: string) =>
+  field.split('_').filter(Boolean).map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+function aggregationLabel(aggregation: AggregationConfig): string {
+  const base = aggregation.field === '*'
+    ? 'Count'
+    : `${AGGREGATE_LABELS[aggregation.function]} of ${formatFieldName(aggregation.field)}`;
+  const { where } = aggregation;
+  if (!where) return base;
+  const condition = [formatFieldName(where.field), where.operator.replace(/_/g, ' '), where.value].filter(Boolean);
+  return `${base} (${condition.join(' ')})`;
+}
+
+export function aggregationAlias(aggregation: AggregationConfig): string {
+  if (aggregation.alias) return aggregation.alias;
+  return aggregation.field === '*' ? aggregation.function : `${aggregation.function}_${aggregation.field}`;
+}
+
+export function hasAggregation(spec: Partial<AggregationSpec>): boolean {
+  return (spec.grouping?.length || 0) > 0 || (spec.aggregations?.length || 0) > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Date buckets
+// ---------------------------------------------------------------------------
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Bucket label that sorts chronologically as a string, e.g. 2026-10-19, 2026-W43, 2026-10, 2026-Q4, 2026 (UTC) */
+export function bucketDate(value: unknown, bucket: DateBucket): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const date = new Date(String(value));
+  if (isNaN(date.getTime())) return null;
+
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + 1;
+
+  switch (bucket) {
+    case 'day':
+      return `${year}-${pad(month)}-${pad(date.getUTCDate())}`;
+    case 'week': {
+      // ISO week: weeks start on Monday and belong to the year of their Thursday
+      const thursday = new Date(Date.UTC(year, date.getUTCMonth(), date.getUTCDate()));
+      thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+      const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+      const week = Math.ceil(((thursday.getTime() - yearStart) / 86400000 + 1) / 7);
+      return `${thursday.getUTCFullYear()}-W${pad(week)}`;
+    }
+    case 'month':
+      return `${year}-${pad(month)}`;
+    case 'quarter':
+      return `${year}-Q${Math.ceil(month / 3)}`;
+    case 'year':
+      return String(year);
+    default:
+      return String(value);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Row conditions
+// ---------------------------------------------------------------------------
+
+/** Bounds of a `from..to` range value, either side optional; a date-only upper bound includes that whole day */
+export function rangeBounds(value: unknown): { from: string | null; to: string | null; toExclusive: boolean } {
+  const [from = '', to = ''] = String(value ?? '').split('..').map(part => part.trim());
+  if (/^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    const next = new Date(`${to}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return { from: from || null, to: next.toISOString().slice(0, 10), toExclusive: true };
+  }
+  return { from: from || null, to: to || null, toExclusive: false };
+}
+
+export function matchesCondition(row: Record<string, unknown>, condition: RowCondition): boolean {
+  const actual = row[condition.field];
+  const expected = condition.value;
+  // Strict parsing, so dates such as 2026-10-19 compare as strings rather than as the number 2026
+  const numeric = (v: unknown) => (typeof v === 'number' ? v : String(v ?? '').trim() === '' ? NaN : Number(v));
+  const compare = (a: unknown, b: unknown) => {
+    const x = numeric(a);
+    const y = numeric(b);
+    if (!isNaN(x) && !isNaN(y)) return x - y;
+    return String(a ?? '').localeCompare(String(b ?? ''));
+  };
+
+  switch (condition.operator) {
+    case 'equals':
+      return String(actual ?? '').toLowerCase() === String(expected ?? '').toLowerCase();
+    case 'not_equals':
+      return String(actual ?? '').toLowerCase() !== String(expected ?? '').toLowerCase();
+    case 'contains':
+      return String(actual ?? '').toLowerCase().includes(String(expected ?? '').toLowerCase());
+    case 'greater_than':
+    case 'after_date':
+      return actual !== null && actual !== undefined && compare(actual, expected) > 0;
+    case 'less_than':
+    case 'before_date':
+      return actual !== null && actual !== undefined && compare(actual, expected) < 0;
+    case 'greater_than_or_equal':
+      return actual !== null && actual !== undefined && compare(actual, expected) >= 0;
+    case 'less_than_or_equal':
+      return actual !== null && actual !== undefined && compare(actual, expected) <= 0;
+    case 'is_null':
+      return actual === null || actual === undefined || actual === '';
+    case 'is_not_null':
+      return actual !== null && actual !== undefined && actual !== '';
+    case 'in_last_days': {
+      const since = new Date();
+      since.setDate(since.getDate() - parseInt(String(expected)));
+      return actual !== null && actual !== undefined && new Date(String(actual)) >= since;
+    }
+    case 'in':
+      return String(expected ?? '').split(',').map(item => item.trim()).includes(String(actual ?? ''));
+    case 'between': {
+      if (actual === null || actual === undefined || actual === '') return false;
+      const range = rangeBounds(expected);
+      if (range.from !== null && compare(actual, range.from) < 0) return false;
+      if (range.to !== null && compare(actual, range.to) >= (range.toExclusive ? 0 : 1)) return false;
+      return true;
+    }
+    default:
+      return true;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Calculated column expressions: numbers, aliases, + - * / and parentheses
+// ---------------------------------------------------------------------------
+
+type Expression =
+  | { type: 'number'; value: number }
+  | { type: 'reference'; name: string }
+  | { type: 'negate'; operand: Expression }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/'; left: Expression; right: Expression };
+
+export function parseExpression(source: string): Expression {
+  const tokens = source.match(/\d+(?:\.\d+)?|[A-Za-z_][A-Za-z0-9_]*|[-+*/()]|\S/g) || [];
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  const parsePrimary = (): Expression => {
+    const token = next();
+    if (token === undefined) throw new AggregationError(`Unexpected end of expression "${source}"`);
+    if (token === '(') {
+      const inner = parseSum();
+      if (next() !== ')') throw new AggregationError(`Missing ")" in expression "${source}"`);
+      return inner;
+    }
+    if (token === '-') return { type: 'negate', operand: parsePrimary() };
+    if (/^\d/.test(token)) return { type: 'number', value: parseFloat(token) };
+    if (/^[A-Za-z_]/.test(token)) return { type: 'reference', name: token };
+    throw new AggregationError(`Unexpected "${token}" in expression "${source}"`);
+  };
+
+  const parseProduct = (): Expression => {
+    let left = parsePrimary();
+    while (peek() === '*' || peek() === '/') {
+      const operator = next() as '*' | '/';
+      left = { type: 'binary', operator, left, right: parsePrimary() };
+    }
+    return left;
+  };
+
+  const parseSum = (): Expression => {
+    let left = parseProduct();
+    while (peek() === '+' || peek() === '-') {
+      const operator = next() as '+' | '-';
+      left = { type: 'binary', operator, left, right: parseProduct() };
+    }
+    return left;
+  };
+
+  const expression = parseSum();
+  if (index < tokens.length) throw new AggregationError(`Unexpected "${tokens[index]}" in expression "${source}"`);
+  return expression;
+}
+
+export function expressionReferences(expression: Expression): string[] {
+  switch (expression.type) {
+    case 'reference':
+      return [expression.name];
+    case 'negate':
+      return expressionReferences(expression.operand);
+    case 'binary':
+      return [...expressionReferences(expression.left), ...expressionReferences(expression.right)];
+    default:
+      return [];
+  }
+}
+
+/** Null when a referenced value is missing or a division by zero occurs */
+export function evaluateExpression(expression: Expression, values: Record<string, number | null>): number | null {
+  switch (expression.type) {
+    case 'number':
+      return expression.value;
+    case 'reference':
+      return values[expression.name] ?? null;
+    case 'negate': {
+      const operand = evaluateExpression(expression.operand, values);
+      return operand === null ? null : -operand;
+    }
+    case 'binary': {
+      const left = evaluateExpression(expression.left, values);
+      const right = evaluateExpression(expression.right, values);
+      if (left === null || right === null) return null;
+      switch (expression.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? null : left / right;
+      }
+    }
+  }
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Aggregation
+// ---------------------------------------------------------------------------
+
+const roundResult = (value: number | null) => (value === null ? null : Math.round(value * 10000) / 10000);
+
+function aggregate(rows: Record<string, unknown>[], aggregation: AggregationConfig): number | null {
+  const matching = aggregation.where ? rows.filter(row => matchesCondition(row, aggregation.where!)) : rows;
+
+  if (aggregation.function === 'count') {
+    if (aggregation.field === '*') return matching.length;
+    return matching.filter(row => row[aggregation.field] !== null && row[aggregation.field] !== undefined).length;
+  }
+
+  const values = matching
+    .map(row => row[aggregation.field])
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .map(value => (typeof value === 'number' ? value : parseFloat(String(value))))
+    .filter(value => !isNaN(value));
+
+  if (values.length === 0) return aggregation.function === 'sum' ? 0 : null;
+
+  switch (aggregation.function) {
+    case 'sum':
+      return values.reduce((sum, value) => sum + value, 0);
+    case 'avg':
+      return values.reduce((sum, value) => sum + value, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return null;
+  }
+}
+
+function summarize(
+  rows: Record<string, unknown>[],
+  aggregations: AggregationConfig[],
+  calculated: Array<{ field: CalculatedField; expression: Expression }>
+): Record<string, number | null> {
+  const values: Record<string, number | null> = {};
+  aggregations.forEach(aggregation => {
+    values[aggregationAlias(aggregation)] = roundResult(aggregate(rows, aggregation));
+  });
+  // Calculated columns may build on earlier calculated columns
+  calculated.forEach(({ field, expression }) => {
+    values[field.alias] = roundResult(evaluateExpression(expression, values));
+  });
+  return values;
+}
+
+const compareGroupValues = (a: unknown, b: unknown) => {
+  if (a === b) return 0;
+  if (a === null || a === undefined || a === '') return 1;
+  if (b === null || b === undefined || b === '') return -1;
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+};
+
+export function aggregateRows(rows: Record<string, unknown>[], spec: AggregationSpec): AggregatedReport {
+  const grouping = (spec.grouping || []).filter(Boolean);
+  const buckets = spec.date_buckets || {};
+  // Grouping without aggregates still counts the rows per group
+  const aggregations = spec.aggregations?.length ? spec.aggregations : [{ field: '*', function: 'count' as const, alias: 'count' }];
+
+  const aliases = new Set<string>();
+  aggregations.forEach(aggregation => {
+    const alias = aggregationAlias(aggregation);
+    if (aliases.has(alias)) throw new AggregationError(`Duplicate column "${alias}"`);
+    if (aggregation.function !== 'count' && aggregation.field === '*') {
+      throw new AggregationError(`${AGGREGATE_LABELS[aggregation.function]} needs a field`);
+    }
+    aliases.add(alias);
+  });
+
+  const calculated = (spec.calculated_fields || []).map(field => {
+    if (!field.alias) throw new AggregationError('Calculated columns need a name');
+    if (aliases.has(field.alias)) throw new AggregationError(`Duplicate column "${field.alias}"`);
+    const expression = parseExpression(field.expression || '');
+    const unknown = expressionReferences(expression).filter(name => !aliases.has(name));
+    if (unknown.length > 0) {
+      throw new AggregationError(`Unknown column "${unknown[0]}" in calculated column "${field.label || field.alias}"`);
+    }
+    aliases.add(field.alias);
+    return { field, expression };
+  });
+
+  const groupValue = (row: Record<string, unknown>, field: string) =>
+    buckets[field] ? bucketDate(row[field], buckets[field]) : (row[field] ?? null);
+
+  const groups = new Map<string, { keys: unknown[]; rows: Record<string, unknown>[] }>();
+  rows.forEach(row => {
+    const keys = grouping.map(field => groupValue(row, field));
+    const id = JSON.stringify(keys);
+    const group = groups.get(id) || { keys, rows: [] };
+    group.rows.push(row);
+    groups.set(id, group);
+  });
+
+  const resultRows = [...groups.values()]
+    .sort((a, b) => {
+      for (let i = 0; i < grouping.length; i++) {
+        const order = compareGroupValues(a.keys[i], b.keys[i]);
+        if (order !== 0) return order;
+      }
+      return 0;
+    })
+    .map(group => ({
+      ...Object.fromEntries(grouping.map((field, i) => [field, group.keys[i]])),
+      ...summarize(group.rows, aggregations, calculated),
+    }));
+
+  // Without grouping the single summary row is returned even when there are no rows
+  if (grouping.length === 0 && resultRows.length === 0) {
+    resultRows.push(summarize([], aggregations, calculated));
+  }
+
+  const columns: ReportColumn[] = [
+    ...grouping.map(field => ({
+      key: field,
+      label: buckets[field] ? `${formatFieldName(field)} (${buckets[field]})` : formatFieldName(field),
+      kind: 'group' as const,
+      bucket: buckets[field],
+    })),
+    ...aggregations.map(aggregation => ({
+      key: aggregationAlias(aggregation),
+      label: aggregation.label || aggregationLabel(aggregation),
+      kind: 'aggregate' as const,
+    })),
+    ...calculated.map(({ field }) => ({
+      key: field.alias,
+      label: field.label || formatFieldName(field.alias),
+      kind: 'calculated' as const,
+    })),
+  ];
+
+  return {
+    rows: resultRows,
+    columns,
+    totals: summarize(rows, aggregations, calculated),
+  };
+}
+
+/** In-memory sort of aggregated rows, or of plain rows sorted by related fields, by any output column */
+export function sortAggregatedRows(
+  rows: Record<string, unknown>[],
+  sorting: Array<{ field: string; direction: 'asc' | 'desc' }>
+): Record<string, unknown>[] {
+  const applicable = sorting.filter(sort => sort.field && rows.some(row => sort.field in row));
+  if (applicable.length === 0) return rows;
+  return [...rows].sort((a, b) => {
+    for (const sort of applicable) {
+      const order = compareGroupValues(a[sort.field], b[sort.field]);
+      if (order !== 0) return sort.direction === 'desc' ? -order : order;
+    }
+    return 0;
+  });
+}
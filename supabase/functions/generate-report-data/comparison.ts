@@ -0,0 +1,208 @@
+// Period-over-period comparison for report queries.
+//
+// Rows are split by a date field into the current calendar period (week/month/quarter/year, in UTC like the date
+// buckets) and a baseline: the period before it or the same period a year earlier. Both halves are aggregated with
+// the report's grouping and aggregates, and every value column is returned for both periods together with the
+// absolute and percent change.
+
+import { AggregatedReport, AggregationSpec, ReportColumn, aggregateRows, bucketDate } from './aggregation.ts'
+
+export type ComparisonPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export type ComparisonBaseline = 'previous_period' | 'previous_year';
+
+export interface PeriodComparisonConfig {
+  /** Date field that places a row in a period */
+  field: string;
+  period: ComparisonPeriod;
+  compare_to: ComparisonBaseline;
+  /** Compare only the elapsed part of the period, e.g. Oct 1-19 against Sep 1-19 */
+  to_date?: boolean;
+}
+
+export interface PeriodRange {
+  /** Inclusive ISO timestamp */
+  start: string;
+  /** Exclusive ISO timestamp */
+  end: string;
+  label: string;
+}
+
+export interface ComparisonReport extends AggregatedReport {
+  periods: { current: PeriodRange; previous: PeriodRange };
+}
+
+export const COMPARISON_SUFFIXES = {
+  previous: '_previous',
+  change: '_change',
+  change_percent: '_change_pct',
+} as const
+
+function startOfPeriod(date: Date, period: ComparisonPeriod): Date {
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  switch (period) {
+    case 'week': {
+      const day = date.getUTCDay() || 7
+      return new Date(Date.UTC(year, month, date.getUTCDate() - day + 1))
+    }
+    case 'month':
+      return new Date(Date.UTC(year, month, 1))
+    case 'quarter':
+      return new Date(Date.UTC(year, month - (month % 3), 1))
+    case 'year':
+      return new Date(Date.UTC(year, 0, 1))
+  }
+}
+
+function shiftPeriod(date: Date, period: ComparisonPeriod, count: number): Date {
+  const shifted = new Date(date)
+  switch (period) {
+    case 'week':
+      shifted.setUTCDate(shifted.getUTCDate() + 7 * count)
+      break
+    case 'month':
+      shifted.setUTCMonth(shifted.getUTCMonth() + count)
+      break
+    case 'quarter':
+      shifted.setUTCMonth(shifted.getUTCMonth() + 3 * count)
+      break
+    case 'year':
+      shifted.setUTCFullYear(shifted.getUTCFullYear() + count)
+      break
+  }
+  return shifted
+}
+
+function range(start: Date, end: Date, period: ComparisonPeriod): PeriodRange {
+  return { start: start.toISOString(), end: end.toISOString(), label: bucketDate(start.toISOString(), period) || '' }
+}
+
+/** The current period containing `now` and the period it is compared against */
+export function comparisonRanges(
+  config: PeriodComparisonConfig,
+  now: Date = new Date()
+): { current: PeriodRange; previous: PeriodRange } {
+  const currentStart = startOfPeriod(now, config.period)
+  const currentEnd = shiftPeriod(currentStart, config.period, 1)
+
+  // The same week last year is 52 weeks back, so it starts on a Monday as well
+  const previousStart = config.compare_to === 'previous_year'
+    ? (config.period === 'week'
+        ? shiftPeriod(currentStart, 'week', -52)
+        : shiftPeriod(currentStart, 'year', -1))
+    : shiftPeriod(currentStart, config.period, -1)
+  const previousEnd = config.compare_to === 'previous_year' && config.period === 'week'
+    ? shiftPeriod(previousStart, 'week', 1)
+    : shiftPeriod(previousStart, config.period, 1)
+
+  if (!config.to_date) {
+    return { current: range(currentStart, currentEnd, config.period), previous: range(previousStart, previousEnd, config.period) }
+  }
+
+  // Period to date: the same elapsed time into both periods, capped at the end of the shorter period
+  const elapsed = now.getTime() - currentStart.getTime()
+  const previousToDate = new Date(Math.min(previousStart.getTime() + elapsed, previousEnd.getTime()))
+  return {
+    current: range(currentStart, now, config.period),
+    previous: range(previousStart, previousToDate, config.period),
+  }
+}
+
+export const inRange = (value: unknown, period: PeriodRange) => {
+  if (value === null || value === undefined || value === '') return false
+  const time = new Date(String(value)).getTime()
+  return !isNaN(time) && time >= new Date(period.start).getTime() && time < new Date(period.end).getTime()
+}
+
+const roundChange = (value: number) => Math.round(value * 10000) / 10000
+
+function change(current: number | null, previous: number | null) {
+  if (current === null || previous === null) return { change: null, percent: null }
+  const delta = current - previous
+  return {
+    change: roundChange(delta),
+    percent: previous === 0 ? null : roundChange((delta / Math.abs(previous)) * 100),
+  }
+}
+
+function compareValues(
+  current: Record<string, unknown>,
+  previous: Record<string, unknown>,
+  valueColumns: ReportColumn[]
+): Record<string, number | null> {
+  const values: Record<string, number | null> = {}
+  for (const column of valueColumns) {
+    const now = (current[column.key] as number | null) ?? null
+    const before = (previous[column.key] as number | null) ?? null
+    const delta = change(now, before)
+    values[column.key] = now
+    values[`${column.key}${COMPARISON_SUFFIXES.previous}`] = before
+    values[`${column.key}${COMPARISON_SUFFIXES.change}`] = delta.change
+    values[`${column.key}${COMPARISON_SUFFIXES.change_percent}`] = delta.percent
+  }
+  return values
+}
+
+export function comparePeriods(
+  rows: Record<string, unknown>[],
+  spec: AggregationSpec,
+  config: PeriodComparisonConfig,
+  now: Date = new Date()
+): ComparisonReport {
+  const periods = comparisonRanges(config, now)
+  const currentRows = rows.filter(row => inRange(row[config.field], periods.current))
+  const previousRows = rows.filter(row => inRange(row[config.field], periods.previous))
+
+  const current = aggregateRows(currentRows, spec)
+  const previous = aggregateRows(previousRows, spec)
+  // Groups present in either period, and the values of a group with no rows (zero counts and sums)
+  const union = aggregateRows([...currentRows, ...previousRows], spec)
+  const empty = aggregateRows([], { ...spec, grouping: [] }).rows[0]
+
+  const groupColumns = union.columns.filter(column => column.kind === 'group')
+  const valueColumns = union.columns.filter(column => column.kind !== 'group')
+  const groupKey = (row: Record<string, unknown>) => JSON.stringify(groupColumns.map(column => row[column.key] ?? null))
+  const currentByGroup = new Map(current.rows.map(row => [groupKey(row), row]))
+  const previousByGroup = new Map(previous.rows.map(row => [groupKey(row), row]))
+
+  const resultRows = union.rows.map(row => ({
+    ...Object.fromEntries(groupColumns.map(column => [column.key, row[column.key]])),
+    ...compareValues(currentByGroup.get(groupKey(row)) || empty, previousByGroup.get(groupKey(row)) || empty, valueColumns),
+  }))
+
+  const columns: ReportColumn[] = [
+    ...groupColumns,
+    ...valueColumns.flatMap(column => [
+      { ...column, label: `${column.label} (${periods.current.label})`, comparison: 'current' as const, source: column.key },
+      {
+        ...column,
+        key: `${column.key}${COMPARISON_SUFFIXES.previous}`,
+        label: `${column.label} (${periods.previous.label})`,
+        comparison: 'previous' as const,
+        source: column.key,
+      },
+      {
+        ...column,
+        key: `${column.key}${COMPARISON_SUFFIXES.change}`,
+        label: `${column.label} Change`,
+        comparison: 'change' as const,
+        source: column.key,
+      },
+      {
+        ...column,
+        key: `${column.key}${COMPARISON_SUFFIXES.change_percent}`,
+        label: `${column.label} Change %`,
+        comparison: 'change_percent' as const,
+        source: column.key,
+      },
+    ]),
+  ]
+
+  return {
+    rows: resultRows,
+    columns,
+    totals: compareValues(current.totals, previous.totals, valueColumns),
+    periods,
+  }
+}
@@ -0,0 +1,40 @@
+// Drill-down from a chart to the records behind one of its bars or slices.
+//
+// The client sends the values of the clicked group, e.g. { stage_name: 'Won', created_at: '2026-10' }. Rows are
+// matched with the same date buckets as the aggregation, so the records listed are the ones that make up the value
+// that was clicked. Empty group values ("Unknown" on the chart) match null and empty strings alike.
+
+import { DateBucket, bucketDate } from './aggregation.ts'
+
+export interface DrillDownRequest {
+  group: Record<string, unknown>;
+}
+
+/** Returned with every drilled record when the data source has them, so the client can link to the record */
+const LINK_FIELDS = ['id', 'contract_id', 'deal_id', 'customer_id', 'site_id', 'company_id', 'contact_id']
+
+const isEmpty = (value: unknown) => value === null || value === undefined || value === ''
+
+export function drillDownRows(
+  rows: Record<string, unknown>[],
+  group: Record<string, unknown>,
+  buckets: Record<string, DateBucket> = {}
+): Record<string, unknown>[] {
+  const entries = Object.entries(group)
+  return rows.filter(row =>
+    entries.every(([field, expected]) => {
+      const actual = buckets[field] ? bucketDate(row[field], buckets[field]) : row[field]
+      if (isEmpty(actual) || isEmpty(expected)) return isEmpty(actual) && isEmpty(expected)
+      return String(actual) === String(expected)
+    })
+  )
+}
+
+/** The report's fields plus the group and link fields; every flat field when the report picks none */
+export function drillDownFields(rows: Record<string, unknown>[], fields: string[], group: Record<string, unknown>): string[] {
+  const sample = rows[0] || {}
+  const chosen = fields.length > 0
+    ? [...fields, ...Object.keys(group)]
+    : Object.keys(sample).filter(key => typeof sample[key] !== 'object' || sample[key] === null)
+  return [...new Set([...LINK_FIELDS.filter(field => field in sample), ...chosen])]
+}
@@ -1,11 +1,40 @@
 import { serve } from 'https://deno.land/std@0.208.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.38.0'
+import {
+  AggregationConfig,
+  CalculatedField,
+  DateBucket,
+  aggregateRows,
+  hasAggregation,
+  matchesCondition,
+  rangeBounds,
+  sortAggregatedRows,
+} from './aggregation.ts'
+import { PeriodComparisonConfig, comparePeriods, comparisonRanges, inRange } from './comparison.ts'
+import { DrillDownRequest, drillDownFields, drillDownRows } from './drilldown.ts'
+import { ParameterValues, ReportParameter, resolveParameters } from './parameters.ts'
+import { applyRowScope, loadRowScope, needsRowScope } from './scope.ts'
+import {
+  isRelatedField,
+  joinRelatedRows,
+  relationSelect,
+  requestedRelations,
+  scopeRelationsToTenant,
+} from './relationships.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// PostgREST returns at most max_rows per request, so sources are read a page at a time
+const PAGE_SIZE = 1000
+
+interface PagedQuery<T> {
+  order(column: string): PagedQuery<T>;
+  range(from: number, to: number): PromiseLike<{ data: T[] | null; error: unknown }>;
+}
+
 interface FilterCondition {
   field: string;
   operator: string;
@@ -23,6 +52,11 @@ interface QueryConfig {
   sorting: SortCondition[];
   grouping: string[];
   comparison_fields?: string[];
+  date_buckets?: Record<string, DateBucket>;
+  aggregations?: AggregationConfig[];
+  calculated_fields?: CalculatedField[];
+  period_comparison?: PeriodComparisonConfig;
+  parameters?: ReportParameter[];
 }
 
 serve(async (req) => {
@@ -32,9 +66,16 @@ serve(async (req) => {
   }
 
   try {
+    // Get the authorization header
+    const authHeader = req.headers.get('Authorization')
+
+    // Scheduled exports call with the service role key and are scoped by the tenantId and the recipient's userId
+    const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+    const serviceCall = !!serviceKey && authHeader === `Bearer ${serviceKey}`
+
     const supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      serviceCall ? serviceKey : (Deno.env.get('SUPABASE_ANON_KEY') ?? ''),
       {
         auth: {
           autoRefreshToken: false,
@@ -43,24 +84,69 @@ serve(async (req) => {
       }
     )
 
-    // Get the authorization header
-    const authHeader = req.headers.get('Authorization')
-    if (authHeader) {
+    if (authHeader && !serviceCall) {
       supabase.auth.setSession({
         access_token: authHeader.replace('Bearer ', ''),
         refresh_token: ''
       })
     }
 
-    const { dataSource, queryConfig, tenantId } = await req.json()
+    const body = await req.json()
+    const { dataSource, tenantId, limit } = body
+    const parameters: ParameterValues = body.parameters || {}
+    const drill: DrillDownRequest | undefined = body.drill?.group ? body.drill : undefined
+
+    console.log('Generating report data for:', { dataSource, tenantId, drill: !!drill })
+
+    // {name} tokens in filters are replaced with the values the report was run with
+    const queryConfig: QueryConfig = await resolveParameters(body.queryConfig, parameters, {
+      branchMembers: async (branchId) => {
+        const { data: members, error: membersError } = await supabase
+          .from('user_branch_assignments')
+          .select('user_id')
+          .eq('branch_id', branchId)
+          .eq('tenant_id', tenantId)
+        if (membersError) throw membersError
+        return (members || []).map((member: { user_id: string }) => member.user_id)
+      },
+    })
+
+    // Related fields are embedded from other entities; filters and sorts on them run after the join
+    const related = requestedRelations(dataSource, queryConfig)
+    const relatedSelect = relationSelect(related)
+    const dbFilters: FilterCondition[] = (queryConfig.filters || []).filter((f: FilterCondition) => !isRelatedField(f.field))
+    const relatedFilters: FilterCondition[] = (queryConfig.filters || []).filter((f: FilterCondition) => isRelatedField(f.field))
+    const sortsRelated = (queryConfig.sorting || []).some((s: SortCondition) => isRelatedField(s.field))
+
+    // Rows follow the visibility scope of whoever views them; a service call without a userId is unrestricted
+    let scopeUserIds: string[] | null = null
+    if (needsRowScope(dataSource, related)) {
+      const viewerId: string | undefined = serviceCall
+        ? body.userId
+        : (await supabase.auth.getUser(authHeader?.replace('Bearer ', ''))).data.user?.id
+      if (viewerId) scopeUserIds = await loadRowScope(supabase, viewerId, tenantId)
+      else if (!serviceCall) scopeUserIds = []
+    }
+
+    // Period comparisons only need the rows of the two periods being compared
+    const comparison: PeriodComparisonConfig | undefined = queryConfig.period_comparison?.field
+      ? queryConfig.period_comparison
+      : undefined
+    if (comparison && !isRelatedField(comparison.field)) {
+      const periods = comparisonRanges(comparison)
+      dbFilters.push({ field: comparison.field, operator: 'greater_than_or_equal', value: periods.previous.start })
+      dbFilters.push({ field: comparison.field, operator: 'less_than', value: periods.current.end })
+    }
 
-    console.log('Generating report data for:', { dataSource, tenantId })
+    // Aggregated reports are sorted after grouping, since they can sort by aggregate columns
+    const aggregated = hasAggregation(queryConfig) || !!comparison
+    const dbSorting: SortCondition[] = aggregated || sortsRelated ? [] : (queryConfig.sorting || [])
 
     let query;
     let data: any[] = [];
 
     switch (dataSource) {
-      case 'contracts':
+      case 'contracts': {
         query = supabase
           .from('contracts')
           .select(`
@@ -77,21 +163,23 @@ serve(async (req) => {
             customers!inner(name),
             sites(name),
             currencies(code, symbol),
-            profiles(first_name, last_name)
+            profiles(first_name, last_name)${relatedSelect}
           `)
           .eq('tenant_id', tenantId);
+        query = scopeRelationsToTenant(query, related, tenantId);
+        query = applyRowScope(query, dataSource, related, scopeUserIds);
 
         // Apply filters
-        for (const filter of queryConfig.filters) {
+        for (const filter of dbFilters) {
           query = applyFilter(query, filter, 'contracts');
         }
 
         // Apply sorting
-        for (const sort of queryConfig.sorting) {
+        for (const sort of dbSorting) {
           query = query.order(sort.field, { ascending: sort.direction === 'asc' });
         }
 
-        const { data: contractsData, error: contractsError } = await query;
+        const { data: contractsData, error: contractsError } = await fetchAllRows(query);
         if (contractsError) throw contractsError;
 
         // Transform data to flatten relationships
@@ -112,9 +200,11 @@ serve(async (req) => {
           assigned_salesperson: contract.profiles ? 
             `${contract.profiles.first_name} ${contract.profiles.last_name}` : ''
         }));
+        data = joinRelatedRows(data, contractsData, related);
         break;
+      }
 
-      case 'contract_payments':
+      case 'contract_payments': {
         query = supabase
           .from('contract_payment_terms')
           .select(`
@@ -129,26 +219,29 @@ serve(async (req) => {
             contracts!inner(
               id,
               name,
+              assigned_to,
               customers(name),
               profiles(first_name, last_name),
               currencies(code, symbol)
             ),
             contract_payment_stages(name),
-            contract_todos(id, completed)
+            contract_todos(id, completed)${relatedSelect}
           `)
           .eq('tenant_id', tenantId);
+        query = scopeRelationsToTenant(query, related, tenantId);
+        query = applyRowScope(query, dataSource, related, scopeUserIds);
 
         // Apply filters
-        for (const filter of queryConfig.filters) {
+        for (const filter of dbFilters) {
           query = applyFilter(query, filter, 'contract_payment_terms');
         }
 
         // Apply sorting
-        for (const sort of queryConfig.sorting) {
+        for (const sort of dbSorting) {
           query = query.order(sort.field, { ascending: sort.direction === 'asc' });
         }
 
-        const { data: paymentsData, error: paymentsError } = await query;
+        const { data: paymentsData, error: paymentsError } = await fetchAllRows(query);
         if (paymentsError) throw paymentsError;
 
         // Transform data with todo counts
@@ -176,9 +269,11 @@ serve(async (req) => {
             todos_completed_count: completedTodos
           };
         });
+        data = joinRelatedRows(data, paymentsData, related);
         break;
+      }
 
-      case 'deals':
+      case 'deals': {
         query = supabase
           .from('deals')
           .select(`
@@ -189,24 +284,27 @@ serve(async (req) => {
             probability,
             expected_close_date,
             high_value,
+            assigned_to,
             created_at,
             customers(name),
             deal_stages(name),
             currencies(code, symbol),
-            profiles(first_name, last_name)
+            profiles(first_name, last_name)${relatedSelect}
           `)
           .eq('tenant_id', tenantId);
+        query = scopeRelationsToTenant(query, related, tenantId);
+        query = applyRowScope(query, dataSource, related, scopeUserIds);
 
         // Apply filters and sorting for deals
-        for (const filter of queryConfig.filters) {
+        for (const filter of dbFilters) {
           query = applyFilter(query, filter, 'deals');
         }
 
-        for (const sort of queryConfig.sorting) {
+        for (const sort of dbSorting) {
           query = query.order(sort.field, { ascending: sort.direction === 'asc' });
         }
 
-        const { data: dealsData, error: dealsError } = await query;
+        const { data: dealsData, error: dealsError } = await fetchAllRows(query);
         if (dealsError) throw dealsError;
 
         data = dealsData.map((deal: any) => ({
@@ -217,6 +315,7 @@ serve(async (req) => {
           probability: deal.probability,
           expected_close_date: deal.expected_close_date,
           high_value: deal.high_value,
+          assigned_to: deal.assigned_to,
           created_at: deal.created_at,
           customer_name: deal.customers?.name || '',
           stage_name: deal.deal_stages?.name || '',
@@ -224,9 +323,11 @@ serve(async (req) => {
           assigned_salesperson: deal.profiles ? 
             `${deal.profiles.first_name} ${deal.profiles.last_name}` : ''
         }));
+        data = joinRelatedRows(data, dealsData, related);
         break;
+      }
 
-      case 'targets':
+      case 'targets': {
         query = supabase
           .from('targets')
           .select(`
@@ -247,16 +348,16 @@ serve(async (req) => {
           .eq('active', true);
 
         // Apply filters
-        for (const filter of queryConfig.filters) {
+        for (const filter of dbFilters) {
           query = applyFilter(query, filter, 'targets');
         }
 
         // Apply sorting
-        for (const sort of queryConfig.sorting) {
+        for (const sort of dbSorting) {
           query = query.order(sort.field, { ascending: sort.direction === 'asc' });
         }
 
-        const { data: targetsData, error: targetsError } = await query;
+        const { data: targetsData, error: targetsError } = await fetchAllRows(query);
         if (targetsError) throw targetsError;
 
         // Calculate current progress for each target
@@ -317,34 +418,93 @@ serve(async (req) => {
 
         data = enrichedTargets;
         break;
+      }
 
       case 'contacts':
       case 'companies':
       case 'sites':
-      case 'customers':
+      case 'customers': {
         // Handle existing data sources
         query = supabase
           .from(dataSource)
-          .select('*')
+          .select(`*${relatedSelect}`)
           .eq('tenant_id', tenantId);
+        query = scopeRelationsToTenant(query, related, tenantId);
+        query = applyRowScope(query, dataSource, related, scopeUserIds);
 
-        for (const filter of queryConfig.filters) {
+        for (const filter of dbFilters) {
           query = applyFilter(query, filter, dataSource);
         }
 
-        for (const sort of queryConfig.sorting) {
+        for (const sort of dbSorting) {
           query = query.order(sort.field, { ascending: sort.direction === 'asc' });
         }
 
-        const { data: genericData, error: genericError } = await query;
+        const { data: genericData, error: genericError } = await fetchAllRows<Record<string, unknown>>(query);
         if (genericError) throw genericError;
-        data = genericData || [];
+        data = joinRelatedRows(genericData || [], genericData || [], related);
         break;
+      }
 
       default:
         throw new Error(`Unsupported data source: ${dataSource}`);
     }
 
+    if (relatedFilters.length > 0) {
+      data = data.filter(row => relatedFilters.every(filter => matchesCondition(row, filter)));
+    }
+    if (sortsRelated && !aggregated) {
+      data = sortAggregatedRows(data, queryConfig.sorting);
+    }
+
+    // The records behind one bar or slice of the chart, limited to the current period of a comparison
+    if (drill) {
+      const periodRows = comparison
+        ? data.filter(row => inRange(row[comparison.field], comparisonRanges(comparison).current))
+        : data
+      const rows = drillDownRows(periodRows, drill.group, queryConfig.date_buckets)
+      const fields = drillDownFields(rows, queryConfig.fields || [], drill.group)
+      const records = sortAggregatedRows(rows, queryConfig.sorting || []).map(row => Object.fromEntries(fields.map(field => [field, row[field] ?? null])))
+
+      console.log(`Drilled down to ${records.length} of ${data.length} rows`);
+
+      return new Response(
+        JSON.stringify({ data: limit ? records.slice(0, limit) : records, count: records.length, fields }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
+    if (aggregated) {
+      const spec = {
+        grouping: queryConfig.grouping || [],
+        date_buckets: queryConfig.date_buckets,
+        aggregations: queryConfig.aggregations,
+        calculated_fields: queryConfig.calculated_fields,
+      }
+      const result = comparison ? comparePeriods(data, spec, comparison) : aggregateRows(data, spec)
+      const rows = sortAggregatedRows(result.rows, queryConfig.sorting || [])
+
+      console.log(`Aggregated ${data.length} rows into ${rows.length} groups`);
+
+      return new Response(
+        JSON.stringify({
+          data: limit ? rows.slice(0, limit) : rows,
+          count: rows.length,
+          columns: result.columns,
+          totals: result.totals,
+          aggregated: true,
+          periods: 'periods' in result ? result.periods : undefined,
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      )
+    }
+
     // Filter fields if specified
     if (queryConfig.fields.length > 0) {
       data = data.map((row: any) => {
@@ -361,7 +521,7 @@ serve(async (req) => {
     console.log(`Generated report data: ${data.length} rows`);
 
     return new Response(
-      JSON.stringify({ data, count: data.length }),
+      JSON.stringify({ data: limit ? data.slice(0, limit) : data, count: data.length }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         status: 200,
@@ -379,6 +539,21 @@ serve(async (req) => {
   }
 })
 
+/**
+ * Every row of a query, a page at a time, so that groupings, totals and comparisons see the whole source rather than
+ * the first max_rows. Rows are ordered by id after any requested sorting to keep the pages from overlapping.
+ */
+async function fetchAllRows<T = unknown>(query: PagedQuery<T>): Promise<{ data: T[]; error: unknown }> {
+  const ordered = query.order('id')
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await ordered.range(from, from + PAGE_SIZE - 1)
+    if (error) return { data: rows, error }
+    rows.push(...(data || []))
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null }
+  }
+}
+
 function applyFilter(query: any, filter: FilterCondition, tableName: string) {
   const { field, operator, value } = filter;
   
@@ -401,14 +576,23 @@ function applyFilter(query: any, filter: FilterCondition, tableName: string) {
       return query.is(field, null);
     case 'is_not_null':
       return query.not(field, 'is', null);
-    case 'in_last_days':
+    case 'in_last_days': {
       const daysAgo = new Date();
       daysAgo.setDate(daysAgo.getDate() - parseInt(value));
       return query.gte(field, daysAgo.toISOString());
+    }
     case 'before_date':
       return query.lt(field, value);
     case 'after_date':
       return query.gt(field, value);
+    case 'in':
+      return query.in(field, value.split(',').map(item => item.trim()).filter(Boolean));
+    case 'between': {
+      const range = rangeBounds(value);
+      if (range.from !== null) query = query.gte(field, range.from);
+      if (range.to !== null) query = range.toExclusive ? query.lt(field, range.to) : query.lte(field, range.to);
+      return query;
+    }
     default:
       return query;
   }
@@ -0,0 +1,113 @@
+// Report parameters.
+//
+// Filter values and aggregate conditions can reference a parameter of the report as {name}. Values are supplied when
+// the report runs, from the report runner's prompt or a dashboard widget, and fall back to the parameter's default.
+// A filter whose optional parameter has no value is dropped, so leaving a prompt empty means "all".
+//
+// Date ranges are passed as "from..to" for the between operator. Branch parameters hold a branch id and match the
+// records assigned to the users of that branch, so they are used with "equals" on an assigned user field.
+//
+// Keep in line with src/lib/report-parameters.ts.
+
+import { AggregationConfig, RowCondition } from './aggregation.ts'
+
+export type ParameterType = 'text' | 'number' | 'date' | 'date_range' | 'user' | 'branch';
+
+export interface ReportParameter {
+  name: string;
+  label: string;
+  type: ParameterType;
+  required?: boolean;
+  default_value?: string;
+}
+
+export type ParameterValues = Record<string, string | null | undefined>;
+
+export interface ParameterLookups {
+  /** Users assigned to a branch */
+  branchMembers(branchId: string): Promise<string[]>;
+}
+
+interface ParameterizedConfig {
+  filters?: RowCondition[];
+  aggregations?: AggregationConfig[];
+  parameters?: ReportParameter[];
+}
+
+export class ParameterError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ParameterError'
+  }
+}
+
+const TOKEN = /\{([a-z][a-z0-9_]*)\}/gi
+const WHOLE_TOKEN = /^\{([a-z][a-z0-9_]*)\}$/i
+const ANY_TOKEN = /\{[a-z][a-z0-9_]*\}/i
+
+export const hasParameterTokens = (value: unknown) => typeof value === 'string' && ANY_TOKEN.test(value)
+
+/**
+ * The query config with every {name} token replaced by its value. Throws a ParameterError when a required parameter
+ * has no value or a token names an unknown parameter.
+ */
+export async function resolveParameters<T extends ParameterizedConfig>(
+  config: T,
+  values: ParameterValues = {},
+  lookups: ParameterLookups
+): Promise<T> {
+  const definitions = new Map((config.parameters || []).map(parameter => [parameter.name, parameter]))
+  const hasTokens = (config.filters || []).some(filter => hasParameterTokens(filter.value)) ||
+    (config.aggregations || []).some(aggregation => hasParameterTokens(aggregation.where?.value))
+  if (!hasTokens) return config
+
+  const valueOf = (name: string) => {
+    const parameter = definitions.get(name)
+    if (!parameter) throw new ParameterError(`Unknown parameter {${name}}`)
+    const value = String(values[name] ?? parameter.default_value ?? '').trim()
+    if (!value && parameter.required) throw new ParameterError(`${parameter.label || name} is required`)
+    return { parameter, value }
+  }
+
+  // null when an optional parameter the condition depends on is empty
+  const resolveCondition = async (condition: RowCondition): Promise<RowCondition | null> => {
+    if (!hasParameterTokens(condition.value)) return condition
+
+    const whole = WHOLE_TOKEN.exec(condition.value)
+    if (whole && definitions.get(whole[1])?.type === 'branch') {
+      const { parameter, value } = valueOf(whole[1])
+      if (!value) return null
+      if (condition.operator !== 'equals') {
+        throw new ParameterError(`${parameter.label || parameter.name} can only be used with "Equals" on an assigned user field`)
+      }
+      return { ...condition, operator: 'in', value: (await lookups.branchMembers(value)).join(',') }
+    }
+
+    let empty = false
+    const value = condition.value.replace(TOKEN, (_, name: string) => {
+      const resolved = valueOf(name).value
+      if (!resolved) empty = true
+      return resolved
+    })
+    return empty ? null : { ...condition, value }
+  }
+
+  const filters: RowCondition[] = []
+  for (const filter of config.filters || []) {
+    const resolved = await resolveCondition(filter)
+    if (resolved) filters.push(resolved)
+  }
+
+  // An aggregate whose condition is left empty covers every row
+  const aggregations: AggregationConfig[] = []
+  for (const aggregation of config.aggregations || []) {
+    if (!aggregation.where) {
+      aggregations.push(aggregation)
+      continue
+    }
+    const where = await resolveCondition(aggregation.where)
+    aggregations.push(where ? { ...aggregation, where } : { ...aggregation, where: undefined })
+  }
+
+  return { ...config, filters, aggregations: config.aggregations ? aggregations : undefined }
+}
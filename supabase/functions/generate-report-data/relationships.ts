@@ -0,0 +1,408 @@
+// Cross-entity joins for custom reports.
+//
+// Each data source declares the entities it can be joined to. Related fields are requested as
+// `<relation>__<field>`, e.g. `deal__source_name` on contracts, and are fetched as PostgREST embeds through
+// the caller's client, so the related tables stay under their RLS policies. Every embed is additionally
+// restricted to the report's tenant. The relation and field names must stay in line with
+// src/lib/report-relationships.ts.
+
+export const RELATED_FIELD_SEPARATOR = '__'
+
+export interface RelatedField {
+  name: string;
+  label: string;
+  /** Column path inside the embedded record, e.g. 'deal_sources.name'; several paths are joined with a space */
+  path: string | string[];
+}
+
+export interface EntityRelation {
+  name: string;
+  label: string;
+  /** PostgREST embed, with an FK hint where the tables are linked more than once */
+  embed: string;
+  /** 'many' relations produce one report row per related record */
+  cardinality: 'one' | 'many';
+  /** Path to the tenant-owned record for relations through a junction table without a tenant_id */
+  scope?: string;
+  fields: RelatedField[];
+}
+
+export const ENTITY_RELATIONS: Record<string, EntityRelation[]> = {
+  contracts: [
+    {
+      name: 'deal',
+      label: 'Deal',
+      embed: 'deals!fk_contracts_deal_id',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'value', label: 'Value', path: 'value' },
+        { name: 'status', label: 'Status', path: 'status' },
+        { name: 'source_name', label: 'Source', path: 'deal_sources.name' },
+        { name: 'stage_name', label: 'Stage', path: 'deal_stages.name' },
+        { name: 'expected_close_date', label: 'Expected Close Date', path: 'expected_close_date' },
+        { name: 'created_at', label: 'Created Date', path: 'created_at' },
+      ],
+    },
+    {
+      name: 'company',
+      label: 'Company',
+      embed: 'companies!contracts_company_id_fkey',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'industry', label: 'Industry', path: 'industry' },
+        { name: 'size', label: 'Size', path: 'size' },
+        { name: 'country_code', label: 'Country', path: 'country_code' },
+      ],
+    },
+    {
+      name: 'payment_terms',
+      label: 'Payment Terms',
+      embed: 'contract_payment_terms!fk_contract_payment_terms_contract',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'installment_number', label: 'Installment #', path: 'installment_number' },
+        { name: 'due_date', label: 'Due Date', path: 'due_date' },
+        { name: 'calculated_amount', label: 'Amount', path: 'calculated_amount' },
+        { name: 'payment_status', label: 'Payment Status', path: 'payment_status' },
+        { name: 'received_amount', label: 'Received Amount', path: 'received_amount' },
+        { name: 'received_date', label: 'Received Date', path: 'received_date' },
+      ],
+    },
+  ],
+  contract_payments: [
+    {
+      name: 'contract',
+      label: 'Contract',
+      embed: 'contracts!fk_contract_payment_terms_contract',
+      cardinality: 'one',
+      fields: [
+        { name: 'status', label: 'Status', path: 'status' },
+        { name: 'value', label: 'Value', path: 'value' },
+        { name: 'signed_date', label: 'Signed Date', path: 'signed_date' },
+        { name: 'start_date', label: 'Start Date', path: 'start_date' },
+        { name: 'end_date', label: 'End Date', path: 'end_date' },
+        { name: 'deal_name', label: 'Deal', path: 'deals!fk_contracts_deal_id.name' },
+        { name: 'deal_source_name', label: 'Deal Source', path: 'deals!fk_contracts_deal_id.deal_sources.name' },
+      ],
+    },
+  ],
+  deals: [
+    {
+      name: 'source',
+      label: 'Source',
+      embed: 'deal_sources',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+      ],
+    },
+    {
+      name: 'company',
+      label: 'Primary Company',
+      embed: 'companies!deals_company_id_fkey',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'industry', label: 'Industry', path: 'industry' },
+        { name: 'size', label: 'Size', path: 'size' },
+        { name: 'country_code', label: 'Country', path: 'country_code' },
+      ],
+    },
+    {
+      name: 'companies',
+      label: 'Linked Companies',
+      embed: 'deal_companies',
+      cardinality: 'many',
+      scope: 'companies',
+      fields: [
+        { name: 'name', label: 'Name', path: 'companies.name' },
+        { name: 'industry', label: 'Industry', path: 'companies.industry' },
+        { name: 'relationship_type', label: 'Relationship', path: 'relationship_type' },
+      ],
+    },
+    {
+      name: 'contacts',
+      label: 'Linked Contacts',
+      embed: 'deal_contacts',
+      cardinality: 'many',
+      scope: 'contacts',
+      fields: [
+        { name: 'name', label: 'Name', path: ['contacts.first_name', 'contacts.last_name'] },
+        { name: 'email', label: 'Email', path: 'contacts.email' },
+        { name: 'position', label: 'Position', path: 'contacts.position' },
+        { name: 'role', label: 'Role', path: 'role' },
+      ],
+    },
+    {
+      name: 'contract',
+      label: 'Contract',
+      embed: 'contracts!fk_deals_converted_contract',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'status', label: 'Status', path: 'status' },
+        { name: 'value', label: 'Value', path: 'value' },
+        { name: 'signed_date', label: 'Signed Date', path: 'signed_date' },
+      ],
+    },
+  ],
+  companies: [
+    {
+      name: 'deals',
+      label: 'Deals',
+      embed: 'deal_companies',
+      cardinality: 'many',
+      scope: 'deals',
+      fields: [
+        { name: 'name', label: 'Name', path: 'deals.name' },
+        { name: 'value', label: 'Value', path: 'deals.value' },
+        { name: 'status', label: 'Status', path: 'deals.status' },
+        { name: 'expected_close_date', label: 'Expected Close Date', path: 'deals.expected_close_date' },
+        { name: 'relationship_type', label: 'Relationship', path: 'relationship_type' },
+      ],
+    },
+  ],
+  contacts: [
+    {
+      name: 'customer',
+      label: 'Customer',
+      embed: 'customers',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'type', label: 'Type', path: 'type' },
+        { name: 'country', label: 'Country', path: 'country' },
+      ],
+    },
+    {
+      name: 'deals',
+      label: 'Deals',
+      embed: 'deal_contacts',
+      cardinality: 'many',
+      scope: 'deals',
+      fields: [
+        { name: 'name', label: 'Name', path: 'deals.name' },
+        { name: 'value', label: 'Value', path: 'deals.value' },
+        { name: 'status', label: 'Status', path: 'deals.status' },
+        { name: 'role', label: 'Role', path: 'role' },
+      ],
+    },
+  ],
+  sites: [
+    {
+      name: 'customer',
+      label: 'Customer',
+      embed: 'customers!sites_customer_id_fkey',
+      cardinality: 'one',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'type', label: 'Type', path: 'type' },
+      ],
+    },
+  ],
+  customers: [
+    {
+      name: 'contracts',
+      label: 'Contracts',
+      embed: 'contracts!fk_contracts_customer_id',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'status', label: 'Status', path: 'status' },
+        { name: 'value', label: 'Value', path: 'value' },
+        { name: 'signed_date', label: 'Signed Date', path: 'signed_date' },
+      ],
+    },
+    {
+      name: 'deals',
+      label: 'Deals',
+      embed: 'deals!deals_customer_id_fkey',
+      cardinality: 'many',
+      fields: [
+        { name: 'name', label: 'Name', path: 'name' },
+        { name: 'value', label: 'Value', path: 'value' },
+        { name: 'status', label: 'Status', path: 'status' },
+      ],
+    },
+  ],
+}
+
+/** Relations with the fields a report asks for */
+export type RequestedRelations = Array<{ relation: EntityRelation; fields: RelatedField[] }>
+
+interface RelatedFieldQuery {
+  fields?: string[];
+  filters?: Array<{ field: string }>;
+  sorting?: Array<{ field: string }>;
+  grouping?: string[];
+  comparison_fields?: string[];
+  aggregations?: Array<{ field: string; where?: { field: string } }>;
+  period_comparison?: { field: string };
+}
+
+export const isRelatedField = (field: string) => field.includes(RELATED_FIELD_SEPARATOR)
+
+// Embedded records are returned under an alias so they never collide with the data source's own embeds
+const embedAlias = (relation: EntityRelation) => `related_${relation.name}`
+
+/** Resolves every related field referenced anywhere in the query config */
+export function requestedRelations(dataSource: string, config: RelatedFieldQuery): RequestedRelations {
+  const referenced = new Set<string>([
+    ...(config.fields || []),
+    ...(config.grouping || []),
+    ...(config.comparison_fields || []),
+    ...(config.filters || []).map(filter => filter.field),
+    ...(config.sorting || []).map(sort => sort.field),
+    ...(config.aggregations || []).flatMap(a => [a.field, a.where?.field || '']),
+    config.period_comparison?.field || '',
+  ])
+
+  const requested: RequestedRelations = []
+  for (const key of referenced) {
+    if (!key || !isRelatedField(key)) continue
+
+    const [relationName, fieldName] = key.split(RELATED_FIELD_SEPARATOR)
+    const relation = (ENTITY_RELATIONS[dataSource] || []).find(r => r.name === relationName)
+    const field = relation?.fields.find(f => f.name === fieldName)
+    if (!relation || !field) {
+      throw new Error(`Unknown related field for ${dataSource}: ${key}`)
+    }
+
+    const entry = requested.find(r => r.relation === relation)
+    if (entry) {
+      entry.fields.push(field)
+    } else {
+      requested.push({ relation, fields: [field] })
+    }
+  }
+  return requested
+}
+
+type SelectTree = Map<string, SelectTree>
+
+function addPath(tree: SelectTree, path: string) {
+  let node = tree
+  for (const segment of path.split('.')) {
+    if (!node.has(segment)) node.set(segment, new Map())
+    node = node.get(segment)!
+  }
+}
+
+function renderTree(tree: SelectTree): string {
+  return [...tree.entries()]
+    .map(([segment, children]) => (children.size > 0 ? `${segment}(${renderTree(children)})` : segment))
+    .join(', ')
+}
+
+/** Embedded selects to append to the data source's select, e.g. `related_deal:deals!fk_contracts_deal_id(name)` */
+export function relationSelect(requested: RequestedRelations): string {
+  return requested
+    .map(({ relation, fields }) => {
+      const tree: SelectTree = new Map()
+      addPath(tree, relation.scope ? `${relation.scope}.id` : 'id')
+      for (const field of fields) {
+        for (const path of Array.isArray(field.path) ? field.path : [field.path]) addPath(tree, path)
+      }
+      return `${embedAlias(relation)}:${relation.embed}(${renderTree(tree)})`
+    })
+    .map(select => `, ${select}`)
+    .join('')
+}
+
+/** Limits every embedded record to the report's tenant; RLS still applies on top */
+export function scopeRelationsToTenant<Q extends { eq: (column: string, value: string) => Q }>(
+  query: Q,
+  requested: RequestedRelations,
+  tenantId: string
+): Q {
+  let scoped = query
+  for (const { relation } of requested) {
+    const path = relation.scope ? `${embedAlias(relation)}.${relation.scope}` : embedAlias(relation)
+    scoped = scoped.eq(`${path}.tenant_id`, tenantId)
+  }
+  return scoped
+}
+
+/**
+ * Limits embedded records of owner-scoped tables (e.g. deals) to the records of the given owners. To-one embeds
+ * outside the scope come back empty and junction rows lose their target, so the report row itself is kept.
+ */
+export function scopeRelationsToOwners<Q extends { in: (column: string, values: string[]) => Q }>(
+  query: Q,
+  requested: RequestedRelations,
+  ownerFields: Record<string, string>,
+  userIds: string[] | null
+): Q {
+  if (userIds === null) return query
+  let scoped = query
+  for (const { relation } of requested) {
+    const table = relation.scope ?? relation.embed.split('!')[0]
+    if (!ownerFields[table]) continue
+    const path = relation.scope ? `${embedAlias(relation)}.${relation.scope}` : embedAlias(relation)
+    scoped = scoped.in(`${path}.${ownerFields[table]}`, userIds)
+  }
+  return scoped
+}
+
+type EmbeddedRecord = Record<string, unknown> | null | undefined
+
+function valueAt(record: unknown, path: string): unknown {
+  let value = record
+  for (const segment of path.split('.')) {
+    if (Array.isArray(value)) value = value[0]
+    value = (value as EmbeddedRecord)?.[segment.split('!')[0]]
+  }
+  return Array.isArray(value) ? value[0] ?? null : value ?? null
+}
+
+function relatedValues(relation: EntityRelation, fields: RelatedField[], record: unknown): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const field of fields) {
+    const key = `${relation.name}${RELATED_FIELD_SEPARATOR}${field.name}`
+    values[key] = Array.isArray(field.path)
+      ? field.path.map(path => valueAt(record, path)).filter(Boolean).join(' ') || null
+      : valueAt(record, field.path)
+  }
+  return values
+}
+
+function relatedRecords(relation: EntityRelation, raw: unknown): unknown[] {
+  const embedded = (raw as EmbeddedRecord)?.[embedAlias(relation)]
+  const records = Array.isArray(embedded) ? embedded : embedded ? [embedded] : []
+  // Junction rows whose target was filtered out by the tenant scope or RLS come back with a null target
+  return relation.scope ? records.filter(record => valueAt(record, `${relation.scope}.id`) !== null) : records
+}
+
+/**
+ * Adds the related fields to the flattened rows. `rawRows` are the query results the rows were built from, in the
+ * same order. To-one relations add columns; to-many relations repeat the row once per related record, keeping rows
+ * without related records (a left join).
+ */
+export function joinRelatedRows(
+  rows: Record<string, unknown>[],
+  rawRows: unknown[],
+  requested: RequestedRelations
+): Record<string, unknown>[] {
+  if (requested.length === 0) return rows
+
+  return rows.flatMap((base, index) => {
+    const raw = rawRows[index]
+    const row = { ...base }
+    for (const { relation } of requested) delete row[embedAlias(relation)]
+
+    let joined = [row]
+    for (const { relation, fields } of requested) {
+      const records = relatedRecords(relation, raw)
+      if (relation.cardinality === 'one' || records.length === 0) {
+        const values = relatedValues(relation, fields, records[0] ?? null)
+        joined = joined.map(r => ({ ...r, ...values }))
+      } else {
+        joined = joined.flatMap(r => records.map(record => ({ ...r, ...relatedValues(relation, fields, record) })))
+      }
+    }
+    return joined
+  })
+}
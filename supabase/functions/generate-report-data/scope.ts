@@ -0,0 +1,58 @@
+// Row-level visibility for report data.
+//
+// Whoever opens a report, it only shows the deal records they may see elsewhere in the app: their own, their
+// department's or branch's, those of selected users, or all of them. The scope comes from get_report_scope_user_ids,
+// which follows the custom role's visibility, get_user_assignment_scope and user_visibility_permissions. Contracts and
+// their payment terms follow the visibility of deals, as they are created from won deals. Records without an owner
+// (contacts, companies, sites, customers) are visible tenant-wide, as in the rest of the app.
+//
+// Scheduled deliveries pass each recipient's user id, so every recipient gets the report under their own scope.
+
+import { RequestedRelations, scopeRelationsToOwners } from './relationships.ts'
+
+const SCOPE_ENTITY_TYPE = 'deals'
+
+/** Owner column of the owner-scoped tables */
+export const SCOPED_TABLES: Record<string, string> = {
+  deals: 'assigned_to',
+  contracts: 'assigned_to',
+}
+
+/** Owner column of each scoped data source's rows, through the contract for payment terms */
+const SOURCE_OWNER_FIELDS: Record<string, string> = {
+  deals: 'assigned_to',
+  contracts: 'assigned_to',
+  contract_payments: 'contracts.assigned_to',
+}
+
+export const needsRowScope = (dataSource: string, requested: RequestedRelations) =>
+  dataSource in SOURCE_OWNER_FIELDS ||
+  requested.some(({ relation }) => (relation.scope ?? relation.embed.split('!')[0]) in SCOPED_TABLES)
+
+/** Owners whose records the user may see, or null when they see every record */
+export async function loadRowScope(
+  supabase: { rpc: (fn: string, args: Record<string, unknown>) => PromiseLike<{ data: unknown; error: unknown }> },
+  userId: string,
+  tenantId: string
+): Promise<string[] | null> {
+  const { data, error } = await supabase.rpc('get_report_scope_user_ids', {
+    _user_id: userId,
+    _tenant_id: tenantId,
+    _entity_type: SCOPE_ENTITY_TYPE,
+  })
+  if (error) throw error
+  return (data as string[] | null) ?? null
+}
+
+/** Applies the scope to the data source's own rows and to the owner-scoped entities joined into them */
+export function applyRowScope<Q extends { in: (column: string, values: string[]) => Q }>(
+  query: Q,
+  dataSource: string,
+  requested: RequestedRelations,
+  userIds: string[] | null
+): Q {
+  if (userIds === null) return query
+  const ownerField = SOURCE_OWNER_FIELDS[dataSource]
+  const scoped = ownerField ? query.in(ownerField, userIds) : query
+  return scopeRelationsToOwners(scoped, requested, SCOPED_TABLES, userIds)
+}
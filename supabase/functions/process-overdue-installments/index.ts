@@ -0,0 +1,307 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Used for tenants that have not saved collection settings
+const DEFAULT_SETTINGS = {
+  enabled: true,
+  follow_up_after_days: 1,
+  escalate_after_days: 14,
+  escalation_role_id: null as string | null,
+};
+
+type CollectionSettings = typeof DEFAULT_SETTINGS;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// PostgREST returns at most max_rows per request
+const PAGE_SIZE = 1000;
+
+const CLOSED_CONTRACT_STATUSES = ['cancelled', 'terminated'];
+
+const TERM_COLUMNS = `
+  id,
+  tenant_id,
+  contract_id,
+  installment_number,
+  name,
+  due_date,
+  amount_type,
+  amount_value,
+  calculated_amount,
+  received_amount,
+  payment_status,
+  contracts!inner(name, status, assigned_to, value)
+`;
+
+interface OverdueTerm {
+  id: string;
+  tenant_id: string;
+  contract_id: string;
+  installment_number: number;
+  name: string | null;
+  due_date: string;
+  amount_type: string;
+  amount_value: number;
+  calculated_amount: number | null;
+  received_amount: number | null;
+  payment_status: string | null;
+  contracts: { name: string; status: string | null; assigned_to: string | null; value: number | null };
+}
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+// Same as installmentAmount in src/lib/cash-flow-forecast.ts: a percentage term is a share of the contract value
+const installmentAmount = (term: OverdueTerm) => {
+  if (term.calculated_amount !== null && term.calculated_amount !== undefined) return Number(term.calculated_amount);
+  return term.amount_type === 'percentage'
+    ? (Number(term.contracts.value || 0) * Number(term.amount_value)) / 100
+    : Number(term.amount_value);
+};
+
+const isOverdue = (term: OverdueTerm, today: string) =>
+  !!term.due_date &&
+  term.due_date < today &&
+  term.payment_status !== 'paid' &&
+  !CLOSED_CONTRACT_STATUSES.includes(term.contracts.status || '') &&
+  Number(term.received_amount || 0) < installmentAmount(term);
+
+/** Every row of a query, fetched a page at a time */
+async function fetchAll<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+Deno.serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const today = new Date().toISOString().split('T')[0];
+
+    console.log(`Processing overdue installments as of ${today}`);
+
+    const { data: settingsRows, error: settingsError } = await supabase
+      .from('collection_settings')
+      .select('tenant_id, enabled, follow_up_after_days, escalate_after_days, escalation_role_id');
+    if (settingsError) throw settingsError;
+
+    const settingsByTenant = new Map<string, CollectionSettings>(
+      (settingsRows || []).map((row) => [row.tenant_id, row])
+    );
+    const settingsFor = (tenantId: string) => settingsByTenant.get(tenantId) ?? DEFAULT_SETTINGS;
+
+    // Unpaid installments past their due date, on contracts still in force
+    const overdueTerms = await fetchAll<OverdueTerm>((from, to) =>
+      supabase
+        .from('contract_payment_terms')
+        .select(TERM_COLUMNS)
+        .lt('due_date', today)
+        .or('payment_status.is.null,payment_status.neq.paid')
+        .not('contracts.status', 'in', `(${CLOSED_CONTRACT_STATUSES.join(',')})`)
+        .order('id')
+        .range(from, to)
+    );
+
+    const outstanding = overdueTerms.filter((term) => isOverdue(term, today));
+
+    const openCollections = await fetchAll<{
+      id: string;
+      tenant_id: string;
+      payment_term_id: string;
+      follow_up_todo_id: string | null;
+      escalation_todo_id: string | null;
+      escalated_at: string | null;
+    }>((from, to) =>
+      supabase
+        .from('payment_collections')
+        .select('id, tenant_id, payment_term_id, follow_up_todo_id, escalation_todo_id, escalated_at')
+        .is('resolved_at', null)
+        .order('id')
+        .range(from, to)
+    );
+
+    const collectionByTerm = new Map(openCollections.map((collection) => [collection.payment_term_id, collection]));
+
+    const results = {
+      overdue: outstanding.length,
+      followUps: 0,
+      escalations: 0,
+      resolved: 0,
+      errors: [] as string[],
+    };
+
+    const escalationManager = async (tenantId: string, userId: string | null, settings: CollectionSettings) => {
+      const { data, error } = await supabase.rpc('get_escalation_manager', {
+        _tenant_id: tenantId,
+        _user_id: userId,
+        _role_id: settings.escalation_role_id,
+      });
+      if (error) throw error;
+      return (data as string | null) ?? null;
+    };
+
+    for (const term of outstanding) {
+      const settings = settingsFor(term.tenant_id);
+      if (!settings.enabled) continue;
+
+      const contract = term.contracts;
+      const daysOverdue = daysBetween(term.due_date, today);
+      const label = term.name || `Instalment ${term.installment_number}`;
+      const collection = collectionByTerm.get(term.id);
+
+      try {
+        if (!collection && daysOverdue >= settings.follow_up_after_days) {
+          const assignee = contract.assigned_to ?? (await escalationManager(term.tenant_id, null, settings));
+          if (!assignee) {
+            results.errors.push(`Installment ${term.id}: nobody to follow up`);
+            continue;
+          }
+
+          // The collection and its follow-up todo are created together, and not at all if one is already open
+          const { data: collectionId, error: openError } = await supabase.rpc('open_payment_collection', {
+            _payment_term_id: term.id,
+            _assigned_to: assignee,
+            _title: `Collect overdue payment: ${label} – ${contract.name}`,
+            _description: `${label} of contract "${contract.name}" was due on ${term.due_date} and is not fully paid.`,
+            _due_date: today,
+          });
+          if (openError) throw openError;
+          if (!collectionId) continue;
+
+          results.followUps++;
+          console.log(`Created follow-up for ${label} of ${contract.name}`);
+          continue;
+        }
+
+        if (collection && !collection.escalated_at && daysOverdue >= settings.escalate_after_days) {
+          const manager = await escalationManager(term.tenant_id, contract.assigned_to, settings);
+          if (!manager) {
+            results.errors.push(`Installment ${term.id}: no manager to escalate to`);
+            continue;
+          }
+
+          const { data: todo, error: todoError } = await supabase
+            .from('todos')
+            .insert({
+              tenant_id: term.tenant_id,
+              title: `Escalated: ${label} – ${contract.name} is ${daysOverdue} days overdue`,
+              description: `${label} of contract "${contract.name}" was due on ${term.due_date} and is still not fully paid.`,
+              entity_type: 'contract',
+              entity_id: term.contract_id,
+              payment_term_id: term.id,
+              assigned_to: manager,
+              created_by: contract.assigned_to ?? manager,
+              priority: 'urgent',
+              status: 'pending',
+              due_date: today,
+            })
+            .select('id')
+            .single();
+          if (todoError) throw todoError;
+
+          const { error: updateError } = await supabase
+            .from('payment_collections')
+            .update({ escalation_todo_id: todo.id, escalated_to: manager, escalated_at: new Date().toISOString() })
+            .eq('id', collection.id);
+          if (updateError) throw updateError;
+
+          await supabase.from('notifications').insert({
+            tenant_id: term.tenant_id,
+            user_id: manager,
+            title: 'Overdue Payment Escalated',
+            message: `${label} of contract "${contract.name}" is ${daysOverdue} days overdue.`,
+            notification_type: 'payment_overdue',
+            entity_type: 'contract',
+            entity_id: term.contract_id,
+          });
+
+          results.escalations++;
+          console.log(`Escalated ${label} of ${contract.name} to ${manager}`);
+        }
+      } catch (error) {
+        console.error(`Error processing installment ${term.id}:`, error);
+        results.errors.push(`Installment ${term.id}: ${error.message}`);
+      }
+    }
+
+    // Collections whose installment was paid (or rescheduled) are closed along with their open todos
+    const overdueIds = new Set(outstanding.map((term) => term.id));
+    for (const collection of openCollections) {
+      if (overdueIds.has(collection.payment_term_id)) continue;
+
+      try {
+        // Only close a collection on its own installment's current state, never just because it was not listed
+        const { data: term, error: termError } = await supabase
+          .from('contract_payment_terms')
+          .select(TERM_COLUMNS)
+          .eq('id', collection.payment_term_id)
+          .maybeSingle();
+        if (termError) throw termError;
+        if (term && isOverdue(term as unknown as OverdueTerm, today)) continue;
+
+        const todoIds = [collection.follow_up_todo_id, collection.escalation_todo_id].filter(Boolean);
+        if (todoIds.length > 0) {
+          await supabase
+            .from('todos')
+            .update({ status: 'completed', completed_at: new Date().toISOString() })
+            .in('id', todoIds)
+            .neq('status', 'completed');
+        }
+
+        const { error: resolveError } = await supabase
+          .from('payment_collections')
+          .update({ resolved_at: new Date().toISOString() })
+          .eq('id', collection.id);
+        if (resolveError) throw resolveError;
+
+        results.resolved++;
+      } catch (error) {
+        console.error(`Error resolving collection ${collection.id}:`, error);
+        results.errors.push(`Collection ${collection.id}: ${error.message}`);
+      }
+    }
+
+    console.log('Collections processed:', results);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `${results.overdue} overdue installments: ${results.followUps} follow-ups, ${results.escalations} escalations, ${results.resolved} resolved`,
+        results,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    );
+  } catch (error) {
+    console.error('Error in process-overdue-installments:', error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error.message,
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 500,
+      }
+    );
+  }
+});
@@ -1,23 +1,66 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
-import { Resend } from 'npm:resend@2.0.0';
+import {
+  BusinessCalendar,
+  ScheduleConfig,
+  ScheduleType,
+  describeSchedule,
+  nextRunTimes,
+  resolveScheduleTimezone,
+  workingHoursCalendar,
+} from './schedule.ts';
+import { EmailAttachment, EmailTransport, createEmailTransport } from './mailer.ts';
 
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-const resendApiKey = Deno.env.get('RESEND_API_KEY')!;
+const emailFrom = Deno.env.get('REPORTS_EMAIL_FROM') ?? 'Reports <noreply@reports.com>';
 
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
-const resend = new Resend(resendApiKey);
+
+// Created on first use so a missing mail setting fails the run rather than the function boot
+let emailTransport: EmailTransport | null = null;
+const getEmailTransport = () => (emailTransport ??= createEmailTransport());
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+// Missed runs are counted up to this many, e.g. after a long outage of a cron schedule that runs every minute
+const MAX_MISSED_RUNS = 1000;
+
+// With the 'skip' catch-up policy, runs that are this late are dropped
+const SKIP_GRACE_MS = 60 * 60 * 1000;
+
+const EXPORT_BUCKET = 'report-exports';
+const DOWNLOAD_LINK_SECONDS = 7 * 24 * 60 * 60;
+
+type AttachmentFormat = 'xlsx' | 'pdf';
+
+const DEFAULT_ATTACHMENTS: AttachmentFormat[] = ['xlsx', 'pdf'];
+
+const ATTACHMENT_LABELS: Record<AttachmentFormat, string> = {
+  xlsx: 'Excel workbook',
+  pdf: 'PDF document',
+};
+
+interface ScheduledReportConfig extends ScheduleConfig {
+  /** Files attached to each delivery */
+  attachments?: AttachmentFormat[];
+  /** Report parameter values the schedule runs with; parameters left out use their defaults */
+  parameters?: Record<string, string>;
+}
+
 interface ScheduledReport {
   id: string;
   name: string;
-  schedule_type: string;
+  schedule_type: ScheduleType;
+  schedule_config: ScheduledReportConfig | null;
+  next_run_at: string | null;
+  /** Next run per recipient time zone, by zone */
+  timezone_next_runs: Record<string, string> | null;
+  last_run_at: string | null;
+  created_at: string;
   email_recipients: string[];
   report_id: string;
   tenant_id: string;
@@ -25,11 +68,15 @@ interface ScheduledReport {
   reports: {
     name: string;
     data_source: string;
-    query_config: any;
-    visualization_type: string;
   };
 }
 
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
 const handler = async (req: Request): Promise<Response> => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -38,33 +85,57 @@ const handler = async (req: Request): Promise<Response> => {
   try {
     console.log('Running scheduled reports...');
 
+    // "Run now" from the scheduled reports page sends one schedule without moving its next run
+    const { reportId } = await req.json().catch(() => ({}));
+
+    // The function runs unauthenticated for cron, so a run now must come from a signed-in user
+    let requestingUserId: string | null = null;
+    if (reportId) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '') ?? '';
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+      requestingUserId = user.id;
+    }
+
     // Get all active scheduled reports that are due
-    const { data: scheduledReports, error: fetchError } = await supabase
+    let scheduleQuery = supabase
       .from('scheduled_reports')
       .select(`
         *,
         reports (
           name,
-          data_source,
-          query_config,
-          visualization_type
+          data_source
         )
       `)
-      .eq('is_active', true)
-      .or(`next_run_at.is.null,next_run_at.lte.${new Date().toISOString()}`);
+      .eq('is_active', true);
+
+    scheduleQuery = reportId
+      ? scheduleQuery.eq('id', reportId)
+      : scheduleQuery.or(`next_run_at.is.null,next_run_at.lte.${new Date().toISOString()}`);
+
+    const { data: scheduledReports, error: fetchError } = await scheduleQuery;
 
     if (fetchError) {
       console.error('Error fetching scheduled reports:', fetchError);
       throw fetchError;
     }
 
+    if (requestingUserId) {
+      const schedule = scheduledReports?.[0] as ScheduledReport | undefined;
+      if (!schedule || !(await canRunNow(requestingUserId, schedule))) {
+        return jsonResponse({ error: 'Scheduled report not found' }, 404);
+      }
+    }
+
     console.log(`Found ${scheduledReports?.length || 0} scheduled reports to process`);
 
     const results = [];
 
     for (const scheduledReport of scheduledReports || []) {
       try {
-        const result = await processScheduledReport(scheduledReport as any);
+        const result = await runSchedule(scheduledReport as ScheduledReport, !!reportId);
         results.push(result);
       } catch (error) {
         console.error(`Error processing scheduled report ${scheduledReport.id}:`, error);
@@ -99,159 +170,322 @@ const handler = async (req: Request): Promise<Response> => {
   }
 };
 
-async function processScheduledReport(scheduledReport: ScheduledReport) {
-  console.log(`Processing scheduled report: ${scheduledReport.name}`);
+/** Whether a user may run a schedule on demand: its owner, or an admin of its tenant */
+async function canRunNow(userId: string, scheduledReport: ScheduledReport): Promise<boolean> {
+  if (scheduledReport.user_id === userId) return true;
+
+  const { data, error } = await supabase
+    .from('user_tenant_memberships')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('tenant_id', scheduledReport.tenant_id)
+    .eq('active', true)
+    .in('role', ['admin', 'super_admin'])
+    .maybeSingle();
+
+  if (error) console.error(`Error checking access to schedule ${scheduledReport.id}:`, error);
+  return !!data;
+}
 
-  const report = scheduledReport.reports;
-  const queryConfig = report.query_config;
-
-  // Build and execute the query
-  let query = supabase.from(report.data_source).select(queryConfig.fields.join(', '));
-
-  // Apply filters
-  if (queryConfig.filters) {
-    queryConfig.filters.forEach((filter: any) => {
-      switch (filter.operator) {
-        case 'equals':
-          query = query.eq(filter.field, filter.value);
-          break;
-        case 'not_equals':
-          query = query.neq(filter.field, filter.value);
-          break;
-        case 'contains':
-          query = query.ilike(filter.field, `%${filter.value}%`);
-          break;
-        case 'greater_than':
-          query = query.gt(filter.field, filter.value);
-          break;
-        case 'less_than':
-          query = query.lt(filter.field, filter.value);
-          break;
-      }
-    });
-  }
+/** The owner's time zone and business days, from their working hours */
+async function loadOwnerCalendar(scheduledReport: ScheduledReport): Promise<{ timezone: string | null; calendar: BusinessCalendar }> {
+  const { data, error } = await supabase
+    .from('user_working_hours')
+    .select('timezone, working_days, custom_holidays')
+    .eq('user_id', scheduledReport.user_id)
+    .eq('tenant_id', scheduledReport.tenant_id)
+    .maybeSingle();
+
+  if (error) console.error(`Error loading working hours for schedule ${scheduledReport.id}:`, error);
+  return { timezone: data?.timezone ?? null, calendar: workingHoursCalendar(data) };
+}
 
-  // Apply sorting
-  if (queryConfig.sorting) {
-    queryConfig.sorting.forEach((sort: any) => {
-      query = query.order(sort.field, { ascending: sort.direction === 'asc' });
-    });
+async function runSchedule(scheduledReport: ScheduledReport, manual: boolean) {
+  const config = scheduledReport.schedule_config || {};
+  const owner = await loadOwnerCalendar(scheduledReport);
+  const recipients = await resolveRecipients(scheduledReport);
+  const now = new Date();
+  const nextRunAfter = (after: Date, timezone: string) =>
+    nextRunTimes(scheduledReport.schedule_type, config, { after, timezone, calendar: owner.calendar })[0] ?? null;
+
+  // Each time zone the recipients are in runs on its own; a schedule without recipients keeps the owner's
+  const timezones = recipients.length
+    ? [...new Set(recipients.map(recipient => recipient.timezone))]
+    : [resolveScheduleTimezone(config, owner.timezone)];
+
+  if (manual) {
+    const deliveries = new Map(timezones.map(timezone => [timezone, { timezone }]));
+    const result = await processScheduledReport(scheduledReport, recipients, deliveries);
+    await supabase
+      .from('scheduled_reports')
+      .update({ last_run_at: now.toISOString() })
+      .eq('id', scheduledReport.id);
+    return result;
   }
 
-  // Add tenant filter
-  query = query.eq('tenant_id', scheduledReport.tenant_id);
-
-  const { data, error } = await query;
-
-  if (error) {
-    throw new Error(`Query execution failed: ${error.message}`);
+  // New schedules wait for their first run instead of sending straight away
+  if (!scheduledReport.next_run_at) {
+    const nextRuns = collectNextRuns(timezones, timezone => nextRunAfter(now, timezone));
+    const nextRun = earliestRun(nextRuns);
+    await supabase
+      .from('scheduled_reports')
+      .update({ next_run_at: nextRun, timezone_next_runs: nextRuns })
+      .eq('id', scheduledReport.id);
+    return { id: scheduledReport.id, success: true, skipped: true, nextRunAt: nextRun };
   }
 
-  // Generate report content
-  const reportHTML = generateReportHTML(data || [], queryConfig.fields, report.name);
-
-  // Send emails to recipients
-  const emailResults = [];
-  for (const recipient of scheduledReport.email_recipients) {
-    try {
-      const emailResult = await resend.emails.send({
-        from: 'Reports <noreply@reports.com>',
-        to: [recipient],
-        subject: `Scheduled Report: ${scheduledReport.name}`,
-        html: generateEmailHTML(scheduledReport.name, report.name, data?.length || 0, reportHTML),
-      });
-      
-      emailResults.push({ recipient, success: true, id: emailResult.data?.id });
-      console.log(`Email sent to ${recipient}:`, emailResult.data?.id);
-    } catch (emailError) {
-      console.error(`Failed to send email to ${recipient}:`, emailError);
-      emailResults.push({ recipient, success: false, error: emailError.message });
+  // Time zones without a tracked run, e.g. a recipient who moved, start from the last delivery
+  const tracked = scheduledReport.timezone_next_runs || {};
+  const since = new Date(scheduledReport.last_run_at ?? scheduledReport.created_at);
+
+  const deliveries = new Map<string, DeliveryContext>();
+  let skippedRuns = 0;
+  const nextRuns = collectNextRuns(timezones, timezone => {
+    const dueAt = tracked[timezone] ? new Date(tracked[timezone]) : nextRunAfter(since, timezone);
+    if (!dueAt || dueAt > now) return dueAt;
+
+    // Runs that fell between the due run and now, e.g. while the scheduler was down
+    const missedRuns = nextRunTimes(scheduledReport.schedule_type, config, {
+      after: dueAt,
+      until: now,
+      count: MAX_MISSED_RUNS,
+      timezone,
+      calendar: owner.calendar,
+    }).length;
+
+    const late = now.getTime() - dueAt.getTime() > SKIP_GRACE_MS;
+    if (config.catch_up === 'skip' && late) {
+      console.log(`Skipping ${missedRuns + 1} missed run(s) of ${scheduledReport.name} in ${timezone}`);
+      skippedRuns += missedRuns + 1;
+    } else {
+      deliveries.set(timezone, { timezone, dueAt, missedRuns });
     }
-  }
+    return nextRunAfter(now, timezone);
+  });
+
+  const due = recipients.filter(recipient => deliveries.has(recipient.timezone));
+  const delivered = due.length > 0 || (recipients.length === 0 && deliveries.size > 0);
+  const result = delivered
+    ? await processScheduledReport(scheduledReport, due, deliveries)
+    : { id: scheduledReport.id, success: true, skipped: true, ...(skippedRuns ? { missedRuns: skippedRuns } : {}) };
 
-  // Update the scheduled report's next run time
-  const nextRunTime = calculateNextRunTime(scheduledReport.schedule_type);
+  const nextRun = earliestRun(nextRuns);
   await supabase
     .from('scheduled_reports')
     .update({
-      last_run_at: new Date().toISOString(),
-      next_run_at: nextRunTime,
+      ...(delivered ? { last_run_at: now.toISOString() } : {}),
+      next_run_at: nextRun,
+      timezone_next_runs: nextRuns,
     })
     .eq('id', scheduledReport.id);
 
-  return {
-    id: scheduledReport.id,
-    success: true,
-    recordCount: data?.length || 0,
-    emailResults,
-  };
+  return { ...result, nextRunAt: nextRun };
 }
 
-function calculateNextRunTime(scheduleType: string): string {
-  const now = new Date();
-  const nextRun = new Date(now);
-
-  switch (scheduleType) {
-    case 'daily':
-      nextRun.setDate(now.getDate() + 1);
-      break;
-    case 'weekly':
-      nextRun.setDate(now.getDate() + 7);
-      break;
-    case 'monthly':
-      nextRun.setMonth(now.getMonth() + 1);
-      break;
-    default:
-      nextRun.setDate(now.getDate() + 1); // Default to daily
+/** Next run per time zone, leaving out zones where the schedule never runs again */
+function collectNextRuns(timezones: string[], nextRun: (timezone: string) => Date | null): Record<string, string> {
+  const runs: Record<string, string> = {};
+  for (const timezone of timezones) {
+    const run = nextRun(timezone);
+    if (run) runs[timezone] = run.toISOString();
   }
+  return runs;
+}
+
+function earliestRun(nextRuns: Record<string, string>): string | null {
+  return Object.values(nextRuns).sort()[0] ?? null;
+}
+
+interface DeliveryContext {
+  timezone: string;
+  /** The scheduled run being delivered, for catch-up deliveries */
+  dueAt?: Date;
+  missedRuns?: number;
+}
 
-  return nextRun.toISOString();
+interface Recipient {
+  email: string;
+  /** The user whose visibility scope the recipient's copy is rendered under */
+  userId: string;
+  /** The time zone the recipient gets the schedule in */
+  timezone: string;
 }
 
-function generateReportHTML(data: any[], fields: string[], reportName: string): string {
-  const headers = fields.map(field => 
-    field.split('_').map(word => 
-      word.charAt(0).toUpperCase() + word.slice(1)
-    ).join(' ')
+interface GeneratedFile extends EmailAttachment {
+  format: AttachmentFormat;
+  rowCount: number;
+  downloadUrl: string | null;
+}
+
+/**
+ * Resolves who each recipient is: recipients who are users of the tenant see their own records and get the
+ * schedule in their working-hours time zone, other addresses get the schedule owner's view and time zone.
+ */
+async function resolveRecipients(scheduledReport: ScheduledReport): Promise<Recipient[]> {
+  const config = scheduledReport.schedule_config || {};
+  const recipients = scheduledReport.email_recipients;
+  const emails = [...new Set(recipients.flatMap(recipient => [recipient.trim(), recipient.trim().toLowerCase()]))];
+
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select('id, email')
+    .in('email', emails);
+  if (profilesError) throw profilesError;
+
+  const { data: members, error: membersError } = await supabase
+    .from('user_tenant_memberships')
+    .select('user_id')
+    .eq('tenant_id', scheduledReport.tenant_id)
+    .eq('active', true)
+    .in('user_id', (profiles || []).map(profile => profile.id));
+  if (membersError) throw membersError;
+
+  const memberIds = new Set((members || []).map(member => member.user_id));
+  const userByEmail = new Map(
+    (profiles || [])
+      .filter(profile => memberIds.has(profile.id))
+      .map(profile => [profile.email.toLowerCase(), profile.id])
   );
 
-  const formatValue = (value: any, field: string) => {
-    if (value === null || value === undefined) return '-';
-    
-    if (field.includes('date') || field.includes('created_at') || field.includes('updated_at')) {
-      return new Date(value).toLocaleDateString();
+  const resolved = recipients.map(recipient => ({
+    email: recipient,
+    userId: userByEmail.get(recipient.trim().toLowerCase()) ?? scheduledReport.user_id,
+  }));
+
+  const { data: workingHours, error: workingHoursError } = await supabase
+    .from('user_working_hours')
+    .select('user_id, timezone')
+    .eq('tenant_id', scheduledReport.tenant_id)
+    .in('user_id', [...new Set(resolved.map(recipient => recipient.userId))]);
+  if (workingHoursError) {
+    console.error(`Error loading recipient time zones for schedule ${scheduledReport.id}:`, workingHoursError);
+  }
+
+  const timezoneByUser = new Map((workingHours || []).map(hours => [hours.user_id, hours.timezone]));
+  return resolved.map(recipient => ({
+    ...recipient,
+    timezone: resolveScheduleTimezone(config, timezoneByUser.get(recipient.userId)),
+  }));
+}
+
+/** Generates one export file through export-report-pdf, which records it in report_exports */
+async function generateFile(scheduledReport: ScheduledReport, format: AttachmentFormat, userId: string): Promise<GeneratedFile> {
+  const { data, error } = await supabase.functions.invoke('export-report-pdf', {
+    body: {
+      reportId: scheduledReport.report_id,
+      format,
+      parameters: scheduledReport.schedule_config?.parameters,
+      scheduledReportId: scheduledReport.id,
+      // The rows follow this user's visibility scope
+      userId,
+    },
+  });
+  if (error) throw new Error(`${format.toUpperCase()} export failed: ${error.message}`);
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(EXPORT_BUCKET)
+    .download(data.export.file_path);
+  if (downloadError || !file) throw new Error(`Could not read ${data.fileName}: ${downloadError?.message}`);
+
+  // Links in the email outlive the attachment size limits of some mail servers
+  const { data: signed } = await supabase.storage
+    .from(EXPORT_BUCKET)
+    .createSignedUrl(data.export.file_path, DOWNLOAD_LINK_SECONDS, { download: data.fileName });
+
+  return {
+    format,
+    filename: data.fileName,
+    content: new Uint8Array(await file.arrayBuffer()),
+    contentType: file.type || 'application/octet-stream',
+    rowCount: data.export.row_count ?? 0,
+    downloadUrl: signed?.signedUrl ?? null,
+  };
+}
+
+/** Sends the report to the recipients, each with the delivery details of their time zone from `deliveries` */
+async function processScheduledReport(
+  scheduledReport: ScheduledReport,
+  recipients: Recipient[],
+  deliveries: Map<string, DeliveryContext>
+) {
+  console.log(`Processing scheduled report: ${scheduledReport.name}`);
+
+  const config = scheduledReport.schedule_config || {};
+  const formats = config.attachments?.length ? config.attachments : DEFAULT_ATTACHMENTS;
+
+  const transport = getEmailTransport();
+  const emailResults = [];
+  const files: GeneratedFile[] = [];
+  let recordCount = 0;
+
+  const scopes = new Map<string, Recipient[]>();
+  for (const recipient of recipients) {
+    scopes.set(recipient.userId, [...(scopes.get(recipient.userId) || []), recipient]);
+  }
+
+  // Each recipient gets the report rendered under their own visibility scope
+  for (const [userId, scopedRecipients] of scopes) {
+    const scopedFiles: GeneratedFile[] = [];
+    for (const format of formats) {
+      scopedFiles.push(await generateFile(scheduledReport, format, userId));
     }
-    
-    if (field === 'value' && typeof value === 'number') {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-      }).format(value);
+    const scopedCount = scopedFiles[0]?.rowCount ?? 0;
+    // The run summary describes the owner's copy when there is one
+    if (userId === scheduledReport.user_id || files.length === 0) {
+      files.splice(0, files.length, ...scopedFiles);
+      recordCount = scopedCount;
     }
-    
-    return String(value);
-  };
 
-  return `
-    <table style="width: 100%; border-collapse: collapse; font-family: Arial, sans-serif;">
-      <thead>
-        <tr style="background-color: #f5f5f5;">
-          ${headers.map(header => `<th style="border: 1px solid #ddd; padding: 8px; text-align: left;">${header}</th>`).join('')}
-        </tr>
-      </thead>
-      <tbody>
-        ${data.slice(0, 50).map((row, index) => 
-          `<tr style="background-color: ${index % 2 === 0 ? '#fff' : '#f9f9f9'};">
-            ${fields.map(field => `<td style="border: 1px solid #ddd; padding: 8px;">${formatValue(row[field], field)}</td>`).join('')}
-          </tr>`
-        ).join('')}
-      </tbody>
-    </table>
-    ${data.length > 50 ? `<p style="margin-top: 10px; color: #666; font-size: 12px;">Showing first 50 rows of ${data.length} total records.</p>` : ''}
-  `;
+    for (const recipient of scopedRecipients) {
+      const delivery = deliveries.get(recipient.timezone) ?? { timezone: recipient.timezone };
+      const html = generateEmailHTML(scheduledReport, scheduledReport.reports.name, scopedCount, scopedFiles, delivery);
+
+      try {
+        const emailResult = await transport.send({
+          from: emailFrom,
+          to: [recipient.email],
+          subject: `Scheduled Report: ${scheduledReport.name}`,
+          html,
+          attachments: scopedFiles,
+        });
+
+        emailResults.push({ recipient: recipient.email, success: true, id: emailResult.id });
+        console.log(`Email sent to ${recipient.email} via ${transport.name}:`, emailResult.id);
+      } catch (emailError) {
+        console.error(`Failed to send email to ${recipient.email}:`, emailError);
+        emailResults.push({ recipient: recipient.email, success: false, error: emailError.message });
+      }
+    }
+  }
+
+  return {
+    id: scheduledReport.id,
+    success: true,
+    recordCount,
+    files: files.map(file => ({ format: file.format, fileName: file.filename })),
+    emailResults,
+  };
 }
 
-function generateEmailHTML(scheduleName: string, reportName: string, recordCount: number, reportTable: string): string {
+function generateEmailHTML(
+  scheduledReport: ScheduledReport,
+  reportName: string,
+  recordCount: number,
+  files: GeneratedFile[],
+  delivery: DeliveryContext
+): string {
+  const scheduleName = scheduledReport.name;
+  const schedule = `${describeSchedule(scheduledReport.schedule_type, scheduledReport.schedule_config || {})} (${delivery.timezone})`;
+  const generatedAt = new Date().toLocaleString('en-US', { timeZone: delivery.timezone });
+  const catchUpNote = delivery.dueAt && delivery.missedRuns
+    ? `<p style="margin: 5px 0; color: #b45309;">This delivery was due at ${delivery.dueAt.toLocaleString('en-US', { timeZone: delivery.timezone })} and also covers ${delivery.missedRuns} later run(s) that were missed.</p>`
+    : '';
+  const fileLinks = files
+    .map(file => file.downloadUrl
+      ? `<li style="margin: 5px 0;"><a href="${file.downloadUrl}" style="color: #1e3a5f;">${file.filename}</a> (${ATTACHMENT_LABELS[file.format]})</li>`
+      : `<li style="margin: 5px 0;">${file.filename} (${ATTACHMENT_LABELS[file.format]})</li>`)
+    .join('');
+
   return `
     <!DOCTYPE html>
     <html>
@@ -266,13 +500,18 @@ function generateEmailHTML(scheduleName: string, reportName: string, recordCount
         <div style="background-color: #f8f9fa; padding: 15px; border-radius: 5px; margin-bottom: 20px;">
           <h2 style="margin: 0 0 10px 0; color: #495057;">Report Summary</h2>
           <p style="margin: 5px 0;"><strong>Report:</strong> ${reportName}</p>
-          <p style="margin: 5px 0;"><strong>Generated:</strong> ${new Date().toLocaleString()}</p>
+          <p style="margin: 5px 0;"><strong>Schedule:</strong> ${schedule}</p>
+          <p style="margin: 5px 0;"><strong>Generated:</strong> ${generatedAt}</p>
           <p style="margin: 5px 0;"><strong>Total Records:</strong> ${recordCount}</p>
+          ${catchUpNote}
         </div>
 
         <div style="margin-bottom: 20px;">
-          <h3 style="color: #333; margin-bottom: 15px;">Report Data</h3>
-          ${reportTable}
+          <h3 style="color: #333; margin-bottom: 15px;">Report Files</h3>
+          <p style="margin: 5px 0;">The report is attached to this email. You can also download it for the next 7 days:</p>
+          <ul style="padding-left: 20px;">
+            ${fileLinks}
+          </ul>
         </div>
 
         <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee; color: #666; font-size: 12px;">
@@ -0,0 +1,96 @@
+// Email transports for scheduled report delivery.
+//
+// EMAIL_TRANSPORT picks the transport: 'resend' (default, needs RESEND_API_KEY) or 'smtp', which sends through
+// SMTP_HOST/SMTP_PORT, e.g. the Inbucket server of the local Supabase stack during development.
+
+import { Resend } from 'npm:resend@2.0.0';
+import nodemailer from 'npm:nodemailer@6.9.14';
+import { encode as encodeBase64 } from 'https://deno.land/std@0.190.0/encoding/base64.ts';
+
+export interface EmailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ id?: string }>;
+}
+
+export function resendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey);
+  return {
+    name: 'resend',
+    async send(message) {
+      const { data, error } = await resend.emails.send({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        html: message.html,
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: encodeBase64(attachment.content),
+        })),
+      });
+      if (error) throw new Error(error.message);
+      return { id: data?.id };
+    },
+  };
+}
+
+export function smtpTransport(options: { host: string; port: number; user?: string; password?: string }): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.port === 465,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined,
+  });
+  return {
+    name: 'smtp',
+    async send(message) {
+      const info = await transporter.sendMail({
+        from: message.from,
+        to: message.to.join(', '),
+        subject: message.subject,
+        html: message.html,
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: encodeBase64(attachment.content),
+          encoding: 'base64',
+          contentType: attachment.contentType,
+        })),
+      });
+      return { id: info.messageId };
+    },
+  };
+}
+
+/** The transport configured in the environment */
+export function createEmailTransport(): EmailTransport {
+  const transport = Deno.env.get('EMAIL_TRANSPORT') ?? 'resend';
+  switch (transport) {
+    case 'resend': {
+      const apiKey = Deno.env.get('RESEND_API_KEY');
+      if (!apiKey) throw new Error('RESEND_API_KEY is not set');
+      return resendTransport(apiKey);
+    }
+    case 'smtp':
+      return smtpTransport({
+        host: Deno.env.get('SMTP_HOST') ?? 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') ?? 2500),
+        user: Deno.env.get('SMTP_USER'),
+        password: Deno.env.get('SMTP_PASSWORD'),
+      });
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+}
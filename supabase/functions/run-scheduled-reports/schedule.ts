@@ -0,0 +1,373 @@
+// Schedule rules for scheduled reports.
+//
+// Next run times for daily, weekly, monthly and quarterly schedules at a wall-clock time, or a five-field cron
+// expression, evaluated in the schedule's time zone. Business-day options follow the owner's working days and
+// holidays. The schedule form previews runs with the same rules from src/lib/report-schedule.ts; keep the two in
+// line.
+
+export type ScheduleType = 'daily' | 'weekly' | 'monthly' | 'quarterly' | 'cron';
+
+/** Day of a month or quarter: a day number (clamped to the month's length) or a relative day */
+export type DayOfPeriod = number | 'last' | 'first_business_day' | 'last_business_day';
+
+/** What to do when runs were missed: deliver once for all of them, or drop them and wait for the next run */
+export type CatchUpPolicy = 'run_once' | 'skip';
+
+export interface ScheduleConfig {
+  /** Wall-clock time, HH:MM */
+  time?: string;
+  /** Weekly schedules, 1 = Monday ... 7 = Sunday */
+  days_of_week?: number[];
+  /** Monthly and quarterly schedules; a day number counts within the quarter's first month */
+  day_of_period?: DayOfPeriod;
+  /** Daily schedules skip non-working days */
+  business_days_only?: boolean;
+  cron?: string;
+  /** 'recipient' runs at the time in each recipient's working-hours time zone, 'fixed' always uses `timezone` */
+  timezone_mode?: 'recipient' | 'fixed';
+  timezone?: string;
+  catch_up?: CatchUpPolicy;
+}
+
+export interface BusinessCalendar {
+  /** 1 = Monday ... 7 = Sunday */
+  working_days: number[];
+  /** YYYY-MM-DD */
+  holidays: string[];
+}
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = { working_days: [1, 2, 3, 4, 5], holidays: [] };
+
+/** Business calendar from a user's working hours settings */
+export function workingHoursCalendar(
+  workingHours?: { working_days?: number[] | null; custom_holidays?: string[] | null } | null
+): BusinessCalendar {
+  if (!workingHours) return DEFAULT_BUSINESS_CALENDAR;
+  return {
+    working_days: workingHours.working_days?.length ? workingHours.working_days : DEFAULT_BUSINESS_CALENDAR.working_days,
+    holidays: workingHours.custom_holidays || [],
+  };
+}
+
+export const DEFAULT_SCHEDULE_TIME = '08:00';
+
+
+export const WEEKDAYS = [
+  { value: 1, label: 'Monday', short: 'Mon' },
+  { value: 2, label: 'Tuesday', short: 'Tue' },
+  { value: 3, label: 'Wednesday', short: 'Wed' },
+  { value: 4, label: 'Thursday', short: 'Thu' },
+  { value: 5, label: 'Friday', short: 'Fri' },
+  { value: 6, label: 'Saturday', short: 'Sat' },
+  { value: 7, label: 'Sunday', short: 'Sun' },
+];
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScheduleError';
+  }
+}
+
+/** The time zone a user gets the schedule in: a fixed zone, else their working-hours zone, else the zone saved with it */
+export function resolveScheduleTimezone(config: ScheduleConfig, userTimezone?: string | null): string {
+  if (config.timezone_mode === 'fixed' && config.timezone) return config.timezone;
+  return userTimezone || config.timezone || 'UTC';
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch {
+      throw new ScheduleError(`Unknown time zone "${timeZone}"`);
+    }
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+}
+
+function offsetAt(time: number, timeZone: string): number {
+  const p = zonedParts(new Date(time), timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(time / 1000) * 1000;
+}
+
+/** UTC instant of a wall-clock time in a time zone; times skipped by a DST change move forward */
+export function zonedTimeToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day, hour, minute);
+  const first = wall - offsetAt(wall, timeZone);
+  // A second pass picks up the offset on the other side of a DST change
+  const second = wall - offsetAt(first, timeZone);
+  if (second === first) return new Date(first);
+  const check = zonedParts(new Date(second), timeZone);
+  if (check.hour === hour && check.minute === minute) return new Date(second);
+  // Neither instant shows this wall-clock time when it falls in a DST gap
+  return new Date(Math.max(first, second));
+}
+
+// ---------------------------------------------------------------------------
+// Cron expressions: minute hour day-of-month month day-of-week
+// ---------------------------------------------------------------------------
+
+interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  lastDay: boolean;
+  months: Set<number>;
+  weekdays: Set<number>;
+  daysRestricted: boolean;
+  weekdaysRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+function parseCronField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): number[] {
+  const toNumber = (token: string) => {
+    const index = names.indexOf(token.toUpperCase());
+    const value = index >= 0 ? index + nameOffset : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new ScheduleError(`Invalid cron value "${token}"`);
+    }
+    return value;
+  };
+
+  const values = new Set<number>();
+  for (const item of field.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) throw new ScheduleError(`Invalid cron step "${item}"`);
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = toNumber(from);
+      end = to === undefined ? (stepText === undefined ? start : max) : toNumber(to);
+    }
+    if (start > end) throw new ScheduleError(`Invalid cron range "${item}"`);
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+  return [...values].sort((a, b) => a - b);
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new ScheduleError('Cron expressions need five fields: minute hour day-of-month month day-of-week');
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const lastDay = dayOfMonth.toUpperCase() === 'L';
+
+  return {
+    minutes: parseCronField(minute, 0, 59),
+    hours: parseCronField(hour, 0, 23),
+    days: new Set(lastDay ? [] : parseCronField(dayOfMonth, 1, 31)),
+    lastDay,
+    months: new Set(parseCronField(month, 1, 12, MONTH_NAMES, 1)),
+    // 0 and 7 are both Sunday
+    weekdays: new Set(parseCronField(dayOfWeek, 0, 7, DAY_NAMES).map(day => day % 7)),
+    daysRestricted: dayOfMonth !== '*',
+    weekdaysRestricted: dayOfWeek !== '*',
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Calendar days
+// ---------------------------------------------------------------------------
+
+interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+const isoWeekday = (date: LocalDate) => new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay() || 7;
+const sameDate = (a: LocalDate, b: LocalDate) => a.year === b.year && a.month === b.month && a.day === b.day;
+
+function addDays(date: LocalDate, days: number): LocalDate {
+  const next = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() };
+}
+
+function isBusinessDay(date: LocalDate, calendar: BusinessCalendar): boolean {
+  return calendar.working_days.includes(isoWeekday(date))
+    && !calendar.holidays.includes(`${date.year}-${pad(date.month)}-${pad(date.day)}`);
+}
+
+/** Whether `date` is the configured day of the period running from `start` to `end` */
+function isDayOfPeriod(date: LocalDate, day: DayOfPeriod, start: LocalDate, end: LocalDate, calendar: BusinessCalendar) {
+  switch (day) {
+    case 'last':
+      return sameDate(date, end);
+    case 'first_business_day': {
+      for (let d = start; !sameDate(d, addDays(end, 1)); d = addDays(d, 1)) {
+        if (isBusinessDay(d, calendar)) return sameDate(d, date);
+      }
+      return false;
+    }
+    case 'last_business_day': {
+      for (let d = end; !sameDate(d, addDays(start, -1)); d = addDays(d, -1)) {
+        if (isBusinessDay(d, calendar)) return sameDate(d, date);
+      }
+      return false;
+    }
+    default:
+      return date.year === start.year
+        && date.month === start.month
+        && date.day === Math.min(day, daysInMonth(start.year, start.month));
+  }
+}
+
+function runsOn(type: ScheduleType, config: ScheduleConfig, date: LocalDate, calendar: BusinessCalendar, cron?: CronSchedule) {
+  switch (type) {
+    case 'daily':
+      return !config.business_days_only || isBusinessDay(date, calendar);
+    case 'weekly':
+      return (config.days_of_week?.length ? config.days_of_week : [1]).includes(isoWeekday(date));
+    case 'monthly':
+      return isDayOfPeriod(
+        date,
+        config.day_of_period ?? 1,
+        { year: date.year, month: date.month, day: 1 },
+        { year: date.year, month: date.month, day: daysInMonth(date.year, date.month) },
+        calendar
+      );
+    case 'quarterly': {
+      const firstMonth = date.month - ((date.month - 1) % 3);
+      return isDayOfPeriod(
+        date,
+        config.day_of_period ?? 1,
+        { year: date.year, month: firstMonth, day: 1 },
+        { year: date.year, month: firstMonth + 2, day: daysInMonth(date.year, firstMonth + 2) },
+        calendar
+      );
+    }
+    case 'cron': {
+      if (!cron || !cron.months.has(date.month)) return false;
+      const dayMatches = cron.lastDay ? date.day === daysInMonth(date.year, date.month) : cron.days.has(date.day);
+      const weekdayMatches = cron.weekdays.has(isoWeekday(date) % 7);
+      // As in cron, a restricted day of month and day of week match when either does
+      if (cron.daysRestricted && cron.weekdaysRestricted) return dayMatches || weekdayMatches;
+      return (!cron.daysRestricted || dayMatches) && (!cron.weekdaysRestricted || weekdayMatches);
+    }
+    default:
+      return false;
+  }
+}
+
+function parseTime(time: string | undefined): { hour: number; minute: number } {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time || DEFAULT_SCHEDULE_TIME);
+  const hour = match ? Number(match[1]) : NaN;
+  const minute = match ? Number(match[2]) : NaN;
+  if (!(hour >= 0 && hour <= 23 && minute >= 0 && minute <= 59)) throw new ScheduleError(`Invalid time "${time}"`);
+  return { hour, minute };
+}
+
+// Long enough for a cron expression that only matches February 29th
+const MAX_SEARCH_DAYS = 366 * 8;
+
+export interface NextRunOptions {
+  /** Runs strictly after this instant */
+  after: Date;
+  /** Stop after this many runs */
+  count?: number;
+  /** Stop at runs later than this instant */
+  until?: Date;
+  timezone: string;
+  calendar?: BusinessCalendar;
+}
+
+/** Upcoming run times of a schedule, in ascending order */
+export function nextRunTimes(type: ScheduleType, config: ScheduleConfig, options: NextRunOptions): Date[] {
+  const count = options.count ?? (options.until ? Infinity : 1);
+  const calendar = options.calendar || DEFAULT_BUSINESS_CALENDAR;
+  const cron = type === 'cron' ? parseCron(config.cron || '') : undefined;
+  const times = cron
+    ? cron.hours.flatMap(hour => cron.minutes.map(minute => ({ hour, minute })))
+    : [parseTime(config.time)];
+
+  const runs: Date[] = [];
+  const start = zonedParts(options.after, options.timezone);
+  for (let offset = 0; offset <= MAX_SEARCH_DAYS && runs.length < count; offset++) {
+    const date = addDays(start, offset);
+    if (!runsOn(type, config, date, calendar, cron)) continue;
+
+    for (const { hour, minute } of times) {
+      const run = zonedTimeToUtc(date.year, date.month, date.day, hour, minute, options.timezone);
+      if (options.until && run > options.until) return runs;
+      // DST changes can map two wall-clock times to the same instant
+      if (run > options.after && (runs.length === 0 || run > runs[runs.length - 1])) runs.push(run);
+      if (runs.length >= count) break;
+    }
+  }
+  return runs;
+}
+
+export function validateSchedule(type: ScheduleType, config: ScheduleConfig, timezone: string): string | null {
+  try {
+    if (nextRunTimes(type, config, { after: new Date(), timezone }).length === 0) return 'This schedule never runs';
+    return null;
+  } catch (error) {
+    if (error instanceof ScheduleError) return error.message;
+    throw error;
+  }
+}
+
+const DAY_OF_PERIOD_LABELS: Record<string, string> = {
+  last: 'the last day',
+  first_business_day: 'the first business day',
+  last_business_day: 'the last business day',
+};
+
+export function describeSchedule(type: ScheduleType, config: ScheduleConfig): string {
+  const time = config.time || DEFAULT_SCHEDULE_TIME;
+  const day = config.day_of_period ?? 1;
+  const dayLabel = typeof day === 'number' ? `day ${day}` : DAY_OF_PERIOD_LABELS[day];
+
+  switch (type) {
+    case 'daily':
+      return `Every ${config.business_days_only ? 'business day' : 'day'} at ${time}`;
+    case 'weekly': {
+      const days = (config.days_of_week?.length ? config.days_of_week : [1])
+        .map(value => WEEKDAYS.find(weekday => weekday.value === value)?.label)
+        .filter(Boolean);
+      return `Every ${days.join(', ')} at ${time}`;
+    }
+    case 'monthly':
+      return `Monthly on ${dayLabel} at ${time}`;
+    case 'quarterly':
+      return `Quarterly on ${typeof day === 'number' ? `day ${day} of the first month` : `${dayLabel} of the quarter`} at ${time}`;
+    case 'cron':
+      return `Cron: ${config.cron || '-'}`;
+    default:
+      return type;
+  }
+}
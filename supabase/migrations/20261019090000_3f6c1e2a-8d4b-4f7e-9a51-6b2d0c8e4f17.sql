@@ -0,0 +1,132 @@
+-- Tenant branding used on customer-facing documents
+ALTER TABLE public.tenants ADD COLUMN logo_url TEXT;
+
+-- Terms & conditions printed on the quote document
+ALTER TABLE public.quotes ADD COLUMN terms TEXT;
+
+-- Generated quote documents (rendered from a specific quote version)
+CREATE TABLE public.quote_documents (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  quote_version_id UUID NOT NULL REFERENCES public.quote_versions(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'ar', 'bilingual')),
+  format TEXT NOT NULL DEFAULT 'html' CHECK (format IN ('html', 'pdf')),
+  file_name TEXT NOT NULL,
+  file_path TEXT NOT NULL,
+  file_size INTEGER,
+  page_count INTEGER,
+  total_amount NUMERIC(15,2),
+  generated_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quote_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quote documents in their tenant"
+  ON public.quote_documents FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.user_tenant_memberships
+      WHERE user_id = auth.uid() AND active = true
+    )
+  );
+
+CREATE POLICY "Users can create quote documents in their tenant"
+  ON public.quote_documents FOR INSERT
+  WITH CHECK (
+    tenant_id IN (
+      SELECT tenant_id FROM public.user_tenant_memberships
+      WHERE user_id = auth.uid() AND active = true
+    )
+  );
+
+CREATE POLICY "Users can delete quote documents in their tenant"
+  ON public.quote_documents FOR DELETE
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.user_tenant_memberships
+      WHERE user_id = auth.uid() AND active = true
+    )
+  );
+
+CREATE INDEX idx_quote_documents_quote_id ON public.quote_documents(quote_id);
+CREATE INDEX idx_quote_documents_version_id ON public.quote_documents(quote_version_id);
+
+-- Public bucket for tenant logos (embedded in documents and emails)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('tenant-branding', 'tenant-branding', true);
+
+CREATE POLICY "Tenant branding is publicly accessible"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'tenant-branding');
+
+CREATE POLICY "Tenant users can upload tenant branding"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'tenant-branding' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+CREATE POLICY "Tenant users can delete tenant branding"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'tenant-branding' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+-- Private bucket for generated quote documents, one folder per tenant
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('quote-documents', 'quote-documents', false);
+
+CREATE POLICY "Tenant users can view quote documents"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'quote-documents' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+CREATE POLICY "Tenant users can upload quote documents"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'quote-documents' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+CREATE POLICY "Tenant users can delete quote documents"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'quote-documents' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
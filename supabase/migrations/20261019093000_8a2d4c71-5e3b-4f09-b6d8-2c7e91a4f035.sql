@@ -0,0 +1,226 @@
+-- Tax rates per tenant. Jurisdiction matches tenants.country; a NULL jurisdiction applies everywhere.
+CREATE TABLE public.tenant_tax_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  jurisdiction TEXT,
+  rate NUMERIC(5,2) NOT NULL DEFAULT 0 CHECK (rate >= 0 AND rate <= 100),
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tenant_tax_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view tax rates in their tenant"
+  ON public.tenant_tax_rates FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+-- Rates feed every quote total, so only admins maintain them
+CREATE POLICY "Tenant admins can manage tax rates"
+  ON public.tenant_tax_rates FOR ALL
+  USING (is_tenant_admin_for(tenant_id))
+  WITH CHECK (is_tenant_admin_for(tenant_id));
+
+CREATE INDEX idx_tenant_tax_rates_tenant_id ON public.tenant_tax_rates(tenant_id);
+
+CREATE TRIGGER update_tenant_tax_rates_updated_at
+  BEFORE UPDATE ON public.tenant_tax_rates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Rounding rules for quote grand totals
+ALTER TABLE public.tenant_pricing_settings
+  ADD COLUMN rounding_increment NUMERIC(10,4) NOT NULL DEFAULT 0.01 CHECK (rounding_increment > 0),
+  ADD COLUMN rounding_mode TEXT NOT NULL DEFAULT 'nearest' CHECK (rounding_mode IN ('nearest', 'up', 'down'));
+
+-- Line discounts and source currency of catalog items
+ALTER TABLE public.quote_items
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+  ADD COLUMN discount_value NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN discount_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_rate NUMERIC(5,2),
+  ADD COLUMN source_currency_id UUID REFERENCES public.currencies(id),
+  ADD COLUMN source_unit_price NUMERIC(15,2),
+  ADD COLUMN source_unit_cost NUMERIC(15,2),
+  ADD COLUMN exchange_rate NUMERIC(18,6) NOT NULL DEFAULT 1;
+
+-- Document discount, tax and persisted totals
+ALTER TABLE public.quote_versions
+  ADD COLUMN discount_type TEXT NOT NULL DEFAULT 'percent' CHECK (discount_type IN ('percent', 'amount')),
+  ADD COLUMN discount_value NUMERIC(15,2) NOT NULL DEFAULT 0 CHECK (discount_value >= 0),
+  ADD COLUMN tax_rate_id UUID REFERENCES public.tenant_tax_rates(id) ON DELETE SET NULL,
+  ADD COLUMN tax_rate NUMERIC(5,2),
+  ADD COLUMN subtotal NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN line_discount_total NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN discount_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN tax_amount NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN rounding_adjustment NUMERIC(15,2) NOT NULL DEFAULT 0,
+  ADD COLUMN grand_total NUMERIC(15,2) NOT NULL DEFAULT 0;
+
+-- Round an amount to a tenant increment (0.01, 0.05, 1, ...)
+CREATE OR REPLACE FUNCTION public.round_quote_amount(_amount NUMERIC, _increment NUMERIC, _mode TEXT)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN COALESCE(_increment, 0) <= 0 THEN ROUND(_amount, 2)
+    WHEN _mode = 'up' THEN ROUND(CEIL(_amount / _increment) * _increment, 2)
+    WHEN _mode = 'down' THEN ROUND(FLOOR(_amount / _increment) * _increment, 2)
+    ELSE ROUND(ROUND(_amount / _increment) * _increment, 2)
+  END
+$$;
+
+-- Line discount amount from type/value (capped at the line total)
+CREATE OR REPLACE FUNCTION public.calculate_quote_item_discount()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _line_total NUMERIC(15,2);
+BEGIN
+  _line_total := NEW.quantity * NEW.unit_price;
+
+  IF NEW.discount_type = 'amount' THEN
+    NEW.discount_amount := LEAST(NEW.discount_value, GREATEST(_line_total, 0));
+  ELSE
+    NEW.discount_amount := ROUND(_line_total * LEAST(NEW.discount_value, 100) / 100, 2);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER calculate_quote_item_discount
+  BEFORE INSERT OR UPDATE ON public.quote_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_quote_item_discount();
+
+-- Version totals: subtotal -> line discounts -> document discount -> tax -> rounding.
+-- The document discount is spread over lines pro rata so per-line tax rates still apply.
+CREATE OR REPLACE FUNCTION public.calculate_quote_version_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _subtotal NUMERIC(15,2);
+  _line_discounts NUMERIC(15,2);
+  _net NUMERIC(15,2);
+  _document_discount NUMERIC(15,2);
+  _document_factor NUMERIC;
+  _tax NUMERIC(15,2);
+  _total NUMERIC(15,2);
+  _rounded NUMERIC(15,2);
+  _increment NUMERIC;
+  _mode TEXT;
+BEGIN
+  -- New versions start with the tenant's default rate when the tenant is tax registered
+  IF TG_OP = 'INSERT' AND NEW.tax_rate IS NULL THEN
+    SELECT r.id, r.rate INTO NEW.tax_rate_id, NEW.tax_rate
+    FROM tenant_tax_rates r
+    JOIN tenants t ON t.id = r.tenant_id
+    WHERE r.tenant_id = NEW.tenant_id
+      AND r.active = true
+      AND r.is_default = true
+      AND COALESCE(t.tax_number, '') <> ''
+      AND (r.jurisdiction IS NULL OR r.jurisdiction = t.country)
+    ORDER BY (r.jurisdiction IS NULL)
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity * unit_price), 0), COALESCE(SUM(discount_amount), 0)
+  INTO _subtotal, _line_discounts
+  FROM quote_items
+  WHERE quote_version_id = NEW.id;
+
+  _net := _subtotal - _line_discounts;
+
+  IF NEW.discount_type = 'amount' THEN
+    _document_discount := LEAST(NEW.discount_value, GREATEST(_net, 0));
+  ELSE
+    _document_discount := ROUND(_net * LEAST(NEW.discount_value, 100) / 100, 2);
+  END IF;
+
+  _document_factor := CASE WHEN _net > 0 THEN (_net - _document_discount) / _net ELSE 0 END;
+
+  SELECT COALESCE(SUM(ROUND(
+    (quantity * unit_price - discount_amount) * _document_factor * COALESCE(tax_rate, NEW.tax_rate, 0) / 100,
+    2
+  )), 0)
+  INTO _tax
+  FROM quote_items
+  WHERE quote_version_id = NEW.id;
+
+  SELECT rounding_increment, rounding_mode INTO _increment, _mode
+  FROM tenant_pricing_settings
+  WHERE tenant_id = NEW.tenant_id;
+
+  _total := _net - _document_discount + _tax;
+  _rounded := round_quote_amount(_total, COALESCE(_increment, 0.01), _mode);
+
+  NEW.subtotal := _subtotal;
+  NEW.line_discount_total := _line_discounts;
+  NEW.discount_amount := _document_discount;
+  NEW.tax_amount := _tax;
+  NEW.rounding_adjustment := _rounded - _total;
+  NEW.grand_total := _rounded;
+  NEW.total_amount := _rounded;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER calculate_quote_version_totals
+  BEFORE INSERT OR UPDATE ON public.quote_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_quote_version_totals();
+
+-- Quote total follows the primary version (or the first version if no primary)
+CREATE OR REPLACE FUNCTION public.sync_quote_total_from_versions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE quotes q
+  SET total_amount = COALESCE(
+    (SELECT total_amount FROM quote_versions WHERE quote_id = NEW.quote_id AND is_primary = true LIMIT 1),
+    (SELECT total_amount FROM quote_versions WHERE quote_id = NEW.quote_id ORDER BY version_number ASC LIMIT 1),
+    0
+  ),
+  updated_at = now()
+  WHERE id = NEW.quote_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_quote_total_from_versions
+  AFTER INSERT OR UPDATE ON public.quote_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_quote_total_from_versions();
+
+-- Item changes now only touch the version; its BEFORE UPDATE trigger recalculates the totals
+CREATE OR REPLACE FUNCTION public.update_quote_version_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  UPDATE quote_versions
+  SET updated_at = now()
+  WHERE id = COALESCE(NEW.quote_version_id, OLD.quote_version_id);
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+-- Recalculate existing versions with the new totals model
+UPDATE public.quote_versions SET updated_at = updated_at;
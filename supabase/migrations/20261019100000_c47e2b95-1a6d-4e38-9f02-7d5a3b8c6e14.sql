@@ -0,0 +1,484 @@
+-- Quotes waiting for a manager decision cannot be sent
+ALTER TABLE public.quotes DROP CONSTRAINT IF EXISTS quotes_status_check;
+ALTER TABLE public.quotes ADD CONSTRAINT quotes_status_check
+  CHECK (status IN ('draft', 'pending_approval', 'sent', 'approved', 'rejected', 'expired'));
+
+-- Per-tenant approval thresholds. A NULL threshold disables that rule.
+CREATE TABLE public.quote_approval_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL UNIQUE REFERENCES public.tenants(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT false,
+  min_margin_percentage NUMERIC(5,2),
+  min_line_margin_percentage NUMERIC(5,2),
+  max_total_amount NUMERIC(15,2),
+  approver_role_id UUID REFERENCES public.custom_roles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quote_approval_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quote approval settings in their tenant"
+  ON public.quote_approval_settings FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+-- Only admins change the thresholds the reps are held to
+CREATE POLICY "Tenant admins can manage quote approval settings"
+  ON public.quote_approval_settings FOR ALL
+  USING (is_tenant_admin_for(tenant_id))
+  WITH CHECK (is_tenant_admin_for(tenant_id));
+
+CREATE TRIGGER update_quote_approval_settings_updated_at
+  BEFORE UPDATE ON public.quote_approval_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Approval requests. Written through request_quote_approval / decide_quote_approval only.
+CREATE TABLE public.quote_approval_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  quote_version_id UUID NOT NULL REFERENCES public.quote_versions(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected', 'cancelled')),
+  reasons JSONB NOT NULL DEFAULT '[]',
+  total_amount NUMERIC(15,2),
+  margin_percentage NUMERIC(7,2),
+  approver_role_id UUID REFERENCES public.custom_roles(id) ON DELETE SET NULL,
+  requested_by UUID REFERENCES public.profiles(id),
+  request_comment TEXT,
+  decided_by UUID REFERENCES public.profiles(id),
+  decision_comment TEXT,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.quote_approval_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view quote approval requests in their tenant"
+  ON public.quote_approval_requests FOR SELECT
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM public.user_tenant_memberships
+      WHERE user_id = auth.uid() AND active = true
+    )
+  );
+
+CREATE INDEX idx_quote_approval_requests_quote_id ON public.quote_approval_requests(quote_id);
+CREATE UNIQUE INDEX idx_quote_approval_requests_one_pending
+  ON public.quote_approval_requests(quote_id) WHERE status = 'pending';
+
+-- Version margin on what the customer pays before tax, using the same markup formula as quote lines
+CREATE OR REPLACE FUNCTION public.calculate_quote_version_totals()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _subtotal NUMERIC(15,2);
+  _line_discounts NUMERIC(15,2);
+  _cost NUMERIC(15,2);
+  _net NUMERIC(15,2);
+  _document_discount NUMERIC(15,2);
+  _document_factor NUMERIC;
+  _tax NUMERIC(15,2);
+  _total NUMERIC(15,2);
+  _rounded NUMERIC(15,2);
+  _increment NUMERIC;
+  _mode TEXT;
+BEGIN
+  -- New versions start with the tenant's default rate when the tenant is tax registered
+  IF TG_OP = 'INSERT' AND NEW.tax_rate IS NULL THEN
+    SELECT r.id, r.rate INTO NEW.tax_rate_id, NEW.tax_rate
+    FROM tenant_tax_rates r
+    JOIN tenants t ON t.id = r.tenant_id
+    WHERE r.tenant_id = NEW.tenant_id
+      AND r.active = true
+      AND r.is_default = true
+      AND COALESCE(t.tax_number, '') <> ''
+      AND (r.jurisdiction IS NULL OR r.jurisdiction = t.country)
+    ORDER BY (r.jurisdiction IS NULL)
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(SUM(quantity * unit_price), 0), COALESCE(SUM(discount_amount), 0), COALESCE(SUM(quantity * unit_cost), 0)
+  INTO _subtotal, _line_discounts, _cost
+  FROM quote_items
+  WHERE quote_version_id = NEW.id;
+
+  _net := _subtotal - _line_discounts;
+
+  IF NEW.discount_type = 'amount' THEN
+    _document_discount := LEAST(NEW.discount_value, GREATEST(_net, 0));
+  ELSE
+    _document_discount := ROUND(_net * LEAST(NEW.discount_value, 100) / 100, 2);
+  END IF;
+
+  _document_factor := CASE WHEN _net > 0 THEN (_net - _document_discount) / _net ELSE 0 END;
+
+  SELECT COALESCE(SUM(ROUND(
+    (quantity * unit_price - discount_amount) * _document_factor * COALESCE(tax_rate, NEW.tax_rate, 0) / 100,
+    2
+  )), 0)
+  INTO _tax
+  FROM quote_items
+  WHERE quote_version_id = NEW.id;
+
+  SELECT rounding_increment, rounding_mode INTO _increment, _mode
+  FROM tenant_pricing_settings
+  WHERE tenant_id = NEW.tenant_id;
+
+  _total := _net - _document_discount + _tax;
+  _rounded := round_quote_amount(_total, COALESCE(_increment, 0.01), _mode);
+
+  NEW.subtotal := _subtotal;
+  NEW.line_discount_total := _line_discounts;
+  NEW.discount_amount := _document_discount;
+  NEW.tax_amount := _tax;
+  NEW.rounding_adjustment := _rounded - _total;
+  NEW.grand_total := _rounded;
+  NEW.total_amount := _rounded;
+  NEW.margin_percentage := CASE
+    WHEN _cost > 0 THEN LEAST(GREATEST(ROUND((_net - _document_discount - _cost) / _cost * 100, 2), -999.99), 999.99)
+    ELSE 0
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Rules a quote version breaks, as [{rule, threshold, actual, item_name?}]. Empty when no approval is needed.
+CREATE OR REPLACE FUNCTION public.get_quote_approval_reasons(_quote_version_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _version RECORD;
+  _settings RECORD;
+  _reasons JSONB := '[]'::jsonb;
+BEGIN
+  SELECT * INTO _version FROM quote_versions WHERE id = _quote_version_id;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _version.tenant_id) THEN
+    RETURN _reasons;
+  END IF;
+
+  SELECT * INTO _settings FROM quote_approval_settings WHERE tenant_id = _version.tenant_id AND enabled = true;
+  IF NOT FOUND THEN
+    RETURN _reasons;
+  END IF;
+
+  IF _settings.min_margin_percentage IS NOT NULL
+     AND COALESCE(_version.margin_percentage, 0) < _settings.min_margin_percentage THEN
+    _reasons := _reasons || jsonb_build_object(
+      'rule', 'min_margin',
+      'threshold', _settings.min_margin_percentage,
+      'actual', COALESCE(_version.margin_percentage, 0)
+    );
+  END IF;
+
+  -- Line margins are worked out here from the discounted line net rather than read from the stored column,
+  -- which the client writes before discounts
+  IF _settings.min_line_margin_percentage IS NOT NULL THEN
+    _reasons := _reasons || COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'rule', 'min_line_margin',
+        'threshold', _settings.min_line_margin_percentage,
+        'actual', m.margin,
+        'item_name', qi.name
+      ) ORDER BY qi.sort_order)
+      FROM quote_items qi
+      CROSS JOIN LATERAL (
+        SELECT CASE
+          WHEN qi.quantity * qi.unit_cost > 0 THEN ROUND(
+            (qi.quantity * qi.unit_price - qi.discount_amount - qi.quantity * qi.unit_cost) / (qi.quantity * qi.unit_cost) * 100,
+            2
+          )
+          ELSE 0
+        END AS margin
+      ) m
+      WHERE qi.quote_version_id = _quote_version_id
+        AND m.margin < _settings.min_line_margin_percentage
+    ), '[]'::jsonb);
+  END IF;
+
+  IF _settings.max_total_amount IS NOT NULL
+     AND COALESCE(_version.grand_total, 0) > _settings.max_total_amount THEN
+    _reasons := _reasons || jsonb_build_object(
+      'rule', 'max_total',
+      'threshold', _settings.max_total_amount,
+      'actual', _version.grand_total
+    );
+  END IF;
+
+  RETURN _reasons;
+END;
+$$;
+
+-- Whether the current user may decide approvals: holders of the approver role, or tenant admins when no role is set
+CREATE OR REPLACE FUNCTION public.can_approve_quotes(_tenant_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM user_tenant_memberships utm
+    LEFT JOIN quote_approval_settings s ON s.tenant_id = utm.tenant_id
+    WHERE utm.user_id = auth.uid()
+      AND utm.tenant_id = _tenant_id
+      AND utm.active = true
+      AND (
+        (s.approver_role_id IS NOT NULL AND utm.custom_role_id = s.approver_role_id)
+        OR (s.approver_role_id IS NULL AND utm.role IN ('admin', 'super_admin'))
+      )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.request_quote_approval(_quote_id UUID, _comment TEXT DEFAULT NULL)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _quote RECORD;
+  _version RECORD;
+  _settings RECORD;
+  _reasons JSONB;
+  _request_id UUID;
+  _approver RECORD;
+BEGIN
+  SELECT * INTO _quote FROM quotes WHERE id = _quote_id AND deleted_at IS NULL;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _quote.tenant_id) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF _quote.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft quotes can be submitted for approval';
+  END IF;
+
+  SELECT * INTO _version FROM quote_versions
+  WHERE quote_id = _quote_id
+  ORDER BY is_primary DESC, version_number ASC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote has no versions';
+  END IF;
+
+  _reasons := get_quote_approval_reasons(_version.id);
+  IF jsonb_array_length(_reasons) = 0 THEN
+    RAISE EXCEPTION 'This quote does not require approval';
+  END IF;
+
+  SELECT * INTO _settings FROM quote_approval_settings WHERE tenant_id = _quote.tenant_id;
+
+  INSERT INTO quote_approval_requests (
+    tenant_id, quote_id, quote_version_id, reasons, total_amount, margin_percentage,
+    approver_role_id, requested_by, request_comment
+  ) VALUES (
+    _quote.tenant_id, _quote_id, _version.id, _reasons, _version.grand_total, _version.margin_percentage,
+    _settings.approver_role_id, auth.uid(), NULLIF(TRIM(_comment), '')
+  ) RETURNING id INTO _request_id;
+
+  PERFORM set_config('app.quote_workflow', 'on', true);
+  UPDATE quotes SET status = 'pending_approval', updated_at = now() WHERE id = _quote_id;
+  PERFORM set_config('app.quote_workflow', 'off', true);
+
+  INSERT INTO universal_audit_logs (tenant_id, entity_type, entity_id, field_name, old_value, new_value, changed_by)
+  VALUES (
+    _quote.tenant_id, 'quote', _quote_id, 'approval_status',
+    to_jsonb(_quote.status),
+    jsonb_build_object('status', 'pending', 'request_id', _request_id, 'version', _version.version_number, 'reasons', _reasons),
+    auth.uid()
+  );
+
+  FOR _approver IN
+    SELECT DISTINCT utm.user_id
+    FROM user_tenant_memberships utm
+    WHERE utm.tenant_id = _quote.tenant_id
+      AND utm.active = true
+      AND utm.user_id <> auth.uid()
+      AND (
+        (_settings.approver_role_id IS NOT NULL AND utm.custom_role_id = _settings.approver_role_id)
+        OR (_settings.approver_role_id IS NULL AND utm.role IN ('admin', 'super_admin'))
+      )
+  LOOP
+    PERFORM create_notification(
+      _quote.tenant_id,
+      _approver.user_id,
+      'Quote approval requested',
+      format('%s (%s) needs approval before it can be sent', _quote.name, COALESCE(_quote.reference_number, _version.version_name)),
+      'quote',
+      _quote_id,
+      'quote_approval'
+    );
+  END LOOP;
+
+  RETURN _request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_quote_approval(_request_id UUID, _approved BOOLEAN, _comment TEXT DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _request RECORD;
+  _quote RECORD;
+  _decision TEXT := CASE WHEN _approved THEN 'approved' ELSE 'rejected' END;
+BEGIN
+  SELECT * INTO _request FROM quote_approval_requests WHERE id = _request_id FOR UPDATE;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _request.tenant_id) THEN
+    RAISE EXCEPTION 'Approval request not found';
+  END IF;
+
+  IF _request.status <> 'pending' THEN
+    RAISE EXCEPTION 'Approval request has already been %', _request.status;
+  END IF;
+
+  IF NOT can_approve_quotes(_request.tenant_id) THEN
+    RAISE EXCEPTION 'You are not allowed to approve quotes';
+  END IF;
+
+  IF NOT _approved AND COALESCE(TRIM(_comment), '') = '' THEN
+    RAISE EXCEPTION 'A comment is required when rejecting a quote';
+  END IF;
+
+  UPDATE quote_approval_requests
+  SET status = _decision,
+      decided_by = auth.uid(),
+      decided_at = now(),
+      decision_comment = NULLIF(TRIM(_comment), '')
+  WHERE id = _request_id;
+
+  SELECT * INTO _quote FROM quotes WHERE id = _request.quote_id;
+
+  -- Approved quotes go back to draft so the rep can send them; rejected ones need rework first
+  PERFORM set_config('app.quote_workflow', 'on', true);
+  UPDATE quotes SET status = 'draft', updated_at = now() WHERE id = _request.quote_id;
+  PERFORM set_config('app.quote_workflow', 'off', true);
+
+  INSERT INTO universal_audit_logs (tenant_id, entity_type, entity_id, field_name, old_value, new_value, changed_by)
+  VALUES (
+    _request.tenant_id, 'quote', _request.quote_id, 'approval_status',
+    jsonb_build_object('status', 'pending', 'request_id', _request_id),
+    jsonb_build_object('status', _decision, 'request_id', _request_id, 'comment', NULLIF(TRIM(_comment), '')),
+    auth.uid()
+  );
+
+  IF _request.requested_by IS NOT NULL THEN
+    PERFORM create_notification(
+      _request.tenant_id,
+      _request.requested_by,
+      CASE WHEN _approved THEN 'Quote approved' ELSE 'Quote rejected' END,
+      format('%s was %s%s', _quote.name, _decision, COALESCE(': ' || NULLIF(TRIM(_comment), ''), '')),
+      'quote',
+      _request.quote_id,
+      'quote_approval'
+    );
+  END IF;
+END;
+$$;
+
+-- Status changes that drive the approval workflow are only made by the workflow functions below, which set
+-- app.quote_workflow for their transaction: request_quote_approval, decide_quote_approval, change_quote_status
+-- and convert_quote_to_contract. Direct writes cannot move a quote into or out of pending_approval, or mark it
+-- sent or approved.
+-- A quote that breaks a threshold can only be sent once its current version has been approved.
+-- An approval only covers the version as it was when approval was requested: editing the version or its lines
+-- afterwards (which bumps updated_at), even while the request is pending, invalidates it.
+CREATE OR REPLACE FUNCTION public.enforce_quote_approval()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _version RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF (NEW.status IN ('pending_approval', 'sent', 'approved') OR (TG_OP = 'UPDATE' AND OLD.status = 'pending_approval'))
+     AND current_setting('app.quote_workflow', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Quote status cannot be changed to % directly', NEW.status;
+  END IF;
+
+  IF NEW.status <> 'sent' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _version FROM quote_versions
+  WHERE quote_id = NEW.id
+  ORDER BY is_primary DESC, version_number ASC
+  LIMIT 1;
+
+  IF NOT FOUND OR jsonb_array_length(get_quote_approval_reasons(_version.id)) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM quote_approval_requests
+    WHERE quote_version_id = _version.id
+      AND status = 'approved'
+      AND created_at > _version.updated_at
+  ) THEN
+    RAISE EXCEPTION 'This quote requires approval before it can be sent';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_quote_approval
+  BEFORE INSERT OR UPDATE OF status ON public.quotes
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_quote_approval();
+
+-- Status changes a rep makes by hand. Approval requests and decisions go through their own functions.
+CREATE OR REPLACE FUNCTION public.change_quote_status(_quote_id UUID, _status TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _quote RECORD;
+BEGIN
+  SELECT * INTO _quote FROM quotes WHERE id = _quote_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _quote.tenant_id) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF _status NOT IN ('draft', 'sent', 'approved', 'rejected', 'expired') THEN
+    RAISE EXCEPTION 'Invalid quote status %', _status;
+  END IF;
+
+  IF _quote.status = 'pending_approval' THEN
+    RAISE EXCEPTION 'This quote is waiting for approval';
+  END IF;
+
+  IF _status = 'sent' AND _quote.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft quotes can be sent';
+  END IF;
+
+  IF _status = 'approved' AND _quote.status <> 'sent' THEN
+    RAISE EXCEPTION 'Only sent quotes can be marked as approved';
+  END IF;
+
+  PERFORM set_config('app.quote_workflow', 'on', true);
+  UPDATE quotes SET status = _status, updated_at = now() WHERE id = _quote_id;
+  PERFORM set_config('app.quote_workflow', 'off', true);
+END;
+$$;
+
+-- Recalculate version margins with the updated totals function
+UPDATE public.quote_versions SET updated_at = updated_at;
@@ -0,0 +1,173 @@
+-- Link contracts back to the quote they were accepted from
+ALTER TABLE public.contracts
+  ADD COLUMN quote_id UUID REFERENCES public.quotes(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_contracts_quote_id
+  ON public.contracts(quote_id)
+  WHERE quote_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Accept a quote and turn it into a contract in one transaction.
+-- The contract takes the value of the primary version (or _version_id), inherits the deal's customer links and
+-- copies the deal payment terms into the contract payment schedule. Returns the new contract id.
+CREATE OR REPLACE FUNCTION public.convert_quote_to_contract(
+  _quote_id UUID,
+  _version_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _quote RECORD;
+  _deal deals%ROWTYPE; -- fields stay NULL for quotes without a deal
+  _version RECORD;
+  _contract_id UUID;
+  _terms_count INTEGER := 0;
+  _user_name TEXT;
+BEGIN
+  SELECT * INTO _quote FROM quotes WHERE id = _quote_id AND deleted_at IS NULL FOR UPDATE;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _quote.tenant_id) THEN
+    RAISE EXCEPTION 'Quote not found';
+  END IF;
+
+  IF _quote.status NOT IN ('sent', 'approved') THEN
+    RAISE EXCEPTION 'Only sent quotes can be accepted';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM contracts WHERE quote_id = _quote_id AND deleted_at IS NULL) THEN
+    RAISE EXCEPTION 'A contract has already been created from this quote';
+  END IF;
+
+  SELECT * INTO _version FROM quote_versions
+  WHERE quote_id = _quote_id
+    AND (_version_id IS NULL OR id = _version_id)
+  ORDER BY is_primary DESC, version_number ASC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Quote has no versions';
+  END IF;
+
+  IF _quote.deal_id IS NOT NULL THEN
+    SELECT * INTO _deal FROM deals WHERE id = _quote.deal_id AND deleted_at IS NULL FOR UPDATE;
+  END IF;
+
+  -- A deal is won once: another quote on it may already have become a contract
+  IF _deal.converted_to_contract_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM contracts WHERE id = _deal.converted_to_contract_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'This deal has already been converted to a contract';
+  END IF;
+
+  INSERT INTO contracts (
+    tenant_id, deal_id, quote_id, name, description, value, currency_id,
+    customer_id, company_id, contact_id, site_id, assigned_to,
+    customer_reference_number, solution_category_ids, notes,
+    signed_date, sign_date, start_date
+  ) VALUES (
+    _quote.tenant_id,
+    _deal.id,
+    _quote_id,
+    _quote.name,
+    'Created from quote ' || COALESCE(_quote.reference_number, _quote.name) || ' (' || _version.version_name || ')',
+    COALESCE(_version.grand_total, _version.total_amount, 0),
+    COALESCE(_quote.currency_id, _deal.currency_id),
+    _deal.customer_id,
+    _deal.company_id,
+    COALESCE(_quote.contact_id, _deal.contact_id),
+    COALESCE(_quote.site_id, _deal.site_id),
+    COALESCE(_quote.assigned_to, _deal.assigned_to),
+    _deal.customer_reference_number,
+    COALESCE(_deal.solution_category_ids, '{}'),
+    _quote.terms,
+    CURRENT_DATE,
+    CURRENT_DATE,
+    CURRENT_DATE
+  ) RETURNING id INTO _contract_id;
+
+  -- Payment schedule: the deal's terms, or a single full installment when the deal has none.
+  -- stage_id is left empty so set_payment_due_if_no_todos moves each installment to Due.
+  IF _deal.id IS NOT NULL THEN
+    INSERT INTO contract_payment_terms (
+      contract_id, tenant_id, installment_number, amount_type, amount_value,
+      calculated_amount, due_date, notes
+    )
+    SELECT
+      _contract_id,
+      _quote.tenant_id,
+      dpt.installment_number,
+      dpt.amount_type,
+      dpt.amount_value,
+      CASE
+        WHEN dpt.amount_type = 'percentage'
+          THEN ROUND(COALESCE(_version.grand_total, _version.total_amount, 0) * dpt.amount_value / 100, 2)
+        ELSE dpt.amount_value
+      END,
+      dpt.due_date,
+      dpt.notes
+    FROM deal_payment_terms dpt
+    WHERE dpt.deal_id = _deal.id
+    ORDER BY dpt.installment_number;
+
+    GET DIAGNOSTICS _terms_count = ROW_COUNT;
+  END IF;
+
+  IF _terms_count = 0 THEN
+    INSERT INTO contract_payment_terms (
+      contract_id, tenant_id, installment_number, amount_type, amount_value, calculated_amount
+    ) VALUES (
+      _contract_id, _quote.tenant_id, 1, 'percentage', 100, COALESCE(_version.grand_total, _version.total_amount, 0)
+    );
+  END IF;
+
+  PERFORM set_config('app.quote_workflow', 'on', true);
+  UPDATE quotes SET status = 'approved', updated_at = now() WHERE id = _quote_id;
+  PERFORM set_config('app.quote_workflow', 'off', true);
+
+  IF _deal.id IS NOT NULL THEN
+    UPDATE deals
+    SET is_converted = true,
+        converted_to_contract_id = _contract_id,
+        updated_at = now()
+    WHERE id = _deal.id;
+  END IF;
+
+  SELECT first_name || ' ' || last_name INTO _user_name FROM profiles WHERE id = auth.uid();
+
+  INSERT INTO contract_audit_logs (
+    contract_id, tenant_id, action, entity_type, entity_id,
+    field_name, old_value, new_value, user_id, user_name, notes
+  ) VALUES (
+    _contract_id, _quote.tenant_id, 'created_from_quote', 'quote', _quote_id,
+    NULL, NULL,
+    jsonb_build_object(
+      'quote_id', _quote_id,
+      'reference_number', _quote.reference_number,
+      'quote_version_id', _version.id,
+      'version_name', _version.version_name,
+      'value', COALESCE(_version.grand_total, _version.total_amount, 0),
+      'deal_id', _deal.id,
+      'payment_terms_copied', _terms_count
+    ),
+    auth.uid(),
+    _user_name,
+    'Contract created from accepted quote ' || COALESCE(_quote.reference_number, _quote.name)
+      || CASE WHEN _terms_count > 0 THEN ' with ' || _terms_count || ' payment term(s) from the deal' ELSE '' END
+  );
+
+  IF _deal.id IS NOT NULL THEN
+    INSERT INTO contract_audit_logs (
+      contract_id, tenant_id, action, entity_type, entity_id,
+      field_name, old_value, new_value, user_id, user_name, notes
+    ) VALUES (
+      _contract_id, _quote.tenant_id, 'deal_linked', 'deal', _deal.id,
+      'converted_to_contract_id', to_jsonb(_deal.converted_to_contract_id), to_jsonb(_contract_id),
+      auth.uid(),
+      _user_name,
+      'Deal ' || _deal.name || ' marked as converted'
+    );
+  END IF;
+
+  RETURN _contract_id;
+END;
+$$;
@@ -0,0 +1,15 @@
+-- BOQ locations: a floor can belong to one of the project's sites, and a device line can sit in a zone of a floor
+ALTER TABLE public.project_floors
+  ADD COLUMN site_id UUID REFERENCES public.sites(id) ON DELETE SET NULL;
+
+ALTER TABLE public.project_devices
+  ADD COLUMN zone TEXT;
+
+-- Deleting a floor moves its devices back to "Unassigned" instead of removing them from the BOQ
+ALTER TABLE public.project_devices DROP CONSTRAINT IF EXISTS project_devices_floor_id_fkey;
+ALTER TABLE public.project_devices
+  ADD CONSTRAINT project_devices_floor_id_fkey
+  FOREIGN KEY (floor_id) REFERENCES public.project_floors(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_project_devices_floor_id ON public.project_devices(floor_id);
+CREATE INDEX IF NOT EXISTS idx_project_floors_project_id ON public.project_floors(project_id);
@@ -0,0 +1,47 @@
+-- Projects carry their own currency; prefer it over the deal / customer currency when resolving
+-- the effective currency (used to normalise BOQ cost and sell figures to the project currency)
+CREATE OR REPLACE FUNCTION public.get_effective_currency(
+  entity_type TEXT,
+  entity_id UUID,
+  input_tenant_id UUID
+)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    -- Try to get currency from the entity itself
+    CASE 
+      WHEN entity_type = 'customer' THEN (
+        SELECT currency_id FROM customers WHERE id = entity_id
+      )
+      WHEN entity_type = 'deal' THEN (
+        SELECT COALESCE(
+          d.currency_id,
+          c.currency_id
+        )
+        FROM deals d
+        LEFT JOIN customers c ON d.customer_id = c.id 
+        WHERE d.id = entity_id
+      )
+      WHEN entity_type = 'project' THEN (
+        SELECT COALESCE(
+          p.currency_id,
+          d.currency_id,
+          c.currency_id,
+          (SELECT default_currency_id FROM tenants WHERE id = input_tenant_id)
+        )
+        FROM projects p
+        LEFT JOIN deals d ON p.deal_id = d.id
+        LEFT JOIN customers c ON d.customer_id = c.id 
+        WHERE p.id = entity_id
+      )
+    END,
+    -- Fallback to tenant default currency
+    (SELECT default_currency_id FROM tenants WHERE id = input_tenant_id),
+    -- Final fallback to USD
+    (SELECT id FROM currencies WHERE code = 'USD' LIMIT 1)
+  );
+$$;
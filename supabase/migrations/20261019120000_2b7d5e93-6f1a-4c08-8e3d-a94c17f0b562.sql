@@ -0,0 +1,16 @@
+-- Scheduled reports: quarterly and cron schedules. Times, days and the time zone live in schedule_config.
+ALTER TABLE public.scheduled_reports
+DROP CONSTRAINT IF EXISTS scheduled_reports_schedule_type_check;
+
+ALTER TABLE public.scheduled_reports
+ADD CONSTRAINT scheduled_reports_schedule_type_check
+CHECK (schedule_type IN ('daily', 'weekly', 'monthly', 'quarterly', 'cron'));
+
+-- Schedules that follow the recipients' time zones run once per zone; next_run_at is the earliest of these
+ALTER TABLE public.scheduled_reports
+ADD COLUMN timezone_next_runs JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- The scheduler looks up active schedules by their next run
+CREATE INDEX IF NOT EXISTS idx_scheduled_reports_due
+ON public.scheduled_reports (next_run_at)
+WHERE is_active = true;
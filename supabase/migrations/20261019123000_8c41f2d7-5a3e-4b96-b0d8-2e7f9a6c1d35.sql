@@ -0,0 +1,59 @@
+-- Generated report files (XLSX and PDF) for on-demand and scheduled exports
+
+ALTER TABLE public.report_exports
+  DROP CONSTRAINT IF EXISTS report_exports_export_type_check;
+
+ALTER TABLE public.report_exports
+  ADD CONSTRAINT report_exports_export_type_check
+  CHECK (export_type IN ('csv', 'pdf', 'xlsx'));
+
+ALTER TABLE public.report_exports
+  ADD COLUMN scheduled_report_id UUID REFERENCES public.scheduled_reports(id) ON DELETE SET NULL,
+  ADD COLUMN file_name TEXT,
+  ADD COLUMN file_size INTEGER,
+  ADD COLUMN row_count INTEGER,
+  ADD COLUMN error_message TEXT;
+
+CREATE INDEX idx_report_exports_report ON public.report_exports (report_id, created_at DESC);
+
+-- Private bucket for generated export files, one folder per tenant
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('report-exports', 'report-exports', false);
+
+CREATE POLICY "Tenant users can view report exports"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'report-exports' AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+CREATE POLICY "Tenant users can upload report exports"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'report-exports' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
+
+CREATE POLICY "Tenant users can delete report exports"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'report-exports' AND
+  auth.uid() IS NOT NULL AND
+  (storage.foldername(name))[1] IN (
+    SELECT tenant_id::text
+    FROM user_tenant_memberships
+    WHERE user_id = auth.uid() AND active = true
+  )
+);
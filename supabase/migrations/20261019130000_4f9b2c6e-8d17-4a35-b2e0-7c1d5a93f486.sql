@@ -0,0 +1,286 @@
+-- Report sharing and row-level report visibility
+--
+-- Private reports are visible to their owner, tenant admins and whoever they are shared with: specific users, the
+-- users of a branch or department, or the users holding a custom role. Tenant-wide reports stay visible to everyone
+-- in the tenant. Independently of who can open a report, the rows it shows follow the viewer's own visibility scope.
+
+CREATE TABLE public.report_shares (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  report_id UUID NOT NULL REFERENCES public.reports(id) ON DELETE CASCADE,
+  share_type TEXT NOT NULL CHECK (share_type IN ('user', 'branch', 'department', 'role')),
+  -- A profile, branch, department or custom role id, depending on share_type
+  target_id UUID NOT NULL,
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (report_id, share_type, target_id)
+);
+
+CREATE INDEX idx_report_shares_target ON public.report_shares (tenant_id, share_type, target_id);
+
+-- Branches of a user, assigned directly or through their department
+CREATE OR REPLACE FUNCTION public.get_user_branch_ids(_user_id UUID, _tenant_id UUID)
+RETURNS SETOF UUID
+LANGUAGE SQL
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT branch_id
+  FROM user_branch_assignments
+  WHERE user_id = _user_id AND tenant_id = _tenant_id
+  UNION
+  SELECT d.branch_id
+  FROM user_department_assignments uda
+  JOIN departments d ON d.id = uda.department_id
+  WHERE uda.user_id = _user_id AND uda.tenant_id = _tenant_id AND d.branch_id IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_view_report(_report_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM reports r
+    WHERE r.id = _report_id
+      AND user_has_tenant_access(_user_id, r.tenant_id)
+      AND (
+        r.created_by = _user_id
+        OR r.visibility = 'tenant'
+        OR has_role_in_tenant(_user_id, r.tenant_id, 'admin')
+        OR is_super_admin(_user_id)
+        OR EXISTS (
+          SELECT 1
+          FROM report_shares s
+          WHERE s.report_id = r.id
+            AND (
+              (s.share_type = 'user' AND s.target_id = _user_id)
+              OR (s.share_type = 'branch' AND s.target_id IN (SELECT get_user_branch_ids(_user_id, r.tenant_id)))
+              OR (s.share_type = 'department' AND s.target_id IN (
+                SELECT department_id
+                FROM user_department_assignments
+                WHERE user_id = _user_id AND tenant_id = r.tenant_id
+              ))
+              OR (s.share_type = 'role' AND s.target_id IN (
+                SELECT custom_role_id
+                FROM user_tenant_memberships
+                WHERE user_id = _user_id AND tenant_id = r.tenant_id AND active = true AND custom_role_id IS NOT NULL
+              ))
+            )
+        )
+      )
+  );
+$$;
+
+-- Owners of the records a user may see in reports on an entity type, or NULL when they see every record.
+-- Follows the custom role's visibility when it sets one and get_user_assignment_scope otherwise; selected users
+-- come from user_visibility_permissions and the custom role.
+CREATE OR REPLACE FUNCTION public.get_report_scope_user_ids(_user_id UUID, _tenant_id UUID, _entity_type TEXT)
+RETURNS UUID[]
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _role_permissions JSONB;
+  _scope TEXT;
+  _user_ids UUID[];
+BEGIN
+  -- Users may only look up their own scope; the service role and tenant admins may look up anyone's
+  IF NOT (auth.role() = 'service_role' OR auth.uid() = _user_id OR is_tenant_admin_for(_tenant_id)) THEN
+    RAISE EXCEPTION 'Not allowed to read the report scope of another user';
+  END IF;
+
+  IF NOT user_has_tenant_access(_user_id, _tenant_id) THEN
+    RETURN ARRAY[]::UUID[];
+  END IF;
+
+  IF has_role_in_tenant(_user_id, _tenant_id, 'admin') OR is_super_admin(_user_id) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT cr.permissions -> _entity_type
+  INTO _role_permissions
+  FROM user_tenant_memberships m
+  JOIN custom_roles cr ON cr.id = m.custom_role_id AND cr.active = true
+  WHERE m.user_id = _user_id AND m.tenant_id = _tenant_id AND m.active = true;
+
+  _scope := COALESCE(_role_permissions ->> 'visibility', get_user_assignment_scope(_user_id, _tenant_id, _entity_type));
+
+  CASE _scope
+    WHEN 'all' THEN
+      RETURN NULL;
+    WHEN 'department' THEN
+      SELECT array_agg(DISTINCT other.user_id)
+      INTO _user_ids
+      FROM user_department_assignments own
+      JOIN user_department_assignments other
+        ON other.department_id = own.department_id AND other.tenant_id = _tenant_id
+      WHERE own.user_id = _user_id AND own.tenant_id = _tenant_id;
+    WHEN 'branch' THEN
+      SELECT array_agg(DISTINCT members.user_id)
+      INTO _user_ids
+      FROM (
+        SELECT uba.user_id
+        FROM user_branch_assignments uba
+        WHERE uba.tenant_id = _tenant_id
+          AND uba.branch_id IN (SELECT get_user_branch_ids(_user_id, _tenant_id))
+        UNION
+        SELECT uda.user_id
+        FROM user_department_assignments uda
+        JOIN departments d ON d.id = uda.department_id
+        WHERE uda.tenant_id = _tenant_id
+          AND d.branch_id IN (SELECT get_user_branch_ids(_user_id, _tenant_id))
+      ) members;
+    WHEN 'selected_users' THEN
+      SELECT array_agg(DISTINCT selected.user_id)
+      INTO _user_ids
+      FROM (
+        SELECT unnest(allowed_user_ids) AS user_id
+        FROM user_visibility_permissions
+        WHERE user_id = _user_id AND tenant_id = _tenant_id AND entity_type = _entity_type
+        UNION
+        SELECT jsonb_array_elements_text(COALESCE(_role_permissions -> 'visibility_selected_users', '[]'::jsonb))::UUID
+      ) selected;
+    ELSE
+      _user_ids := ARRAY[]::UUID[];
+  END CASE;
+
+  -- Everyone sees their own records
+  RETURN array_append(array_remove(COALESCE(_user_ids, ARRAY[]::UUID[]), _user_id), _user_id);
+END;
+$$;
+
+ALTER TABLE public.report_shares ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view shares of reports they can view"
+ON public.report_shares
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND can_view_report(report_id, auth.uid()));
+
+CREATE POLICY "Report owners and admins can manage shares"
+ON public.report_shares
+FOR ALL
+USING (
+  user_has_tenant_access(auth.uid(), tenant_id) AND (
+    is_tenant_admin_for(tenant_id) OR
+    EXISTS (SELECT 1 FROM reports r WHERE r.id = report_id AND r.created_by = auth.uid())
+  )
+)
+WITH CHECK (
+  user_has_tenant_access(auth.uid(), tenant_id) AND (
+    is_tenant_admin_for(tenant_id) OR
+    EXISTS (SELECT 1 FROM reports r WHERE r.id = report_id AND r.created_by = auth.uid())
+  )
+);
+
+-- Reports: visible as above, editable by their owner and tenant admins
+DROP POLICY IF EXISTS "Tenant access for reports" ON public.reports;
+
+CREATE POLICY "Users can view reports shared with them"
+ON public.reports
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND can_view_report(id, auth.uid()));
+
+CREATE POLICY "Users can create their own reports"
+ON public.reports
+FOR INSERT
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id) AND created_by = auth.uid());
+
+CREATE POLICY "Report owners and admins can update reports"
+ON public.reports
+FOR UPDATE
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND (created_by = auth.uid() OR is_tenant_admin_for(tenant_id)))
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE POLICY "Report owners and admins can delete reports"
+ON public.reports
+FOR DELETE
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND (created_by = auth.uid() OR is_tenant_admin_for(tenant_id)));
+
+-- Dashboard widgets follow the visibility of their report
+DROP POLICY IF EXISTS "Tenant access for report widgets" ON public.report_widgets;
+
+CREATE POLICY "Users can view widgets of reports they can view"
+ON public.report_widgets
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND can_view_report(report_id, auth.uid()));
+
+CREATE POLICY "Users can create widgets of reports they can view"
+ON public.report_widgets
+FOR INSERT
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id) AND can_view_report(report_id, auth.uid()));
+
+CREATE POLICY "Tenant users can update report widgets"
+ON public.report_widgets
+FOR UPDATE
+USING (user_has_tenant_access(auth.uid(), tenant_id))
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id) AND can_view_report(report_id, auth.uid()));
+
+CREATE POLICY "Tenant users can delete report widgets"
+ON public.report_widgets
+FOR DELETE
+USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+-- Export files hold rows rendered under their requester's scope, so only the requester (or the schedule owner the
+-- file was generated for) and tenant admins can see them
+DROP POLICY IF EXISTS "Tenant access for report exports" ON public.report_exports;
+
+CREATE POLICY "Users can view their own report exports"
+ON public.report_exports
+FOR SELECT
+USING (
+  user_has_tenant_access(auth.uid(), tenant_id) AND
+  (user_id = auth.uid() OR is_tenant_admin_for(tenant_id))
+);
+
+CREATE POLICY "Users can create their own report exports"
+ON public.report_exports
+FOR INSERT
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id) AND user_id = auth.uid());
+
+CREATE POLICY "Users can update their own report exports"
+ON public.report_exports
+FOR UPDATE
+USING (user_has_tenant_access(auth.uid(), tenant_id) AND user_id = auth.uid())
+WITH CHECK (user_has_tenant_access(auth.uid(), tenant_id) AND user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own report exports"
+ON public.report_exports
+FOR DELETE
+USING (
+  user_has_tenant_access(auth.uid(), tenant_id) AND
+  (user_id = auth.uid() OR is_tenant_admin_for(tenant_id))
+);
+
+-- Export objects follow the report_exports row that records them
+DROP POLICY IF EXISTS "Tenant users can view report exports" ON storage.objects;
+DROP POLICY IF EXISTS "Tenant users can delete report exports" ON storage.objects;
+
+CREATE POLICY "Users can view their own report export files"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'report-exports' AND
+  EXISTS (
+    SELECT 1 FROM public.report_exports e
+    WHERE e.file_path = name
+      AND user_has_tenant_access(auth.uid(), e.tenant_id)
+      AND (e.user_id = auth.uid() OR is_tenant_admin_for(e.tenant_id))
+  )
+);
+
+CREATE POLICY "Users can delete their own report export files"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'report-exports' AND
+  EXISTS (
+    SELECT 1 FROM public.report_exports e
+    WHERE e.file_path = name
+      AND user_has_tenant_access(auth.uid(), e.tenant_id)
+      AND (e.user_id = auth.uid() OR is_tenant_admin_for(e.tenant_id))
+  )
+);
@@ -0,0 +1,160 @@
+-- Collections for overdue installments
+--
+-- process-overdue-installments runs daily. Once an unpaid installment is overdue by follow_up_after_days it creates a
+-- follow-up todo for the contract's assignee; after escalate_after_days it adds an escalation todo for the assignee's
+-- manager. Managers are the users holding escalation_role_id in the assignee's department or branch, falling back to
+-- the tenant admins.
+
+CREATE TABLE public.collection_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL UNIQUE REFERENCES public.tenants(id) ON DELETE CASCADE,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  follow_up_after_days INTEGER NOT NULL DEFAULT 1 CHECK (follow_up_after_days >= 0),
+  escalate_after_days INTEGER NOT NULL DEFAULT 14 CHECK (escalate_after_days >= 0),
+  escalation_role_id UUID REFERENCES public.custom_roles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.collection_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view collection settings in their tenant"
+  ON public.collection_settings FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+-- Only admins change who overdue installments escalate to and when
+CREATE POLICY "Tenant admins can manage collection settings"
+  ON public.collection_settings FOR ALL
+  USING (is_tenant_admin_for(tenant_id))
+  WITH CHECK (is_tenant_admin_for(tenant_id));
+
+CREATE TRIGGER update_collection_settings_updated_at
+  BEFORE UPDATE ON public.collection_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- One row per spell an installment spends overdue; an installment that is paid, then reopened and overdue again gets
+-- a new row. Written by process-overdue-installments only.
+CREATE TABLE public.payment_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  payment_term_id UUID NOT NULL REFERENCES public.contract_payment_terms(id) ON DELETE CASCADE,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  follow_up_todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  escalation_todo_id UUID REFERENCES public.todos(id) ON DELETE SET NULL,
+  escalated_to UUID REFERENCES public.profiles(id),
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  -- Set once the installment is paid or no longer overdue
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_collections_contract ON public.payment_collections (contract_id);
+CREATE INDEX idx_payment_collections_open ON public.payment_collections (tenant_id) WHERE resolved_at IS NULL;
+-- At most one open collection per installment
+CREATE UNIQUE INDEX idx_payment_collections_open_term
+  ON public.payment_collections (payment_term_id) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.payment_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payment collections in their tenant"
+  ON public.payment_collections FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE TRIGGER update_payment_collections_updated_at
+  BEFORE UPDATE ON public.payment_collections
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Manager an overdue installment of _user_id escalates to: a holder of _role_id in the user's department, then in
+-- their branch, then anywhere in the tenant; without a role (or a holder) the first tenant admin
+CREATE OR REPLACE FUNCTION public.get_escalation_manager(_tenant_id UUID, _user_id UUID, _role_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT candidate.user_id
+  FROM (
+    SELECT
+      m.user_id,
+      CASE
+        WHEN _role_id IS NOT NULL AND m.custom_role_id = _role_id AND EXISTS (
+          SELECT 1
+          FROM user_department_assignments own
+          JOIN user_department_assignments other ON other.department_id = own.department_id
+          WHERE own.user_id = _user_id AND own.tenant_id = _tenant_id AND other.user_id = m.user_id
+        ) THEN 1
+        WHEN _role_id IS NOT NULL AND m.custom_role_id = _role_id AND m.user_id IN (
+          SELECT uba.user_id
+          FROM user_branch_assignments uba
+          WHERE uba.tenant_id = _tenant_id AND uba.branch_id IN (SELECT get_user_branch_ids(_user_id, _tenant_id))
+        ) THEN 2
+        WHEN _role_id IS NOT NULL AND m.custom_role_id = _role_id THEN 3
+        WHEN m.role = 'admin' THEN 4
+        WHEN m.role = 'owner' THEN 5
+      END AS rank,
+      m.created_at
+    FROM user_tenant_memberships m
+    WHERE m.tenant_id = _tenant_id
+      AND m.active = true
+      AND m.user_id IS DISTINCT FROM _user_id
+  ) candidate
+  WHERE candidate.rank IS NOT NULL
+  ORDER BY candidate.rank, candidate.created_at
+  LIMIT 1;
+$$;
+
+-- Reveals who manages whom, so it is left to the overdue installment job
+REVOKE EXECUTE ON FUNCTION public.get_escalation_manager(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Opens a collection for an overdue installment together with its follow-up todo. Returns NULL, creating nothing,
+-- when the installment already has an open collection.
+CREATE OR REPLACE FUNCTION public.open_payment_collection(
+  _payment_term_id UUID,
+  _assigned_to UUID,
+  _title TEXT,
+  _description TEXT,
+  _due_date DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _term RECORD;
+  _collection_id UUID;
+  _todo_id UUID;
+BEGIN
+  SELECT id, tenant_id, contract_id INTO _term FROM contract_payment_terms WHERE id = _payment_term_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Installment not found';
+  END IF;
+
+  INSERT INTO payment_collections (tenant_id, payment_term_id, contract_id)
+  VALUES (_term.tenant_id, _term.id, _term.contract_id)
+  ON CONFLICT (payment_term_id) WHERE resolved_at IS NULL DO NOTHING
+  RETURNING id INTO _collection_id;
+
+  IF _collection_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO todos (
+    tenant_id, title, description, entity_type, entity_id, payment_term_id,
+    assigned_to, created_by, priority, status, due_date
+  ) VALUES (
+    _term.tenant_id, _title, _description, 'contract', _term.contract_id, _term.id,
+    _assigned_to, _assigned_to, 'high', 'pending', _due_date
+  ) RETURNING id INTO _todo_id;
+
+  UPDATE payment_collections SET follow_up_todo_id = _todo_id WHERE id = _collection_id;
+
+  RETURN _collection_id;
+END;
+$$;
+
+-- Only callable by process-overdue-installments, which runs with the service role
+REVOKE EXECUTE ON FUNCTION public.open_payment_collection(UUID, UUID, TEXT, TEXT, DATE)
+  FROM PUBLIC, anon, authenticated;
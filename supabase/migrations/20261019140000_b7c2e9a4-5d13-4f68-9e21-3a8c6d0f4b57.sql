@@ -0,0 +1,553 @@
+-- Payment receipts allocated across installments
+--
+-- A receipt is money received against a contract. It is allocated to one or more installments (oldest first or by
+-- hand); whatever is left unallocated stays on the receipt as credit that is applied to later installments. The
+-- received_amount, received_date and payment_status of an installment are derived from its allocations, and every
+-- allocation change is written to contract_audit_logs. Receipts supersede contract_payment_records.
+
+CREATE TABLE public.payment_receipts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  contract_id UUID NOT NULL REFERENCES public.contracts(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  reference TEXT,
+  notes TEXT,
+  registered_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payment_receipts_contract ON public.payment_receipts (contract_id, received_date);
+
+CREATE TABLE public.payment_allocations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  receipt_id UUID NOT NULL REFERENCES public.payment_receipts(id) ON DELETE CASCADE,
+  payment_term_id UUID NOT NULL REFERENCES public.contract_payment_terms(id) ON DELETE CASCADE,
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  created_by UUID REFERENCES public.profiles(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (receipt_id, payment_term_id)
+);
+
+CREATE INDEX idx_payment_allocations_term ON public.payment_allocations (payment_term_id);
+
+ALTER TABLE public.payment_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view payment receipts in their tenant"
+  ON public.payment_receipts FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE POLICY "Contract editors can update payment receipts"
+  ON public.payment_receipts FOR UPDATE
+  USING (user_can_modify_contract(contract_id, auth.uid()))
+  WITH CHECK (user_can_modify_contract(contract_id, auth.uid()));
+
+CREATE POLICY "Contract editors can delete payment receipts"
+  ON public.payment_receipts FOR DELETE
+  USING (user_can_modify_contract(contract_id, auth.uid()));
+
+-- Receipts are registered and allocated through the functions below
+CREATE POLICY "Users can view payment allocations in their tenant"
+  ON public.payment_allocations FOR SELECT
+  USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE TRIGGER update_payment_receipts_updated_at
+  BEFORE UPDATE ON public.payment_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payment_allocations_updated_at
+  BEFORE UPDATE ON public.payment_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Status values written so far: 'partly paid' (accept payment) and 'partial' (edit form)
+UPDATE public.contract_payment_terms SET payment_status = 'partial' WHERE payment_status = 'partly paid';
+
+-- Amounts already received become one receipt per installment, so that received_amount keeps adding up
+WITH received AS (
+  SELECT gen_random_uuid() AS receipt_id, id, tenant_id, contract_id, installment_number, received_amount,
+         COALESCE(received_date, updated_at::date) AS received_date
+  FROM public.contract_payment_terms
+  WHERE received_amount > 0
+), receipts AS (
+  INSERT INTO public.payment_receipts (id, tenant_id, contract_id, amount, received_date, notes)
+  SELECT receipt_id, tenant_id, contract_id, received_amount, received_date,
+         'Received on installment ' || installment_number || ' before payment receipts were introduced'
+  FROM received
+  RETURNING id
+)
+INSERT INTO public.payment_allocations (tenant_id, receipt_id, payment_term_id, amount)
+SELECT received.tenant_id, received.receipt_id, received.id, received.received_amount
+FROM received
+JOIN receipts ON receipts.id = received.receipt_id;
+
+-- Amount of an installment: calculated when stored, otherwise its fixed amount or its percentage of the contract value.
+-- Same as installmentAmount in src/lib/cash-flow-forecast.ts.
+CREATE OR REPLACE FUNCTION public.payment_term_amount(
+  _calculated_amount NUMERIC,
+  _amount_type TEXT,
+  _amount_value NUMERIC,
+  _contract_id UUID
+)
+RETURNS NUMERIC
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    _calculated_amount,
+    CASE
+      WHEN _amount_type = 'percentage'
+        THEN (SELECT COALESCE(value, 0) FROM contracts WHERE id = _contract_id) * COALESCE(_amount_value, 0) / 100
+      ELSE COALESCE(_amount_value, 0)
+    END
+  )
+$$;
+
+-- payment_status follows received_amount whenever it or the installment amount changes
+CREATE OR REPLACE FUNCTION public.derive_payment_term_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _due NUMERIC := payment_term_amount(NEW.calculated_amount, NEW.amount_type, NEW.amount_value, NEW.contract_id);
+  _received NUMERIC := COALESCE(NEW.received_amount, 0);
+BEGIN
+  IF NEW.received_amount IS DISTINCT FROM OLD.received_amount
+     OR NEW.calculated_amount IS DISTINCT FROM OLD.calculated_amount
+     OR NEW.amount_type IS DISTINCT FROM OLD.amount_type
+     OR NEW.amount_value IS DISTINCT FROM OLD.amount_value THEN
+    IF _received > 0 AND _received >= _due THEN
+      NEW.payment_status := 'paid';
+    ELSIF _received > 0 THEN
+      NEW.payment_status := 'partial';
+    ELSIF NEW.payment_status IN ('paid', 'partial') THEN
+      NEW.payment_status := 'pending';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER derive_contract_payment_term_status
+  BEFORE UPDATE ON public.contract_payment_terms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.derive_payment_term_status();
+
+-- An allocation stays within its receipt and within the amount of its installment
+CREATE OR REPLACE FUNCTION public.validate_payment_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt RECORD;
+  _term RECORD;
+  _allocated NUMERIC;
+BEGIN
+  SELECT * INTO _receipt FROM payment_receipts WHERE id = NEW.receipt_id FOR UPDATE;
+  SELECT * INTO _term FROM contract_payment_terms WHERE id = NEW.payment_term_id FOR UPDATE;
+
+  IF _term.contract_id IS DISTINCT FROM _receipt.contract_id THEN
+    RAISE EXCEPTION 'Installment % does not belong to the contract of this receipt', _term.installment_number;
+  END IF;
+
+  NEW.tenant_id := _receipt.tenant_id;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _allocated
+  FROM payment_allocations
+  WHERE receipt_id = NEW.receipt_id AND id IS DISTINCT FROM NEW.id;
+  IF _allocated + NEW.amount > _receipt.amount THEN
+    RAISE EXCEPTION 'Allocations exceed the receipt amount of %', _receipt.amount;
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) INTO _allocated
+  FROM payment_allocations
+  WHERE payment_term_id = NEW.payment_term_id AND id IS DISTINCT FROM NEW.id;
+  IF _allocated + NEW.amount > payment_term_amount(_term.calculated_amount, _term.amount_type, _term.amount_value, _term.contract_id) THEN
+    RAISE EXCEPTION 'Allocations exceed the amount of installment %', _term.installment_number;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payment_allocation
+  BEFORE INSERT OR UPDATE ON public.payment_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payment_allocation();
+
+-- Recomputes received_amount and received_date of an installment from its allocations and audits the change
+CREATE OR REPLACE FUNCTION public.sync_payment_allocation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _allocation RECORD;
+  _term RECORD;
+  _receipt RECORD;
+  _received NUMERIC;
+  _received_date DATE;
+  _action TEXT;
+  _note TEXT;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    _allocation := OLD;
+  ELSE
+    _allocation := NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.amount = NEW.amount THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, contract_id, tenant_id, installment_number, received_amount INTO _term
+  FROM contract_payment_terms
+  WHERE id = _allocation.payment_term_id;
+
+  -- The installment itself is being deleted
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT COALESCE(SUM(a.amount), 0), MAX(r.received_date) INTO _received, _received_date
+  FROM payment_allocations a
+  JOIN payment_receipts r ON r.id = a.receipt_id
+  WHERE a.payment_term_id = _term.id;
+
+  UPDATE contract_payment_terms
+  SET received_amount = _received,
+      received_date = _received_date,
+      updated_at = now()
+  WHERE id = _term.id;
+
+  SELECT amount, received_date, reference INTO _receipt FROM payment_receipts WHERE id = _allocation.receipt_id;
+
+  _note := 'receipt of ' || COALESCE(_receipt.amount::TEXT, 'deleted receipt')
+    || COALESCE(' received ' || _receipt.received_date, '')
+    || COALESCE(' (' || _receipt.reference || ')', '');
+
+  IF TG_OP = 'INSERT' THEN
+    _action := 'payment_allocated';
+    _note := NEW.amount || ' allocated to installment ' || _term.installment_number || ' from ' || _note;
+  ELSIF TG_OP = 'UPDATE' THEN
+    _action := 'payment_allocation_changed';
+    _note := 'Allocation to installment ' || _term.installment_number || ' changed from ' || OLD.amount || ' to '
+      || NEW.amount || ' on ' || _note;
+  ELSE
+    _action := 'payment_allocation_removed';
+    _note := OLD.amount || ' unallocated from installment ' || _term.installment_number || ' on ' || _note;
+  END IF;
+
+  INSERT INTO contract_audit_logs (
+    contract_id, tenant_id, action, entity_type, entity_id,
+    field_name, old_value, new_value, user_id, user_name, notes
+  ) VALUES (
+    _term.contract_id, _term.tenant_id, _action, 'payment_term', _term.id,
+    'received_amount', to_jsonb(COALESCE(_term.received_amount, 0)), to_jsonb(_received),
+    COALESCE(auth.uid(), _allocation.created_by),
+    (SELECT first_name || ' ' || last_name FROM profiles WHERE id = COALESCE(auth.uid(), _allocation.created_by)),
+    _note
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_payment_allocation
+  AFTER INSERT OR UPDATE OR DELETE ON public.payment_allocations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_payment_allocation();
+
+-- Lowering the amount of an installment below what is allocated to it releases the excess back to the receipts as
+-- credit, most recent receipt first
+CREATE OR REPLACE FUNCTION public.release_excess_payment_allocations()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _excess NUMERIC;
+  _allocation RECORD;
+BEGIN
+  SELECT COALESCE(SUM(amount), 0) - payment_term_amount(NEW.calculated_amount, NEW.amount_type, NEW.amount_value, NEW.contract_id)
+  INTO _excess
+  FROM payment_allocations
+  WHERE payment_term_id = NEW.id;
+
+  FOR _allocation IN
+    SELECT a.id, a.amount
+    FROM payment_allocations a
+    JOIN payment_receipts r ON r.id = a.receipt_id
+    WHERE a.payment_term_id = NEW.id
+    ORDER BY r.received_date DESC, r.created_at DESC
+  LOOP
+    EXIT WHEN _excess <= 0;
+    IF _allocation.amount <= _excess THEN
+      DELETE FROM payment_allocations WHERE id = _allocation.id;
+    ELSE
+      UPDATE payment_allocations SET amount = amount - _excess WHERE id = _allocation.id;
+    END IF;
+    _excess := _excess - _allocation.amount;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER release_excess_payment_allocations
+  AFTER UPDATE OF calculated_amount, amount_type, amount_value ON public.contract_payment_terms
+  FOR EACH ROW
+  WHEN (
+    payment_term_amount(NEW.calculated_amount, NEW.amount_type, NEW.amount_value, NEW.contract_id)
+      < payment_term_amount(OLD.calculated_amount, OLD.amount_type, OLD.amount_value, OLD.contract_id)
+  )
+  EXECUTE FUNCTION public.release_excess_payment_allocations();
+
+CREATE OR REPLACE FUNCTION public.log_payment_receipt_audit_trail()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO contract_audit_logs (
+      contract_id, tenant_id, action, entity_type, entity_id,
+      field_name, old_value, new_value, user_id, user_name, notes
+    ) VALUES (
+      NEW.contract_id, NEW.tenant_id, 'payment_receipt_registered', 'payment_receipt', NEW.id,
+      NULL, NULL, to_jsonb(NEW),
+      COALESCE(auth.uid(), NEW.registered_by),
+      (SELECT first_name || ' ' || last_name FROM profiles WHERE id = COALESCE(auth.uid(), NEW.registered_by)),
+      'Payment of ' || NEW.amount || ' received on ' || NEW.received_date
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' AND EXISTS (SELECT 1 FROM contracts WHERE id = OLD.contract_id) THEN
+    INSERT INTO contract_audit_logs (
+      contract_id, tenant_id, action, entity_type, entity_id,
+      field_name, old_value, new_value, user_id, user_name, notes
+    ) VALUES (
+      OLD.contract_id, OLD.tenant_id, 'payment_receipt_deleted', 'payment_receipt', OLD.id,
+      NULL, to_jsonb(OLD), NULL,
+      COALESCE(auth.uid(), OLD.registered_by),
+      (SELECT first_name || ' ' || last_name FROM profiles WHERE id = COALESCE(auth.uid(), OLD.registered_by)),
+      'Payment of ' || OLD.amount || ' received on ' || OLD.received_date || ' deleted'
+    );
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER log_payment_receipt_audit_trail
+  AFTER INSERT OR DELETE ON public.payment_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_payment_receipt_audit_trail();
+
+-- A receipt cannot shrink below what has been allocated from it
+CREATE OR REPLACE FUNCTION public.validate_payment_receipt_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.amount < (SELECT COALESCE(SUM(amount), 0) FROM payment_allocations WHERE receipt_id = NEW.id) THEN
+    RAISE EXCEPTION 'The receipt amount is less than what is already allocated from it';
+  END IF;
+  IF NEW.contract_id IS DISTINCT FROM OLD.contract_id THEN
+    RAISE EXCEPTION 'A receipt cannot be moved to another contract';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_payment_receipt_amount
+  BEFORE UPDATE ON public.payment_receipts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.validate_payment_receipt_amount();
+
+-- Allocates the unallocated remainder of a receipt to the open installments of its contract, oldest due date first.
+-- Returns the credit left on the receipt.
+CREATE OR REPLACE FUNCTION public.allocate_payment_receipt(_receipt_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt RECORD;
+  _term RECORD;
+  _remaining NUMERIC;
+  _share NUMERIC;
+BEGIN
+  SELECT * INTO _receipt FROM payment_receipts WHERE id = _receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment receipt not found';
+  END IF;
+  IF NOT user_can_modify_contract(_receipt.contract_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to allocate payments on this contract';
+  END IF;
+
+  _remaining := _receipt.amount - (SELECT COALESCE(SUM(amount), 0) FROM payment_allocations WHERE receipt_id = _receipt_id);
+
+  FOR _term IN
+    SELECT t.id,
+      payment_term_amount(t.calculated_amount, t.amount_type, t.amount_value, t.contract_id) - COALESCE(SUM(a.amount), 0)
+        AS outstanding
+    FROM contract_payment_terms t
+    LEFT JOIN payment_allocations a ON a.payment_term_id = t.id
+    WHERE t.contract_id = _receipt.contract_id
+    GROUP BY t.id
+    HAVING payment_term_amount(t.calculated_amount, t.amount_type, t.amount_value, t.contract_id)
+      - COALESCE(SUM(a.amount), 0) > 0
+    ORDER BY t.due_date NULLS LAST, t.installment_number
+  LOOP
+    EXIT WHEN _remaining <= 0;
+    _share := LEAST(_remaining, _term.outstanding);
+
+    INSERT INTO payment_allocations (tenant_id, receipt_id, payment_term_id, amount, created_by)
+    VALUES (_receipt.tenant_id, _receipt_id, _term.id, _share, auth.uid())
+    ON CONFLICT (receipt_id, payment_term_id)
+    DO UPDATE SET amount = payment_allocations.amount + EXCLUDED.amount;
+
+    _remaining := _remaining - _share;
+  END LOOP;
+
+  RETURN _remaining;
+END;
+$$;
+
+-- Replaces the allocations of a receipt with _allocations, a JSON array of {payment_term_id, amount}. Reductions
+-- are applied before increases so that moving money between installments never exceeds the receipt.
+CREATE OR REPLACE FUNCTION public.set_payment_receipt_allocations(_receipt_id UUID, _allocations JSONB)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt RECORD;
+  _change RECORD;
+BEGIN
+  SELECT * INTO _receipt FROM payment_receipts WHERE id = _receipt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment receipt not found';
+  END IF;
+  IF NOT user_can_modify_contract(_receipt.contract_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to allocate payments on this contract';
+  END IF;
+
+  FOR _change IN
+    WITH requested AS (
+      SELECT (item->>'payment_term_id')::UUID AS payment_term_id, SUM(ROUND((item->>'amount')::NUMERIC, 2)) AS amount
+      FROM jsonb_array_elements(COALESCE(_allocations, '[]'::JSONB)) AS item
+      GROUP BY 1
+    )
+    SELECT
+      COALESCE(r.payment_term_id, a.payment_term_id) AS payment_term_id,
+      a.id AS allocation_id,
+      COALESCE(a.amount, 0) AS current_amount,
+      GREATEST(COALESCE(r.amount, 0), 0) AS new_amount
+    FROM requested r
+    FULL JOIN (SELECT * FROM payment_allocations WHERE receipt_id = _receipt_id) a ON a.payment_term_id = r.payment_term_id
+    ORDER BY GREATEST(COALESCE(r.amount, 0), 0) - COALESCE(a.amount, 0)
+  LOOP
+    IF _change.new_amount = _change.current_amount THEN
+      CONTINUE;
+    ELSIF _change.new_amount = 0 THEN
+      DELETE FROM payment_allocations WHERE id = _change.allocation_id;
+    ELSIF _change.allocation_id IS NOT NULL THEN
+      UPDATE payment_allocations SET amount = _change.new_amount WHERE id = _change.allocation_id;
+    ELSE
+      INSERT INTO payment_allocations (tenant_id, receipt_id, payment_term_id, amount, created_by)
+      VALUES (_receipt.tenant_id, _receipt_id, _change.payment_term_id, _change.new_amount, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN _receipt.amount - (SELECT COALESCE(SUM(amount), 0) FROM payment_allocations WHERE receipt_id = _receipt_id);
+END;
+$$;
+
+-- Registers a receipt and allocates it: oldest first when _allocations is NULL, otherwise as given
+CREATE OR REPLACE FUNCTION public.record_payment_receipt(
+  _contract_id UUID,
+  _amount NUMERIC,
+  _received_date DATE DEFAULT CURRENT_DATE,
+  _reference TEXT DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _allocations JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt_id UUID;
+BEGIN
+  IF NOT user_can_modify_contract(_contract_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to register payments on this contract';
+  END IF;
+
+  INSERT INTO payment_receipts (tenant_id, contract_id, amount, received_date, reference, notes, registered_by)
+  SELECT tenant_id, _contract_id, ROUND(_amount, 2), COALESCE(_received_date, CURRENT_DATE), NULLIF(_reference, ''),
+         NULLIF(_notes, ''), auth.uid()
+  FROM contracts
+  WHERE id = _contract_id
+  RETURNING id INTO _receipt_id;
+
+  IF _allocations IS NULL THEN
+    PERFORM allocate_payment_receipt(_receipt_id);
+  ELSE
+    PERFORM set_payment_receipt_allocations(_receipt_id, _allocations);
+  END IF;
+
+  RETURN _receipt_id;
+END;
+$$;
+
+-- Applies the unallocated credit of all receipts on a contract, oldest receipt first, to its open installments.
+-- Returns the credit left over.
+CREATE OR REPLACE FUNCTION public.apply_contract_credit(_contract_id UUID)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _receipt RECORD;
+  _credit NUMERIC := 0;
+BEGIN
+  IF NOT user_can_modify_contract(_contract_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to allocate payments on this contract';
+  END IF;
+
+  FOR _receipt IN
+    SELECT r.id
+    FROM payment_receipts r
+    LEFT JOIN payment_allocations a ON a.receipt_id = r.id
+    WHERE r.contract_id = _contract_id
+    GROUP BY r.id
+    HAVING r.amount > COALESCE(SUM(a.amount), 0)
+    ORDER BY r.received_date, r.created_at
+  LOOP
+    _credit := _credit + allocate_payment_receipt(_receipt.id);
+  END LOOP;
+
+  RETURN _credit;
+END;
+$$;
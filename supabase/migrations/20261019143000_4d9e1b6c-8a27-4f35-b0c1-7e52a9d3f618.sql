@@ -0,0 +1,19 @@
+-- Stage moves in deal status history
+--
+-- The pipeline board moves deals between stages; each move is recorded in deal_status_history next to status
+-- changes. The status columns carry the (unchanged) deal status for stage moves.
+
+ALTER TABLE public.deal_status_history
+  ADD COLUMN old_stage_id UUID REFERENCES public.deal_stages(id) ON DELETE SET NULL,
+  ADD COLUMN new_stage_id UUID REFERENCES public.deal_stages(id) ON DELETE SET NULL;
+
+-- The board follows other users' moves through the deals-changes channel
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'deals'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.deals;
+  END IF;
+END $$;
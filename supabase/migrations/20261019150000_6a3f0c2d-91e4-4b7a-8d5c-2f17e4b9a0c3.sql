@@ -0,0 +1,140 @@
+-- Lead funnel: stage history for company, contact and site leads
+--
+-- Leads are companies, contacts and sites flagged is_lead, staged by lead_stages. Every stage a lead enters is
+-- recorded in lead_stage_history, as is the lead leaving the funnel (converted to a deal, or un-flagged). The time
+-- a lead spent in a stage is the gap between the row entering it and the next row for that lead.
+-- Deals remember the lead they were converted from, so leads can be followed through to deals and contracts.
+
+CREATE TABLE public.lead_stage_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('company', 'contact', 'site')),
+  entity_id UUID NOT NULL,
+  from_stage_id UUID REFERENCES public.lead_stages(id) ON DELETE SET NULL,
+  to_stage_id UUID REFERENCES public.lead_stages(id) ON DELETE SET NULL,
+  -- stage_changed: the lead entered to_stage_id (from_stage_id is null when it became a lead)
+  -- converted / closed: the lead left the funnel, with or without a deal
+  event TEXT NOT NULL DEFAULT 'stage_changed' CHECK (event IN ('stage_changed', 'converted', 'closed')),
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_stage_history_entity ON public.lead_stage_history (entity_type, entity_id, changed_at);
+CREATE INDEX idx_lead_stage_history_tenant ON public.lead_stage_history (tenant_id, changed_at);
+
+ALTER TABLE public.lead_stage_history ENABLE ROW LEVEL SECURITY;
+
+-- Written by the triggers below only
+CREATE POLICY "Users can view lead stage history in their tenant"
+ON public.lead_stage_history
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+ALTER TABLE public.deals
+  ADD COLUMN lead_entity_type TEXT CHECK (lead_entity_type IN ('company', 'contact', 'site')),
+  ADD COLUMN lead_entity_id UUID;
+
+CREATE INDEX idx_deals_lead_entity ON public.deals (lead_entity_type, lead_entity_id)
+  WHERE lead_entity_id IS NOT NULL;
+
+-- TG_ARGV[0] is the lead type of the table the trigger is on
+CREATE OR REPLACE FUNCTION public.log_lead_stage_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _was_lead BOOLEAN := false;
+  _old_stage_id UUID;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    _was_lead := COALESCE(OLD.is_lead, false);
+    _old_stage_id := OLD.stage_id;
+  END IF;
+
+  IF COALESCE(NEW.is_lead, false) THEN
+    IF NOT _was_lead OR NEW.stage_id IS DISTINCT FROM _old_stage_id THEN
+      INSERT INTO public.lead_stage_history (tenant_id, entity_type, entity_id, from_stage_id, to_stage_id, event, changed_by)
+      VALUES (
+        NEW.tenant_id, TG_ARGV[0], NEW.id,
+        CASE WHEN _was_lead THEN _old_stage_id END, NEW.stage_id,
+        'stage_changed', auth.uid()
+      );
+    END IF;
+  ELSIF _was_lead THEN
+    INSERT INTO public.lead_stage_history (tenant_id, entity_type, entity_id, from_stage_id, to_stage_id, event, changed_by)
+    VALUES (
+      NEW.tenant_id, TG_ARGV[0], NEW.id, _old_stage_id, NULL,
+      CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.deals
+          WHERE lead_entity_type = TG_ARGV[0] AND lead_entity_id = NEW.id
+        ) THEN 'converted'
+        ELSE 'closed'
+      END,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_company_lead_stage_transition
+  AFTER INSERT OR UPDATE OF stage_id, is_lead ON public.companies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_lead_stage_transition('company');
+
+CREATE TRIGGER log_contact_lead_stage_transition
+  AFTER INSERT OR UPDATE OF stage_id, is_lead ON public.contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_lead_stage_transition('contact');
+
+CREATE TRIGGER log_site_lead_stage_transition
+  AFTER INSERT OR UPDATE OF stage_id, is_lead ON public.sites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_lead_stage_transition('site');
+
+-- Open leads start their history in their current stage. Earlier moves were never recorded, so the creation date
+-- is the best known entry time.
+INSERT INTO public.lead_stage_history (tenant_id, entity_type, entity_id, to_stage_id, changed_at)
+SELECT tenant_id, 'company', id, stage_id, created_at FROM public.companies WHERE is_lead AND deleted_at IS NULL
+UNION ALL
+SELECT tenant_id, 'contact', id, stage_id, created_at FROM public.contacts WHERE is_lead AND deleted_at IS NULL
+UNION ALL
+SELECT tenant_id, 'site', id, stage_id, created_at FROM public.sites WHERE is_lead AND deleted_at IS NULL;
+
+-- Everything that is or has been a lead, across the three lead tables, for the funnel report
+CREATE OR REPLACE VIEW public.lead_funnel_entries
+WITH (security_invoker = true) AS
+SELECT
+  'company' AS entity_type, c.id AS entity_id, c.tenant_id, c.name,
+  COALESCE(c.is_lead, false) AS is_lead, c.stage_id, c.quality_id, c.source_id, c.created_at
+FROM public.companies c
+WHERE c.deleted_at IS NULL
+  AND (c.is_lead OR EXISTS (
+    SELECT 1 FROM public.lead_stage_history h WHERE h.entity_type = 'company' AND h.entity_id = c.id
+  ))
+
+UNION ALL
+
+SELECT
+  'contact', c.id, c.tenant_id, TRIM(c.first_name || ' ' || COALESCE(c.last_name, '')),
+  c.is_lead, c.stage_id, c.quality_id, c.source_id, c.created_at
+FROM public.contacts c
+WHERE c.deleted_at IS NULL
+  AND (c.is_lead OR EXISTS (
+    SELECT 1 FROM public.lead_stage_history h WHERE h.entity_type = 'contact' AND h.entity_id = c.id
+  ))
+
+UNION ALL
+
+SELECT
+  'site', s.id, s.tenant_id, s.name,
+  COALESCE(s.is_lead, false), s.stage_id, s.quality_id, s.source_id, s.created_at
+FROM public.sites s
+WHERE s.deleted_at IS NULL
+  AND (s.is_lead OR EXISTS (
+    SELECT 1 FROM public.lead_stage_history h WHERE h.entity_type = 'site' AND h.entity_id = s.id
+  ));
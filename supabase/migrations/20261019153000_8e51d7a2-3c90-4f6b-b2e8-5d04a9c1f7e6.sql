@@ -0,0 +1,309 @@
+-- Lead scoring
+--
+-- Each tenant configures rules that award points to company, contact and site leads: for attributes (industry,
+-- company size, high value, solution categories, source) and for engagement (activities logged, todos completed,
+-- files uploaded). Engagement rules award their points per item, optionally capped. The score is stored on the lead
+-- and recomputed whenever a scored attribute or the engagement changes.
+-- Lead qualities can carry a minimum score; when any active quality has one, the lead's quality follows its score.
+
+CREATE TABLE public.lead_scoring_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  rule_type TEXT NOT NULL CHECK (rule_type IN (
+    'industry', 'company_size', 'high_value', 'solution_category', 'source',
+    'activities', 'todos_completed', 'files'
+  )),
+  -- Industry or size (matched case-insensitively), solution category id or source id; null for the other types
+  match_value TEXT,
+  points INTEGER NOT NULL,
+  -- Cap on the points of an engagement rule
+  max_points INTEGER CHECK (max_points IS NULL OR max_points >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (
+    (rule_type IN ('industry', 'company_size', 'solution_category', 'source')) = (match_value IS NOT NULL)
+  )
+);
+
+CREATE INDEX idx_lead_scoring_rules_tenant ON public.lead_scoring_rules (tenant_id) WHERE active;
+
+ALTER TABLE public.lead_scoring_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view lead scoring rules in their tenant"
+ON public.lead_scoring_rules
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE POLICY "Tenant admins can manage lead scoring rules"
+ON public.lead_scoring_rules
+FOR ALL
+USING (is_tenant_admin_for(tenant_id))
+WITH CHECK (is_tenant_admin_for(tenant_id));
+
+CREATE TRIGGER update_lead_scoring_rules_updated_at
+  BEFORE UPDATE ON public.lead_scoring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.lead_quality ADD COLUMN min_score INTEGER;
+
+ALTER TABLE public.companies
+  ADD COLUMN lead_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN lead_score_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.contacts
+  ADD COLUMN lead_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN lead_score_updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.sites
+  ADD COLUMN lead_score INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN lead_score_updated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_companies_lead_score ON public.companies (tenant_id, lead_score) WHERE is_lead;
+CREATE INDEX idx_contacts_lead_score ON public.contacts (tenant_id, lead_score) WHERE is_lead;
+CREATE INDEX idx_sites_lead_score ON public.sites (tenant_id, lead_score) WHERE is_lead;
+
+-- Score of a lead given its row (as jsonb, so that the three lead tables can share it); attributes a table lacks,
+-- like a contact's industry, simply never match
+CREATE OR REPLACE FUNCTION public.calculate_lead_score(_entity_type TEXT, _lead JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _entity_id UUID := (_lead->>'id')::uuid;
+  _categories TEXT[] := ARRAY(SELECT jsonb_array_elements_text(COALESCE(_lead->'solution_category_ids', '[]'::jsonb)));
+  _activities INTEGER;
+  _todos INTEGER;
+  _files INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO _activities
+  FROM public.activities
+  WHERE deleted_at IS NULL
+    AND CASE _entity_type
+      WHEN 'company' THEN company_id
+      WHEN 'contact' THEN contact_id
+      ELSE site_id
+    END = _entity_id;
+
+  SELECT COUNT(*) INTO _todos
+  FROM public.todos
+  WHERE entity_type = _entity_type AND entity_id = _entity_id
+    AND status = 'completed' AND deleted_at IS NULL;
+
+  SELECT COUNT(*) INTO _files
+  FROM public.lead_files
+  WHERE entity_type = _entity_type AND entity_id = _entity_id;
+
+  RETURN COALESCE((
+    SELECT SUM(
+      CASE r.rule_type
+        WHEN 'industry' THEN CASE WHEN lower(_lead->>'industry') = lower(r.match_value) THEN r.points ELSE 0 END
+        WHEN 'company_size' THEN CASE WHEN lower(_lead->>'size') = lower(r.match_value) THEN r.points ELSE 0 END
+        WHEN 'high_value' THEN CASE WHEN (_lead->>'high_value')::boolean THEN r.points ELSE 0 END
+        WHEN 'solution_category' THEN CASE WHEN r.match_value = ANY(_categories) THEN r.points ELSE 0 END
+        WHEN 'source' THEN CASE WHEN _lead->>'source_id' = r.match_value THEN r.points ELSE 0 END
+        ELSE
+          CASE
+            WHEN r.max_points IS NULL THEN r.points * CASE r.rule_type
+              WHEN 'activities' THEN _activities WHEN 'todos_completed' THEN _todos ELSE _files END
+            ELSE LEAST(r.max_points, r.points * CASE r.rule_type
+              WHEN 'activities' THEN _activities WHEN 'todos_completed' THEN _todos ELSE _files END)
+          END
+      END
+    )
+    FROM public.lead_scoring_rules r
+    WHERE r.tenant_id = (_lead->>'tenant_id')::uuid AND r.active
+  ), 0);
+END;
+$$;
+
+-- Only called from the scoring triggers and refresh_lead_score
+REVOKE EXECUTE ON FUNCTION public.calculate_lead_score(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- The quality band a score falls in, or null when the tenant does not map scores onto qualities
+CREATE OR REPLACE FUNCTION public.lead_quality_for_score(_tenant_id UUID, _score INTEGER)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id
+  FROM public.lead_quality
+  WHERE tenant_id = _tenant_id AND active AND min_score IS NOT NULL AND min_score <= _score
+  ORDER BY min_score DESC
+  LIMIT 1;
+$$;
+
+-- Scores a lead as its scored attributes change. TG_ARGV[0] is the lead type of the table.
+CREATE OR REPLACE FUNCTION public.apply_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT COALESCE(NEW.is_lead, false) THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.lead_score := public.calculate_lead_score(TG_ARGV[0], to_jsonb(NEW));
+  NEW.lead_score_updated_at := now();
+  NEW.quality_id := COALESCE(public.lead_quality_for_score(NEW.tenant_id, NEW.lead_score), NEW.quality_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_company_lead_score
+  BEFORE INSERT OR UPDATE OF industry, size, high_value, solution_category_ids, source_id, is_lead
+  ON public.companies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_lead_score('company');
+
+CREATE TRIGGER apply_contact_lead_score
+  BEFORE INSERT OR UPDATE OF high_value, solution_category_ids, source_id, is_lead
+  ON public.contacts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_lead_score('contact');
+
+CREATE TRIGGER apply_site_lead_score
+  BEFORE INSERT OR UPDATE OF high_value, solution_category_ids, source_id, is_lead
+  ON public.sites
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_lead_score('site');
+
+-- Rescores one lead; used when its engagement changes
+CREATE OR REPLACE FUNCTION public.refresh_lead_score(_entity_type TEXT, _entity_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lead JSONB;
+  _score INTEGER;
+BEGIN
+  IF _entity_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _entity_type = 'company' THEN
+    SELECT to_jsonb(c) INTO _lead FROM public.companies c WHERE c.id = _entity_id AND c.is_lead;
+  ELSIF _entity_type = 'contact' THEN
+    SELECT to_jsonb(c) INTO _lead FROM public.contacts c WHERE c.id = _entity_id AND c.is_lead;
+  ELSIF _entity_type = 'site' THEN
+    SELECT to_jsonb(s) INTO _lead FROM public.sites s WHERE s.id = _entity_id AND s.is_lead;
+  END IF;
+
+  IF _lead IS NULL THEN
+    RETURN;
+  END IF;
+
+  _score := public.calculate_lead_score(_entity_type, _lead);
+
+  IF _entity_type = 'company' THEN
+    UPDATE public.companies
+    SET lead_score = _score, lead_score_updated_at = now(),
+        quality_id = COALESCE(public.lead_quality_for_score(tenant_id, _score), quality_id)
+    WHERE id = _entity_id;
+  ELSIF _entity_type = 'contact' THEN
+    UPDATE public.contacts
+    SET lead_score = _score, lead_score_updated_at = now(),
+        quality_id = COALESCE(public.lead_quality_for_score(tenant_id, _score), quality_id)
+    WHERE id = _entity_id;
+  ELSE
+    UPDATE public.sites
+    SET lead_score = _score, lead_score_updated_at = now(),
+        quality_id = COALESCE(public.lead_quality_for_score(tenant_id, _score), quality_id)
+    WHERE id = _entity_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_lead_score(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refresh_activity_lead_scores()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_lead_score('company', OLD.company_id);
+    PERFORM public.refresh_lead_score('contact', OLD.contact_id);
+    PERFORM public.refresh_lead_score('site', OLD.site_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_lead_score('company', NEW.company_id);
+    PERFORM public.refresh_lead_score('contact', NEW.contact_id);
+    PERFORM public.refresh_lead_score('site', NEW.site_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_activity_lead_scores
+  AFTER INSERT OR DELETE OR UPDATE OF company_id, contact_id, site_id, deleted_at ON public.activities
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_activity_lead_scores();
+
+-- Todos and lead files both point at their lead through entity_type and entity_id
+CREATE OR REPLACE FUNCTION public.refresh_entity_lead_score()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' AND OLD.entity_type IN ('company', 'contact', 'site') THEN
+    PERFORM public.refresh_lead_score(OLD.entity_type, OLD.entity_id);
+  END IF;
+  IF TG_OP <> 'DELETE' AND NEW.entity_type IN ('company', 'contact', 'site') THEN
+    PERFORM public.refresh_lead_score(NEW.entity_type, NEW.entity_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_todo_lead_score
+  AFTER INSERT OR DELETE OR UPDATE OF status, entity_type, entity_id, deleted_at ON public.todos
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_entity_lead_score();
+
+CREATE TRIGGER refresh_lead_file_lead_score
+  AFTER INSERT OR DELETE OR UPDATE OF entity_type, entity_id ON public.lead_files
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_entity_lead_score();
+
+-- Rescores every open lead of a tenant, after its rules or quality bands change. Returns the number of leads.
+CREATE OR REPLACE FUNCTION public.recalculate_lead_scores(_tenant_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _lead RECORD;
+  _count INTEGER := 0;
+BEGIN
+  IF NOT is_tenant_admin_for(_tenant_id) THEN
+    RAISE EXCEPTION 'Only tenant administrators can recalculate lead scores';
+  END IF;
+
+  FOR _lead IN
+    SELECT 'company' AS entity_type, id FROM public.companies WHERE tenant_id = _tenant_id AND is_lead
+    UNION ALL
+    SELECT 'contact', id FROM public.contacts WHERE tenant_id = _tenant_id AND is_lead
+    UNION ALL
+    SELECT 'site', id FROM public.sites WHERE tenant_id = _tenant_id AND is_lead
+  LOOP
+    PERFORM public.refresh_lead_score(_lead.entity_type, _lead.id);
+    _count := _count + 1;
+  END LOOP;
+
+  RETURN _count;
+END;
+$$;
@@ -0,0 +1,320 @@
+-- Lead to deal conversion in one transaction
+--
+-- Converting a lead used to be a chain of client-side inserts and updates, so a failure half way left a deal behind
+-- a lead that still looked open, and a double click converted the lead twice. convert_lead_to_deal now does the whole
+-- conversion under a lock on the lead row, and a lead can only have one live deal. Storage objects cannot be moved
+-- from SQL: the function creates the deal_files rows and keeps the lead_files rows, so the client can still read the
+-- objects, move them to the deal-files bucket and then delete the lead_files rows.
+
+-- Deals converted twice before this migration keep only the first as the lead's deal
+UPDATE public.deals d
+SET lead_entity_type = NULL,
+    lead_entity_id = NULL
+WHERE d.lead_entity_id IS NOT NULL
+  AND d.deleted_at IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.deals earlier
+    WHERE earlier.lead_entity_type = d.lead_entity_type
+      AND earlier.lead_entity_id = d.lead_entity_id
+      AND earlier.deleted_at IS NULL
+      AND (earlier.created_at, earlier.id) < (d.created_at, d.id)
+  );
+
+-- Replaces the plain lookup index from the lead funnel migration
+DROP INDEX IF EXISTS public.idx_deals_lead_entity;
+
+CREATE UNIQUE INDEX idx_deals_lead_entity
+  ON public.deals(lead_entity_type, lead_entity_id)
+  WHERE lead_entity_id IS NOT NULL AND deleted_at IS NULL;
+
+-- Convert a company, contact or site lead into a deal.
+-- _deal holds the deal columns; source fields and solution categories default to the lead's. The deal links to the
+-- lead itself (or the site's company and contact), and to a legacy customer only when one already matches: the lead's
+-- own customer, then a customer with the same email, then one with the same name. No customer is created.
+-- The lead's relationships are copied to the deal, its activities are linked to the deal and its files are registered
+-- as deal files. Calling it again for a converted lead returns the existing deal, so it is safe to retry.
+-- Returns a conversion report; "files" lists the lead files whose storage objects still have to be moved.
+CREATE OR REPLACE FUNCTION public.convert_lead_to_deal(
+  _lead_type TEXT,
+  _lead_id UUID,
+  _deal JSONB,
+  _payment_terms JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _lead JSONB;
+  _tenant_id UUID;
+  _input deals%ROWTYPE;
+  _deal_id UUID;
+  _deal_name TEXT;
+  _already_converted BOOLEAN := false;
+  _company_id UUID;
+  _contact_id UUID;
+  _site_id UUID;
+  _customer_id UUID;
+  _customer_match TEXT;
+  _relationship_types TEXT[];
+  _relationships_copied INTEGER := 0;
+  _activities_linked INTEGER := 0;
+  _files_registered INTEGER := 0;
+  _payment_terms_added INTEGER := 0;
+  _files JSONB;
+BEGIN
+  IF _lead_type = 'company' THEN
+    SELECT to_jsonb(c) INTO _lead FROM companies c WHERE id = _lead_id AND deleted_at IS NULL FOR UPDATE;
+    _relationship_types := ARRAY['lead_company'];
+  ELSIF _lead_type = 'contact' THEN
+    SELECT to_jsonb(c) INTO _lead FROM contacts c WHERE id = _lead_id AND deleted_at IS NULL FOR UPDATE;
+    _relationship_types := ARRAY['lead_contact'];
+  ELSIF _lead_type = 'site' THEN
+    SELECT to_jsonb(s) INTO _lead FROM sites s WHERE id = _lead_id AND deleted_at IS NULL FOR UPDATE;
+    -- The lead view stores a site lead's relationships as lead_company, the site page as site
+    _relationship_types := ARRAY['site', 'lead_company'];
+  ELSE
+    RAISE EXCEPTION 'Unknown lead type %', _lead_type;
+  END IF;
+
+  _tenant_id := (_lead->>'tenant_id')::uuid;
+  IF _lead IS NULL OR NOT user_has_tenant_access(auth.uid(), _tenant_id) THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  SELECT id, name, company_id, contact_id, site_id, customer_id
+  INTO _deal_id, _deal_name, _company_id, _contact_id, _site_id, _customer_id
+  FROM deals
+  WHERE lead_entity_type = _lead_type
+    AND lead_entity_id = _lead_id
+    AND deleted_at IS NULL;
+
+  IF FOUND THEN
+    _already_converted := true;
+  ELSE
+    IF NOT COALESCE((_lead->>'is_lead')::boolean, false) THEN
+      RAISE EXCEPTION 'Only open leads can be converted';
+    END IF;
+
+    -- Source fields and solution categories left empty in _deal come from the lead
+    _input := jsonb_populate_record(
+      NULL::deals,
+      jsonb_build_object(
+        'source_id', _lead->'source_id',
+        'source_company_id', _lead->'source_company_id',
+        'source_contact_id', _lead->'source_contact_id',
+        'source_user_id', _lead->'source_user_id',
+        'solution_category_ids', _lead->'solution_category_ids'
+      ) || jsonb_strip_nulls(COALESCE(_deal, '{}'::jsonb))
+    );
+
+    IF COALESCE(btrim(_input.name), '') = '' THEN
+      RAISE EXCEPTION 'Deal name is required';
+    END IF;
+
+    -- Records _deal points at have to belong to the lead's tenant
+    IF (_input.company_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM companies WHERE id = _input.company_id AND tenant_id = _tenant_id))
+       OR (_input.contact_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM contacts WHERE id = _input.contact_id AND tenant_id = _tenant_id))
+       OR (_input.site_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM sites WHERE id = _input.site_id AND tenant_id = _tenant_id))
+       OR (_input.customer_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM customers WHERE id = _input.customer_id AND tenant_id = _tenant_id))
+       OR (_input.stage_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM deal_stages WHERE id = _input.stage_id AND tenant_id = _tenant_id))
+       OR (_input.source_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM deal_sources WHERE id = _input.source_id AND tenant_id = _tenant_id))
+       OR (_input.source_company_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM companies WHERE id = _input.source_company_id AND tenant_id = _tenant_id))
+       OR (_input.source_contact_id IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM contacts WHERE id = _input.source_contact_id AND tenant_id = _tenant_id))
+       OR (_input.assigned_to IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM user_tenant_memberships
+          WHERE user_id = _input.assigned_to AND tenant_id = _tenant_id AND active = true
+        ))
+       OR (_input.source_user_id IS NOT NULL AND NOT EXISTS (
+          SELECT 1 FROM user_tenant_memberships WHERE user_id = _input.source_user_id AND tenant_id = _tenant_id
+        )) THEN
+      RAISE EXCEPTION 'The deal refers to records outside the lead''s tenant';
+    END IF;
+
+    _company_id := COALESCE(
+      _input.company_id,
+      CASE _lead_type WHEN 'company' THEN _lead_id WHEN 'site' THEN (_lead->>'company_id')::uuid END
+    );
+    _contact_id := COALESCE(
+      _input.contact_id,
+      CASE _lead_type WHEN 'contact' THEN _lead_id WHEN 'site' THEN (_lead->>'contact_id')::uuid END
+    );
+    _site_id := COALESCE(_input.site_id, CASE WHEN _lead_type = 'site' THEN _lead_id END);
+
+    _customer_id := _input.customer_id;
+    IF _customer_id IS NOT NULL THEN
+      _customer_match := 'selected';
+    ELSIF _lead->>'customer_id' IS NOT NULL THEN
+      _customer_id := (_lead->>'customer_id')::uuid;
+      _customer_match := 'lead';
+    END IF;
+
+    IF _customer_id IS NULL AND COALESCE(btrim(_lead->>'email'), '') <> '' THEN
+      SELECT id INTO _customer_id FROM customers
+      WHERE tenant_id = _tenant_id AND lower(email) = lower(btrim(_lead->>'email'))
+      ORDER BY active DESC, created_at
+      LIMIT 1;
+      IF FOUND THEN
+        _customer_match := 'email';
+      END IF;
+    END IF;
+
+    IF _customer_id IS NULL THEN
+      SELECT id INTO _customer_id FROM customers
+      WHERE tenant_id = _tenant_id
+        AND lower(name) = lower(btrim(CASE
+          WHEN _lead_type = 'contact'
+            THEN concat_ws(' ', _lead->>'first_name', NULLIF(_lead->>'last_name', ''))
+          ELSE _lead->>'name'
+        END))
+      ORDER BY active DESC, created_at
+      LIMIT 1;
+      IF FOUND THEN
+        _customer_match := 'name';
+      END IF;
+    END IF;
+
+    INSERT INTO deals (
+      tenant_id, name, description, value, currency_id, stage_id, priority, probability,
+      expected_close_date, assigned_to, notes, customer_id, company_id, contact_id, site_id,
+      source_id, source_company_id, source_contact_id, source_user_id, solution_category_ids,
+      lead_entity_type, lead_entity_id
+    ) VALUES (
+      _tenant_id,
+      btrim(_input.name),
+      _input.description,
+      _input.value,
+      _input.currency_id,
+      _input.stage_id,
+      COALESCE(_input.priority, 'medium'),
+      _input.probability,
+      _input.expected_close_date,
+      _input.assigned_to,
+      _input.notes,
+      _customer_id,
+      _company_id,
+      _contact_id,
+      _site_id,
+      _input.source_id,
+      _input.source_company_id,
+      _input.source_contact_id,
+      _input.source_user_id,
+      COALESCE(_input.solution_category_ids, '{}'),
+      _lead_type,
+      _lead_id
+    ) RETURNING id, name INTO _deal_id, _deal_name;
+
+    -- 360-view links
+    IF _company_id IS NOT NULL THEN
+      INSERT INTO deal_companies (deal_id, company_id, relationship_type)
+      VALUES (_deal_id, _company_id, 'primary');
+    END IF;
+    IF _contact_id IS NOT NULL THEN
+      INSERT INTO deal_contacts (deal_id, contact_id, role)
+      VALUES (_deal_id, _contact_id, 'primary');
+    END IF;
+
+    INSERT INTO deal_payment_terms (
+      deal_id, tenant_id, installment_number, amount_type, amount_value, calculated_amount, due_date, notes
+    )
+    SELECT
+      _deal_id,
+      _tenant_id,
+      term.installment_number,
+      term.amount_type,
+      term.amount_value,
+      term.calculated_amount,
+      term.due_date,
+      term.notes
+    FROM jsonb_populate_recordset(NULL::deal_payment_terms, COALESCE(_payment_terms, '[]'::jsonb)) term;
+    GET DIAGNOSTICS _payment_terms_added = ROW_COUNT;
+
+    INSERT INTO entity_relationships (
+      tenant_id, entity_type, entity_id, relationship_role_id, company_id, contact_id,
+      notes, is_active, start_date, end_date
+    )
+    SELECT DISTINCT ON (er.relationship_role_id, er.company_id, er.contact_id)
+      _tenant_id, 'deal', _deal_id, er.relationship_role_id, er.company_id, er.contact_id,
+      er.notes, er.is_active, er.start_date, er.end_date
+    FROM entity_relationships er
+    WHERE er.entity_type = ANY(_relationship_types)
+      AND er.entity_id = _lead_id
+      AND er.tenant_id = _tenant_id
+    ORDER BY er.relationship_role_id, er.company_id, er.contact_id, er.is_active DESC, er.created_at DESC;
+    GET DIAGNOSTICS _relationships_copied = ROW_COUNT;
+
+    UPDATE activities
+    SET deal_id = _deal_id
+    WHERE tenant_id = _tenant_id
+      AND deal_id IS NULL
+      AND deleted_at IS NULL
+      AND CASE _lead_type
+        WHEN 'company' THEN company_id = _lead_id
+        WHEN 'contact' THEN contact_id = _lead_id
+        ELSE site_id = _lead_id
+      END;
+    GET DIAGNOSTICS _activities_linked = ROW_COUNT;
+
+    -- Same object path in the deal-files bucket
+    INSERT INTO deal_files (deal_id, tenant_id, name, file_path, mime_type, file_size, notes, created_by)
+    SELECT _deal_id, _tenant_id, lf.name, lf.file_path, lf.mime_type, lf.file_size, lf.notes, lf.created_by
+    FROM lead_files lf
+    WHERE lf.entity_type = _lead_type
+      AND lf.entity_id = _lead_id
+      AND lf.tenant_id = _tenant_id;
+    GET DIAGNOSTICS _files_registered = ROW_COUNT;
+
+    IF _lead_type = 'company' THEN
+      UPDATE companies SET is_lead = false, updated_at = now() WHERE id = _lead_id;
+    ELSIF _lead_type = 'contact' THEN
+      UPDATE contacts SET is_lead = false, updated_at = now() WHERE id = _lead_id;
+    ELSE
+      UPDATE sites SET is_lead = false, updated_at = now() WHERE id = _lead_id;
+    END IF;
+
+    INSERT INTO activity_logs (
+      tenant_id, entity_type, entity_id, activity_type, title, description, created_by
+    ) VALUES (
+      _tenant_id, 'deal', _deal_id, 'lead_converted', 'Lead Converted to Deal',
+      _lead_type || ' lead was converted to deal "' || _deal_name || '"'
+        || CASE WHEN _relationships_copied > 0 THEN ', ' || _relationships_copied || ' relationship(s) copied' ELSE '' END
+        || CASE WHEN _activities_linked > 0 THEN ', ' || _activities_linked || ' activities linked' ELSE '' END
+        || CASE WHEN _files_registered > 0 THEN ', ' || _files_registered || ' file(s) moved' ELSE '' END,
+      auth.uid()
+    );
+  END IF;
+
+  -- Lead files left behind by an earlier attempt are still waiting for their storage objects to be moved
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('id', lf.id, 'file_path', lf.file_path) ORDER BY lf.created_at), '[]'::jsonb)
+  INTO _files
+  FROM lead_files lf
+  WHERE lf.entity_type = _lead_type
+    AND lf.entity_id = _lead_id
+    AND lf.tenant_id = _tenant_id;
+
+  RETURN jsonb_build_object(
+    'deal_id', _deal_id,
+    'deal_name', _deal_name,
+    'already_converted', _already_converted,
+    'company_id', _company_id,
+    'contact_id', _contact_id,
+    'site_id', _site_id,
+    'customer_id', _customer_id,
+    'customer_match', _customer_match,
+    'payment_terms_added', _payment_terms_added,
+    'relationships_copied', _relationships_copied,
+    'activities_linked', _activities_linked,
+    'files_registered', _files_registered,
+    'files', _files
+  );
+END;
+$$;
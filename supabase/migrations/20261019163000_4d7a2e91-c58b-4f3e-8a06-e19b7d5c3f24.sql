@@ -0,0 +1,397 @@
+-- Merging duplicate companies, contacts and sites
+--
+-- merge_records folds one record into another: the surviving record takes the field values picked in the merge
+-- dialog, every reference to the merged record is moved to it and the merged record is soft deleted. Each moved
+-- reference is logged in record_merge_changes (link rows that would duplicate one the survivor already has are
+-- removed and kept there in full), so undo_record_merge can put everything back.
+
+CREATE TABLE public.record_merges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL,
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('company', 'contact', 'site')),
+  surviving_id UUID NOT NULL,
+  merged_id UUID NOT NULL,
+  surviving_name TEXT NOT NULL,
+  merged_name TEXT NOT NULL,
+  -- The survivor's values of the fields the merge changed, restored on undo
+  previous_values JSONB NOT NULL DEFAULT '{}'::jsonb,
+  merged_data JSONB NOT NULL,
+  references_moved INTEGER NOT NULL DEFAULT 0,
+  references_removed INTEGER NOT NULL DEFAULT 0,
+  merged_by UUID,
+  merged_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  undone_by UUID,
+  undone_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_record_merges_tenant ON public.record_merges (tenant_id, merged_at DESC);
+CREATE INDEX idx_record_merges_records ON public.record_merges (surviving_id, merged_id);
+
+CREATE TABLE public.record_merge_changes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  merge_id UUID NOT NULL REFERENCES public.record_merges(id) ON DELETE CASCADE,
+  table_name TEXT NOT NULL,
+  column_name TEXT NOT NULL,
+  row_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('repointed', 'removed')),
+  -- Full row of a removed link, re-inserted on undo
+  row_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_record_merge_changes_merge ON public.record_merge_changes (merge_id);
+
+-- Written only by merge_records and undo_record_merge
+ALTER TABLE public.record_merges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.record_merge_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant users can view record merges"
+ON public.record_merges
+FOR SELECT
+USING (user_has_tenant_access(auth.uid(), tenant_id));
+
+CREATE POLICY "Tenant users can view record merge changes"
+ON public.record_merge_changes
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.record_merges m
+    WHERE m.id = merge_id AND user_has_tenant_access(auth.uid(), m.tenant_id)
+  )
+);
+
+-- Moves the rows of _table whose _column points at _from over to _to, logging each row against the merge.
+-- A row that would break a unique constraint duplicates a link the survivor already has: it is deleted when
+-- _remove_conflicts is set and left on the merged record otherwise. Returns the number of rows moved.
+CREATE OR REPLACE FUNCTION public.repoint_merged_reference(
+  _merge_id UUID,
+  _table TEXT,
+  _column TEXT,
+  _from UUID,
+  _to UUID,
+  _condition TEXT DEFAULT NULL,
+  _remove_conflicts BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _row JSONB;
+  _moved INTEGER := 0;
+BEGIN
+  FOR _row IN EXECUTE format(
+    'SELECT to_jsonb(t) FROM %I t WHERE %I = $1%s',
+    _table, _column, COALESCE(' AND ' || _condition, '')
+  ) USING _from
+  LOOP
+    BEGIN
+      EXECUTE format('UPDATE %I SET %I = $1 WHERE id = $2', _table, _column) USING _to, (_row->>'id')::uuid;
+      INSERT INTO record_merge_changes (merge_id, table_name, column_name, row_id, action)
+      VALUES (_merge_id, _table, _column, (_row->>'id')::uuid, 'repointed');
+      _moved := _moved + 1;
+    EXCEPTION WHEN unique_violation THEN
+      IF _remove_conflicts THEN
+        EXECUTE format('DELETE FROM %I WHERE id = $1', _table) USING (_row->>'id')::uuid;
+        INSERT INTO record_merge_changes (merge_id, table_name, column_name, row_id, action, row_data)
+        VALUES (_merge_id, _table, _column, (_row->>'id')::uuid, 'removed', _row);
+      END IF;
+    END;
+  END LOOP;
+
+  RETURN _moved;
+END;
+$$;
+
+-- Only callable from merge_records
+REVOKE EXECUTE ON FUNCTION public.repoint_merged_reference(UUID, TEXT, TEXT, UUID, UUID, TEXT, BOOLEAN)
+  FROM PUBLIC, anon, authenticated;
+
+-- Merge _merged_id into _surviving_id. _fields holds the surviving values picked for the mergeable columns; lead
+-- status, the high value flag and solution categories are combined from both records. Tenant admins only.
+-- Returns the merge id, which undo_record_merge takes.
+CREATE OR REPLACE FUNCTION public.merge_records(
+  _entity_type TEXT,
+  _surviving_id UUID,
+  _merged_id UUID,
+  _fields JSONB DEFAULT '{}'::jsonb
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _table TEXT;
+  _mergeable TEXT[];
+  _survivor JSONB;
+  _merged JSONB;
+  _tenant_id UUID;
+  _values JSONB;
+  _unknown TEXT;
+  _merge_id UUID;
+  _moved INTEGER := 0;
+  _removed INTEGER;
+  _ref RECORD;
+BEGIN
+  IF _entity_type = 'company' THEN
+    _table := 'companies';
+    _mergeable := ARRAY[
+      'name', 'email', 'phone', 'phone_number', 'country_code', 'website', 'industry', 'size', 'headquarters',
+      'description', 'notes', 'linkedin_page', 'instagram_page', 'logo_url'
+    ];
+  ELSIF _entity_type = 'contact' THEN
+    _table := 'contacts';
+    _mergeable := ARRAY[
+      'first_name', 'last_name', 'email', 'phone', 'phone_number', 'country_code', 'position', 'address', 'notes',
+      'customer_id'
+    ];
+  ELSIF _entity_type = 'site' THEN
+    _table := 'sites';
+    _mergeable := ARRAY[
+      'name', 'address', 'city', 'state', 'country', 'postal_code', 'phone_number', 'country_code', 'latitude',
+      'longitude', 'notes', 'company_id', 'contact_id', 'customer_id'
+    ];
+  ELSE
+    RAISE EXCEPTION 'Unknown record type %', _entity_type;
+  END IF;
+
+  IF _surviving_id = _merged_id THEN
+    RAISE EXCEPTION 'A record cannot be merged into itself';
+  END IF;
+
+  -- Lock in id order so two merges of the same pair cannot deadlock
+  EXECUTE format('SELECT 1 FROM %I WHERE id IN ($1, $2) ORDER BY id FOR UPDATE', _table)
+  USING _surviving_id, _merged_id;
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1 AND deleted_at IS NULL', _table)
+  INTO _survivor USING _surviving_id;
+  EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1 AND deleted_at IS NULL', _table)
+  INTO _merged USING _merged_id;
+
+  IF _survivor IS NULL OR _merged IS NULL OR _survivor->>'tenant_id' <> _merged->>'tenant_id' THEN
+    RAISE EXCEPTION 'Records not found';
+  END IF;
+
+  _tenant_id := (_survivor->>'tenant_id')::uuid;
+  IF NOT is_tenant_admin_for(_tenant_id) THEN
+    RAISE EXCEPTION 'Only tenant admins can merge records';
+  END IF;
+
+  SELECT key INTO _unknown FROM jsonb_object_keys(COALESCE(_fields, '{}'::jsonb)) key WHERE key <> ALL(_mergeable) LIMIT 1;
+  IF _unknown IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', _unknown;
+  END IF;
+
+  _values := COALESCE(_fields, '{}'::jsonb) || jsonb_build_object(
+    'is_lead', COALESCE((_survivor->>'is_lead')::boolean, false) AND COALESCE((_merged->>'is_lead')::boolean, false),
+    'high_value', COALESCE((_survivor->>'high_value')::boolean, false) OR COALESCE((_merged->>'high_value')::boolean, false),
+    'solution_category_ids', (
+      SELECT COALESCE(jsonb_agg(DISTINCT category), '[]'::jsonb)
+      FROM (VALUES (_survivor->'solution_category_ids'), (_merged->'solution_category_ids')) ids(list),
+        jsonb_array_elements(CASE WHEN jsonb_typeof(ids.list) = 'array' THEN ids.list ELSE '[]'::jsonb END) category
+    )
+  );
+
+  INSERT INTO record_merges (
+    tenant_id, entity_type, surviving_id, merged_id, surviving_name, merged_name, previous_values, merged_data, merged_by
+  ) VALUES (
+    _tenant_id,
+    _entity_type,
+    _surviving_id,
+    _merged_id,
+    COALESCE(_survivor->>'name', concat_ws(' ', _survivor->>'first_name', _survivor->>'last_name')),
+    COALESCE(_merged->>'name', concat_ws(' ', _merged->>'first_name', _merged->>'last_name')),
+    (SELECT jsonb_object_agg(key, _survivor->key) FROM jsonb_object_keys(_values) key),
+    _merged,
+    auth.uid()
+  ) RETURNING id INTO _merge_id;
+
+  EXECUTE format(
+    'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r WHERE t.id = $2',
+    _table,
+    (SELECT string_agg(format('%I = r.%I', key, key), ', ') FROM jsonb_object_keys(_values) key),
+    _table
+  ) USING _values, _surviving_id;
+
+  -- Every place a record of this type is referenced: table, column, extra condition, remove duplicate links
+  FOR _ref IN
+    SELECT * FROM (VALUES
+      ('company', 'deals', 'company_id', NULL, false),
+      ('company', 'deals', 'source_company_id', NULL, false),
+      ('company', 'deals', 'lead_entity_id', 'lead_entity_type = ''company''', false),
+      ('company', 'contracts', 'company_id', NULL, false),
+      ('company', 'activities', 'company_id', NULL, false),
+      ('company', 'todos', 'entity_id', 'entity_type = ''company''', false),
+      ('company', 'entity_relationships', 'company_id', NULL, false),
+      ('company', 'entity_relationships', 'entity_id', 'entity_type = ''lead_company''', false),
+      ('company', 'company_contacts', 'company_id', NULL, true),
+      ('company', 'company_sites', 'company_id', NULL, true),
+      ('company', 'company_customers', 'company_id', NULL, true),
+      ('company', 'company_deals', 'company_id', NULL, true),
+      ('company', 'deal_companies', 'company_id', NULL, true),
+      ('company', 'contract_companies', 'company_id', NULL, true),
+      ('company', 'companies', 'source_company_id', NULL, false),
+      ('company', 'contacts', 'source_company_id', NULL, false),
+      ('company', 'sites', 'company_id', NULL, false),
+      ('company', 'sites', 'source_company_id', NULL, false),
+      ('company', 'devices', 'vendor_id', NULL, false),
+      ('company', 'lead_files', 'entity_id', 'entity_type = ''company''', false),
+      ('company', 'lead_stage_history', 'entity_id', 'entity_type = ''company''', false),
+      ('company', 'activity_logs', 'entity_id', 'entity_type IN (''company'', ''companies'')', false),
+      ('contact', 'deals', 'contact_id', NULL, false),
+      ('contact', 'deals', 'source_contact_id', NULL, false),
+      ('contact', 'deals', 'lead_entity_id', 'lead_entity_type = ''contact''', false),
+      ('contact', 'contracts', 'contact_id', NULL, false),
+      ('contact', 'quotes', 'contact_id', NULL, false),
+      ('contact', 'activities', 'contact_id', NULL, false),
+      ('contact', 'todos', 'contact_id', NULL, false),
+      ('contact', 'todos', 'entity_id', 'entity_type = ''contact''', false),
+      ('contact', 'entity_relationships', 'contact_id', NULL, false),
+      ('contact', 'entity_relationships', 'entity_id', 'entity_type = ''lead_contact''', false),
+      ('contact', 'company_contacts', 'contact_id', NULL, true),
+      ('contact', 'contact_sites', 'contact_id', NULL, true),
+      ('contact', 'deal_contacts', 'contact_id', NULL, true),
+      ('contact', 'contract_contacts', 'contact_id', NULL, true),
+      ('contact', 'companies', 'source_contact_id', NULL, false),
+      ('contact', 'contacts', 'source_contact_id', NULL, false),
+      ('contact', 'sites', 'contact_id', NULL, false),
+      ('contact', 'sites', 'source_contact_id', NULL, false),
+      ('contact', 'lead_files', 'entity_id', 'entity_type = ''contact''', false),
+      ('contact', 'lead_stage_history', 'entity_id', 'entity_type = ''contact''', false),
+      ('contact', 'activity_logs', 'entity_id', 'entity_type IN (''contact'', ''contacts'')', false),
+      ('site', 'deals', 'site_id', NULL, false),
+      ('site', 'deals', 'lead_entity_id', 'lead_entity_type = ''site''', false),
+      ('site', 'contracts', 'site_id', NULL, false),
+      ('site', 'quotes', 'site_id', NULL, false),
+      ('site', 'activities', 'site_id', NULL, false),
+      ('site', 'todos', 'location_site_id', NULL, false),
+      ('site', 'todos', 'entity_id', 'entity_type = ''site''', false),
+      -- Site leads keep their relationships under lead_company
+      ('site', 'entity_relationships', 'entity_id', 'entity_type IN (''site'', ''lead_company'')', false),
+      ('site', 'company_sites', 'site_id', NULL, true),
+      ('site', 'contact_sites', 'site_id', NULL, true),
+      ('site', 'projects', 'site_id', NULL, false),
+      ('site', 'project_sites', 'site_id', NULL, true),
+      ('site', 'project_floors', 'site_id', NULL, false),
+      ('site', 'lead_files', 'entity_id', 'entity_type = ''site''', false),
+      ('site', 'lead_stage_history', 'entity_id', 'entity_type = ''site''', false),
+      ('site', 'activity_logs', 'entity_id', 'entity_type IN (''site'', ''sites'')', false)
+    ) AS refs(entity_type, table_name, column_name, condition, remove_conflicts)
+    WHERE refs.entity_type = _entity_type
+  LOOP
+    _moved := _moved + repoint_merged_reference(
+      _merge_id, _ref.table_name, _ref.column_name, _merged_id, _surviving_id, _ref.condition, _ref.remove_conflicts
+    );
+  END LOOP;
+
+  SELECT count(*) INTO _removed FROM record_merge_changes WHERE merge_id = _merge_id AND action = 'removed';
+
+  EXECUTE format('UPDATE %I SET deleted_at = now(), deleted_by = auth.uid() WHERE id = $1', _table)
+  USING _merged_id;
+
+  UPDATE record_merges
+  SET references_moved = _moved,
+      references_removed = _removed
+  WHERE id = _merge_id;
+
+  INSERT INTO activity_logs (
+    tenant_id, entity_id, entity_type, activity_type, title, description, created_by
+  )
+  SELECT
+    _tenant_id,
+    _surviving_id,
+    _table,
+    'records_merged',
+    'Merged duplicate: ' || m.merged_name,
+    '"' || m.merged_name || '" was merged into "' || m.surviving_name || '"; '
+      || _moved || ' reference(s) moved',
+    auth.uid()
+  FROM record_merges m
+  WHERE m.id = _merge_id;
+
+  RETURN _merge_id;
+END;
+$$;
+
+-- Undo a merge: the merged record comes back with its references and the survivor gets its old field values.
+-- Merges are undone newest first when a later merge involves one of the same records.
+CREATE OR REPLACE FUNCTION public.undo_record_merge(_merge_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _merge record_merges%ROWTYPE;
+  _table TEXT;
+  _change RECORD;
+BEGIN
+  SELECT * INTO _merge FROM record_merges WHERE id = _merge_id FOR UPDATE;
+  IF NOT FOUND OR NOT user_has_tenant_access(auth.uid(), _merge.tenant_id) THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+
+  IF NOT is_tenant_admin_for(_merge.tenant_id) THEN
+    RAISE EXCEPTION 'Only tenant admins can undo merges';
+  END IF;
+
+  IF _merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge has already been undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM record_merges later
+    WHERE later.tenant_id = _merge.tenant_id
+      AND later.merged_at > _merge.merged_at
+      AND later.undone_at IS NULL
+      AND (later.surviving_id IN (_merge.surviving_id, _merge.merged_id)
+        OR later.merged_id IN (_merge.surviving_id, _merge.merged_id))
+  ) THEN
+    RAISE EXCEPTION 'A later merge involves these records; undo it first';
+  END IF;
+
+  _table := CASE _merge.entity_type WHEN 'company' THEN 'companies' WHEN 'contact' THEN 'contacts' ELSE 'sites' END;
+
+  EXECUTE format('UPDATE %I SET deleted_at = NULL, deleted_by = NULL WHERE id = $1', _table)
+  USING _merge.merged_id;
+
+  FOR _change IN
+    SELECT * FROM record_merge_changes WHERE merge_id = _merge_id
+  LOOP
+    IF _change.action = 'repointed' THEN
+      -- Rows moved on again since the merge are left where they are
+      EXECUTE format('UPDATE %I SET %I = $1 WHERE id = $2 AND %I = $3', _change.table_name, _change.column_name, _change.column_name)
+      USING _merge.merged_id, _change.row_id, _merge.surviving_id;
+    ELSE
+      EXECUTE format(
+        'INSERT INTO %I SELECT * FROM jsonb_populate_record(NULL::%I, $1) ON CONFLICT DO NOTHING',
+        _change.table_name, _change.table_name
+      ) USING _change.row_data;
+    END IF;
+  END LOOP;
+
+  EXECUTE format(
+    'UPDATE %I t SET %s FROM jsonb_populate_record(NULL::%I, $1) r WHERE t.id = $2',
+    _table,
+    (SELECT string_agg(format('%I = r.%I', key, key), ', ') FROM jsonb_object_keys(_merge.previous_values) key),
+    _table
+  ) USING _merge.previous_values, _merge.surviving_id;
+
+  UPDATE record_merges
+  SET undone_at = now(),
+      undone_by = auth.uid()
+  WHERE id = _merge_id;
+
+  INSERT INTO activity_logs (
+    tenant_id, entity_id, entity_type, activity_type, title, description, created_by
+  ) VALUES (
+    _merge.tenant_id,
+    _merge.surviving_id,
+    _table,
+    'merge_undone',
+    'Merge undone: ' || _merge.merged_name,
+    '"' || _merge.merged_name || '" was split back out of "' || _merge.surviving_name || '"',
+    auth.uid()
+  );
+END;
+$$;